@@ -0,0 +1,189 @@
+import React from 'react';
+import {
+  Box,
+  IconButton,
+  Tooltip,
+  Divider,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { SlideAnimation, SlideTransition } from '@/lib/models/slide';
+import {
+  ANIMATION_DEFAULTS,
+  AnimatedSlide,
+  buildAnimationSteps,
+  moveObjectAnimation,
+  resolveTransition,
+  setObjectAnimation,
+} from '@/lib/models/animation';
+
+const EFFECTS: { value: SlideAnimation['type']; label: string }[] = [
+  { value: 'fadeIn', label: 'Fade in' },
+  { value: 'slideIn', label: 'Fly in' },
+  { value: 'zoomIn', label: 'Zoom in' },
+  { value: 'rotate', label: 'Spin in' },
+  { value: 'bounce', label: 'Bounce' },
+];
+
+const TRIGGERS: { value: SlideAnimation['trigger']; label: string }[] = [
+  { value: 'onClick', label: 'On click' },
+  { value: 'withPrevious', label: 'With previous' },
+  { value: 'afterPrevious', label: 'After previous' },
+  { value: 'onEnter', label: 'When slide appears' },
+];
+
+const TRANSITIONS: { value: SlideTransition['type']; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Push' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'flip', label: 'Flip' },
+];
+
+const DIRECTIONS: NonNullable<SlideTransition['direction']>[] = ['left', 'right', 'up', 'down'];
+
+interface AnimationPanelProps {
+  slide: AnimatedSlide & { transition?: SlideTransition };
+  objectId?: string;    // Selected object, if any
+  onChange: (updates: { transition?: SlideTransition; animations?: SlideAnimation[] }) => void;
+}
+
+export const AnimationPanel: React.FC<AnimationPanelProps> = ({
+  slide,
+  objectId,
+  onChange,
+}) => {
+  const transition = resolveTransition(slide.transition);
+  const animations = slide.animations || [];
+  const animation = objectId ? animations.find(item => item.objectId === objectId) : undefined;
+  const index = animation ? animations.indexOf(animation) : -1;
+  const scheduled = buildAnimationSteps(slide).scheduled
+    .find(item => item.animation.objectId === objectId);
+
+  const updateAnimation = (updates: Partial<Omit<SlideAnimation, 'objectId'>> | null) => {
+    if (objectId) {
+      onChange({ animations: setObjectAnimation(animations, objectId, updates) });
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+      <Typography variant="body2" color="text.secondary">
+        Transition
+      </Typography>
+      <TextField
+        select
+        size="small"
+        value={transition.type}
+        onChange={(e) => onChange({ transition: { ...transition, type: e.target.value as SlideTransition['type'] } })}
+        sx={{ minWidth: 110 }}
+      >
+        {TRANSITIONS.map(option => (
+          <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+        ))}
+      </TextField>
+      {transition.type === 'slide' && (
+        <TextField
+          select
+          size="small"
+          value={transition.direction}
+          onChange={(e) => onChange({ transition: { ...transition, direction: e.target.value as SlideTransition['direction'] } })}
+          sx={{ minWidth: 90 }}
+        >
+          {DIRECTIONS.map(direction => (
+            <MenuItem key={direction} value={direction}>{direction}</MenuItem>
+          ))}
+        </TextField>
+      )}
+      {transition.type !== 'none' && (
+        <TextField
+          type="number"
+          size="small"
+          label="ms"
+          value={transition.duration}
+          onChange={(e) => onChange({ transition: { ...transition, duration: Math.max(0, Number(e.target.value)) } })}
+          inputProps={{ step: 100, min: 0 }}
+          sx={{ width: 90 }}
+        />
+      )}
+
+      {objectId && (
+        <>
+          <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
+          <Typography variant="body2" color="text.secondary">
+            Animation
+          </Typography>
+          <TextField
+            select
+            size="small"
+            value={animation?.type || 'none'}
+            onChange={(e) => updateAnimation(
+              e.target.value === 'none' ? null : { type: e.target.value as SlideAnimation['type'] }
+            )}
+            sx={{ minWidth: 110 }}
+          >
+            <MenuItem value="none">None</MenuItem>
+            {EFFECTS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+
+          {animation && (
+            <>
+              <TextField
+                select
+                size="small"
+                value={animation.trigger}
+                onChange={(e) => updateAnimation({ trigger: e.target.value as SlideAnimation['trigger'] })}
+                sx={{ minWidth: 150 }}
+              >
+                {TRIGGERS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                type="number"
+                size="small"
+                label="ms"
+                value={animation.duration ?? ANIMATION_DEFAULTS.duration}
+                onChange={(e) => updateAnimation({ duration: Math.max(0, Number(e.target.value)) })}
+                inputProps={{ step: 100, min: 0 }}
+                sx={{ width: 90 }}
+              />
+              <Tooltip title="Play earlier">
+                <span>
+                  <IconButton
+                    size="small"
+                    disabled={index <= 0}
+                    onClick={() => onChange({ animations: moveObjectAnimation(animations, animation.objectId, -1) })}
+                  >
+                    <ArrowUpwardIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Play later">
+                <span>
+                  <IconButton
+                    size="small"
+                    disabled={index >= animations.length - 1}
+                    onClick={() => onChange({ animations: moveObjectAnimation(animations, animation.objectId, 1) })}
+                  >
+                    <ArrowDownwardIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              {scheduled && (
+                <Typography variant="caption" color="text.secondary">
+                  {scheduled.build === 0 ? 'Plays on entry' : `Click ${scheduled.build}`}
+                </Typography>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
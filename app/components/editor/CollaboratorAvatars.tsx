@@ -0,0 +1,39 @@
+import React from 'react';
+import { Avatar, AvatarGroup, Tooltip } from '@mui/material';
+import { Collaborator, presenceInitials } from '@/lib/collab/presence';
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  max?: number;
+  size?: number;
+  describe?: (collaborator: Collaborator) => string;  // Tooltip text
+}
+
+/**
+ * Other people in the presentation, in their presence colors
+ */
+export const CollaboratorAvatars: React.FC<CollaboratorAvatarsProps> = ({
+  collaborators,
+  max = 4,
+  size = 28,
+  describe = (collaborator) => collaborator.name,
+}) => {
+  if (collaborators.length === 0) {
+    return null;
+  }
+
+  return (
+    <AvatarGroup
+      max={max}
+      sx={{ '& .MuiAvatar-root': { width: size, height: size, fontSize: size * 0.42, borderWidth: 2 } }}
+    >
+      {collaborators.map((collaborator) => (
+        <Tooltip key={collaborator.clientId} title={describe(collaborator)}>
+          <Avatar sx={{ bgcolor: collaborator.color }}>
+            {presenceInitials(collaborator.name)}
+          </Avatar>
+        </Tooltip>
+      ))}
+    </AvatarGroup>
+  );
+};
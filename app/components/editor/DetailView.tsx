@@ -9,6 +9,15 @@ import {
   Chip,
   Zoom,
   Fade,
+  Menu,
+  MenuItem,
+  ListSubheader,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
 } from '@mui/material';
 import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
 import NavigateNextIcon from '@mui/icons-material/NavigateNext';
@@ -17,7 +26,30 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import FullscreenIcon from '@mui/icons-material/Fullscreen';
 import FullscreenExitIcon from '@mui/icons-material/FullscreenExit';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import CollectionsIcon from '@mui/icons-material/Collections';
+import TuneIcon from '@mui/icons-material/Tune';
 import { SlideRenderer } from '@/components/SlideRenderer';
+import { ImageVariantGallery } from '@/components/ImageVariantGallery';
+import { ImageObject, SlideAnimation, SlideObjectUnion, SlideTransition, TableObject } from '@/lib/models/slide';
+import { TableCellRange } from '@/lib/models/table';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+import { TableToolbar } from './TableToolbar';
+import { ObjectInspector } from './ObjectInspector';
+import { AnimationPanel } from './AnimationPanel';
+import { SlideAIActionDialog } from './SlideAIActions';
+import { ImageAdjustDialog } from './ImageAdjustDialog';
+import { CollaboratorAvatars } from './CollaboratorAvatars';
+import { Collaborator, collaboratorsOnSlide } from '@/lib/collab/presence';
+import { CommentThread, commentPins, openThreadCounts } from '@/lib/collab/comments';
+import {
+  OBJECT_ACTIONS,
+  ObjectAction,
+  SLIDE_ACTIONS,
+  SLIDE_ACTION_LABELS,
+  SlideAction,
+  SlideActionResult,
+} from '@/lib/models/slide-actions';
 
 // Simplified slide interface for the editor
 interface SimpleSlide {
@@ -29,6 +61,8 @@ interface SimpleSlide {
   imageUrl?: string;
   order: number;
   objects?: any[];  // For compatibility with SlideRenderer
+  transition?: SlideTransition;
+  animations?: SlideAnimation[];
 }
 
 interface DetailViewProps {
@@ -39,8 +73,23 @@ interface DetailViewProps {
   onDeleteSlide: (slideId: string) => void;
   onDuplicateSlide: (slideId: string) => void;
   onDoubleClick?: () => void;
+  onUpdateObject?: (slideId: string, objectId: string, updates: Partial<SlideObjectUnion>) => void;
+  onUpdateSlide?: (slideId: string, updates: Partial<SimpleSlide>) => void;
+  onReplaceSlide?: (slideId: string, slides: SimpleSlide[]) => void;  // AI split and convert
+  onUpdateImage?: (slideId: string, objectId: string, updates: Partial<ImageObject>) => void | Promise<void>;  // Variants and hero
+  masterElements?: ResolvedMasterElement[][];  // Per slide, in slide order
+  templateId?: string;
+  userId?: string;
+  presentationId?: string;
+  collaborators?: Collaborator[];  // Shown on the slide they're on
+  onSelectObjects?: (objectIds: string[]) => void;
+  readOnly?: boolean;  // No slide buttons; leave out the update callbacks too
+  commentThreads?: CommentThread[];  // Open ones pinned to objects are outlined
 }
 
+// Comment pins stand out from presence colors
+const COMMENT_PIN_COLOR = '#f9a825';
+
 export const DetailView: React.FC<DetailViewProps> = ({
   slides,
   currentSlideIndex,
@@ -49,10 +98,89 @@ export const DetailView: React.FC<DetailViewProps> = ({
   onDeleteSlide,
   onDuplicateSlide,
   onDoubleClick,
+  onUpdateObject,
+  onUpdateSlide,
+  onReplaceSlide,
+  onUpdateImage,
+  masterElements,
+  templateId,
+  userId,
+  presentationId,
+  collaborators = [],
+  onSelectObjects,
+  readOnly = false,
+  commentThreads,
 }) => {
   const [isFullscreen, setIsFullscreen] = React.useState(false);
   const [windowSize, setWindowSize] = React.useState({ width: 1200, height: 675 });
+  const [selectedObjectId, setSelectedObjectId] = React.useState<string | undefined>();
+  const [tableSelection, setTableSelection] = React.useState<TableCellRange | null>(null);
+  const [aiMenuAnchor, setAiMenuAnchor] = React.useState<null | HTMLElement>(null);
+  const [aiAction, setAiAction] = React.useState<ObjectAction | SlideAction | null>(null);
+  const [variantsOpen, setVariantsOpen] = React.useState(false);
+  const [adjustOpen, setAdjustOpen] = React.useState(false);
   const currentSlide = slides[currentSlideIndex];
+  const selectedObject = currentSlide?.objects?.find(obj => obj.id === selectedObjectId);
+  const canRunTextActions = !!onUpdateObject && selectedObject?.type === 'text';
+  const selectedImage = onUpdateImage && selectedObject?.type === 'image' ? selectedObject as ImageObject : undefined;
+  const adjustableImage = onUpdateObject && selectedObject?.type === 'image' ? selectedObject as ImageObject : undefined;
+
+  const slideCollaborators = currentSlide ? collaboratorsOnSlide(collaborators, currentSlide.id) : [];
+  const remoteSelections = slideCollaborators.flatMap(collaborator =>
+    collaborator.objectIds.map(objectId => ({
+      clientId: collaborator.clientId,
+      objectId,
+      color: collaborator.color,
+      label: collaborator.name,
+    }))
+  ).concat(currentSlide && commentThreads
+    ? commentPins(commentThreads, currentSlide.id).map(pin => ({
+        clientId: 'comments',
+        objectId: pin.objectId,
+        color: COMMENT_PIN_COLOR,
+        label: pin.count === 1 ? '1 comment' : `${pin.count} comments`,
+      }))
+    : []);
+  const openComments = currentSlide && commentThreads ? openThreadCounts(commentThreads)[currentSlide.id] || 0 : 0;
+
+  // Clear object selection when moving between slides
+  React.useEffect(() => {
+    setSelectedObjectId(undefined);
+    setTableSelection(null);
+  }, [currentSlide?.id]);
+
+  React.useEffect(() => {
+    onSelectObjects?.(selectedObjectId ? [selectedObjectId] : []);
+  }, [onSelectObjects, selectedObjectId]);
+
+  const handleObjectClick = (objectId: string) => {
+    if (objectId !== selectedObjectId) {
+      setSelectedObjectId(objectId);
+      setTableSelection(null);
+    }
+  };
+
+  const handleObjectEdit = (objectId: string, updates: Partial<SlideObjectUnion>) => {
+    if (currentSlide) {
+      onUpdateObject?.(currentSlide.id, objectId, updates);
+    }
+  };
+
+  const handleChooseAIAction = (action: ObjectAction | SlideAction) => {
+    setAiMenuAnchor(null);
+    setAiAction(action);
+  };
+
+  const handleAcceptAIAction = (result: SlideActionResult) => {
+    if (currentSlide) {
+      if (result.kind === 'object') {
+        onUpdateObject?.(currentSlide.id, result.objectId, { content: result.after });
+      } else {
+        onReplaceSlide?.(currentSlide.id, result.slides);
+      }
+    }
+    setAiAction(null);
+  };
 
   React.useEffect(() => {
     const updateWindowSize = () => {
@@ -81,6 +209,15 @@ export const DetailView: React.FC<DetailViewProps> = ({
 
   const handleKeyPress = React.useCallback(
     (event: KeyboardEvent) => {
+      // Leave keys alone while typing in table cells or inputs
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+        return;
+      }
+      // ...and while an AI action preview or an image dialog is open
+      if (aiAction || variantsOpen || adjustOpen) {
+        return;
+      }
       if (event.key === 'ArrowLeft') {
         handlePrevious();
       } else if (event.key === 'ArrowRight') {
@@ -89,7 +226,7 @@ export const DetailView: React.FC<DetailViewProps> = ({
         setIsFullscreen(!isFullscreen);
       }
     },
-    [currentSlideIndex, isFullscreen]
+    [currentSlideIndex, isFullscreen, aiAction, variantsOpen, adjustOpen]
   );
 
   React.useEffect(() => {
@@ -116,20 +253,56 @@ export const DetailView: React.FC<DetailViewProps> = ({
           <Typography variant="h6" sx={{ flex: 1 }}>
             Slide {currentSlideIndex + 1} of {slides.length}
           </Typography>
+          <Box sx={{ mr: 2 }}>
+            <CollaboratorAvatars collaborators={slideCollaborators} size={24} />
+          </Box>
+          {openComments > 0 && (
+            <Chip
+              label={openComments === 1 ? '1 comment' : `${openComments} comments`}
+              size="small"
+              variant="outlined"
+              sx={{ mr: 1, borderColor: COMMENT_PIN_COLOR }}
+            />
+          )}
           <Chip
             label={currentSlide.type}
             size="small"
             sx={{ mr: 2 }}
           />
-          <IconButton onClick={() => onEditSlide(currentSlide.id)} size="small">
-            <EditIcon />
-          </IconButton>
-          <IconButton onClick={() => onDuplicateSlide(currentSlide.id)} size="small">
-            <ContentCopyIcon />
-          </IconButton>
-          <IconButton onClick={() => onDeleteSlide(currentSlide.id)} size="small">
-            <DeleteIcon />
-          </IconButton>
+          {!readOnly && (
+            <>
+              <IconButton onClick={() => onEditSlide(currentSlide.id)} size="small">
+                <EditIcon />
+              </IconButton>
+              <IconButton onClick={() => onDuplicateSlide(currentSlide.id)} size="small">
+                <ContentCopyIcon />
+              </IconButton>
+              <IconButton onClick={() => onDeleteSlide(currentSlide.id)} size="small">
+                <DeleteIcon />
+              </IconButton>
+            </>
+          )}
+          {(onReplaceSlide || canRunTextActions) && (
+            <Tooltip title="AI actions">
+              <IconButton onClick={(e) => setAiMenuAnchor(e.currentTarget)} size="small">
+                <AutoAwesomeIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {adjustableImage && (
+            <Tooltip title="Adjust image">
+              <IconButton onClick={() => setAdjustOpen(true)} size="small">
+                <TuneIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {selectedImage && (
+            <Tooltip title="Image variants">
+              <IconButton onClick={() => setVariantsOpen(true)} size="small">
+                <CollectionsIcon />
+              </IconButton>
+            </Tooltip>
+          )}
           <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
           <IconButton onClick={() => setIsFullscreen(true)} size="small">
             <FullscreenIcon />
@@ -137,6 +310,88 @@ export const DetailView: React.FC<DetailViewProps> = ({
         </Toolbar>
       )}
 
+      <Menu
+        anchorEl={aiMenuAnchor}
+        open={Boolean(aiMenuAnchor)}
+        onClose={() => setAiMenuAnchor(null)}
+      >
+        {canRunTextActions && <ListSubheader>Selected text</ListSubheader>}
+        {canRunTextActions && OBJECT_ACTIONS.map(action => (
+          <MenuItem key={action} onClick={() => handleChooseAIAction(action)}>
+            {SLIDE_ACTION_LABELS[action]}
+          </MenuItem>
+        ))}
+        {onReplaceSlide && <ListSubheader>Slide</ListSubheader>}
+        {onReplaceSlide && SLIDE_ACTIONS.map(action => (
+          <MenuItem key={action} onClick={() => handleChooseAIAction(action)}>
+            {SLIDE_ACTION_LABELS[action]}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <SlideAIActionDialog
+        action={aiAction}
+        slide={currentSlide}
+        objectId={selectedObject?.id}
+        templateId={templateId}
+        userId={userId}
+        onAccept={handleAcceptAIAction}
+        onClose={() => setAiAction(null)}
+      />
+
+      <Dialog open={variantsOpen && !!selectedImage} onClose={() => setVariantsOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Image variants</DialogTitle>
+        <DialogContent dividers>
+          {selectedImage && (
+            <ImageVariantGallery
+              key={selectedImage.id}
+              image={selectedImage}
+              slideId={currentSlide.id}
+              presentationId={presentationId}
+              onChange={(updates) => onUpdateImage?.(currentSlide.id, selectedImage.id, updates)}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setVariantsOpen(false)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+
+      {adjustOpen && adjustableImage && (
+        <ImageAdjustDialog
+          key={adjustableImage.id}
+          image={adjustableImage}
+          onApply={(updates) => {
+            handleObjectEdit(adjustableImage.id, updates);
+            setAdjustOpen(false);
+          }}
+          onClose={() => setAdjustOpen(false)}
+        />
+      )}
+
+      {!isFullscreen && onUpdateObject && selectedObject && (
+        <ObjectInspector
+          object={selectedObject}
+          onChange={(updates) => handleObjectEdit(selectedObject.id, updates)}
+        />
+      )}
+
+      {!isFullscreen && onUpdateObject && selectedObject?.type === 'table' && (
+        <TableToolbar
+          table={selectedObject as TableObject}
+          selection={tableSelection}
+          onChange={(updates) => handleObjectEdit(selectedObject.id, updates)}
+        />
+      )}
+
+      {!isFullscreen && onUpdateSlide && (
+        <AnimationPanel
+          slide={currentSlide}
+          objectId={selectedObject?.id}
+          onChange={(updates) => onUpdateSlide(currentSlide.id, updates)}
+        />
+      )}
+
       <Box
         sx={{
           flex: 1,
@@ -150,7 +405,12 @@ export const DetailView: React.FC<DetailViewProps> = ({
       >
         <Fade in key={currentSlide.id}>
           <Box
-            onDoubleClick={onDoubleClick}
+            onDoubleClick={(event) => {
+              // Double-clicking inside an editable cell selects text instead
+              if (!(event.target as HTMLElement).isContentEditable) {
+                onDoubleClick?.();
+              }
+            }}
             sx={{
               width: isFullscreen ? '100%' : 'calc(100% - 120px)',
               maxWidth: isFullscreen ? '100%' : '100%',
@@ -170,6 +430,14 @@ export const DetailView: React.FC<DetailViewProps> = ({
                 width={isFullscreen ? windowSize.width : windowSize.width - 120}
                 height={isFullscreen ? windowSize.height : windowSize.height - 240}
                 isPresenting={isFullscreen}
+                // Objects are selected to edit them, or to comment on them
+                onObjectClick={onUpdateObject || commentThreads ? handleObjectClick : undefined}
+                selectedObjectId={selectedObjectId}
+                onObjectEdit={onUpdateObject ? handleObjectEdit : undefined}
+                tableSelection={tableSelection}
+                onTableSelectionChange={setTableSelection}
+                masterElements={masterElements?.[currentSlideIndex]}
+                remoteSelections={remoteSelections}
               />
             ) : (
               // Fallback for slides without objects
@@ -7,6 +7,7 @@ import {
   IconButton,
   Menu,
   MenuItem,
+  Divider,
 } from '@mui/material';
 import {
   DndContext,
@@ -27,8 +28,14 @@ import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
 import { SlideRenderer } from '@/components/SlideRenderer';
 import { Slide } from '@/lib/models/slide';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+import { SLIDE_ACTIONS, SLIDE_ACTION_LABELS, SlideAction } from '@/lib/models/slide-actions';
+import { SlideAIActionDialog } from './SlideAIActions';
+import { CollaboratorAvatars } from './CollaboratorAvatars';
+import { Collaborator, collaboratorsOnSlide } from '@/lib/collab/presence';
 
 // Simplified slide interface for the editor
 interface SimpleSlide {
@@ -49,7 +56,14 @@ interface GridViewProps {
   onDeleteSlide: (slideId: string) => void;
   onDuplicateSlide: (slideId: string) => void;
   onDoubleClickSlide?: (slideId: string) => void;
+  onReplaceSlide?: (slideId: string, slides: SimpleSlide[]) => void;  // AI split and convert
   selectedSlideId?: string;
+  masterElements?: ResolvedMasterElement[][];  // Per slide, in slide order
+  templateId?: string;
+  userId?: string;
+  collaborators?: Collaborator[];  // Outlined on the slide they're on
+  readOnly?: boolean;  // No reordering or slide menu
+  commentCounts?: Record<string, number>;  // Open comment threads per slide id
 }
 
 interface SortableCardProps {
@@ -61,6 +75,13 @@ interface SortableCardProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onDoubleClick?: () => void;
+  onReplace?: (slides: SimpleSlide[]) => void;
+  masterElements?: ResolvedMasterElement[];
+  templateId?: string;
+  userId?: string;
+  collaborators: Collaborator[];  // On this slide
+  readOnly: boolean;
+  openComments: number;
 }
 
 const SortableCard: React.FC<SortableCardProps> = ({
@@ -72,8 +93,16 @@ const SortableCard: React.FC<SortableCardProps> = ({
   onDelete,
   onDuplicate,
   onDoubleClick,
+  onReplace,
+  masterElements,
+  templateId,
+  userId,
+  collaborators,
+  readOnly,
+  openComments,
 }) => {
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [aiAction, setAiAction] = useState<SlideAction | null>(null);
   const {
     attributes,
     listeners,
@@ -81,7 +110,7 @@ const SortableCard: React.FC<SortableCardProps> = ({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: slide.id });
+  } = useSortable({ id: slide.id, disabled: readOnly });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -189,6 +218,9 @@ const SortableCard: React.FC<SortableCardProps> = ({
           },
           overflow: 'hidden',
           borderRadius: 1,
+          // Outline stays clear of the hover shadow
+          outline: collaborators.length > 0 ? `3px solid ${collaborators[0].color}` : 'none',
+          outlineOffset: 2,
         }}
       >
         {slide.objects && slide.objects.length > 0 ? (() => {
@@ -209,6 +241,7 @@ const SortableCard: React.FC<SortableCardProps> = ({
                 width={dimensions.width}
                 height={dimensions.height}
                 isPresenting={false}
+                masterElements={masterElements}
               />
             </Box>
           );
@@ -249,24 +282,53 @@ const SortableCard: React.FC<SortableCardProps> = ({
         >
           {index + 1}
         </Box>
-        <IconButton
-          className="slide-menu-button"
-          size="small"
-          onClick={handleMenuOpen}
-          sx={{
-            position: 'absolute',
-            top: 8,
-            right: 8,
-            bgcolor: 'rgba(255, 255, 255, 0.9)',
-            opacity: 0,
-            transition: 'opacity 0.2s',
-            '&:hover': { 
-              bgcolor: 'rgba(255, 255, 255, 0.95)',
-            },
-          }}
-        >
-          <MoreVertIcon fontSize="small" />
-        </IconButton>
+        {openComments > 0 && (
+          <Box
+            sx={{
+              position: 'absolute',
+              bottom: 8,
+              right: 8,
+              display: 'flex',
+              alignItems: 'center',
+              gap: 0.5,
+              bgcolor: '#f9a825',
+              color: 'black',
+              px: 1,
+              py: 0.5,
+              borderRadius: 1,
+              fontSize: '0.75rem',
+              fontWeight: 500,
+            }}
+          >
+            <ChatBubbleOutlineIcon sx={{ fontSize: 14 }} />
+            {openComments}
+          </Box>
+        )}
+        {collaborators.length > 0 && (
+          <Box sx={{ position: 'absolute', top: 8, left: 8 }}>
+            <CollaboratorAvatars collaborators={collaborators} max={3} size={22} />
+          </Box>
+        )}
+        {!readOnly && (
+          <IconButton
+            className="slide-menu-button"
+            size="small"
+            onClick={handleMenuOpen}
+            sx={{
+              position: 'absolute',
+              top: 8,
+              right: 8,
+              bgcolor: 'rgba(255, 255, 255, 0.9)',
+              opacity: 0,
+              transition: 'opacity 0.2s',
+              '&:hover': { 
+                bgcolor: 'rgba(255, 255, 255, 0.95)',
+              },
+            }}
+          >
+            <MoreVertIcon fontSize="small" />
+          </IconButton>
+        )}
       </Box>
       <Menu
         anchorEl={anchorEl}
@@ -289,7 +351,34 @@ const SortableCard: React.FC<SortableCardProps> = ({
         >
           Delete
         </MenuItem>
+        {onReplace && <Divider />}
+        {onReplace && SLIDE_ACTIONS.map(action => (
+          <MenuItem
+            key={action}
+            onClick={() => {
+              setAiAction(action);
+              handleMenuClose();
+            }}
+          >
+            {SLIDE_ACTION_LABELS[action]}
+          </MenuItem>
+        ))}
       </Menu>
+      {onReplace && (
+        <SlideAIActionDialog
+          action={aiAction}
+          slide={slide}
+          templateId={templateId}
+          userId={userId}
+          onAccept={(result) => {
+            if (result.kind === 'slides') {
+              onReplace(result.slides);
+            }
+            setAiAction(null);
+          }}
+          onClose={() => setAiAction(null)}
+        />
+      )}
     </Box>
   );
 };
@@ -301,7 +390,14 @@ export const GridView: React.FC<GridViewProps> = ({
   onDeleteSlide,
   onDuplicateSlide,
   onDoubleClickSlide,
+  onReplaceSlide,
   selectedSlideId,
+  masterElements,
+  templateId,
+  userId,
+  collaborators = [],
+  readOnly = false,
+  commentCounts = {},
 }) => {
   // Load saved columns preference from localStorage
   const [columns, setColumns] = useState(() => {
@@ -409,6 +505,13 @@ export const GridView: React.FC<GridViewProps> = ({
                   onDelete={() => onDeleteSlide(slide.id)}
                   onDuplicate={() => onDuplicateSlide(slide.id)}
                   onDoubleClick={() => onDoubleClickSlide?.(slide.id)}
+                  onReplace={onReplaceSlide && ((replacement) => onReplaceSlide(slide.id, replacement))}
+                  masterElements={masterElements?.[index]}
+                  templateId={templateId}
+                  userId={userId}
+                  collaborators={collaboratorsOnSlide(collaborators, slide.id)}
+                  readOnly={readOnly}
+                  openComments={commentCounts[slide.id] || 0}
                 />
               ))}
             </Box>
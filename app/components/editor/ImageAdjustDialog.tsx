@@ -0,0 +1,261 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Slider,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import CropIcon from '@mui/icons-material/Crop';
+import CenterFocusStrongIcon from '@mui/icons-material/CenterFocusStrong';
+import { FocalPoint, ImageCrop, ImageObject } from '@/lib/models/slide';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  FULL_CROP,
+  ImageFilters,
+  ImageFit,
+  MIN_CROP_SIZE,
+  normalizeCrop,
+  normalizeFocalPoint,
+} from '@/lib/models/image-crop';
+import CroppedImage from '@/components/slides/CroppedImage';
+
+const FITS: { value: ImageFit; label: string }[] = [
+  { value: 'cover', label: 'Fill the box (trim)' },
+  { value: 'contain', label: 'Fit inside the box' },
+  { value: 'fill', label: 'Stretch' },
+  { value: 'none', label: 'Original size' },
+  { value: 'scale-down', label: 'Fit, never enlarge' },
+];
+
+const FILTER_CONTROLS: { key: keyof ImageFilters; label: string; max: number; unit: string }[] = [
+  { key: 'brightness', label: 'Brightness', max: 200, unit: '%' },
+  { key: 'contrast', label: 'Contrast', max: 200, unit: '%' },
+  { key: 'saturation', label: 'Saturation', max: 200, unit: '%' },
+  { key: 'blur', label: 'Blur', max: 20, unit: 'px' },
+];
+
+type Tool = 'crop' | 'focus';
+
+interface ImageAdjustDialogProps {
+  image: ImageObject;
+  onApply: (updates: Pick<ImageObject, 'fit' | 'crop' | 'focalPoint' | 'filters'>) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  fit: ImageFit;
+  crop: ImageCrop;
+  focalPoint: FocalPoint | null;  // null: the center of the crop
+  filters: Required<ImageFilters>;
+}
+
+function draftOf(image: ImageObject): Draft {
+  return {
+    fit: image.fit || 'cover',
+    crop: normalizeCrop(image.crop) || FULL_CROP,
+    focalPoint: image.focalPoint ? normalizeFocalPoint(image.focalPoint) : null,
+    filters: { ...DEFAULT_IMAGE_FILTERS, ...image.filters },
+  };
+}
+
+// A pointer position as fractions of the element
+function pointIn(element: HTMLElement, event: React.PointerEvent): FocalPoint {
+  const bounds = element.getBoundingClientRect();
+  return normalizeFocalPoint({
+    x: (event.clientX - bounds.left) / bounds.width,
+    y: (event.clientY - bounds.top) / bounds.height,
+  });
+}
+
+/**
+ * Crop, focal point, fit and filters for an image object. Drag on the
+ * source to draw the crop, or click it to place the focal point; the
+ * preview shows the image in its box. Nothing changes until Apply.
+ * Rendered only while open, so each opening starts from the image.
+ */
+export const ImageAdjustDialog: React.FC<ImageAdjustDialogProps> = ({
+  image,
+  onApply,
+  onClose,
+}) => {
+  const [draft, setDraft] = React.useState<Draft>(() => draftOf(image));
+  const [tool, setTool] = React.useState<Tool>('crop');
+  const dragStart = React.useRef<FocalPoint | null>(null);
+
+  const update = (changes: Partial<Draft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLElement>) => {
+    const point = pointIn(event.currentTarget, event);
+    if (tool === 'focus') {
+      update({ focalPoint: point });
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = point;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    const start = dragStart.current;
+    if (!start) {
+      return;
+    }
+    const point = pointIn(event.currentTarget, event);
+    const width = Math.abs(point.x - start.x);
+    const height = Math.abs(point.y - start.y);
+    if (width >= MIN_CROP_SIZE && height >= MIN_CROP_SIZE) {
+      update({ crop: { x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width, height } });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const { crop } = draft;
+  const focalPoint = draft.focalPoint || { x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 };
+  const previewImage = { ...image, ...draft, focalPoint };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Adjust image</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 3 }}>
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant="subtitle2">Source</Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={tool}
+                onChange={(_, value: Tool | null) => value && setTool(value)}
+              >
+                <ToggleButton value="crop" aria-label="Draw crop">
+                  <CropIcon fontSize="small" sx={{ mr: 0.5 }} /> Crop
+                </ToggleButton>
+                <ToggleButton value="focus" aria-label="Set focal point">
+                  <CenterFocusStrongIcon fontSize="small" sx={{ mr: 0.5 }} /> Focal point
+                </ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+            <Box
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              sx={{
+                position: 'relative',
+                overflow: 'hidden',
+                cursor: 'crosshair',
+                touchAction: 'none',
+                userSelect: 'none',
+                bgcolor: 'grey.200',
+              }}
+            >
+              <Box component="img" src={image.src} alt={image.alt || ''} draggable={false} sx={{ display: 'block', width: '100%' }} />
+              {/* Everything outside the crop is dimmed */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  border: '2px solid white',
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                  pointerEvents: 'none',
+                }}
+              />
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: `${focalPoint.x * 100}%`,
+                  top: `${focalPoint.y * 100}%`,
+                  width: 18,
+                  height: 18,
+                  transform: 'translate(-50%, -50%)',
+                  borderRadius: '50%',
+                  border: '3px solid white',
+                  boxShadow: 1,
+                  pointerEvents: 'none',
+                }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              <Button size="small" onClick={() => update({ crop: FULL_CROP })}>Reset crop</Button>
+              <Button size="small" onClick={() => update({ focalPoint: null })}>Center focal point</Button>
+            </Box>
+          </Box>
+
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>On the slide</Typography>
+            <Box
+              sx={{
+                position: 'relative',
+                overflow: 'hidden',
+                aspectRatio: `${image.coordinates.width} / ${image.coordinates.height}`,
+                bgcolor: 'grey.100',
+                mb: 2,
+              }}
+            >
+              <CroppedImage image={previewImage} />
+            </Box>
+
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Fit"
+              value={draft.fit}
+              onChange={(e) => update({ fit: e.target.value as ImageFit })}
+              sx={{ mb: 2 }}
+            >
+              {FITS.map(fit => (
+                <MenuItem key={fit.value} value={fit.value}>{fit.label}</MenuItem>
+              ))}
+            </TextField>
+
+            {FILTER_CONTROLS.map(control => (
+              <Box key={control.key}>
+                <Typography variant="caption" color="text.secondary">
+                  {control.label}: {draft.filters[control.key]}{control.unit}
+                </Typography>
+                <Slider
+                  size="small"
+                  min={0}
+                  max={control.max}
+                  value={draft.filters[control.key]}
+                  onChange={(_, value) => update({ filters: { ...draft.filters, [control.key]: value as number } })}
+                />
+              </Box>
+            ))}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setDraft(draftOf({ ...image, crop: undefined, focalPoint: undefined, filters: undefined }))}>
+          Reset all
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => onApply({
+            fit: draft.fit,
+            crop: draft.crop,
+            focalPoint,
+            filters: draft.filters,
+          })}
+        >
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
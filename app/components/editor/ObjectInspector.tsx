@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  Box,
+  Divider,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import FormatBoldIcon from '@mui/icons-material/FormatBold';
+import FormatAlignLeftIcon from '@mui/icons-material/FormatAlignLeft';
+import FormatAlignCenterIcon from '@mui/icons-material/FormatAlignCenter';
+import FormatAlignRightIcon from '@mui/icons-material/FormatAlignRight';
+import { Coordinates } from '@/lib/models/coordinates';
+import { SlideObjectUnion, TextObject } from '@/lib/models/slide';
+
+type TextStyles = NonNullable<TextObject['customStyles']>;
+
+interface ObjectInspectorProps {
+  object: SlideObjectUnion;
+  onChange: (updates: Partial<SlideObjectUnion>) => void;
+}
+
+const COORDINATE_FIELDS: { key: keyof Coordinates; label: string; min?: number }[] = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W', min: 1 },
+  { key: 'height', label: 'H', min: 1 },
+];
+
+const numberFieldSx = { width: 84 };
+
+/**
+ * Text, typography, position and size of the selected object, typed in
+ * on the 1920x1080 canvas
+ */
+export const ObjectInspector: React.FC<ObjectInspectorProps> = ({
+  object,
+  onChange,
+}) => {
+  const textObject = object.type === 'text' ? object as TextObject : undefined;
+  const styles: TextStyles = textObject?.customStyles || {};
+
+  // Style overrides set back to the template's drop out
+  const setStyle = <K extends keyof TextStyles>(key: K, value: TextStyles[K] | undefined) => {
+    const next: TextStyles = { ...styles, [key]: value };
+    if (value === undefined) {
+      delete next[key];
+    }
+    onChange({ customStyles: Object.keys(next).length > 0 ? next : undefined } as Partial<TextObject>);
+  };
+
+  const setCoordinate = (key: keyof Coordinates, value: string, min = 0) => {
+    const parsed = Number(value);
+    if (value !== '' && !isNaN(parsed)) {
+      onChange({ coordinates: { ...object.coordinates, [key]: Math.max(min, Math.round(parsed)) } });
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 2, py: 1, borderBottom: 1, borderColor: 'divider', flexWrap: 'wrap' }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mr: 1, textTransform: 'capitalize' }}>
+        {object.type}
+      </Typography>
+
+      {textObject && (
+        <>
+          <TextField
+            size="small"
+            label="Text"
+            multiline
+            maxRows={3}
+            value={textObject.content}
+            onChange={(event) => onChange({ content: event.target.value } as Partial<TextObject>)}
+            sx={{ flex: 1, minWidth: 240 }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Size"
+            placeholder="Auto"
+            value={styles.fontSize ?? ''}
+            onChange={(event) => {
+              const size = Number(event.target.value);
+              setStyle('fontSize', event.target.value && size > 0 ? size : undefined);
+            }}
+            inputProps={{ min: 1 }}
+            InputLabelProps={{ shrink: true }}
+            sx={numberFieldSx}
+          />
+          <Tooltip title="Bold">
+            <ToggleButton
+              size="small"
+              value="bold"
+              selected={(styles.fontWeight || 0) >= 700}
+              onChange={() => setStyle('fontWeight', (styles.fontWeight || 0) >= 700 ? undefined : 700)}
+            >
+              <FormatBoldIcon fontSize="small" />
+            </ToggleButton>
+          </Tooltip>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={styles.textAlign || null}
+            onChange={(_, value: TextStyles['textAlign'] | null) => setStyle('textAlign', value || undefined)}
+          >
+            <ToggleButton value="left" aria-label="Align left">
+              <FormatAlignLeftIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="center" aria-label="Align center">
+              <FormatAlignCenterIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="right" aria-label="Align right">
+              <FormatAlignRightIcon fontSize="small" />
+            </ToggleButton>
+          </ToggleButtonGroup>
+          <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
+        </>
+      )}
+
+      {COORDINATE_FIELDS.map(field => (
+        <TextField
+          key={field.key}
+          size="small"
+          type="number"
+          label={field.label}
+          value={Math.round(object.coordinates[field.key])}
+          onChange={(event) => setCoordinate(field.key, event.target.value, field.min)}
+          inputProps={{ min: field.min ?? 0 }}
+          sx={numberFieldSx}
+        />
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,241 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import {
+  OUTLINE_SLIDE_TYPES,
+  OutlineSlide,
+  PresentationOutline,
+  addOutlineSlide,
+  getPendingOutlineSlides,
+  moveOutlineSlide,
+  removeOutlineSlide,
+  updateOutlineSection,
+  updateOutlineSlide,
+} from '@/lib/models/outline';
+
+const TYPE_LABELS: Record<string, string> = {
+  title: 'Title',
+  section: 'Section header',
+  bullets: 'Bullets',
+  content: 'Paragraph',
+  image: 'Image',
+  imageWithText: 'Image with text',
+  threeImages: 'Three images',
+  twoColumn: 'Two columns',
+  comparison: 'Comparison',
+  quote: 'Quote',
+  timeline: 'Timeline',
+};
+
+interface OutlinePlannerProps {
+  outline: PresentationOutline;
+  onChange: (outline: PresentationOutline) => void;
+  onExpand: (outlineSlideIds: string[]) => void;
+  expandingIds: string[];
+  error?: string | null;
+}
+
+/**
+ * Text field that reports its value on blur, so typing doesn't save the
+ * outline on every keystroke
+ */
+const CommitField: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  label?: string;
+  placeholder?: string;
+  multiline?: boolean;
+  disabled?: boolean;
+}> = ({ value, onCommit, ...props }) => (
+  <TextField
+    key={value}
+    defaultValue={value}
+    onBlur={(e) => {
+      if (e.target.value !== value) {
+        onCommit(e.target.value);
+      }
+    }}
+    size="small"
+    fullWidth
+    minRows={props.multiline ? 2 : undefined}
+    {...props}
+  />
+);
+
+export const OutlinePlanner: React.FC<OutlinePlannerProps> = ({
+  outline,
+  onChange,
+  onExpand,
+  expandingIds,
+  error,
+}) => {
+  const pending = getPendingOutlineSlides(outline);
+  const isExpanding = (slide: OutlineSlide) => expandingIds.includes(slide.id);
+  let number = 0;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6">Outline</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Review the plan, then write slides one at a time, by section or all at once.
+            {' '}{pending.length} of {outline.sections.reduce((n, s) => n + s.slides.length, 0)} slides still to write.
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AutoAwesomeIcon />}
+          disabled={pending.length === 0 || expandingIds.length > 0}
+          onClick={() => onExpand(pending.map(slide => slide.id))}
+        >
+          Write all slides
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {outline.sections.map((section) => {
+        const sectionPending = section.slides.filter(slide => !slide.slideId);
+        return (
+          <Box key={section.id} sx={{ mb: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <CommitField
+                value={section.title}
+                placeholder="Section title"
+                onCommit={(title) => onChange(updateOutlineSection(outline, section.id, title))}
+              />
+              <Button
+                size="small"
+                sx={{ flexShrink: 0 }}
+                disabled={sectionPending.length === 0 || expandingIds.length > 0}
+                onClick={() => onExpand(sectionPending.map(slide => slide.id))}
+              >
+                Write section
+              </Button>
+              <Tooltip title="Add slide">
+                <IconButton size="small" onClick={() => onChange(addOutlineSlide(outline, section.id).outline)}>
+                  <AddIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+
+            {section.slides.map((slide) => {
+              number++;
+              const expanded = !!slide.slideId;
+              return (
+                <Box
+                  key={slide.id}
+                  sx={{
+                    display: 'flex',
+                    gap: 1,
+                    alignItems: 'flex-start',
+                    pl: 2,
+                    py: 1,
+                    borderLeft: 3,
+                    borderColor: expanded ? 'success.light' : 'divider',
+                    opacity: expanded ? 0.7 : 1,
+                  }}
+                >
+                  <Typography variant="body2" color="text.secondary" sx={{ width: 24, pt: 1 }}>
+                    {number}
+                  </Typography>
+
+                  <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <CommitField
+                        value={slide.heading}
+                        label="Heading"
+                        disabled={expanded}
+                        onCommit={(heading) => onChange(updateOutlineSlide(outline, slide.id, { heading }))}
+                      />
+                      <TextField
+                        select
+                        size="small"
+                        label="Type"
+                        value={slide.type}
+                        disabled={expanded}
+                        onChange={(e) => onChange(updateOutlineSlide(outline, slide.id, {
+                          type: e.target.value as OutlineSlide['type'],
+                        }))}
+                        sx={{ width: 180, flexShrink: 0 }}
+                      >
+                        {OUTLINE_SLIDE_TYPES.map(type => (
+                          <MenuItem key={type} value={type}>{TYPE_LABELS[type] || type}</MenuItem>
+                        ))}
+                      </TextField>
+                    </Box>
+                    {!expanded && (
+                      <CommitField
+                        value={slide.keyPoints.join('\n')}
+                        label="Key points (one per line)"
+                        multiline
+                        onCommit={(text) => onChange(updateOutlineSlide(outline, slide.id, {
+                          keyPoints: text.split('\n').map(point => point.trim()).filter(Boolean),
+                        }))}
+                      />
+                    )}
+                  </Box>
+
+                  {expanded ? (
+                    <Chip label="Written" size="small" color="success" variant="outlined" sx={{ mt: 0.75 }} />
+                  ) : (
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Tooltip title="Move up">
+                        <IconButton size="small" onClick={() => onChange(moveOutlineSlide(outline, slide.id, -1))}>
+                          <ArrowUpwardIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Move down">
+                        <IconButton size="small" onClick={() => onChange(moveOutlineSlide(outline, slide.id, 1))}>
+                          <ArrowDownwardIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Remove from outline">
+                        <IconButton size="small" onClick={() => onChange(removeOutlineSlide(outline, slide.id))}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      {isExpanding(slide) ? (
+                        <CircularProgress size={20} sx={{ mx: 1 }} />
+                      ) : (
+                        <Tooltip title="Write this slide">
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              disabled={expandingIds.length > 0}
+                              onClick={() => onExpand([slide.id])}
+                            >
+                              <AutoAwesomeIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      )}
+                    </Box>
+                  )}
+                </Box>
+              );
+            })}
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+};
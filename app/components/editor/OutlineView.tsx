@@ -31,6 +31,8 @@ import ImageIcon from '@mui/icons-material/Image';
 import { SlideRenderer } from '@/components/SlideRenderer';
 import FormatQuoteIcon from '@mui/icons-material/FormatQuote';
 import { SortableSlideItem } from './SortableSlideItem';
+import { OutlinePlanner } from './OutlinePlanner';
+import { PresentationOutline, getPendingOutlineSlides } from '@/lib/models/outline';
 // Simplified slide interface for the editor
 interface SimpleSlide {
   id: string;
@@ -50,6 +52,13 @@ interface OutlineViewProps {
   onDeleteSlide: (slideId: string) => void;
   onDuplicateSlide: (slideId: string) => void;
   selectedSlideId?: string;
+  // Outline-first generation plan, edited above the slides until every
+  // entry has been written
+  outline?: PresentationOutline;
+  onOutlineChange?: (outline: PresentationOutline) => void;
+  onExpandOutline?: (outlineSlideIds: string[]) => void;
+  expandingOutlineIds?: string[];
+  outlineError?: string | null;
 }
 
 const getSlideIcon = (type: string) => {
@@ -73,6 +82,11 @@ export const OutlineView: React.FC<OutlineViewProps> = ({
   onDeleteSlide,
   onDuplicateSlide,
   selectedSlideId,
+  outline,
+  onOutlineChange,
+  onExpandOutline,
+  expandingOutlineIds = [],
+  outlineError,
 }) => {
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -102,6 +116,16 @@ export const OutlineView: React.FC<OutlineViewProps> = ({
       </Box>
       
       <Box sx={{ flex: 1, overflow: 'auto', p: 2 }}>
+        {outline && onOutlineChange && onExpandOutline && getPendingOutlineSlides(outline).length > 0 && (
+          <OutlinePlanner
+            outline={outline}
+            onChange={onOutlineChange}
+            onExpand={onExpandOutline}
+            expandingIds={expandingOutlineIds}
+            error={outlineError}
+          />
+        )}
+
         <DndContext
           sensors={sensors}
           collisionDetection={closestCenter}
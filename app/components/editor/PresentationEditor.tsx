@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   Box,
   AppBar,
@@ -11,23 +11,58 @@ import {
   MenuItem,
   FormControl,
   InputLabel,
+  Chip,
+  Badge,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import SaveIcon from '@mui/icons-material/Save';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import ImageIcon from '@mui/icons-material/Image';
 import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import PaletteIcon from '@mui/icons-material/Palette';
+import ShareIcon from '@mui/icons-material/Share';
+import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
+import HistoryIcon from '@mui/icons-material/History';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
 import { ViewSwitcher, ViewMode } from './ViewSwitcher';
 import { OutlineView } from './OutlineView';
 import { GridView } from './GridView';
 import { DetailView } from './DetailView';
+import { CollaboratorAvatars } from './CollaboratorAvatars';
+import CommentsPanel from '@/components/CommentsPanel';
+import VersionHistoryDialog from '@/components/VersionHistoryDialog';
 import dynamic from 'next/dynamic';
+import { ImageObject, Slide, SlideAnimation, SlideObjectUnion, SlideTransition, SlideType } from '@/lib/models/slide';
+import { createTableObject } from '@/lib/models/table';
+import { getTemplate, listTemplates } from '@/lib/templates/registry';
+import { relayoutPresentation } from '@/lib/templates/relayout';
+import { resolveDeckMasterElements } from '@/lib/templates/master-elements';
+import {
+  PresentationBrief,
+  PresentationOutline,
+  getPendingOutlineSlides,
+  insertExpandedSlides,
+} from '@/lib/models/outline';
+import { applyOperations, diffSlides } from '@/lib/collab/operations';
+import { Collaborator, PresenceSelection } from '@/lib/collab/presence';
+import { CommentThread, describeCommentAnchor, openThreadCounts } from '@/lib/collab/comments';
+import type { CommentAnchor, CommentsController } from '@/hooks/useComments';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import { EditCommandType, createCommand, objectCommandType } from '@/lib/models/edit-commands';
 
 // Dynamically import to avoid SSR issues
 const ImageGenerationProgress = dynamic(
   () => import('@/components/ImageGenerationProgress'),
   { ssr: false }
 );
+// Outline slides written per /api/ai/expand-outline request
+const OUTLINE_EXPANSION_BATCH = 10;
+// How long edits pause before autosave writes them
+const AUTOSAVE_DELAY_MS = 800;
+
 // Simplified interfaces for the editor
 interface SimpleSlide {
   id: string;
@@ -37,6 +72,9 @@ interface SimpleSlide {
   content?: string;
   imageUrl?: string;
   order: number;
+  objects?: SlideObjectUnion[];
+  transition?: SlideTransition;
+  animations?: SlideAnimation[];
 }
 
 interface SimplifiedPresentation {
@@ -46,139 +84,437 @@ interface SimplifiedPresentation {
   userId: string;
   slides: SimpleSlide[];
   theme?: any;
+  templateId?: string;
+  showSlideNumbers?: boolean;
+  outline?: PresentationOutline;
+  brief?: Partial<PresentationBrief>;
   createdAt?: any;
   updatedAt?: any;
 }
 
+function withObjectUpdates(
+  presentation: SimplifiedPresentation,
+  slideId: string,
+  objectId: string,
+  updates: Partial<SlideObjectUnion>
+): SimplifiedPresentation {
+  return {
+    ...presentation,
+    slides: presentation.slides.map((slide) =>
+      slide.id === slideId
+        ? {
+            ...slide,
+            objects: slide.objects?.map(obj =>
+              obj.id === objectId ? { ...obj, ...updates } as SlideObjectUnion : obj
+            ),
+          }
+        : slide
+    ),
+  };
+}
+
+// A slide as another type; three images and tables get their objects in
+// the template's zones
+function convertSlideType(slide: SimpleSlide, newType: string, templateId?: string): SimpleSlide {
+  const converted: SimpleSlide = { ...slide, type: newType };
+
+  // If converting to threeImages, ensure we have 3 image objects
+  if (newType === 'threeImages') {
+    // Try to find stored imageDescriptions in metadata
+    let imageDescriptions = null;
+    const metadataObj = slide.objects?.find(obj => (obj.type as string) === 'metadata') as { content?: string } | undefined;
+    if (metadataObj?.content) {
+      try {
+        const metadata = JSON.parse(metadataObj.content);
+        imageDescriptions = metadata.imageDescriptions;
+      } catch (e) {
+        console.error('Failed to parse metadata:', e);
+      }
+    }
+
+    // Add three image objects in the template's image zones
+    const imageZones = getTemplate(templateId).layouts[SlideType.THREE_IMAGES].zones
+      .filter(zone => zone.role === 'image');
+    converted.objects = [1, 2, 3].map((number, index) => ({
+      id: `${slide.id}-img-${number}`,
+      type: 'image',
+      src: '',
+      alt: imageDescriptions?.[index] || `Image ${number}`,
+      generationDescription: imageDescriptions?.[index] || (slide.title ? `${slide.title} - Visual ${number}` : `Image ${number}`),
+      fit: 'cover',
+      coordinates: imageZones[index].coordinates,
+      visible: true,
+    }));
+  }
+
+  // If converting to table, add an empty table in the template's table zone
+  if (newType === 'table' && !slide.objects?.some(obj => obj.type === 'table')) {
+    const tableZone = getTemplate(templateId).layouts[SlideType.TABLE].zones.find(zone => zone.role === 'table');
+    const headings = (slide.objects || []).filter(
+      obj => obj.type === 'text' && (obj.role === 'title' || obj.role === 'header')
+    );
+    converted.objects = [
+      ...headings,
+      createTableObject(
+        `${slide.id}-table`,
+        tableZone?.coordinates || { x: 120, y: 260, width: 1680, height: 700 }
+      ),
+    ];
+  }
+
+  return converted;
+}
+
 interface PresentationEditorProps {
   presentation: SimplifiedPresentation;
   onSave?: (presentation: SimplifiedPresentation) => void;
   onPresent?: () => void;
+  // Saves one image's variant changes; without it they go through onSave
+  onUpdateImage?: (slideId: string, objectId: string, updates: Partial<ImageObject>) => Promise<void>;
+  // Other people editing, and where this editor reports its own selection
+  collaborators?: Collaborator[];
+  onSelectionChange?: (selection: PresenceSelection) => void;
+  // Viewers and commenters can look and present, but not edit
+  readOnly?: boolean;
+  onShare?: () => void;
+  // Comment threads; viewers see them, commenters can add to them
+  comments?: CommentsController;
+  // Save edits as they're made (UserPreferences.autoSave), or only on Save
+  autoSave?: boolean;
 }
 
 export const PresentationEditor: React.FC<PresentationEditorProps> = ({
   presentation: initialPresentation,
   onSave,
   onPresent,
+  onUpdateImage,
+  collaborators = [],
+  onSelectionChange,
+  readOnly = false,
+  onShare,
+  comments,
+  autoSave = true,
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const isTablet = useMediaQuery(theme.breakpoints.down('md'));
   
   const [presentation, setPresentation] = useState(initialPresentation);
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  // Every edit so far, for commands and saves made before the next render
+  const presentationRef = useRef(initialPresentation);
+  // Start on the outline while an outline-first plan still has slides to write
+  const [viewMode, setViewMode] = useState<ViewMode>(() =>
+    !readOnly && initialPresentation.outline && getPendingOutlineSlides(initialPresentation.outline).length > 0 ? 'outline' : 'grid'
+  );
   const [selectedSlideId, setSelectedSlideId] = useState<string | undefined>(
     initialPresentation.slides[0]?.id
   );
   const [showImageProgress, setShowImageProgress] = useState(false);
+  const [expandingOutlineIds, setExpandingOutlineIds] = useState<string[]>([]);
+  const [outlineError, setOutlineError] = useState<string | null>(null);
+  const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([]);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | undefined>();
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [unsaved, setUnsaved] = useState(false);
+  // The presentation prop local edits were made on
+  const baseRef = useRef(initialPresentation);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+  const {
+    record: recordCommand,
+    undo: undoEdit,
+    redo: redoEdit,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useEditHistory(readOnly ? undefined : initialPresentation.id);
 
-  // Sync presentation prop changes with state (for real-time updates)
+  // Sync presentation prop changes with state (for real-time updates),
+  // keeping edits that haven't been saved yet
   useEffect(() => {
-    setPresentation(initialPresentation);
-    // Also update selected slide if it no longer exists
+    const base = baseRef.current;
+    baseRef.current = initialPresentation;
+    const current = presentationRef.current;
+    const pending = current === base ? [] : diffSlides(base.slides, current.slides);
+    const next = pending.length > 0
+      ? { ...initialPresentation, slides: applyOperations(initialPresentation.slides, pending) }
+      : initialPresentation;
+    presentationRef.current = next;
+    setPresentation(next);
+    // Select the first slide if none is selected yet (slides can stream in
+    // after load) or the selected one no longer exists
     setSelectedSlideId(currentId => {
-      if (currentId && !initialPresentation.slides.find(s => s.id === currentId)) {
+      if (!currentId || !initialPresentation.slides.find(s => s.id === currentId)) {
         return initialPresentation.slides[0]?.id;
       }
       return currentId;
     });
   }, [initialPresentation]);
 
+  const saveNow = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (onSaveRef.current) {
+      onSaveRef.current(presentationRef.current);
+      setUnsaved(false);
+    }
+  }, []);
+
+  // With autosave, edits are saved once they pause; otherwise they wait for Save
+  const scheduleSave = useCallback(() => {
+    if (!onSaveRef.current) {
+      return;
+    }
+    setUnsaved(true);
+    if (autoSave) {
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+      }
+      saveTimerRef.current = setTimeout(saveNow, AUTOSAVE_DELAY_MS);
+    }
+  }, [autoSave, saveNow]);
+
+  // An autosave still waiting when the editor closes goes out now
+  useEffect(() => () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      onSaveRef.current?.(presentationRef.current);
+    }
+  }, []);
+
+  // Without autosave, leaving with edits not saved asks first
+  useEffect(() => {
+    if (autoSave || !unsaved) {
+      return;
+    }
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [autoSave, unsaved]);
+
+  /**
+   * The one way the editor changes the presentation: the change becomes a
+   * command that can be undone (lib/models/edit-commands) and is saved.
+   * Generated images aren't the user's edit to undo, and picked images are
+   * saved by onUpdateImage. Returns whether anything changed.
+   */
+  const execute = useCallback((
+    type: EditCommandType,
+    change: (current: SimplifiedPresentation) => SimplifiedPresentation,
+    { coalesceKey, undoable = true, save = true }: { coalesceKey?: string; undoable?: boolean; save?: boolean } = {}
+  ): boolean => {
+    const current = presentationRef.current;
+    const next = change(current);
+    const command = next === current ? null : createCommand(type, current, next, { coalesceKey });
+    if (!command) {
+      return false;
+    }
+    presentationRef.current = next;
+    setPresentation(next);
+    if (undoable) {
+      recordCommand(command);
+    }
+    if (save) {
+      scheduleSave();
+    }
+    return true;
+  }, [recordCommand, scheduleSave]);
+
+  // Undone and redone edits are saved like any other, keeping the selected
+  // slide when it's still there
+  const showHistoryStep = useCallback((next: SimplifiedPresentation | null) => {
+    if (!next) {
+      return;
+    }
+    presentationRef.current = next;
+    setPresentation(next);
+    setSelectedSlideId(currentId =>
+      next.slides.some(slide => slide.id === currentId) ? currentId : next.slides[0]?.id
+    );
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const handleUndo = useCallback(() => {
+    showHistoryStep(undoEdit(presentationRef.current));
+  }, [undoEdit, showHistoryStep]);
+
+  const handleRedo = useCallback(() => {
+    showHistoryStep(redoEdit(presentationRef.current));
+  }, [redoEdit, showHistoryStep]);
+
+  useEffect(() => {
+    if (readOnly) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+        return;
+      }
+      // Text fields keep their own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [readOnly, handleUndo, handleRedo]);
+
   const selectedSlideIndex = presentation.slides.findIndex(
     (slide) => slide.id === selectedSlideId
   );
   
   const selectedSlide = presentation.slides[selectedSlideIndex];
 
+  // Objects are only selected in the detail view
+  useEffect(() => {
+    onSelectionChange?.({
+      slideId: selectedSlideId,
+      objectIds: viewMode === 'detail' ? selectedObjectIds : [],
+    });
+  }, [onSelectionChange, selectedSlideId, selectedObjectIds, viewMode]);
+
+  // New comments go on the selected object in the detail view, or the slide
+  const commentAnchor: CommentAnchor | null = selectedSlideId
+    ? { slideId: selectedSlideId, objectId: viewMode === 'detail' ? selectedObjectIds[0] : undefined }
+    : null;
+  const commentCounts = useMemo(() => openThreadCounts(comments?.threads || []), [comments?.threads]);
+  const openCommentCount = Object.keys(commentCounts).reduce((total, slideId) => total + commentCounts[slideId], 0);
+
+  const describeAnchor = useCallback(
+    (anchor: CommentAnchor) => describeCommentAnchor(presentation.slides, anchor),
+    [presentation.slides]
+  );
+
+  const handleSelectThread = useCallback((thread: CommentThread) => {
+    setSelectedThreadId(thread.id);
+    if (presentation.slides.some(slide => slide.id === thread.slideId)) {
+      setSelectedSlideId(thread.slideId);
+      if (thread.objectId) {
+        setViewMode('detail');
+      }
+    }
+  }, [presentation.slides]);
+
+  const describeCollaborator = useCallback((collaborator: Collaborator) => {
+    const index = presentation.slides.findIndex(slide => slide.id === collaborator.slideId);
+    return index === -1 ? collaborator.name : `${collaborator.name} · slide ${index + 1}`;
+  }, [presentation.slides]);
+
+  // Page numbers, logos and footers from the template, numbered by deck position
+  const masterElements = useMemo(
+    () => resolveDeckMasterElements(presentation.slides, {
+      templateId: presentation.templateId,
+      presentationTitle: presentation.title,
+      showSlideNumbers: presentation.showSlideNumbers,
+    }),
+    [presentation.slides, presentation.templateId, presentation.title, presentation.showSlideNumbers]
+  );
+
   const handleReorderSlides = useCallback((newSlides: SimpleSlide[]) => {
-    setPresentation((prev) => ({
+    execute('reorderSlides', (prev) => ({
       ...prev,
       slides: newSlides,
     }));
-  }, []);
+  }, [execute]);
   
-  const handleChangeSlideType = useCallback(async (newType: string) => {
-    if (!selectedSlideId) return;
-    
-    setPresentation((prev) => {
-      const slides = [...prev.slides];
-      const slideIndex = slides.findIndex(s => s.id === selectedSlideId);
-      if (slideIndex === -1) return prev;
-      
-      const slide = slides[slideIndex];
-      
-      // Update slide type
-      slide.type = newType;
-      
-      // If converting to threeImages, ensure we have 3 image objects
-      if (newType === 'threeImages') {
-        // Try to find stored imageDescriptions in metadata
-        let imageDescriptions = null;
-        const metadataObj = slide.objects?.find((obj: any) => obj.type === 'metadata');
-        if (metadataObj?.content) {
-          try {
-            const metadata = JSON.parse(metadataObj.content);
-            imageDescriptions = metadata.imageDescriptions;
-          } catch (e) {
-            console.error('Failed to parse metadata:', e);
-          }
-        }
-        
-        // Clear all existing objects
-        slide.objects = [];
-        
-        // Add three image objects with the specific layout
-        slide.objects = [
-          {
-            id: `${slide.id}-img-1`,
-            type: 'image',
-            src: '',
-            alt: imageDescriptions?.[0] || 'Image 1',
-            generationDescription: imageDescriptions?.[0] || (slide.title ? `${slide.title} - Visual 1` : 'Image 1'),
-            fit: 'cover',
-            coordinates: { x: 95, y: 100, width: 1116, height: 884 },
-            visible: true,
-          },
-          {
-            id: `${slide.id}-img-2`,
-            type: 'image',
-            src: '',
-            alt: imageDescriptions?.[1] || 'Image 2',
-            generationDescription: imageDescriptions?.[1] || (slide.title ? `${slide.title} - Visual 2` : 'Image 2'),
-            fit: 'cover',
-            coordinates: { x: 1245, y: 100, width: 580, height: 426 },
-            visible: true,
-          },
-          {
-            id: `${slide.id}-img-3`,
-            type: 'image',
-            src: '',
-            alt: imageDescriptions?.[2] || 'Image 3',
-            generationDescription: imageDescriptions?.[2] || (slide.title ? `${slide.title} - Visual 3` : 'Image 3'),
-            fit: 'cover',
-            coordinates: { x: 1245, y: 558, width: 580, height: 426 },
-            visible: true,
-          },
-        ];
+  const handleChangeSlideType = useCallback((newType: string) => {
+    if (!selectedSlideId) {
+      return;
+    }
+
+    execute('changeSlideType', (prev) => ({
+      ...prev,
+      slides: prev.slides.map((slide) =>
+        slide.id === selectedSlideId ? convertSlideType(slide, newType, prev.templateId) : slide
+      ),
+    }));
+  }, [selectedSlideId, execute]);
+
+  const handleChangeTemplate = useCallback((templateId: string) => {
+    // Re-flow every slide into the new template's zones instead of regenerating
+    execute('changeTemplate', (prev) => ({
+      ...prev,
+      templateId,
+      slides: relayoutPresentation(prev.slides, getTemplate(templateId)),
+    }));
+  }, [execute]);
+
+  const handleUpdateObject = useCallback((
+    slideId: string,
+    objectId: string,
+    updates: Partial<SlideObjectUnion>
+  ) => {
+    const object = presentationRef.current.slides
+      .find((slide) => slide.id === slideId)?.objects
+      ?.find((obj) => obj.id === objectId);
+    const type = objectCommandType(object, updates);
+
+    // Typing into, nudging or resizing one object is one command per burst
+    execute(type, (prev) => withObjectUpdates(prev, slideId, objectId, updates), {
+      coalesceKey: `${type}:${slideId}:${objectId}`,
+    });
+  }, [execute]);
+
+  const handleUpdateImage = useCallback(async (
+    slideId: string,
+    objectId: string,
+    updates: Partial<ImageObject>
+  ) => {
+    // Without autosave, image picks wait for Save with everything else
+    if (!onUpdateImage || !autoSave) {
+      handleUpdateObject(slideId, objectId, updates);
+      return;
+    }
+
+    if (execute('changeImage', (prev) => withObjectUpdates(prev, slideId, objectId, updates), { save: false })) {
+      await onUpdateImage(slideId, objectId, updates);
+    }
+  }, [onUpdateImage, autoSave, handleUpdateObject, execute]);
+
+  const handleUpdateSlide = useCallback((slideId: string, updates: Partial<SimpleSlide>) => {
+    execute('editSlide', (prev) => ({
+      ...prev,
+      slides: prev.slides.map((slide) =>
+        slide.id === slideId ? { ...slide, ...updates } : slide
+      ),
+    }));
+  }, [execute]);
+
+  // Swap one slide for the slides an AI action produced (split, convert)
+  const handleReplaceSlide = useCallback((slideId: string, replacement: SimpleSlide[]) => {
+    execute('replaceSlide', (prev) => {
+      const slideIndex = prev.slides.findIndex((slide) => slide.id === slideId);
+      if (slideIndex === -1) {
+        return prev;
       }
-      
+
+      const newSlides = [
+        ...prev.slides.slice(0, slideIndex),
+        ...replacement,
+        ...prev.slides.slice(slideIndex + 1),
+      ];
       return {
         ...prev,
-        slides,
+        slides: newSlides.map((slide, index) => ({ ...slide, order: index })),
       };
     });
-    
-    // Trigger immediate save
-    if (onSave) {
-      // Use a ref to get the latest state after update
-      setTimeout(() => {
-        setPresentation((currentPresentation) => {
-          onSave(currentPresentation);
-          return currentPresentation;
-        });
-      }, 100);
-    }
-  }, [selectedSlideId, onSave]);
+  }, [execute]);
 
   const handleSelectSlide = useCallback((slideId: string) => {
     setSelectedSlideId(slideId);
@@ -194,22 +530,22 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
   }, []);
 
   const handleDeleteSlide = useCallback((slideId: string) => {
-    setPresentation((prev) => {
-      const newSlides = prev.slides.filter((slide) => slide.id !== slideId);
-      if (selectedSlideId === slideId && newSlides.length > 0) {
-        setSelectedSlideId(newSlides[0].id);
-      }
-      return {
-        ...prev,
-        slides: newSlides,
-      };
-    });
-  }, [selectedSlideId]);
+    const deleted = execute('deleteSlide', (prev) => ({
+      ...prev,
+      slides: prev.slides.filter((slide) => slide.id !== slideId),
+    }));
+    const remaining = presentationRef.current.slides;
+    if (deleted && remaining.length > 0) {
+      setSelectedSlideId(currentId => (currentId === slideId ? remaining[0].id : currentId));
+    }
+  }, [execute]);
 
   const handleDuplicateSlide = useCallback((slideId: string) => {
-    setPresentation((prev) => {
+    execute('duplicateSlide', (prev) => {
       const slideIndex = prev.slides.findIndex((slide) => slide.id === slideId);
-      if (slideIndex === -1) return prev;
+      if (slideIndex === -1) {
+        return prev;
+      }
       
       const originalSlide = prev.slides[slideIndex];
       const duplicatedSlide: SimpleSlide = {
@@ -229,7 +565,7 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
         slides: newSlides,
       };
     });
-  }, []);
+  }, [execute]);
 
   const handleAddSlide = useCallback(() => {
     const newSlide: SimpleSlide = {
@@ -238,17 +574,17 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
       title: 'New Slide',
       subtitle: '',
       content: '',
-      order: presentation.slides.length,
+      order: 0,
     };
     
-    setPresentation((prev) => ({
+    execute('addSlide', (prev) => ({
       ...prev,
-      slides: [...prev.slides, newSlide],
+      slides: [...prev.slides, { ...newSlide, order: prev.slides.length }],
     }));
     
     setSelectedSlideId(newSlide.id);
     setViewMode('detail');
-  }, [presentation.slides.length]);
+  }, [execute]);
 
   const handleEditSlide = useCallback((slideId: string) => {
     // Edit slide functionality would be implemented here
@@ -260,11 +596,74 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
     }
   }, [presentation.slides]);
 
-  const handleSave = () => {
-    if (onSave) {
-      onSave(presentation);
+  // A version, or slides from one, put back (see VersionHistoryDialog)
+  const handleRestoreSlides = useCallback((slides: Slide[]) => {
+    execute('restoreVersion', (prev) => ({
+      ...prev,
+      slides: slides as unknown as SimpleSlide[],
+    }));
+    setSelectedSlideId(currentId =>
+      slides.some(slide => slide.id === currentId) ? currentId : slides[0]?.id
+    );
+  }, [execute]);
+
+  const handleOutlineChange = useCallback((outline: PresentationOutline) => {
+    // Typing into the outline is one command per burst
+    execute('editOutline', (prev) => ({
+      ...prev,
+      outline,
+    }), { coalesceKey: 'editOutline' });
+  }, [execute]);
+
+  // Write full slides for outline entries and place them in outline order
+  const handleExpandOutline = useCallback(async (outlineSlideIds: string[]) => {
+    const { outline, brief, templateId, userId } = presentation;
+    if (!outline || outlineSlideIds.length === 0) {
+      return;
     }
-  };
+
+    setExpandingOutlineIds(outlineSlideIds);
+    setOutlineError(null);
+
+    try {
+      for (let i = 0; i < outlineSlideIds.length; i += OUTLINE_EXPANSION_BATCH) {
+        const response = await fetch('/api/ai/expand-outline', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...brief,
+            outline,
+            outlineSlideIds: outlineSlideIds.slice(i, i + OUTLINE_EXPANSION_BATCH),
+            templateId,
+            userId,
+          }),
+        });
+        const result: {
+          success: boolean;
+          data?: { slides: { outlineSlideId: string; slide: SimpleSlide }[] };
+          error?: string;
+        } = await response.json();
+        if (!response.ok || !result.success || !result.data) {
+          throw new Error(result.error || 'Failed to write slides');
+        }
+
+        const written = result.data.slides;
+        execute('writeSlides', (prev) => {
+          const merged = insertExpandedSlides(prev.outline || outline, prev.slides, written);
+          return {
+            ...prev,
+            outline: merged.outline,
+            slides: merged.slides,
+          };
+        });
+      }
+    } catch (error) {
+      console.error('Outline expansion failed:', error);
+      setOutlineError(error instanceof Error ? error.message : 'Failed to write slides');
+    } finally {
+      setExpandingOutlineIds([]);
+    }
+  }, [presentation, execute]);
 
   const handleGenerateImages = async () => {
     try {
@@ -363,7 +762,7 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
 
           {/* Image Generation Progress - Compact Mode */}
           <Box sx={{ flexGrow: 1, mx: 2, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-            {presentation.id && (
+            {presentation.id && !readOnly && (
               <ImageGenerationProgress 
                 presentationId={presentation.id}
                 compact={true}
@@ -388,7 +787,7 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
                   });
                   
                   // Update each slide with its generated images
-                  const updatedSlides = presentation.slides.map(slide => {
+                  const addImages = (slides: SimpleSlide[]) => slides.map(slide => {
                     const slideImageMap = imageMap.get(slide.id);
                     if (!slideImageMap || slideImageMap.size === 0) return slide;
                     
@@ -408,68 +807,147 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
                     return { ...slide, objects: updatedObjects };
                   });
                   
-                  setPresentation(prev => ({ ...prev, slides: updatedSlides }));
+                  // They're stored already: nothing to save, and not an edit to undo
+                  execute('changeImage', (prev) => ({ ...prev, slides: addImages(prev.slides) }), {
+                    undoable: false,
+                    save: false,
+                  });
                 }}
               />
             )}
           </Box>
 
-          <ViewSwitcher view={viewMode} onChange={setViewMode} />
-
-          <Box sx={{ ml: 2, display: 'flex', gap: 1 }}>
-            {selectedSlide && (
-              <FormControl size="small" sx={{ minWidth: 140 }}>
-                <InputLabel id="slide-type-label">Slide Type</InputLabel>
-                <Select
-                  labelId="slide-type-label"
-                  value={selectedSlide.type || 'content'}
-                  label="Slide Type"
-                  onChange={(e) => handleChangeSlideType(e.target.value)}
-                  startAdornment={<AutoAwesomeIcon sx={{ ml: 1, mr: 0.5, fontSize: 18 }} />}
+          <Box sx={{ mr: 2 }}>
+            <CollaboratorAvatars collaborators={collaborators} describe={describeCollaborator} />
+          </Box>
+
+          <ViewSwitcher
+            view={viewMode}
+            onChange={setViewMode}
+            views={readOnly ? ['grid', 'detail'] : undefined}
+          />
+
+          <Box sx={{ ml: 2, display: 'flex', gap: 1, alignItems: 'center' }}>
+            {readOnly && <Chip label="View only" size="small" variant="outlined" />}
+            {!readOnly && (
+              <>
+                <Tooltip title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+                  <span>
+                    <IconButton aria-label="Undo" onClick={handleUndo} disabled={!canUndo}>
+                      <UndoIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                  <span>
+                    <IconButton aria-label="Redo" onClick={handleRedo} disabled={!canRedo}>
+                      <RedoIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel id="template-label">Template</InputLabel>
+                  <Select
+                    labelId="template-label"
+                    value={getTemplate(presentation.templateId).id}
+                    label="Template"
+                    onChange={(e) => handleChangeTemplate(e.target.value)}
+                    startAdornment={<PaletteIcon sx={{ ml: 1, mr: 0.5, fontSize: 18 }} />}
+                  >
+                    {listTemplates().map((template) => (
+                      <MenuItem key={template.id} value={template.id}>
+                        {template.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                {selectedSlide && (
+                  <FormControl size="small" sx={{ minWidth: 140 }}>
+                    <InputLabel id="slide-type-label">Slide Type</InputLabel>
+                    <Select
+                      labelId="slide-type-label"
+                      value={selectedSlide.type || 'content'}
+                      label="Slide Type"
+                      onChange={(e) => handleChangeSlideType(e.target.value)}
+                      startAdornment={<AutoAwesomeIcon sx={{ ml: 1, mr: 0.5, fontSize: 18 }} />}
+                    >
+                      <MenuItem value="title">Title</MenuItem>
+                      <MenuItem value="content">Content</MenuItem>
+                      <MenuItem value="bullets">Bullets</MenuItem>
+                      <MenuItem value="twoColumn">Two Column</MenuItem>
+                      <MenuItem value="image">Single Image</MenuItem>
+                      <MenuItem value="threeImages">Three Images</MenuItem>
+                      <MenuItem value="quote">Quote</MenuItem>
+                      <MenuItem value="comparison">Comparison</MenuItem>
+                      <MenuItem value="table">Table</MenuItem>
+                    </Select>
+                  </FormControl>
+                )}
+                <Button
+                  startIcon={<ImageIcon />}
+                  variant="outlined"
+                  onClick={handleGenerateImages}
+                  color="warning"
+                >
+                  Generate Images
+                </Button>
+                <Button
+                  startIcon={<ImageIcon />}
+                  variant="contained"
+                  onClick={handleForceProcessImages}
+                  color="error"
+                >
+                  FORCE Process
+                </Button>
+                <Button
+                  startIcon={<AddIcon />}
+                  variant="outlined"
+                  onClick={handleAddSlide}
                 >
-                  <MenuItem value="title">Title</MenuItem>
-                  <MenuItem value="content">Content</MenuItem>
-                  <MenuItem value="bullets">Bullets</MenuItem>
-                  <MenuItem value="twoColumn">Two Column</MenuItem>
-                  <MenuItem value="image">Single Image</MenuItem>
-                  <MenuItem value="threeImages">Three Images</MenuItem>
-                  <MenuItem value="quote">Quote</MenuItem>
-                  <MenuItem value="comparison">Comparison</MenuItem>
-                </Select>
-              </FormControl>
+                  Add Slide
+                </Button>
+              </>
             )}
-            <Button
-              startIcon={<ImageIcon />}
-              variant="outlined"
-              onClick={handleGenerateImages}
-              color="warning"
-            >
-              Generate Images
-            </Button>
-            <Button
-              startIcon={<ImageIcon />}
-              variant="contained"
-              onClick={handleForceProcessImages}
-              color="error"
-            >
-              FORCE Process
-            </Button>
-            <Button
-              startIcon={<AddIcon />}
-              variant="outlined"
-              onClick={handleAddSlide}
-            >
-              Add Slide
-            </Button>
             {onSave && (
               <Button
                 startIcon={<SaveIcon />}
-                variant="outlined"
-                onClick={handleSave}
+                variant={unsaved && !autoSave ? 'contained' : 'outlined'}
+                onClick={saveNow}
               >
                 Save
               </Button>
             )}
+            {onSave && presentation.id && (
+              <Button
+                startIcon={<HistoryIcon />}
+                variant="outlined"
+                onClick={() => setHistoryOpen(true)}
+              >
+                History
+              </Button>
+            )}
+            {comments && (
+              <Button
+                startIcon={
+                  <Badge badgeContent={openCommentCount} color="warning" max={99}>
+                    <ChatBubbleOutlineIcon />
+                  </Badge>
+                }
+                variant={commentsOpen ? 'contained' : 'outlined'}
+                onClick={() => setCommentsOpen(open => !open)}
+              >
+                Comments
+              </Button>
+            )}
+            {onShare && (
+              <Button
+                startIcon={<ShareIcon />}
+                variant="outlined"
+                onClick={onShare}
+              >
+                Share
+              </Button>
+            )}
             {onPresent && (
               <Button
                 startIcon={<PlayArrowIcon />}
@@ -500,6 +978,11 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
             onDeleteSlide={handleDeleteSlide}
             onDuplicateSlide={handleDuplicateSlide}
             selectedSlideId={selectedSlideId}
+            outline={presentation.outline}
+            onOutlineChange={handleOutlineChange}
+            onExpandOutline={handleExpandOutline}
+            expandingOutlineIds={expandingOutlineIds}
+            outlineError={outlineError}
           />
         )}
         
@@ -511,7 +994,14 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
             onDeleteSlide={handleDeleteSlide}
             onDuplicateSlide={handleDuplicateSlide}
             onDoubleClickSlide={handleDoubleClickSlideFromGrid}
+            onReplaceSlide={readOnly ? undefined : handleReplaceSlide}
             selectedSlideId={selectedSlideId}
+            masterElements={masterElements}
+            templateId={presentation.templateId}
+            userId={presentation.userId}
+            collaborators={collaborators}
+            readOnly={readOnly}
+            commentCounts={comments ? commentCounts : undefined}
           />
         )}
         
@@ -524,9 +1014,55 @@ export const PresentationEditor: React.FC<PresentationEditorProps> = ({
             onDeleteSlide={handleDeleteSlide}
             onDuplicateSlide={handleDuplicateSlide}
             onDoubleClick={handleDoubleClickSlideFromDetail}
+            onUpdateObject={readOnly ? undefined : handleUpdateObject}
+            onUpdateSlide={readOnly ? undefined : handleUpdateSlide}
+            onReplaceSlide={readOnly ? undefined : handleReplaceSlide}
+            onUpdateImage={readOnly ? undefined : handleUpdateImage}
+            masterElements={masterElements}
+            templateId={presentation.templateId}
+            userId={presentation.userId}
+            presentationId={presentation.id}
+            collaborators={collaborators}
+            onSelectObjects={setSelectedObjectIds}
+            readOnly={readOnly}
+            commentThreads={comments?.threads}
           />
         )}
       </Box>
+
+      {onSave && presentation.id && (
+        <VersionHistoryDialog
+          open={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          presentationId={presentation.id}
+          slides={presentation.slides as unknown as Slide[]}
+          onRestore={handleRestoreSlides}
+        />
+      )}
+
+      {comments && commentsOpen && (
+        <Box
+          component="aside"
+          sx={{
+            width: isTablet ? 300 : 360,
+            flexShrink: 0,
+            mt: '64px',
+            height: 'calc(100vh - 64px)',
+            borderLeft: 1,
+            borderColor: 'divider',
+            bgcolor: 'background.paper',
+          }}
+        >
+          <CommentsPanel
+            comments={comments}
+            anchor={commentAnchor}
+            describeAnchor={describeAnchor}
+            selectedThreadId={selectedThreadId}
+            onSelectThread={handleSelectThread}
+            onClose={() => setCommentsOpen(false)}
+          />
+        </Box>
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -0,0 +1,176 @@
+import React from 'react';
+import { Box, MenuItem, TextField } from '@mui/material';
+import {
+  PRESENTATION_AUDIENCES,
+  PRESENTATION_TONES,
+  PresentationAudience,
+  PresentationTone,
+} from '@/lib/models/outline';
+import {
+  ActionSlide,
+  ObjectAction,
+  SLIDE_ACTION_LABELS,
+  SlideAction,
+  SlideActionOptions,
+  SlideActionResult,
+} from '@/lib/models/slide-actions';
+import { SlideActionPreview } from './SlideActionPreview';
+
+// Actions that ask for a choice before running
+const ACTIONS_WITH_OPTIONS: (ObjectAction | SlideAction)[] = ['rewrite', 'tone', 'translate'];
+
+interface SlideAIActionDialogProps {
+  action: ObjectAction | SlideAction | null;  // Open while set
+  slide: ActionSlide;
+  objectId?: string;                          // Required for object actions
+  templateId?: string;
+  userId?: string;
+  onAccept: (result: SlideActionResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * Runs a slide AI action through /api/ai/slide-action and previews the
+ * result; nothing changes until the user accepts
+ */
+export const SlideAIActionDialog: React.FC<SlideAIActionDialogProps> = ({
+  action,
+  slide,
+  objectId,
+  templateId,
+  userId,
+  onAccept,
+  onClose,
+}) => {
+  const [options, setOptions] = React.useState<SlideActionOptions>({
+    audience: 'general',
+    tone: 'casual',
+    language: 'Spanish',
+  });
+  const [result, setResult] = React.useState<SlideActionResult | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  // Only the latest request's response is shown
+  const requestRef = React.useRef(0);
+
+  const run = React.useCallback(async () => {
+    if (!action) {
+      return;
+    }
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/ai/slide-action', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...options,
+          slide,
+          action,
+          objectId,
+          templateId,
+          userId,
+        }),
+      });
+      const data: { success: boolean; data?: SlideActionResult; error?: string } = await response.json();
+      if (!response.ok || !data.success || !data.data) {
+        throw new Error(data.error || 'The AI action failed');
+      }
+      if (request === requestRef.current) {
+        setResult(data.data);
+      }
+    } catch (err) {
+      console.error('Slide AI action failed:', err);
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err.message : 'The AI action failed');
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [action, slide, objectId, templateId, userId, options]);
+
+  const runRef = React.useRef(run);
+  runRef.current = run;
+
+  // Start straight away unless the action needs a choice first. Runs once
+  // per opened action, not when the options change.
+  React.useEffect(() => {
+    // Drop responses still on the way for the previous action
+    requestRef.current++;
+    setLoading(false);
+    setResult(null);
+    setError(null);
+    if (action && !ACTIONS_WITH_OPTIONS.includes(action)) {
+      runRef.current();
+    }
+  }, [action]);
+
+  if (!action) {
+    return null;
+  }
+
+  return (
+    <SlideActionPreview
+      open
+      title={SLIDE_ACTION_LABELS[action]}
+      slide={slide}
+      result={result}
+      loading={loading}
+      error={error}
+      onAccept={() => {
+        if (result) {
+          onAccept(result);
+        }
+      }}
+      onRetry={run}
+      onClose={onClose}
+    >
+      {ACTIONS_WITH_OPTIONS.includes(action) && (
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, pt: 1 }}>
+          {action === 'rewrite' && (
+            <TextField
+              select
+              size="small"
+              label="Audience"
+              value={options.audience}
+              onChange={(e) => setOptions(prev => ({ ...prev, audience: e.target.value as PresentationAudience }))}
+              sx={{ minWidth: 200 }}
+            >
+              {PRESENTATION_AUDIENCES.map(audience => (
+                <MenuItem key={audience} value={audience} sx={{ textTransform: 'capitalize' }}>{audience}</MenuItem>
+              ))}
+            </TextField>
+          )}
+          {action === 'tone' && (
+            <TextField
+              select
+              size="small"
+              label="Tone"
+              value={options.tone}
+              onChange={(e) => setOptions(prev => ({ ...prev, tone: e.target.value as PresentationTone }))}
+              sx={{ minWidth: 200 }}
+            >
+              {PRESENTATION_TONES.map(tone => (
+                <MenuItem key={tone} value={tone} sx={{ textTransform: 'capitalize' }}>{tone}</MenuItem>
+              ))}
+            </TextField>
+          )}
+          {action === 'translate' && (
+            <TextField
+              size="small"
+              label="Language"
+              value={options.language}
+              onChange={(e) => setOptions(prev => ({ ...prev, language: e.target.value }))}
+              sx={{ minWidth: 200 }}
+            />
+          )}
+        </Box>
+      )}
+    </SlideActionPreview>
+  );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { SlideRenderer } from '@/components/SlideRenderer';
+import { Slide } from '@/lib/models/slide';
+import { ActionSlide, SlideActionResult, getSlideText } from '@/lib/models/slide-actions';
+import { diffWords } from '@/lib/utils/text-diff';
+
+const THUMB_WIDTH = 400;
+const THUMB_HEIGHT = 225;
+
+interface SlideActionPreviewProps {
+  open: boolean;
+  title: string;
+  slide: ActionSlide;
+  result: SlideActionResult | null;
+  loading: boolean;
+  error?: string | null;
+  onAccept: () => void;
+  onRetry: () => void;
+  onClose: () => void;
+  children?: React.ReactNode;  // Options shown above the preview (audience, language...)
+}
+
+/**
+ * The slide as it would look with the result applied
+ */
+export function applySlideActionResult(slide: ActionSlide, result: SlideActionResult): ActionSlide[] {
+  if (result.kind === 'slides') {
+    return result.slides;
+  }
+  return [{
+    ...slide,
+    objects: slide.objects?.map(obj =>
+      obj.id === result.objectId && obj.type === 'text' ? { ...obj, content: result.after } : obj
+    ),
+  }];
+}
+
+const Thumbnail: React.FC<{ slide: ActionSlide; label: string }> = ({ slide, label }) => (
+  <Box>
+    <Typography variant="caption" color="text.secondary">{label}</Typography>
+    <Paper variant="outlined" sx={{ width: THUMB_WIDTH, height: THUMB_HEIGHT, overflow: 'hidden' }}>
+      <SlideRenderer slide={slide as Slide} width={THUMB_WIDTH} height={THUMB_HEIGHT} isPresenting={false} />
+    </Paper>
+  </Box>
+);
+
+export const SlideActionPreview: React.FC<SlideActionPreviewProps> = ({
+  open,
+  title,
+  slide,
+  result,
+  loading,
+  error,
+  onAccept,
+  onRetry,
+  onClose,
+  children,
+}) => {
+  const after = result ? applySlideActionResult(slide, result) : [];
+  const diff = result
+    ? result.kind === 'object'
+      ? diffWords(result.before, result.after)
+      : diffWords(getSlideText(slide), after.map(getSlideText).join('\n'))
+    : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {children}
+
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {result && !loading && (
+          <>
+            {result.kind === 'object' && !result.fits && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                The new text is longer than its box; it will shrink or overflow like other long text.
+              </Alert>
+            )}
+            <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 1 }}>
+              <Thumbnail slide={slide} label="Before" />
+              {after.map((preview, index) => (
+                <Thumbnail
+                  key={preview.id}
+                  slide={preview}
+                  label={after.length > 1 ? `After (${index + 1} of ${after.length})` : 'After'}
+                />
+              ))}
+            </Box>
+            <Paper variant="outlined" sx={{ mt: 2, p: 2, whiteSpace: 'pre-wrap', maxHeight: 240, overflow: 'auto' }}>
+              <Typography variant="body2" component="div">
+                {diff.map((part, index) => (
+                  <Box
+                    key={index}
+                    component={part.type === 'removed' ? 'del' : part.type === 'added' ? 'ins' : 'span'}
+                    sx={{
+                      bgcolor: part.type === 'removed' ? 'error.light' : part.type === 'added' ? 'success.light' : undefined,
+                      color: part.type === 'same' ? 'text.primary' : 'common.black',
+                      textDecoration: part.type === 'added' ? 'none' : undefined,
+                    }}
+                  >
+                    {part.text}
+                  </Box>
+                ))}
+              </Typography>
+            </Paper>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={onRetry} disabled={loading}>
+          {result || error ? 'Try again' : 'Generate'}
+        </Button>
+        <Button variant="contained" onClick={onAccept} disabled={!result || loading}>
+          Accept
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
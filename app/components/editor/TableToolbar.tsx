@@ -0,0 +1,169 @@
+import React from 'react';
+import {
+  Box,
+  IconButton,
+  Tooltip,
+  Divider,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import BorderTopIcon from '@mui/icons-material/BorderTop';
+import BorderBottomIcon from '@mui/icons-material/BorderBottom';
+import BorderLeftIcon from '@mui/icons-material/BorderLeft';
+import BorderRightIcon from '@mui/icons-material/BorderRight';
+import PlaylistRemoveIcon from '@mui/icons-material/PlaylistRemove';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import FormatAlignLeftIcon from '@mui/icons-material/FormatAlignLeft';
+import FormatAlignCenterIcon from '@mui/icons-material/FormatAlignCenter';
+import FormatAlignRightIcon from '@mui/icons-material/FormatAlignRight';
+import { TableObject } from '@/lib/models/slide';
+import {
+  TableCellRange,
+  TableColumnAlignment,
+  getColumnAlignment,
+  getColumnCount,
+  getMergeAt,
+  insertColumn,
+  insertRow,
+  mergeCells,
+  normalizeRange,
+  removeColumn,
+  removeRow,
+  setColumnAlignment,
+  unmergeCells,
+} from '@/lib/models/table';
+
+interface TableToolbarProps {
+  table: TableObject;
+  selection: TableCellRange | null;
+  onChange: (updates: Partial<TableObject>) => void;
+}
+
+export const TableToolbar: React.FC<TableToolbarProps> = ({
+  table,
+  selection,
+  onChange,
+}) => {
+  const range = selection ? normalizeRange(selection) : null;
+  const row = range?.start.row ?? table.data.length - 1;
+  const col = range?.start.col ?? 0;
+  const bodyRow = Math.max(0, row);
+
+  const isMultiCell = !!range &&
+    range.start.row >= 0 &&
+    (range.start.row !== range.end.row || range.start.col !== range.end.col);
+  const activeMerge = range && row >= 0 ? getMergeAt(table, row, col) : undefined;
+
+  const apply = (updated: TableObject) => {
+    onChange({
+      headers: updated.headers,
+      data: updated.data,
+      merges: updated.merges,
+      columnAlignments: updated.columnAlignments,
+    });
+  };
+
+  const actions = [
+    {
+      label: 'Insert row above',
+      icon: <BorderTopIcon fontSize="small" />,
+      onClick: () => apply(insertRow(table, bodyRow)),
+    },
+    {
+      label: 'Insert row below',
+      icon: <BorderBottomIcon fontSize="small" />,
+      onClick: () => apply(insertRow(table, row < 0 ? 0 : (range?.end.row ?? row) + 1)),
+    },
+    {
+      label: 'Delete row',
+      icon: <PlaylistRemoveIcon fontSize="small" />,
+      onClick: () => apply(removeRow(table, row)),
+      disabled: row < 0 || table.data.length <= 1,
+    },
+    {
+      label: 'Insert column left',
+      icon: <BorderLeftIcon fontSize="small" />,
+      onClick: () => apply(insertColumn(table, col)),
+    },
+    {
+      label: 'Insert column right',
+      icon: <BorderRightIcon fontSize="small" />,
+      onClick: () => apply(insertColumn(table, (range?.end.col ?? col) + 1)),
+    },
+    {
+      label: 'Delete column',
+      icon: <DeleteSweepIcon fontSize="small" />,
+      onClick: () => apply(removeColumn(table, col)),
+      disabled: getColumnCount(table) <= 1,
+    },
+  ];
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+        Table
+      </Typography>
+
+      {actions.map(action => (
+        <Tooltip key={action.label} title={action.label}>
+          <span>
+            <IconButton size="small" onClick={action.onClick} disabled={action.disabled}>
+              {action.icon}
+            </IconButton>
+          </span>
+        </Tooltip>
+      ))}
+
+      <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
+
+      <Tooltip title="Merge cells (Shift+click to select a range)">
+        <span>
+          <IconButton
+            size="small"
+            disabled={!isMultiCell || !range}
+            onClick={() => range && apply(mergeCells(table, range))}
+          >
+            <CallMergeIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Unmerge cells">
+        <span>
+          <IconButton
+            size="small"
+            disabled={!activeMerge}
+            onClick={() => apply(unmergeCells(table, row, col))}
+          >
+            <CallSplitIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={getColumnAlignment(table, col)}
+        onChange={(_, value: TableColumnAlignment | null) => {
+          if (value) {
+            apply(setColumnAlignment(table, col, value));
+          }
+        }}
+      >
+        <ToggleButton value="left" aria-label="Align column left">
+          <FormatAlignLeftIcon fontSize="small" />
+        </ToggleButton>
+        <ToggleButton value="center" aria-label="Align column center">
+          <FormatAlignCenterIcon fontSize="small" />
+        </ToggleButton>
+        <ToggleButton value="right" aria-label="Align column right">
+          <FormatAlignRightIcon fontSize="small" />
+        </ToggleButton>
+      </ToggleButtonGroup>
+    </Box>
+  );
+};
@@ -9,9 +9,12 @@ export type ViewMode = 'outline' | 'grid' | 'detail';
 interface ViewSwitcherProps {
   view: ViewMode;
   onChange: (view: ViewMode) => void;
+  views?: ViewMode[];  // Defaults to all of them
 }
 
-export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ view, onChange }) => {
+const ALL_VIEWS: ViewMode[] = ['outline', 'grid', 'detail'];
+
+export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ view, onChange, views = ALL_VIEWS }) => {
   const handleChange = (_: React.MouseEvent<HTMLElement>, newView: ViewMode | null) => {
     if (newView !== null) {
       onChange(newView);
@@ -27,18 +30,24 @@ export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ view, onChange }) =>
         aria-label="view mode"
         size="small"
       >
-        <ToggleButton value="outline" aria-label="outline view">
-          <FormatListBulletedIcon sx={{ mr: 1 }} />
-          Outline
-        </ToggleButton>
-        <ToggleButton value="grid" aria-label="grid view">
-          <GridViewIcon sx={{ mr: 1 }} />
-          Grid
-        </ToggleButton>
-        <ToggleButton value="detail" aria-label="detail view">
-          <FullscreenIcon sx={{ mr: 1 }} />
-          Detail
-        </ToggleButton>
+        {views.includes('outline') && (
+          <ToggleButton value="outline" aria-label="outline view">
+            <FormatListBulletedIcon sx={{ mr: 1 }} />
+            Outline
+          </ToggleButton>
+        )}
+        {views.includes('grid') && (
+          <ToggleButton value="grid" aria-label="grid view">
+            <GridViewIcon sx={{ mr: 1 }} />
+            Grid
+          </ToggleButton>
+        )}
+        {views.includes('detail') && (
+          <ToggleButton value="detail" aria-label="detail view">
+            <FullscreenIcon sx={{ mr: 1 }} />
+            Detail
+          </ToggleButton>
+        )}
       </ToggleButtonGroup>
     </Box>
   );
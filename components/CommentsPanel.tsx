@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Paper,
+  Alert,
+  Chip,
+  Avatar,
+  List,
+  ListItemButton,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ReplayIcon from '@mui/icons-material/Replay';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import {
+  CommentThread,
+  MentionCandidate,
+  SlideComment,
+  canDeleteComment,
+  mentionHandle,
+  mentionQuery,
+  splitMentions,
+  suggestMentions,
+} from '@/lib/collab/comments';
+import { presenceColor, presenceInitials } from '@/lib/collab/presence';
+import type { CommentAnchor, CommentsController } from '@/hooks/useComments';
+
+type CommentFilter = 'open' | 'resolved' | 'mine';
+
+interface CommentsPanelProps {
+  comments: CommentsController;
+  anchor: CommentAnchor | null;  // Where a new comment goes
+  describeAnchor: (anchor: CommentAnchor) => string;  // e.g. "Slide 3 · Image"
+  selectedThreadId?: string;
+  onSelectThread?: (thread: CommentThread) => void;
+  onClose?: () => void;
+}
+
+interface ComposerProps {
+  candidates: MentionCandidate[];
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// A comment box that suggests people after @
+const CommentComposer: React.FC<ComposerProps> = ({
+  candidates,
+  placeholder,
+  submitLabel,
+  initialValue = '',
+  onSubmit,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState(initialValue);
+  const [sending, setSending] = useState(false);
+  const query = mentionQuery(draft);
+  const suggestions = query === null ? [] : suggestMentions(query, candidates);
+
+  const submit = async () => {
+    if (!draft.trim() || sending) {
+      return;
+    }
+    setSending(true);
+    try {
+      await onSubmit(draft);
+      setDraft('');
+    } catch {
+      // Kept for another try; the panel shows the error
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    setDraft(draft.replace(/@[\w.+-]*$/, `@${mentionHandle(candidate, candidates)} `));
+  };
+
+  return (
+    <Box>
+      <TextField
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd+Enter sends
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={placeholder}
+        size="small"
+        multiline
+        minRows={1}
+        maxRows={6}
+        fullWidth
+        autoFocus={!!initialValue}
+      />
+      {suggestions.length > 0 && (
+        <Paper variant="outlined" sx={{ mt: 0.5 }}>
+          <List dense disablePadding>
+            {suggestions.map((candidate) => (
+              <ListItemButton key={candidate.email} onClick={() => insertMention(candidate)}>
+                <Typography variant="body2">
+                  {candidate.name ? `${candidate.name} · ` : ''}{candidate.email}
+                </Typography>
+              </ListItemButton>
+            ))}
+          </List>
+        </Paper>
+      )}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+        {onCancel && <Button size="small" onClick={onCancel}>Cancel</Button>}
+        <Button size="small" variant="contained" onClick={submit} disabled={!draft.trim() || sending}>
+          {submitLabel}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+const CommentBody: React.FC<{ body: string }> = ({ body }) => (
+  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+    {splitMentions(body).map((part, index) =>
+      part.mention ? (
+        <Box key={index} component="span" sx={{ color: 'primary.main', fontWeight: 600 }}>{part.text}</Box>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </Typography>
+);
+
+const formatTime = (time: number) => (time ? new Date(time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '');
+
+/**
+ * Comment threads, open or resolved, with replies, @mentions and a box
+ * for a new comment on the current slide or object. Used by the editor's
+ * sidebar and by review mode when presenting.
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  comments,
+  anchor,
+  describeAnchor,
+  selectedThreadId,
+  onSelectThread,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<CommentFilter>('open');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { threads, candidates, userId, userEmail, canComment, canModerate } = comments;
+
+  // Shows what went wrong instead of throwing
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      throw err;
+    }
+  };
+  const attempt = (action: () => Promise<void>) => run(action).catch(() => undefined);
+
+  const visible = threads.filter(thread =>
+    filter === 'open' ? !thread.resolved
+      : filter === 'resolved' ? thread.resolved
+      : thread.comments.some(comment => comment.authorId === userId || (!!userEmail && comment.mentions.includes(userEmail)))
+  );
+
+  const renderComment = (comment: SlideComment, thread: CommentThread) => (
+    <Box key={comment.id} sx={{ display: 'flex', gap: 1, mt: 1 }}>
+      <Avatar sx={{ width: 24, height: 24, fontSize: 11, bgcolor: presenceColor(comment.authorId) }}>
+        {presenceInitials(comment.authorName)}
+      </Avatar>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Typography variant="subtitle2" noWrap sx={{ flex: 1 }}>
+            {comment.authorName}
+            <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+              {formatTime(comment.createdAt)}{comment.editedAt ? ' (edited)' : ''}
+            </Typography>
+          </Typography>
+          {comment.authorId === userId && canComment && (
+            <Tooltip title="Edit">
+              <IconButton size="small" onClick={(e) => { e.stopPropagation(); setEditingId(comment.id); }}>
+                <EditOutlinedIcon fontSize="inherit" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canDeleteComment(comment, thread, userId, canModerate) && (
+            <Tooltip title={comment.id === thread.id ? 'Delete thread' : 'Delete'}>
+              <IconButton size="small" onClick={(e) => { e.stopPropagation(); attempt(() => comments.remove(comment, thread)); }}>
+                <DeleteOutlineIcon fontSize="inherit" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+        {editingId === comment.id ? (
+          <Box onClick={(e) => e.stopPropagation()}>
+            <CommentComposer
+              candidates={candidates}
+              placeholder="Edit comment"
+              submitLabel="Save"
+              initialValue={comment.body}
+              onSubmit={(body) => run(async () => {
+                await comments.edit(comment, body);
+                setEditingId(null);
+              })}
+              onCancel={() => setEditingId(null)}
+            />
+          </Box>
+        ) : (
+          <CommentBody body={comment.body} />
+        )}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', p: 2, pb: 1 }}>
+        <Typography variant="h6" sx={{ flex: 1 }}>Comments</Typography>
+        {onClose && (
+          <IconButton size="small" onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        )}
+      </Box>
+      <Box sx={{ px: 2 }}>
+        <ToggleButtonGroup
+          value={filter}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: CommentFilter | null) => value && setFilter(value)}
+        >
+          <ToggleButton value="open">Open</ToggleButton>
+          <ToggleButton value="resolved">Resolved</ToggleButton>
+          <ToggleButton value="mine">For you</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ m: 2, mb: 0 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      <Box sx={{ flex: 1, overflowY: 'auto', p: 2, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {visible.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {filter === 'open' ? 'No open comments' : filter === 'resolved' ? 'No resolved comments' : 'Nothing for you yet'}
+          </Typography>
+        )}
+        {visible.map((thread) => (
+          <Paper
+            key={thread.id}
+            variant="outlined"
+            onClick={() => onSelectThread?.(thread)}
+            sx={{
+              p: 1.5,
+              cursor: onSelectThread ? 'pointer' : 'default',
+              borderColor: thread.id === selectedThreadId ? 'primary.main' : 'divider',
+              opacity: thread.resolved ? 0.75 : 1,
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Chip label={describeAnchor(thread)} size="small" variant="outlined" />
+              <Box sx={{ flex: 1 }} />
+              {canComment && (
+                <Tooltip title={thread.resolved ? 'Reopen' : 'Resolve'}>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      attempt(() => comments.resolve(thread, !thread.resolved));
+                    }}
+                  >
+                    {thread.resolved ? <ReplayIcon fontSize="small" /> : <CheckCircleOutlineIcon fontSize="small" />}
+                  </IconButton>
+                </Tooltip>
+              )}
+            </Box>
+            {thread.comments.map((comment) => renderComment(comment, thread))}
+            {thread.resolved && thread.resolvedBy && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                Resolved by {thread.resolvedBy}{thread.resolvedAt ? ` · ${formatTime(thread.resolvedAt)}` : ''}
+              </Typography>
+            )}
+            {canComment && !thread.resolved && thread.id === selectedThreadId && (
+              <Box sx={{ mt: 1 }} onClick={(e) => e.stopPropagation()}>
+                <CommentComposer
+                  candidates={candidates}
+                  placeholder="Reply"
+                  submitLabel="Reply"
+                  onSubmit={(body) => run(() => comments.add({ slideId: thread.slideId, objectId: thread.objectId }, body, thread.id))}
+                />
+              </Box>
+            )}
+          </Paper>
+        ))}
+      </Box>
+
+      <Box sx={{ p: 2, borderTop: 1, borderColor: 'divider' }}>
+        {!canComment ? (
+          <Typography variant="body2" color="text.secondary">
+            You can read comments. Ask the owner for comment access to add your own.
+          </Typography>
+        ) : anchor ? (
+          <>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              New comment on {describeAnchor(anchor)}
+            </Typography>
+            <CommentComposer
+              candidates={candidates}
+              placeholder="Add a comment; @ to mention someone"
+              submitLabel="Comment"
+              onSubmit={(body) => run(() => comments.add(anchor, body))}
+            />
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Select a slide to comment on it.
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default CommentsPanel;
@@ -28,6 +28,7 @@ import {
   Mic as PodcastIcon,
 } from '@mui/icons-material';
 import { Slide } from '@/lib/models/slide';
+import { auth } from '@/lib/firebase/config';
 import { PDFExporter, PDFLayout, PDFExportOptions } from '@/lib/export/pdf-export';
 
 interface ExportDialogProps {
@@ -36,6 +37,8 @@ interface ExportDialogProps {
   slides: Slide[];
   presentationTitle?: string;
   presentationId?: string;
+  templateId?: string;
+  showSlideNumbers?: boolean;
   onPodcastClick?: () => void;
 }
 
@@ -47,6 +50,8 @@ export default function ExportDialog({
   slides,
   presentationTitle = 'Presentation',
   presentationId,
+  templateId,
+  showSlideNumbers,
   onPodcastClick,
 }: ExportDialogProps) {
   const [exportFormat, setExportFormat] = useState<ExportFormat>('powerpoint');
@@ -106,6 +111,8 @@ export default function ExportDialog({
         body: JSON.stringify({
           slides,
           presentationTitle,
+          templateId,
+          showSlideNumbers,
         }),
       });
       
@@ -150,9 +157,30 @@ export default function ExportDialog({
       includeNotes,
       quality: pdfQuality,
       filename: `${presentationTitle}.pdf`,
+      masterElements: { templateId, presentationTitle, showSlideNumbers },
+      textFit: { templateId },
     };
     
     const exporter = new PDFExporter(options);
+
+    // html2canvas draws neither crops nor filters: use baked pictures
+    let deck = slides;
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/export/bake-images', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` },
+        body: JSON.stringify({ slides }),
+      });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        deck = result.data.slides;
+      } else {
+        console.warn('Could not bake images for PDF export:', result.error);
+      }
+    } catch (error) {
+      console.warn('Could not bake images for PDF export:', error);
+    }
     
     // Render function for slides
     const renderSlide = async (slide: Slide, index: number): Promise<HTMLElement> => {
@@ -173,7 +201,7 @@ export default function ExportDialog({
             }
             if (obj.type === 'image') {
               const imgObj = obj as any;
-              return `<img src="${imgObj.src}" alt="${imgObj.alt || ''}" style="max-width: 100%; height: auto;" />`;
+              return `<img src="${imgObj.src}" alt="${imgObj.alt || ''}" style="width: ${imgObj.coordinates.width}px; height: ${imgObj.coordinates.height}px; max-width: 100%; object-fit: ${imgObj.fit || 'contain'};" />`;
             }
             return '';
           }).join('')}
@@ -184,7 +212,7 @@ export default function ExportDialog({
     };
     
     // Export to PDF
-    const blob = await exporter.export(slides, renderSlide, setProgress);
+    const blob = await exporter.export(deck, renderSlide, setProgress);
     
     // Download the PDF
     await PDFExporter.downloadPDF(blob, options.filename);
@@ -44,6 +44,8 @@ import {
 } from '@mui/icons-material';
 import { useImageGeneration } from '@/hooks/useImageGeneration';
 import { IMAGE_STYLES, ImageStyle } from '@/lib/constants/image-styles';
+import { ImageObject } from '@/lib/models/slide';
+import { ImageVariantGallery } from './ImageVariantGallery';
 
 interface ImageGenerationPanelProps {
   presentationId: string;
@@ -54,9 +56,11 @@ interface ImageGenerationPanelProps {
     images?: Array<{
       id: string;
       description: string;
+      object?: ImageObject;  // The slide's image object, for managing its variants
     }>;
   }>;
   onImageGenerated?: (slideId: string, imageUrl: string) => void;
+  onUpdateImage?: (slideId: string, objectId: string, updates: Partial<ImageObject>) => void | Promise<void>;
 }
 
 export const ImageGenerationPanel: React.FC<ImageGenerationPanelProps> = ({
@@ -64,6 +68,7 @@ export const ImageGenerationPanel: React.FC<ImageGenerationPanelProps> = ({
   userId,
   slides,
   onImageGenerated,
+  onUpdateImage,
 }) => {
   const imageGeneration = useImageGeneration(presentationId);
   const {
@@ -373,9 +378,20 @@ export const ImageGenerationPanel: React.FC<ImageGenerationPanelProps> = ({
                   )}
                   
                   {slide.images?.map((image, idx) => (
-                    <Typography key={idx} variant="body2" color="text.secondary" paragraph>
-                      {image.description}
-                    </Typography>
+                    image.object && onUpdateImage ? (
+                      <Box key={image.id} sx={{ mb: 2 }}>
+                        <ImageVariantGallery
+                          image={image.object}
+                          slideId={slide.id}
+                          presentationId={presentationId}
+                          onChange={(updates) => onUpdateImage(slide.id, image.object!.id, updates)}
+                        />
+                      </Box>
+                    ) : (
+                      <Typography key={idx} variant="body2" color="text.secondary" paragraph>
+                        {image.description}
+                      </Typography>
+                    )
                   ))}
                   
                   {slideJob?.status === 'failed' && (
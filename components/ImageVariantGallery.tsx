@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Star,
+  StarBorder,
+  Delete,
+  Refresh,
+  AutoAwesome,
+  History,
+} from '@mui/icons-material';
+import { ImageObject } from '@/lib/models/slide';
+import {
+  addImageVariants,
+  getGenerationHistory,
+  getHeroIndex,
+  getImageVariants,
+  removeImageVariant,
+  setHeroVariant,
+} from '@/lib/models/image-variants';
+import { IMAGE_STYLES, ImageStyle } from '@/lib/constants/image-styles';
+
+interface ImageVariantGalleryProps {
+  image: ImageObject;
+  slideId: string;
+  presentationId?: string;  // Generated variants are stored under the presentation when set
+  onChange: (updates: Partial<ImageObject>) => void | Promise<void>;
+}
+
+const VARIANTS_PER_REQUEST = 3;
+
+function styleLabel(style: string): string {
+  return style.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase()).trim();
+}
+
+/**
+ * Pick the hero among an image's variants, delete variants, generate more
+ * from the same or a tweaked prompt, and go back to earlier prompts
+ */
+export const ImageVariantGallery: React.FC<ImageVariantGalleryProps> = ({
+  image,
+  slideId,
+  presentationId,
+  onChange,
+}) => {
+  const variants = getImageVariants(image);
+  const heroIndex = getHeroIndex(image);
+  const history = getGenerationHistory(image);
+
+  const [description, setDescription] = useState(image.generationDescription || image.alt || '');
+  const [style, setStyle] = useState<ImageStyle>(
+    image.generationStyle && image.generationStyle in IMAGE_STYLES
+      ? image.generationStyle as ImageStyle
+      : 'photorealistic'
+  );
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = async (updates: Partial<ImageObject>) => {
+    setError(null);
+    try {
+      await onChange(updates);
+    } catch (err) {
+      console.error('Error updating image variants:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the image');
+    }
+  };
+
+  // Reuse the current prompt as is, or build one from the edited description and style
+  const generate = async (reusePrompt: boolean) => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/imagen/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(reusePrompt && image.generationPrompt
+            ? { prompt: image.generationPrompt }
+            : { description, style }),
+          variants: VARIANTS_PER_REQUEST,
+          presentationId,
+          slideId,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success || !Array.isArray(data.imageUrls)) {
+        throw new Error(data.error || 'Failed to generate images');
+      }
+
+      await onChange(addImageVariants(image, data.imageUrls, reusePrompt && image.generationPrompt
+        ? { prompt: image.generationPrompt, description: image.generationDescription, style: image.generationStyle }
+        : { prompt: data.prompt, description, style }));
+    } catch (err) {
+      console.error('Error generating image variants:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate images');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Box>
+      {error && <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>{error}</Alert>}
+
+      {variants.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          No images yet. Generate some below.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: 1, mb: 2 }}>
+          {variants.map((url, index) => (
+            <Box
+              key={`${url}-${index}`}
+              sx={{
+                position: 'relative',
+                borderRadius: 1,
+                overflow: 'hidden',
+                border: 2,
+                borderColor: index === heroIndex ? 'primary.main' : 'transparent',
+              }}
+            >
+              <Box
+                component="img"
+                src={url}
+                alt={`Variant ${index + 1}`}
+                onClick={() => index !== heroIndex && apply(setHeroVariant(image, index))}
+                sx={{ width: '100%', aspectRatio: '16 / 9', objectFit: 'cover', display: 'block', cursor: 'pointer' }}
+              />
+              <Box sx={{ position: 'absolute', top: 2, right: 2, display: 'flex', gap: 0.5 }}>
+                <Tooltip title={index === heroIndex ? 'Shown on the slide' : 'Show on the slide'}>
+                  <IconButton
+                    size="small"
+                    onClick={() => index !== heroIndex && apply(setHeroVariant(image, index))}
+                    sx={{ bgcolor: 'background.paper', '&:hover': { bgcolor: 'background.paper' } }}
+                  >
+                    {index === heroIndex ? <Star fontSize="small" color="primary" /> : <StarBorder fontSize="small" />}
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={variants.length > 1 ? 'Delete variant' : 'An image needs at least one variant'}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      disabled={variants.length < 2}
+                      onClick={() => apply(removeImageVariant(image, index))}
+                      sx={{ bgcolor: 'background.paper', '&:hover': { bgcolor: 'background.paper' } }}
+                    >
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={!!image.cycleOnPlayback}
+            disabled={variants.length < 2}
+            onChange={(e) => apply({ cycleOnPlayback: e.target.checked })}
+          />
+        }
+        label="Cycle through variants while presenting"
+        sx={{ mb: 2 }}
+      />
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <TextField
+          label="Image prompt"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          multiline
+          minRows={2}
+          size="small"
+          disabled={generating}
+        />
+        <TextField
+          select
+          label="Style"
+          value={style}
+          onChange={(e) => setStyle(e.target.value as ImageStyle)}
+          size="small"
+          disabled={generating}
+        >
+          {(Object.keys(IMAGE_STYLES) as ImageStyle[]).map(key => (
+            <MenuItem key={key} value={key}>{styleLabel(key)}</MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="contained"
+            startIcon={generating ? <CircularProgress size={18} /> : <AutoAwesome />}
+            disabled={generating || !description.trim()}
+            onClick={() => generate(false)}
+          >
+            Generate with this prompt
+          </Button>
+          {image.generationPrompt && (
+            <Button startIcon={<Refresh />} disabled={generating} onClick={() => generate(true)}>
+              More like these
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {history.length > 0 && (
+        <Box sx={{ mt: 3 }}>
+          <Typography variant="subtitle2" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <History fontSize="small" />
+            Prompt history
+          </Typography>
+          <List dense>
+            {history.slice().reverse().map((version, index) => (
+              <ListItem
+                key={`${version.prompt}-${index}`}
+                secondaryAction={
+                  <Button
+                    size="small"
+                    disabled={generating}
+                    onClick={() => {
+                      setDescription(version.description || version.prompt);
+                      if (version.style && version.style in IMAGE_STYLES) {
+                        setStyle(version.style as ImageStyle);
+                      }
+                    }}
+                  >
+                    Use
+                  </Button>
+                }
+              >
+                <ListItemText
+                  primary={version.description || version.prompt}
+                  secondary={
+                    <Box component="span" sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                      {version.style && <Chip component="span" size="small" label={styleLabel(version.style)} />}
+                      {version.variants.length} variant{version.variants.length === 1 ? '' : 's'}
+                    </Box>
+                  }
+                  primaryTypographyProps={{ noWrap: true }}
+                  sx={{ pr: 6 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+    </Box>
+  );
+};
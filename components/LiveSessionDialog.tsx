@@ -0,0 +1,111 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import Tooltip from '@mui/material/Tooltip';
+import { formatJoinCode, getLiveUrls } from '@/lib/presenter/live';
+
+interface LiveSessionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  live: { code: string; remoteKey: string } | null;
+  starting: boolean;
+  error: string | null;
+  onStart: () => void;
+  onEnd: () => void;
+}
+
+const LinkField: React.FC<{ label: string; helperText: string; value: string }> = ({ label, helperText, value }) => (
+  <TextField
+    label={label}
+    value={value}
+    helperText={helperText}
+    fullWidth
+    size="small"
+    InputProps={{
+      readOnly: true,
+      endAdornment: (
+        <Tooltip title="Copy link">
+          <IconButton size="small" onClick={() => navigator.clipboard?.writeText(value)}>
+            <ContentCopyIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      ),
+    }}
+  />
+);
+
+/**
+ * Start, share and end a live session: the join code for followers and
+ * the private remote link for a phone clicker.
+ */
+const LiveSessionDialog: React.FC<LiveSessionDialogProps> = ({
+  open,
+  onClose,
+  live,
+  starting,
+  error,
+  onStart,
+  onEnd,
+}) => {
+  const urls = live ? getLiveUrls(window.location.origin, live.code, live.remoteKey) : null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Live session</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {!live && (
+          <Typography color="text.secondary">
+            Go live to get a join code. The audience can follow along on their own devices at /live,
+            and your phone can act as a clicker.
+          </Typography>
+        )}
+
+        {live && urls && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ textAlign: 'center' }}>
+              <Typography variant="overline" color="text.secondary">Join code</Typography>
+              <Typography sx={{ fontFamily: 'monospace', fontSize: '3rem', fontWeight: 700, letterSpacing: 4 }}>
+                {formatJoinCode(live.code)}
+              </Typography>
+            </Box>
+            <LinkField label="Audience link" helperText="Share with the audience to follow along" value={urls.follow} />
+            {urls.remote && (
+              <LinkField label="Remote link" helperText="Open on your phone to use it as a clicker; keep it private" value={urls.remote} />
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {live ? (
+          <Button color="error" onClick={onEnd}>End session</Button>
+        ) : (
+          <Button
+            variant="contained"
+            onClick={onStart}
+            disabled={starting}
+            startIcon={starting ? <CircularProgress size={16} /> : undefined}
+          >
+            Go live
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LiveSessionDialog;
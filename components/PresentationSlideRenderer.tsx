@@ -1,8 +1,17 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { Box } from '@mui/material';
-import { Slide, SlideObjectUnion, ImageObject } from '@/lib/models/slide';
+import { Slide, SlideObjectUnion, ImageObject, ChartObject, TableObject } from '@/lib/models/slide';
+import { DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { ChartGraphic } from '@/components/slides/renderers/objects/ChartObjectRenderer';
+import { TableGrid } from '@/components/slides/renderers/objects/TableObjectRenderer';
 import { TypographySet } from '@/lib/models/typography';
+import { fitTextObject, getTextDisplay } from '@/lib/templates/overflow';
 import { getTypographyStyles, mapSlideRoleToTypographyRole } from '@/hooks/useTypography';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+import MasterElementsLayer from '@/components/slides/MasterElementsLayer';
+import CroppedImage from '@/components/slides/CroppedImage';
+import AnimatedObject from '@/components/slides/AnimatedObject';
+import { getObjectBuildStates } from '@/lib/models/animation';
 
 interface PresentationSlideRendererProps {
   slide: Slide;
@@ -10,6 +19,8 @@ interface PresentationSlideRendererProps {
   height?: number;
   isPresenting?: boolean;
   typographySet?: TypographySet | null;
+  masterElements?: ResolvedMasterElement[];
+  build?: number;   // Presenter build step; omit to show every object without animation
 }
 
 export function PresentationSlideRenderer({
@@ -18,6 +29,8 @@ export function PresentationSlideRenderer({
   height = 1080,
   isPresenting = false,
   typographySet,
+  masterElements,
+  build,
 }: PresentationSlideRendererProps) {
   const [imageVariants, setImageVariants] = useState<Map<string, number>>(new Map());
   const cycleIntervalsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
@@ -84,12 +97,22 @@ export function PresentationSlideRenderer({
         const typographyStyles = typographySet 
           ? getTypographyStyles(typographySet, typographyRole)
           : {};
+        const lineHeight = typographyStyles.lineHeight || getLineHeightForRole(textObj.role);
+
+        // Fit the text into its template zone (shrink, clip or paginate)
+        const fit = fitTextObject(slide, textObj, {}, {
+          fontSize: textObj.customStyles?.fontSize || Number(typographyStyles.fontSize) || getFontSizeForRole(textObj.role),
+          lineHeight: typeof lineHeight === 'number' ? lineHeight : undefined,
+          minFontSize: typographySet?.roles[typographyRole as keyof TypographySet['roles']]?.minFontSize,
+        });
+        const display = getTextDisplay(textObj.content, fit);
         
         return (
           <Box
             key={obj.id}
             sx={{
               ...baseStyles,
+              overflow: display.overflow,
               display: 'flex',
               alignItems: textObj.role === 'title' || textObj.role === 'subtitle' ? 'center' : 'flex-start',
               justifyContent: textObj.customStyles?.textAlign || typographyStyles.textAlign || 'left',
@@ -99,20 +122,20 @@ export function PresentationSlideRenderer({
             <Box
               component="div"
               sx={{
-                fontSize: textObj.customStyles?.fontSize || typographyStyles.fontSize || getFontSizeForRole(textObj.role),
+                fontSize: fit.fontSize,
                 fontWeight: textObj.customStyles?.fontWeight || typographyStyles.fontWeight || getFontWeightForRole(textObj.role),
                 fontFamily: typographyStyles.fontFamily || textObj.customStyles?.fontFamily,
                 color: textObj.customStyles?.color || getColorForRole(textObj.role),
                 textAlign: textObj.customStyles?.textAlign || typographyStyles.textAlign || 'left',
                 whiteSpace: 'pre-wrap',
                 wordBreak: 'break-word',
-                lineHeight: typographyStyles.lineHeight || getLineHeightForRole(textObj.role),
+                lineHeight,
                 letterSpacing: typographyStyles.letterSpacing,
                 textTransform: typographyStyles.textTransform,
                 fontStyle: typographyStyles.fontStyle,
               }}
             >
-              {textObj.content}
+              {display.content}
             </Box>
           </Box>
         );
@@ -131,21 +154,7 @@ export function PresentationSlideRenderer({
               transition: isPresenting && imageObj.cycleOnPlayback ? 'opacity 0.5s ease-in-out' : undefined,
             }}
           >
-            <img
-              src={imageSrc}
-              alt={imageObj.alt || ''}
-              style={{
-                width: '100%',
-                height: '100%',
-                objectFit: imageObj.fit || 'contain',
-                filter: imageObj.filters ? 
-                  `brightness(${imageObj.filters.brightness || 100}%) 
-                   contrast(${imageObj.filters.contrast || 100}%) 
-                   saturate(${imageObj.filters.saturation || 100}%) 
-                   blur(${imageObj.filters.blur || 0}px)` : 
-                  undefined,
-              }}
-            />
+            <CroppedImage image={imageObj} src={imageSrc} />
             {/* Cycling indicator */}
             {isPresenting && imageObj.cycleOnPlayback && imageObj.variants && imageObj.variants.length > 1 && (
               <Box
@@ -192,6 +201,33 @@ export function PresentationSlideRenderer({
           />
         );
 
+      case 'chart':
+        const chartObj = obj as ChartObject;
+        return (
+          <Box key={obj.id} sx={baseStyles}>
+            <ChartGraphic
+              chartType={chartObj.chartType}
+              data={chartObj.data}
+              options={chartObj.options}
+              width={obj.coordinates.width}
+              height={obj.coordinates.height}
+              colorSet={DEFAULT_COLOR_SET}
+              fontFamily={typographySet ? getTypographyStyles(typographySet, 'label').fontFamily : undefined}
+            />
+          </Box>
+        );
+
+      case 'table':
+        return (
+          <Box key={obj.id} sx={baseStyles}>
+            <TableGrid
+              table={obj as TableObject}
+              colorSet={DEFAULT_COLOR_SET}
+              fontFamily={typographySet ? getTypographyStyles(typographySet, 'bodySmall').fontFamily : undefined}
+            />
+          </Box>
+        );
+
       default:
         return null;
     }
@@ -199,6 +235,12 @@ export function PresentationSlideRenderer({
 
   const scale = Math.min(width / 1920, height / 1080);
 
+  // Which animated objects are hidden, playing or shown at this build
+  const buildStates = useMemo(
+    () => build === undefined ? null : getObjectBuildStates(slide, build),
+    [slide, build]
+  );
+
   return (
     <Box
       sx={{
@@ -213,7 +255,12 @@ export function PresentationSlideRenderer({
         boxShadow: isPresenting ? 'none' : 3,
       }}
     >
-      {slide.objects.map(obj => renderObject(obj))}
+      {masterElements && <MasterElementsLayer elements={masterElements} />}
+      {slide.objects.map(obj => (
+        <AnimatedObject key={obj.id} state={buildStates?.get(obj.id)} coordinates={obj.coordinates}>
+          {renderObject(obj)}
+        </AnimatedObject>
+      ))}
     </Box>
   );
 }
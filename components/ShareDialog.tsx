@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  Alert,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DeleteIcon from '@mui/icons-material/Delete';
+import Tooltip from '@mui/material/Tooltip';
+import {
+  LINK_ROLES,
+  LinkRole,
+  MEMBER_ROLES,
+  MemberRole,
+  PresentationSharing,
+  ROLE_LABELS,
+  ShareLink,
+  getShareUrl,
+  isLinkActive,
+  isValidEmail,
+} from '@/lib/models/sharing';
+import {
+  deleteShareLink,
+  getPresentationSharing,
+  getShareLink,
+  saveShareLink,
+  sharePresentation,
+  unsharePresentation,
+  updatePresentationMetadata,
+  updatePresentationSettings,
+} from '@/lib/firebase/presentations';
+
+interface ShareDialogProps {
+  open: boolean;
+  onClose: () => void;
+  presentationId: string;
+  isPublic?: boolean;
+  allowComments?: boolean;
+}
+
+// Link expiry choices, in days; 0 never expires
+const EXPIRY_DAYS = [0, 1, 7, 30];
+
+const expiryLabel = (days: number) => (days === 0 ? 'Never expires' : `Expires in ${days} day${days === 1 ? '' : 's'}`);
+
+const toDate = (value: ShareLink['expiresAt']) =>
+  value === null ? null : value instanceof Date ? value : new Date(value.toMillis());
+
+/**
+ * Share a presentation: invite people by email as editors, commenters or
+ * viewers, turn the share link on or off, make it public, and turn
+ * comments off or on. Owner only.
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({
+  open,
+  onClose,
+  presentationId,
+  isPublic: initialIsPublic = false,
+  allowComments: initialAllowComments = true,
+}) => {
+  const [sharing, setSharing] = useState<PresentationSharing>();
+  const [isPublic, setIsPublic] = useState(initialIsPublic);
+  const [allowComments, setAllowComments] = useState(initialAllowComments);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('viewer');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setIsPublic(initialIsPublic), [initialIsPublic]);
+  useEffect(() => setAllowComments(initialAllowComments), [initialAllowComments]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    getPresentationSharing(presentationId)
+      .then(setSharing)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sharing'));
+    getShareLink(presentationId)
+      .then(setLink)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load share link'));
+  }, [open, presentationId]);
+
+  // Runs one change at a time and shows what went wrong
+  const run = async (change: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sharing');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () => run(async () => {
+    setSharing(await sharePresentation(presentationId, email, role));
+    setEmail('');
+  });
+
+  const handleChangeRole = (memberEmail: string, memberRole: MemberRole) => run(async () => {
+    setSharing(await sharePresentation(presentationId, memberEmail, memberRole));
+  });
+
+  const handleRemove = (memberEmail: string) => run(async () => {
+    setSharing(await unsharePresentation(presentationId, memberEmail));
+  });
+
+  const handleSaveLink = (changes: { role?: LinkRole; expiresInDays?: number; rotate?: boolean }) => run(async () => {
+    const days = changes.expiresInDays;
+    const expiresAt = days === undefined
+      ? (link ? toDate(link.expiresAt) : null)
+      : days === 0 ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    setLink(await saveShareLink(presentationId, {
+      role: changes.role || link?.role || 'viewer',
+      expiresAt,
+      rotate: changes.rotate,
+    }));
+  });
+
+  const handleToggleLink = (enabled: boolean) => run(async () => {
+    if (enabled) {
+      setLink(await saveShareLink(presentationId, { role: 'viewer', expiresAt: null }));
+    } else {
+      await deleteShareLink(presentationId);
+      setLink(null);
+    }
+  });
+
+  const handleTogglePublic = (enabled: boolean) => run(async () => {
+    await updatePresentationMetadata(presentationId, { isPublic: enabled });
+    setIsPublic(enabled);
+  });
+
+  const handleToggleComments = (enabled: boolean) => run(async () => {
+    await updatePresentationSettings(presentationId, { allowComments: enabled });
+    setAllowComments(enabled);
+  });
+
+  const members = Object.entries(sharing?.members || {}).sort(([a], [b]) => a.localeCompare(b));
+  const linkUrl = link ? getShareUrl(window.location.origin, presentationId, link.token) : '';
+  const linkExpiry = link ? toDate(link.expiresAt) : null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Share</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+          <TextField
+            label="Invite by email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && isValidEmail(email)) {
+                handleInvite();
+              }
+            }}
+            size="small"
+            fullWidth
+          />
+          <Select size="small" value={role} onChange={(e) => setRole(e.target.value as MemberRole)}>
+            {MEMBER_ROLES.map((memberRole) => (
+              <MenuItem key={memberRole} value={memberRole}>{ROLE_LABELS[memberRole]}</MenuItem>
+            ))}
+          </Select>
+          <Button variant="contained" onClick={handleInvite} disabled={busy || !isValidEmail(email)}>
+            Invite
+          </Button>
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          They get access when they sign in with this address, once it&apos;s verified.
+        </Typography>
+
+        {members.length > 0 && (
+          <List dense>
+            {members.map(([memberEmail, member]) => (
+              <ListItem
+                key={memberEmail}
+                secondaryAction={
+                  <Tooltip title="Remove">
+                    <IconButton edge="end" size="small" onClick={() => handleRemove(memberEmail)} disabled={busy}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemText primary={memberEmail} />
+                <Select
+                  size="small"
+                  variant="standard"
+                  value={member.role}
+                  onChange={(e) => handleChangeRole(memberEmail, e.target.value as MemberRole)}
+                  disabled={busy}
+                  sx={{ mr: 2 }}
+                >
+                  {MEMBER_ROLES.map((memberRole) => (
+                    <MenuItem key={memberRole} value={memberRole}>{ROLE_LABELS[memberRole]}</MenuItem>
+                  ))}
+                </Select>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <FormControlLabel
+          control={<Switch checked={!!link} onChange={(e) => handleToggleLink(e.target.checked)} disabled={busy} />}
+          label="Anyone with the link"
+        />
+        {link && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 1 }}>
+            <TextField
+              label="Share link"
+              value={linkUrl}
+              fullWidth
+              size="small"
+              helperText={
+                !isLinkActive(link)
+                  ? 'This link has expired'
+                  : linkExpiry ? `Works until ${linkExpiry.toLocaleString()}` : 'Works until you turn it off or reset it'
+              }
+              error={!isLinkActive(link)}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <Tooltip title="Copy link">
+                    <IconButton size="small" onClick={() => navigator.clipboard?.writeText(linkUrl)}>
+                      <ContentCopyIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                ),
+              }}
+            />
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Select
+                size="small"
+                value={link.role}
+                onChange={(e) => handleSaveLink({ role: e.target.value as LinkRole })}
+                disabled={busy}
+              >
+                {LINK_ROLES.map((linkRole) => (
+                  <MenuItem key={linkRole} value={linkRole}>
+                    {linkRole === 'viewer' ? 'Can view' : 'Can comment'}
+                  </MenuItem>
+                ))}
+              </Select>
+              <Select
+                size="small"
+                value=""
+                displayEmpty
+                renderValue={() => (linkExpiry ? 'Expires' : 'Never expires')}
+                onChange={(e) => handleSaveLink({ expiresInDays: Number(e.target.value) })}
+                disabled={busy}
+              >
+                {EXPIRY_DAYS.map((days) => (
+                  <MenuItem key={days} value={days}>{expiryLabel(days)}</MenuItem>
+                ))}
+              </Select>
+              <Tooltip title="Make a new link; the old one stops working">
+                <span>
+                  <Button onClick={() => handleSaveLink({ rotate: true })} disabled={busy}>
+                    Reset link
+                  </Button>
+                </span>
+              </Tooltip>
+            </Box>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <FormControlLabel
+          control={<Switch checked={isPublic} onChange={(e) => handleTogglePublic(e.target.checked)} disabled={busy} />}
+          label="Public: anyone can find and view it"
+        />
+        <FormControlLabel
+          control={<Switch checked={allowComments} onChange={(e) => handleToggleComments(e.target.checked)} disabled={busy} />}
+          label="Allow comments from editors and commenters"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
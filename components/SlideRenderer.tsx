@@ -1,9 +1,25 @@
 import React from 'react';
 import { Box, Typography, Paper, Tooltip } from '@mui/material';
-import { Slide, SlideObjectUnion, TextObject, ImageObject, ShapeObject } from '@/lib/models/slide';
+import { Slide, SlideObjectUnion, TextObject, ImageObject, ShapeObject, ChartObject, TableObject } from '@/lib/models/slide';
+import { DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { ChartGraphic } from '@/components/slides/renderers/objects/ChartObjectRenderer';
+import { TableGrid } from '@/components/slides/renderers/objects/TableObjectRenderer';
+import { TableCellRange, setCellValue } from '@/lib/models/table';
 import { SLIDE_DIMENSIONS } from '@/lib/models/coordinates';
 import { TypographySet } from '@/lib/models/typography';
+import { fitTextObject, getTextDisplay } from '@/lib/templates/overflow';
 import { getTypographyStyles, mapSlideRoleToTypographyRole } from '@/hooks/useTypography';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+import MasterElementsLayer from '@/components/slides/MasterElementsLayer';
+import CroppedImage from '@/components/slides/CroppedImage';
+
+// An object someone else has selected (see lib/collab/presence)
+export interface RemoteSelection {
+  clientId: string;
+  objectId: string;
+  color: string;
+  label: string;
+}
 
 interface SlideRendererProps {
   slide: Slide;
@@ -13,6 +29,11 @@ interface SlideRendererProps {
   onObjectClick?: (objectId: string) => void;
   selectedObjectId?: string;
   typographySet?: TypographySet | null;
+  onObjectEdit?: (objectId: string, updates: Partial<SlideObjectUnion>) => void;
+  tableSelection?: TableCellRange | null;
+  onTableSelectionChange?: (range: TableCellRange) => void;
+  masterElements?: ResolvedMasterElement[];  // Page numbers, logos, footers for this slide
+  remoteSelections?: RemoteSelection[];
 }
 
 export const SlideRenderer: React.FC<SlideRendererProps> = ({
@@ -23,6 +44,11 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
   onObjectClick,
   selectedObjectId,
   typographySet,
+  onObjectEdit,
+  tableSelection,
+  onTableSelectionChange,
+  masterElements,
+  remoteSelections,
 }) => {
   // Calculate scale to fit container
   const scale = Math.min(
@@ -51,26 +77,35 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
       case 'text':
         const textObj = obj as TextObject;
         
-        // Get typography styles based on typography set and role
-        const typographyRole = mapSlideRoleToTypographyRole(textObj.role);
+        // Get typography styles based on typography set and role; the
+        // object's own role and styles override the template's
+        const typographyRole = textObj.typographicRole || mapSlideRoleToTypographyRole(textObj.role);
+        const customStyles = textObj.customStyles || {};
         const typographyStyles = typographySet 
           ? getTypographyStyles(typographySet, typographyRole)
           : {};
         
         // Fallback to default styles if no typography set
-        const fontSize = typographyStyles.fontSize 
-          ? typographyStyles.fontSize * scale 
-          : getFontSizeForRole(textObj.role, scale);
-        const textAlign = typographyStyles.textAlign || getTextAlignForRole(textObj.role);
-        const fontWeight = typographyStyles.fontWeight || getFontWeightForRole(textObj.role);
+        const baseFontSize = customStyles.fontSize || Number(typographyStyles.fontSize) || getFontSizeForRole(textObj.role, 1);
+        const textAlign = customStyles.textAlign || typographyStyles.textAlign || getTextAlignForRole(textObj.role);
+        const fontWeight = customStyles.fontWeight || typographyStyles.fontWeight || getFontWeightForRole(textObj.role);
         const fontFamily = typographyStyles.fontFamily || textObj.fontFamily || 'Roboto, sans-serif';
         const lineHeight = typographyStyles.lineHeight || 1.5;
         const letterSpacing = typographyStyles.letterSpacing || 'normal';
+
+        // Fit the text into its template zone (shrink, clip or paginate)
+        const fit = fitTextObject(slide, textObj, {}, {
+          fontSize: baseFontSize,
+          lineHeight: typeof lineHeight === 'number' ? lineHeight : undefined,
+          minFontSize: typographySet?.roles[typographyRole as keyof TypographySet['roles']]?.minFontSize,
+        });
+        const fontSize = fit.fontSize * scale;
+        const display = getTextDisplay(textObj.content, fit);
         
         return (
           <Box
             key={obj.id}
-            style={baseStyle}
+            style={{ ...baseStyle, overflow: display.overflow }}
             onClick={() => onObjectClick?.(obj.id)}
           >
             <Typography
@@ -78,7 +113,7 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
                 fontSize,
                 fontWeight,
                 textAlign,
-                color: textObj.color || '#000',
+                color: customStyles.color || textObj.color || '#000',
                 fontFamily,
                 lineHeight,
                 letterSpacing,
@@ -88,14 +123,32 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
                 height: '100%',
                 display: 'flex',
                 alignItems: getVerticalAlignForRole(textObj.role),
-                justifyContent: getHorizontalAlignForRole(textObj.role),
+                justifyContent: customStyles.textAlign
+                  ? getJustifyForTextAlign(customStyles.textAlign)
+                  : getHorizontalAlignForRole(textObj.role),
                 padding: 8 * scale,
                 whiteSpace: 'pre-wrap',
                 wordBreak: 'break-word',
               }}
             >
-              {textObj.content}
+              {display.content}
             </Typography>
+            {fit.behavior === 'paginate' && fit.overflows && !isPresenting && (
+              <Typography
+                variant="caption"
+                sx={{
+                  position: 'absolute',
+                  right: 4,
+                  bottom: 2,
+                  px: 0.5,
+                  bgcolor: 'warning.light',
+                  borderRadius: 0.5,
+                  fontSize: Math.max(9, 18 * scale),
+                }}
+              >
+                Continues on next slide
+              </Typography>
+            )}
           </Box>
         );
 
@@ -106,20 +159,14 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         const imageElement = (
           <Box
             key={obj.id}
-            style={baseStyle}
+            style={{ ...baseStyle, overflow: 'hidden', borderRadius: `${20 * scale}px` }}
             onClick={() => onObjectClick?.(obj.id)}
           >
-            <img
-              src={imageObj.src}
-              alt={imageObj.alt}
-              style={{
-                width: '100%',
-                height: '100%',
-                objectFit: imageObj.fit || 'cover',
-                borderRadius: `${20 * scale}px`,
-                overflow: 'hidden',
-                cursor: 'pointer',
-              }}
+            <CroppedImage
+              image={imageObj}
+              defaultFit="cover"
+              scale={scale}
+              style={{ cursor: 'pointer' }}
               onError={(e) => {
                 // Fallback for broken images
                 const target = e.target as HTMLImageElement;
@@ -162,6 +209,61 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
           />
         );
 
+      case 'chart':
+        const chartObj = obj as ChartObject;
+        return (
+          <Box
+            key={obj.id}
+            style={baseStyle}
+            onClick={() => onObjectClick?.(obj.id)}
+          >
+            <ChartGraphic
+              chartType={chartObj.chartType}
+              data={chartObj.data}
+              options={chartObj.options}
+              width={obj.coordinates.width}
+              height={obj.coordinates.height}
+              colorSet={DEFAULT_COLOR_SET}
+              fontFamily={typographySet ? getTypographyStyles(typographySet, 'label').fontFamily : undefined}
+            />
+          </Box>
+        );
+
+      case 'table':
+        const tableObj = obj as TableObject;
+        // Selected tables are edited in place when the host supports edits
+        const isEditingTable = isSelected && !!onObjectEdit && !isPresenting;
+        return (
+          <Box
+            key={obj.id}
+            style={baseStyle}
+            onClick={() => onObjectClick?.(obj.id)}
+          >
+            <Box
+              style={{
+                width: obj.coordinates.width,
+                height: obj.coordinates.height,
+                transform: `scale(${scale})`,
+                transformOrigin: 'top left',
+              }}
+            >
+              <TableGrid
+                table={tableObj}
+                colorSet={DEFAULT_COLOR_SET}
+                fontFamily={typographySet ? getTypographyStyles(typographySet, 'bodySmall').fontFamily : undefined}
+                isEditing={isEditingTable}
+                selection={isEditingTable ? tableSelection : null}
+                onSelectionChange={onTableSelectionChange}
+                onCellChange={(row, col, value) => {
+                  const updated = setCellValue(tableObj, row, col, value);
+                  onObjectEdit?.(obj.id, { headers: updated.headers, data: updated.data });
+                }}
+                showOverflowHint={!isPresenting}
+              />
+            </Box>
+          </Box>
+        );
+
       default:
         return null;
     }
@@ -197,9 +299,52 @@ export const SlideRenderer: React.FC<SlideRendererProps> = ({
         />
       )}
 
+      {/* Master elements (watermarks stay behind slide objects) */}
+      {masterElements && <MasterElementsLayer elements={masterElements} scale={scale} />}
+
       {/* Render all slide objects */}
       {slide.objects.map(renderObject)}
 
+      {/* Objects other editors have selected, outlined in their colors, and comment pins */}
+      {remoteSelections?.map((selection) => {
+        const obj = slide.objects.find(candidate => candidate.id === selection.objectId);
+        if (!obj) {
+          return null;
+        }
+        return (
+          <Box
+            key={`${selection.clientId}-${selection.objectId}`}
+            style={{
+              position: 'absolute',
+              left: obj.coordinates.x * scale - 2,
+              top: obj.coordinates.y * scale - 2,
+              width: obj.coordinates.width * scale + 4,
+              height: obj.coordinates.height * scale + 4,
+              border: `2px solid ${selection.color}`,
+              borderRadius: 4,
+              pointerEvents: 'none',
+            }}
+          >
+            <Box
+              style={{
+                position: 'absolute',
+                top: -18,
+                left: -2,
+                padding: '1px 6px',
+                borderRadius: '4px 4px 4px 0',
+                backgroundColor: selection.color,
+                color: '#fff',
+                fontSize: 11,
+                lineHeight: '16px',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {selection.label}
+            </Box>
+          </Box>
+        );
+      })}
+
       {/* Debug grid overlay (only in development) */}
       {process.env.NODE_ENV === 'development' && !isPresenting && (
         <Box
@@ -283,6 +428,14 @@ function getVerticalAlignForRole(role: string): string {
   return aligns[role] || 'flex-start';
 }
 
+function getJustifyForTextAlign(textAlign: string): string {
+  const aligns: Record<string, string> = {
+    center: 'center',
+    right: 'flex-end',
+  };
+  return aligns[textAlign] || 'flex-start';
+}
+
 function getHorizontalAlignForRole(role: string): string {
   const aligns: Record<string, string> = {
     title: 'center',
@@ -0,0 +1,381 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Paper,
+  Alert,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import RestoreIcon from '@mui/icons-material/Restore';
+import { SlideRenderer } from '@/components/SlideRenderer';
+import { Slide } from '@/lib/models/slide';
+import {
+  PresentationVersion,
+  SlideChange,
+  SlideDiff,
+  diffVersions,
+  restoreDeck,
+  restoreSlide,
+} from '@/lib/models/versions';
+import { deleteVersion, listVersions, renameVersion, saveVersion } from '@/lib/firebase/versions';
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  presentationId: string;
+  slides: Slide[];  // The deck as it is now
+  onRestore: (slides: Slide[]) => Promise<void> | void;
+}
+
+// Compare a version with the deck now, or with the version before it
+type Comparison = 'current' | 'previous';
+
+const THUMBNAIL_WIDTH = 192;
+const THUMBNAIL_HEIGHT = 108;
+
+const CHANGE_LABELS: Record<SlideChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const CHANGE_COLORS: Record<SlideChange, 'success' | 'error' | 'warning' | 'default'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning',
+  unchanged: 'default',
+};
+
+const formatTime = (time: number) => (time ? new Date(time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : 'Just now');
+
+const versionLabel = (version: PresentationVersion) => version.name || (version.auto ? 'Automatic version' : 'Version');
+
+const Thumbnail: React.FC<{ slide?: Slide }> = ({ slide }) => (
+  <Box
+    sx={{
+      width: THUMBNAIL_WIDTH,
+      height: THUMBNAIL_HEIGHT,
+      flexShrink: 0,
+      border: 1,
+      borderColor: 'divider',
+      borderRadius: 1,
+      overflow: 'hidden',
+      bgcolor: slide ? 'background.paper' : 'grey.100',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      position: 'relative',
+    }}
+  >
+    {slide ? (
+      <SlideRenderer slide={slide} width={THUMBNAIL_WIDTH} height={THUMBNAIL_HEIGHT} isPresenting={false} />
+    ) : (
+      <Typography variant="caption" color="text.disabled">No slide</Typography>
+    )}
+  </Box>
+);
+
+/**
+ * Version history: save a named version, browse automatic and named ones,
+ * see slide by slide what changed since (or in) a version, and restore the
+ * whole deck or single slides. The deck is copied to an automatic version
+ * before every restore, so a restore can be undone the same way.
+ */
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({
+  open,
+  onClose,
+  presentationId,
+  slides,
+  onRestore,
+}) => {
+  const [versions, setVersions] = useState<PresentationVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison>('current');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const loaded = await listVersions(presentationId);
+    setVersions(loaded);
+    setSelectedId(current => (current && loaded.some(version => version.id === current) ? current : loaded[0]?.id || null));
+  }, [presentationId]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setVersions(null);
+    load().catch((err) => setError(err instanceof Error ? err.message : 'Failed to load version history'));
+  }, [open, load]);
+
+  // Runs one change at a time and shows what went wrong
+  const run = async (change: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectedIndex = versions ? versions.findIndex(version => version.id === selectedId) : -1;
+  const selected = versions && selectedIndex !== -1 ? versions[selectedIndex] : null;
+  const previous = versions && selectedIndex !== -1 ? versions[selectedIndex + 1] : undefined;
+
+  const diffs = useMemo<SlideDiff[]>(() => {
+    if (!selected) {
+      return [];
+    }
+    return comparison === 'current'
+      ? diffVersions(selected.slides, slides)
+      : diffVersions(previous?.slides || [], selected.slides);
+  }, [selected, previous, comparison, slides]);
+
+  const counts = diffs.reduce<Record<SlideChange, number>>(
+    (total, diff) => ({ ...total, [diff.change]: total[diff.change] + 1 }),
+    { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  );
+  const visibleDiffs = diffs.filter(diff => showUnchanged || diff.change !== 'unchanged' || diff.moved);
+
+  // Keep the deck as it is before putting anything back
+  const restore = (restored: Slide[], label: string) => run(async () => {
+    await saveVersion(presentationId, { name: `Before restoring ${label}`, auto: true });
+    await onRestore(restored);
+    await load();
+  });
+
+  const handleSave = () => run(async () => {
+    const id = await saveVersion(presentationId, { name });
+    setName('');
+    setSelectedId(id);
+    await load();
+  });
+
+  const handleRename = () => run(async () => {
+    if (renaming && renaming.name.trim()) {
+      await renameVersion(presentationId, renaming.id, renaming.name);
+      setRenaming(null);
+      await load();
+    }
+  });
+
+  const handleDelete = (version: PresentationVersion) => run(async () => {
+    await deleteVersion(presentationId, version.id);
+    await load();
+  });
+
+  const slideNumber = (diff: SlideDiff) => {
+    const deck = comparison === 'current' ? slides : selected?.slides || [];
+    const index = deck.findIndex(slide => slide.id === diff.slideId);
+    return index === -1 ? 'Removed slide' : `Slide ${index + 1}`;
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Version history</DialogTitle>
+      <DialogContent dividers sx={{ p: 0 }}>
+        {error && <Alert severity="error" sx={{ m: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        <Box sx={{ display: 'flex', height: '70vh' }}>
+          <Box sx={{ width: 300, flexShrink: 0, borderRight: 1, borderColor: 'divider', display: 'flex', flexDirection: 'column' }}>
+            <Box sx={{ p: 2, display: 'flex', gap: 1 }}>
+              <TextField
+                label="Name this version"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && name.trim()) {
+                    handleSave();
+                  }
+                }}
+                size="small"
+                fullWidth
+              />
+              <Button variant="contained" onClick={handleSave} disabled={busy || !name.trim()}>
+                Save
+              </Button>
+            </Box>
+            <Box sx={{ flex: 1, overflowY: 'auto' }}>
+              {versions === null ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                  <CircularProgress size={24} />
+                </Box>
+              ) : versions.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                  No versions yet. They&apos;re saved automatically as the deck changes, or name one above.
+                </Typography>
+              ) : (
+                <List dense disablePadding>
+                  {versions.map((version) => (
+                    <ListItemButton
+                      key={version.id}
+                      selected={version.id === selectedId}
+                      onClick={() => setSelectedId(version.id)}
+                    >
+                      <ListItemText
+                        primary={
+                          <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Box component="span" sx={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                              {versionLabel(version)}
+                            </Box>
+                            {version.auto && <Chip label="Auto" size="small" variant="outlined" />}
+                          </Box>
+                        }
+                        secondary={`${formatTime(version.createdAt)} · ${version.createdByName || 'Someone'} · ${version.slideCount} slides`}
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              )}
+            </Box>
+          </Box>
+
+          <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+            {selected ? (
+              <>
+                <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', borderBottom: 1, borderColor: 'divider' }}>
+                  {renaming?.id === selected.id ? (
+                    <TextField
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: selected.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleRename();
+                        } else if (e.key === 'Escape') {
+                          e.stopPropagation();
+                          setRenaming(null);
+                        }
+                      }}
+                      onBlur={() => setRenaming(null)}
+                      size="small"
+                      autoFocus
+                      sx={{ flex: 1 }}
+                    />
+                  ) : (
+                    <Typography variant="subtitle1" noWrap sx={{ flex: 1 }}>
+                      {versionLabel(selected)}
+                      <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                        {formatTime(selected.createdAt)}
+                      </Typography>
+                    </Typography>
+                  )}
+                  <Tooltip title="Rename">
+                    <IconButton size="small" onClick={() => setRenaming({ id: selected.id, name: selected.name || '' })} disabled={busy}>
+                      <EditOutlinedIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete version">
+                    <IconButton size="small" onClick={() => handleDelete(selected)} disabled={busy}>
+                      <DeleteOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Button
+                    variant="contained"
+                    startIcon={<RestoreIcon />}
+                    onClick={() => restore(restoreDeck(selected.slides), `“${versionLabel(selected)}”`)}
+                    disabled={busy}
+                  >
+                    Restore this version
+                  </Button>
+                </Box>
+
+                <Box sx={{ px: 2, py: 1, display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                  <ToggleButtonGroup
+                    value={comparison}
+                    exclusive
+                    size="small"
+                    onChange={(_, value: Comparison | null) => value && setComparison(value)}
+                  >
+                    <ToggleButton value="current">Since this version</ToggleButton>
+                    <ToggleButton value="previous">In this version</ToggleButton>
+                  </ToggleButtonGroup>
+                  <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                    {counts.changed} changed · {counts.added} added · {counts.removed} removed · {counts.unchanged} unchanged
+                  </Typography>
+                  <FormControlLabel
+                    control={<Switch size="small" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+                    label="Show unchanged"
+                  />
+                </Box>
+
+                <Box sx={{ flex: 1, overflowY: 'auto', px: 2, pb: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                  {visibleDiffs.length === 0 && (
+                    <Typography variant="body2" color="text.secondary">
+                      {comparison === 'current' ? 'Nothing has changed since this version.' : 'This version made no changes.'}
+                    </Typography>
+                  )}
+                  {visibleDiffs.map((diff) => (
+                    <Paper key={diff.slideId} variant="outlined" sx={{ p: 1.5, display: 'flex', alignItems: 'center', gap: 2 }}>
+                      <Thumbnail slide={diff.before} />
+                      <ArrowForwardIcon color="action" />
+                      <Thumbnail slide={diff.after} />
+                      <Box sx={{ flex: 1, minWidth: 0 }}>
+                        <Typography variant="subtitle2">{slideNumber(diff)}</Typography>
+                        <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5, flexWrap: 'wrap' }}>
+                          <Chip label={CHANGE_LABELS[diff.change]} color={CHANGE_COLORS[diff.change]} size="small" />
+                          {diff.moved && <Chip label="Moved" size="small" variant="outlined" />}
+                        </Box>
+                        {diff.objectChanges > 0 && (
+                          <Typography variant="caption" color="text.secondary">
+                            {diff.objectChanges === 1 ? '1 object changed' : `${diff.objectChanges} objects changed`}
+                          </Typography>
+                        )}
+                      </Box>
+                      {/* Single slides come back from the selected version */}
+                      {comparison === 'current' && diff.change !== 'unchanged' && (
+                        <Button
+                          size="small"
+                          onClick={() => restore(
+                            restoreSlide(slides, selected.slides, diff.slideId),
+                            `${slideNumber(diff).toLowerCase()} from “${versionLabel(selected)}”`
+                          )}
+                          disabled={busy}
+                        >
+                          {diff.change === 'added' ? 'Remove slide' : 'Restore slide'}
+                        </Button>
+                      )}
+                    </Paper>
+                  ))}
+                </Box>
+              </>
+            ) : (
+              <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <Typography color="text.secondary">Select a version to see what changed</Typography>
+              </Box>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VersionHistoryDialog;
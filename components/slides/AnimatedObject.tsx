@@ -0,0 +1,70 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { keyframes } from '@mui/material/styles';
+import { Coordinates } from '@/lib/models/coordinates';
+import { SlideAnimation } from '@/lib/models/slide';
+import { ObjectBuildState } from '@/lib/models/animation';
+
+// Entrance effects; transforms run around the object's center
+const EFFECTS: Record<SlideAnimation['type'], ReturnType<typeof keyframes>> = {
+  fadeIn: keyframes`
+    from { opacity: 0; }
+    to { opacity: 1; }
+  `,
+  slideIn: keyframes`
+    from { opacity: 0; transform: translateY(120px); }
+    to { opacity: 1; transform: translateY(0); }
+  `,
+  zoomIn: keyframes`
+    from { opacity: 0; transform: scale(0.3); }
+    to { opacity: 1; transform: scale(1); }
+  `,
+  rotate: keyframes`
+    from { opacity: 0; transform: rotate(-180deg) scale(0.5); }
+    to { opacity: 1; transform: rotate(0) scale(1); }
+  `,
+  bounce: keyframes`
+    0% { opacity: 0; transform: translateY(-160px); }
+    50% { opacity: 1; transform: translateY(0); }
+    70% { transform: translateY(-40px); }
+    85% { transform: translateY(0); }
+    93% { transform: translateY(-12px); }
+    100% { transform: translateY(0); }
+  `,
+};
+
+interface AnimatedObjectProps {
+  state?: ObjectBuildState;
+  coordinates: Coordinates;   // Canvas coordinates of the wrapped object
+  children: React.ReactNode;
+}
+
+/**
+ * Plays an object's build state in presenter mode: hidden until its build,
+ * then its entrance effect, then shown. The wrapper covers the canvas so the
+ * object keeps its absolute position.
+ */
+export default function AnimatedObject({ state, coordinates, children }: AnimatedObjectProps) {
+  if (!state || state.status === 'shown') {
+    return <>{children}</>;
+  }
+  if (state.status === 'hidden') {
+    return null;
+  }
+
+  return (
+    <Box
+      data-animation={state.animation.type}
+      sx={{
+        position: 'absolute',
+        inset: 0,
+        pointerEvents: 'none',
+        '& > *': { pointerEvents: 'auto' },
+        transformOrigin: `${coordinates.x + coordinates.width / 2}px ${coordinates.y + coordinates.height / 2}px`,
+        animation: `${EFFECTS[state.animation.type]} ${state.duration}ms ease-out ${state.startAt}ms both`,
+      }}
+    >
+      {children}
+    </Box>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { ImageObject } from '@/lib/models/slide';
+import {
+  ImageFit,
+  Size,
+  imageFilterCss,
+  imageObjectPosition,
+  layoutImage,
+  normalizeCrop,
+} from '@/lib/models/image-crop';
+
+interface CroppedImageProps {
+  image: Pick<ImageObject, 'src' | 'alt' | 'fit' | 'crop' | 'focalPoint' | 'filters'> & Partial<Pick<ImageObject, 'coordinates'>>;
+  src?: string;           // A variant to show instead of image.src
+  defaultFit?: ImageFit;  // For images without a fit
+  scale?: number;         // Rendered pixels per canvas pixel, for the blur radius
+  style?: React.CSSProperties;
+  onError?: React.ReactEventHandler<HTMLImageElement>;
+}
+
+/**
+ * An image object's picture with its crop, focal point and filters. Fills
+ * its parent, which must be positioned and clip its overflow. Cropped
+ * images are placed once the source size and the parent's shape are
+ * known (layouts like ThreeImagesSlide size the box themselves); until
+ * then, and for uncropped images, CSS object-fit does the work. Sources
+ * are any URL or data: URL, so they are shown as they are (unoptimized).
+ */
+export default function CroppedImage({
+  image,
+  src,
+  defaultFit = 'contain',
+  scale = 1,
+  style,
+  onError,
+}: CroppedImageProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [measured, setMeasured] = useState<Size | null>(null);
+  const fit = image.fit || defaultFit;
+  const crop = normalizeCrop(image.crop);
+  const cropped = !!crop;
+  const filter = imageFilterCss(image.filters, scale);
+
+  // Only the box's shape matters: the placement is in percentages of it
+  useEffect(() => {
+    const parent = imageRef.current?.parentElement;
+    if (!cropped || !parent) {
+      return;
+    }
+    const measure = () => {
+      if (parent.clientWidth && parent.clientHeight) {
+        setMeasured({ width: parent.clientWidth, height: parent.clientHeight });
+      }
+    };
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(parent);
+    return () => observer.disconnect();
+  }, [cropped]);
+
+  const box = measured || image.coordinates;
+  const layout = crop && natural && box
+    ? layoutImage(natural, box, image, fit)
+    : null;
+
+  const placement: React.CSSProperties = layout && box
+    ? {
+        position: 'absolute',
+        left: `${(layout.x / box.width) * 100}%`,
+        top: `${(layout.y / box.height) * 100}%`,
+        width: `${(layout.width / box.width) * 100}%`,
+        height: `${(layout.height / box.height) * 100}%`,
+        maxWidth: 'none',
+      }
+    : {
+        width: '100%',
+        height: '100%',
+        objectFit: fit,
+        objectPosition: imageObjectPosition(image, fit),
+        // Hidden until a cropped image can be placed
+        visibility: crop ? 'hidden' : undefined,
+      };
+
+  return (
+    <Image
+      ref={imageRef}
+      src={src || image.src}
+      alt={image.alt || ''}
+      fill
+      unoptimized
+      draggable={false}
+      onLoad={(event) => {
+        const { naturalWidth, naturalHeight } = event.currentTarget;
+        if (naturalWidth && naturalHeight) {
+          setNatural({ width: naturalWidth, height: naturalHeight });
+        }
+      }}
+      onError={onError}
+      style={{ display: 'block', ...style, ...placement, filter }}
+    />
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import Image from 'next/image';
+import { Box } from '@mui/material';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+
+interface MasterElementsLayerProps {
+  elements: ResolvedMasterElement[];
+  scale?: number;   // Multiplies canvas coordinates; 1 when the parent already scales the canvas
+}
+
+/**
+ * Draws resolved master elements (page numbers, logos, footers, watermarks)
+ * on top of a slide. Watermarks go behind slide objects.
+ */
+export default function MasterElementsLayer({ elements, scale = 1 }: MasterElementsLayerProps) {
+  return (
+    <>
+      {elements.map(element => {
+        const { coordinates } = element;
+        return (
+          <Box
+            key={element.id}
+            data-master-element={element.type}
+            sx={{
+              position: 'absolute',
+              left: coordinates.x * scale,
+              top: coordinates.y * scale,
+              width: coordinates.width * scale,
+              height: coordinates.height * scale,
+              zIndex: element.type === 'watermark' ? 0 : 999,
+              opacity: element.opacity,
+              transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: element.align === 'left'
+                ? 'flex-start'
+                : element.align === 'right' ? 'flex-end' : 'center',
+              pointerEvents: 'none',
+              userSelect: 'none',
+            }}
+          >
+            {element.image ? (
+              <Image
+                src={element.image.url}
+                alt={element.type}
+                fill
+                unoptimized
+                style={{ objectFit: element.image.fit }}
+              />
+            ) : (
+              <span
+                style={{
+                  fontFamily: element.fontFamily,
+                  fontSize: element.fontSize * scale,
+                  fontWeight: element.fontWeight,
+                  fontStyle: element.fontStyle,
+                  color: element.color,
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                }}
+              >
+                {element.text}
+              </span>
+            )}
+          </Box>
+        );
+      })}
+    </>
+  );
+}
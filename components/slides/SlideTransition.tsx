@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Fade, Slide as MuiSlide, Zoom } from '@mui/material';
+import { keyframes } from '@mui/material/styles';
+import { SlideTransition as SlideTransitionModel } from '@/lib/models/slide';
+
+const flipIn = keyframes`
+  from { opacity: 0; transform: perspective(2000px) rotateY(-90deg); }
+  to { opacity: 1; transform: perspective(2000px) rotateY(0); }
+`;
+
+// MUI Slide takes the direction the content moves in
+const SLIDE_DIRECTIONS: Record<Required<SlideTransitionModel>['direction'], 'left' | 'right' | 'up' | 'down'> = {
+  left: 'left',
+  right: 'right',
+  up: 'up',
+  down: 'down',
+};
+
+interface SlideTransitionProps {
+  transition: Required<SlideTransitionModel>;
+  children: React.ReactElement;
+}
+
+/**
+ * Plays a slide's own transition when it mounts. Give it a key per slide
+ * so every slide change replays it.
+ */
+export default function SlideTransition({ transition, children }: SlideTransitionProps) {
+  const content = <Box sx={{ width: '100%', height: '100%' }}>{children}</Box>;
+
+  switch (transition.type) {
+    case 'none':
+      return content;
+    case 'slide':
+      return (
+        <MuiSlide direction={SLIDE_DIRECTIONS[transition.direction]} in={true} timeout={transition.duration}>
+          {content}
+        </MuiSlide>
+      );
+    case 'zoom':
+      return <Zoom in={true} timeout={transition.duration}>{content}</Zoom>;
+    case 'flip':
+      return (
+        <Box sx={{ width: '100%', height: '100%', animation: `${flipIn} ${transition.duration}ms ease-out both` }}>
+          {children}
+        </Box>
+      );
+    default:
+      return <Fade in={true} timeout={transition.duration}>{content}</Fade>;
+  }
+}
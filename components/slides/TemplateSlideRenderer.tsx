@@ -8,6 +8,10 @@ import { SLIDE_DIMENSIONS } from '@/lib/models/coordinates';
 import TextObjectRenderer from './renderers/objects/TextObjectRenderer';
 import ImageObjectRenderer from './renderers/objects/ImageObjectRenderer';
 import ShapeObjectRenderer from './renderers/objects/ShapeObjectRenderer';
+import ChartObjectRenderer from './renderers/objects/ChartObjectRenderer';
+import TableObjectRenderer from './renderers/objects/TableObjectRenderer';
+import MasterElementsLayer from './MasterElementsLayer';
+import { resolveMasterElements } from '@/lib/templates/master-elements';
 
 interface TemplateSlideRendererProps {
   slide: Slide;
@@ -18,6 +22,9 @@ interface TemplateSlideRendererProps {
   isEditing?: boolean;
   onObjectEdit?: (objectId: string, content: any) => void;
   showGuides?: boolean;
+  slideNumber?: number;         // 1-based, for page number tokens
+  totalSlides?: number;
+  presentationTitle?: string;
 }
 
 export default function TemplateSlideRenderer({
@@ -29,6 +36,9 @@ export default function TemplateSlideRenderer({
   isEditing = false,
   onObjectEdit,
   showGuides = false,
+  slideNumber = 1,
+  totalSlides = 1,
+  presentationTitle,
 }: TemplateSlideRendererProps) {
   
   // Get the layout for this slide type from the template
@@ -120,6 +130,8 @@ export default function TemplateSlideRenderer({
             scale={scale}
             isEditing={isEditing}
             onEdit={onObjectEdit}
+            slide={slide}
+            template={template}
           />
         );
         
@@ -144,53 +156,46 @@ export default function TemplateSlideRenderer({
           />
         );
         
+      case 'chart':
+        return (
+          <ChartObjectRenderer
+            key={object.id}
+            object={object}
+            colorSet={colorSet}
+            typographySet={typographySet}
+            scale={scale}
+            isEditing={isEditing}
+          />
+        );
+        
+      case 'table':
+        return (
+          <TableObjectRenderer
+            key={object.id}
+            object={object}
+            colorSet={colorSet}
+            typographySet={typographySet}
+            scale={scale}
+            isEditing={isEditing}
+            onEdit={onObjectEdit}
+          />
+        );
+        
       // Add other object types as needed
       default:
         return null;
     }
   };
   
-  // Render master elements
-  const renderMasterElements = () => {
-    if (!template) return null;
-    
-    const elements = [
-      ...(template.globalMasterElements || []),
-      ...(layout?.masterElements || []),
-    ];
-    
-    return elements
-      .filter(element => {
-        // Check visibility rules
-        if (element.visibleOn && !element.visibleOn.includes(slide.type)) {
-          return false;
-        }
-        if (element.excludeFrom?.includes(slide.type)) {
-          return false;
-        }
-        return true;
+  // Master elements with tokens resolved for this slide's position in the deck
+  const masterElements = template
+    ? resolveMasterElements(slide, slideNumber, totalSlides, {
+        template,
+        presentationTitle,
+        typographySet,
+        colorSet,
       })
-      .map(element => (
-        <Box
-          key={element.id}
-          sx={{
-            position: 'absolute',
-            left: element.coordinates.x,
-            top: element.coordinates.y,
-            width: element.coordinates.width,
-            height: element.coordinates.height,
-            zIndex: 999,
-            opacity: element.transform?.opacity ?? 1,
-            transform: element.transform ? `
-              rotate(${element.transform.rotation || 0}deg)
-              scale(${element.transform.scale || 1})
-            ` : undefined,
-          }}
-        >
-          {element.content}
-        </Box>
-      ));
-  };
+    : [];
   
   const containerStyles = {
     position: 'relative' as const,
@@ -217,7 +222,7 @@ export default function TemplateSlideRenderer({
     <Box sx={containerStyles}>
       <Box sx={canvasStyles}>
         {renderBackground()}
-        {renderMasterElements()}
+        <MasterElementsLayer elements={masterElements} />
         {slide.objects.map(renderObject)}
         {renderZones()}
       </Box>
@@ -1,6 +1,6 @@
 import { Slide } from '@/lib/models/slide';
 import { Box, Typography } from '@mui/material';
-import Image from 'next/image';
+import CroppedImage from '@/components/slides/CroppedImage';
 
 interface ThreeImagesSlideProps {
   slide: Slide;
@@ -59,12 +59,7 @@ export default function ThreeImagesSlide({ slide }: ThreeImagesSlideProps) {
           backgroundColor: '#f5f5f5',
         }}>
           {mainImage?.src ? (
-            <Image
-              src={mainImage.src}
-              alt={mainImage.alt || 'Main image'}
-              fill
-              style={{ objectFit: 'cover' }}
-            />
+            <CroppedImage image={{ ...mainImage, alt: mainImage.alt || 'Main image' }} defaultFit="cover" />
           ) : (
             <Box sx={{ 
               width: '100%', 
@@ -95,12 +90,7 @@ export default function ThreeImagesSlide({ slide }: ThreeImagesSlideProps) {
             backgroundColor: '#f5f5f5',
           }}>
             {topRightImage?.src ? (
-              <Image
-                src={topRightImage.src}
-                alt={topRightImage.alt || 'Top right image'}
-                fill
-                style={{ objectFit: 'cover' }}
-              />
+              <CroppedImage image={{ ...topRightImage, alt: topRightImage.alt || 'Top right image' }} defaultFit="cover" />
             ) : (
               <Box sx={{ 
                 width: '100%', 
@@ -126,12 +116,7 @@ export default function ThreeImagesSlide({ slide }: ThreeImagesSlideProps) {
             backgroundColor: '#f5f5f5',
           }}>
             {bottomRightImage?.src ? (
-              <Image
-                src={bottomRightImage.src}
-                alt={bottomRightImage.alt || 'Bottom right image'}
-                fill
-                style={{ objectFit: 'cover' }}
-              />
+              <CroppedImage image={{ ...bottomRightImage, alt: bottomRightImage.alt || 'Bottom right image' }} defaultFit="cover" />
             ) : (
               <Box sx={{ 
                 width: '100%', 
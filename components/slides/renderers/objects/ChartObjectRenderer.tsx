@@ -0,0 +1,634 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { ChartObject } from '@/lib/models/slide';
+import { ColorSet, DEFAULT_COLOR_SET, resolveColor } from '@/lib/models/colors';
+import { TypographySet } from '@/lib/models/typography';
+import {
+  ChartData,
+  ChartOptions,
+  ChartType,
+  formatChartValue,
+  getChartColors,
+  getNiceTicks,
+  getValueRange,
+  normalizeChartData,
+} from '@/lib/models/chart';
+
+const FONT_SIZE = 20;
+const TITLE_FONT_SIZE = 32;
+const EDGE = 16;
+const SWATCH = 18;
+
+interface PlotArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ChartGraphicProps {
+  chartType: ChartType;
+  data: ChartData;
+  options?: ChartOptions;
+  width: number;
+  height: number;
+  colorSet?: ColorSet;
+  fontFamily?: string;
+}
+
+// Rough text width estimate for layout (SVG text is not measured)
+function estimateTextWidth(text: string, fontSize = FONT_SIZE): number {
+  return text.length * fontSize * 0.56;
+}
+
+function truncateLabel(text: string, maxWidth: number, fontSize = FONT_SIZE): string {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.56)));
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+}
+
+// SVG path for a pie slice
+function describeSlice(cx: number, cy: number, r: number, start: number, end: number): string {
+  const x1 = cx + r * Math.sin(start);
+  const y1 = cy - r * Math.cos(start);
+  const x2 = cx + r * Math.sin(end);
+  const y2 = cy - r * Math.cos(end);
+  const largeArc = end - start > Math.PI ? 1 : 0;
+  return `M ${cx} ${cy} L ${x1} ${y1} A ${r} ${r} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+}
+
+/**
+ * Chart drawn as SVG in its own width x height coordinate space.
+ * Scales with its container through the viewBox.
+ */
+export function ChartGraphic({
+  chartType,
+  data,
+  options = {},
+  width,
+  height,
+  colorSet = DEFAULT_COLOR_SET,
+  fontFamily = 'inherit',
+}: ChartGraphicProps) {
+  const chartData = normalizeChartData(data);
+  const colors = getChartColors(chartType, chartData, colorSet);
+  const textColor = resolveColor('text', colorSet, '#212121');
+  const mutedColor = resolveColor('textLight', colorSet, '#757575');
+  const gridColor = resolveColor('border', colorSet, '#E0E0E0');
+  const isPie = chartType === 'pie';
+
+  const svgProps = {
+    width: '100%',
+    height: '100%',
+    viewBox: `0 0 ${width} ${height}`,
+    preserveAspectRatio: 'none',
+    style: { display: 'block', overflow: 'visible' },
+    fontFamily,
+  };
+
+  const hasValues = chartData.series.some(series => series.values.length > 0);
+  if (!hasValues) {
+    return (
+      <svg {...svgProps}>
+        <text
+          x={width / 2}
+          y={height / 2}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={FONT_SIZE}
+          fill={mutedColor}
+        >
+          No chart data
+        </text>
+      </svg>
+    );
+  }
+
+  let top = EDGE;
+  let left = EDGE;
+  let right = width - EDGE;
+  let bottom = height - EDGE;
+  const elements: React.ReactNode[] = [];
+
+  // Title
+  if (options.title) {
+    elements.push(
+      <text
+        key="title"
+        x={width / 2}
+        y={top + TITLE_FONT_SIZE * 0.8}
+        textAnchor="middle"
+        fontSize={TITLE_FONT_SIZE}
+        fontWeight={600}
+        fill={textColor}
+      >
+        {options.title}
+      </text>
+    );
+    top += TITLE_FONT_SIZE + EDGE;
+  }
+
+  // Legend
+  const legendItems = isPie
+    ? chartData.categories
+    : chartData.series.map(series => series.name);
+  const showLegend = options.legend?.show ?? (isPie || chartData.series.length > 1);
+  const legendPosition = options.legend?.position || 'bottom';
+
+  if (showLegend && legendItems.length > 0) {
+    const itemWidths = legendItems.map(item => SWATCH + 8 + estimateTextWidth(item) + 24);
+
+    if (legendPosition === 'top' || legendPosition === 'bottom') {
+      const rowY = legendPosition === 'top' ? top : bottom - FONT_SIZE;
+      const totalWidth = itemWidths.reduce((sum, w) => sum + w, 0);
+      let cursor = Math.max(left, (width - totalWidth) / 2);
+      legendItems.forEach((item, index) => {
+        elements.push(
+          <g key={`legend-${index}`}>
+            <rect x={cursor} y={rowY + 1} width={SWATCH} height={SWATCH} rx={3} fill={colors[index]} />
+            <text x={cursor + SWATCH + 8} y={rowY + FONT_SIZE * 0.8} fontSize={FONT_SIZE} fill={textColor}>
+              {item}
+            </text>
+          </g>
+        );
+        cursor += itemWidths[index];
+      });
+      if (legendPosition === 'top') {
+        top += FONT_SIZE + EDGE;
+      } else {
+        bottom -= FONT_SIZE + EDGE;
+      }
+    } else {
+      const columnWidth = Math.min(width * 0.3, Math.max(...itemWidths));
+      const columnX = legendPosition === 'left' ? left : right - columnWidth;
+      legendItems.forEach((item, index) => {
+        const rowY = top + index * (FONT_SIZE + 12);
+        elements.push(
+          <g key={`legend-${index}`}>
+            <rect x={columnX} y={rowY + 1} width={SWATCH} height={SWATCH} rx={3} fill={colors[index]} />
+            <text x={columnX + SWATCH + 8} y={rowY + FONT_SIZE * 0.8} fontSize={FONT_SIZE} fill={textColor}>
+              {truncateLabel(item, columnWidth - SWATCH - 8)}
+            </text>
+          </g>
+        );
+      });
+      if (legendPosition === 'left') {
+        left += columnWidth + EDGE;
+      } else {
+        right -= columnWidth + EDGE;
+      }
+    }
+  }
+
+  if (isPie) {
+    elements.push(...renderPie(chartData, options, colors, {
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+    }));
+  } else {
+    elements.push(...renderCartesian(chartType, chartData, options, colors, {
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+    }, { textColor, mutedColor, gridColor }));
+  }
+
+  return <svg {...svgProps}>{elements}</svg>;
+}
+
+function renderPie(
+  data: ChartData,
+  options: ChartOptions,
+  colors: string[],
+  area: PlotArea
+): React.ReactNode[] {
+  const values = (data.series[0]?.values || []).map(value => Math.max(0, value));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total === 0) {
+    return [];
+  }
+
+  const cx = area.x + area.width / 2;
+  const cy = area.y + area.height / 2;
+  const r = Math.max(0, Math.min(area.width, area.height) / 2 - 4);
+  const nodes: React.ReactNode[] = [];
+
+  let angle = 0;
+  values.forEach((value, index) => {
+    if (value === 0) {
+      return;
+    }
+    const sweep = (value / total) * Math.PI * 2;
+    const fill = colors[index];
+
+    nodes.push(
+      value === total ? (
+        <circle key={`slice-${index}`} cx={cx} cy={cy} r={r} fill={fill} />
+      ) : (
+        <path
+          key={`slice-${index}`}
+          d={describeSlice(cx, cy, r, angle, angle + sweep)}
+          fill={fill}
+          stroke="#FFFFFF"
+          strokeWidth={2}
+        />
+      )
+    );
+
+    if (options.showValues) {
+      const mid = angle + sweep / 2;
+      nodes.push(
+        <text
+          key={`slice-label-${index}`}
+          x={cx + r * 0.65 * Math.sin(mid)}
+          y={cy - r * 0.65 * Math.cos(mid)}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={FONT_SIZE}
+          fontWeight={600}
+          fill="#FFFFFF"
+        >
+          {`${Math.round((value / total) * 100)}%`}
+        </text>
+      );
+    }
+    angle += sweep;
+  });
+
+  return nodes;
+}
+
+function renderCartesian(
+  chartType: ChartType,
+  data: ChartData,
+  options: ChartOptions,
+  colors: string[],
+  bounds: PlotArea,
+  palette: { textColor: string; mutedColor: string; gridColor: string }
+): React.ReactNode[] {
+  const { textColor, mutedColor, gridColor } = palette;
+  const horizontal = chartType === 'bar' && options.orientation === 'horizontal';
+  const stacked = !!options.stacked && (chartType === 'bar' || chartType === 'area');
+  const valueAxis = options.valueAxis || {};
+  const categoryAxis = options.categoryAxis || {};
+  const showValueAxis = valueAxis.visible !== false;
+  const showCategoryAxis = categoryAxis.visible !== false;
+  const nodes: React.ReactNode[] = [];
+
+  // Value domain
+  const range = getValueRange(data, { ...options, stacked });
+  const valueTicks = getNiceTicks(range.min, range.max);
+  const valueMin = valueAxis.min ?? valueTicks[0];
+  const valueMax = valueAxis.max ?? valueTicks[valueTicks.length - 1];
+  const ticks = valueTicks.filter(tick => tick >= valueMin && tick <= valueMax);
+
+  // Scatter charts use a numeric x axis
+  const xValuesFor = (seriesIndex: number): number[] => {
+    const series = data.series[seriesIndex];
+    return series.values.map((_, i) => {
+      if (series.xValues && series.xValues[i] !== undefined) {
+        return series.xValues[i];
+      }
+      const parsed = parseFloat(data.categories[i]);
+      return Number.isFinite(parsed) ? parsed : i + 1;
+    });
+  };
+  const allX = chartType === 'scatter' ? data.series.flatMap((_, i) => xValuesFor(i)) : [];
+  const xTicks = chartType === 'scatter'
+    ? getNiceTicks(Math.min(0, ...allX), Math.max(...allX))
+    : [];
+
+  // Reserve margins for axis labels and titles
+  const valueLabelWidth = Math.max(...ticks.map(tick => estimateTextWidth(formatChartValue(tick)))) + 12;
+  const categoryLabelWidth = Math.min(
+    bounds.width * 0.3,
+    Math.max(0, ...data.categories.map(category => estimateTextWidth(category))) + 12
+  );
+
+  let plotLeft = bounds.x;
+  let plotBottom = bounds.y + bounds.height;
+  const plotTop = bounds.y + FONT_SIZE / 2;
+  const plotRight = bounds.x + bounds.width - FONT_SIZE;
+
+  const leftAxisTitle = horizontal ? categoryAxis.title : valueAxis.title;
+  const bottomAxisTitle = horizontal ? valueAxis.title : categoryAxis.title;
+
+  if (leftAxisTitle) {
+    plotLeft += FONT_SIZE + 12;
+  }
+  if (bottomAxisTitle) {
+    plotBottom -= FONT_SIZE + 12;
+  }
+  if (horizontal ? showCategoryAxis : showValueAxis) {
+    plotLeft += horizontal ? categoryLabelWidth : valueLabelWidth;
+  }
+  if (horizontal ? showValueAxis : showCategoryAxis) {
+    plotBottom -= FONT_SIZE + 12;
+  }
+
+  const plot: PlotArea = {
+    x: plotLeft,
+    y: plotTop,
+    width: Math.max(1, plotRight - plotLeft),
+    height: Math.max(1, plotBottom - plotTop),
+  };
+
+  const valueToPos = (value: number): number => {
+    const ratio = (value - valueMin) / (valueMax - valueMin || 1);
+    return horizontal ? plot.x + ratio * plot.width : plot.y + plot.height - ratio * plot.height;
+  };
+  const xMin = xTicks[0] ?? 0;
+  const xMax = xTicks[xTicks.length - 1] ?? 1;
+  const xToPos = (value: number): number =>
+    plot.x + ((value - xMin) / (xMax - xMin || 1)) * plot.width;
+
+  const categoryCount = Math.max(1, data.categories.length);
+  const band = (horizontal ? plot.height : plot.width) / categoryCount;
+  const categoryCenter = (index: number): number =>
+    (horizontal ? plot.y : plot.x) + band * (index + 0.5);
+
+  // Axis titles
+  if (leftAxisTitle) {
+    const cy = plot.y + plot.height / 2;
+    nodes.push(
+      <text
+        key="axis-title-left"
+        x={bounds.x + FONT_SIZE * 0.8}
+        y={cy}
+        textAnchor="middle"
+        fontSize={FONT_SIZE}
+        fill={mutedColor}
+        transform={`rotate(-90 ${bounds.x + FONT_SIZE * 0.8} ${cy})`}
+      >
+        {leftAxisTitle}
+      </text>
+    );
+  }
+  if (bottomAxisTitle) {
+    nodes.push(
+      <text
+        key="axis-title-bottom"
+        x={plot.x + plot.width / 2}
+        y={bounds.y + bounds.height - 4}
+        textAnchor="middle"
+        fontSize={FONT_SIZE}
+        fill={mutedColor}
+      >
+        {bottomAxisTitle}
+      </text>
+    );
+  }
+
+  // Value gridlines and tick labels
+  ticks.forEach((tick, index) => {
+    const pos = valueToPos(tick);
+    if (valueAxis.gridLines !== false) {
+      nodes.push(
+        horizontal ? (
+          <line key={`grid-${index}`} x1={pos} y1={plot.y} x2={pos} y2={plot.y + plot.height} stroke={gridColor} strokeWidth={1} />
+        ) : (
+          <line key={`grid-${index}`} x1={plot.x} y1={pos} x2={plot.x + plot.width} y2={pos} stroke={gridColor} strokeWidth={1} />
+        )
+      );
+    }
+    if (showValueAxis) {
+      nodes.push(
+        horizontal ? (
+          <text key={`tick-${index}`} x={pos} y={plot.y + plot.height + FONT_SIZE + 6} textAnchor="middle" fontSize={FONT_SIZE} fill={mutedColor}>
+            {formatChartValue(tick)}
+          </text>
+        ) : (
+          <text key={`tick-${index}`} x={plot.x - 8} y={pos} textAnchor="end" dominantBaseline="middle" fontSize={FONT_SIZE} fill={mutedColor}>
+            {formatChartValue(tick)}
+          </text>
+        )
+      );
+    }
+  });
+
+  // Category labels (or numeric x ticks for scatter)
+  if (showCategoryAxis) {
+    if (chartType === 'scatter') {
+      xTicks.forEach((tick, index) => {
+        const pos = xToPos(tick);
+        if (categoryAxis.gridLines) {
+          nodes.push(
+            <line key={`xgrid-${index}`} x1={pos} y1={plot.y} x2={pos} y2={plot.y + plot.height} stroke={gridColor} strokeWidth={1} />
+          );
+        }
+        nodes.push(
+          <text key={`xtick-${index}`} x={pos} y={plot.y + plot.height + FONT_SIZE + 6} textAnchor="middle" fontSize={FONT_SIZE} fill={mutedColor}>
+            {formatChartValue(tick)}
+          </text>
+        );
+      });
+    } else {
+      data.categories.forEach((category, index) => {
+        const center = categoryCenter(index);
+        nodes.push(
+          horizontal ? (
+            <text key={`cat-${index}`} x={plot.x - 8} y={center} textAnchor="end" dominantBaseline="middle" fontSize={FONT_SIZE} fill={textColor}>
+              {truncateLabel(category, categoryLabelWidth - 12)}
+            </text>
+          ) : (
+            <text key={`cat-${index}`} x={center} y={plot.y + plot.height + FONT_SIZE + 6} textAnchor="middle" fontSize={FONT_SIZE} fill={textColor}>
+              {truncateLabel(category, band - 4)}
+            </text>
+          )
+        );
+      });
+    }
+  }
+
+  // Baseline axis
+  const zero = valueToPos(Math.min(Math.max(0, valueMin), valueMax));
+  nodes.push(
+    horizontal ? (
+      <line key="baseline" x1={zero} y1={plot.y} x2={zero} y2={plot.y + plot.height} stroke={mutedColor} strokeWidth={2} />
+    ) : (
+      <line key="baseline" x1={plot.x} y1={zero} x2={plot.x + plot.width} y2={zero} stroke={mutedColor} strokeWidth={2} />
+    )
+  );
+
+  const dataLabel = (key: string, x: number, y: number, value: number, anchor: 'start' | 'middle' = 'middle') => (
+    <text key={key} x={x} y={y} textAnchor={anchor} dominantBaseline="middle" fontSize={FONT_SIZE} fill={textColor}>
+      {formatChartValue(value)}
+    </text>
+  );
+
+  // Series
+  const seriesCount = data.series.length;
+  const positiveStack = new Array(categoryCount).fill(0);
+  const negativeStack = new Array(categoryCount).fill(0);
+
+  data.series.forEach((series, seriesIndex) => {
+    const color = colors[seriesIndex];
+
+    if (chartType === 'bar') {
+      const groupSize = band * (stacked ? 0.6 : 0.7);
+      const barSize = stacked ? groupSize : groupSize / Math.max(1, seriesCount);
+      series.values.forEach((value, i) => {
+        let base = 0;
+        if (stacked) {
+          base = value >= 0 ? positiveStack[i] : negativeStack[i];
+          if (value >= 0) {
+            positiveStack[i] += value;
+          } else {
+            negativeStack[i] += value;
+          }
+        }
+        const start = valueToPos(base);
+        const end = valueToPos(base + value);
+        const offset = stacked ? -groupSize / 2 : -groupSize / 2 + barSize * seriesIndex;
+        const bandPos = categoryCenter(i) + offset;
+        nodes.push(
+          horizontal ? (
+            <rect
+              key={`bar-${seriesIndex}-${i}`}
+              x={Math.min(start, end)}
+              y={bandPos}
+              width={Math.abs(end - start)}
+              height={barSize}
+              fill={color}
+            />
+          ) : (
+            <rect
+              key={`bar-${seriesIndex}-${i}`}
+              x={bandPos}
+              y={Math.min(start, end)}
+              width={barSize}
+              height={Math.abs(end - start)}
+              fill={color}
+            />
+          )
+        );
+        if (options.showValues && !stacked) {
+          nodes.push(
+            horizontal
+              ? dataLabel(`label-${seriesIndex}-${i}`, end + 6, bandPos + barSize / 2, value, 'start')
+              : dataLabel(`label-${seriesIndex}-${i}`, bandPos + barSize / 2, Math.min(start, end) - FONT_SIZE * 0.6, value)
+          );
+        }
+      });
+      return;
+    }
+
+    if (chartType === 'scatter') {
+      const xs = xValuesFor(seriesIndex);
+      series.values.forEach((value, i) => {
+        nodes.push(
+          <circle key={`point-${seriesIndex}-${i}`} cx={xToPos(xs[i])} cy={valueToPos(value)} r={8} fill={color} fillOpacity={0.85} />
+        );
+      });
+      return;
+    }
+
+    // Line and area
+    const baseline = series.values.map((_, i) => (stacked ? positiveStack[i] : 0));
+    const tops = series.values.map((value, i) => baseline[i] + value);
+    if (stacked) {
+      tops.forEach((value, i) => {
+        positiveStack[i] = value;
+      });
+    }
+    const points = tops.map((value, i) => `${categoryCenter(i)},${valueToPos(value)}`);
+
+    if (chartType === 'area') {
+      const basePoints = baseline
+        .map((value, i) => `${categoryCenter(i)},${valueToPos(Math.max(value, valueMin))}`)
+        .reverse();
+      nodes.push(
+        <polygon key={`area-${seriesIndex}`} points={[...points, ...basePoints].join(' ')} fill={color} fillOpacity={0.35} />
+      );
+    }
+
+    nodes.push(
+      <polyline
+        key={`line-${seriesIndex}`}
+        points={points.join(' ')}
+        fill="none"
+        stroke={color}
+        strokeWidth={4}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    );
+
+    if (chartType === 'line') {
+      tops.forEach((value, i) => {
+        nodes.push(
+          <circle key={`marker-${seriesIndex}-${i}`} cx={categoryCenter(i)} cy={valueToPos(value)} r={6} fill={color} />
+        );
+      });
+    }
+
+    if (options.showValues) {
+      series.values.forEach((value, i) => {
+        nodes.push(dataLabel(`label-${seriesIndex}-${i}`, categoryCenter(i), valueToPos(tops[i]) - FONT_SIZE, value));
+      });
+    }
+  });
+
+  return nodes;
+}
+
+interface ChartObjectRendererProps {
+  object: ChartObject;
+  colorSet?: ColorSet;
+  typographySet?: TypographySet;
+  scale?: number;
+  isEditing?: boolean;
+}
+
+export default function ChartObjectRenderer({
+  object,
+  colorSet = DEFAULT_COLOR_SET,
+  typographySet,
+  isEditing = false,
+}: ChartObjectRendererProps) {
+  const { coordinates, transform } = object;
+
+  const labelFont = typographySet?.roles.label?.fontFamily;
+  const fontFamily = Array.isArray(labelFont) ? labelFont.join(', ') : labelFont;
+
+  const styles: React.CSSProperties = {
+    position: 'absolute',
+    left: coordinates.x,
+    top: coordinates.y,
+    width: coordinates.width,
+    height: coordinates.height,
+
+    // Transform
+    opacity: transform?.opacity ?? 1,
+    transform: transform ? `
+      rotate(${transform.rotation || 0}deg)
+      scale(${transform.scale || 1})
+      skewX(${transform.skewX || 0}deg)
+      skewY(${transform.skewY || 0}deg)
+    ` : undefined,
+
+    // Z-index
+    zIndex: object.zIndex,
+
+    // Editing
+    cursor: isEditing && !object.locked ? 'move' : 'default',
+    pointerEvents: object.locked ? 'none' : 'auto',
+    border: isEditing && !object.locked ? '1px dashed #1976D2' : undefined,
+  };
+
+  return (
+    <Box sx={styles}>
+      <ChartGraphic
+        chartType={object.chartType}
+        data={object.data}
+        options={object.options}
+        width={coordinates.width}
+        height={coordinates.height}
+        colorSet={colorSet}
+        fontFamily={fontFamily}
+      />
+    </Box>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Box } from '@mui/material';
 import { ImageObject } from '@/lib/models/slide';
+import CroppedImage from '@/components/slides/CroppedImage';
 
 interface ImageObjectRendererProps {
   object: ImageObject;
@@ -13,14 +14,7 @@ export default function ImageObjectRenderer({
   scale = 1,
   isEditing = false,
 }: ImageObjectRendererProps) {
-  const { coordinates, src, alt, fit = 'contain', filters, transform } = object;
-  
-  const filterString = filters ? `
-    brightness(${filters.brightness ?? 100}%)
-    contrast(${filters.contrast ?? 100}%)
-    saturate(${filters.saturation ?? 100}%)
-    blur(${filters.blur ?? 0}px)
-  ` : undefined;
+  const { coordinates, transform } = object;
   
   const styles = {
     position: 'absolute' as const,
@@ -52,23 +46,9 @@ export default function ImageObjectRenderer({
     border: isEditing && object.locked !== true ? '2px dashed #1976D2' : undefined,
   };
   
-  const imgStyles = {
-    width: fit === 'cover' || fit === 'fill' ? '100%' : 'auto',
-    height: fit === 'cover' || fit === 'fill' ? '100%' : 'auto',
-    maxWidth: fit === 'contain' ? '100%' : undefined,
-    maxHeight: fit === 'contain' ? '100%' : undefined,
-    objectFit: fit,
-    filter: filterString,
-  };
-  
   return (
     <Box sx={styles}>
-      <img
-        src={src}
-        alt={alt || ''}
-        style={imgStyles}
-        draggable={false}
-      />
+      <CroppedImage image={object} />
     </Box>
   );
 }
\ No newline at end of file
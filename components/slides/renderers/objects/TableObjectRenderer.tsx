@@ -0,0 +1,255 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { TableObject } from '@/lib/models/slide';
+import { ColorSet, DEFAULT_COLOR_SET, resolveColor } from '@/lib/models/colors';
+import { TypographySet } from '@/lib/models/typography';
+import {
+  DEFAULT_TABLE_STYLES,
+  TABLE_METRICS,
+  TableCellRange,
+  getColumnAlignment,
+  getColumnCount,
+  getMergeAt,
+  isCellCovered,
+  normalizeRange,
+  paginateTable,
+  setCellValue,
+} from '@/lib/models/table';
+
+interface TableGridProps {
+  table: TableObject;
+  colorSet?: ColorSet;
+  fontFamily?: string;
+  isEditing?: boolean;
+  selection?: TableCellRange | null;
+  onCellChange?: (row: number, col: number, value: string) => void;
+  onSelectionChange?: (range: TableCellRange) => void;
+  showOverflowHint?: boolean;
+}
+
+/**
+ * Table drawn as an HTML table at canvas size (coordinates.width x height).
+ * When not editing, only the rows that fit are shown; the rest continue on
+ * export as continuation slides.
+ */
+export function TableGrid({
+  table,
+  colorSet = DEFAULT_COLOR_SET,
+  fontFamily = 'inherit',
+  isEditing = false,
+  selection,
+  onCellChange,
+  onSelectionChange,
+  showOverflowHint = false,
+}: TableGridProps) {
+  const styles = { ...DEFAULT_TABLE_STYLES, ...table.styles };
+  const columnCount = getColumnCount(table);
+  const border = styles.borderWidth > 0
+    ? `${styles.borderWidth}px solid ${resolveColor(styles.borderColor, colorSet)}`
+    : 'none';
+
+  // Editing shows every row; display shows the first page only
+  const firstPage = paginateTable(table)[0];
+  const overflowRows = table.data.length - firstPage.data.length;
+  const visible = isEditing ? table : firstPage;
+
+  const range = selection ? normalizeRange(selection) : null;
+  const isSelected = (row: number, col: number) =>
+    !!range &&
+    row >= range.start.row && row <= range.end.row &&
+    col >= range.start.col && col <= range.end.col;
+
+  const handleMouseDown = (row: number, col: number) => (event: React.MouseEvent) => {
+    if (!isEditing || !onSelectionChange) {
+      return;
+    }
+    if (event.shiftKey && selection) {
+      onSelectionChange({ start: selection.start, end: { row, col } });
+    } else {
+      onSelectionChange({ start: { row, col }, end: { row, col } });
+    }
+  };
+
+  const handleBlur = (row: number, col: number, current: string) => (event: React.FocusEvent<HTMLElement>) => {
+    const value = event.currentTarget.innerText.replace(/\n$/, '');
+    if (value !== current) {
+      onCellChange?.(row, col, value);
+    }
+  };
+
+  const cellStyle = (row: number, col: number): React.CSSProperties => ({
+    border,
+    padding: `${TABLE_METRICS.cellPaddingY}px ${TABLE_METRICS.cellPaddingX}px`,
+    textAlign: getColumnAlignment(table, col),
+    verticalAlign: 'middle',
+    overflow: 'hidden',
+    wordBreak: 'break-word',
+    whiteSpace: 'pre-wrap',
+    outline: 'none',
+    boxShadow: isSelected(row, col) ? 'inset 0 0 0 3px #1976D2' : undefined,
+    cursor: isEditing ? 'text' : 'default',
+  });
+
+  const editableProps = (row: number, col: number, current: string) => isEditing ? {
+    contentEditable: true,
+    suppressContentEditableWarning: true,
+    onMouseDown: handleMouseDown(row, col),
+    onBlur: handleBlur(row, col, current),
+  } : {};
+
+  return (
+    <Box sx={{ position: 'relative', width: '100%', height: '100%', overflow: isEditing ? 'auto' : 'hidden' }}>
+      <table
+        style={{
+          width: '100%',
+          borderCollapse: 'collapse',
+          tableLayout: 'fixed',
+          fontFamily,
+          fontSize: TABLE_METRICS.fontSize,
+          lineHeight: TABLE_METRICS.lineHeight,
+        }}
+      >
+        <colgroup>
+          {Array.from({ length: columnCount }, (_, col) => (
+            <col key={col} style={{ width: `${100 / Math.max(1, columnCount)}%` }} />
+          ))}
+        </colgroup>
+        {table.headers && table.headers.length > 0 && (
+          <thead>
+            <tr>
+              {Array.from({ length: columnCount }, (_, col) => {
+                const value = String(table.headers?.[col] ?? '');
+                return (
+                  <th
+                    key={col}
+                    style={{
+                      ...cellStyle(-1, col),
+                      fontWeight: 600,
+                      backgroundColor: resolveColor(styles.headerBackground, colorSet),
+                      color: resolveColor(styles.headerText, colorSet),
+                    }}
+                    {...editableProps(-1, col, value)}
+                  >
+                    {value}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {visible.data.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {Array.from({ length: columnCount }, (_, col) => {
+                if (isCellCovered(visible, rowIndex, col)) {
+                  return null;
+                }
+                const merge = getMergeAt(visible, rowIndex, col);
+                const value = String(row[col] ?? '');
+                return (
+                  <td
+                    key={col}
+                    colSpan={merge?.colSpan}
+                    rowSpan={merge?.rowSpan}
+                    style={{
+                      ...cellStyle(rowIndex, col),
+                      backgroundColor: resolveColor(styles.cellBackground, colorSet),
+                      color: resolveColor(styles.cellText, colorSet),
+                    }}
+                    {...editableProps(rowIndex, col, value)}
+                  >
+                    {value}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {showOverflowHint && overflowRows > 0 && (
+        <Box
+          sx={{
+            position: 'absolute',
+            right: 8,
+            bottom: 8,
+            px: 2,
+            py: 0.5,
+            borderRadius: 1,
+            fontSize: 20,
+            color: '#FFFFFF',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          }}
+        >
+          {overflowRows} rows continue on next slide
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+interface TableObjectRendererProps {
+  object: TableObject;
+  colorSet?: ColorSet;
+  typographySet?: TypographySet;
+  scale?: number;
+  isEditing?: boolean;
+  onEdit?: (id: string, updates: Partial<TableObject>) => void;
+}
+
+export default function TableObjectRenderer({
+  object,
+  colorSet = DEFAULT_COLOR_SET,
+  typographySet,
+  isEditing = false,
+  onEdit,
+}: TableObjectRendererProps) {
+  const { coordinates, transform } = object;
+  const [selection, setSelection] = React.useState<TableCellRange | null>(null);
+
+  const bodyFont = typographySet?.roles.bodySmall?.fontFamily;
+  const fontFamily = Array.isArray(bodyFont) ? bodyFont.join(', ') : bodyFont;
+
+  const handleCellChange = (row: number, col: number, value: string) => {
+    const updated = setCellValue(object, row, col, value);
+    onEdit?.(object.id, { headers: updated.headers, data: updated.data });
+  };
+
+  const styles: React.CSSProperties = {
+    position: 'absolute',
+    left: coordinates.x,
+    top: coordinates.y,
+    width: coordinates.width,
+    height: coordinates.height,
+
+    // Transform
+    opacity: transform?.opacity ?? 1,
+    transform: transform ? `
+      rotate(${transform.rotation || 0}deg)
+      scale(${transform.scale || 1})
+      skewX(${transform.skewX || 0}deg)
+      skewY(${transform.skewY || 0}deg)
+    ` : undefined,
+
+    // Z-index
+    zIndex: object.zIndex,
+
+    // Editing
+    pointerEvents: object.locked ? 'none' : 'auto',
+    border: isEditing && !object.locked ? '1px dashed #1976D2' : undefined,
+  };
+
+  return (
+    <Box sx={styles}>
+      <TableGrid
+        table={object}
+        colorSet={colorSet}
+        fontFamily={fontFamily}
+        isEditing={isEditing && !object.locked}
+        selection={selection}
+        onSelectionChange={setSelection}
+        onCellChange={handleCellChange}
+        showOverflowHint={isEditing}
+      />
+    </Box>
+  );
+}
@@ -1,8 +1,10 @@
 import React from 'react';
 import { Box } from '@mui/material';
-import { TextObject } from '@/lib/models/slide';
+import { Slide, SlideType, TextObject } from '@/lib/models/slide';
+import { Template } from '@/lib/models/template';
 import { TypographySet, TypographicRole } from '@/lib/models/typography';
 import { ColorSet, ColorRole } from '@/lib/models/colors';
+import { fitTextObject, getTextDisplay } from '@/lib/templates/overflow';
 
 interface TextObjectRendererProps {
   object: TextObject;
@@ -11,6 +13,8 @@ interface TextObjectRendererProps {
   scale?: number;
   isEditing?: boolean;
   onEdit?: (id: string, content: string) => void;
+  slide?: Pick<Slide, 'type' | 'templateId'>;  // Locates the template zone for overflow
+  template?: Template;
 }
 
 export default function TextObjectRenderer({
@@ -20,6 +24,8 @@ export default function TextObjectRenderer({
   scale = 1,
   isEditing = false,
   onEdit,
+  slide,
+  template,
 }: TextObjectRendererProps) {
   const { coordinates, content, typographicRole, colorRole, customStyles, transform } = object;
   
@@ -28,6 +34,14 @@ export default function TextObjectRenderer({
     ? typographySet.roles[typographicRole]
     : typographySet.roles.body;
     
+  // Fit into the template zone; free-form slides use the object's own box
+  const fit = fitTextObject(slide || { type: SlideType.BLANK }, object, { template }, {
+    fontSize: customStyles?.fontSize || typography.fontSize,
+    lineHeight: typography.lineHeight,
+    minFontSize: typography.minFontSize,
+  });
+  const display = getTextDisplay(content, fit);
+    
   // Get color definition
   const color = colorRole
     ? colorSet.colors[colorRole].value
@@ -45,7 +59,7 @@ export default function TextObjectRenderer({
     fontFamily: Array.isArray(typography.fontFamily) 
       ? typography.fontFamily.join(', ')
       : typography.fontFamily,
-    fontSize: customStyles?.fontSize || typography.fontSize,
+    fontSize: fit.fontSize,
     fontWeight: customStyles?.fontWeight || typography.fontWeight,
     fontStyle: typography.fontStyle,
     lineHeight: typography.lineHeight,
@@ -75,12 +89,8 @@ export default function TextObjectRenderer({
     cursor: isEditing ? 'text' : 'default',
     userSelect: isEditing ? 'text' : 'none',
     
-    // Handle overflow
-    overflow: 'hidden',
-    textOverflow: 'ellipsis',
-    display: '-webkit-box',
-    WebkitLineClamp: Math.floor(coordinates.height / (typography.fontSize * (typography.lineHeight || 1.5))),
-    WebkitBoxOrient: 'vertical' as const,
+    // Handle overflow per the zone's behavior
+    overflow: isEditing && display.overflow === 'hidden' ? 'auto' : display.overflow,
   };
   
   const handleContentEdit = (e: React.FormEvent<HTMLDivElement>) => {
@@ -98,7 +108,7 @@ export default function TextObjectRenderer({
       contentEditable={isEditing}
       suppressContentEditableWarning={isEditing}
       onBlur={handleContentEdit}
-      dangerouslySetInnerHTML={{ __html: content || 'Click to add text' }}
+      dangerouslySetInnerHTML={{ __html: (isEditing ? content : display.content) || 'Click to add text' }}
     />
   );
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  applySlideOperations,
+  removePresence,
+  subscribeToPresence,
+  updatePresence,
+} from '@/lib/firebase/collaboration';
+import { SlideLike, SlideOperation, applyOperations } from '@/lib/collab/operations';
+import {
+  Collaborator,
+  PRESENCE_HEARTBEAT_MS,
+  PresenceSelection,
+  activeCollaborators,
+  generateClientId,
+  presenceColor,
+  presenceName,
+} from '@/lib/collab/presence';
+
+interface CollaborationUser {
+  uid: string;
+  displayName?: string | null;
+  email?: string | null;
+}
+
+// Operations sent but not yet seen in a snapshot
+interface PendingOperations {
+  operations: SlideOperation[];
+  revision?: number;  // Set once written
+}
+
+/**
+ * Co-editing for the editor page: publishes this client's presence, lists
+ * the other clients, and saves edits as operations. Snapshots of the
+ * presentation go through `rebase`, which re-applies operations still on
+ * their way so that local edits don't flicker out and back in.
+ */
+export function useCollaboration(presentationId: string | null, user: CollaborationUser | null) {
+  const [clientId] = useState(() => generateClientId());
+  const [presence, setPresence] = useState<Collaborator[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const selectionRef = useRef<PresenceSelection>({ objectIds: [] });
+  const pendingRef = useRef<PendingOperations[]>([]);
+
+  const publish = useCallback(() => {
+    if (!presentationId || !user) {
+      return;
+    }
+    const name = presenceName(user);
+    updatePresence(presentationId, {
+      clientId,
+      userId: user.uid,
+      name,
+      color: presenceColor(user.uid),
+      ...selectionRef.current,
+      lastSeen: Date.now(),
+    }).catch((error) => console.error('Error publishing presence:', error));
+  }, [presentationId, user, clientId]);
+
+  useEffect(() => {
+    if (!presentationId) {
+      return;
+    }
+    return subscribeToPresence(presentationId, setPresence);
+  }, [presentationId]);
+
+  // Heartbeat; also re-checks who went quiet
+  useEffect(() => {
+    if (!presentationId || !user) {
+      return;
+    }
+    publish();
+    const heartbeat = setInterval(() => {
+      publish();
+      setNow(Date.now());
+    }, PRESENCE_HEARTBEAT_MS);
+    const leave = () => removePresence(presentationId, clientId);
+    window.addEventListener('beforeunload', leave);
+
+    return () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('beforeunload', leave);
+      leave();
+    };
+  }, [presentationId, user, clientId, publish]);
+
+  const setSelection = useCallback((selection: PresenceSelection) => {
+    const current = selectionRef.current;
+    const unchanged = current.slideId === selection.slideId
+      && current.objectIds.length === selection.objectIds.length
+      && current.objectIds.every((id, index) => id === selection.objectIds[index]);
+    if (!unchanged) {
+      selectionRef.current = selection;
+      publish();
+    }
+  }, [publish]);
+
+  /**
+   * Save operations. Rejected writes are dropped, so the next snapshot
+   * shows the slides without them.
+   */
+  const submit = useCallback(async (operations: SlideOperation[]) => {
+    if (!presentationId || operations.length === 0) {
+      return;
+    }
+    const entry: PendingOperations = { operations };
+    pendingRef.current = [...pendingRef.current, entry];
+    try {
+      entry.revision = await applySlideOperations(presentationId, operations);
+    } catch (error) {
+      pendingRef.current = pendingRef.current.filter(pending => pending !== entry);
+      throw error;
+    }
+  }, [presentationId]);
+
+  /**
+   * Slides from a snapshot with this client's unseen operations on top
+   */
+  const rebase = useCallback(<T extends SlideLike>(slides: T[], revision: number): T[] => {
+    pendingRef.current = pendingRef.current.filter(
+      pending => pending.revision === undefined || pending.revision > revision
+    );
+    return applyOperations(slides, pendingRef.current.flatMap(pending => pending.operations));
+  }, []);
+
+  return {
+    clientId,
+    collaborators: activeCollaborators(presence, clientId, now),
+    setSelection,
+    submit,
+    rebase,
+  };
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  addComment,
+  deleteComments,
+  editComment,
+  setThreadResolved,
+  subscribeToComments,
+} from '@/lib/firebase/comments';
+import { getMemberEmails } from '@/lib/firebase/members';
+import {
+  CommentThread,
+  SlideComment,
+  groupThreads,
+  mentionCandidates,
+  parseMentions,
+} from '@/lib/collab/comments';
+import { presenceName } from '@/lib/collab/presence';
+
+interface CommentUser {
+  uid: string;
+  displayName?: string | null;
+  email?: string | null;
+  emailVerified?: boolean;
+}
+
+interface CommentOptions {
+  slideIds: string[];  // Threads come in this order
+  canComment: boolean;  // From the user's role and settings.allowComments
+  canModerate: boolean;  // The owner deletes anyone's comments
+}
+
+export interface CommentAnchor {
+  slideId: string;
+  objectId?: string;
+}
+
+/**
+ * Comment threads for a presentation, live, and what the user can do
+ * with them. Comments by the signed-in user carry their verified email
+ * so others can mention them back; invited members can be mentioned by
+ * people who can comment.
+ */
+export function useComments(
+  presentationId: string | null,
+  user: CommentUser | null,
+  { slideIds, canComment, canModerate }: CommentOptions
+) {
+  const [comments, setComments] = useState<SlideComment[]>([]);
+  const [memberEmails, setMemberEmails] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!presentationId) {
+      return;
+    }
+    return subscribeToComments(presentationId, setComments);
+  }, [presentationId]);
+
+  useEffect(() => {
+    if (!presentationId || !canComment) {
+      setMemberEmails([]);
+      return;
+    }
+    let cancelled = false;
+    getMemberEmails(presentationId).then((emails) => {
+      if (!cancelled) {
+        setMemberEmails(emails);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [presentationId, canComment]);
+
+  const slideKey = slideIds.join(',');
+  const threads = useMemo(
+    () => groupThreads(comments, slideKey ? slideKey.split(',') : []),
+    [comments, slideKey]
+  );
+  const memberKey = memberEmails.join(',');
+  const candidates = useMemo(
+    () => mentionCandidates(memberKey ? memberKey.split(',') : [], comments),
+    [memberKey, comments]
+  );
+
+  const add = useCallback(async (anchor: CommentAnchor, body: string, threadId?: string) => {
+    if (!presentationId || !user) {
+      return;
+    }
+    await addComment(presentationId, {
+      slideId: anchor.slideId,
+      objectId: anchor.objectId,
+      threadId,
+      authorId: user.uid,
+      authorName: presenceName(user),
+      authorEmail: user.email && user.emailVerified ? user.email : undefined,
+      body: body.trim(),
+      mentions: parseMentions(body, candidates),
+    });
+  }, [presentationId, user, candidates]);
+
+  const edit = useCallback(async (comment: SlideComment, body: string) => {
+    if (!presentationId) {
+      return;
+    }
+    await editComment(presentationId, comment.id, { body: body.trim(), mentions: parseMentions(body, candidates) });
+  }, [presentationId, candidates]);
+
+  const resolve = useCallback(async (thread: CommentThread, resolved: boolean) => {
+    if (!presentationId || !user) {
+      return;
+    }
+    await setThreadResolved(presentationId, thread.id, resolved, presenceName(user));
+  }, [presentationId, user]);
+
+  // Deleting a thread's first comment deletes the thread
+  const remove = useCallback(async (comment: SlideComment, thread: CommentThread) => {
+    if (!presentationId) {
+      return;
+    }
+    await deleteComments(
+      presentationId,
+      comment.id === thread.id ? thread.comments.map(entry => entry.id) : [comment.id]
+    );
+  }, [presentationId]);
+
+  return {
+    userId: user?.uid,
+    userEmail: user?.email && user.emailVerified ? user.email.toLowerCase() : undefined,
+    threads,
+    candidates,
+    canComment: canComment && !!user,
+    canModerate,
+    add,
+    edit,
+    resolve,
+    remove,
+  };
+}
+
+export type CommentsController = ReturnType<typeof useComments>;
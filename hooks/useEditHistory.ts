@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  EDIT_COMMAND_LABELS,
+  EMPTY_EDIT_HISTORY,
+  EditCommand,
+  EditDocument,
+  EditHistory,
+  parseHistory,
+  pushCommand,
+  redoCommand,
+  serializeHistory,
+  undoCommand,
+} from '@/lib/models/edit-commands';
+
+const STORAGE_PREFIX = 'editHistory:';
+// Kept when the whole history doesn't fit in session storage
+const FALLBACK_HISTORY_LENGTH = 10;
+
+function loadHistory(presentationId?: string): EditHistory {
+  if (!presentationId || typeof window === 'undefined') {
+    return EMPTY_EDIT_HISTORY;
+  }
+  try {
+    return parseHistory(sessionStorage.getItem(STORAGE_PREFIX + presentationId));
+  } catch {
+    return EMPTY_EDIT_HISTORY;
+  }
+}
+
+function storeHistory(presentationId: string, history: EditHistory) {
+  const key = STORAGE_PREFIX + presentationId;
+  try {
+    sessionStorage.setItem(key, serializeHistory(history));
+  } catch {
+    // Over quota: keep the latest few commands, or none
+    try {
+      sessionStorage.setItem(key, serializeHistory({
+        past: history.past.slice(-FALLBACK_HISTORY_LENGTH),
+        future: history.future.slice(-FALLBACK_HISTORY_LENGTH),
+      }));
+    } catch (error) {
+      console.warn('Edit history not saved for this session:', error);
+      sessionStorage.removeItem(key);
+    }
+  }
+}
+
+/**
+ * The undo and redo stacks for one presentation's editor, kept for the
+ * browser session so a reload can still undo. `undo` and `redo` take the
+ * document as it is now and return it with the command taken back or
+ * made again, or null when there's nothing to do.
+ */
+export function useEditHistory(presentationId?: string) {
+  const [history, setHistory] = useState<EditHistory>(() => loadHistory(presentationId));
+  const [historyId, setHistoryId] = useState(presentationId);
+  // Undo and redo read the latest stacks, not the ones they closed over
+  const historyRef = useRef(history);
+
+  // Another presentation in the same editor brings its own history
+  if (historyId !== presentationId) {
+    const loaded = loadHistory(presentationId);
+    historyRef.current = loaded;
+    setHistoryId(presentationId);
+    setHistory(loaded);
+  }
+
+  useEffect(() => {
+    if (presentationId && historyId === presentationId) {
+      storeHistory(presentationId, history);
+    }
+  }, [presentationId, historyId, history]);
+
+  const update = useCallback((next: EditHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const record = useCallback((command: EditCommand) => {
+    update(pushCommand(historyRef.current, command));
+  }, [update]);
+
+  const undo = useCallback(<D extends EditDocument>(document: D): D | null => {
+    const result = undoCommand(historyRef.current, document);
+    if (!result) {
+      return null;
+    }
+    update(result.history);
+    return result.document;
+  }, [update]);
+
+  const redo = useCallback(<D extends EditDocument>(document: D): D | null => {
+    const result = redoCommand(historyRef.current, document);
+    if (!result) {
+      return null;
+    }
+    update(result.history);
+    return result.document;
+  }, [update]);
+
+  const nextUndo = history.past[history.past.length - 1];
+  const nextRedo = history.future[history.future.length - 1];
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: !!nextUndo,
+    canRedo: !!nextRedo,
+    undoLabel: nextUndo ? EDIT_COMMAND_LABELS[nextUndo.type] : undefined,
+    redoLabel: nextRedo ? EDIT_COMMAND_LABELS[nextRedo.type] : undefined,
+  };
+}
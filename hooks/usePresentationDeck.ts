@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getPresentation, PresentationDocument } from '@/lib/firebase/presentations';
+import { Slide, SlideTransition } from '@/lib/models/slide';
+import { resolveDeckMasterElements } from '@/lib/templates/master-elements';
+import { fitSlideText } from '@/lib/templates/overflow';
+import { useTypography } from '@/hooks/useTypography';
+
+// Fields older and editor-saved documents carry beyond PresentationDocument
+export type PresentedDocument = PresentationDocument & {
+  title?: string;
+  templateId?: string;
+  settings?: PresentationDocument['settings'] & {
+    typographySetId?: string;
+    transitionEffect?: SlideTransition['type'];
+  };
+};
+
+/**
+ * Load a presentation as it is presented: overflowing text is shrunk,
+ * clipped or continued on extra slides, and every slide gets its template
+ * master elements. The audience window, presenter console and live
+ * followers all use this so slide indexes match between them.
+ */
+export function usePresentationDeck(
+  presentationId: string | undefined,
+  { trackView = true }: { trackView?: boolean } = {}
+) {
+  const [presentation, setPresentation] = useState<PresentedDocument | null>(null);
+  const [deckSlides, setDeckSlides] = useState<Slide[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { typographySet, fontsLoaded } = useTypography(
+    presentation?.settings?.typographySetId || 'classic-professional'
+  );
+
+  useEffect(() => {
+    if (!presentationId) {
+      return;
+    }
+
+    const loadPresentation = async () => {
+      try {
+        setLoading(true);
+        const data = (await getPresentation(presentationId, { trackView })) as PresentedDocument | null;
+        if (!data) {
+          return;
+        }
+        setPresentation(data);
+
+        if (data.slides) {
+          setDeckSlides(data.slides);
+        } else if (data.sections) {
+          // Convert sections to a flat slide array, keeping the AI content for display
+          const allSlides: Slide[] = [];
+          data.sections.forEach(section => {
+            section.slides?.forEach(slide => {
+              allSlides.push({
+                id: slide.id || `slide-${allSlides.length}`,
+                type: slide.type,
+                objects: [],
+                order: allSlides.length,
+                originalData: slide,
+                speakerNotes: slide.speakerNotes,
+                presenterNotes: slide.presenterNotes,
+              } as unknown as Slide);
+            });
+          });
+          setDeckSlides(allSlides);
+        }
+      } catch (error) {
+        console.error('Error loading presentation:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPresentation();
+  }, [presentationId, trackView]);
+
+  const templateId = presentation?.templateId || presentation?.settings?.theme;
+
+  const slides = useMemo(
+    () => deckSlides.flatMap(slide => fitSlideText(slide, {
+      templateId,
+      typographySet: typographySet || undefined,
+    })),
+    [deckSlides, templateId, typographySet]
+  );
+
+  // Template page numbers, logos and footers for every slide
+  const masterElements = useMemo(
+    () => resolveDeckMasterElements(slides, {
+      templateId,
+      presentationTitle: presentation?.metadata?.title || presentation?.title,
+      showSlideNumbers: presentation?.settings?.showSlideNumbers,
+      typographySet: typographySet || undefined,
+    }),
+    [slides, presentation, templateId, typographySet]
+  );
+
+  return {
+    presentation,
+    slides,
+    masterElements,
+    typographySet,
+    fontsLoaded,
+    loading,
+  };
+}
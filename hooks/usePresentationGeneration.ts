@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import type { User } from 'firebase/auth';
+import {
+  PresentationGeneration,
+  appendPresentationSlide,
+  claimPresentationGeneration,
+  interruptPresentationGeneration,
+  updatePresentationGeneration,
+  updatePresentationMetadata,
+} from '@/lib/firebase/presentations';
+import { queuePresentationImages } from '@/lib/firebase/image-queue';
+import { generateClientId } from '@/lib/collab/presence';
+import { GENERATION_HEARTBEAT_MS, generationTimeLeft } from '@/lib/models/generation';
+import { ImageObject, Slide } from '@/lib/models/slide';
+import { PresentationStreamEvent, readEventStream } from '@/lib/ai/presentation-stream';
+
+/**
+ * Drives a streamed generation for a presentation created with
+ * generation.status 'pending': claims the run so no other editor tab
+ * streams it too (lib/models/generation), requests the stream once, writes
+ * the outline title and appends every slide to Firestore as it arrives
+ * (the editor picks them up through its snapshot listener, so slides that
+ * already arrived can be edited) and records progress in `generation`.
+ * Keeps running if the editor unmounts so the deck still gets saved.
+ * Other tabs mark the run interrupted once its heartbeat stops.
+ */
+
+function queueSlideImages(presentationId: string, slide: Slide, style: string) {
+  const images = slide.objects
+    .filter((obj): obj is ImageObject => obj.type === 'image' && !obj.src)
+    .map((obj, index) => ({
+      slideId: slide.id,
+      objectId: obj.id,
+      imageIndex: index,
+      description: obj.generationDescription || obj.alt || 'Image for slide',
+      style,
+      priority: 1,
+    }));
+  return images.length > 0 ? queuePresentationImages(presentationId, images) : Promise.resolve([]);
+}
+
+async function runGeneration(presentationId: string, generation: PresentationGeneration, user: User) {
+  const { request } = generation;
+  const slides: Slide[] = [];
+  let queueStarted = false;
+  let finished = false;
+  // Firestore writes happen one at a time, in arrival order
+  let writes: Promise<void> = Promise.resolve();
+  const enqueue = (write: () => Promise<unknown>) => {
+    writes = writes.then(write).then(() => undefined, error => {
+      console.error('Error saving generated content:', error);
+    });
+  };
+
+  const finish = (updates: Partial<PresentationGeneration>) => {
+    finished = true;
+    enqueue(() => updatePresentationGeneration(presentationId, { ...updates, completed: slides.length }));
+  };
+
+  const onEvent = (event: PresentationStreamEvent) => {
+    switch (event.type) {
+      case 'outline':
+        enqueue(async () => {
+          if (event.title) {
+            await updatePresentationMetadata(presentationId, {
+              title: event.title,
+              ...(event.subtitle && { subtitle: event.subtitle }),
+            });
+          }
+          await updatePresentationGeneration(presentationId, {
+            total: event.outline.length || request.slideCount,
+          });
+        });
+        break;
+
+      case 'slide': {
+        const { slide } = event;
+        slides.push(slide);
+        const completed = slides.length;
+        enqueue(async () => {
+          await appendPresentationSlide(presentationId, slide);
+          await updatePresentationGeneration(presentationId, { completed });
+        });
+        if (request.generateImages === 'now') {
+          enqueue(async () => {
+            const jobIds = await queueSlideImages(presentationId, slide, request.imageStyle || 'photorealistic');
+            if (jobIds.length > 0 && !queueStarted) {
+              queueStarted = true;
+              await fetch('/api/imagen/process-queue', { method: 'POST' });
+            }
+          });
+        }
+        break;
+      }
+
+      case 'done':
+        finish({ status: 'complete' });
+        break;
+
+      case 'error':
+        finish({ status: slides.length > 0 ? 'partial' : 'failed', error: event.error });
+        break;
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!finished) {
+      enqueue(() => updatePresentationGeneration(presentationId, { heartbeatAt: Date.now() }));
+    }
+  }, GENERATION_HEARTBEAT_MS);
+
+  try {
+    const idToken = await user.getIdToken();
+    const response = await fetch('/api/ai/generate-presentation-stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...request, userId: user.uid, idToken }),
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to generate presentation');
+    }
+
+    await readEventStream(response.body, onEvent);
+    if (!finished) {
+      finish({ status: slides.length > 0 ? 'partial' : 'failed', error: 'The connection closed before generation finished' });
+    }
+  } catch (error) {
+    console.error('Error generating presentation:', error);
+    if (!finished) {
+      finish({
+        status: slides.length > 0 ? 'partial' : 'failed',
+        error: error instanceof Error ? error.message : 'Failed to generate presentation',
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  await writes;
+}
+
+export function usePresentationGeneration(
+  presentationId: string | null,
+  generation: PresentationGeneration | undefined,
+  user: User | null
+) {
+  const [clientId] = useState(() => generateClientId());
+  const claimed = useRef(false);
+
+  useEffect(() => {
+    if (!presentationId || !generation || !user) {
+      return;
+    }
+
+    if (generation.status === 'pending' && !claimed.current) {
+      claimed.current = true;
+      claimPresentationGeneration(presentationId, clientId)
+        .then(won => {
+          if (won) {
+            runGeneration(presentationId, generation, user);
+          }
+        })
+        .catch(error => console.error('Error claiming generation:', error));
+      return;
+    }
+
+    // Streamed by another client: check again once its heartbeat is due to
+    // have gone stale (every heartbeat brings a new snapshot and a new timer)
+    const timeLeft = generationTimeLeft(generation, Date.now());
+    if (timeLeft === null || generation.claimedBy === clientId) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      interruptPresentationGeneration(presentationId)
+        .catch(error => console.error('Error marking generation interrupted:', error));
+    }, timeLeft);
+    return () => clearTimeout(timer);
+  }, [presentationId, generation, user, clientId]);
+}
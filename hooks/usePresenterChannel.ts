@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { PresenterMessage, getPresenterChannelName } from '@/lib/presenter/session';
+
+/**
+ * Connect to the presenter BroadcastChannel for a presentation.
+ * Returns a function that posts a message to the other windows; the
+ * handler receives messages posted by them (never its own).
+ */
+export function usePresenterChannel(
+  presentationId: string | undefined,
+  onMessage: (message: PresenterMessage) => void
+) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+
+  useEffect(() => {
+    if (!presentationId || typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    const channel = new BroadcastChannel(getPresenterChannelName(presentationId));
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => handlerRef.current(event.data);
+    channelRef.current = channel;
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [presentationId]);
+
+  return useCallback((message: PresenterMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+}
@@ -110,32 +110,36 @@ process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID = '123456'
 process.env.NEXT_PUBLIC_FIREBASE_APP_ID = 'test-app-id'
 process.env.NEXT_PUBLIC_GOOGLE_CLOUD_PROJECT = 'test-project'
 
-// Mock fetch for API tests
-global.fetch = jest.fn()
+// Browser mocks; emulator tests run in the node environment, where
+// firebase/auth needs the real fetch
+if (typeof window !== 'undefined') {
+  // Mock fetch for API tests
+  global.fetch = jest.fn()
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+  // Mock window.matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
 
-// Mock IntersectionObserver
-global.IntersectionObserver = class IntersectionObserver {
-  constructor() {}
-  disconnect() {}
-  observe() {}
-  unobserve() {}
-  takeRecords() {
-    return []
+  // Mock IntersectionObserver
+  global.IntersectionObserver = class IntersectionObserver {
+    constructor() {}
+    disconnect() {}
+    observe() {}
+    unobserve() {}
+    takeRecords() {
+      return []
+    }
   }
 }
 
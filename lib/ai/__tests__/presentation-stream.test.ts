@@ -0,0 +1,105 @@
+import { TextDecoder } from 'util'
+import {
+  PresentationHeader,
+  PresentationStreamEvent,
+  createPresentationJsonScanner,
+  formatSseEvent,
+  readEventStream,
+} from '../presentation-stream'
+import type { AISlideContent } from '@/lib/server/slide-converter'
+
+const response = JSON.stringify({
+  title: 'Tides {and} "moons"',
+  subtitle: 'Why the sea breathes',
+  outline: [
+    { heading: 'Tides', type: 'title' },
+    { heading: 'Gravity', type: 'bullets' },
+  ],
+  slides: [
+    { type: 'title', heading: 'Tides', subheading: 'Why the sea breathes' },
+    { type: 'bullets', heading: 'Gravity [pull]', bullets: ['Moon }', 'Sun \\ "too"'], imageDescriptions: ['Ocean'] },
+  ],
+}, null, 2)
+
+function scan(chunks: string[]) {
+  const headers: PresentationHeader[] = []
+  const slides: AISlideContent[] = []
+  const scanner = createPresentationJsonScanner({
+    onHeader: header => headers.push(header),
+    onSlide: slide => slides.push(slide),
+  })
+  chunks.forEach(chunk => scanner.push(chunk))
+  return { headers, slides, scanner }
+}
+
+describe('Presentation Stream', () => {
+  beforeAll(() => {
+    Object.assign(global, { TextDecoder: global.TextDecoder || TextDecoder })
+  })
+
+  it('should emit the outline and each slide as soon as it is complete', () => {
+    const headers: PresentationHeader[] = []
+    const slides: AISlideContent[] = []
+    const scanner = createPresentationJsonScanner({
+      onHeader: header => headers.push(header),
+      onSlide: slide => slides.push(slide),
+    })
+    const secondSlide = response.lastIndexOf('"type": "bullets"')
+
+    scanner.push(response.slice(0, secondSlide))
+    expect(headers).toEqual([{
+      title: 'Tides {and} "moons"',
+      subtitle: 'Why the sea breathes',
+      outline: [
+        { heading: 'Tides', type: 'title' },
+        { heading: 'Gravity', type: 'bullets' },
+      ],
+    }])
+    expect(slides.map(slide => slide.heading)).toEqual(['Tides'])
+
+    scanner.push(response.slice(secondSlide))
+    expect(slides[1]).toEqual({
+      type: 'bullets',
+      heading: 'Gravity [pull]',
+      bullets: ['Moon }', 'Sun \\ "too"'],
+      imageDescriptions: ['Ocean'],
+    })
+    expect(scanner.slideCount).toBe(2)
+  })
+
+  it('should handle character-by-character deltas and markdown fences', () => {
+    const { headers, slides } = scan(('```json\n' + response + '\n```').split(''))
+
+    expect(headers).toHaveLength(1)
+    expect(slides.map(slide => slide.type)).toEqual(['title', 'bullets'])
+  })
+
+  it('should keep slides that arrived before the response was cut off', () => {
+    const { headers, slides } = scan([response.slice(0, response.indexOf('Sun'))])
+
+    expect(headers[0].title).toBe('Tides {and} "moons"')
+    expect(slides).toHaveLength(1)
+  })
+
+  it('should round-trip events through the SSE format', async () => {
+    const events: PresentationStreamEvent[] = [
+      { type: 'outline', title: 'Tides', outline: [] },
+      { type: 'done', slideCount: 0 },
+    ]
+    const wire = ': ping\n\n' + events.map(formatSseEvent).join('')
+    const chunks = [wire.slice(0, 20), wire.slice(20, 45), wire.slice(45)]
+    let index = 0
+    const body = {
+      getReader: () => ({
+        read: async () => index < chunks.length
+          ? { done: false, value: Buffer.from(chunks[index++]) }
+          : { done: true, value: undefined },
+      }),
+    } as unknown as ReadableStream<Uint8Array>
+
+    const received: PresentationStreamEvent[] = []
+    await readEventStream(body, event => received.push(event))
+
+    expect(received).toEqual(events)
+  })
+})
@@ -1,4 +1,3 @@
-import { VertexAI } from '@google-cloud/vertexai';
 import { 
   Slide, 
   SlideType, 
@@ -8,55 +7,47 @@ import {
   ShapeObject 
 } from '@/lib/models/slide';
 import { v4 as uuidv4 } from 'uuid';
-import { modernTemplate } from '@/lib/templates/modern';
+import { getTemplate } from '@/lib/templates/registry';
+import {
+  PresentationBrief,
+  PresentationOutline,
+  getOutlineSlides,
+  normalizeOutline,
+} from '@/lib/models/outline';
+import type { AISlideContent as ConverterSlideContent } from '@/lib/server/slide-converter';
+import { normalizeAISlide } from '@/lib/validation/ai-slide';
 
 /**
- * Vertex AI / Gemini Integration
- * Generates presentation content using Google's Gemini model
+ * AI Presentation Generation
+ * Generates presentation content with the configured text model
+ * (Gemini on Vertex AI by default, see lib/server/text-provider)
  */
 
-// Initialize Vertex AI client
-const vertex = new VertexAI({
-  project: process.env.NEXT_PUBLIC_GOOGLE_CLOUD_PROJECT!,
-  location: process.env.NEXT_PUBLIC_VERTEX_AI_LOCATION || 'us-central1',
-});
-
-// Get Gemini model
-const model = vertex.preview.getGenerativeModel({
-  model: 'gemini-2.5-flash',
-  generationConfig: {
-    maxOutputTokens: 32768,  // Increased from 8192 to handle 30+ slides
-    temperature: 0.7,
-    topP: 0.95,
-  },
-});
-
-// Export for use in podcast generation
-export const geminiModel = model;
-
-// AI-generated slide structure
+// AI-generated slide structure. Model output is normalized to the converter
+// fields (see lib/validation/ai-slide); the rich fields are still accepted
 interface AISlideContent {
-  // Core content for every slide
-  title: string;
-  subtitle: string;
-  leftHeading: string;
-  leftBullets: string[]; // 5-7 bullets
-  rightHeading: string;
-  rightBullets: string[]; // 5-7 bullets
-  imagePrompts: string[]; // 4 image generation prompts
-  quote: string;
-  quoteAuthor: string;
-  statistic: string;
-  statisticUnit: string;
-  bestSlideType: string;
+  // Rich content shape
+  title?: string;
+  subtitle?: string;
+  leftHeading?: string;
+  leftBullets?: string[]; // 5-7 bullets
+  rightHeading?: string;
+  rightBullets?: string[]; // 5-7 bullets
+  imagePrompts?: string[]; // 4 image generation prompts
+  quote?: string;
+  quoteAuthor?: string;
+  statistic?: string;
+  statisticUnit?: string;
+  bestSlideType?: string;
   
-  // Legacy fields for backwards compatibility
+  // Converter fields
   type?: string;
   heading?: string;
   subheading?: string;
   bullets?: string[];
   body?: string;
   imageDescription?: string;
+  imageDescriptions?: string[];
   citation?: string;
   leftContent?: string | string[];
   rightContent?: string | string[];
@@ -65,7 +56,7 @@ interface AISlideContent {
 interface AIPresentationResponse {
   title: string;
   subtitle?: string;
-  slides: AISlideContent[];
+  slides: ConverterSlideContent[];
   suggestedTheme?: string;
   suggestedColorScheme?: string;
 }
@@ -128,32 +119,29 @@ IMAGE DESCRIPTIONS:
 IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real content, not just titles!`;
 
   try {
-    // Requesting slides from Gemini
-    console.log('📝 Sending request to Gemini 1.5 Flash...');
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    
-    // Get text from the response properly
-    const candidate = response.candidates?.[0];
-    if (!candidate || !candidate.content?.parts?.[0]?.text) {
-      throw new Error('No response generated from Gemini');
-    }
+    // Requesting slides from the text model
+    const { getTextModelProvider } = await import('../server/text-provider');
+    const { parseAIPresentationResponse, recordSlideRepair, resolveAISlides } = await import('../server/slide-repair');
+    const provider = getTextModelProvider();
+    console.log(`📝 Sending request to ${provider.model}...`);
+    const { text } = await provider.complete({ prompt, json: true });
+    console.log('✅ Text model responded successfully');
     
-    const text = candidate.content.parts[0].text;
-    console.log('✅ Gemini responded successfully');
+    // Parse, fold legacy field names into the converter's and send invalid
+    // slides back to the model for repair
+    const parsed = parseAIPresentationResponse(text);
+    const { slides: validSlides, report } = await resolveAISlides(parsed.slides, { topic }, provider);
+    recordSlideRepair(report, 'generatePresentation');
+    const presentation: AIPresentationResponse = {
+      title: parsed.title || topic,
+      subtitle: parsed.subtitle,
+      slides: validSlides,
+    };
     
-    // Received response from Gemini
-    
-    // Clean up response (remove markdown code blocks if present)
-    const jsonText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Parse and validate response
-    const presentation = JSON.parse(jsonText) as AIPresentationResponse;
-    
-    // Count image-type slides (handle both type and bestSlideType)
+    // Count image-type slides
     const imageSlideTypes = ['image', 'threeImages', 'imageWithText'];
     const imageSlideCount = presentation.slides.filter(slide => 
-      imageSlideTypes.includes(slide.type || slide.bestSlideType || '')
+      imageSlideTypes.includes(slide.type)
     ).length;
     
     const requiredImageSlides = Math.floor(slideCount * 0.8);
@@ -168,12 +156,7 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
       const slide = presentation.slides[i];
       
       // Skip title slide (first slide)
-      if (i === 0 && (slide.type === 'title' || slide.bestSlideType === 'title')) continue;
-      
-      // Ensure we have a type field
-      if (!slide.type && slide.bestSlideType) {
-        slide.type = slide.bestSlideType;
-      }
+      if (i === 0 && slide.type === 'title') continue;
       
       // Count what we have
       const existingCount = slide.imageDescriptions?.length || 0;
@@ -185,17 +168,17 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
       
       // If we have less than 4, ALWAYS add more to reach 4
       if (existingCount < 4 && existingCount > 0) {
-        console.log(`📸 Slide ${i}: "${slide.title}" has ${existingCount} images - adding ${4 - existingCount} more to reach 4`);
+        console.log(`📸 Slide ${i}: "${slide.heading}" has ${existingCount} images - adding ${4 - existingCount} more to reach 4`);
         
         if (!slide.imageDescriptions) slide.imageDescriptions = [];
         
         // Add enough to reach exactly 4
         const toAdd = 4 - existingCount;
         const additions = [
-          `Additional perspective of ${slide.title} showing related concepts and supporting details`,
-          `Complementary visualization of ${slide.title} with different visual approach`,
-          `Alternative representation of ${slide.title} emphasizing key takeaways`,
-          `Supporting imagery for ${slide.title} with contextual elements`
+          `Additional perspective of ${slide.heading} showing related concepts and supporting details`,
+          `Complementary visualization of ${slide.heading} with different visual approach`,
+          `Alternative representation of ${slide.heading} emphasizing key takeaways`,
+          `Supporting imagery for ${slide.heading} with contextual elements`
         ];
         
         for (let j = 0; j < toAdd && j < additions.length; j++) {
@@ -204,15 +187,15 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
         }
       } else if (existingCount === 0) {
         // No images at all - we should ALWAYS have 4 for flexibility!
-        console.warn(`⚠️ Slide ${i}: "${slide.title}" has NO images - generating 4 fallback descriptions`);
+        console.warn(`⚠️ Slide ${i}: "${slide.heading}" has NO images - generating 4 fallback descriptions`);
         
         // ALWAYS add 4 image descriptions for maximum flexibility
         // This allows users to switch to ANY layout type
         slide.imageDescriptions = [
-          `Professional visualization of ${slide.title || 'this concept'} showing key elements and relationships`,
-          `Detailed diagram illustrating ${slide.title || 'the main idea'} with visual hierarchy and flow`,
-          `Infographic representation of ${slide.title || 'this topic'} with data points and visual metrics`,
-          `Creative illustration depicting ${slide.title || 'the concept'} in an engaging visual style`
+          `Professional visualization of ${slide.heading || 'this concept'} showing key elements and relationships`,
+          `Detailed diagram illustrating ${slide.heading || 'the main idea'} with visual hierarchy and flow`,
+          `Infographic representation of ${slide.heading || 'this topic'} with data points and visual metrics`,
+          `Creative illustration depicting ${slide.heading || 'the concept'} in an engaging visual style`
         ];
         totalImagePrompts += 4;
         slidesWithImages++;
@@ -220,9 +203,9 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
         // If it's set to an image type but had no images, keep the type
         // since we now have 4 images
         const imageTypes = ['image', 'threeImages', 'imageWithText'];
-        if (!imageTypes.includes(slide.bestSlideType || '')) {
+        if (!imageTypes.includes(slide.type)) {
           // It wasn't an image type, so keep it as is
-          console.log(`  Keeping slide type as ${slide.bestSlideType} (now with 4 image options)`);
+          console.log(`  Keeping slide type as ${slide.type} (now with 4 image options)`);
         }
       }
       
@@ -236,10 +219,10 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
     let typesMismatched = 0;
     for (const slide of presentation.slides) {
       const hasImages = slide.imageDescriptions && slide.imageDescriptions.length > 0;
-      const isImageType = ['image', 'threeImages', 'imageWithText'].includes(slide.bestSlideType || '');
+      const isImageType = ['image', 'threeImages', 'imageWithText'].includes(slide.type);
       
       if (isImageType && !hasImages) {
-        console.warn(`⚠️ Slide "${slide.title}" is type ${slide.bestSlideType} but has no images!`);
+        console.warn(`⚠️ Slide "${slide.heading}" is type ${slide.type} but has no images!`);
         typesMismatched++;
       }
     }
@@ -260,7 +243,7 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
     // Ensure we have the requested number of slides
     if (presentation.slides.length !== slideCount) {
       console.error(`⚠️ AI generated ${presentation.slides.length} slides instead of ${slideCount} requested!`);
-      console.error(`First slide title: ${presentation.slides[0]?.title || 'N/A'}`);
+      console.error(`First slide title: ${presentation.slides[0]?.heading || 'N/A'}`);
       
       // If we got way fewer slides than requested, it's likely a token limit issue
       if (presentation.slides.length < slideCount / 2) {
@@ -304,6 +287,78 @@ IMPORTANT: Count your slides to ensure exactly ${slideCount}. Include real conte
 
 // Removed fallback function - we should NEVER return generic garbage
 
+/**
+ * Outline-first generation, phase one: section titles, slide headings,
+ * intended slide types and key points, for the user to review and edit
+ */
+export async function generateOutline(
+  brief: PresentationBrief,
+  slideCount: number = 10,
+  style: 'professional' | 'creative' | 'educational' = 'professional'
+): Promise<PresentationOutline> {
+  try {
+    const { completeJson } = await import('../server/text-provider');
+    const { buildOutlinePrompt } = await import('../server/presentation-prompt');
+    const { data } = await completeJson<Parameters<typeof normalizeOutline>[0]>({
+      prompt: buildOutlinePrompt({ ...brief, slideCount, style }),
+    });
+
+    const outline = normalizeOutline(data, brief.topic);
+    if (outline.sections.length === 0) {
+      throw new Error('The model returned an empty outline');
+    }
+    return outline;
+  } catch (error) {
+    console.error('Error generating outline:', error);
+    throw new Error(`Failed to generate outline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Outline-first generation, phase two: full content for some outline
+ * slides (one, a section or all), keyed by outline slide id
+ */
+export async function expandOutlineSlides(
+  outline: PresentationOutline,
+  outlineSlideIds: string[],
+  brief: Omit<PresentationBrief, 'topic'> & { topic?: string } = {}
+): Promise<Map<string, ConverterSlideContent & { id: string }>> {
+  try {
+    const { completeJson } = await import('../server/text-provider');
+    const { buildExpansionPrompt } = await import('../server/presentation-prompt');
+    const { data } = await completeJson<{ slides?: (ConverterSlideContent & { id?: string })[] }>({
+      prompt: buildExpansionPrompt(outline, outlineSlideIds, brief),
+    });
+
+    const planned = getOutlineSlides(outline);
+    const written = Array.isArray(data.slides) ? data.slides : [];
+    const expanded = new Map<string, ConverterSlideContent & { id: string }>();
+
+    outlineSlideIds.forEach((id, index) => {
+      const plan = planned.find(slide => slide.id === id);
+      if (!plan) {
+        return;
+      }
+      // Match by id, falling back to position if the model dropped the ids;
+      // legacy field names are folded into the converter's
+      const content = normalizeAISlide(written.find(slide => slide.id === id) || written[index]);
+      expanded.set(id, {
+        ...content,
+        id,
+        heading: content.heading || plan.heading,
+        // The user chose the type in the outline; it wins over the model's
+        type: plan.type,
+        ...(!content.bullets && !content.body && { bullets: plan.keyPoints.filter(point => point.trim()) }),
+      });
+    });
+
+    return expanded;
+  } catch (error) {
+    console.error('Error expanding outline slides:', error);
+    throw new Error(`Failed to expand outline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Convert AI-generated content to Slide objects with proper positioning
  */
@@ -316,7 +371,7 @@ export function createSlideFromAIContent(
   const objects: SlideObjectUnion[] = [];
   
   // Get template layout for this slide type
-  const template = modernTemplate; // You can make this dynamic
+  const template = getTemplate(templateId);
   const slideType = mapAITypeToSlideType(aiSlide.bestSlideType || aiSlide.type || 'content');
   const layout = template.layouts[slideType];
   
@@ -477,63 +532,21 @@ export function createSlideFromAIContent(
       // Three images layout - no text, just three positioned images
       // Check for imageDescriptions (new format) or imagePrompts (old format)
       const prompts = aiSlide.imageDescriptions || aiSlide.imagePrompts || [];
-      if (prompts.length >= 3) {
-        // Image 1 - Large left image
+      const imageZones = layout.zones.filter(z => z.role === 'image');
+      imageZones.slice(0, 3).forEach((zone, i) => {
+        // Empty placeholders when fewer than three prompts came back
+        const prompt = prompts.length >= 3 ? prompts[i] : undefined;
         objects.push({
           id: uuidv4(),
           type: 'image',
           src: '', // Will be filled by image generation
-          alt: prompts[0],
-          generationDescription: prompts[0],
+          alt: prompt || `Image ${i + 1}`,
+          generationDescription: prompt || (aiSlide.title ? `${aiSlide.title} - Visual ${i + 1}` : `Image ${i + 1}`),
           fit: 'cover', // Fill mode - crop to fill entire frame
-          coordinates: { x: 95, y: 100, width: 1116, height: 884 },
+          coordinates: zone.coordinates,
           visible: true,
         } as ImageObject);
-        
-        // Image 2 - Top right image
-        objects.push({
-          id: uuidv4(),
-          type: 'image',
-          src: '', // Will be filled by image generation
-          alt: prompts[1],
-          generationDescription: prompts[1],
-          fit: 'cover', // Fill mode - crop to fill entire frame
-          coordinates: { x: 1245, y: 100, width: 580, height: 426 },
-          visible: true,
-        } as ImageObject);
-        
-        // Image 3 - Bottom right image
-        objects.push({
-          id: uuidv4(),
-          type: 'image',
-          src: '', // Will be filled by image generation
-          alt: prompts[2],
-          generationDescription: prompts[2],
-          fit: 'cover', // Fill mode - crop to fill entire frame
-          coordinates: { x: 1245, y: 558, width: 580, height: 426 },
-          visible: true,
-        } as ImageObject);
-      } else {
-        // Fallback: create empty image placeholders
-        for (let i = 0; i < 3; i++) {
-          const coords = i === 0 
-            ? { x: 95, y: 100, width: 1116, height: 884 }
-            : i === 1 
-            ? { x: 1245, y: 100, width: 580, height: 426 }
-            : { x: 1245, y: 558, width: 580, height: 426 };
-          
-          objects.push({
-            id: uuidv4(),
-            type: 'image',
-            src: '',
-            alt: `Image ${i + 1}`,
-            generationDescription: aiSlide.title ? `${aiSlide.title} - Visual ${i + 1}` : `Image ${i + 1}`,
-            fit: 'cover',
-            coordinates: coords,
-            visible: true,
-          } as ImageObject);
-        }
-      }
+      });
       break;
       
     case SlideType.QUOTE:
@@ -606,7 +619,7 @@ export function createSlideFromAIContent(
     type: slideType,
     objects,
     order,
-    templateId,
+    templateId: template.id,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -240,9 +240,9 @@ export async function generatePodcastScript(
   voice2Gender: 'male' | 'female' = 'male',
   language: string = 'en'
 ): Promise<string> {
-  // Use the server-side Vertex AI client
-  const { getGeminiModel } = await import('../server/vertex-ai');
-  const model = await getGeminiModel();
+  // Use the server-side text model
+  const { getTextModelProvider } = await import('../server/text-provider');
+  const provider = getTextModelProvider();
   
   const systemPrompt = getSystemPromptForFormat(format, duration, voice1Gender, voice2Gender, language);
   const presentationData = formatPresentationContent(content);
@@ -275,19 +275,7 @@ REMEMBER:
 
 Generate the podcast script now. Use ONLY the format **SpeakerName:** for each line.`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  
-  // Get the text from the response
-  let text: string;
-  if (typeof response.text === 'function') {
-    text = response.text();
-  } else if (response.candidates && response.candidates[0]?.content?.parts?.[0]?.text) {
-    text = response.candidates[0].content.parts[0].text;
-  } else {
-    console.error('Response structure:', JSON.stringify(response, null, 2));
-    throw new Error('Unable to extract text from response');
-  }
+  const { text } = await provider.complete({ prompt });
   
   // Return the script directly as markdown text
   return text.trim();
@@ -0,0 +1,217 @@
+/**
+ * Streaming presentation generation
+ * Shared by /api/ai/generate-presentation-stream and the editor: the
+ * event protocol sent over Server-Sent Events, an incremental scanner that
+ * pulls the outline and each finished slide out of a partial JSON response,
+ * and a reader for the event stream on the client.
+ */
+
+import type { AISlideContent } from '@/lib/server/slide-converter';
+import type { Slide } from '@/lib/models/slide';
+import type { PresentationBrief } from '@/lib/models/outline';
+
+export type PresentationStyle = 'professional' | 'creative' | 'educational';
+
+export interface PresentationGenerationRequest extends PresentationBrief {
+  slideCount: number;
+  style?: PresentationStyle;
+  templateId?: string;
+  generateImages?: 'now' | 'later' | 'none';
+  imageStyle?: string;
+}
+
+export interface PresentationOutlineItem {
+  heading: string;
+  type: string;
+}
+
+export interface PresentationHeader {
+  title: string;
+  subtitle?: string;
+  outline: PresentationOutlineItem[];
+}
+
+// A converted slide plus the image prompts used to queue its images
+export type StreamedSlide = Slide & { imageDescriptions?: string[] };
+
+export type PresentationStreamEvent =
+  | ({ type: 'outline' } & PresentationHeader)
+  | { type: 'slide'; index: number; slide: StreamedSlide }
+  | { type: 'done'; slideCount: number; repaired?: number; unrepaired?: number }
+  | { type: 'error'; error: string; partial: boolean };
+
+export interface PresentationJsonScannerHandlers {
+  onHeader: (header: PresentationHeader) => void;
+  onSlide: (slide: AISlideContent, index: number) => void;
+  // A complete slide object that is not valid JSON, as raw text
+  onInvalidSlide?: (text: string, index: number) => void;
+}
+
+export interface PresentationJsonScanner {
+  push: (delta: string) => void;
+  // Number of slide objects found so far, parseable or not
+  readonly slideCount: number;
+}
+
+function toHeader(raw: Partial<PresentationHeader> & { outline?: unknown }): PresentationHeader {
+  const outline = Array.isArray(raw.outline)
+    ? (raw.outline as Partial<PresentationOutlineItem>[])
+        .filter(item => item && typeof item.heading === 'string')
+        .map(item => ({ heading: item.heading as string, type: item.type || 'content' }))
+    : [];
+  return {
+    title: typeof raw.title === 'string' ? raw.title : '',
+    subtitle: typeof raw.subtitle === 'string' ? raw.subtitle : undefined,
+    outline,
+  };
+}
+
+/**
+ * Scan a JSON response `{ title, subtitle, outline, slides: [...] }` as it
+ * streams in. The header is reported once the `slides` array opens (so it
+ * must come first, which the prompt asks for) and every slide object as
+ * soon as its closing brace arrives. Slides that are not valid JSON go to
+ * onInvalidSlide with their position. Text before the first `{` (such as a
+ * markdown fence) is ignored.
+ */
+export function createPresentationJsonScanner(handlers: PresentationJsonScannerHandlers): PresentationJsonScanner {
+  let text = '';
+  let position = 0;
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey = '';
+  let headerEnd = -1;      // Index of `"slides"` once its array opened
+  let slidesDepth = -1;    // Depth inside the slides array
+  let slideStart = -1;
+  let slideCount = 0;
+  let rootStart = -1;
+
+  const emitHeader = () => {
+    try {
+      const json = text.slice(rootStart, headerEnd).replace(/,\s*$/, '') + '}';
+      handlers.onHeader(toHeader(JSON.parse(json)));
+    } catch (error) {
+      console.warn('Could not parse presentation header:', error);
+      handlers.onHeader({ title: '', outline: [] });
+    }
+  };
+
+  const push = (delta: string) => {
+    text += delta;
+
+    for (; position < text.length; position++) {
+      const char = text[position];
+
+      if (!started) {
+        if (char === '{') {
+          started = true;
+          rootStart = position;
+          depth = 1;
+        }
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1) {
+            lastKey = text.slice(stringStart + 1, position);
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        if (char === '[' && depth === 2 && lastKey === 'slides' && slidesDepth === -1) {
+          slidesDepth = depth;
+          headerEnd = text.lastIndexOf('"slides"', position);
+          emitHeader();
+        } else if (char === '{' && slidesDepth !== -1 && depth === slidesDepth + 1) {
+          slideStart = position;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && slidesDepth !== -1 && depth === slidesDepth + 1 && slideStart !== -1) {
+          const slideText = text.slice(slideStart, position + 1);
+          let slide: AISlideContent | undefined;
+          try {
+            slide = JSON.parse(slideText) as AISlideContent;
+          } catch (error) {
+            console.warn('Unparseable slide in model response:', error);
+          }
+          if (slide) {
+            handlers.onSlide(slide, slideCount);
+          } else if (handlers.onInvalidSlide) {
+            handlers.onInvalidSlide(slideText, slideCount);
+          }
+          slideCount++;
+          slideStart = -1;
+        }
+        depth--;
+      }
+    }
+  };
+
+  return {
+    push,
+    get slideCount() {
+      return slideCount;
+    },
+  };
+}
+
+/**
+ * Encode one event as a Server-Sent Events frame
+ */
+export function formatSseEvent(event: PresentationStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a Server-Sent Events response body, calling onEvent for every
+ * event as it arrives. Comment lines (heartbeats) are skipped.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: PresentationStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (frames: string[]) => {
+    for (let i = 0; i < frames.length; i++) {
+      const data = frames[i]
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data) as PresentationStreamEvent);
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+    flush(frames);
+  }
+
+  flush([buffer]);
+}
@@ -151,17 +151,18 @@ export const aiCache = {
   },
 };
 
-// Image generation cache
+// Image generation cache, by asset key (normalized prompt, style, model
+// and parameters; see getImageAssetKey in lib/server/image-jobs)
 export const imageCache = {
-  key: (prompt: string) => `image:${Buffer.from(prompt).toString('base64').slice(0, 100)}`,
+  key: (assetKey: string) => `image:${assetKey}`,
   
-  async get(prompt: string) {
-    return cache.get<string>(this.key(prompt));
+  async get(assetKey: string) {
+    return cache.get<string[]>(this.key(assetKey));
   },
   
-  async set(prompt: string, url: string) {
+  async set(assetKey: string, urls: string[]) {
     // Cache image URLs for 7 days
-    return cache.set(this.key(prompt), url, 604800);
+    return cache.set(this.key(assetKey), urls, 604800);
   },
 };
 
@@ -0,0 +1,139 @@
+import {
+  SlideComment,
+  canDeleteComment,
+  commentPins,
+  describeCommentAnchor,
+  groupThreads,
+  mentionCandidates,
+  mentionQuery,
+  openThreadCounts,
+  parseMentions,
+  splitMentions,
+  suggestMentions,
+} from '../comments'
+
+const comment = (id: string, extra: Partial<SlideComment> = {}): SlideComment => ({
+  id,
+  threadId: id,
+  slideId: 's1',
+  authorId: 'ada',
+  authorName: 'Ada',
+  body: 'Looks good',
+  mentions: [],
+  createdAt: 1000,
+  ...extra,
+})
+
+const candidates = [
+  { email: 'ada@example.com', name: 'Ada' },
+  { email: 'grace@example.com' },
+  { email: 'grace@other.org' },
+]
+
+describe('Comment threads', () => {
+  it('should group replies under the comment that started the thread', () => {
+    const threads = groupThreads([
+      comment('r2', { threadId: 't1', createdAt: 3000, authorId: 'grace' }),
+      comment('t2', { slideId: 's2', createdAt: 500 }),
+      comment('t1', { resolved: true, resolvedBy: 'Ada', resolvedAt: 4000 }),
+      comment('r1', { threadId: 't1', createdAt: 2000, editedAt: 5000 }),
+      comment('t3', { slideId: 'gone' }),
+      comment('orphan', { threadId: 'deleted' }),
+    ], ['s2', 's1'])
+
+    expect(threads.map(thread => thread.id)).toEqual(['t2', 't1', 't3'])
+    expect(threads[1].comments.map(entry => entry.id)).toEqual(['t1', 'r1', 'r2'])
+    expect(threads[1]).toMatchObject({ resolved: true, resolvedBy: 'Ada', updatedAt: 5000 })
+    expect(threads[0].resolved).toBe(false)
+  })
+
+  it('should count open threads per slide and per object', () => {
+    const threads = groupThreads([
+      comment('t1'),
+      comment('t2', { objectId: 'o1' }),
+      comment('t3', { objectId: 'o1' }),
+      comment('t4', { objectId: 'o2', resolved: true }),
+      comment('t5', { slideId: 's2', objectId: 'o3' }),
+    ], ['s1', 's2'])
+
+    expect(openThreadCounts(threads)).toEqual({ s1: 3, s2: 1 })
+    expect(commentPins(threads, 's1')).toEqual([{ objectId: 'o1', count: 2 }])
+  })
+
+  it('should describe where a comment is pinned', () => {
+    const slides = [
+      { id: 's1', objects: [] },
+      {
+        id: 's2',
+        objects: [
+          { id: 'title', type: 'text', content: 'Quarterly results  for\nthe whole team' },
+          { id: 'photo', type: 'image' },
+          { id: 'logo', type: 'image', name: 'Logo' },
+        ],
+      },
+    ]
+
+    expect(describeCommentAnchor(slides, { slideId: 's1' })).toBe('Slide 1')
+    expect(describeCommentAnchor(slides, { slideId: 's2', objectId: 'title' })).toBe('Slide 2 · “Quarterly results for th…”')
+    expect(describeCommentAnchor(slides, { slideId: 's2', objectId: 'photo' })).toBe('Slide 2 · Image')
+    expect(describeCommentAnchor(slides, { slideId: 's2', objectId: 'logo' })).toBe('Slide 2 · Logo')
+    expect(describeCommentAnchor(slides, { slideId: 's2', objectId: 'gone' })).toBe('Slide 2 · Removed object')
+    expect(describeCommentAnchor(slides, { slideId: 's9' })).toBe('Removed slide')
+  })
+
+  it('should let authors delete their own comments and owners anything', () => {
+    const [thread] = groupThreads([comment('t1'), comment('r1', { threadId: 't1', authorId: 'grace' })])
+    const [solo] = groupThreads([comment('t2'), comment('r2', { threadId: 't2' })])
+
+    expect(canDeleteComment(thread.comments[1], thread, 'grace', false)).toBe(true)
+    expect(canDeleteComment(thread.comments[1], thread, 'ada', false)).toBe(false)
+    // Not a thread others have replied to
+    expect(canDeleteComment(thread.comments[0], thread, 'ada', false)).toBe(false)
+    expect(canDeleteComment(solo.comments[0], solo, 'ada', false)).toBe(true)
+    expect(canDeleteComment(thread.comments[0], thread, 'owner', true)).toBe(true)
+    expect(canDeleteComment(thread.comments[1], thread, undefined, false)).toBe(false)
+  })
+})
+
+describe('Mentions', () => {
+  it('should find mentioned people by email or unambiguous handle', () => {
+    expect(parseMentions('@ada can you check? cc @Grace@Other.org.', candidates)).toEqual([
+      'ada@example.com',
+      'grace@other.org',
+    ])
+    // Two Graces
+    expect(parseMentions('@grace please', candidates)).toEqual([])
+    expect(parseMentions('@ada and @ada again, @nobody', candidates)).toEqual(['ada@example.com'])
+  })
+
+  it('should split a comment into text and mentions', () => {
+    expect(splitMentions('Thanks @ada. See @grace@other.org')).toEqual([
+      { text: 'Thanks ', mention: false },
+      { text: '@ada', mention: true },
+      { text: '. See ', mention: false },
+      { text: '@grace@other.org', mention: true },
+    ])
+    expect(splitMentions('No mentions')).toEqual([{ text: 'No mentions', mention: false }])
+  })
+
+  it('should suggest people while a handle is typed', () => {
+    expect(mentionQuery('Thanks @gr')).toBe('gr')
+    expect(mentionQuery('@')).toBe('')
+    expect(mentionQuery('mail me at ada@example.com')).toBeNull()
+    expect(mentionQuery('Thanks @ada ')).toBeNull()
+
+    expect(suggestMentions('gr', candidates).map(candidate => candidate.email)).toEqual(['grace@example.com', 'grace@other.org'])
+    expect(suggestMentions('ad', candidates).map(candidate => candidate.email)).toEqual(['ada@example.com'])
+    expect(suggestMentions('', candidates, 1)).toHaveLength(1)
+  })
+
+  it('should offer members and commenters with an email', () => {
+    expect(mentionCandidates(
+      ['Grace@Example.com', 'ada@example.com'],
+      [comment('t1', { authorEmail: 'Ada@example.com' }), comment('t2', { authorName: 'Anonymous' })]
+    )).toEqual([
+      { email: 'ada@example.com', name: 'Ada' },
+      { email: 'grace@example.com' },
+    ])
+  })
+})
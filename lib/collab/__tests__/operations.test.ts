@@ -0,0 +1,114 @@
+import { applyOperations, diffSlides } from '../operations'
+import { PRESENCE_TIMEOUT_MS, activeCollaborators, presenceColor, presenceInitials } from '../presence'
+
+const text = (id: string, content: string, extra: Record<string, unknown> = {}) => ({ id, type: 'text', content, ...extra })
+
+const deck = () => [
+  { id: 's1', order: 0, type: 'title', title: 'Intro', objects: [text('a', 'Hello'), text('b', 'World')] },
+  { id: 's2', order: 1, type: 'content', title: 'Body', objects: [text('c', 'One'), text('d', 'Two')] },
+  { id: 's3', order: 2, type: 'content', title: 'End', objects: [] },
+]
+
+describe('Slide operations', () => {
+  it('should turn one deck into another', () => {
+    const before = deck()
+    const after = [
+      { ...before[2], title: 'Closing', objects: [text('e', 'New')] },
+      { ...before[0], objects: [before[0].objects[1], { ...before[0].objects[0], content: 'Hi', style: { bold: true } }] },
+      { id: 's4', order: 2, type: 'quote', title: 'Quote', objects: [] },
+    ]
+
+    const operations = diffSlides(before, after)
+
+    expect(operations.map(operation => operation.type)).toEqual([
+      'removeSlide', 'moveSlide', 'insertSlide', 'updateSlide', 'insertObject', 'moveObject', 'updateObject',
+    ])
+    expect(applyOperations(before, operations)).toEqual(after.map((slide, order) => ({ ...slide, order })))
+    expect(diffSlides(after, after)).toEqual([])
+  })
+
+  it('should keep concurrent edits to different objects and fields', () => {
+    const base = deck()
+    const mine = diffSlides(base, [
+      { ...base[0], objects: [{ ...base[0].objects[0], content: 'Mine' }, base[0].objects[1]] },
+      base[1],
+      base[2],
+    ])
+    const theirs = diffSlides(base, [
+      { ...base[0], title: 'Theirs', objects: [base[0].objects[0], { ...base[0].objects[1], content: 'Theirs' }] },
+      base[1],
+      { ...base[2], objects: [text('e', 'Added')] },
+    ])
+
+    const merged = applyOperations(applyOperations(base, theirs), mine)
+
+    expect(merged[0].title).toBe('Theirs')
+    expect(merged[0].objects.map(obj => obj.content)).toEqual(['Mine', 'Theirs'])
+    expect(merged[2].objects).toEqual([text('e', 'Added')])
+  })
+
+  it('should keep the later write to the same field', () => {
+    const base = deck()
+    const edit = (content: string) => diffSlides(base, [
+      base[0],
+      { ...base[1], objects: [{ ...base[1].objects[0], content }, base[1].objects[1]] },
+      base[2],
+    ])
+
+    const merged = applyOperations(applyOperations(base, edit('First')), edit('Second'))
+
+    expect(merged[1].objects[0].content).toBe('Second')
+  })
+
+  it('should drop edits to removed slides and objects', () => {
+    const base = deck()
+    const removed = diffSlides(base, [base[0], base[2]])
+    const edited = diffSlides(base, [
+      { ...base[0], objects: [base[0].objects[0]] },
+      { ...base[1], title: 'Edited', objects: [{ ...base[1].objects[0], content: 'Edited' }] },
+      base[2],
+    ])
+    const inserted = diffSlides([base[0], base[1]], [base[0], base[1], { id: 's5', order: 2, objects: [] }])
+
+    const merged = applyOperations(applyOperations(applyOperations(base, removed), edited), inserted)
+
+    expect(merged.map(slide => slide.id)).toEqual(['s1', 's3', 's5'])
+    expect(merged[0].objects.map(obj => obj.id)).toEqual(['a'])
+    expect(merged.map(slide => slide.order)).toEqual([0, 1, 2])
+  })
+
+  it('should unset removed fields', () => {
+    const base = [{ id: 's1', order: 0, objects: [text('a', 'Hi', { link: 'https://example.com' })] }]
+    const after = [{ id: 's1', order: 0, objects: [text('a', 'Hi')] }]
+
+    const operations = diffSlides(base, after)
+
+    expect(operations).toEqual([{ type: 'updateObject', slideId: 's1', objectId: 'a', changes: {}, unset: ['link'] }])
+    expect(applyOperations(base, operations)).toEqual(after)
+  })
+})
+
+describe('Presence', () => {
+  const entry = (clientId: string, name: string, lastSeen: number) => ({
+    clientId, userId: `u-${clientId}`, name, color: '#000', objectIds: [], lastSeen,
+  })
+
+  it('should list other clients that are still present, by name', () => {
+    const now = 1000000
+    const presence = [
+      entry('c1', 'Zed', now),
+      entry('self', 'Me', now),
+      entry('c2', 'Ada', now - 1000),
+      entry('c3', 'Gone', now - PRESENCE_TIMEOUT_MS),
+    ]
+
+    expect(activeCollaborators(presence, 'self', now).map(collaborator => collaborator.name)).toEqual(['Ada', 'Zed'])
+  })
+
+  it('should give a user the same color and readable initials', () => {
+    expect(presenceColor('user-1')).toBe(presenceColor('user-1'))
+    expect(presenceInitials('Ada Lovelace')).toBe('AL')
+    expect(presenceInitials('ada')).toBe('AD')
+    expect(presenceInitials(' ')).toBe('?')
+  })
+})
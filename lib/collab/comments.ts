@@ -0,0 +1,246 @@
+/**
+ * Comments
+ * Reviewers pin comments to a slide, or to one object on it. A comment
+ * starts a thread; replies share its thread id, and the thread's state
+ * (resolved or open) lives on the first comment. Owners, editors and
+ * commenters can comment (see lib/models/sharing), unless the presentation
+ * turns comments off.
+ *
+ * @mentions name people by email, or by the part before the @ when that's
+ * unambiguous: "@ada" or "@ada@example.com".
+ */
+
+export interface SlideComment {
+  id: string;
+  threadId: string;  // The first comment's id
+  slideId: string;
+  objectId?: string;  // Pinned to one object on the slide
+  authorId: string;
+  authorName: string;
+  authorEmail?: string;  // Lets others mention the author
+  body: string;
+  mentions: string[];  // Normalized emails
+  createdAt: number;  // ms since epoch
+  editedAt?: number;
+  // Thread state, on the first comment only
+  resolved?: boolean;
+  resolvedBy?: string;  // Name
+  resolvedAt?: number;
+}
+
+export interface CommentThread {
+  id: string;
+  slideId: string;
+  objectId?: string;
+  comments: SlideComment[];  // Oldest first, the first one opened the thread
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  updatedAt: number;  // Latest comment
+}
+
+export interface MentionCandidate {
+  email: string;
+  name?: string;
+}
+
+/**
+ * Comments gathered into threads, in slide order and then oldest first.
+ * Threads on slides that no longer exist go last. Replies whose first
+ * comment is gone are dropped with it.
+ */
+export function groupThreads(comments: SlideComment[], slideIds: string[] = []): CommentThread[] {
+  const byThread = new Map<string, SlideComment[]>();
+  comments.forEach(comment => {
+    byThread.set(comment.threadId, [...(byThread.get(comment.threadId) || []), comment]);
+  });
+
+  const threads: CommentThread[] = [];
+  byThread.forEach((entries, threadId) => {
+    const first = entries.find(comment => comment.id === threadId);
+    if (!first) {
+      return;
+    }
+    const sorted = [first, ...entries.filter(comment => comment !== first).sort((a, b) => a.createdAt - b.createdAt)];
+    threads.push({
+      id: threadId,
+      slideId: first.slideId,
+      objectId: first.objectId,
+      comments: sorted,
+      resolved: !!first.resolved,
+      resolvedBy: first.resolvedBy,
+      resolvedAt: first.resolvedAt,
+      updatedAt: Math.max(...sorted.map(comment => comment.editedAt || comment.createdAt)),
+    });
+  });
+
+  const position = (thread: CommentThread) => {
+    const index = slideIds.indexOf(thread.slideId);
+    return index === -1 ? slideIds.length : index;
+  };
+  return threads.sort((a, b) => position(a) - position(b) || a.comments[0].createdAt - b.comments[0].createdAt);
+}
+
+/**
+ * Open threads per slide id, for badges
+ */
+export function openThreadCounts(threads: CommentThread[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  threads.forEach(thread => {
+    if (!thread.resolved) {
+      counts[thread.slideId] = (counts[thread.slideId] || 0) + 1;
+    }
+  });
+  return counts;
+}
+
+/**
+ * Objects on a slide with open threads pinned to them, and how many
+ */
+export function commentPins(threads: CommentThread[], slideId: string): { objectId: string; count: number }[] {
+  const counts = new Map<string, number>();
+  threads.forEach(thread => {
+    if (!thread.resolved && thread.slideId === slideId && thread.objectId) {
+      counts.set(thread.objectId, (counts.get(thread.objectId) || 0) + 1);
+    }
+  });
+  return Array.from(counts.entries()).map(([objectId, count]) => ({ objectId, count }));
+}
+
+/**
+ * Where a comment is pinned, for people: "Slide 3", "Slide 3 · Image",
+ * "Slide 3 · “Quarterly results”"
+ */
+export function describeCommentAnchor(
+  slides: { id: string; objects?: { id: string; type: string; name?: string; content?: unknown }[] }[],
+  anchor: { slideId: string; objectId?: string }
+): string {
+  const index = slides.findIndex(slide => slide.id === anchor.slideId);
+  if (index === -1) {
+    return 'Removed slide';
+  }
+  if (!anchor.objectId) {
+    return `Slide ${index + 1}`;
+  }
+  const object = slides[index].objects?.find(entry => entry.id === anchor.objectId);
+  if (!object) {
+    return `Slide ${index + 1} · Removed object`;
+  }
+  const text = typeof object.content === 'string' ? object.content.replace(/\s+/g, ' ').trim() : '';
+  const label = object.name
+    || (text ? `“${text.length > 24 ? `${text.slice(0, 24)}…` : text}”` : object.type.charAt(0).toUpperCase() + object.type.slice(1));
+  return `Slide ${index + 1} · ${label}`;
+}
+
+function localPart(email: string): string {
+  return email.split('@')[0];
+}
+
+/**
+ * What to type after @ to mention someone
+ */
+export function mentionHandle(candidate: MentionCandidate, candidates: MentionCandidate[]): string {
+  const local = localPart(candidate.email);
+  const ambiguous = candidates.some(other => other.email !== candidate.email && localPart(other.email) === local);
+  return ambiguous ? candidate.email : local;
+}
+
+// Handles are emails or their local part, so letters, digits and . _ + -
+const MENTION_PATTERN = /@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+/**
+ * The emails of the candidates a comment mentions
+ */
+export function parseMentions(body: string, candidates: MentionCandidate[]): string[] {
+  const mentioned: string[] = [];
+  let match: RegExpExecArray | null;
+  MENTION_PATTERN.lastIndex = 0;
+  while ((match = MENTION_PATTERN.exec(body)) !== null) {
+    // A sentence can end right after a mention
+    const handle = match[1].replace(/\.+$/, '').toLowerCase();
+    const candidate = candidates.find(entry =>
+      entry.email.toLowerCase() === handle || mentionHandle(entry, candidates).toLowerCase() === handle
+    );
+    if (candidate && !mentioned.includes(candidate.email.toLowerCase())) {
+      mentioned.push(candidate.email.toLowerCase());
+    }
+  }
+  return mentioned;
+}
+
+/**
+ * A comment split into text and @mentions, for highlighting
+ */
+export function splitMentions(body: string): { text: string; mention: boolean }[] {
+  const parts: { text: string; mention: boolean }[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  MENTION_PATTERN.lastIndex = 0;
+  while ((match = MENTION_PATTERN.exec(body)) !== null) {
+    const text = `@${match[1].replace(/\.+$/, '')}`;
+    if (match.index > last) {
+      parts.push({ text: body.slice(last, match.index), mention: false });
+    }
+    parts.push({ text, mention: true });
+    last = match.index + text.length;
+  }
+  if (last < body.length) {
+    parts.push({ text: body.slice(last), mention: false });
+  }
+  return parts;
+}
+
+/**
+ * The handle being typed at the end of a draft ("Thanks @ad" → "ad"), to
+ * suggest people; null when not typing a mention
+ */
+export function mentionQuery(draft: string): string | null {
+  const match = /(?:^|\s)@([\w.+-]*)$/.exec(draft);
+  return match ? match[1] : null;
+}
+
+/**
+ * Candidates for a partly typed handle
+ */
+export function suggestMentions(query: string, candidates: MentionCandidate[], max: number = 5): MentionCandidate[] {
+  const needle = query.toLowerCase();
+  return candidates
+    .filter(candidate =>
+      candidate.email.toLowerCase().startsWith(needle) || (candidate.name || '').toLowerCase().startsWith(needle)
+    )
+    .slice(0, max);
+}
+
+/**
+ * People who can be mentioned: invited members and everyone who has
+ * commented with an email address
+ */
+export function mentionCandidates(memberEmails: string[], comments: SlideComment[]): MentionCandidate[] {
+  const candidates = new Map<string, MentionCandidate>();
+  memberEmails.forEach(email => candidates.set(email.toLowerCase(), { email: email.toLowerCase() }));
+  comments.forEach(comment => {
+    if (comment.authorEmail) {
+      candidates.set(comment.authorEmail.toLowerCase(), { email: comment.authorEmail.toLowerCase(), name: comment.authorName });
+    }
+  });
+  return Array.from(candidates.values()).sort((a, b) => a.email.localeCompare(b.email));
+}
+
+/**
+ * Authors delete their own comments, and their threads while nobody else
+ * has replied; the owner deletes anything. The rules check the same.
+ */
+export function canDeleteComment(
+  comment: SlideComment,
+  thread: CommentThread,
+  userId: string | undefined,
+  isOwner: boolean
+): boolean {
+  if (isOwner) {
+    return true;
+  }
+  if (!userId || comment.authorId !== userId) {
+    return false;
+  }
+  return comment.id !== thread.id || thread.comments.every(entry => entry.authorId === userId);
+}
@@ -0,0 +1,308 @@
+/**
+ * Slide Operations
+ * Co-editing sends what changed, not the deck: insert, move, remove or
+ * update one slide or one object. Operations name their targets by id and
+ * carry only the fields that changed, so they apply to whatever the deck
+ * looks like when they arrive:
+ *
+ *   - edits to different slides, objects or fields all survive
+ *   - the same field edited twice keeps the later write
+ *   - edits to a slide or object someone removed are dropped
+ *   - inserts and moves land after their anchor, or at the end when the
+ *     anchor is gone
+ *
+ * The store applies operations to the latest deck in a transaction; an
+ * editor re-applies its unsaved operations to every deck it receives.
+ */
+
+export interface ObjectLike {
+  id: string;
+}
+
+export interface SlideLike {
+  id: string;
+  order?: number;
+  objects?: ObjectLike[];
+}
+
+type Fields = Record<string, unknown>;
+
+export type SlideOperation =
+  | { type: 'insertSlide'; slide: SlideLike & Fields; afterSlideId: string | null }
+  | { type: 'moveSlide'; slideId: string; afterSlideId: string | null }
+  | { type: 'removeSlide'; slideId: string }
+  | { type: 'updateSlide'; slideId: string; changes: Fields; unset?: string[] }
+  | { type: 'insertObject'; slideId: string; object: ObjectLike & Fields; afterObjectId: string | null }
+  | { type: 'moveObject'; slideId: string; objectId: string; afterObjectId: string | null }
+  | { type: 'removeObject'; slideId: string; objectId: string }
+  | { type: 'updateObject'; slideId: string; objectId: string; changes: Fields; unset?: string[] };
+
+// Slide fields kept by the operations themselves
+const STRUCTURAL_SLIDE_FIELDS = ['id', 'order', 'objects'];
+
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aKeys = Object.keys(a).filter(key => (a as Fields)[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => (b as Fields)[key] !== undefined);
+  return aKeys.length === bKeys.length
+    && aKeys.every(key => isEqualValue((a as Fields)[key], (b as Fields)[key]));
+}
+
+// Place or move an item after its anchor (first for null, last when the anchor is gone)
+function placeAfter<T extends ObjectLike>(items: T[], item: T, afterId: string | null): T[] {
+  const rest = items.filter(existing => existing.id !== item.id);
+  if (afterId === null) {
+    return [item, ...rest];
+  }
+  const anchor = rest.findIndex(existing => existing.id === afterId);
+  if (anchor === -1) {
+    return [...rest, item];
+  }
+  return [...rest.slice(0, anchor + 1), item, ...rest.slice(anchor + 1)];
+}
+
+function applyChanges<T>(target: T, changes: Fields, unset: string[] = [], keep: string[] = []): T {
+  const updated: Fields = { ...(target as Fields) };
+  for (const [key, value] of Object.entries(changes)) {
+    if (!keep.includes(key)) {
+      updated[key] = value;
+    }
+  }
+  for (const key of unset) {
+    if (!keep.includes(key)) {
+      delete updated[key];
+    }
+  }
+  return updated as T;
+}
+
+function updateObjects<T extends SlideLike>(
+  slides: T[],
+  slideId: string,
+  update: (objects: ObjectLike[]) => ObjectLike[]
+): T[] {
+  return slides.map(slide =>
+    slide.id === slideId ? { ...slide, objects: update(slide.objects || []) } : slide
+  );
+}
+
+/**
+ * One operation applied to a deck; operations whose target is gone change
+ * nothing
+ */
+export function applyOperation<T extends SlideLike>(slides: T[], operation: SlideOperation): T[] {
+  const hasSlide = (id: string) => slides.some(slide => slide.id === id);
+  const hasObject = (slideId: string, objectId: string) =>
+    !!slides.find(slide => slide.id === slideId)?.objects?.some(obj => obj.id === objectId);
+  let result: T[];
+
+  switch (operation.type) {
+    case 'insertSlide':
+      if (hasSlide(operation.slide.id)) {
+        return slides;
+      }
+      result = placeAfter(slides, operation.slide as unknown as T, operation.afterSlideId);
+      break;
+    case 'moveSlide': {
+      const slide = slides.find(existing => existing.id === operation.slideId);
+      if (!slide || (operation.afterSlideId !== null && !hasSlide(operation.afterSlideId))) {
+        return slides;
+      }
+      result = placeAfter(slides, slide, operation.afterSlideId);
+      break;
+    }
+    case 'removeSlide':
+      result = slides.filter(slide => slide.id !== operation.slideId);
+      break;
+    case 'updateSlide':
+      return slides.map(slide =>
+        slide.id === operation.slideId
+          ? applyChanges(slide, operation.changes, operation.unset, STRUCTURAL_SLIDE_FIELDS)
+          : slide
+      );
+    case 'insertObject':
+      if (!hasSlide(operation.slideId) || hasObject(operation.slideId, operation.object.id)) {
+        return slides;
+      }
+      return updateObjects(slides, operation.slideId, objects =>
+        placeAfter(objects, operation.object, operation.afterObjectId)
+      );
+    case 'moveObject':
+      if (!hasObject(operation.slideId, operation.objectId)) {
+        return slides;
+      }
+      return updateObjects(slides, operation.slideId, objects => {
+        const obj = objects.find(existing => existing.id === operation.objectId) as ObjectLike;
+        const anchorGone = operation.afterObjectId !== null
+          && !objects.some(existing => existing.id === operation.afterObjectId);
+        return anchorGone ? objects : placeAfter(objects, obj, operation.afterObjectId);
+      });
+    case 'removeObject':
+      if (!hasObject(operation.slideId, operation.objectId)) {
+        return slides;
+      }
+      return updateObjects(slides, operation.slideId, objects =>
+        objects.filter(obj => obj.id !== operation.objectId)
+      );
+    case 'updateObject':
+      if (!hasObject(operation.slideId, operation.objectId)) {
+        return slides;
+      }
+      return updateObjects(slides, operation.slideId, objects =>
+        objects.map(obj =>
+          obj.id === operation.objectId ? applyChanges(obj, operation.changes, operation.unset, ['id']) : obj
+        )
+      );
+  }
+
+  // Slide positions follow the deck order
+  return result.map((slide, index) => (slide.order === index ? slide : { ...slide, order: index }));
+}
+
+export function applyOperations<T extends SlideLike>(slides: T[], operations: SlideOperation[]): T[] {
+  return operations.reduce((current, operation) => applyOperation(current, operation), slides);
+}
+
+/**
+ * Inserts and moves that turn one id sequence into another. Items in the
+ * longest run already in order stay put; each other item goes after the
+ * one before it in `after`.
+ */
+function diffSequence(
+  before: string[],
+  after: string[]
+): { id: string; afterId: string | null; inserted: boolean }[] {
+  const beforeIndex = new Map(before.map((id, index) => [id, index]));
+  const kept = after.filter(id => beforeIndex.has(id));
+
+  // Longest increasing run of before-positions (patience sorting)
+  const positions = kept.map(id => beforeIndex.get(id) as number);
+  const tails: number[] = [];
+  const previous: number[] = new Array(positions.length).fill(-1);
+  positions.forEach((position, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[tails[mid]] < position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const stationary = new Set<string>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    stationary.add(kept[i]);
+  }
+
+  const steps: { id: string; afterId: string | null; inserted: boolean }[] = [];
+  after.forEach((id, index) => {
+    if (!stationary.has(id)) {
+      steps.push({ id, afterId: index > 0 ? after[index - 1] : null, inserted: !beforeIndex.has(id) });
+    }
+  });
+  return steps;
+}
+
+function diffFields(
+  before: Fields,
+  after: Fields,
+  ignore: string[]
+): { changes: Fields; unset?: string[] } | null {
+  const changes: Fields = {};
+  const unset: string[] = [];
+  for (const key of Object.keys(after)) {
+    if (!ignore.includes(key) && after[key] !== undefined && !isEqualValue(before[key], after[key])) {
+      changes[key] = after[key];
+    }
+  }
+  for (const key of Object.keys(before)) {
+    if (!ignore.includes(key) && before[key] !== undefined && after[key] === undefined) {
+      unset.push(key);
+    }
+  }
+  if (Object.keys(changes).length === 0 && unset.length === 0) {
+    return null;
+  }
+  return unset.length ? { changes, unset } : { changes };
+}
+
+/**
+ * The operations that turn one deck into another; applied to `before`
+ * they give `after` (up to slide order numbers)
+ */
+export function diffSlides<T extends SlideLike>(before: T[], after: T[]): SlideOperation[] {
+  const operations: SlideOperation[] = [];
+  const afterIds = new Set(after.map(slide => slide.id));
+  const beforeById = new Map(before.map(slide => [slide.id, slide]));
+
+  for (const slide of before) {
+    if (!afterIds.has(slide.id)) {
+      operations.push({ type: 'removeSlide', slideId: slide.id });
+    }
+  }
+
+  const remaining = before.filter(slide => afterIds.has(slide.id)).map(slide => slide.id);
+  for (const step of diffSequence(remaining, after.map(slide => slide.id))) {
+    if (step.inserted) {
+      const slide = after.find(candidate => candidate.id === step.id) as T;
+      operations.push({ type: 'insertSlide', slide: slide as unknown as SlideLike & Fields, afterSlideId: step.afterId });
+    } else {
+      operations.push({ type: 'moveSlide', slideId: step.id, afterSlideId: step.afterId });
+    }
+  }
+
+  for (const slide of after) {
+    const previous = beforeById.get(slide.id);
+    if (!previous) {
+      continue;
+    }
+
+    const slideChanges = diffFields(previous as unknown as Fields, slide as unknown as Fields, STRUCTURAL_SLIDE_FIELDS);
+    if (slideChanges) {
+      operations.push({ type: 'updateSlide', slideId: slide.id, ...slideChanges });
+    }
+
+    const beforeObjects = previous.objects || [];
+    const afterObjects = slide.objects || [];
+    const afterObjectIds = new Set(afterObjects.map(obj => obj.id));
+    const beforeObjectsById = new Map(beforeObjects.map(obj => [obj.id, obj]));
+
+    for (const obj of beforeObjects) {
+      if (!afterObjectIds.has(obj.id)) {
+        operations.push({ type: 'removeObject', slideId: slide.id, objectId: obj.id });
+      }
+    }
+
+    const remainingObjects = beforeObjects.filter(obj => afterObjectIds.has(obj.id)).map(obj => obj.id);
+    for (const step of diffSequence(remainingObjects, afterObjects.map(obj => obj.id))) {
+      if (step.inserted) {
+        const obj = afterObjects.find(candidate => candidate.id === step.id) as ObjectLike & Fields;
+        operations.push({ type: 'insertObject', slideId: slide.id, object: obj, afterObjectId: step.afterId });
+      } else {
+        operations.push({ type: 'moveObject', slideId: slide.id, objectId: step.id, afterObjectId: step.afterId });
+      }
+    }
+
+    for (const obj of afterObjects) {
+      const previousObject = beforeObjectsById.get(obj.id);
+      const objectChanges = previousObject && diffFields(previousObject as unknown as Fields, obj as unknown as Fields, ['id']);
+      if (objectChanges) {
+        operations.push({ type: 'updateObject', slideId: slide.id, objectId: obj.id, ...objectChanges });
+      }
+    }
+  }
+
+  return operations;
+}
@@ -0,0 +1,92 @@
+/**
+ * Presence
+ * Everyone with a presentation open in the editor publishes where they
+ * are: the slide they are on and the objects they have selected. Each
+ * browser tab is its own client, so one person in two tabs shows twice.
+ * Clients refresh their entry every heartbeat; entries that stop being
+ * refreshed (closed laptops, lost connections) are ignored.
+ */
+
+export interface PresenceSelection {
+  slideId?: string;
+  objectIds: string[];
+}
+
+export interface Collaborator extends PresenceSelection {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  lastSeen: number;  // ms since epoch, from the client's clock
+}
+
+export const PRESENCE_HEARTBEAT_MS = 15000;
+export const PRESENCE_TIMEOUT_MS = 45000;
+
+// Distinct on white slides and readable behind white initials
+export const PRESENCE_COLORS = [
+  '#e53935',
+  '#8e24aa',
+  '#3949ab',
+  '#039be5',
+  '#00897b',
+  '#7cb342',
+  '#fb8c00',
+  '#6d4c41',
+];
+
+// FNV-1a, so a user keeps their color across sessions
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function presenceColor(userId: string): string {
+  return PRESENCE_COLORS[hashString(userId) % PRESENCE_COLORS.length];
+}
+
+export function generateClientId(random: () => number = Math.random): string {
+  let id = '';
+  for (let i = 0; i < 16; i++) {
+    id += 'abcdefghijklmnopqrstuvwxyz0123456789'[Math.floor(random() * 36)];
+  }
+  return id;
+}
+
+/**
+ * Display name from what the account has, e.g. "ada@example.com" → "ada"
+ */
+export function presenceName(user: { displayName?: string | null; email?: string | null }): string {
+  return user.displayName || user.email?.split('@')[0] || 'Anonymous';
+}
+
+export function presenceInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return '?';
+  }
+  return words.length === 1
+    ? words[0].slice(0, 2).toUpperCase()
+    : (words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
+
+/**
+ * Other clients still present, by name
+ */
+export function activeCollaborators(
+  presence: Collaborator[],
+  selfClientId: string,
+  now: number
+): Collaborator[] {
+  return presence
+    .filter(entry => entry.clientId !== selfClientId && now - entry.lastSeen < PRESENCE_TIMEOUT_MS)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.clientId.localeCompare(b.clientId));
+}
+
+export function collaboratorsOnSlide(collaborators: Collaborator[], slideId: string): Collaborator[] {
+  return collaborators.filter(collaborator => collaborator.slideId === slideId);
+}
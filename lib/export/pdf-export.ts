@@ -1,6 +1,12 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { Slide } from '@/lib/models/slide';
+import {
+  MasterElementOptions,
+  ResolvedMasterElement,
+  resolveDeckMasterElements,
+} from '@/lib/templates/master-elements';
+import { TextFitOptions, fitSlideText } from '@/lib/templates/overflow';
 
 export type PDFLayout = '1-slide' | '2-slides' | '3-slides' | '4-slides';
 export type PDFOrientation = 'landscape' | 'portrait';
@@ -10,6 +16,8 @@ export interface PDFExportOptions {
   includeNotes: boolean;
   quality: number; // 0.1 to 1
   filename?: string;
+  masterElements?: MasterElementOptions; // Draw template page numbers, logos and footers
+  textFit?: TextFitOptions;              // Template/typography used to fit overflowing text
 }
 
 interface LayoutConfig {
@@ -40,10 +48,12 @@ export class PDFExporter {
   }
 
   /**
-   * Export slides to PDF
+   * Export slides to PDF.
+   * Overflowing text is fitted first, so renderSlide also receives
+   * continuation slides.
    */
   async export(
-    slides: Slide[],
+    deckSlides: Slide[],
     renderSlide: (slide: Slide, index: number) => Promise<HTMLElement>,
     onProgress?: (progress: number) => void
   ): Promise<Blob> {
@@ -66,6 +76,14 @@ export class PDFExporter {
     let currentPage = 0;
     let slidesOnCurrentPage = 0;
 
+    // Shrink, clip or paginate text that overflows its zone
+    const slides = deckSlides.flatMap(slide => fitSlideText(slide, this.options.textFit));
+
+    // Template master elements replace the plain corner slide number
+    const masterElements = this.options.masterElements
+      ? resolveDeckMasterElements(slides, this.options.masterElements)
+      : null;
+
     for (let i = 0; i < slides.length; i++) {
       const slide = slides[i];
       
@@ -76,6 +94,9 @@ export class PDFExporter {
 
       // Render slide to canvas
       const slideElement = await renderSlide(slide, i);
+      if (masterElements) {
+        this.addMasterElements(slideElement, masterElements[i]);
+      }
       const canvas = await this.slideToCanvas(slideElement);
       
       // Calculate position on page
@@ -87,7 +108,9 @@ export class PDFExporter {
       this.pdf.addImage(imgData, 'JPEG', x, y, slideWidth, slideHeight);
       
       // Add slide number
-      this.addSlideNumber(x, y, slideWidth, slideHeight, i + 1);
+      if (!masterElements) {
+        this.addSlideNumber(x, y, slideWidth, slideHeight, i + 1);
+      }
       
       // Add speaker notes if requested
       if (this.options.includeNotes && slide.notes) {
@@ -187,6 +210,60 @@ export class PDFExporter {
     }
   }
 
+  /**
+   * Draw resolved master elements onto the rendered slide element
+   */
+  private addMasterElements(element: HTMLElement, masterElements: ResolvedMasterElement[]) {
+    if (!element.style.position) {
+      element.style.position = 'relative';
+    }
+
+    masterElements.forEach(masterElement => {
+      const { coordinates } = masterElement;
+      const node = document.createElement('div');
+      node.dataset.masterElement = masterElement.type;
+      Object.assign(node.style, {
+        position: 'absolute',
+        left: `${coordinates.x}px`,
+        top: `${coordinates.y}px`,
+        width: `${coordinates.width}px`,
+        height: `${coordinates.height}px`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: masterElement.align === 'left'
+          ? 'flex-start'
+          : masterElement.align === 'right' ? 'flex-end' : 'center',
+        opacity: String(masterElement.opacity),
+        transform: masterElement.rotation ? `rotate(${masterElement.rotation}deg)` : '',
+        zIndex: masterElement.type === 'watermark' ? '0' : '999',
+      });
+
+      if (masterElement.image) {
+        const img = document.createElement('img');
+        img.src = masterElement.image.url;
+        img.alt = masterElement.type;
+        Object.assign(img.style, {
+          width: '100%',
+          height: '100%',
+          objectFit: masterElement.image.fit,
+        });
+        node.appendChild(img);
+      } else {
+        Object.assign(node.style, {
+          fontFamily: masterElement.fontFamily,
+          fontSize: `${masterElement.fontSize}px`,
+          fontWeight: String(masterElement.fontWeight),
+          fontStyle: masterElement.fontStyle || 'normal',
+          color: masterElement.color,
+          whiteSpace: 'nowrap',
+        });
+        node.textContent = masterElement.text || '';
+      }
+
+      element.appendChild(node);
+    });
+  }
+
   /**
    * Add slide number to PDF
    */
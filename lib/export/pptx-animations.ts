@@ -0,0 +1,257 @@
+import JSZip from 'jszip';
+import { SlideAnimation, SlideTransition } from '@/lib/models/slide';
+import { AnimatedSlide, ScheduledAnimation, buildAnimationSteps } from '@/lib/models/animation';
+
+/**
+ * PowerPoint transition and animation writer
+ * pptxgenjs has no API for transitions or animation timelines, so the
+ * written package is post-processed: each slide's XML gets a
+ * <p:transition> and a <p:timing> main sequence built from the same
+ * build steps the presenter plays. Objects are found by name, so every
+ * exported object must be added with objectName set to its id.
+ */
+
+export type AnimatedPage = AnimatedSlide & { transition?: SlideTransition };
+
+// Blob in the browser, Buffer in API routes
+type PptxOutput = { blob: Blob; nodebuffer: Buffer };
+
+// Built-in entrance presets (PowerPoint preset ids and subtypes)
+const ENTRANCE_PRESETS: Record<SlideAnimation['type'], { id: number; subtype: number }> = {
+  fadeIn: { id: 10, subtype: 0 },     // Fade
+  slideIn: { id: 2, subtype: 4 },     // Fly In, from bottom
+  zoomIn: { id: 53, subtype: 16 },    // Zoom
+  rotate: { id: 31, subtype: 0 },     // Grow & Turn
+  bounce: { id: 2, subtype: 1 },      // Fly In, from top (closest built-in)
+};
+
+const PUSH_DIRECTIONS: Record<NonNullable<SlideTransition['direction']>, string> = {
+  left: 'l',
+  right: 'r',
+  up: 'u',
+  down: 'd',
+};
+
+// PowerPoint only has three transition speeds: 0.5s, 0.75s and 1s
+function transitionSpeed(duration: number): 'fast' | 'med' | 'slow' {
+  if (duration <= 500) {
+    return 'fast';
+  }
+  return duration <= 750 ? 'med' : 'slow';
+}
+
+/**
+ * Build a slide's <p:transition> element ('' when it has none)
+ */
+export function buildTransitionXml(transition?: SlideTransition): string {
+  if (!transition || transition.type === 'none') {
+    return '';
+  }
+
+  const speed = transitionSpeed(transition.duration ?? 500);
+  let effect: string;
+  switch (transition.type) {
+    case 'slide':
+      effect = `<p:push dir="${PUSH_DIRECTIONS[transition.direction || 'left']}"/>`;
+      break;
+    case 'zoom':
+      effect = '<p:zoom/>';
+      break;
+    case 'flip':
+      // Flip is a PowerPoint 2010 extension; a vertical split reads closest
+      effect = '<p:split orient="vert" dir="out"/>';
+      break;
+    default:
+      effect = '<p:fade/>';
+  }
+
+  return `<p:transition spd="${speed}">${effect}</p:transition>`;
+}
+
+// Numbers the <p:cTn> nodes of one timing tree
+class TimeNodeIds {
+  private next = 1;
+  take(): number {
+    return this.next++;
+  }
+}
+
+function target(spid: number): string {
+  return `<p:tgtEl><p:spTgt spid="${spid}"/></p:tgtEl>`;
+}
+
+function behavior(ids: TimeNodeIds, spid: number, duration: number, attribute?: string): string {
+  const attributes = attribute ? `<p:attrNameLst><p:attrName>${attribute}</p:attrName></p:attrNameLst>` : '';
+  return `<p:cBhvr><p:cTn id="${ids.take()}" dur="${duration}" fill="hold"/>${target(spid)}${attributes}</p:cBhvr>`;
+}
+
+function animate(ids: TimeNodeIds, spid: number, duration: number, attribute: string, from: string, to: string): string {
+  return `<p:anim calcmode="lin" valueType="num">${behavior(ids, spid, duration, attribute)}` +
+    '<p:tavLst>' +
+    `<p:tav tm="0"><p:val><p:strVal val="${from}"/></p:val></p:tav>` +
+    `<p:tav tm="100000"><p:val><p:strVal val="${to}"/></p:val></p:tav>` +
+    '</p:tavLst></p:anim>';
+}
+
+function fade(ids: TimeNodeIds, spid: number, duration: number): string {
+  return `<p:animEffect transition="in" filter="fade">${behavior(ids, spid, duration)}</p:animEffect>`;
+}
+
+// The behaviors that make up one entrance effect
+function effectBehaviors(ids: TimeNodeIds, type: SlideAnimation['type'], spid: number, duration: number): string {
+  const show = `<p:set>${behavior(ids, spid, 1, 'style.visibility')}<p:to><p:strVal val="visible"/></p:to></p:set>`;
+
+  switch (type) {
+    case 'slideIn':
+      return show +
+        animate(ids, spid, duration, 'ppt_x', '#ppt_x', '#ppt_x') +
+        animate(ids, spid, duration, 'ppt_y', '1+#ppt_h/2', '#ppt_y');
+    case 'bounce':
+      return show +
+        animate(ids, spid, duration, 'ppt_x', '#ppt_x', '#ppt_x') +
+        animate(ids, spid, duration, 'ppt_y', '0-#ppt_h/2', '#ppt_y');
+    case 'zoomIn':
+      return show +
+        animate(ids, spid, duration, 'ppt_w', '0', '#ppt_w') +
+        animate(ids, spid, duration, 'ppt_h', '0', '#ppt_h') +
+        fade(ids, spid, duration);
+    case 'rotate':
+      return show +
+        animate(ids, spid, duration, 'ppt_w', '0', '#ppt_w') +
+        animate(ids, spid, duration, 'ppt_h', '0', '#ppt_h') +
+        animate(ids, spid, duration, 'style.rotation', '-90', '0') +
+        fade(ids, spid, duration);
+    default:
+      return show + fade(ids, spid, duration);
+  }
+}
+
+function effect(ids: TimeNodeIds, item: ScheduledAnimation, spid: number, nodeType: string): string {
+  const preset = ENTRANCE_PRESETS[item.animation.type];
+  return `<p:par><p:cTn id="${ids.take()}" presetID="${preset.id}" presetClass="entr" ` +
+    `presetSubtype="${preset.subtype}" fill="hold" grpId="0" nodeType="${nodeType}">` +
+    `<p:stCondLst><p:cond delay="${item.startAt}"/></p:stCondLst>` +
+    `<p:childTnLst>${effectBehaviors(ids, item.animation.type, spid, item.duration)}</p:childTnLst>` +
+    '</p:cTn></p:par>';
+}
+
+/**
+ * Build a slide's <p:timing> element ('' when nothing is animated).
+ * shapeIds maps object ids to the shape ids in the slide XML.
+ */
+export function buildTimingXml(slide: AnimatedSlide, shapeIds: Record<string, number>): string {
+  const { scheduled, buildCount } = buildAnimationSteps(slide);
+  const items = scheduled.filter(item => shapeIds[item.animation.objectId] !== undefined);
+  if (items.length === 0) {
+    return '';
+  }
+
+  const ids = new TimeNodeIds();
+  const rootId = ids.take();
+  const sequenceId = ids.take();
+  let builds = '';
+
+  for (let build = 0; build <= buildCount; build++) {
+    const buildItems = items.filter(item => item.build === build);
+    if (buildItems.length === 0) {
+      continue;
+    }
+
+    // Build 0 starts with the slide; the others wait for a click
+    const start = build === 0
+      ? `<p:cond delay="indefinite"/><p:cond evt="onBegin" delay="0"><p:tn val="${sequenceId}"/></p:cond>`
+      : '<p:cond delay="indefinite"/>';
+    const buildId = ids.take();
+    const groupId = ids.take();
+    const effects = buildItems
+      .map((item, index) => effect(
+        ids,
+        item,
+        shapeIds[item.animation.objectId],
+        index > 0 ? 'withEffect' : build === 0 ? 'afterEffect' : 'clickEffect'
+      ))
+      .join('');
+
+    builds += `<p:par><p:cTn id="${buildId}" fill="hold"><p:stCondLst>${start}</p:stCondLst><p:childTnLst>` +
+      `<p:par><p:cTn id="${groupId}" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst>` +
+      `<p:childTnLst>${effects}</p:childTnLst></p:cTn></p:par>` +
+      '</p:childTnLst></p:cTn></p:par>';
+  }
+
+  return '<p:timing><p:tnLst><p:par>' +
+    `<p:cTn id="${rootId}" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>` +
+    '<p:seq concurrent="1" nextAc="seek">' +
+    `<p:cTn id="${sequenceId}" dur="indefinite" nodeType="mainSeq"><p:childTnLst>${builds}</p:childTnLst></p:cTn>` +
+    '<p:prevCondLst><p:cond evt="onPrev" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:prevCondLst>' +
+    '<p:nextCondLst><p:cond evt="onNext" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:nextCondLst>' +
+    '</p:seq></p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>';
+}
+
+/**
+ * Give every shape in a slide's XML its own id. pptxgenjs numbers table
+ * frames separately, so they can share an id with another shape, and
+ * animations target shapes by id.
+ */
+export function uniqueShapeIds(slideXml: string): string {
+  const pattern = /<p:cNvPr id="(\d+)"/g;
+  const ids = new Set<number>();
+  let next = 1;
+  let match;
+  while ((match = pattern.exec(slideXml)) !== null) {
+    next = Math.max(next, Number(match[1]) + 1);
+  }
+
+  return slideXml.replace(pattern, (tag, id: string) => {
+    if (!ids.has(Number(id))) {
+      ids.add(Number(id));
+      return tag;
+    }
+    ids.add(next);
+    return `<p:cNvPr id="${next++}"`;
+  });
+}
+
+/**
+ * Map shape names (our object ids) to their shape ids in a slide's XML
+ */
+export function getShapeIds(slideXml: string): Record<string, number> {
+  const shapeIds: Record<string, number> = {};
+  const pattern = /<p:cNvPr id="(\d+)" name="([^"]*)"/g;
+  let match;
+  while ((match = pattern.exec(slideXml)) !== null) {
+    if (shapeIds[match[2]] === undefined) {
+      shapeIds[match[2]] = Number(match[1]);
+    }
+  }
+  return shapeIds;
+}
+
+/**
+ * Add transitions and animations to a written .pptx. Pages are the
+ * exported slides in order (slide1.xml is pages[0]).
+ */
+export async function applyPptxAnimations<T extends keyof PptxOutput>(
+  data: ArrayBuffer | Buffer,
+  pages: AnimatedPage[],
+  type: T
+): Promise<PptxOutput[T]> {
+  const zip = await JSZip.loadAsync(data);
+
+  for (let i = 0; i < pages.length; i++) {
+    const path = `ppt/slides/slide${i + 1}.xml`;
+    const file = zip.file(path);
+    if (!file) {
+      continue;
+    }
+
+    const xml = uniqueShapeIds(await file.async('string'));
+    const extra = buildTransitionXml(pages[i].transition) + buildTimingXml(pages[i], getShapeIds(xml));
+    zip.file(path, xml.replace('</p:sld>', `${extra}</p:sld>`));
+  }
+
+  return zip.generateAsync({
+    type,
+    compression: 'DEFLATE',
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  });
+}
@@ -0,0 +1,126 @@
+import type PptxGenJS from 'pptxgenjs';
+import { ChartObject } from '@/lib/models/slide';
+import { ColorSet, DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { ChartLegendPosition, ChartType, getChartColors, normalizeChartData } from '@/lib/models/chart';
+
+/**
+ * Native PowerPoint chart builder
+ * Converts a ChartObject into pptxgenjs chart data and options so exported
+ * charts stay editable in PowerPoint. Shared by the client exporter and the
+ * /api/export/powerpoint route.
+ */
+
+export interface PptxChartSpec {
+  type: ChartType;                     // Matches a pptxgenjs ChartType key
+  data: PptxGenJS.OptsChartData[];
+  options: PptxGenJS.IChartOpts;       // Excludes position (x, y, w, h)
+}
+
+// Label font size in points; the 20in custom layout is 2x standard size
+const LABEL_FONT_SIZE = 24;
+
+const LEGEND_POSITIONS: Record<ChartLegendPosition, 'b' | 'l' | 'r' | 't'> = {
+  top: 't',
+  bottom: 'b',
+  left: 'l',
+  right: 'r',
+};
+
+// pptxgenjs wants six digit hex without '#'
+function toPptxColor(color: string): string {
+  const hex = color.replace('#', '');
+  if (/^[0-9a-fA-F]{3}$/.test(hex)) {
+    return hex.split('').map(c => c + c).join('').toUpperCase();
+  }
+  return /^[0-9a-fA-F]{6}/.test(hex) ? hex.slice(0, 6).toUpperCase() : '1976D2';
+}
+
+/**
+ * Build native chart data and options for a chart object
+ */
+export function buildPptxChart(
+  chartObj: ChartObject,
+  colorSet: ColorSet = DEFAULT_COLOR_SET
+): PptxChartSpec {
+  const data = normalizeChartData(chartObj.data);
+  const options = chartObj.options || {};
+  const type: ChartType = chartObj.chartType || 'bar';
+  const isPie = type === 'pie';
+
+  let chartData: PptxGenJS.OptsChartData[];
+  if (type === 'scatter') {
+    // Scatter data: first entry holds the x values, the rest are y series
+    const first = data.series[0];
+    const xValues = first?.xValues && first.xValues.length > 0
+      ? first.xValues
+      : (first?.values || []).map((_, i) => {
+        const parsed = parseFloat(data.categories[i]);
+        return Number.isFinite(parsed) ? parsed : i + 1;
+      });
+    chartData = [
+      { name: options.categoryAxis?.title || 'X', values: xValues },
+      ...data.series.map(series => ({ name: series.name, values: series.values })),
+    ];
+  } else if (isPie) {
+    // Pie charts plot a single series
+    chartData = data.series.slice(0, 1).map(series => ({
+      name: series.name,
+      labels: data.categories,
+      values: series.values,
+    }));
+  } else {
+    chartData = data.series.map(series => ({
+      name: series.name,
+      labels: data.categories,
+      values: series.values,
+    }));
+  }
+
+  const showLegend = options.legend?.show ?? (isPie || data.series.length > 1);
+
+  const chartOptions: PptxGenJS.IChartOpts = {
+    chartColors: getChartColors(type, data, colorSet).map(toPptxColor),
+    showLegend,
+    legendPos: LEGEND_POSITIONS[options.legend?.position || 'bottom'],
+    legendFontSize: LABEL_FONT_SIZE,
+    showTitle: !!options.title,
+    title: options.title,
+    titleFontSize: LABEL_FONT_SIZE + 8,
+    showValue: !!options.showValues && !isPie,
+    showPercent: !!options.showValues && isPie,
+    dataLabelFontSize: LABEL_FONT_SIZE,
+  };
+
+  if (!isPie) {
+    const { categoryAxis = {}, valueAxis = {} } = options;
+
+    Object.assign(chartOptions, {
+      catAxisLabelFontSize: LABEL_FONT_SIZE,
+      valAxisLabelFontSize: LABEL_FONT_SIZE,
+      catAxisHidden: categoryAxis.visible === false,
+      valAxisHidden: valueAxis.visible === false,
+      showCatAxisTitle: !!categoryAxis.title,
+      catAxisTitle: categoryAxis.title,
+      showValAxisTitle: !!valueAxis.title,
+      valAxisTitle: valueAxis.title,
+      valAxisMinVal: valueAxis.min,
+      valAxisMaxVal: valueAxis.max,
+      valGridLine: valueAxis.gridLines === false ? { style: 'none' } : undefined,
+      catGridLine: categoryAxis.gridLines ? undefined : { style: 'none' },
+    } satisfies PptxGenJS.IChartOpts);
+  }
+
+  if (type === 'bar') {
+    chartOptions.barDir = options.orientation === 'horizontal' ? 'bar' : 'col';
+    chartOptions.barGrouping = options.stacked ? 'stacked' : 'clustered';
+  }
+  if (type === 'area' && options.stacked) {
+    chartOptions.barGrouping = 'stacked';
+  }
+  if (type === 'scatter') {
+    chartOptions.lineSize = 0;
+    chartOptions.lineDataSymbolSize = 10;
+  }
+
+  return { type, data: chartData, options: chartOptions };
+}
@@ -2,6 +2,14 @@ import PptxGenJS from 'pptxgenjs';
 import { Slide, SlideObjectUnion, TextObject, ImageObject, ShapeObject, TableObject, ChartObject } from '@/lib/models/slide';
 import { Presentation } from '@/lib/models/presentation';
 import { Coordinates } from '@/lib/models/coordinates';
+import { ColorSet, DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { buildPptxChart } from './pptx-chart';
+import { buildPptxTable } from './pptx-table';
+import { paginateSlideTables } from '@/lib/models/table';
+import { addPptxMasterElements } from './pptx-master';
+import { ResolvedMasterElement, resolveDeckMasterElements } from '@/lib/templates/master-elements';
+import { TextFitOptions, fitSlideText } from '@/lib/templates/overflow';
+import { applyPptxAnimations } from './pptx-animations';
 
 /**
  * PowerPoint Export Service using pptxgenjs
@@ -22,6 +30,9 @@ import { Coordinates } from '@/lib/models/coordinates';
 
 export class PptxExporter {
   private pptx: PptxGenJS;
+  private colorSet: ColorSet;
+  private textFit: TextFitOptions;
+  private pages: Slide[] = [];    // Exported slides, in order, for transitions and animations
   // Use 96 DPI for perfect pixel mapping
   private readonly SLIDE_WIDTH_INCHES = 20;      // 1920 / 96 = 20
   private readonly SLIDE_HEIGHT_INCHES = 11.25;  // 1080 / 96 = 11.25
@@ -31,8 +42,10 @@ export class PptxExporter {
   // Scale factor to convert pixels to inches (96 DPI)
   private readonly SCALE_FACTOR = this.SLIDE_WIDTH_INCHES / this.CANVAS_WIDTH;
 
-  constructor() {
+  constructor(colorSet: ColorSet = DEFAULT_COLOR_SET, textFit: TextFitOptions = {}) {
     this.pptx = new PptxGenJS();
+    this.colorSet = colorSet;
+    this.textFit = textFit;
     
     // Define custom layout with exact 1920x1080 dimensions at 96 DPI
     this.pptx.defineLayout({
@@ -73,11 +86,9 @@ export class PptxExporter {
   private addTextObject(slide: PptxGenJS.Slide, textObj: TextObject): void {
     const position = this.convertCoordinates(textObj.coordinates);
     
-    // Scale font size appropriately for PowerPoint
-    // We're mapping 1920x1080 to 20x11.25 inches (96 DPI)
-    // Standard PowerPoint uses 10x5.625 inches for 16:9, so we're 2x larger
-    // Therefore, we need to scale up the font size by 2x
-    const fontSize = (textObj.customStyles?.fontSize || 18) * 2;
+    // Font sizes are canvas pixels (fitted by fitSlideText); at 96 DPI
+    // a pixel is 0.75pt
+    const fontSize = Math.round((textObj.customStyles?.fontSize || 48) * 0.75);
     
     // Parse markdown-style bold formatting (**text**)
     const textContent = textObj.content;
@@ -133,6 +144,7 @@ export class PptxExporter {
       
       const options: PptxGenJS.TextPropsOptions = {
         ...position,
+        objectName: textObj.id,
         align: textObj.customStyles?.textAlign || 'left',
         valign: 'top',
         margin: 0,
@@ -144,6 +156,7 @@ export class PptxExporter {
       // No markdown formatting, use simple text
       const options: PptxGenJS.TextPropsOptions = {
         ...position,
+        objectName: textObj.id,
         fontSize: fontSize,
         bold: (textObj.customStyles?.fontWeight || 400) >= 600,
         color: textObj.customStyles?.color?.replace('#', '') || '000000',
@@ -171,6 +184,7 @@ export class PptxExporter {
         y: position.y,
         w: position.w,
         h: position.h,
+        objectName: imageObj.id,
         fill: { color: 'F0F0F0' },
         line: { color: 'CCCCCC', width: 1 }
       };
@@ -226,7 +240,8 @@ export class PptxExporter {
           w: finalWidth,
           h: finalHeight,
           path: imageObj.src,
-          altText: imageObj.alt || ''
+          altText: imageObj.alt || '',
+          objectName: imageObj.id
         };
         slide.addImage(options);
       } else {
@@ -236,6 +251,7 @@ export class PptxExporter {
           y: position.y,
           w: position.w,
           h: position.h,
+          objectName: imageObj.id,
           fill: { color: 'F0F0F0' },
           line: { color: 'CCCCCC', width: 1 }
         };
@@ -249,6 +265,7 @@ export class PptxExporter {
         y: position.y,
         w: position.w,
         h: position.h,
+        objectName: imageObj.id,
         fill: { color: 'F0F0F0' },
         line: { color: 'CCCCCC', width: 1 }
       };
@@ -286,6 +303,7 @@ export class PptxExporter {
 
     const options: PptxGenJS.ShapeProps = {
       ...position,
+      objectName: shapeObj.id,
       fill: { color: shapeObj.fill?.replace('#', '') || 'FFFFFF' },
       line: shapeObj.stroke ? {
         color: shapeObj.stroke.replace('#', ''),
@@ -297,96 +315,36 @@ export class PptxExporter {
   }
 
   /**
-   * Add a table object to the slide
+   * Add a table object to the slide as a native PowerPoint table
    */
   private addTableObject(slide: PptxGenJS.Slide, tableObj: TableObject): void {
     const position = this.convertCoordinates(tableObj.coordinates);
-    
-    // Prepare table data
-    const rows: PptxGenJS.TableRow[] = [];
-    
-    // Add headers if present
-    if (tableObj.headers && tableObj.headers.length > 0) {
-      const headerRow: PptxGenJS.TableCell[] = tableObj.headers.map(header => ({
-        text: header,
-        options: {
-          bold: true,
-          fill: { color: tableObj.styles?.headerBackground?.replace('#', '') || 'F0F0F0' },
-          color: tableObj.styles?.headerText?.replace('#', '') || '000000'
-        }
-      }));
-      rows.push(headerRow);
+    const table = buildPptxTable(tableObj, this.colorSet);
+
+    if (table.rows.length === 0) {
+      console.warn('Table has no data');
+      return;
     }
-    
-    // Add data rows
-    tableObj.data.forEach(row => {
-      const dataRow: PptxGenJS.TableCell[] = row.map(cell => ({
-        text: String(cell),
-        options: {
-          fill: { color: tableObj.styles?.cellBackground?.replace('#', '') || 'FFFFFF' },
-          color: tableObj.styles?.cellText?.replace('#', '') || '000000'
-        }
-      }));
-      rows.push(dataRow);
-    });
 
-    const tableOptions: PptxGenJS.TableProps = {
+    slide.addTable(table.rows, {
       ...position,
-      border: tableObj.styles?.borderWidth ? {
-        type: 'solid',
-        pt: tableObj.styles.borderWidth,
-        color: tableObj.styles?.borderColor?.replace('#', '') || 'CCCCCC'
-      } : undefined,
-      autoPage: false,
-      colW: Array(rows[0]?.length || 1).fill(position.w / (rows[0]?.length || 1))
-    };
-
-    slide.addTable(rows, tableOptions);
+      ...table.options,
+      objectName: tableObj.id
+    });
   }
 
   /**
-   * Add a chart object to the slide
+   * Add a chart object to the slide as a native (editable) PowerPoint chart
    */
   private addChartObject(slide: PptxGenJS.Slide, chartObj: ChartObject): void {
     const position = this.convertCoordinates(chartObj.coordinates);
-    
-    // Map chart types
-    let chartType: PptxGenJS.CHART_NAME;
-    switch (chartObj.chartType) {
-      case 'bar':
-        chartType = this.pptx.ChartType.bar;
-        break;
-      case 'line':
-        chartType = this.pptx.ChartType.line;
-        break;
-      case 'pie':
-        chartType = this.pptx.ChartType.pie;
-        break;
-      case 'scatter':
-        chartType = this.pptx.ChartType.scatter;
-        break;
-      case 'area':
-        chartType = this.pptx.ChartType.area;
-        break;
-      default:
-        chartType = this.pptx.ChartType.bar;
-    }
-
-    const chartData: PptxGenJS.IChartOpts[] = [{
-      name: 'Series 1',
-      labels: chartObj.data.labels || [],
-      values: chartObj.data.values || []
-    }];
+    const chart = buildPptxChart(chartObj, this.colorSet);
 
-    const chartOptions: PptxGenJS.IChartOpts = {
+    slide.addChart(this.pptx.ChartType[chart.type], chart.data, {
       ...position,
-      chartColors: ['0088CC', 'FF6633', '99CC00', 'FF3366'],
-      showLegend: true,
-      showTitle: false,
-      showValue: true
-    };
-
-    slide.addChart(chartType, chartData, chartOptions);
+      ...chart.options,
+      objectName: chartObj.id
+    });
   }
 
   /**
@@ -421,10 +379,29 @@ export class PptxExporter {
   }
 
   /**
-   * Export a single slide
+   * Export a single slide.
+   * Text and tables that overflow their zone continue on additional slides,
+   * which repeat the slide's master elements.
+   */
+  public async exportSlide(slideData: Slide, masterElements: ResolvedMasterElement[] = []): Promise<void> {
+    for (const page of this.paginate(slideData, this.textFit)) {
+      await this.exportSlidePage(page, masterElements);
+    }
+  }
+
+  /**
+   * Fit overflowing text, then split overflowing tables
+   */
+  private paginate(slideData: Slide, textFit: TextFitOptions): Slide[] {
+    return fitSlideText(slideData, textFit).flatMap(paginateSlideTables);
+  }
+
+  /**
+   * Add one PowerPoint slide for a (paginated) slide
    */
-  public async exportSlide(slideData: Slide): Promise<void> {
+  private async exportSlidePage(slideData: Slide, masterElements: ResolvedMasterElement[]): Promise<void> {
     const slide = this.pptx.addSlide();
+    this.pages.push(slideData);
     
     // Set background if specified
     if (slideData.background) {
@@ -444,12 +421,16 @@ export class PptxExporter {
       (a, b) => (a.zIndex || 0) - (b.zIndex || 0)
     );
     
+    addPptxMasterElements(slide, masterElements, 'behind');
+
     // Process each object
     for (const obj of sortedObjects) {
       if (obj.visible !== false) {
         await this.processSlideObject(slide, obj);
       }
     }
+
+    addPptxMasterElements(slide, masterElements, 'front');
     
     // Add speaker notes if present
     if (slideData.notes) {
@@ -472,23 +453,33 @@ export class PptxExporter {
     
     // Sort slides by order
     const sortedSlides = [...slides].sort((a, b) => a.order - b.order);
+    const templateId = this.textFit.templateId || presentation.settings?.theme;
+    const pages = sortedSlides.flatMap(slide => this.paginate(slide, { ...this.textFit, templateId }));
+
+    // Template page numbers, logos and footers, numbered by exported slide
+    const masterElements = resolveDeckMasterElements(pages, {
+      templateId,
+      presentationTitle: presentation.title,
+      showSlideNumbers: presentation.settings?.showSlideNumbers,
+      colorSet: this.colorSet,
+    });
     
     // Process each slide
-    for (const slide of sortedSlides) {
-      await this.exportSlide(slide);
+    for (let i = 0; i < pages.length; i++) {
+      await this.exportSlidePage(pages[i], masterElements[i]);
     }
     
     // Generate the PowerPoint file
-    const blob = await this.pptx.write({ outputType: 'blob' });
-    return blob as Blob;
+    return this.save();
   }
 
   /**
    * Save presentation to blob (for use with exportSlide calls)
    */
   public async save(): Promise<Blob> {
-    const blob = await this.pptx.write({ outputType: 'blob' });
-    return blob as Blob;
+    // Transitions and animations are written into the generated package
+    const data = await this.pptx.write({ outputType: 'arraybuffer' });
+    return applyPptxAnimations(data as ArrayBuffer, this.pages, 'blob');
   }
 
   /**
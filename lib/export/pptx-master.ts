@@ -0,0 +1,98 @@
+import type PptxGenJS from 'pptxgenjs';
+import { ResolvedMasterElement } from '@/lib/templates/master-elements';
+
+/**
+ * PowerPoint master element builder
+ * Converts resolved master elements (page numbers, logos, footers,
+ * watermarks) into positioned pptxgenjs text and image options. Shared by
+ * the client exporter and the /api/export/powerpoint route so numbering
+ * matches the editor and PDF.
+ */
+
+export type PptxMasterSpec =
+  | { kind: 'text'; text: string; options: PptxGenJS.TextPropsOptions }
+  | { kind: 'image'; options: PptxGenJS.ImageProps };
+
+// Canvas pixels are 1/96 inch; points are 1/72 inch
+const PX_TO_PT = 72 / 96;
+const PX_TO_IN = 1 / 96;
+
+function toPptxColor(color: string): string {
+  return color.replace('#', '').slice(0, 6).toUpperCase();
+}
+
+// PowerPoint takes a single font face; use the first of a CSS font stack
+function firstFontFace(fontFamily: string): string {
+  return fontFamily.split(',')[0].replace(/["']/g, '').trim();
+}
+
+/**
+ * Build pptxgenjs specs for a slide's resolved master elements
+ */
+export function buildPptxMasterElements(elements: ResolvedMasterElement[]): PptxMasterSpec[] {
+  return elements.map(element => {
+    const { coordinates } = element;
+    const position = {
+      x: coordinates.x * PX_TO_IN,
+      y: coordinates.y * PX_TO_IN,
+      w: coordinates.width * PX_TO_IN,
+      h: coordinates.height * PX_TO_IN,
+    };
+    const transparency = Math.round((1 - element.opacity) * 100);
+
+    if (element.image) {
+      return {
+        kind: 'image' as const,
+        options: {
+          ...position,
+          path: element.image.url,
+          altText: element.type,
+          ...(element.image.fit !== 'fill' && {
+            sizing: { type: element.image.fit === 'cover' ? 'cover' : 'contain', w: position.w, h: position.h },
+          }),
+          ...(element.rotation && { rotate: element.rotation }),
+          ...(transparency > 0 && { transparency }),
+        } as PptxGenJS.ImageProps,
+      };
+    }
+
+    return {
+      kind: 'text' as const,
+      text: element.text || '',
+      options: {
+        ...position,
+        fontFace: firstFontFace(element.fontFamily),
+        fontSize: Math.round(element.fontSize * PX_TO_PT),
+        bold: element.fontWeight >= 600,
+        italic: element.fontStyle === 'italic',
+        color: toPptxColor(element.color),
+        align: element.align,
+        valign: 'middle',
+        margin: 0,
+        ...(element.rotation && { rotate: element.rotation }),
+        ...(transparency > 0 && { transparency }),
+      },
+    };
+  });
+}
+
+/**
+ * Add one layer of master elements to a pptxgenjs slide. Shapes added later
+ * stack on top, so call with 'behind' (watermarks) before the slide objects
+ * and with 'front' (everything else) after them.
+ */
+export function addPptxMasterElements(
+  slide: PptxGenJS.Slide,
+  elements: ResolvedMasterElement[],
+  layer: 'behind' | 'front'
+): void {
+  const layerElements = elements.filter(element => (element.type === 'watermark') === (layer === 'behind'));
+
+  buildPptxMasterElements(layerElements).forEach(spec => {
+    if (spec.kind === 'image') {
+      slide.addImage(spec.options);
+    } else {
+      slide.addText(spec.text, spec.options);
+    }
+  });
+}
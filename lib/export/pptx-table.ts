@@ -0,0 +1,118 @@
+import type PptxGenJS from 'pptxgenjs';
+import { TableObject } from '@/lib/models/slide';
+import { ColorSet, DEFAULT_COLOR_SET, resolveColor } from '@/lib/models/colors';
+import {
+  DEFAULT_TABLE_STYLES,
+  TABLE_METRICS,
+  estimateRowHeight,
+  getColumnAlignment,
+  getColumnCount,
+  getMergeAt,
+  isCellCovered,
+} from '@/lib/models/table';
+
+/**
+ * Native PowerPoint table builder
+ * Converts a TableObject (headers, merged cells, column alignment, color roles)
+ * into pptxgenjs rows and options. Shared by the client exporter and the
+ * /api/export/powerpoint route. Overflow is handled beforehand by
+ * paginateSlideTables, so autoPage stays off.
+ */
+
+export interface PptxTableSpec {
+  rows: PptxGenJS.TableRow[];
+  options: PptxGenJS.TableProps;       // Excludes position (x, y, w, h)
+}
+
+// Canvas pixels are 1/96 inch; points are 1/72 inch
+const PX_TO_PT = 72 / 96;
+const PX_TO_IN = 1 / 96;
+
+function toPptxColor(color: string): string {
+  return color.replace('#', '').slice(0, 6).toUpperCase();
+}
+
+/**
+ * Build native table rows and options for a table object
+ */
+export function buildPptxTable(
+  tableObj: TableObject,
+  colorSet: ColorSet = DEFAULT_COLOR_SET
+): PptxTableSpec {
+  const styles = { ...DEFAULT_TABLE_STYLES, ...tableObj.styles };
+  const columnCount = getColumnCount(tableObj);
+  const width = tableObj.coordinates.width;
+
+  const headerFill = toPptxColor(resolveColor(styles.headerBackground, colorSet));
+  const headerColor = toPptxColor(resolveColor(styles.headerText, colorSet));
+  const cellFill = toPptxColor(resolveColor(styles.cellBackground, colorSet));
+  const cellColor = toPptxColor(resolveColor(styles.cellText, colorSet));
+
+  const fontSize = Math.round(TABLE_METRICS.fontSize * PX_TO_PT);
+  const margin: [number, number, number, number] = [
+    TABLE_METRICS.cellPaddingY * PX_TO_PT,
+    TABLE_METRICS.cellPaddingX * PX_TO_PT,
+    TABLE_METRICS.cellPaddingY * PX_TO_PT,
+    TABLE_METRICS.cellPaddingX * PX_TO_PT,
+  ];
+
+  const rows: PptxGenJS.TableRow[] = [];
+  const rowHeights: number[] = [];
+
+  // Header row
+  if (tableObj.headers && tableObj.headers.length > 0) {
+    const headers = Array.from({ length: columnCount }, (_, i) => tableObj.headers?.[i] ?? '');
+    rows.push(headers.map((header, col) => ({
+      text: String(header),
+      options: {
+        bold: true,
+        fontSize,
+        margin,
+        valign: 'middle',
+        align: getColumnAlignment(tableObj, col),
+        fill: { color: headerFill },
+        color: headerColor,
+      },
+    })));
+    rowHeights.push(estimateRowHeight(headers, width, columnCount) * PX_TO_IN);
+  }
+
+  // Body rows; cells covered by a merge are omitted
+  tableObj.data.forEach((row, rowIndex) => {
+    const cells: PptxGenJS.TableCell[] = [];
+    for (let col = 0; col < columnCount; col++) {
+      if (isCellCovered(tableObj, rowIndex, col)) {
+        continue;
+      }
+      const merge = getMergeAt(tableObj, rowIndex, col);
+      cells.push({
+        text: String(row[col] ?? ''),
+        options: {
+          fontSize,
+          margin,
+          valign: 'middle',
+          align: getColumnAlignment(tableObj, col),
+          fill: { color: cellFill },
+          color: cellColor,
+          colspan: merge && merge.colSpan > 1 ? merge.colSpan : undefined,
+          rowspan: merge && merge.rowSpan > 1 ? merge.rowSpan : undefined,
+        },
+      });
+    }
+    rows.push(cells);
+    rowHeights.push(estimateRowHeight(row, width, columnCount) * PX_TO_IN);
+  });
+
+  const options: PptxGenJS.TableProps = {
+    border: styles.borderWidth > 0 ? {
+      type: 'solid',
+      pt: styles.borderWidth,
+      color: toPptxColor(resolveColor(styles.borderColor, colorSet)),
+    } : { type: 'none' },
+    autoPage: false,
+    colW: Array(Math.max(1, columnCount)).fill((width * PX_TO_IN) / Math.max(1, columnCount)),
+    rowH: rowHeights,
+  };
+
+  return { rows, options };
+}
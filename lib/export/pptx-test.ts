@@ -422,8 +422,8 @@ export class PptxExportTest {
         chartType: 'bar',
         coordinates: { x: 100, y: 200, width: 800, height: 500 },
         data: {
-          labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'],
-          values: [10, 20, 15, 25, 30, 35]
+          categories: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'],
+          series: [{ name: 'Revenue', values: [10, 20, 15, 25, 30, 35] }]
         }
       } as ChartObject,
       
@@ -433,8 +433,8 @@ export class PptxExportTest {
         chartType: 'pie',
         coordinates: { x: 1020, y: 200, width: 500, height: 500 },
         data: {
-          labels: ['Category A', 'Category B', 'Category C', 'Category D'],
-          values: [30, 25, 20, 25]
+          categories: ['Category A', 'Category B', 'Category C', 'Category D'],
+          series: [{ name: 'Share', values: [30, 25, 20, 25] }]
         }
       } as ChartObject,
       
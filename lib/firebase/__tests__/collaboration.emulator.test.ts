@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+// Co-editing against the Firestore and Auth emulators, with the real rules:
+//   firebase emulators:exec --only firestore,auth "npx jest collaboration.emulator"
+// (see TESTING_GUIDE.md)
+// Skipped when the emulators aren't running.
+
+jest.unmock('firebase/app')
+jest.unmock('firebase/auth')
+jest.unmock('firebase/firestore')
+jest.unmock('firebase/storage')
+
+const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST
+const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST
+const describeEmulator = firestoreHost && authHost ? describe : describe.skip
+
+describeEmulator('Collaboration (emulator)', () => {
+  let firestore: typeof import('firebase/firestore')
+  let config: typeof import('../config')
+  let collaboration: typeof import('../collaboration')
+  let uid: string
+  let presentationId: string
+
+  const text = (id: string, content: string) => ({ id, type: 'text', content, coordinates: { x: 0, y: 0, width: 100, height: 50 } })
+
+  const readSlides = async () => {
+    const snapshot = await firestore.getDoc(firestore.doc(config.db, 'presentations', presentationId))
+    return snapshot.data() as { slides: { id: string; objects: { id: string; content: string }[] }[]; revision: number }
+  }
+
+  beforeAll(async () => {
+    process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST = firestoreHost
+    process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST = authHost
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-phoenix'
+    firestore = await import('firebase/firestore')
+    config = await import('../config')
+    collaboration = await import('../collaboration')
+    const { signInAnonymously } = await import('firebase/auth')
+    uid = (await signInAnonymously(config.auth)).user.uid
+  })
+
+  beforeEach(async () => {
+    presentationId = `collab-${Date.now()}-${Math.round(Math.random() * 1e6)}`
+    await firestore.setDoc(firestore.doc(config.db, 'presentations', presentationId), {
+      userId: uid,
+      revision: 0,
+      metadata: { title: 'Co-editing', slideCount: 2 },
+      slides: [
+        { id: 's1', order: 0, type: 'content', objects: [text('a', 'A'), text('b', 'B')] },
+        { id: 's2', order: 1, type: 'content', objects: [text('c', 'C')] },
+      ],
+    })
+  })
+
+  it('should keep concurrent edits to different objects', async () => {
+    const revisions = await Promise.all([
+      collaboration.applySlideOperations(presentationId, [
+        { type: 'updateObject', slideId: 's1', objectId: 'a', changes: { content: 'First' } },
+      ]),
+      collaboration.applySlideOperations(presentationId, [
+        { type: 'updateObject', slideId: 's1', objectId: 'b', changes: { content: 'Second' } },
+      ]),
+    ])
+
+    const { slides, revision } = await readSlides()
+    expect(slides[0].objects.map(obj => obj.content)).toEqual(['First', 'Second'])
+    expect(revisions.sort()).toEqual([1, 2])
+    expect(revision).toBe(2)
+  })
+
+  it('should keep the later write to the same field and drop edits to removed slides', async () => {
+    await collaboration.applySlideOperations(presentationId, [
+      { type: 'updateObject', slideId: 's1', objectId: 'a', changes: { content: 'Earlier' } },
+    ])
+    await collaboration.applySlideOperations(presentationId, [
+      { type: 'updateObject', slideId: 's1', objectId: 'a', changes: { content: 'Later' } },
+      { type: 'removeSlide', slideId: 's2' },
+    ])
+    await collaboration.applySlideOperations(presentationId, [
+      { type: 'updateObject', slideId: 's2', objectId: 'c', changes: { content: 'Lost' } },
+    ])
+
+    const { slides } = await readSlides()
+    expect(slides.map(slide => slide.id)).toEqual(['s1'])
+    expect(slides[0].objects[0].content).toBe('Later')
+  })
+
+  it('should share presence and only let users write their own', async () => {
+    const seen: string[][] = []
+    const unsubscribe = collaboration.subscribeToPresence(presentationId, presence => {
+      seen.push(presence.map(entry => entry.name))
+    })
+
+    const presence = { clientId: 'tab-1', userId: uid, name: 'Ada', color: '#e53935', slideId: 's1', objectIds: ['a'], lastSeen: Date.now() }
+    await collaboration.updatePresence(presentationId, presence)
+    await expect(
+      collaboration.updatePresence(presentationId, { ...presence, clientId: 'tab-2', userId: 'someone-else' })
+    ).rejects.toThrow()
+    await collaboration.removePresence(presentationId, 'tab-1')
+    await new Promise(resolve => setTimeout(resolve, 500))
+    unsubscribe()
+
+    expect(seen).toContainEqual(['Ada'])
+    expect(seen[seen.length - 1]).toEqual([])
+  })
+})
@@ -0,0 +1,62 @@
+import { deleteDoc, onSnapshot, runTransaction, updateDoc } from 'firebase/firestore'
+import { createLiveSession, subscribeToLiveCommands, updateLiveSession } from '../live-sessions'
+
+jest.mock('firebase/firestore')
+jest.mock('../config', () => ({
+  db: { type: 'firestore' },
+}))
+
+describe('Live Session Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(deleteDoc as jest.Mock).mockResolvedValue(undefined)
+  })
+
+  it('should retry join codes held by an active or ended session', async () => {
+    const set = jest.fn()
+    const update = jest.fn()
+    const taken = { exists: () => true, data: () => ({ active: true }) }
+    const ended = { exists: () => true, data: () => ({ active: false }) }
+    const free = { exists: () => false }
+    ;(runTransaction as jest.Mock)
+      .mockImplementationOnce((_db, run) => run({ get: jest.fn().mockResolvedValue(taken), set, update }))
+      .mockImplementationOnce((_db, run) => run({ get: jest.fn().mockResolvedValue(ended), set, update }))
+      .mockImplementationOnce((_db, run) => run({ get: jest.fn().mockResolvedValue(free), set, update }))
+
+    const { code, remoteKey } = await createLiveSession('p1', 'u1', 12)
+
+    expect(runTransaction).toHaveBeenCalledTimes(3)
+    expect(code).toHaveLength(6)
+    expect(set).toHaveBeenCalledTimes(2)
+    expect(set.mock.calls[0][1]).toMatchObject({ code, presentationId: 'p1', ownerId: 'u1', slideIndex: 0, active: true })
+    expect(set.mock.calls[1][1]).toEqual({ key: remoteKey })
+    expect(update.mock.calls[0][1]).toEqual({ liveCode: code })
+  })
+
+  it('should publish the position', async () => {
+    ;(updateDoc as jest.Mock).mockResolvedValue(undefined)
+
+    await updateLiveSession('ABCDEF', { slideIndex: 3, build: 1 })
+
+    expect((updateDoc as jest.Mock).mock.calls[0][1]).toMatchObject({ slideIndex: 3, build: 1 })
+  })
+
+  it('should apply each valid remote command once and clear it', () => {
+    const onCommand = jest.fn()
+    subscribeToLiveCommands('ABCDEF', onCommand)
+
+    const change = (type: string, command: unknown, ref: string) => ({ type, doc: { ref, data: () => ({ command }) } })
+    const onNext = (onSnapshot as jest.Mock).mock.calls[0][1]
+    onNext({
+      docChanges: () => [
+        change('added', { type: 'next' }, 'c1'),
+        change('added', { type: 'resetTimer' }, 'c2'),
+        change('removed', { type: 'next' }, 'c1'),
+      ],
+    })
+
+    expect(onCommand).toHaveBeenCalledTimes(1)
+    expect(onCommand).toHaveBeenCalledWith({ type: 'next' })
+    expect((deleteDoc as jest.Mock).mock.calls.map(call => call[0])).toEqual(['c1', 'c2'])
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * @jest-environment node
+ */
+// Presentation sharing rules (firestore.rules) against the Firestore and
+// Auth emulators, one Firebase app per user:
+//   firebase emulators:exec --only firestore,auth "npx jest sharing.rules.emulator"
+// (see TESTING_GUIDE.md)
+// Skipped when the emulators aren't running.
+
+jest.unmock('firebase/app')
+jest.unmock('firebase/auth')
+jest.unmock('firebase/firestore')
+
+import type { Firestore } from 'firebase/firestore'
+
+const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST
+const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST
+const describeEmulator = firestoreHost && authHost ? describe : describe.skip
+
+describeEmulator('Sharing rules (emulator)', () => {
+  const projectId = process.env.GCLOUD_PROJECT || 'demo-phoenix'
+  const run = Date.now()
+  let firestore: typeof import('firebase/firestore')
+  let users: Record<'owner' | 'editor' | 'viewer' | 'unverified' | 'stranger' | 'visitor', { uid: string; db: Firestore }>
+  let anonymous: Firestore
+  let presentationId: string
+
+  // A signed-in user in their own app; email users are verified through
+  // the Auth emulator's admin API unless told otherwise
+  const signIn = async (name: string, email?: string, verified = true) => {
+    const { initializeApp } = await import('firebase/app')
+    const auth = await import('firebase/auth')
+    const app = initializeApp({ apiKey: 'demo-key', projectId }, `${name}-${run}`)
+    const appAuth = auth.getAuth(app)
+    auth.connectAuthEmulator(appAuth, `http://${authHost}`, { disableWarnings: true })
+    const db = firestore.getFirestore(app)
+    const [host, port] = (firestoreHost as string).split(':')
+    firestore.connectFirestoreEmulator(db, host, Number(port))
+
+    const { user } = email
+      ? await auth.createUserWithEmailAndPassword(appAuth, email, 'password')
+      : await auth.signInAnonymously(appAuth)
+    if (email && verified) {
+      await fetch(`http://${authHost}/identitytoolkit.googleapis.com/v1/projects/${projectId}/accounts:update`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer owner' },
+        body: JSON.stringify({ localId: user.uid, emailVerified: true }),
+      })
+      await user.reload()
+      await user.getIdToken(true)
+    }
+    return { uid: user.uid, db }
+  }
+
+  const presentationRef = (db: Firestore, id = presentationId) => firestore.doc(db, 'presentations', id)
+  const linkRef = (db: Firestore) => firestore.doc(db, 'presentations', presentationId, 'private', 'link')
+  const grantRef = (db: Firestore, uid: string) => firestore.doc(db, 'presentations', presentationId, 'linkAccess', uid)
+  const memberRef = (db: Firestore, email: string) => firestore.doc(db, 'presentations', presentationId, 'members', email)
+
+  beforeAll(async () => {
+    firestore = await import('firebase/firestore')
+    users = {
+      owner: await signIn('owner', `owner-${run}@example.com`),
+      editor: await signIn('editor', `editor-${run}@example.com`),
+      viewer: await signIn('viewer', `viewer-${run}@example.com`),
+      unverified: await signIn('unverified', `unverified-${run}@example.com`, false),
+      stranger: await signIn('stranger', `stranger-${run}@example.com`),
+      visitor: await signIn('visitor'),
+    }
+    const { initializeApp } = await import('firebase/app')
+    anonymous = firestore.getFirestore(initializeApp({ apiKey: 'demo-key', projectId }, `signed-out-${run}`))
+    const [host, port] = (firestoreHost as string).split(':')
+    firestore.connectFirestoreEmulator(anonymous, host, Number(port))
+  })
+
+  beforeEach(async () => {
+    presentationId = `sharing-${Date.now()}-${Math.round(Math.random() * 1e6)}`
+    await firestore.setDoc(presentationRef(users.owner.db), {
+      metadata: { id: presentationId, title: 'Private', userId: users.owner.uid, isPublic: false },
+      slides: [],
+    })
+    const invites: [string, string][] = [['editor', 'editor'], ['viewer', 'viewer'], ['unverified', 'editor']]
+    for (const [name, role] of invites) {
+      const email = `${name}-${run}@example.com`
+      await firestore.setDoc(memberRef(users.owner.db, email), { email, role, invitedBy: users.owner.uid, invitedAt: new Date() })
+    }
+  })
+
+  it('should keep presentations from people they aren\'t shared with', async () => {
+    await expect(firestore.getDoc(presentationRef(users.stranger.db))).rejects.toThrow()
+    await expect(firestore.getDoc(presentationRef(users.unverified.db))).rejects.toThrow()
+    await expect(firestore.getDoc(presentationRef(anonymous))).rejects.toThrow()
+    await expect(firestore.updateDoc(presentationRef(users.stranger.db), { 'metadata.title': 'Mine' })).rejects.toThrow()
+    await expect(firestore.deleteDoc(presentationRef(users.stranger.db))).rejects.toThrow()
+  })
+
+  it('should let editors edit but not share or delete', async () => {
+    await firestore.updateDoc(presentationRef(users.editor.db), { 'metadata.title': 'Edited', slides: [{ id: 's1' }] })
+
+    await expect(firestore.updateDoc(presentationRef(users.editor.db), { 'metadata.isPublic': true })).rejects.toThrow()
+    await expect(firestore.setDoc(memberRef(users.editor.db, `stranger-${run}@example.com`), {
+      email: `stranger-${run}@example.com`, role: 'editor', invitedBy: users.editor.uid, invitedAt: new Date(),
+    })).rejects.toThrow()
+    await expect(firestore.updateDoc(presentationRef(users.editor.db), { 'metadata.userId': users.editor.uid })).rejects.toThrow()
+    await expect(firestore.deleteDoc(presentationRef(users.editor.db))).rejects.toThrow()
+    await expect(firestore.setDoc(linkRef(users.editor.db), { token: 't', role: 'viewer', expiresAt: null, createdBy: users.editor.uid })).rejects.toThrow()
+    expect((await firestore.getDoc(presentationRef(users.owner.db))).data()?.metadata.title).toBe('Edited')
+  })
+
+  it('should let viewers read but not write', async () => {
+    expect((await firestore.getDoc(presentationRef(users.viewer.db))).exists()).toBe(true)
+
+    await expect(firestore.updateDoc(presentationRef(users.viewer.db), { 'metadata.title': 'Viewer' })).rejects.toThrow()
+    await expect(firestore.getDoc(linkRef(users.viewer.db))).rejects.toThrow()
+  })
+
+  it('should admit share link holders only while the link is current', async () => {
+    const { visitor } = users
+    await firestore.setDoc(linkRef(users.owner.db), { token: 'token-1', role: 'viewer', expiresAt: null, createdBy: users.owner.uid })
+
+    await expect(firestore.setDoc(grantRef(visitor.db, visitor.uid), { token: 'guess' })).rejects.toThrow()
+    await expect(firestore.getDoc(presentationRef(visitor.db))).rejects.toThrow()
+
+    await firestore.setDoc(grantRef(visitor.db, visitor.uid), { token: 'token-1' })
+    expect((await firestore.getDoc(presentationRef(visitor.db))).exists()).toBe(true)
+    expect((await firestore.getDoc(linkRef(visitor.db))).data()?.role).toBe('viewer')
+    await expect(firestore.updateDoc(presentationRef(visitor.db), { 'metadata.title': 'Visitor' })).rejects.toThrow()
+
+    // Resetting the link cuts off everyone who opened the old one
+    await firestore.setDoc(linkRef(users.owner.db), { token: 'token-2', role: 'viewer', expiresAt: null, createdBy: users.owner.uid })
+    await expect(firestore.getDoc(presentationRef(visitor.db))).rejects.toThrow()
+
+    // ...and so does expiry
+    await firestore.setDoc(grantRef(visitor.db, visitor.uid), { token: 'token-2' })
+    await firestore.setDoc(linkRef(users.owner.db), {
+      token: 'token-2', role: 'viewer', expiresAt: firestore.Timestamp.fromMillis(Date.now() - 1000), createdBy: users.owner.uid,
+    })
+    await expect(firestore.getDoc(presentationRef(visitor.db))).rejects.toThrow()
+    await expect(firestore.setDoc(grantRef(visitor.db, visitor.uid), { token: 'token-2' })).rejects.toThrow()
+  })
+
+  it('should let people who can comment add, resolve and delete comments', async () => {
+    const commentRef = (db: Firestore, commentId: string) => firestore.doc(db, 'presentations', presentationId, 'comments', commentId)
+    const newComment = (authorId: string, extra: Record<string, unknown> = {}) => ({
+      threadId: 'c1', slideId: 's1', objectId: null, authorId, authorName: 'Someone', authorEmail: null,
+      body: 'Hmm', mentions: [], createdAt: firestore.serverTimestamp(), resolved: false, ...extra,
+    })
+
+    await firestore.setDoc(commentRef(users.editor.db, 'c1'), newComment(users.editor.uid))
+    await expect(firestore.setDoc(commentRef(users.viewer.db, 'c2'), newComment(users.viewer.uid))).rejects.toThrow()
+    await expect(firestore.setDoc(commentRef(users.editor.db, 'c3'), newComment(users.owner.uid))).rejects.toThrow()
+    expect((await firestore.getDoc(commentRef(users.viewer.db, 'c1'))).data()?.body).toBe('Hmm')
+    await expect(firestore.getDoc(commentRef(users.stranger.db, 'c1'))).rejects.toThrow()
+
+    // The owner resolves the thread but can't rewrite the comment
+    await firestore.updateDoc(commentRef(users.owner.db, 'c1'), { resolved: true, resolvedBy: 'Owner', resolvedAt: firestore.serverTimestamp() })
+    await expect(firestore.updateDoc(commentRef(users.owner.db, 'c1'), { body: 'Fine' })).rejects.toThrow()
+    await expect(firestore.updateDoc(commentRef(users.viewer.db, 'c1'), { resolved: false })).rejects.toThrow()
+    await firestore.updateDoc(commentRef(users.editor.db, 'c1'), { body: 'Fixed', editedAt: firestore.serverTimestamp() })
+
+    // Comments turned off
+    await firestore.updateDoc(presentationRef(users.owner.db), { 'settings.allowComments': false })
+    await expect(firestore.setDoc(commentRef(users.editor.db, 'c4'), newComment(users.editor.uid, { threadId: 'c4' }))).rejects.toThrow()
+
+    await expect(firestore.deleteDoc(commentRef(users.viewer.db, 'c1'))).rejects.toThrow()
+    await firestore.deleteDoc(commentRef(users.owner.db, 'c1'))
+  })
+
+  it('should keep version history to editors', async () => {
+    const versionRef = (db: Firestore, versionId: string) => firestore.doc(db, 'presentations', presentationId, 'versions', versionId)
+    const version = (createdBy: string, auto: boolean) => ({
+      auto, title: 'Private', slides: [], slideCount: 0, revision: 0, createdBy, createdAt: firestore.serverTimestamp(),
+    })
+
+    await firestore.setDoc(versionRef(users.editor.db, 'v1'), version(users.editor.uid, true))
+    await firestore.setDoc(versionRef(users.owner.db, 'v2'), version(users.owner.uid, false))
+    await expect(firestore.setDoc(versionRef(users.viewer.db, 'v3'), version(users.viewer.uid, false))).rejects.toThrow()
+    await expect(firestore.setDoc(versionRef(users.editor.db, 'v4'), version(users.owner.uid, false))).rejects.toThrow()
+    await expect(firestore.getDoc(versionRef(users.viewer.db, 'v1'))).rejects.toThrow()
+
+    // Names change, copies don't
+    await firestore.updateDoc(versionRef(users.editor.db, 'v1'), { name: 'Kept', auto: false })
+    await expect(firestore.updateDoc(versionRef(users.editor.db, 'v1'), { slides: [{ id: 'x' }] })).rejects.toThrow()
+
+    // Editors delete automatic versions and their own; the owner's stay
+    await expect(firestore.deleteDoc(versionRef(users.editor.db, 'v2'))).rejects.toThrow()
+    await firestore.deleteDoc(versionRef(users.editor.db, 'v1'))
+    await firestore.deleteDoc(versionRef(users.owner.db, 'v2'))
+  })
+
+  it('should show public presentations to everyone, signed in or not', async () => {
+    await firestore.updateDoc(presentationRef(users.owner.db), { 'metadata.isPublic': true })
+
+    expect((await firestore.getDoc(presentationRef(anonymous))).exists()).toBe(true)
+    expect((await firestore.getDoc(presentationRef(users.stranger.db))).exists()).toBe(true)
+    await expect(firestore.updateDoc(presentationRef(users.stranger.db), { 'metadata.title': 'Stranger' })).rejects.toThrow()
+
+    const publicPresentations = await firestore.getDocs(firestore.query(
+      firestore.collection(anonymous, 'presentations'),
+      firestore.where('metadata.isPublic', '==', true)
+    ))
+    expect(publicPresentations.docs.map(snapshot => snapshot.id)).toContain(presentationId)
+  })
+
+  it('should only answer queries for own, shared or public presentations', async () => {
+    const presentations = (db: Firestore) => firestore.collection(db, 'presentations')
+
+    const shared = await firestore.getDocs(firestore.query(
+      firestore.collectionGroup(users.viewer.db, 'members'),
+      firestore.where('email', '==', `viewer-${run}@example.com`)
+    ))
+    const owned = await firestore.getDocs(firestore.query(
+      presentations(users.owner.db),
+      firestore.where('metadata.userId', '==', users.owner.uid)
+    ))
+
+    expect(shared.docs.map(snapshot => snapshot.ref.parent.parent?.id)).toContain(presentationId)
+    expect(owned.docs.map(snapshot => snapshot.id)).toContain(presentationId)
+    await expect(firestore.getDocs(presentations(users.stranger.db))).rejects.toThrow()
+    await expect(firestore.getDocs(firestore.query(
+      firestore.collectionGroup(users.stranger.db, 'members'),
+      firestore.where('email', '==', `viewer-${run}@example.com`)
+    ))).rejects.toThrow()
+  })
+
+  it('should let owners and editors, not viewers, present live', async () => {
+    const startLive = async (user: { uid: string; db: Firestore }, code: string) => {
+      const batch = firestore.writeBatch(user.db)
+      batch.set(firestore.doc(user.db, 'liveSessions', code), { code, presentationId, ownerId: user.uid, active: true })
+      batch.update(presentationRef(user.db), { liveCode: code })
+      await batch.commit()
+    }
+    const code = `E${run}`
+
+    await startLive(users.editor, code)
+    await expect(startLive(users.viewer, `V${run}`)).rejects.toThrow()
+
+    // Followers open a session by its code, but can't look for others
+    expect((await firestore.getDoc(firestore.doc(anonymous, 'liveSessions', code))).data()?.presentationId).toBe(presentationId)
+    await expect(firestore.getDocs(firestore.collection(users.stranger.db, 'liveSessions'))).rejects.toThrow()
+  })
+
+  it('should show who it\'s shared with to the owner and collaborators only', async () => {
+    const members = (db: Firestore) => firestore.collection(db, 'presentations', presentationId, 'members')
+    await firestore.updateDoc(presentationRef(users.owner.db), { 'metadata.isPublic': true })
+
+    expect((await firestore.getDocs(members(users.owner.db))).size).toBe(3)
+    expect((await firestore.getDocs(members(users.editor.db))).size).toBe(3)
+    expect((await firestore.getDoc(memberRef(users.viewer.db, `viewer-${run}@example.com`))).data()?.role).toBe('viewer')
+
+    await expect(firestore.getDocs(members(users.viewer.db))).rejects.toThrow()
+    await expect(firestore.getDoc(memberRef(users.viewer.db, `editor-${run}@example.com`))).rejects.toThrow()
+    await expect(firestore.getDocs(members(anonymous))).rejects.toThrow()
+  })
+
+  it('should let the owner clear what others left on the presentation', async () => {
+    const { visitor, viewer } = users
+    const presenceRef = (db: Firestore) => firestore.doc(db, 'presentations', presentationId, 'presence', 'tab-1')
+    await firestore.setDoc(linkRef(users.owner.db), { token: 'token-1', role: 'viewer', expiresAt: null, createdBy: users.owner.uid })
+    await firestore.setDoc(grantRef(visitor.db, visitor.uid), { token: 'token-1' })
+    await firestore.setDoc(presenceRef(viewer.db), { userId: viewer.uid, clientId: 'tab-1' })
+
+    await expect(firestore.getDocs(firestore.collection(users.editor.db, 'presentations', presentationId, 'linkAccess'))).rejects.toThrow()
+    await expect(firestore.deleteDoc(presenceRef(users.editor.db))).rejects.toThrow()
+
+    expect((await firestore.getDocs(firestore.collection(users.owner.db, 'presentations', presentationId, 'linkAccess'))).size).toBe(1)
+    await firestore.deleteDoc(grantRef(users.owner.db, visitor.uid))
+    await firestore.deleteDoc(presenceRef(users.owner.db))
+  })
+})
@@ -0,0 +1,99 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+} from 'firebase/firestore';
+import { db } from './config';
+import { transformPresentationSlides } from './presentations';
+import { SlideOperation, applyOperations } from '@/lib/collab/operations';
+import { Collaborator } from '@/lib/collab/presence';
+import { AuthorizationError } from '@/lib/errors/handler';
+
+/**
+ * Co-editing documents
+ *
+ *   presentations/{id}                     slides and their revision
+ *   presentations/{id}/presence/{clientId} who is where (lib/collab/presence)
+ *
+ * Edits go in as operations (lib/collab/operations), applied to the latest
+ * slides in a transaction; everyone sees the result through the
+ * presentation snapshot.
+ */
+
+const PRESENTATIONS_COLLECTION = 'presentations';
+const PRESENCE_COLLECTION = 'presence';
+
+/**
+ * Apply operations to the latest slides; returns the revision that
+ * contains them
+ */
+export async function applySlideOperations(
+  presentationId: string,
+  operations: SlideOperation[]
+): Promise<number> {
+  try {
+    return await transformPresentationSlides(presentationId, (slides) => applyOperations(slides, operations));
+  } catch (error) {
+    console.error('Error applying slide operations:', error);
+    if (error instanceof AuthorizationError) {
+      throw error;
+    }
+    throw new Error('Failed to save changes');
+  }
+}
+
+/**
+ * Publish (or refresh) this client's presence
+ */
+export async function updatePresence(
+  presentationId: string,
+  presence: Collaborator
+): Promise<void> {
+  const { slideId, ...rest } = presence;
+  await setDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRESENCE_COLLECTION, presence.clientId), {
+    ...rest,
+    // Firestore has no undefined; null is "no slide"
+    slideId: slideId || null,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function removePresence(presentationId: string, clientId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRESENCE_COLLECTION, clientId));
+  } catch (error) {
+    // Stale entries expire on their own
+    console.error('Error removing presence:', error);
+  }
+}
+
+export function subscribeToPresence(
+  presentationId: string,
+  onChange: (presence: Collaborator[]) => void
+): () => void {
+  return onSnapshot(
+    collection(db, PRESENTATIONS_COLLECTION, presentationId, PRESENCE_COLLECTION),
+    (snapshot) => {
+      const presence: Collaborator[] = [];
+      snapshot.forEach((entry) => {
+        const data = entry.data();
+        presence.push({
+          clientId: entry.id,
+          userId: data.userId,
+          name: data.name,
+          color: data.color,
+          slideId: data.slideId || undefined,
+          objectIds: data.objectIds || [],
+          lastSeen: data.lastSeen || 0,
+        });
+      });
+      onChange(presence);
+    },
+    (error) => {
+      console.error('Presence subscription error:', error);
+    }
+  );
+}
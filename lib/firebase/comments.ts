@@ -0,0 +1,155 @@
+import { FirebaseError } from 'firebase/app';
+import {
+  Timestamp,
+  collection,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './config';
+import { SlideComment } from '@/lib/collab/comments';
+import { AuthorizationError } from '@/lib/errors/handler';
+
+/**
+ * Comment documents
+ *
+ *   presentations/{id}/comments/{commentId}   one per comment (lib/collab/comments)
+ *
+ * The rules let owners, editors and commenters write them; authors edit
+ * and delete their own, and anyone who can comment resolves threads.
+ */
+
+const PRESENTATIONS_COLLECTION = 'presentations';
+const COMMENTS_COLLECTION = 'comments';
+
+export type NewComment = Pick<SlideComment, 'slideId' | 'objectId' | 'authorId' | 'authorName' | 'authorEmail' | 'body' | 'mentions'> & {
+  threadId?: string;  // Replying; a new thread otherwise
+};
+
+function commentsCollection(presentationId: string) {
+  return collection(db, PRESENTATIONS_COLLECTION, presentationId, COMMENTS_COLLECTION);
+}
+
+// Rejected by the rules, or something else
+function commentError(error: unknown, message: string): Error {
+  if (error instanceof FirebaseError && error.code === 'permission-denied') {
+    return new AuthorizationError("You can't comment on this presentation");
+  }
+  return new Error(message);
+}
+
+function toMillis(value: unknown): number | undefined {
+  return value instanceof Timestamp ? value.toMillis() : undefined;
+}
+
+/**
+ * Add a comment; returns its id
+ */
+export async function addComment(presentationId: string, comment: NewComment): Promise<string> {
+  const ref = doc(commentsCollection(presentationId));
+  const { threadId, objectId, authorEmail, ...rest } = comment;
+
+  try {
+    await setDoc(ref, {
+      ...rest,
+      threadId: threadId || ref.id,
+      // Firestore has no undefined; null is "the whole slide"
+      objectId: objectId || null,
+      authorEmail: authorEmail || null,
+      createdAt: serverTimestamp(),
+      ...(threadId ? {} : { resolved: false }),
+    });
+    return ref.id;
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    throw commentError(error, 'Failed to add comment');
+  }
+}
+
+export async function editComment(
+  presentationId: string,
+  commentId: string,
+  changes: Pick<SlideComment, 'body' | 'mentions'>
+): Promise<void> {
+  try {
+    await updateDoc(doc(commentsCollection(presentationId), commentId), {
+      ...changes,
+      editedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    throw commentError(error, 'Failed to edit comment');
+  }
+}
+
+/**
+ * Resolve or reopen a thread
+ */
+export async function setThreadResolved(
+  presentationId: string,
+  threadId: string,
+  resolved: boolean,
+  resolvedBy: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(commentsCollection(presentationId), threadId), resolved
+      ? { resolved: true, resolvedBy, resolvedAt: serverTimestamp() }
+      : { resolved: false, resolvedBy: null, resolvedAt: null });
+  } catch (error) {
+    console.error('Error resolving comment thread:', error);
+    throw commentError(error, resolved ? 'Failed to resolve thread' : 'Failed to reopen thread');
+  }
+}
+
+/**
+ * Delete comments, e.g. a reply, or a whole thread
+ */
+export async function deleteComments(presentationId: string, commentIds: string[]): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    commentIds.forEach(commentId => batch.delete(doc(commentsCollection(presentationId), commentId)));
+    await batch.commit();
+  } catch (error) {
+    console.error('Error deleting comments:', error);
+    throw commentError(error, 'Failed to delete comment');
+  }
+}
+
+export function subscribeToComments(
+  presentationId: string,
+  onChange: (comments: SlideComment[]) => void
+): () => void {
+  return onSnapshot(
+    commentsCollection(presentationId),
+    (snapshot) => {
+      const comments: SlideComment[] = [];
+      snapshot.forEach((entry) => {
+        // Our own comments show right away, with the time estimated
+        const data = entry.data({ serverTimestamps: 'estimate' });
+        comments.push({
+          id: entry.id,
+          threadId: data.threadId,
+          slideId: data.slideId,
+          objectId: data.objectId || undefined,
+          authorId: data.authorId,
+          authorName: data.authorName,
+          authorEmail: data.authorEmail || undefined,
+          body: data.body,
+          mentions: data.mentions || [],
+          createdAt: toMillis(data.createdAt) || 0,
+          editedAt: toMillis(data.editedAt),
+          resolved: data.resolved,
+          resolvedBy: data.resolvedBy || undefined,
+          resolvedAt: toMillis(data.resolvedAt),
+        });
+      });
+      onChange(comments);
+    },
+    (error) => {
+      console.error('Comments subscription error:', error);
+    }
+  );
+}
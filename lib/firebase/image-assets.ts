@@ -0,0 +1,59 @@
+import { auth } from './config';
+
+/**
+ * Shared image assets, from the client
+ * Only the server writes imageAssets (lib/firebase/server-image-assets);
+ * the client asks it to through /api/presentations/[id]/image-assets.
+ * Failures are logged, not thrown: they only leave files behind or
+ * unreferenced.
+ */
+
+async function requestImageAssets(
+  presentationId: string,
+  method: 'POST' | 'DELETE'
+): Promise<Record<string, number>> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) {
+    return {};
+  }
+
+  const response = await fetch(`/api/presentations/${encodeURIComponent(presentationId)}/image-assets`, {
+    method,
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed with ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Have a copied presentation reference the images its slides use, so
+ * deleting the original leaves them. Returns the number of assets
+ * referenced.
+ */
+export async function referencePresentationImageAssets(presentationId: string): Promise<number> {
+  try {
+    const result = await requestImageAssets(presentationId, 'POST');
+    return result.referenced || 0;
+  } catch (error) {
+    console.error('Error referencing presentation image assets:', error);
+    return 0;
+  }
+}
+
+/**
+ * Have the server drop a deleted presentation's references and delete
+ * the images no other presentation uses. Returns the number of storage
+ * objects deleted.
+ */
+export async function releasePresentationImageAssets(presentationId: string): Promise<number> {
+  try {
+    const result = await requestImageAssets(presentationId, 'DELETE');
+    return result.deleted || 0;
+  } catch (error) {
+    console.error('Error releasing presentation image assets:', error);
+    return 0;
+  }
+}
@@ -15,6 +15,7 @@ import {
   onSnapshot,
 } from 'firebase/firestore';
 import { db } from './config';
+import type { ImageAspectRatio } from '@/lib/server/image-providers/types';
 
 export interface ImageGenerationJob {
   id: string;
@@ -25,10 +26,15 @@ export interface ImageGenerationJob {
   description: string;
   style: string;
   fullPrompt?: string; // Complete prompt sent to Imagen (description + style)
+  negativePrompt?: string;
+  aspectRatio?: ImageAspectRatio; // Defaults to 16:9
+  seed?: number; // Fixed seed for reproducible variants
   status: 'pending' | 'processing' | 'completed' | 'failed';
   priority: number;
   imageUrls?: string[]; // Array of variant URLs
   heroIndex?: number; // Which variant is the hero
+  assetKey?: string; // Content key of the images (lib/models/image-assets)
+  attachedTo?: string; // Job generating the same images, while this one waits
   error?: string;
   createdAt: Timestamp | Date;
   startedAt?: Timestamp | Date;
@@ -49,8 +55,21 @@ export async function queueImageGeneration(
     
     // Clean up undefined fields to avoid Firestore errors
     const cleanJob = { ...job };
-    if (cleanJob.objectId === undefined) delete cleanJob.objectId;
-    if (cleanJob.imageIndex === undefined) delete cleanJob.imageIndex;
+    if (cleanJob.objectId === undefined) {
+      delete cleanJob.objectId;
+    }
+    if (cleanJob.imageIndex === undefined) {
+      delete cleanJob.imageIndex;
+    }
+    if (cleanJob.negativePrompt === undefined) {
+      delete cleanJob.negativePrompt;
+    }
+    if (cleanJob.aspectRatio === undefined) {
+      delete cleanJob.aspectRatio;
+    }
+    if (cleanJob.seed === undefined) {
+      delete cleanJob.seed;
+    }
     
     const jobDoc: ImageGenerationJob = {
       ...cleanJob,
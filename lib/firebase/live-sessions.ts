@@ -0,0 +1,207 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './config';
+import {
+  LiveSession,
+  RemoteCommand,
+  generateJoinCode,
+  generateRemoteKey,
+  isRemoteCommand,
+} from '@/lib/presenter/live';
+
+/**
+ * Live session documents
+ *
+ *   liveSessions/{code}                 public: presentation and position
+ *   liveSessions/{code}/private/remote  owner only: the remote key
+ *   liveSessions/{code}/commands/{id}   remote clicks, accepted by the
+ *                                       rules only with the remote key
+ */
+
+const LIVE_SESSIONS_COLLECTION = 'liveSessions';
+const MAX_CODE_ATTEMPTS = 5;
+
+function toDate(value: unknown): Date | undefined {
+  return value instanceof Timestamp ? value.toDate() : undefined;
+}
+
+/**
+ * Start a live session for a presentation under a fresh join code
+ */
+export async function createLiveSession(
+  presentationId: string,
+  ownerId: string,
+  slideCount: number
+): Promise<{ code: string; remoteKey: string }> {
+  try {
+    const remoteKey = generateRemoteKey();
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = generateJoinCode();
+      const sessionRef = doc(db, LIVE_SESSIONS_COLLECTION, code);
+
+      // Codes are short, so another session may already hold this one.
+      // Ended sessions keep theirs: they belong to their presenter, whose
+      // followers still see the session has ended
+      const created = await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(sessionRef);
+        if (existing.exists()) {
+          return false;
+        }
+
+        transaction.set(sessionRef, {
+          code,
+          presentationId,
+          ownerId,
+          slideIndex: 0,
+          build: 0,
+          slideCount,
+          active: true,
+          startedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(db, LIVE_SESSIONS_COLLECTION, code, 'private', 'remote'), { key: remoteKey });
+        // Lets followers read the presentation while the session runs
+        transaction.update(doc(db, 'presentations', presentationId), { liveCode: code });
+        return true;
+      });
+
+      if (created) {
+        return { code, remoteKey };
+      }
+    }
+
+    throw new Error('No free join code');
+  } catch (error) {
+    console.error('Error creating live session:', error);
+    throw new Error('Failed to start live session');
+  }
+}
+
+/**
+ * Publish the presenter's position
+ */
+export async function updateLiveSession(
+  code: string,
+  position: Pick<LiveSession, 'slideIndex' | 'build'> & Partial<Pick<LiveSession, 'slideCount'>>
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, LIVE_SESSIONS_COLLECTION, code), {
+      ...position,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating live session:', error);
+    throw new Error('Failed to update live session');
+  }
+}
+
+/**
+ * End a live session; followers see it has ended
+ */
+export async function endLiveSession(code: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, LIVE_SESSIONS_COLLECTION, code), {
+      active: false,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error ending live session:', error);
+    throw new Error('Failed to end live session');
+  }
+}
+
+/**
+ * Follow a live session (null when no session has the code)
+ */
+export function subscribeToLiveSession(
+  code: string,
+  onUpdate: (session: LiveSession | null) => void
+): () => void {
+  return onSnapshot(
+    doc(db, LIVE_SESSIONS_COLLECTION, code),
+    (snapshot) => {
+      if (!snapshot.exists()) {
+        onUpdate(null);
+        return;
+      }
+      const data = snapshot.data();
+      onUpdate({
+        ...data,
+        code: snapshot.id,
+        startedAt: toDate(data.startedAt),
+        updatedAt: toDate(data.updatedAt),
+      } as LiveSession);
+    },
+    (error) => {
+      console.error('Live session subscription error:', error);
+      onUpdate(null);
+    }
+  );
+}
+
+/**
+ * Send a click from a remote
+ */
+export async function sendLiveCommand(
+  code: string,
+  remoteKey: string,
+  command: RemoteCommand
+): Promise<void> {
+  try {
+    await addDoc(collection(db, LIVE_SESSIONS_COLLECTION, code, 'commands'), {
+      command,
+      key: remoteKey,
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error sending live command:', error);
+    throw new Error('Failed to send command');
+  }
+}
+
+/**
+ * Receive remote clicks in order (presenter only). Each command is
+ * deleted once handed over so it is applied exactly once.
+ */
+export function subscribeToLiveCommands(
+  code: string,
+  onCommand: (command: RemoteCommand) => void
+): () => void {
+  const commandsQuery = query(
+    collection(db, LIVE_SESSIONS_COLLECTION, code, 'commands'),
+    orderBy('createdAt')
+  );
+
+  return onSnapshot(
+    commandsQuery,
+    (snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        if (change.type !== 'added') {
+          return;
+        }
+        const { command } = change.doc.data();
+        if (isRemoteCommand(command)) {
+          onCommand(command);
+        }
+        deleteDoc(change.doc.ref).catch((error) => {
+          console.error('Error clearing live command:', error);
+        });
+      });
+    },
+    (error) => {
+      console.error('Live command subscription error:', error);
+    }
+  );
+}
@@ -0,0 +1,72 @@
+import { collection, doc, getDoc, getDocs, onSnapshot } from 'firebase/firestore';
+import { auth, db } from './config';
+import { PresentationAccessor, PresentationMember, normalizeEmail } from '@/lib/models/sharing';
+
+/**
+ * Member documents
+ *
+ *   presentations/{id}/members/{email}   an invite (lib/models/sharing),
+ *                                        by normalized email
+ *
+ * The rules let each member read their own invite, people who can
+ * comment list them all (to mention them) and only the owner write them.
+ */
+
+const PRESENTATIONS_COLLECTION = 'presentations';
+export const MEMBERS_COLLECTION = 'members';
+
+export function membersCollection(presentationId: string) {
+  return collection(db, PRESENTATIONS_COLLECTION, presentationId, MEMBERS_COLLECTION);
+}
+
+export function memberDocument(presentationId: string, email: string) {
+  return doc(db, PRESENTATIONS_COLLECTION, presentationId, MEMBERS_COLLECTION, normalizeEmail(email));
+}
+
+/**
+ * The signed-in user, as the rules see them, with their invite if any
+ */
+export async function currentAccessor(presentationId: string): Promise<PresentationAccessor> {
+  const user = auth.currentUser;
+  if (!user) {
+    return {};
+  }
+  const accessor: PresentationAccessor = { uid: user.uid, email: user.email, emailVerified: user.emailVerified };
+  if (user.email && user.emailVerified) {
+    try {
+      const member = await getDoc(memberDocument(presentationId, user.email));
+      accessor.member = member.exists() ? member.data() as PresentationMember : null;
+    } catch {
+      // Rejected by the rules: not invited
+    }
+  }
+  return accessor;
+}
+
+/**
+ * Who the presentation is shared with, for people who can mention them
+ * in comments; empty for everyone else
+ */
+export async function getMemberEmails(presentationId: string): Promise<string[]> {
+  try {
+    const snapshot = await getDocs(membersCollection(presentationId));
+    return snapshot.docs.map((member) => member.id).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Follow one member's invite (null when there is none or it can't be read)
+ */
+export function subscribeToMember(
+  presentationId: string,
+  email: string,
+  onUpdate: (member: PresentationMember | null) => void
+): () => void {
+  return onSnapshot(
+    memberDocument(presentationId, email),
+    (snapshot) => onUpdate(snapshot.exists() ? snapshot.data() as PresentationMember : null),
+    () => onUpdate(null)
+  );
+}
@@ -1,5 +1,6 @@
 import {
   collection,
+  collectionGroup,
   doc,
   setDoc,
   getDoc,
@@ -12,9 +13,39 @@ import {
   limit,
   serverTimestamp,
   Timestamp,
+  arrayUnion,
+  increment,
+  runTransaction,
+  writeBatch,
 } from 'firebase/firestore';
-import { db } from './config';
-import { Slide } from '@/lib/models/slide';
+import { auth, db } from './config';
+import { withoutUndefined } from './sanitize';
+import { MEMBERS_COLLECTION, currentAccessor, memberDocument, membersCollection } from './members';
+import { referencePresentationImageAssets, releasePresentationImageAssets } from './image-assets';
+import { pruneAutoVersions, versionAuthor, versionDocument, versionsCollection } from './versions';
+import { ImageObject, Slide } from '@/lib/models/slide';
+import { withSlideImage } from '@/lib/models/image-variants';
+import { createVersion, isAutoVersionDue } from '@/lib/models/versions';
+import { GenerationRun, canClaimGeneration, interruptedGeneration, isGenerationAbandoned } from '@/lib/models/generation';
+import {
+  LinkRole,
+  MemberRole,
+  PresentationAccessor,
+  PresentationMember,
+  PresentationRole,
+  PresentationSharing,
+  ShareLink,
+  generateShareToken,
+  hasRole,
+  isValidEmail,
+  normalizeEmail,
+  resolvePresentationRole,
+  withMember,
+  withoutMember,
+} from '@/lib/models/sharing';
+import { AuthorizationError, NotFoundError, ValidationError } from '@/lib/errors/handler';
+import type { PresentationGenerationRequest } from '@/lib/ai/presentation-stream';
+import type { PresentationOutline } from '@/lib/models/outline';
 
 export interface PresentationMetadata {
   id: string;
@@ -41,19 +72,79 @@ export interface PresentationSection {
   slides: any[]; // Using any for flexibility with AI-generated content
 }
 
+// Progress of a streamed generation (see hooks/usePresentationGeneration);
+// which client runs it is in lib/models/generation
+export interface PresentationGeneration extends GenerationRun {
+  request: PresentationGenerationRequest;
+  total?: number;      // Slides in the outline
+  completed?: number;  // Slides received so far
+  error?: string;
+}
+
 export interface PresentationDocument {
   metadata: PresentationMetadata;
   sections: PresentationSection[];
   slides?: Slide[]; // For converted slides
+  revision?: number; // Bumped by every slides write (see lib/collab)
+  generation?: PresentationGeneration;
+  outline?: PresentationOutline; // Outline-first generation plan
+  liveCode?: string; // Last live session; its followers can view while it runs
+  lastAutoVersionAt?: Timestamp; // Latest automatic version (see lib/models/versions)
   settings?: {
     theme?: string;
     colorScheme?: string;
     fontFamily?: string;
     animations?: boolean;
+    showSlideNumbers?: boolean;
+    allowComments?: boolean; // On unless turned off (see lib/collab/comments)
   };
 }
 
 const PRESENTATIONS_COLLECTION = 'presentations';
+const PRIVATE_COLLECTION = 'private';
+const LINK_ACCESS_COLLECTION = 'linkAccess';
+// Subcollections deleted with their presentation
+const PRESENTATION_SUBCOLLECTIONS = ['versions', 'comments', 'presence', LINK_ACCESS_COLLECTION, MEMBERS_COLLECTION];
+// Writes per batch, as Firestore allows
+const BATCH_LIMIT = 500;
+
+/**
+ * Access checks
+ * Firestore rules are the authority; these checks mirror them so callers
+ * get an AuthorizationError up front instead of a rejected write.
+ */
+
+// Share links never grant editing, so the presentation and invite decide
+function assertRole(
+  presentation: PresentationDocument,
+  minimum: 'editor' | 'owner',
+  accessor: PresentationAccessor
+): void {
+  if (!hasRole(resolvePresentationRole(presentation, accessor), minimum)) {
+    throw new AuthorizationError(
+      minimum === 'owner'
+        ? 'Only the owner can do this'
+        : 'You need edit access to change this presentation'
+    );
+  }
+}
+
+async function requireRole(presentationId: string, minimum: 'editor' | 'owner'): Promise<PresentationDocument> {
+  let snapshot;
+  try {
+    snapshot = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId));
+  } catch (error) {
+    // The rules reject reads by people it isn't shared with
+    console.error('Error checking presentation access:', error);
+    throw new AuthorizationError("You don't have access to this presentation");
+  }
+  if (!snapshot.exists()) {
+    throw new NotFoundError('Presentation');
+  }
+  const presentation = snapshot.data() as PresentationDocument;
+  assertRole(presentation, minimum, await currentAccessor(presentationId));
+  return presentation;
+}
 
 /**
  * Save a new presentation to Firestore
@@ -93,19 +184,25 @@ export async function savePresentation(
  * Get a presentation by ID
  */
 export async function getPresentation(
-  presentationId: string
+  presentationId: string,
+  options: { trackView?: boolean } = {}
 ): Promise<PresentationDocument | null> {
   try {
     const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
-      // Update last viewed timestamp
-      await updateDoc(docRef, {
-        'metadata.lastViewedAt': serverTimestamp(),
-      });
+      const presentation = docSnap.data() as PresentationDocument;
+
+      // Update last viewed timestamp (the owner's recent list sorts by it;
+      // nobody else may write it)
+      if (options.trackView !== false && auth.currentUser && presentation.metadata?.userId === auth.currentUser.uid) {
+        await updateDoc(docRef, {
+          'metadata.lastViewedAt': serverTimestamp(),
+        });
+      }
       
-      return docSnap.data() as PresentationDocument;
+      return presentation;
     }
     
     return null;
@@ -152,6 +249,9 @@ export async function updatePresentationMetadata(
   presentationId: string,
   updates: Partial<PresentationMetadata>
 ): Promise<void> {
+  // Making it public is sharing, which only the owner does
+  await requireRole(presentationId, updates.isPublic === undefined ? 'editor' : 'owner');
+
   try {
     const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
     
@@ -161,7 +261,7 @@ export async function updatePresentationMetadata(
 
     // Add metadata updates with proper nesting
     Object.entries(updates).forEach(([key, value]) => {
-      if (key !== 'id' && key !== 'createdAt') {
+      if (key !== 'id' && key !== 'createdAt' && key !== 'userId') {
         updateData[`metadata.${key}`] = value;
       }
     });
@@ -181,22 +281,227 @@ export async function updatePresentationSlides(
   presentationId: string,
   slides: Slide[]
 ): Promise<void> {
+  try {
+    // Like any slides write, so the slides it replaces get a version
+    await transformPresentationSlides(presentationId, () => slides);
+  } catch (error) {
+    console.error('Error updating presentation slides:', error);
+    if (error instanceof AuthorizationError) {
+      throw error;
+    }
+    throw new Error('Failed to update slides');
+  }
+}
+
+/**
+ * Change the slides as they are at write time: the transform runs in a
+ * transaction on the latest slides (again if someone else wrote first), so
+ * concurrent writers never overwrite each other. Returns the new revision.
+ *
+ * The slides being replaced are copied to an automatic version first when
+ * the last one is old enough (lib/models/versions).
+ */
+export async function transformPresentationSlides(
+  presentationId: string,
+  transform: (slides: Slide[]) => Slide[]
+): Promise<number> {
+  const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+  const accessor = await currentAccessor(presentationId);
+  let versioned = false;
+
+  const revision = await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists()) {
+      throw new Error('Presentation not found');
+    }
+
+    const data = snapshot.data() as PresentationDocument;
+    assertRole(data, 'editor', accessor);
+    const slides = transform(data.slides || []);
+    const revision = (data.revision || 0) + 1;
+
+    const lastAutoVersionAt = data.lastAutoVersionAt instanceof Timestamp ? data.lastAutoVersionAt.toMillis() : undefined;
+    const author = versionAuthor();
+    versioned = !!author && (data.slides || []).length > 0 && isAutoVersionDue(lastAutoVersionAt, Date.now());
+    if (author && versioned) {
+      transaction.set(doc(versionsCollection(presentationId)), versionDocument(createVersion(data, { auto: true, ...author })));
+    }
+
+    transaction.update(docRef, {
+      slides: withoutUndefined(slides),
+      revision,
+      'metadata.updatedAt': serverTimestamp(),
+      'metadata.slideCount': slides.length,
+      ...(versioned ? { lastAutoVersionAt: serverTimestamp() } : {}),
+    });
+    return revision;
+  });
+
+  if (versioned) {
+    // Only keeps the history short; the write already happened
+    pruneAutoVersions(presentationId).catch((error) => {
+      console.error('Error pruning automatic versions:', error);
+    });
+  }
+  return revision;
+}
+
+/**
+ * Append one slide, leaving edits to the others alone (used while a
+ * generation streams in)
+ */
+export async function appendPresentationSlide(
+  presentationId: string,
+  slide: Slide
+): Promise<void> {
+  await requireRole(presentationId, 'editor');
+
+  try {
+    const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+
+    await updateDoc(docRef, {
+      slides: arrayUnion(slide),
+      revision: increment(1),
+      'metadata.updatedAt': serverTimestamp(),
+      'metadata.slideCount': increment(1),
+    });
+  } catch (error) {
+    console.error('Error appending presentation slide:', error);
+    throw new Error('Failed to add slide');
+  }
+}
+
+/**
+ * Update presentation settings (theme/template, colors, fonts)
+ */
+export async function updatePresentationSettings(
+  presentationId: string,
+  updates: Partial<NonNullable<PresentationDocument['settings']>>
+): Promise<void> {
+  await requireRole(presentationId, 'editor');
+
   try {
     const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
     
+    const updateData: Record<string, unknown> = {
+      'metadata.updatedAt': serverTimestamp(),
+    };
+
+    Object.entries(updates).forEach(([key, value]) => {
+      updateData[`settings.${key}`] = value;
+    });
+
+    await updateDoc(docRef, updateData);
+  } catch (error) {
+    console.error('Error updating presentation settings:', error);
+    throw new Error('Failed to update presentation settings');
+  }
+}
+
+/**
+ * Save the outline of an outline-first generation
+ */
+export async function updatePresentationOutline(
+  presentationId: string,
+  outline: PresentationOutline
+): Promise<void> {
+  await requireRole(presentationId, 'editor');
+
+  try {
+    const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+
     await updateDoc(docRef, {
-      slides,
+      outline,
       'metadata.updatedAt': serverTimestamp(),
-      'metadata.slideCount': slides.length,
     });
+  } catch (error) {
+    console.error('Error updating presentation outline:', error);
+    throw new Error('Failed to update outline');
+  }
+}
 
-    // Presentation slides updated successfully
+/**
+ * Update the progress of a streamed generation
+ */
+export async function updatePresentationGeneration(
+  presentationId: string,
+  updates: Partial<PresentationGeneration>
+): Promise<void> {
+  await requireRole(presentationId, 'editor');
+
+  try {
+    const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+
+    const updateData: Record<string, unknown> = {};
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updateData[`generation.${key}`] = value;
+      }
+    });
+
+    await updateDoc(docRef, updateData);
   } catch (error) {
-    console.error('Error updating presentation slides:', error);
-    throw new Error('Failed to update slides');
+    console.error('Error updating presentation generation:', error);
+    throw new Error('Failed to update generation progress');
   }
 }
 
+/**
+ * Claim a pending generation for this client, so only one editor tab
+ * streams it. Returns false when another client got there first.
+ */
+export async function claimPresentationGeneration(
+  presentationId: string,
+  clientId: string
+): Promise<boolean> {
+  const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+  const accessor = await currentAccessor(presentationId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists()) {
+      throw new NotFoundError('Presentation');
+    }
+
+    const data = snapshot.data() as PresentationDocument;
+    assertRole(data, 'editor', accessor);
+    if (!canClaimGeneration(data.generation)) {
+      return false;
+    }
+    transaction.update(docRef, {
+      'generation.status': 'generating',
+      'generation.claimedBy': clientId,
+      'generation.heartbeatAt': Date.now(),
+    });
+    return true;
+  });
+}
+
+/**
+ * End a generation whose claimant stopped sending heartbeats. Returns
+ * false when it is still running (or already over).
+ */
+export async function interruptPresentationGeneration(presentationId: string): Promise<boolean> {
+  const docRef = doc(db, PRESENTATIONS_COLLECTION, presentationId);
+  const accessor = await currentAccessor(presentationId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists()) {
+      throw new NotFoundError('Presentation');
+    }
+
+    const data = snapshot.data() as PresentationDocument;
+    assertRole(data, 'editor', accessor);
+    if (!data.generation || !isGenerationAbandoned(data.generation, Date.now())) {
+      return false;
+    }
+    const { status, error } = interruptedGeneration(data.generation);
+    transaction.update(docRef, { 'generation.status': status, 'generation.error': error });
+    return true;
+  });
+}
+
 /**
  * Update a single slide in a presentation
  */
@@ -206,93 +511,63 @@ export async function updateSlide(
   slideUpdate: Partial<Slide>
 ): Promise<void> {
   try {
-    const presentation = await getPresentation(presentationId);
-    if (!presentation || !presentation.slides) {
-      throw new Error('Presentation not found');
-    }
-
-    const updatedSlides = [...presentation.slides];
-    updatedSlides[slideIndex] = {
-      ...updatedSlides[slideIndex],
-      ...slideUpdate,
-      updatedAt: new Date(),
-    };
-
-    await updatePresentationSlides(presentationId, updatedSlides);
+    await transformPresentationSlides(presentationId, (slides) => {
+      if (!slides[slideIndex]) {
+        throw new Error('Slide not found');
+      }
+      const updatedSlides = [...slides];
+      updatedSlides[slideIndex] = {
+        ...updatedSlides[slideIndex],
+        ...slideUpdate,
+        updatedAt: new Date(),
+      };
+      return updatedSlides;
+    });
   } catch (error) {
     console.error('Error updating slide:', error);
+    if (error instanceof AuthorizationError) {
+      throw error;
+    }
     throw new Error('Failed to update slide');
   }
 }
 
 /**
- * Update image in a slide
+ * Update image in a slide. Only the fields given change; generated images
+ * pass them all, the variant gallery just the ones it edits.
  */
 export async function updateSlideImage(
   presentationId: string,
   slideId: string,
-  imageData: {
-    src: string;
+  imageData: Partial<Pick<
+    ImageObject,
+    | 'src'
+    | 'variants'
+    | 'heroIndex'
+    | 'cycleOnPlayback'
+    | 'generatedAt'
+    | 'generationPrompt'
+    | 'generationStyle'
+    | 'generationDescription'
+    | 'generationHistory'
+  >> & {
     objectId?: string; // Specific object ID to update
     imageIndex?: number; // Specific index for multi-image slides
-    variants?: string[];
-    heroIndex?: number;
-    generatedAt?: Date;
-    generationPrompt?: string;
   }
 ): Promise<void> {
-  try {
-    const presentation = await getPresentation(presentationId);
-    if (!presentation || !presentation.slides) {
-      throw new Error('Presentation not found');
-    }
-
-    const updatedSlides = presentation.slides.map((slide: any) => {
-      if (slide.id === slideId) {
-        // Find and update the specific image object in the slide
-        let imageCounter = 0;
-        const updatedObjects = slide.objects?.map((obj: any) => {
-          if (obj.type !== 'image') {
-            return obj;
-          }
-          
-          const currentImageIndex = imageCounter++;
-          
-          // Match by either objectId or imageIndex for image objects
-          const shouldUpdate = (
-            (imageData.objectId && obj.id === imageData.objectId) ||
-            (imageData.imageIndex !== undefined && currentImageIndex === imageData.imageIndex) ||
-            // Fallback: if no objectId or imageIndex, update first empty image
-            (!imageData.objectId && imageData.imageIndex === undefined && !obj.src)
-          );
-
-          if (shouldUpdate) {
-            console.log(`✅ Updating image object ${obj.id} with new src:`, imageData.src.substring(0, 50) + '...');
-            return {
-              ...obj,
-              src: imageData.src,
-              variants: imageData.variants,
-              heroIndex: imageData.heroIndex || 0,
-              generatedAt: imageData.generatedAt,
-              generationPrompt: imageData.generationPrompt,
-            };
-          }
-          return obj;
-        });
+  const { objectId, imageIndex, ...updates } = imageData;
 
-        return {
-          ...slide,
-          objects: updatedObjects,
-          updatedAt: new Date(),
-        };
-      }
-      return slide;
-    });
-
-    await updatePresentationSlides(presentationId, updatedSlides);
+  try {
+    // In a transaction, so editors' changes to the slide are kept
+    await transformPresentationSlides(presentationId, (slides) =>
+      withSlideImage(slides, slideId, { objectId, imageIndex }, updates)
+    );
     // Updated slide with generated image
   } catch (error) {
     console.error('Error updating slide image:', error);
+    if (error instanceof AuthorizationError) {
+      throw error;
+    }
     throw new Error('Failed to update slide image');
   }
 }
@@ -300,16 +575,36 @@ export async function updateSlideImage(
 /**
  * Delete a presentation
  */
+async function deleteSubcollection(presentationId: string, name: string): Promise<void> {
+  const snapshot = await getDocs(collection(db, PRESENTATIONS_COLLECTION, presentationId, name));
+  for (let start = 0; start < snapshot.docs.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + BATCH_LIMIT).forEach(entry => batch.delete(entry.ref));
+    await batch.commit();
+  }
+}
+
 export async function deletePresentation(
   presentationId: string
 ): Promise<void> {
+  await requireRole(presentationId, 'owner');
+
   try {
+    // Subcollections and the share link go first; the rules check
+    // ownership on the presentation
+    for (const name of PRESENTATION_SUBCOLLECTIONS) {
+      await deleteSubcollection(presentationId, name);
+    }
+    await deleteDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRIVATE_COLLECTION, 'link'));
     await deleteDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId));
     // Presentation deleted successfully
   } catch (error) {
     console.error('Error deleting presentation:', error);
     throw new Error('Failed to delete presentation');
   }
+
+  // Images no other presentation uses go too; failures only leave files behind
+  await releasePresentationImageAssets(presentationId);
 }
 
 /**
@@ -402,27 +697,257 @@ export async function duplicatePresentation(
   newTitle: string,
   userId: string
 ): Promise<string> {
+  let newId: string;
   try {
     const original = await getPresentation(presentationId);
     if (!original) {
       throw new Error('Original presentation not found');
     }
 
+    // The copy is the new owner's alone; invites stay with the original
+    const { liveCode: _liveCode, ...copied } = original;
     const duplicate = {
-      ...original,
+      ...copied,
       metadata: {
         ...original.metadata,
         title: newTitle,
         userId,
+        isPublic: false,
         createdAt: serverTimestamp() as Timestamp,
         updatedAt: serverTimestamp() as Timestamp,
         lastViewedAt: undefined,
       },
     };
 
-    return await savePresentation(duplicate);
+    newId = await savePresentation(duplicate);
   } catch (error) {
     console.error('Error duplicating presentation:', error);
     throw new Error('Failed to duplicate presentation');
   }
-}
\ No newline at end of file
+
+  // The copy shares the original's images; deleting the original keeps them
+  await referencePresentationImageAssets(newId);
+  return newId;
+}
+
+/**
+ * What the signed-in user may do with a presentation; null without access.
+ * Pass the presentation when it's already loaded.
+ */
+export async function getPresentationRole(
+  presentationId: string,
+  presentation?: PresentationDocument
+): Promise<PresentationRole | null> {
+  const accessor = await currentAccessor(presentationId);
+  let data = presentation;
+  if (!data) {
+    try {
+      const snapshot = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId));
+      data = snapshot.exists() ? snapshot.data() as PresentationDocument : undefined;
+    } catch {
+      // Rejected by the rules
+      return null;
+    }
+  }
+  if (!data) {
+    return null;
+  }
+
+  const role = resolvePresentationRole(data, accessor);
+  if (role === 'owner' || role === 'editor' || !accessor.uid) {
+    return role;
+  }
+
+  // A redeemed share link may give more than the presentation does; the
+  // link is readable only while the redeemed token is current
+  try {
+    const grant = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, LINK_ACCESS_COLLECTION, accessor.uid));
+    if (!grant.exists()) {
+      return role;
+    }
+    const link = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRIVATE_COLLECTION, 'link'));
+    return resolvePresentationRole(
+      data,
+      { ...accessor, linkToken: grant.data().token },
+      link.exists() ? link.data() as ShareLink : null
+    );
+  } catch {
+    return role;
+  }
+}
+
+/**
+ * Presentations shared with an email address, newest first. Their
+ * invites are found by address; each presentation is then read on its own.
+ */
+export async function getSharedPresentations(
+  email: string,
+  limitCount: number = 20
+): Promise<PresentationDocument[]> {
+  try {
+    // Sorted by the presentations' dates once they're read
+    const invites = await getDocs(query(
+      collectionGroup(db, MEMBERS_COLLECTION),
+      where('email', '==', normalizeEmail(email)),
+      limit(limitCount)
+    ));
+
+    const snapshots = await Promise.all(invites.docs.map((invite) => {
+      const presentationRef = invite.ref.parent.parent;
+      return presentationRef ? getDoc(presentationRef).catch(() => null) : null;
+    }));
+    const presentations = snapshots
+      .filter((snapshot) => snapshot?.exists())
+      .map((snapshot) => snapshot?.data() as PresentationDocument);
+
+    const createdAt = (presentation: PresentationDocument) => {
+      const value = presentation.metadata.createdAt;
+      return value instanceof Timestamp ? value.toMillis() : new Date(value).getTime() || 0;
+    };
+    return presentations.sort((a, b) => createdAt(b) - createdAt(a));
+  } catch (error) {
+    console.error('Error getting shared presentations:', error);
+    return [];
+  }
+}
+
+async function loadSharing(presentationId: string): Promise<PresentationSharing> {
+  try {
+    const snapshot = await getDocs(membersCollection(presentationId));
+    return snapshot.docs.reduce<PresentationSharing>(
+      (sharing, member) => withMember(sharing, member.data() as PresentationMember),
+      { members: {} }
+    );
+  } catch (error) {
+    console.error('Error getting sharing:', error);
+    throw new Error('Failed to load who this is shared with');
+  }
+}
+
+/**
+ * Who the presentation is shared with, for the owner
+ */
+export async function getPresentationSharing(presentationId: string): Promise<PresentationSharing> {
+  await requireRole(presentationId, 'owner');
+  return loadSharing(presentationId);
+}
+
+/**
+ * Invite someone by email, or change their role. They get access when
+ * they sign in with that address, once it's verified.
+ */
+export async function sharePresentation(
+  presentationId: string,
+  email: string,
+  role: MemberRole
+): Promise<PresentationSharing> {
+  if (!isValidEmail(email)) {
+    throw new ValidationError(`"${email}" is not an email address`);
+  }
+  const presentation = await requireRole(presentationId, 'owner');
+  const sharing = await loadSharing(presentationId);
+
+  const member: PresentationMember = {
+    email: normalizeEmail(email),
+    role,
+    invitedBy: presentation.metadata.userId,
+    invitedAt: Timestamp.now(),
+  };
+  try {
+    await setDoc(memberDocument(presentationId, member.email), member);
+    return withMember(sharing, member);
+  } catch (error) {
+    console.error('Error updating sharing:', error);
+    throw new Error('Failed to update sharing');
+  }
+}
+
+export async function unsharePresentation(
+  presentationId: string,
+  email: string
+): Promise<PresentationSharing> {
+  await requireRole(presentationId, 'owner');
+  const sharing = await loadSharing(presentationId);
+
+  try {
+    await deleteDoc(memberDocument(presentationId, email));
+    return withoutMember(sharing, email);
+  } catch (error) {
+    console.error('Error updating sharing:', error);
+    throw new Error('Failed to update sharing');
+  }
+}
+
+/**
+ * The share link, for the owner; null when there is none
+ */
+export async function getShareLink(presentationId: string): Promise<ShareLink | null> {
+  await requireRole(presentationId, 'owner');
+
+  try {
+    const snapshot = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRIVATE_COLLECTION, 'link'));
+    return snapshot.exists() ? snapshot.data() as ShareLink : null;
+  } catch (error) {
+    console.error('Error getting share link:', error);
+    throw new Error('Failed to load share link');
+  }
+}
+
+/**
+ * Create the share link, or change its role and expiry. A new token
+ * (`rotate`) cuts off everyone who opened the old link.
+ */
+export async function saveShareLink(
+  presentationId: string,
+  options: { role: LinkRole; expiresAt: Date | null; rotate?: boolean }
+): Promise<ShareLink> {
+  const presentation = await requireRole(presentationId, 'owner');
+  const linkRef = doc(db, PRESENTATIONS_COLLECTION, presentationId, PRIVATE_COLLECTION, 'link');
+
+  try {
+    const existing = options.rotate ? null : await getDoc(linkRef);
+    const link: ShareLink = {
+      token: existing?.exists() ? (existing.data() as ShareLink).token : generateShareToken(),
+      role: options.role,
+      expiresAt: options.expiresAt ? Timestamp.fromDate(options.expiresAt) : null,
+      createdBy: presentation.metadata.userId,
+    };
+    await setDoc(linkRef, link);
+    return link;
+  } catch (error) {
+    console.error('Error saving share link:', error);
+    throw new Error('Failed to save share link');
+  }
+}
+
+export async function deleteShareLink(presentationId: string): Promise<void> {
+  await requireRole(presentationId, 'owner');
+
+  try {
+    await deleteDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, PRIVATE_COLLECTION, 'link'));
+  } catch (error) {
+    console.error('Error deleting share link:', error);
+    throw new Error('Failed to turn off share link');
+  }
+}
+
+/**
+ * Open a share link as the signed-in user (anonymous users too); the
+ * rules accept only the current, unexpired token
+ */
+export async function redeemShareLink(presentationId: string, token: string): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new AuthorizationError('Sign in to open shared links');
+  }
+
+  try {
+    await setDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId, LINK_ACCESS_COLLECTION, user.uid), {
+      token,
+      redeemedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error redeeming share link:', error);
+    throw new AuthorizationError('This link has expired or been turned off');
+  }
+}
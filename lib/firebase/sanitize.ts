@@ -0,0 +1,20 @@
+/**
+ * Firestore rejects undefined field values; drop them (deeply) before
+ * writing documents built from optional fields
+ */
+export function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(withoutUndefined) as unknown as T;
+  }
+  // Only plain objects: Dates, Timestamps and sentinels are written as they are
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const clean: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) {
+        clean[key] = withoutUndefined(field);
+      }
+    }
+    return clean as T;
+  }
+  return value;
+}
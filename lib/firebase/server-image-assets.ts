@@ -0,0 +1,158 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from './admin';
+import { deleteImageUrlServer } from './server-storage';
+import { withoutUndefined } from './sanitize';
+import {
+  ImageAsset,
+  ImageAssetJob,
+  ImageAssetStore,
+  claimImageAsset,
+  completeImageAsset,
+  failImageAsset,
+  referenceImageAsset,
+  releaseImageAsset,
+} from '@/lib/models/image-assets';
+
+/**
+ * Image asset documents
+ *
+ *   imageAssets/{key}  one per distinct image request (see
+ *                      lib/models/image-assets), with the presentations
+ *                      that use it
+ *
+ * Variants live under image-assets/{key}/{jobId}/ in storage, so a
+ * regenerated asset never overwrites files still being deleted.
+ *
+ * Assets are shared between everyone's presentations, so only the server
+ * writes them, through the Admin SDK; the rules keep clients out.
+ */
+
+const IMAGE_ASSETS_COLLECTION = 'imageAssets';
+
+function toDate(value: unknown): Date {
+  if (value instanceof Timestamp) {
+    return value.toDate();
+  }
+  return value instanceof Date ? value : new Date(0);
+}
+
+function fromFirestore(data: Record<string, unknown>): ImageAsset {
+  return {
+    ...(data as unknown as ImageAsset),
+    waiting: (data.waiting as ImageAssetJob[]) || [],
+    presentationIds: (data.presentationIds as string[]) || [],
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+/**
+ * Run a transition on one asset document; a null asset deletes it
+ */
+async function updateAsset<T>(
+  key: string,
+  transition: (asset: ImageAsset | null) => { asset: ImageAsset | null; result: T }
+): Promise<T> {
+  const assetRef = adminDb.collection(IMAGE_ASSETS_COLLECTION).doc(key);
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(assetRef);
+    const current = snapshot.exists ? fromFirestore(snapshot.data() as Record<string, unknown>) : null;
+    const { asset, result } = transition(current);
+    if (asset) {
+      transaction.set(assetRef, withoutUndefined(asset));
+    } else if (current) {
+      transaction.delete(assetRef);
+    }
+    return result;
+  });
+}
+
+export function getImageAssetStoragePath(key: string, jobId: string): string {
+  return `image-assets/${key}/${jobId}`;
+}
+
+export const firestoreImageAssetStore: ImageAssetStore = {
+  claim: (key, params, job) => updateAsset(key, (asset) => {
+    const { asset: claimed, claim } = claimImageAsset(asset, key, params, job, new Date());
+    return { asset: claimed, result: claim };
+  }),
+
+  complete: (key, imageUrls) => updateAsset(key, (asset) => {
+    if (!asset) {
+      return { asset: null, result: [] };
+    }
+    const { asset: ready, waiting } = completeImageAsset(asset, imageUrls, new Date());
+    return { asset: ready, result: waiting };
+  }),
+
+  fail: (key, error) => updateAsset(key, (asset) => {
+    if (!asset) {
+      return { asset: null, result: [] };
+    }
+    const { asset: failed, waiting } = failImageAsset(asset, error, new Date());
+    return { asset: failed, result: waiting };
+  }),
+};
+
+// Values Firestore takes in one array-contains-any filter
+const URL_QUERY_LIMIT = 30;
+
+/**
+ * Add a presentation to the assets whose images its slides use (a copied
+ * deck), so they stay until it's deleted too. Returns the number of
+ * assets referenced.
+ */
+export async function referencePresentationImageAssets(
+  presentationId: string,
+  imageUrls: string[]
+): Promise<number> {
+  const assetKeys = new Set<string>();
+  for (let i = 0; i < imageUrls.length; i += URL_QUERY_LIMIT) {
+    const snapshot = await adminDb.collection(IMAGE_ASSETS_COLLECTION)
+      .where('imageUrls', 'array-contains-any', imageUrls.slice(i, i + URL_QUERY_LIMIT))
+      .get();
+    snapshot.docs.forEach(assetDoc => assetKeys.add(assetDoc.id));
+  }
+
+  for (const key of Array.from(assetKeys)) {
+    await updateAsset(key, (asset) => ({
+      asset: asset && referenceImageAsset(asset, presentationId, new Date()),
+      result: undefined,
+    }));
+  }
+  return assetKeys.size;
+}
+
+/**
+ * Drop a deleted presentation's references and delete the images no other
+ * presentation uses. Returns the number of storage objects deleted;
+ * failures are logged, not thrown.
+ */
+export async function releasePresentationImageAssets(presentationId: string): Promise<number> {
+  try {
+    const snapshot = await adminDb.collection(IMAGE_ASSETS_COLLECTION)
+      .where('presentationIds', 'array-contains', presentationId)
+      .get();
+
+    let deleted = 0;
+    for (const assetDoc of snapshot.docs) {
+      const orphanedUrls = await updateAsset(assetDoc.id, (asset) => {
+        if (!asset) {
+          return { asset: null, result: [] as string[] };
+        }
+        const released = releaseImageAsset(asset, presentationId, new Date());
+        return { asset: released.asset, result: released.orphanedUrls };
+      });
+
+      // The document is gone first, so no job can reuse these files
+      for (const url of orphanedUrls) {
+        await deleteImageUrlServer(url);
+        deleted++;
+      }
+    }
+    return deleted;
+  } catch (error) {
+    console.error('Error releasing presentation image assets:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,44 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './admin';
+import { withoutUndefined } from './sanitize';
+import { SlideImageTarget, withSlideImage } from '@/lib/models/image-variants';
+import type { ImageObject, Slide } from '@/lib/models/slide';
+import type { PresentationDocument } from './presentations';
+
+/**
+ * Presentation writes made by the server (image jobs). They go through
+ * the Admin SDK, which skips the Firestore rules: there is no signed-in
+ * user to check, so callers must only write what a trusted job produced.
+ */
+
+const PRESENTATIONS_COLLECTION = 'presentations';
+
+/**
+ * Update image in a slide, as updateSlideImage does for editors: in a
+ * transaction on the latest slides, bumping the revision (lib/collab)
+ */
+export async function updateSlideImageServer(
+  presentationId: string,
+  slideId: string,
+  imageData: Partial<ImageObject> & SlideImageTarget
+): Promise<void> {
+  const { objectId, imageIndex, ...updates } = imageData;
+  const docRef = adminDb.collection(PRESENTATIONS_COLLECTION).doc(presentationId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new Error('Presentation not found');
+    }
+
+    const data = snapshot.data() as PresentationDocument;
+    const slides: Slide[] = withSlideImage(data.slides || [], slideId, { objectId, imageIndex }, updates);
+
+    transaction.update(docRef, {
+      slides: withoutUndefined(slides),
+      revision: (data.revision || 0) + 1,
+      'metadata.updatedAt': FieldValue.serverTimestamp(),
+      'metadata.slideCount': slides.length,
+    });
+  });
+}
@@ -1,29 +1,43 @@
 import { getApps, initializeApp, applicationDefault } from 'firebase-admin/app';
 import { getStorage } from 'firebase-admin/storage';
 
+const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'phoenix-web-app';
+const BUCKET_NAME = process.env.IMAGE_STORAGE_BUCKET || 'phoenix-web-app-images';  // Actual GCS bucket that exists
+
+// Set when running against the Storage emulator (firebase emulators:start)
+const STORAGE_EMULATOR_HOST = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+
 // Initialize admin app if not already initialized
 if (!getApps().length) {
   // Use application default credentials (from gcloud auth)
   initializeApp({
     credential: applicationDefault(),
-    projectId: 'phoenix-web-app',
-    storageBucket: 'phoenix-web-app-images',  // Actual GCS bucket that exists
+    projectId: PROJECT_ID,
+    storageBucket: BUCKET_NAME,
   });
 }
 
 const storage = getStorage();
-// Use the actual bucket that exists in GCS
-const bucket = storage.bucket('phoenix-web-app-images');
+const bucket = storage.bucket(BUCKET_NAME);
+
+function getPublicUrl(path: string): string {
+  if (STORAGE_EMULATOR_HOST) {
+    return `http://${STORAGE_EMULATOR_HOST}/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media`;
+  }
+  return `https://storage.googleapis.com/${bucket.name}/${path}`;
+}
 
 /**
  * Upload base64 image to Firebase Storage from server-side
  * @param base64String - The base64 encoded image string
  * @param path - The storage path (e.g., 'presentations/123/slides/456/image.png')
+ * @param contentType - MIME type of the image (defaults to PNG)
  * @returns The public URL of the uploaded image
  */
 export async function uploadBase64ImageServer(
   base64String: string,
-  path: string
+  path: string,
+  contentType: string = 'image/png'
 ): Promise<string> {
   try {
     // Convert base64 to buffer
@@ -35,7 +49,7 @@ export async function uploadBase64ImageServer(
     // Upload the buffer
     await file.save(buffer, {
       metadata: {
-        contentType: 'image/png',
+        contentType,
         cacheControl: 'public, max-age=31536000',
       },
       // Don't use public: true with uniform bucket-level access
@@ -43,7 +57,7 @@ export async function uploadBase64ImageServer(
     });
     
     // Get the public URL
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`;
+    const publicUrl = getPublicUrl(path);
     
     return publicUrl;
   } catch (error: any) {
@@ -93,7 +107,7 @@ export async function uploadAudioToStorage(
       validation: false,
     });
     
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`;
+    const publicUrl = getPublicUrl(path);
     return publicUrl;
   } catch (error: any) {
     console.error('Error uploading audio:', error);
@@ -113,4 +127,25 @@ export async function deleteImageServer(path: string): Promise<void> {
     console.error('Error deleting image:', error);
     // Don't throw - deletion errors shouldn't break the flow
   }
-}
\ No newline at end of file
+}
+/**
+ * Delete an image by the URL it was served from; other buckets' public
+ * URLs are deleted from their own bucket
+ * @param url - Public or emulator URL of the image
+ */
+export async function deleteImageUrlServer(url: string): Promise<void> {
+  const publicUrl = url.match(/^https:\/\/storage\.googleapis\.com\/([^/]+)\/([^?]+)/);
+  const apiUrl = url.match(/\/v0\/b\/([^/]+)\/o\/([^?]+)/);
+  const match = publicUrl || apiUrl;
+  if (!match) {
+    console.error('Error deleting image: not a storage URL', url);
+    return;
+  }
+
+  try {
+    await storage.bucket(match[1]).file(decodeURIComponent(match[2])).delete();
+  } catch (error) {
+    console.error('Error deleting image:', error);
+    // Don't throw - deletion errors shouldn't break the flow
+  }
+}
@@ -48,18 +48,19 @@ export async function uploadMultipleImages(
 
 /**
  * Delete an image from storage
- * @param url - The storage URL or path
+ * @param url - The storage URL (download or public) or path
  */
 export async function deleteImage(url: string): Promise<void> {
   try {
     // If it's a full URL, extract the path
     let path = url;
-    if (url.includes('firebasestorage.googleapis.com')) {
-      // Extract path from URL
-      const matches = url.match(/o\/(.*?)\?/);
-      if (matches && matches[1]) {
-        path = decodeURIComponent(matches[1]);
-      }
+    const publicUrl = url.match(/^https:\/\/storage\.googleapis\.com\/([^/]+)\/([^?]+)/);
+    const apiUrl = url.match(/\/v0\/b\/([^/]+)\/o\/([^?]+)/);
+    if (publicUrl) {
+      // Server uploads (lib/firebase/server-storage) may use another bucket
+      path = `gs://${publicUrl[1]}/${decodeURIComponent(publicUrl[2])}`;
+    } else if (apiUrl) {
+      path = `gs://${apiUrl[1]}/${decodeURIComponent(apiUrl[2])}`;
     }
     
     const storageRef = ref(storage, path);
@@ -0,0 +1,190 @@
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import { withoutUndefined } from './sanitize';
+import { currentAccessor } from './members';
+import type { PresentationDocument } from './presentations';
+import {
+  MAX_AUTO_VERSIONS,
+  NewVersion,
+  PresentationVersion,
+  autoVersionsToPrune,
+  createVersion,
+} from '@/lib/models/versions';
+import { hasRole, resolvePresentationRole } from '@/lib/models/sharing';
+import { presenceName } from '@/lib/collab/presence';
+import { AuthorizationError, NotFoundError } from '@/lib/errors/handler';
+
+/**
+ * Version documents
+ *
+ *   presentations/{id}/versions/{versionId}   a copy of the slides (lib/models/versions)
+ *
+ * Automatic versions are written in the same transaction as the slides
+ * write they precede (transformPresentationSlides). Only editors and the
+ * owner read or write them.
+ */
+
+const PRESENTATIONS_COLLECTION = 'presentations';
+const VERSIONS_COLLECTION = 'versions';
+// Every automatic version there can be, and plenty of named ones
+const VERSION_LIST_LIMIT = MAX_AUTO_VERSIONS + 70;
+
+export function versionsCollection(presentationId: string) {
+  return collection(db, PRESENTATIONS_COLLECTION, presentationId, VERSIONS_COLLECTION);
+}
+
+/**
+ * Who versions are saved by: the signed-in user, with a display name
+ */
+export function versionAuthor(): Pick<NewVersion, 'createdBy' | 'createdByName'> | null {
+  const user = auth.currentUser;
+  return user ? { createdBy: user.uid, createdByName: presenceName(user) } : null;
+}
+
+/**
+ * The fields to write for a new version
+ */
+export function versionDocument(version: NewVersion) {
+  return { ...withoutUndefined(version), createdAt: serverTimestamp() };
+}
+
+async function requireEditor(presentationId: string): Promise<PresentationDocument> {
+  let snapshot;
+  try {
+    snapshot = await getDoc(doc(db, PRESENTATIONS_COLLECTION, presentationId));
+  } catch (error) {
+    console.error('Error checking presentation access:', error);
+    throw new AuthorizationError("You don't have access to this presentation");
+  }
+  if (!snapshot.exists()) {
+    throw new NotFoundError('Presentation');
+  }
+  const presentation = snapshot.data() as PresentationDocument;
+  if (!hasRole(resolvePresentationRole(presentation, await currentAccessor(presentationId)), 'editor')) {
+    throw new AuthorizationError('You need edit access to see or save versions');
+  }
+  return presentation;
+}
+
+function toMillis(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : 0;
+}
+
+/**
+ * Versions of a presentation, newest first
+ */
+export async function listVersions(presentationId: string): Promise<PresentationVersion[]> {
+  try {
+    const snapshot = await getDocs(query(
+      versionsCollection(presentationId),
+      orderBy('createdAt', 'desc'),
+      limit(VERSION_LIST_LIMIT)
+    ));
+    const versions: PresentationVersion[] = [];
+    snapshot.forEach((entry) => {
+      // Versions just written show with their time estimated
+      const data = entry.data({ serverTimestamps: 'estimate' });
+      versions.push({
+        id: entry.id,
+        name: data.name || undefined,
+        auto: !!data.auto,
+        title: data.title,
+        templateId: data.templateId || undefined,
+        slides: data.slides || [],
+        slideCount: data.slideCount || 0,
+        revision: data.revision || 0,
+        createdBy: data.createdBy,
+        createdByName: data.createdByName || undefined,
+        createdAt: toMillis(data.createdAt),
+      });
+    });
+    return versions;
+  } catch (error) {
+    console.error('Error listing versions:', error);
+    throw new Error('Failed to load version history');
+  }
+}
+
+/**
+ * Save the presentation as it is now; named unless `auto` (e.g. the copy
+ * taken before a restore). Returns the new version's id.
+ */
+export async function saveVersion(
+  presentationId: string,
+  { name, auto = false }: { name?: string; auto?: boolean } = {}
+): Promise<string> {
+  const presentation = await requireEditor(presentationId);
+  const author = versionAuthor();
+  if (!author) {
+    throw new AuthorizationError('Sign in to save versions');
+  }
+
+  try {
+    const ref = doc(versionsCollection(presentationId));
+    await setDoc(ref, versionDocument(createVersion(presentation, { name, auto, ...author })));
+    return ref.id;
+  } catch (error) {
+    console.error('Error saving version:', error);
+    throw new Error('Failed to save version');
+  }
+}
+
+/**
+ * Name a version; named automatic versions are kept like named ones
+ */
+export async function renameVersion(presentationId: string, versionId: string, name: string): Promise<void> {
+  try {
+    await updateDoc(doc(versionsCollection(presentationId), versionId), { name: name.trim(), auto: false });
+  } catch (error) {
+    console.error('Error renaming version:', error);
+    throw new Error('Failed to rename version');
+  }
+}
+
+export async function deleteVersion(presentationId: string, versionId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(versionsCollection(presentationId), versionId));
+  } catch (error) {
+    console.error('Error deleting version:', error);
+    throw new Error('Failed to delete version');
+  }
+}
+
+/**
+ * Delete automatic versions past the newest MAX_AUTO_VERSIONS; returns
+ * how many went
+ */
+export async function pruneAutoVersions(presentationId: string): Promise<number> {
+  const snapshot = await getDocs(query(
+    versionsCollection(presentationId),
+    where('auto', '==', true),
+    orderBy('createdAt', 'desc')
+  ));
+  const versions: Pick<PresentationVersion, 'id' | 'auto' | 'createdAt'>[] = [];
+  snapshot.forEach((entry) => {
+    versions.push({ id: entry.id, auto: true, createdAt: toMillis(entry.data({ serverTimestamps: 'estimate' }).createdAt) });
+  });
+
+  const stale = autoVersionsToPrune(versions);
+  if (stale.length > 0) {
+    const batch = writeBatch(db);
+    stale.forEach(versionId => batch.delete(doc(versionsCollection(presentationId), versionId)));
+    await batch.commit();
+  }
+  return stale.length;
+}
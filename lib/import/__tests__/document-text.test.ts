@@ -0,0 +1,65 @@
+import JSZip from 'jszip'
+import { deflateSync } from 'zlib'
+import { extractDocumentText, extractDocxText, extractPdfContentText, extractPdfText } from '../document-text'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+async function docx(body: string): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+function pdf(content: string, compress: boolean): Buffer {
+  const stream = compress ? deflateSync(Buffer.from(content, 'latin1')) : Buffer.from(content, 'latin1')
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${stream.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ])
+}
+
+describe('Document Text', () => {
+  it('should read Word paragraphs and headings', async () => {
+    const data = await docx(
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Annual Report</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Revenue grew </w:t></w:r><w:r><w:t>12% &amp; margins held.</w:t></w:r></w:p>' +
+      '<w:p/>'
+    )
+
+    expect(await extractDocxText(data)).toBe('# Annual Report\n\nRevenue grew 12% & margins held.')
+    await expect(extractDocxText(Buffer.from('not a zip'))).rejects.toThrow('Invalid Word document')
+  })
+
+  it('should read text operators from PDF content streams', async () => {
+    const content = 'BT /F1 12 Tf 72 720 Td (Tidal energy) Tj 0 -14 Td [(is pre) 20 (dictable) -250 (power.)] TJ ET'
+
+    expect(extractPdfContentText(content)).toBe('Tidal energy\nis predictable power.\n')
+    expect(extractPdfText(pdf(content, true))).toBe('Tidal energy\nis predictable power.')
+    expect(extractPdfText(pdf(content, false))).toBe('Tidal energy\nis predictable power.')
+    expect(() => extractPdfText(Buffer.from('hello'))).toThrow('Invalid PDF')
+    expect(() => extractPdfText(pdf('q 1 0 0 1 0 0 cm Q', false))).toThrow('Could not read text')
+  })
+
+  it('should stop at strings and arrays that never close', () => {
+    expect(extractPdfContentText('BT [(Hi) Tj ET')).toBe('')
+    expect(extractPdfContentText('BT (Hi) Tj [<4869 ET')).toBe('Hi')
+    expect(extractPdfContentText('BT (Hi) Tj <4869 ET')).toBe('Hi')
+    expect(extractPdfContentText('BT (Hi) Tj (there Tj ET')).toBe('Hi')
+  })
+
+  it('should skip streams that inflate past the limit and stop past the total', () => {
+    const text = pdf('BT (Still readable) Tj ET', true)
+    const bomb = pdf(' '.repeat(17 * 1024 * 1024), true)
+
+    expect(extractPdfText(Buffer.concat([bomb, text]))).toBe('Still readable')
+    expect(() => extractPdfText(Buffer.concat([bomb, bomb, bomb, bomb, text]))).toThrow('Could not read text')
+  })
+
+  it('should decode base64 documents and tidy plain text', async () => {
+    const data = await docx('<w:p><w:r><w:t>Hello</w:t></w:r></w:p>')
+
+    expect(await extractDocumentText('docx', `data:application/octet-stream;base64,${data.toString('base64')}`)).toBe('Hello')
+    expect(await extractDocumentText('text', 'One  \r\n\n\n\nTwo\n')).toBe('One\n\nTwo')
+  })
+})
@@ -0,0 +1,89 @@
+import { importMarkdown, parseMarkdownOutline, stripInlineMarkdown } from '../markdown-import'
+import { SlideType, TextObject, ImageObject } from '../../models/slide'
+
+const outline = `# Quarterly Review
+Q3 results and **outlook**
+
+## Highlights
+- Revenue up 12%
+- Two [new markets](https://example.com)
+
+\`\`\`notes
+Pause for questions
+\`\`\`
+
+# Product
+
+## Customer voice
+> "It changed how we plan our week."
+> — Dana, Ops Lead
+
+## Launch photo
+![Team at the launch event](https://cdn.example.com/launch.jpg)
+The team shipped on time.
+
+## Options
+### Build
+- Full control
+### Buy
+- Faster start
+`
+
+describe('Markdown Import', () => {
+  it('should strip inline markdown', () => {
+    expect(stripInlineMarkdown('**Bold** and _soft_ `code` [link](x)')).toBe('Bold and soft code link')
+    expect(stripInlineMarkdown('snake_case_name')).toBe('snake_case_name')
+  })
+
+  it('should map headings to title, section and content slides', () => {
+    const result = parseMarkdownOutline(outline)
+
+    expect(result.title).toBe('Quarterly Review')
+    expect(result.subtitle).toBe('Q3 results and outlook')
+    expect(result.slides.map(slide => slide.type)).toEqual([
+      'title', 'bullets', 'section', 'quote', 'imageWithText', 'twoColumn',
+    ])
+  })
+
+  it('should collect bullets, quotes, columns and notes', () => {
+    const [, bullets, , quote, image, columns] = parseMarkdownOutline(outline).slides
+
+    expect(bullets).toMatchObject({ heading: 'Highlights', bullets: ['Revenue up 12%', 'Two new markets'], notes: 'Pause for questions' })
+    expect(quote).toMatchObject({ quote: 'It changed how we plan our week.', citation: 'Dana, Ops Lead' })
+    expect(image).toMatchObject({
+      imageDescription: 'Team at the launch event',
+      imageUrls: ['https://cdn.example.com/launch.jpg'],
+      body: 'The team shipped on time.',
+    })
+    expect(columns).toMatchObject({ leftContent: 'Build\n• Full control', rightContent: 'Buy\n• Faster start' })
+  })
+
+  it('should treat content before any heading as a slide', () => {
+    const { title, slides } = parseMarkdownOutline('Just a paragraph\n\n- and a bullet')
+
+    expect(title).toBe('Untitled Presentation')
+    expect(slides).toEqual([{ type: 'content', body: 'Just a paragraph\n• and a bullet' }])
+  })
+
+  it('should build typed slides through the AI slide converter', () => {
+    const { slides } = importMarkdown(outline)
+
+    expect(slides).toHaveLength(6)
+    expect(slides[0].type).toBe(SlideType.TITLE)
+    expect(slides[1].notes).toBe('Pause for questions')
+    expect(slides[2].objects[0]).toMatchObject({ type: 'text', role: 'title', content: 'Product' })
+
+    const image = slides[4].objects.find(object => object.type === 'image') as ImageObject
+    expect(image.src).toBe('https://cdn.example.com/launch.jpg')
+    expect(slides[4].objects.filter(object => object.type === 'text' && (object as TextObject).role === 'body')).toHaveLength(1)
+  })
+
+  it('should leave generation placeholders for images without a url', () => {
+    const { slides } = importMarkdown('## Vision\n![A sunrise over mountains]()')
+    const image = slides[0].objects.find(object => object.type === 'image') as ImageObject
+
+    expect(slides[0].type).toBe(SlideType.IMAGE)
+    expect(image.generationDescription).toBe('A sunrise over mountains')
+    expect(image.src).toContain('/api/placeholder/image')
+  })
+})
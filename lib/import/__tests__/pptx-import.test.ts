@@ -0,0 +1,170 @@
+import JSZip from 'jszip'
+import { importPptx, resolvePartPath } from '../pptx-import'
+import { SlideType, TableObject, TextObject, ImageObject, ShapeObject } from '../../models/slide'
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+function rels(entries: Array<[string, string, string]>): string {
+  return `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    entries.map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`).join('')
+  }</Relationships>`
+}
+
+function xfrm(x: number, y: number, cx: number, cy: number): string {
+  return `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`
+}
+
+const layout = `<p:sldLayout ${NS} type="obj"><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+    <p:spPr>${xfrm(0, 0, 6096000, 1000000)}</p:spPr></p:sp>
+</p:spTree></p:cSld></p:sldLayout>`
+
+const slide1 = `<p:sld ${NS}><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+    <p:spPr/><p:txBody><a:p><a:r><a:rPr sz="4000" b="1"/><a:t>Quarterly &amp; Review</a:t></a:r></a:p></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:cNvPr id="3" name="Content"/><p:cNvSpPr/><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr>
+    <p:spPr>${xfrm(0, 1000000, 6096000, 2000000)}</p:spPr>
+    <p:txBody><a:p><a:r><a:t>Growth</a:t></a:r></a:p><a:p><a:r><a:t>Margin</a:t></a:r></a:p><a:p/></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:cNvPr id="4" name="Box"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr>${xfrm(6096000, 0, 3048000, 3429000)}<a:prstGeom prst="ellipse"/><a:solidFill><a:schemeClr val="accent1"/></a:solidFill></p:spPr></p:sp>
+  <p:pic><p:nvPicPr><p:cNvPr id="5" name="Picture" descr="Logo"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+    <p:blipFill><a:blip r:embed="rId2"/></p:blipFill><p:spPr>${xfrm(0, 3429000, 1524000, 1524000)}</p:spPr></p:pic>
+</p:spTree></p:cSld></p:sld>`
+
+const slide2 = `<p:sld ${NS}><p:cSld><p:spTree>
+  <p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="2" name="Table"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>
+    <p:xfrm><a:off x="0" y="0"/><a:ext cx="6096000" cy="3429000"/></p:xfrm>
+    <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>
+      <a:tblPr firstRow="1"/><a:tblGrid><a:gridCol w="100"/><a:gridCol w="100"/></a:tblGrid>
+      <a:tr h="100"><a:tc><a:txBody><a:p><a:r><a:t>Name</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Value</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+      <a:tr h="100"><a:tc gridSpan="2"><a:txBody><a:p><a:r><a:t>Merged</a:t></a:r></a:p></a:txBody></a:tc><a:tc hMerge="1"><a:txBody><a:p/></a:txBody></a:tc></a:tr>
+    </a:tbl></a:graphicData></a:graphic></p:graphicFrame>
+  <p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="3" name="Sales Chart"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>
+    <p:xfrm><a:off x="0" y="0"/><a:ext cx="100" cy="100"/></p:xfrm>
+    <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart"/></a:graphic></p:graphicFrame>
+</p:spTree></p:cSld></p:sld>`
+
+const notes = `<p:notes ${NS}><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>
+    <p:spPr/><p:txBody><a:p><a:r><a:t>Mention the new market</a:t></a:r></a:p></p:txBody></p:sp>
+</p:spTree></p:cSld></p:notes>`
+
+const theme = `<a:theme ${NS}><a:themeElements><a:clrScheme name="Test">
+  <a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>
+  <a:accent1><a:srgbClr val="1A75D0"/></a:accent1>
+</a:clrScheme></a:themeElements></a:theme>`
+
+async function buildPptx(): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('ppt/presentation.xml', `<p:presentation ${NS}>
+    <p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/></p:sldIdLst>
+    <p:sldSz cx="12192000" cy="6858000"/></p:presentation>`)
+  zip.file('ppt/_rels/presentation.xml.rels', rels([
+    ['rId1', 'theme', 'theme/theme1.xml'],
+    ['rId2', 'slide', 'slides/slide1.xml'],
+    ['rId3', 'slide', 'slides/slide2.xml'],
+  ]))
+  zip.file('ppt/theme/theme1.xml', theme)
+  zip.file('ppt/slideLayouts/slideLayout1.xml', layout)
+  zip.file('ppt/slides/slide1.xml', slide1)
+  zip.file('ppt/slides/_rels/slide1.xml.rels', rels([
+    ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'],
+    ['rId2', 'image', '../media/image1.png'],
+    ['rId3', 'notesSlide', '../notesSlides/notesSlide1.xml'],
+  ]))
+  zip.file('ppt/slides/slide2.xml', slide2)
+  zip.file('ppt/notesSlides/notesSlide1.xml', notes)
+  zip.file('ppt/media/image1.png', Buffer.from([137, 80, 78, 71]))
+  zip.file('docProps/core.xml', '<cp:coreProperties xmlns:cp="x" xmlns:dc="y"><dc:title>Q3 Review</dc:title></cp:coreProperties>')
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+describe('PowerPoint Import', () => {
+  it('should resolve relationship targets', () => {
+    expect(resolvePartPath('ppt/slides/slide1.xml', '../media/image1.png')).toBe('ppt/media/image1.png')
+    expect(resolvePartPath('ppt/presentation.xml', 'slides/slide2.xml')).toBe('ppt/slides/slide2.xml')
+    expect(resolvePartPath('ppt/slides/slide1.xml', '/ppt/media/a.png')).toBe('ppt/media/a.png')
+  })
+
+  it('should import slides in order with title and notes', async () => {
+    const result = await importPptx(await buildPptx())
+
+    expect(result.title).toBe('Q3 Review')
+    expect(result.slides).toHaveLength(2)
+    expect(result.slides[0].notes).toBe('Mention the new market')
+    expect(result.slides[1].notes).toBeUndefined()
+  })
+
+  it('should scale placeholders inherited from the layout to the canvas', async () => {
+    const [slide] = (await importPptx(await buildPptx())).slides
+    const title = slide.objects.find(object => object.type === 'text' && object.role === 'header') as TextObject
+
+    expect(title.content).toBe('Quarterly & Review')
+    expect(title.coordinates).toEqual({ x: 0, y: 0, width: 960, height: 157 })
+    expect(title.customStyles).toMatchObject({ fontSize: 80, fontWeight: 700 })
+    expect(slide.type).toBe(SlideType.CONTENT)
+  })
+
+  it('should turn body placeholders into bullets', async () => {
+    const [slide] = (await importPptx(await buildPptx())).slides
+    const body = slide.objects.find(object => object.type === 'text' && object.role === 'bullets') as TextObject
+
+    expect(body.content).toBe('• Growth\n• Margin')
+    expect(body.typographicRole).toBe('bullet')
+  })
+
+  it('should map theme colors to the nearest color role', async () => {
+    const [slide] = (await importPptx(await buildPptx())).slides
+    const shape = slide.objects.find(object => object.type === 'shape') as ShapeObject
+
+    expect(shape.shape).toBe('circle')
+    expect(shape.fill).toBe('primary')
+  })
+
+  it('should upload each media part through the uploader', async () => {
+    const uploadMedia = jest.fn(async (_data: Buffer, fileName: string) => `https://cdn.test/${fileName}`)
+    const [slide] = (await importPptx(await buildPptx(), { uploadMedia })).slides
+    const image = slide.objects.find(object => object.type === 'image') as ImageObject
+
+    expect(uploadMedia).toHaveBeenCalledWith(expect.any(Buffer), 'image1.png', 'image/png')
+    expect(image).toMatchObject({ src: 'https://cdn.test/image1.png', alt: 'Logo' })
+  })
+
+  it('should not upload SVG media', async () => {
+    const zip = await JSZip.loadAsync(await buildPptx())
+    zip.file('ppt/slides/_rels/slide1.xml.rels', rels([
+      ['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'],
+      ['rId2', 'image', '../media/image1.svg'],
+    ]))
+    zip.file('ppt/media/image1.svg', '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>')
+    const uploadMedia = jest.fn(async () => 'https://cdn.test/media')
+
+    const result = await importPptx(await zip.generateAsync({ type: 'nodebuffer' }), { uploadMedia })
+
+    expect(uploadMedia).not.toHaveBeenCalled()
+    expect(result.slides[0].objects.some(object => object.type === 'image')).toBe(false)
+    expect(result.warnings).toContain('Slide 1: picture "Picture" uses an unsupported format')
+  })
+
+  it('should import tables with headers and merged cells and warn about charts', async () => {
+    const result = await importPptx(await buildPptx())
+    const table = result.slides[1].objects[0] as TableObject
+
+    expect(result.slides[1].type).toBe(SlideType.TABLE)
+    expect(table.headers).toEqual(['Name', 'Value'])
+    expect(table.data).toEqual([['Merged', '']])
+    expect(table.merges).toEqual([{ row: 0, col: 0, rowSpan: 1, colSpan: 2 }])
+    expect(result.warnings).toEqual(['Slide 2: chart "Sales Chart" was not imported'])
+  })
+
+  it('should reject files that are not PowerPoint packages', async () => {
+    await expect(importPptx(Buffer.from('not a zip'))).rejects.toThrow('Invalid PowerPoint file')
+
+    const bomb = new JSZip()
+    Array.from({ length: 5001 }, (_, i) => bomb.file(`ppt/media/${i}.png`, ''))
+    await expect(importPptx(await bomb.generateAsync({ type: 'nodebuffer' }))).rejects.toThrow('Invalid PowerPoint file: over 5000 parts')
+  })
+})
@@ -0,0 +1,40 @@
+import JSZip from 'jszip'
+import { openZipPackage } from '../zip-package'
+
+async function zipOf(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip()
+  Object.entries(parts).forEach(([path, content]) => zip.file(path, content))
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+describe('Zip packages', () => {
+  it('should read parts within the limits', async () => {
+    const zip = await openZipPackage(await zipOf({ 'a.xml': '<a/>' }), { maxEntries: 5, maxBytes: 1000 }, 'test package')
+
+    expect(zip.has('a.xml')).toBe(true)
+    expect((await zip.read('a.xml'))?.toString('utf8')).toBe('<a/>')
+    expect(await zip.read('missing.xml')).toBeUndefined()
+  })
+
+  it('should reject packages with too many parts or bytes before reading them', async () => {
+    const many = await zipOf({ 'a.xml': 'a', 'b.xml': 'b', 'c.xml': 'c' })
+    await expect(openZipPackage(many, { maxEntries: 2, maxBytes: 1000 }, 'test package')).rejects.toThrow('Invalid test package: over 2 parts')
+
+    const large = await zipOf({ 'a.xml': 'x'.repeat(5000) })
+    await expect(openZipPackage(large, { maxEntries: 5, maxBytes: 1000 }, 'test package')).rejects.toThrow('Invalid test package')
+    await expect(openZipPackage(Buffer.from('not a zip'), { maxEntries: 5, maxBytes: 1000 }, 'test package')).rejects.toThrow('not a zip package')
+  })
+
+  it('should cap single parts and what the package reads in all', async () => {
+    const zip = await openZipPackage(
+      await zipOf({ 'a.xml': 'x'.repeat(600), 'b.xml': 'y'.repeat(600) }),
+      { maxEntries: 5, maxBytes: 1200 },
+      'test package'
+    )
+
+    await expect(zip.read('a.xml', 100)).rejects.toThrow('Invalid test package')
+    expect((await zip.read('a.xml'))?.length).toBe(600)
+    expect((await zip.read('b.xml'))?.length).toBe(600)
+    await expect(zip.read('a.xml')).rejects.toThrow('Invalid test package')
+  })
+})
@@ -0,0 +1,308 @@
+import { inflateSync } from 'zlib';
+import { ZipPackageLimits, openZipPackage } from './zip-package';
+
+/**
+ * Plain-text extraction for source documents
+ * Grounded generation reads the text of attached PDFs, Word documents,
+ * Markdown and plain text. Paragraphs come back separated by blank lines.
+ *
+ *   docx      word/document.xml paragraphs; headings become "# " lines
+ *   pdf       text-showing operators of the page content streams (Flate or
+ *             uncompressed). Scanned PDFs and fonts with custom encodings
+ *             have no readable text and are rejected.
+ *   markdown / text   decoded as UTF-8
+ */
+
+export type SourceDocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+// Below this share of letters and digits a PDF's text is treated as unreadable
+const MIN_READABLE_RATIO = 0.5;
+// TJ offsets (thousandths of an em) wider than this read as a word space
+const TJ_SPACE_THRESHOLD = -200;
+// Inflated bytes per PDF stream and per PDF: a small Flate stream can
+// expand a thousandfold
+const MAX_STREAM_BYTES = 16 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+const DOCX_LIMITS: ZipPackageLimits = { maxEntries: 2000, maxBytes: 200 * 1024 * 1024 };
+const MAX_DOCUMENT_XML_BYTES = 32 * 1024 * 1024;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCharCode(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Collapse runs of blank lines and trailing spaces
+ */
+function tidy(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Text of a .docx file, one paragraph per block
+ */
+export async function extractDocxText(data: Buffer | ArrayBuffer | Uint8Array): Promise<string> {
+  const zip = await openZipPackage(data, DOCX_LIMITS, 'Word document');
+  const documentXml = (await zip.read('word/document.xml', MAX_DOCUMENT_XML_BYTES))?.toString('utf8');
+  if (!documentXml) {
+    throw new Error('Invalid Word document: missing word/document.xml');
+  }
+
+  const paragraphs = (documentXml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) || []).map(paragraph => {
+    const text = decodeXmlEntities(
+      (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+        .map(run => (run === '<w:tab/>' ? '\t' : run === '<w:br/>' ? '\n' : run.replace(/<[^>]+>/g, '')))
+        .join('')
+    ).trim();
+    const heading = paragraph.match(/<w:pStyle w:val="(?:Heading|Title)(\d?)"/);
+    return text && heading ? `${'#'.repeat(Math.min(Number(heading[1]) || 1, 3))} ${text}` : text;
+  });
+
+  return tidy(paragraphs.filter(Boolean).join('\n\n'));
+}
+
+// A PDF literal string "(...)" starting at index (after the "("): its bytes and end index
+function readPdfString(content: string, start: number): { text: string; end: number } {
+  let text = '';
+  let depth = 1;
+  let i = start;
+  for (; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+      if (next in escapes) {
+        text += escapes[next];
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)?.[0] || next;
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next !== '\n' && next !== '\r') {
+        text += next;
+      }
+    } else if (char === '(') {
+      depth++;
+      text += char;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+  return { text, end: i };
+}
+
+// Index of the delimiter closing what starts at index; content that
+// never closes runs to the end
+function closingIndex(content: string, delimiter: string, start: number): number {
+  const end = content.indexOf(delimiter, start);
+  return end === -1 ? content.length : end;
+}
+
+function decodePdfHex(hex: string): string {
+  const digits = hex.replace(/\s+/g, '');
+  let text = '';
+  for (let i = 0; i < digits.length; i += 2) {
+    text += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+  return text;
+}
+
+/**
+ * Text shown by one content stream's BT ... ET blocks
+ */
+export function extractPdfContentText(content: string): string {
+  let output = '';
+  let operands: (string | number)[] = [];
+  let inText = false;
+
+  const newline = () => {
+    if (output && !output.endsWith('\n')) {
+      output += '\n';
+    }
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '(') {
+      const string = readPdfString(content, i + 1);
+      operands.push(string.text);
+      i = string.end;
+    } else if ((char === '<' && content[i + 1] === '<') || (char === '>' && content[i + 1] === '>')) {
+      // Inline dictionaries (marked content properties)
+      i++;
+    } else if (char === '/') {
+      // Names (fonts, resources) are operands, never operators
+      const name = content.slice(i + 1, i + 128).match(/^[^\s/<>[\]()]*/)?.[0] || '';
+      operands.push(name);
+      i += name.length;
+    } else if (char === '<') {
+      const end = closingIndex(content, '>', i);
+      operands.push(decodePdfHex(content.slice(i + 1, end)));
+      i = end;
+    } else if (char === '[') {
+      // TJ arrays: strings with kerning offsets; wide offsets are spaces
+      const end = closingIndex(content, ']', i);
+      let shown = '';
+      const inner = content.slice(i + 1, end);
+      for (let j = 0; j < inner.length; j++) {
+        if (inner[j] === '(') {
+          const string = readPdfString(inner, j + 1);
+          shown += string.text;
+          j = string.end;
+        } else if (inner[j] === '<') {
+          const close = closingIndex(inner, '>', j);
+          shown += decodePdfHex(inner.slice(j + 1, close));
+          j = close;
+        } else {
+          const number = inner.slice(j, j + 32).match(/^-?\d*\.?\d+/);
+          if (number) {
+            if (Number(number[0]) < TJ_SPACE_THRESHOLD && !shown.endsWith(' ')) {
+              shown += ' ';
+            }
+            j += number[0].length - 1;
+          }
+        }
+      }
+      operands.push(shown);
+      i = end;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i, i + 8).match(/^[A-Za-z'"*]+/)?.[0] || char;
+      i += operator.length - 1;
+      if (operator === 'BT') {
+        inText = true;
+      } else if (operator === 'ET') {
+        inText = false;
+        newline();
+      } else if (inText) {
+        const last = operands[operands.length - 1];
+        if (operator === 'Tj' || operator === 'TJ') {
+          output += typeof last === 'string' ? last : '';
+        } else if (operator === "'" || operator === '"') {
+          newline();
+          output += typeof last === 'string' ? last : '';
+        } else if (operator === 'T*') {
+          newline();
+        } else if ((operator === 'Td' || operator === 'TD') && operands[operands.length - 1] !== 0) {
+          newline();
+        } else if (operator === 'Tm') {
+          newline();
+        }
+      }
+      operands = [];
+    } else if (/[-\d.]/.test(char)) {
+      const number = content.slice(i, i + 32).match(/^-?\d*\.?\d+/);
+      if (number) {
+        operands.push(Number(number[0]));
+        i += number[0].length - 1;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Text of a PDF, read from its (Flate-compressed or plain) content streams
+ */
+export function extractPdfText(data: Buffer): string {
+  const raw = data.toString('latin1');
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('Invalid PDF: missing %PDF header');
+  }
+
+  const blocks: string[] = [];
+  let inflated = 0;
+  const streamPattern = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw)) !== null) {
+    // The stream's dictionary sits between "obj" and "stream"
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+    streamPattern.lastIndex = end;
+
+    // Fonts, images and other binary streams have no text operators
+    if (/\/(?:Subtype\s*\/(?:Image|Type1C|CIDFontType0C|OpenType)|Length1|Type\s*\/(?:XRef|ObjStm))/.test(dictionary)) {
+      continue;
+    }
+
+    let content: string;
+    const bytes = data.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      const maxOutputLength = Math.min(MAX_STREAM_BYTES, MAX_INFLATED_BYTES - inflated);
+      if (maxOutputLength <= 0) {
+        break;
+      }
+      try {
+        content = inflateSync(bytes, { maxOutputLength }).toString('latin1');
+        inflated += content.length;
+      } catch (error) {
+        // Streams cut off at the limit count in full; corrupt ones not at all
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          inflated += maxOutputLength;
+        }
+        continue;
+      }
+    } else {
+      content = bytes.toString('latin1');
+    }
+
+    if (/\bBT\b/.test(content)) {
+      const text = extractPdfContentText(content).trim();
+      if (text) {
+        blocks.push(text);
+      }
+    }
+  }
+
+  const text = tidy(blocks.join('\n\n'));
+  const readable = (text.match(/[A-Za-z0-9\u00C0-\u024F\u0370-\u04FF\s.,;:!?'"()-]/g) || []).length;
+  if (!text || readable / text.length < MIN_READABLE_RATIO) {
+    throw new Error('Could not read text from this PDF (it may be scanned or use embedded font encodings)');
+  }
+  return text;
+}
+
+/**
+ * Plain text of a source document. Binary formats arrive base64 encoded;
+ * Markdown and plain text as is.
+ */
+export async function extractDocumentText(format: SourceDocumentFormat, data: string): Promise<string> {
+  switch (format) {
+    case 'pdf':
+      return extractPdfText(Buffer.from(data.replace(/^data:[^,]*,/, ''), 'base64'));
+    case 'docx':
+      return extractDocxText(Buffer.from(data.replace(/^data:[^,]*,/, ''), 'base64'));
+    case 'markdown':
+    case 'text':
+    default:
+      return tidy(data);
+  }
+}
@@ -0,0 +1,283 @@
+import { Slide } from '@/lib/models/slide';
+import { AISlideContent, createSlideFromAIContent } from '@/lib/server/slide-converter';
+
+/**
+ * Markdown / outline importer
+ * Turns a Markdown document into the same slide content the AI returns and
+ * builds slides through createSlideFromAIContent, so imported decks get the
+ * same layouts without using AI quota. The mapping is deterministic:
+ *
+ *   # Heading        first one is the title slide (next paragraph = subtitle),
+ *                    later ones are section slides
+ *   ## Heading       starts a slide
+ *   ### Heading      column; exactly two make a twoColumn slide
+ *   - item / 1. item bullets
+ *   > text           quote; a last "> — Name" line is the citation
+ *   ![alt](url)      image; an empty url leaves a placeholder for generation
+ *   ```notes         speaker notes for the current slide
+ */
+
+export interface MarkdownOutline {
+  title: string;
+  subtitle?: string;
+  slides: AISlideContent[];
+}
+
+export interface MarkdownImportResult {
+  title: string;
+  subtitle?: string;
+  slides: Slide[];
+}
+
+interface MarkdownColumn {
+  heading: string;
+  lines: string[];
+}
+
+interface MarkdownImage {
+  alt: string;
+  url: string;
+}
+
+// Slide content collected between two headings
+interface DraftSlide {
+  level: 1 | 2;
+  heading: string;
+  paragraphs: string[];
+  bullets: string[];
+  quote: string[];
+  citation?: string;
+  images: MarkdownImage[];
+  columns: MarkdownColumn[];
+  notes: string[];
+}
+
+const HEADING = /^(#{1,3})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const IMAGE = /!\[([^\]]*)\]\(\s*([^)\s]*)(?:\s+"[^"]*")?\s*\)/g;
+const FENCE = /^(```|~~~)\s*([\w-]*)/;
+const CITATION = /^(?:—|–|--|-)\s*(.+)$/;
+
+/**
+ * Remove inline Markdown (emphasis, code, links) from a line of text
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .trim();
+}
+
+function createDraft(level: 1 | 2, heading: string): DraftSlide {
+  return { level, heading, paragraphs: [], bullets: [], quote: [], images: [], columns: [], notes: [] };
+}
+
+function hasContent(draft: DraftSlide): boolean {
+  return !!draft.heading ||
+    draft.paragraphs.length > 0 ||
+    draft.bullets.length > 0 ||
+    draft.quote.length > 0 ||
+    draft.images.length > 0 ||
+    draft.columns.length > 0;
+}
+
+// Text lines in reading order: paragraphs first, then bullets
+function bodyLines(paragraphs: string[], bullets: string[]): string[] {
+  return [...paragraphs, ...bullets.map(bullet => `• ${bullet}`)];
+}
+
+function imageDescription(image: MarkdownImage): string {
+  return image.alt || image.url.split('/').pop()?.replace(/\.\w+$/, '') || 'Image';
+}
+
+/**
+ * Pick the slide type for a draft and shape it like an AI slide
+ */
+function toSlideContent(draft: DraftSlide, isTitle: boolean): AISlideContent {
+  const notes = draft.notes.length > 0 ? draft.notes.join('\n').trim() : undefined;
+  const heading = draft.heading || undefined;
+  const columns = draft.columns;
+
+  // Columns only lay out side by side when there are exactly two
+  const paragraphs = columns.length === 2
+    ? draft.paragraphs
+    : [...draft.paragraphs, ...columns.flatMap(column => [column.heading, ...column.lines])];
+  const body = bodyLines(paragraphs, draft.bullets).join('\n') || undefined;
+
+  if (isTitle) {
+    return { type: 'title', heading, subheading: draft.paragraphs[0], notes };
+  }
+  if (draft.level === 1) {
+    return { type: 'section', heading, notes };
+  }
+  if (draft.quote.length > 0) {
+    return { type: 'quote', heading, quote: draft.quote.join(' '), citation: draft.citation, notes };
+  }
+  if (columns.length === 2) {
+    const [left, right] = columns.map(column => [column.heading, ...column.lines].join('\n'));
+    return { type: 'twoColumn', heading, leftContent: left, rightContent: right, notes };
+  }
+
+  const images = draft.images;
+  const imageFields = {
+    imageDescriptions: images.map(imageDescription),
+    imageUrls: images.map(image => image.url),
+  };
+  if (images.length >= 3) {
+    return { type: 'threeImages', heading, ...imageFields, notes };
+  }
+  if (images.length > 0) {
+    return {
+      type: body ? 'imageWithText' : 'image',
+      heading,
+      imageDescription: imageFields.imageDescriptions[0],
+      ...imageFields,
+      body,
+      notes,
+    };
+  }
+  if (draft.bullets.length > 0 && paragraphs.length === 0) {
+    return { type: 'bullets', heading, bullets: draft.bullets, notes };
+  }
+  return { type: 'content', heading, body, notes };
+}
+
+/**
+ * Parse a Markdown document into title, subtitle and AI-shaped slide content
+ */
+export function parseMarkdownOutline(markdown: string): MarkdownOutline {
+  const drafts: DraftSlide[] = [];
+  let current: DraftSlide | null = null;
+  let column: MarkdownColumn | null = null;
+  let paragraph: string[] = [];
+  let fence: { marker: string; isNotes: boolean; lines: string[] } | null = null;
+
+  const ensureDraft = (): DraftSlide => {
+    if (!current) {
+      current = createDraft(2, '');
+      drafts.push(current);
+    }
+    return current;
+  };
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const text = paragraph.join(' ');
+      if (column) {
+        column.lines.push(text);
+      } else {
+        ensureDraft().paragraphs.push(text);
+      }
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    // Fenced blocks: notes go to the speaker, anything else is kept verbatim
+    if (fence) {
+      if (rawLine.trim().startsWith(fence.marker)) {
+        const draft = ensureDraft();
+        if (fence.isNotes) {
+          draft.notes.push(fence.lines.join('\n'));
+        } else if (fence.lines.length > 0) {
+          (column ? column.lines : draft.paragraphs).push(fence.lines.join('\n'));
+        }
+        fence = null;
+      } else {
+        fence.lines.push(rawLine);
+      }
+      continue;
+    }
+
+    const fenceMatch = FENCE.exec(rawLine.trim());
+    if (fenceMatch) {
+      flushParagraph();
+      fence = { marker: fenceMatch[1], isNotes: /^notes?$/i.test(fenceMatch[2]), lines: [] };
+      continue;
+    }
+
+    // Images can appear on their own line or inline
+    const images = Array.from(rawLine.matchAll(IMAGE));
+    if (images.length > 0) {
+      flushParagraph();
+      const draft = ensureDraft();
+      images.forEach(match => draft.images.push({ alt: stripInlineMarkdown(match[1]), url: match[2] }));
+    }
+    const line = rawLine.replace(IMAGE, '').trimEnd();
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      const text = stripInlineMarkdown(heading[2]);
+      if (heading[1].length === 3) {
+        column = { heading: text, lines: [] };
+        ensureDraft().columns.push(column);
+      } else {
+        current = createDraft(heading[1].length === 1 ? 1 : 2, text);
+        drafts.push(current);
+        column = null;
+      }
+      continue;
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      flushParagraph();
+      const text = stripInlineMarkdown(line.trimStart().replace(/^>\s?/, ''));
+      const citation = CITATION.exec(text);
+      const draft = ensureDraft();
+      if (citation && draft.quote.length > 0) {
+        draft.citation = citation[1].trim();
+      } else if (text) {
+        draft.quote.push(text.replace(/^["“]|["”]$/g, ''));
+      }
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    if (bullet) {
+      flushParagraph();
+      const text = stripInlineMarkdown(bullet[1]);
+      if (column) {
+        column.lines.push(`• ${text}`);
+      } else {
+        ensureDraft().bullets.push(text);
+      }
+      continue;
+    }
+
+    paragraph.push(stripInlineMarkdown(line));
+  }
+  flushParagraph();
+
+  const slides = drafts.filter(hasContent);
+  const titleDraft = slides[0]?.level === 1 ? slides[0] : undefined;
+  const contents = slides.map(draft => toSlideContent(draft, draft === titleDraft));
+
+  return {
+    title: titleDraft?.heading || slides.find(draft => draft.heading)?.heading || 'Untitled Presentation',
+    subtitle: titleDraft?.paragraphs[0],
+    slides: contents,
+  };
+}
+
+/**
+ * Convert a Markdown document into slides using the AI slide pipeline
+ */
+export function importMarkdown(
+  markdown: string,
+  templateId: string = 'modern'
+): MarkdownImportResult {
+  const outline = parseMarkdownOutline(markdown);
+  return {
+    title: outline.title,
+    subtitle: outline.subtitle,
+    slides: outline.slides.map((content, index) => createSlideFromAIContent(content, index, templateId)),
+  };
+}
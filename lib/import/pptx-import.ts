@@ -0,0 +1,988 @@
+import { XMLParser } from 'fast-xml-parser';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Slide,
+  SlideType,
+  SlideObjectUnion,
+  TextObject,
+  ImageObject,
+  ShapeObject,
+  TableObject,
+} from '@/lib/models/slide';
+import { Coordinates, SLIDE_DIMENSIONS, Transform } from '@/lib/models/coordinates';
+import { ContentRole } from '@/lib/models/template';
+import { TypographicRole } from '@/lib/models/typography';
+import { ColorRole, ColorSet, DEFAULT_COLOR_SET, findNearestColorRole } from '@/lib/models/colors';
+import { TableCellMerge, TableColumnAlignment } from '@/lib/models/table';
+import { ZipPackage, ZipPackageLimits, openZipPackage } from './zip-package';
+
+/**
+ * PowerPoint (.pptx) importer
+ * Reads the OOXML package (slides, layouts, masters, theme, media and notes)
+ * and converts it into Slide objects on the 1920x1080 canvas. Text, pictures,
+ * preset shapes and tables are imported; charts and other embedded objects
+ * are skipped with a warning. Theme colors map to the nearest ColorRole so
+ * imported decks follow the presentation's color set.
+ */
+
+export type PptxMediaUploader = (
+  data: Buffer,
+  fileName: string,
+  contentType: string
+) => Promise<string>;
+
+export interface PptxImportOptions {
+  colorSet?: ColorSet;              // Theme colors are matched against this set
+  uploadMedia?: PptxMediaUploader;  // Stores media and returns its URL (defaults to data URLs)
+}
+
+export interface PptxImportResult {
+  title: string;
+  slides: Slide[];
+  warnings: string[];               // Content that could not be imported
+}
+
+// OOXML measures in EMU: 914400 per inch, 12700 per point
+const EMU_PER_POINT = 12700;
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };  // 13.333 x 7.5in (16:9)
+const PPTX_LIMITS: ZipPackageLimits = { maxEntries: 5000, maxBytes: 300 * 1024 * 1024 };
+
+// Raster pictures only: SVG can carry script and media is stored in the
+// public bucket. PowerPoint keeps a PNG fallback for SVG pictures.
+const MEDIA_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+const PLACEHOLDER_ROLES: Record<string, ContentRole> = {
+  ctrTitle: 'title',
+  title: 'header',
+  subTitle: 'subtitle',
+  body: 'body',
+  obj: 'body',
+  dt: 'date',
+  ftr: 'footer',
+  sldNum: 'pageNumber',
+};
+
+const TYPOGRAPHIC_ROLES: Partial<Record<ContentRole, TypographicRole>> = {
+  title: 'title',
+  header: 'heading1',
+  subtitle: 'subtitle',
+  body: 'body',
+  bullets: 'bullet',
+  date: 'date',
+  footer: 'footer',
+  pageNumber: 'pageNumber',
+};
+
+const LAYOUT_SLIDE_TYPES: Record<string, SlideType> = {
+  title: SlideType.TITLE,
+  secHead: SlideType.SECTION,
+  obj: SlideType.CONTENT,
+  tx: SlideType.BULLETS,
+  titleOnly: SlideType.CONTENT,
+  twoObj: SlideType.TWO_COLUMN,
+  twoColTx: SlideType.TWO_COLUMN,
+  twoTxTwoObj: SlideType.COMPARISON,
+  picTx: SlideType.IMAGE_WITH_TEXT,
+  tbl: SlideType.TABLE,
+  chart: SlideType.CHART,
+  blank: SlideType.BLANK,
+};
+
+const PRESET_SHAPES: Record<string, ShapeObject['shape']> = {
+  rect: 'rectangle',
+  roundRect: 'rectangle',
+  ellipse: 'circle',
+  triangle: 'triangle',
+  rtTriangle: 'triangle',
+  rightArrow: 'arrow',
+  line: 'line',
+  straightConnector1: 'line',
+};
+
+const ALIGNMENTS: Record<string, 'left' | 'center' | 'right' | 'justify'> = {
+  l: 'left',
+  ctr: 'center',
+  r: 'right',
+  just: 'justify',
+};
+
+// ---------------------------------------------------------------------------
+// XML helpers (fast-xml-parser preserveOrder output keeps z-order intact)
+// ---------------------------------------------------------------------------
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+});
+
+function tagOf(node: XmlNode): string {
+  return Object.keys(node).find(key => key !== ':@') ?? '';
+}
+
+function childrenOf(node: XmlNode | undefined): XmlNode[] {
+  if (!node) {
+    return [];
+  }
+  const value = node[tagOf(node)];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attr(node: XmlNode | undefined, name: string): string | undefined {
+  const attributes = node?.[':@'] as Record<string, string> | undefined;
+  return attributes?.[name];
+}
+
+function child(node: XmlNode | undefined, tag: string): XmlNode | undefined {
+  return childrenOf(node).find(item => tagOf(item) === tag);
+}
+
+function childrenNamed(node: XmlNode | undefined, tag: string): XmlNode[] {
+  return childrenOf(node).filter(item => tagOf(item) === tag);
+}
+
+function pathOf(node: XmlNode | undefined, ...tags: string[]): XmlNode | undefined {
+  return tags.reduce<XmlNode | undefined>((current, tag) => child(current, tag), node);
+}
+
+function descendants(node: XmlNode | undefined, tag: string): XmlNode[] {
+  return childrenOf(node).flatMap(item =>
+    tagOf(item) === tag ? [item] : descendants(item, tag)
+  );
+}
+
+function textOf(node: XmlNode | undefined): string {
+  if (!node) {
+    return '';
+  }
+  if (tagOf(node) === '#text') {
+    return String(node['#text']);
+  }
+  return childrenOf(node).map(textOf).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Package parts and relationships
+// ---------------------------------------------------------------------------
+
+interface Relationship {
+  type: string;       // Last segment of the relationship type URI (slide, image, ...)
+  target: string;     // Resolved part path inside the package
+  external: boolean;
+}
+
+interface Part {
+  path: string;
+  xml: XmlNode;
+  rels: Map<string, Relationship>;
+}
+
+interface ImportContext {
+  zip: ZipPackage;
+  scale: number;                      // EMU -> canvas pixels
+  offsetX: number;                    // Letterboxing for non-16:9 decks
+  offsetY: number;
+  themeColors: Record<string, string>;
+  colorSet: ColorSet;
+  uploadMedia: PptxMediaUploader;
+  media: Map<string, Promise<string>>;
+  parts: Map<string, Promise<Part | undefined>>;
+  warnings: string[];
+}
+
+interface SlideContext {
+  part: Part;
+  inherited: Part[];                  // Layout then master
+  number: number;
+}
+
+async function readXml(zip: ZipPackage, path: string): Promise<XmlNode | undefined> {
+  const data = await zip.read(path);
+  if (!data) {
+    return undefined;
+  }
+  const nodes = parser.parse(data.toString('utf8')) as XmlNode[];
+  return nodes.find(node => !tagOf(node).startsWith('?'));
+}
+
+/**
+ * Resolve a relationship target against the part that references it
+ */
+export function resolvePartPath(partPath: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const segments = partPath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+}
+
+async function readRels(zip: ZipPackage, partPath: string): Promise<Map<string, Relationship>> {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+  const root = await readXml(zip, relsPath);
+  const rels = new Map<string, Relationship>();
+
+  childrenNamed(root, 'Relationship').forEach(rel => {
+    const id = attr(rel, 'Id');
+    const target = attr(rel, 'Target') ?? '';
+    const external = attr(rel, 'TargetMode') === 'External';
+    if (id) {
+      rels.set(id, {
+        type: (attr(rel, 'Type') ?? '').split('/').pop() ?? '',
+        target: external ? target : resolvePartPath(partPath, target),
+        external,
+      });
+    }
+  });
+  return rels;
+}
+
+function loadPart(context: ImportContext, path: string): Promise<Part | undefined> {
+  let part = context.parts.get(path);
+  if (!part) {
+    part = (async () => {
+      const xml = await readXml(context.zip, path);
+      return xml ? { path, xml, rels: await readRels(context.zip, path) } : undefined;
+    })();
+    context.parts.set(path, part);
+  }
+  return part;
+}
+
+function findRel(part: Part, type: string): Relationship | undefined {
+  return Array.from(part.rels.values()).find(rel => rel.type === type);
+}
+
+// ---------------------------------------------------------------------------
+// Colors
+// ---------------------------------------------------------------------------
+
+interface ImportedColor {
+  hex: string;
+  fromTheme: boolean;   // Scheme colors become color roles; literal colors stay hex
+}
+
+async function readThemeColors(zip: ZipPackage, presentation: Part): Promise<Record<string, string>> {
+  const themePath = findRel(presentation, 'theme')?.target ?? 'ppt/theme/theme1.xml';
+  const theme = await readXml(zip, themePath);
+  const scheme = pathOf(theme, 'a:themeElements', 'a:clrScheme');
+  const colors: Record<string, string> = {};
+
+  childrenOf(scheme).forEach(entry => {
+    const srgb = child(entry, 'a:srgbClr');
+    const sys = child(entry, 'a:sysClr');
+    const value = attr(srgb, 'val') ?? attr(sys, 'lastClr');
+    if (value) {
+      colors[tagOf(entry).replace('a:', '')] = `#${value.toUpperCase()}`;
+    }
+  });
+
+  // Default master color mapping
+  colors.tx1 = colors.tx1 ?? colors.dk1;
+  colors.bg1 = colors.bg1 ?? colors.lt1;
+  colors.tx2 = colors.tx2 ?? colors.dk2;
+  colors.bg2 = colors.bg2 ?? colors.lt2;
+  return colors;
+}
+
+/**
+ * Read a color choice (srgbClr, schemeClr or sysClr) including lumMod/lumOff
+ */
+function readColorChoice(context: ImportContext, node: XmlNode | undefined): ImportedColor | undefined {
+  const srgb = child(node, 'a:srgbClr');
+  if (srgb && attr(srgb, 'val')) {
+    return { hex: applyLuminance(`#${attr(srgb, 'val')}`, srgb), fromTheme: false };
+  }
+  const sys = child(node, 'a:sysClr');
+  if (sys && attr(sys, 'lastClr')) {
+    return { hex: applyLuminance(`#${attr(sys, 'lastClr')}`, sys), fromTheme: false };
+  }
+  const scheme = child(node, 'a:schemeClr');
+  const base = scheme ? context.themeColors[attr(scheme, 'val') ?? ''] : undefined;
+  if (scheme && base) {
+    return { hex: applyLuminance(base, scheme), fromTheme: true };
+  }
+  return undefined;
+}
+
+function readSolidFill(context: ImportContext, node: XmlNode | undefined): ImportedColor | undefined {
+  const fill = child(node, 'a:solidFill');
+  return fill ? readColorChoice(context, fill) : undefined;
+}
+
+function toColorValue(context: ImportContext, color: ImportedColor): ColorRole | string {
+  return color.fromTheme
+    ? findNearestColorRole(color.hex, context.colorSet) ?? color.hex
+    : color.hex;
+}
+
+// Apply luminance modulation/offset (in 1/1000 percent) via HSL lightness
+function applyLuminance(hex: string, node: XmlNode): string {
+  const lumMod = attr(child(node, 'a:lumMod'), 'val');
+  const lumOff = attr(child(node, 'a:lumOff'), 'val');
+  const normalized = hex.toUpperCase();
+  if (!lumMod && !lumOff) {
+    return normalized;
+  }
+
+  const value = parseInt(normalized.slice(1), 16);
+  const [r, g, b] = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => c / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let lightness = (max + min) / 2;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = 0;
+  if (delta !== 0) {
+    if (max === r) {
+      hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+  }
+  hue = (hue * 60 + 360) % 360;
+
+  lightness = lightness * (Number(lumMod ?? 100000) / 100000) + Number(lumOff ?? 0) / 100000;
+  lightness = Math.min(1, Math.max(0, lightness));
+
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const sector = Math.floor(hue / 60);
+  const [r1, g1, b1] = [
+    [chroma, x, 0], [x, chroma, 0], [0, chroma, x],
+    [0, x, chroma], [x, 0, chroma], [chroma, 0, x],
+  ][sector % 6];
+
+  return '#' + [r1, g1, b1]
+    .map(c => Math.round((c + m) * 255).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+interface EmuBox {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+  rotation?: number;
+}
+
+// Maps child-space EMU of a group into slide-space EMU
+interface GroupTransform {
+  offX: number;
+  offY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+const IDENTITY_TRANSFORM: GroupTransform = { offX: 0, offY: 0, scaleX: 1, scaleY: 1 };
+
+function readXfrm(xfrm: XmlNode | undefined): EmuBox | undefined {
+  const off = child(xfrm, 'a:off');
+  const ext = child(xfrm, 'a:ext');
+  if (!off || !ext) {
+    return undefined;
+  }
+  const rot = Number(attr(xfrm, 'rot') ?? 0);
+  return {
+    x: Number(attr(off, 'x') ?? 0),
+    y: Number(attr(off, 'y') ?? 0),
+    cx: Number(attr(ext, 'cx') ?? 0),
+    cy: Number(attr(ext, 'cy') ?? 0),
+    rotation: rot ? rot / 60000 : undefined,
+  };
+}
+
+function toCanvas(context: ImportContext, box: EmuBox, group: GroupTransform): Coordinates {
+  const x = group.offX + box.x * group.scaleX;
+  const y = group.offY + box.y * group.scaleY;
+  return {
+    x: Math.round(context.offsetX + x * context.scale),
+    y: Math.round(context.offsetY + y * context.scale),
+    width: Math.round(box.cx * group.scaleX * context.scale),
+    height: Math.round(box.cy * group.scaleY * context.scale),
+  };
+}
+
+function toTransform(box: EmuBox): Transform | undefined {
+  return box.rotation ? { rotation: box.rotation } : undefined;
+}
+
+function groupTransform(grpSp: XmlNode, parent: GroupTransform): GroupTransform {
+  const xfrm = pathOf(grpSp, 'p:grpSpPr', 'a:xfrm');
+  const box = readXfrm(xfrm);
+  const chOff = child(xfrm, 'a:chOff');
+  const chExt = child(xfrm, 'a:chExt');
+  if (!box || !chOff || !chExt) {
+    return parent;
+  }
+  const scaleX = Number(attr(chExt, 'cx')) ? box.cx / Number(attr(chExt, 'cx')) : 1;
+  const scaleY = Number(attr(chExt, 'cy')) ? box.cy / Number(attr(chExt, 'cy')) : 1;
+  const offX = box.x - Number(attr(chOff, 'x') ?? 0) * scaleX;
+  const offY = box.y - Number(attr(chOff, 'y') ?? 0) * scaleY;
+  return {
+    offX: parent.offX + offX * parent.scaleX,
+    offY: parent.offY + offY * parent.scaleY,
+    scaleX: parent.scaleX * scaleX,
+    scaleY: parent.scaleY * scaleY,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Placeholders
+// ---------------------------------------------------------------------------
+
+interface Placeholder {
+  type: string;
+  idx?: string;
+}
+
+function readPlaceholder(shape: XmlNode): Placeholder | undefined {
+  const nv = child(shape, 'p:nvSpPr') ?? child(shape, 'p:nvPicPr') ?? child(shape, 'p:nvGraphicFramePr');
+  const ph = pathOf(nv, 'p:nvPr', 'p:ph');
+  if (!ph) {
+    return undefined;
+  }
+  return { type: attr(ph, 'type') ?? 'obj', idx: attr(ph, 'idx') };
+}
+
+// Masters only define title/body/date/footer/number placeholders
+function basePlaceholderType(type: string): string {
+  if (type === 'ctrTitle') {
+    return 'title';
+  }
+  if (type === 'subTitle' || type === 'obj') {
+    return 'body';
+  }
+  return type;
+}
+
+/**
+ * Find the frame of a placeholder on the slide layout (by idx, then type)
+ * or on the master (by type) when the slide does not override it
+ */
+function inheritedXfrm(slide: SlideContext, placeholder: Placeholder): EmuBox | undefined {
+  for (const part of slide.inherited) {
+    const shapes = descendants(pathOf(part.xml, 'p:cSld', 'p:spTree'), 'p:sp');
+    const candidates = shapes
+      .map(shape => ({ shape, ph: readPlaceholder(shape) }))
+      .filter((item): item is { shape: XmlNode; ph: Placeholder } => !!item.ph);
+
+    const match =
+      (placeholder.idx !== undefined && candidates.find(item => item.ph.idx === placeholder.idx)) ||
+      candidates.find(item => item.ph.type === placeholder.type) ||
+      candidates.find(item => basePlaceholderType(item.ph.type) === basePlaceholderType(placeholder.type));
+
+    const box = match ? readXfrm(pathOf(match.shape, 'p:spPr', 'a:xfrm')) : undefined;
+    if (box) {
+      return box;
+    }
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+interface ImportedText {
+  content: string;
+  bulleted: boolean;
+  fontSize?: number;      // Canvas pixels
+  bold?: boolean;
+  color?: ImportedColor;
+  align?: 'left' | 'center' | 'right' | 'justify';
+}
+
+function readParagraphText(paragraph: XmlNode): string {
+  return childrenOf(paragraph).map(item => {
+    const tag = tagOf(item);
+    if (tag === 'a:r' || tag === 'a:fld') {
+      return textOf(child(item, 'a:t'));
+    }
+    return tag === 'a:br' ? '\n' : '';
+  }).join('');
+}
+
+function readTextBody(
+  context: ImportContext,
+  txBody: XmlNode | undefined,
+  impliedBullets = false
+): ImportedText {
+  const paragraphs = childrenNamed(txBody, 'a:p');
+  let bulleted = false;
+
+  const lines = paragraphs.map(paragraph => {
+    const pPr = child(paragraph, 'a:pPr');
+    const text = readParagraphText(paragraph);
+    const hasBullet = !!text.trim() && (
+      !!child(pPr, 'a:buChar') ||
+      !!child(pPr, 'a:buAutoNum') ||
+      (impliedBullets && !child(pPr, 'a:buNone'))
+    );
+    bulleted = bulleted || hasBullet;
+    return hasBullet ? `• ${text}` : text;
+  });
+
+  // Drop trailing empty paragraphs
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+    lines.pop();
+  }
+
+  const firstRun = paragraphs.flatMap(paragraph => childrenNamed(paragraph, 'a:r'))[0];
+  const rPr = child(firstRun, 'a:rPr');
+  const size = Number(attr(rPr, 'sz'));
+  const algn = attr(child(paragraphs[0], 'a:pPr'), 'algn');
+
+  return {
+    content: lines.join('\n'),
+    bulleted,
+    fontSize: size ? Math.round((size / 100) * EMU_PER_POINT * context.scale) : undefined,
+    bold: attr(rPr, 'b') === '1' || undefined,
+    color: readSolidFill(context, rPr),
+    align: algn ? ALIGNMENTS[algn] : undefined,
+  };
+}
+
+function createTextObject(
+  context: ImportContext,
+  text: ImportedText,
+  role: ContentRole,
+  coordinates: Coordinates,
+  transform: Transform | undefined,
+  name: string | undefined
+): TextObject {
+  const effectiveRole: ContentRole = role === 'body' && text.bulleted ? 'bullets' : role;
+  const color = text.color ? toColorValue(context, text.color) : undefined;
+  const isRole = !!color && color in context.colorSet.colors;
+
+  const customStyles: TextObject['customStyles'] = {
+    fontSize: text.fontSize,
+    fontWeight: text.bold ? 700 : undefined,
+    color: color && !isRole ? color : undefined,
+    textAlign: text.align,
+  };
+  const hasCustomStyles = Object.values(customStyles).some(value => value !== undefined);
+
+  return {
+    id: uuidv4(),
+    type: 'text',
+    content: text.content,
+    role: effectiveRole,
+    typographicRole: TYPOGRAPHIC_ROLES[effectiveRole],
+    colorRole: isRole ? (color as ColorRole) : undefined,
+    customStyles: hasCustomStyles ? customStyles : undefined,
+    coordinates,
+    transform,
+    name,
+    visible: true,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Media
+// ---------------------------------------------------------------------------
+
+const dataUrlUploader: PptxMediaUploader = async (data, _fileName, contentType) =>
+  `data:${contentType};base64,${data.toString('base64')}`;
+
+/**
+ * Upload a media part once and reuse its URL for every reference
+ */
+function importMedia(context: ImportContext, path: string): Promise<string> | undefined {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  const contentType = MEDIA_TYPES[extension];
+  if (!contentType || !context.zip.has(path)) {
+    return undefined;
+  }
+
+  let url = context.media.get(path);
+  if (!url) {
+    url = context.zip.read(path).then(data =>
+      context.uploadMedia(data ?? Buffer.alloc(0), path.split('/').pop() ?? path, contentType)
+    );
+    context.media.set(path, url);
+  }
+  return url;
+}
+
+async function readBlipImage(
+  context: ImportContext,
+  part: Part,
+  blipFill: XmlNode | undefined
+): Promise<string | undefined> {
+  const embed = attr(child(blipFill, 'a:blip'), 'r:embed');
+  const rel = embed ? part.rels.get(embed) : undefined;
+  if (!rel || rel.external) {
+    return rel?.target;
+  }
+  return importMedia(context, rel.target);
+}
+
+// ---------------------------------------------------------------------------
+// Shape tree
+// ---------------------------------------------------------------------------
+
+function nameOf(node: XmlNode, nvTag: string): string | undefined {
+  return attr(pathOf(node, nvTag, 'p:cNvPr'), 'name');
+}
+
+async function importShape(
+  context: ImportContext,
+  slide: SlideContext,
+  sp: XmlNode,
+  group: GroupTransform
+): Promise<SlideObjectUnion[]> {
+  const placeholder = readPlaceholder(sp);
+  const spPr = child(sp, 'p:spPr');
+  const box = readXfrm(child(spPr, 'a:xfrm')) ?? (placeholder ? inheritedXfrm(slide, placeholder) : undefined);
+  const name = nameOf(sp, 'p:nvSpPr') ?? nameOf(sp, 'p:nvCxnSpPr');
+  if (!box) {
+    return [];
+  }
+
+  const coordinates = toCanvas(context, box, group);
+  const transform = toTransform(box);
+  const objects: SlideObjectUnion[] = [];
+
+  // Filled or outlined geometry becomes a shape behind its text
+  const line = child(spPr, 'a:ln');
+  const fill = readSolidFill(context, spPr);
+  const stroke = line && !child(line, 'a:noFill') ? readSolidFill(context, line) : undefined;
+  const preset = attr(child(spPr, 'a:prstGeom'), 'prst');
+  if (fill || stroke) {
+    const shape: ShapeObject = {
+      id: uuidv4(),
+      type: 'shape',
+      shape: (preset && PRESET_SHAPES[preset]) || 'rectangle',
+      fill: fill ? toColorValue(context, fill) : undefined,
+      stroke: stroke ? toColorValue(context, stroke) : undefined,
+      strokeWidth: stroke ? Math.max(1, Math.round(Number(attr(line, 'w') ?? EMU_PER_POINT) * context.scale)) : 0,
+      coordinates,
+      transform,
+      name,
+      visible: true,
+    };
+    objects.push(shape);
+  }
+
+  const impliedBullets = !!placeholder && basePlaceholderType(placeholder.type) === 'body' && placeholder.type !== 'subTitle';
+  const text = readTextBody(context, child(sp, 'p:txBody'), impliedBullets);
+  if (text.content.trim()) {
+    const role = placeholder ? PLACEHOLDER_ROLES[placeholder.type] ?? 'body' : 'body';
+    objects.push(createTextObject(context, text, role, coordinates, transform, name));
+  }
+
+  return objects;
+}
+
+async function importPicture(
+  context: ImportContext,
+  slide: SlideContext,
+  pic: XmlNode,
+  group: GroupTransform
+): Promise<ImageObject | undefined> {
+  const placeholder = readPlaceholder(pic);
+  const box = readXfrm(pathOf(pic, 'p:spPr', 'a:xfrm')) ?? (placeholder ? inheritedXfrm(slide, placeholder) : undefined);
+  const cNvPr = pathOf(pic, 'p:nvPicPr', 'p:cNvPr');
+  const src = await readBlipImage(context, slide.part, child(pic, 'p:blipFill'));
+
+  if (!box || !src) {
+    context.warnings.push(`Slide ${slide.number}: picture "${attr(cNvPr, 'name') ?? ''}" uses an unsupported format`);
+    return undefined;
+  }
+
+  return {
+    id: uuidv4(),
+    type: 'image',
+    src,
+    alt: attr(cNvPr, 'descr') || attr(cNvPr, 'name'),
+    fit: 'fill',
+    coordinates: toCanvas(context, box, group),
+    transform: toTransform(box),
+    name: attr(cNvPr, 'name'),
+    visible: true,
+  };
+}
+
+function importTable(
+  context: ImportContext,
+  frame: XmlNode,
+  tbl: XmlNode,
+  coordinates: Coordinates
+): TableObject {
+  const columnCount = childrenNamed(child(tbl, 'a:tblGrid'), 'a:gridCol').length;
+  const hasHeader = attr(child(tbl, 'a:tblPr'), 'firstRow') === '1';
+  const rows = childrenNamed(tbl, 'a:tr').map(tr => childrenNamed(tr, 'a:tc'));
+  const bodyRows = hasHeader ? rows.slice(1) : rows;
+
+  const cellText = (tc: XmlNode | undefined) => tc && attr(tc, 'hMerge') !== '1' && attr(tc, 'vMerge') !== '1'
+    ? readTextBody(context, child(tc, 'a:txBody')).content
+    : '';
+  const widthOf = (cells: XmlNode[]) => Math.max(columnCount, cells.length);
+
+  const merges: TableCellMerge[] = [];
+  bodyRows.forEach((cells, row) => {
+    cells.forEach((tc, col) => {
+      const colSpan = Number(attr(tc, 'gridSpan') ?? 1);
+      const rowSpan = Number(attr(tc, 'rowSpan') ?? 1);
+      if (colSpan > 1 || rowSpan > 1) {
+        merges.push({ row, col, rowSpan, colSpan });
+      }
+    });
+  });
+
+  // Column alignment follows the first body row
+  const columnAlignments: TableColumnAlignment[] = (bodyRows[0] ?? []).map(tc => {
+    const algn = attr(pathOf(tc, 'a:txBody', 'a:p', 'a:pPr'), 'algn');
+    return algn === 'ctr' ? 'center' : algn === 'r' ? 'right' : 'left';
+  });
+
+  return {
+    id: uuidv4(),
+    type: 'table',
+    headers: hasHeader && rows[0]
+      ? Array.from({ length: widthOf(rows[0]) }, (_, col) => cellText(rows[0][col]))
+      : undefined,
+    data: bodyRows.map(cells => Array.from({ length: widthOf(cells) }, (_, col) => cellText(cells[col]))),
+    merges: merges.length > 0 ? merges : undefined,
+    columnAlignments: columnAlignments.some(align => align !== 'left') ? columnAlignments : undefined,
+    coordinates,
+    name: nameOf(frame, 'p:nvGraphicFramePr'),
+    visible: true,
+  };
+}
+
+function importGraphicFrame(
+  context: ImportContext,
+  slide: SlideContext,
+  frame: XmlNode,
+  group: GroupTransform
+): TableObject | undefined {
+  const graphicData = pathOf(frame, 'a:graphic', 'a:graphicData');
+  const tbl = child(graphicData, 'a:tbl');
+  const box = readXfrm(child(frame, 'p:xfrm'));
+  const name = nameOf(frame, 'p:nvGraphicFramePr') ?? '';
+
+  if (tbl && box) {
+    return importTable(context, frame, tbl, toCanvas(context, box, group));
+  }
+
+  const kind = (attr(graphicData, 'uri') ?? '').includes('/chart') ? 'chart' : 'embedded object';
+  context.warnings.push(`Slide ${slide.number}: ${kind} "${name}" was not imported`);
+  return undefined;
+}
+
+async function importShapeTree(
+  context: ImportContext,
+  slide: SlideContext,
+  tree: XmlNode | undefined,
+  group: GroupTransform
+): Promise<SlideObjectUnion[]> {
+  const objects: SlideObjectUnion[] = [];
+
+  for (const node of childrenOf(tree)) {
+    switch (tagOf(node)) {
+      case 'p:sp':
+      case 'p:cxnSp':
+        objects.push(...await importShape(context, slide, node, group));
+        break;
+      case 'p:pic': {
+        const image = await importPicture(context, slide, node, group);
+        if (image) {
+          objects.push(image);
+        }
+        break;
+      }
+      case 'p:graphicFrame': {
+        const table = importGraphicFrame(context, slide, node, group);
+        if (table) {
+          objects.push(table);
+        }
+        break;
+      }
+      case 'p:grpSp':
+        objects.push(...await importShapeTree(context, slide, node, groupTransform(node, group)));
+        break;
+    }
+  }
+
+  return objects;
+}
+
+// ---------------------------------------------------------------------------
+// Slides
+// ---------------------------------------------------------------------------
+
+async function readBackground(
+  context: ImportContext,
+  parts: Part[]
+): Promise<Slide['background']> {
+  for (const part of parts) {
+    const bg = pathOf(part.xml, 'p:cSld', 'p:bg');
+    if (!bg) {
+      continue;
+    }
+    const bgPr = child(bg, 'p:bgPr');
+    const image = bgPr ? await readBlipImage(context, part, child(bgPr, 'a:blipFill')) : undefined;
+    if (image) {
+      return { type: 'image', value: image };
+    }
+    const color = bgPr ? readSolidFill(context, bgPr) : readColorChoice(context, child(bg, 'p:bgRef'));
+    if (color) {
+      return { type: 'color', value: color.hex };
+    }
+  }
+  return undefined;
+}
+
+async function readNotes(context: ImportContext, part: Part): Promise<string | undefined> {
+  const rel = findRel(part, 'notesSlide');
+  const notes = rel ? await loadPart(context, rel.target) : undefined;
+  const body = descendants(pathOf(notes?.xml, 'p:cSld', 'p:spTree'), 'p:sp')
+    .find(sp => readPlaceholder(sp)?.type === 'body');
+  const text = body ? readTextBody(context, child(body, 'p:txBody')).content.trim() : '';
+  return text || undefined;
+}
+
+function inferSlideType(layoutType: string | undefined, objects: SlideObjectUnion[]): SlideType {
+  const has = (predicate: (object: SlideObjectUnion) => boolean) => objects.some(predicate);
+
+  if (has(object => object.type === 'table')) {
+    return SlideType.TABLE;
+  }
+  if (layoutType && LAYOUT_SLIDE_TYPES[layoutType]) {
+    return LAYOUT_SLIDE_TYPES[layoutType];
+  }
+  if (objects.length === 0) {
+    return SlideType.BLANK;
+  }
+  if (has(object => object.type === 'text' && object.role === 'title')) {
+    return SlideType.TITLE;
+  }
+  if (has(object => object.type === 'image')) {
+    return has(object => object.type === 'text' && object.role !== 'header')
+      ? SlideType.IMAGE_WITH_TEXT
+      : SlideType.IMAGE;
+  }
+  return has(object => object.type === 'text' && object.role === 'bullets')
+    ? SlideType.BULLETS
+    : SlideType.CONTENT;
+}
+
+async function importSlide(context: ImportContext, part: Part, order: number): Promise<Slide> {
+  const layoutRel = findRel(part, 'slideLayout');
+  const layout = layoutRel ? await loadPart(context, layoutRel.target) : undefined;
+  const masterRel = layout ? findRel(layout, 'slideMaster') : undefined;
+  const master = masterRel ? await loadPart(context, masterRel.target) : undefined;
+  const inherited = [layout, master].filter((item): item is Part => !!item);
+
+  const slide: SlideContext = { part, inherited, number: order + 1 };
+  const objects = (await importShapeTree(context, slide, pathOf(part.xml, 'p:cSld', 'p:spTree'), IDENTITY_TRANSFORM))
+    .map((object, index) => ({ ...object, zIndex: index }));
+
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    type: inferSlideType(attr(layout?.xml, 'type'), objects),
+    objects,
+    order,
+    background: await readBackground(context, [part, ...inherited]),
+    notes: await readNotes(context, part),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+async function readTitle(zip: ZipPackage): Promise<string | undefined> {
+  const core = await readXml(zip, 'docProps/core.xml');
+  const title = textOf(child(core, 'dc:title')).trim();
+  return title || undefined;
+}
+
+/**
+ * Import a .pptx file into slides on the 1920x1080 canvas. Decks with a
+ * different aspect ratio are scaled uniformly and centered.
+ */
+export async function importPptx(
+  data: Buffer | ArrayBuffer | Uint8Array,
+  options: PptxImportOptions = {}
+): Promise<PptxImportResult> {
+  const zip = await openZipPackage(data, PPTX_LIMITS, 'PowerPoint file');
+
+  const presentationXml = await readXml(zip, 'ppt/presentation.xml');
+  if (!presentationXml) {
+    throw new Error('Invalid PowerPoint file: missing ppt/presentation.xml');
+  }
+  const presentation: Part = {
+    path: 'ppt/presentation.xml',
+    xml: presentationXml,
+    rels: await readRels(zip, 'ppt/presentation.xml'),
+  };
+
+  const size = child(presentationXml, 'p:sldSz');
+  const slideWidth = Number(attr(size, 'cx')) || DEFAULT_SLIDE_SIZE.cx;
+  const slideHeight = Number(attr(size, 'cy')) || DEFAULT_SLIDE_SIZE.cy;
+  const scale = Math.min(SLIDE_DIMENSIONS.WIDTH / slideWidth, SLIDE_DIMENSIONS.HEIGHT / slideHeight);
+
+  const context: ImportContext = {
+    zip,
+    scale,
+    offsetX: (SLIDE_DIMENSIONS.WIDTH - slideWidth * scale) / 2,
+    offsetY: (SLIDE_DIMENSIONS.HEIGHT - slideHeight * scale) / 2,
+    themeColors: await readThemeColors(zip, presentation),
+    colorSet: options.colorSet ?? DEFAULT_COLOR_SET,
+    uploadMedia: options.uploadMedia ?? dataUrlUploader,
+    media: new Map(),
+    parts: new Map(),
+    warnings: [],
+  };
+
+  const slides: Slide[] = [];
+  for (const sldId of childrenNamed(child(presentationXml, 'p:sldIdLst'), 'p:sldId')) {
+    const rel = presentation.rels.get(attr(sldId, 'r:id') ?? '');
+    const part = rel ? await loadPart(context, rel.target) : undefined;
+    if (part) {
+      slides.push(await importSlide(context, part, slides.length));
+    }
+  }
+
+  const firstHeading = slides
+    .flatMap(slide => slide.objects)
+    .find((object): object is TextObject =>
+      object.type === 'text' && (object.role === 'title' || object.role === 'header'));
+
+  return {
+    title: (await readTitle(zip)) ?? firstHeading?.content ?? 'Imported Presentation',
+    slides,
+    warnings: context.warnings,
+  };
+}
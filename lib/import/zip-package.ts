@@ -0,0 +1,95 @@
+import JSZip from 'jszip';
+
+/**
+ * Zip packages (.docx, .pptx) read from uploads, within limits
+ * The central directory declares every part and its size; packages with
+ * too many parts or too many bytes are rejected before any part is read.
+ * A crafted package can declare less than it holds, so parts are also cut
+ * off while they inflate, against what is left of the package's bytes.
+ */
+
+export interface ZipPackageLimits {
+  maxEntries: number;
+  maxBytes: number;     // Uncompressed, across the package
+}
+
+export interface ZipPackage {
+  has(path: string): boolean;
+  // The part's bytes, or undefined when there is no such part; maxBytes
+  // caps this part below what is left of the package's bytes
+  read(path: string, maxBytes?: number): Promise<Buffer | undefined>;
+}
+
+// JSZip keeps the declared size private
+function declaredSize(file: JSZip.JSZipObject): number {
+  return (file as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+// The part's bytes, given up as soon as they pass maxBytes or the
+// package runs out (consume says whether its bytes are left)
+function inflatePart(
+  file: JSZip.JSZipObject,
+  maxBytes: number,
+  consume: (bytes: number) => boolean,
+  tooLarge: () => Error
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes || !consume(chunk.length)) {
+        // Unread, the stream stops inflating once its buffer is full
+        stream.removeAllListeners('data');
+        stream.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks, size)));
+  });
+}
+
+/**
+ * Open a zip package; `name` is what errors call it ("Invalid <name>: ...")
+ */
+export async function openZipPackage(
+  data: Buffer | ArrayBuffer | Uint8Array,
+  limits: ZipPackageLimits,
+  name: string
+): Promise<ZipPackage> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    console.error(`Error reading ${name}:`, error);
+    throw new Error(`Invalid ${name}: not a zip package`);
+  }
+
+  const tooLarge = () => new Error(
+    `Invalid ${name}: over ${limits.maxEntries} parts or ${Math.round(limits.maxBytes / (1024 * 1024))} MB uncompressed`
+  );
+  const files = Object.values(zip.files).filter(file => !file.dir);
+  const declared = files.reduce((total, file) => total + declaredSize(file), 0);
+  if (files.length > limits.maxEntries || declared > limits.maxBytes) {
+    throw tooLarge();
+  }
+
+  let remaining = limits.maxBytes;
+  return {
+    has: path => !!zip.file(path),
+    read: async (path, maxBytes = limits.maxBytes) => {
+      const file = zip.file(path);
+      if (!file) {
+        return undefined;
+      }
+      if (declaredSize(file) > Math.min(maxBytes, remaining)) {
+        throw tooLarge();
+      }
+      return inflatePart(file, maxBytes, bytes => (remaining -= bytes) >= 0, tooLarge);
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import {
+  buildAnimationSteps,
+  getBuildCount,
+  getObjectBuildStates,
+  resolveTransition,
+  setObjectAnimation,
+  moveObjectAnimation,
+} from '../animation'
+import { SlideAnimation } from '../slide'
+import { buildTimingXml, buildTransitionXml, getShapeIds, uniqueShapeIds } from '../../export/pptx-animations'
+
+const objects = ['title', 'a', 'b', 'c', 'd'].map(id => ({ id }))
+
+function slide(animations: SlideAnimation[]) {
+  return { objects, animations }
+}
+
+describe('Animation Model', () => {
+  describe('build steps', () => {
+    it('should start a build per click and time the others off the previous animation', () => {
+      const { scheduled, buildCount } = buildAnimationSteps(slide([
+        { objectId: 'a', trigger: 'onClick', type: 'fadeIn' },
+        { objectId: 'b', trigger: 'withPrevious', type: 'zoomIn', delay: 100 },
+        { objectId: 'c', trigger: 'afterPrevious', type: 'slideIn', duration: 300 },
+        { objectId: 'd', trigger: 'onClick', type: 'bounce' },
+      ]))
+
+      expect(buildCount).toBe(2)
+      expect(scheduled.map(item => [item.animation.objectId, item.build, item.startAt])).toEqual([
+        ['a', 1, 0],
+        ['b', 1, 100],
+        ['c', 1, 600],
+        ['d', 2, 0],
+      ])
+    })
+
+    it('should play entry animations with the slide and skip missing objects', () => {
+      const animations: SlideAnimation[] = [
+        { objectId: 'title', trigger: 'onEnter', type: 'fadeIn' },
+        { objectId: 'gone', trigger: 'onClick', type: 'fadeIn' },
+        { objectId: 'a', trigger: 'onEnter', type: 'fadeIn', duration: 200 },
+      ]
+
+      expect(getBuildCount(slide(animations))).toBe(0)
+      expect(buildAnimationSteps(slide(animations)).scheduled.map(item => [item.build, item.startAt])).toEqual([
+        [0, 0],
+        [0, 500],
+      ])
+    })
+
+    it('should hide objects until their build and play the current one', () => {
+      const deck = slide([
+        { objectId: 'a', trigger: 'onClick', type: 'fadeIn' },
+        { objectId: 'b', trigger: 'onClick', type: 'fadeIn' },
+      ])
+
+      const start = getObjectBuildStates(deck, 0)
+      expect(start.get('a')?.status).toBe('hidden')
+      expect(start.has('title')).toBe(false)
+
+      const second = getObjectBuildStates(deck, 2)
+      expect(second.get('a')?.status).toBe('shown')
+      expect(second.get('b')).toMatchObject({ status: 'playing', startAt: 0, duration: 500 })
+    })
+  })
+
+  describe('authoring', () => {
+    it('should add, update, clear and reorder object animations', () => {
+      let animations = setObjectAnimation(undefined, 'a', { type: 'zoomIn' })
+      animations = setObjectAnimation(animations, 'b', {})
+      animations = setObjectAnimation(animations, 'a', { trigger: 'afterPrevious' })
+
+      expect(animations).toEqual([
+        { objectId: 'a', trigger: 'afterPrevious', type: 'zoomIn' },
+        { objectId: 'b', trigger: 'onClick', type: 'fadeIn' },
+      ])
+      expect(moveObjectAnimation(animations, 'b', -1).map(item => item.objectId)).toEqual(['b', 'a'])
+      expect(moveObjectAnimation(animations, 'b', 1)).toEqual(animations)
+      expect(setObjectAnimation(animations, 'a', null).map(item => item.objectId)).toEqual(['b'])
+    })
+
+    it('should fill transition defaults with the deck fallback', () => {
+      expect(resolveTransition(undefined, 'slide')).toEqual({ type: 'slide', duration: 500, direction: 'left' })
+      expect(resolveTransition({ type: 'zoom', duration: 800 })).toEqual({ type: 'zoom', duration: 800, direction: 'left' })
+    })
+  })
+
+  describe('PowerPoint export', () => {
+    it('should map transitions to PowerPoint effects and speeds', () => {
+      expect(buildTransitionXml(undefined)).toBe('')
+      expect(buildTransitionXml({ type: 'none' })).toBe('')
+      expect(buildTransitionXml({ type: 'slide', direction: 'up', duration: 1000 }))
+        .toBe('<p:transition spd="slow"><p:push dir="u"/></p:transition>')
+    })
+
+    it('should write one click sequence per build targeting shapes by name', () => {
+      const xml = '<p:cNvPr id="2" name="a"/><p:cNvPr id="3" name="b" descr="x">'
+      const shapeIds = getShapeIds(xml)
+      const timing = buildTimingXml(slide([
+        { objectId: 'a', trigger: 'onClick', type: 'fadeIn' },
+        { objectId: 'b', trigger: 'onClick', type: 'zoomIn' },
+        { objectId: 'c', trigger: 'onClick', type: 'fadeIn' },
+      ]), shapeIds)
+
+      expect(shapeIds).toEqual({ a: 2, b: 3 })
+      expect(timing.match(/nodeType="clickEffect"/g)).toHaveLength(2)
+      expect(timing).toContain('presetID="10" presetClass="entr"')
+      expect(timing).toContain('presetID="53" presetClass="entr"')
+      expect(timing).toContain('<p:spTgt spid="3"/>')
+      expect(buildTimingXml(slide([]), shapeIds)).toBe('')
+    })
+
+    it('should renumber shapes that share an id', () => {
+      const xml = uniqueShapeIds('<p:cNvPr id="2" name="a"/><p:cNvPr id="3" name="b"/><p:cNvPr id="2" name="t"/>')
+
+      expect(getShapeIds(xml)).toEqual({ a: 2, b: 3, t: 4 })
+    })
+  })
+})
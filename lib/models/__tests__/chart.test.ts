@@ -0,0 +1,112 @@
+import {
+  normalizeChartData,
+  getValueRange,
+  getNiceTicks,
+  getSeriesColor,
+  getChartColors,
+  formatChartValue,
+} from '../chart'
+import { DEFAULT_COLOR_SET } from '../colors'
+
+describe('Chart Model', () => {
+  describe('normalizeChartData', () => {
+    it('should keep typed chart data', () => {
+      const data = normalizeChartData({
+        categories: ['Q1', 'Q2'],
+        series: [{ name: 'Revenue', values: [10, 20] }],
+      })
+
+      expect(data.categories).toEqual(['Q1', 'Q2'])
+      expect(data.series[0].name).toBe('Revenue')
+      expect(data.series[0].values).toEqual([10, 20])
+    })
+
+    it('should convert the legacy labels/values shape', () => {
+      const data = normalizeChartData({ labels: ['A', 'B'], values: [1, '2'] })
+
+      expect(data.categories).toEqual(['A', 'B'])
+      expect(data.series).toHaveLength(1)
+      expect(data.series[0].values).toEqual([1, 2])
+    })
+
+    it('should convert Chart.js datasets', () => {
+      const data = normalizeChartData({
+        labels: ['Jan'],
+        datasets: [{ label: 'Sales', data: [5] }, { data: [7] }],
+      })
+
+      expect(data.series.map(s => s.name)).toEqual(['Sales', 'Series 2'])
+    })
+
+    it('should pad missing categories and handle empty input', () => {
+      expect(normalizeChartData({ values: [1, 2, 3] }).categories).toEqual(['1', '2', '3'])
+      expect(normalizeChartData(null)).toEqual({ categories: [], series: [] })
+    })
+  })
+
+  describe('getValueRange', () => {
+    const data = {
+      categories: ['A', 'B'],
+      series: [
+        { name: 'One', values: [10, -5] },
+        { name: 'Two', values: [20, 5] },
+      ],
+    }
+
+    it('should span all series values including zero', () => {
+      expect(getValueRange(data)).toEqual({ min: -5, max: 20 })
+    })
+
+    it('should sum positive and negative stacks', () => {
+      expect(getValueRange(data, { stacked: true })).toEqual({ min: -5, max: 30 })
+    })
+
+    it('should honor axis overrides', () => {
+      expect(getValueRange(data, { valueAxis: { min: 0, max: 100 } })).toEqual({ min: 0, max: 100 })
+    })
+  })
+
+  describe('getNiceTicks', () => {
+    it('should produce rounded ticks covering the range', () => {
+      expect(getNiceTicks(0, 95)).toEqual([0, 20, 40, 60, 80, 100])
+      expect(getNiceTicks(0, 1, 5)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1])
+    })
+
+    it('should cover negative values', () => {
+      const ticks = getNiceTicks(-12, 30)
+      expect(ticks[0]).toBeLessThanOrEqual(-12)
+      expect(ticks[ticks.length - 1]).toBeGreaterThanOrEqual(30)
+    })
+  })
+
+  describe('colors', () => {
+    it('should map series to chart color roles', () => {
+      expect(getSeriesColor({ name: 'A', values: [] }, 0, DEFAULT_COLOR_SET))
+        .toBe(DEFAULT_COLOR_SET.colors.chart1.value)
+      expect(getSeriesColor({ name: 'A', values: [] }, 9, DEFAULT_COLOR_SET))
+        .toBe(DEFAULT_COLOR_SET.colors.chart2.value)
+    })
+
+    it('should prefer series color overrides', () => {
+      expect(getSeriesColor({ name: 'A', values: [], colorRole: 'accent' }, 0, DEFAULT_COLOR_SET))
+        .toBe(DEFAULT_COLOR_SET.colors.accent.value)
+      expect(getSeriesColor({ name: 'A', values: [], color: '#123456' }, 0)).toBe('#123456')
+    })
+
+    it('should color pie slices per category', () => {
+      const colors = getChartColors('pie', {
+        categories: ['A', 'B', 'C'],
+        series: [{ name: 'Share', values: [1, 2, 3] }],
+      })
+      expect(colors).toHaveLength(3)
+    })
+  })
+
+  describe('formatChartValue', () => {
+    it('should abbreviate large numbers', () => {
+      expect(formatChartValue(12500)).toBe('12.5K')
+      expect(formatChartValue(3000000)).toBe('3M')
+      expect(formatChartValue(0.125)).toBe('0.13')
+    })
+  })
+})
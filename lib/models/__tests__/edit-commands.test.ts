@@ -0,0 +1,151 @@
+import {
+  COALESCE_WINDOW_MS,
+  EMPTY_EDIT_HISTORY,
+  EditCommand,
+  EditCommandType,
+  EditDocument,
+  MAX_EDIT_HISTORY,
+  createCommand,
+  objectCommandType,
+  parseHistory,
+  pushCommand,
+  redoCommand,
+  serializeHistory,
+  undoCommand,
+} from '../edit-commands'
+
+const text = (id: string, content: string) => ({ id, type: 'text', content, coordinates: { x: 0, y: 0, width: 100, height: 50 } })
+
+const slide = (id: string, order: number, objects = [text(`${id}-title`, id)]) => ({ id, order, type: 'content', objects })
+
+const deck = (): EditDocument => ({ slides: [slide('s1', 0), slide('s2', 1)], templateId: 'minimal' })
+
+const withTitle = (document: EditDocument, content: string): EditDocument => ({
+  ...document,
+  slides: document.slides.map(entry => (entry.id === 's1' ? slide('s1', 0, [text('s1-title', content)]) : entry)),
+})
+
+const command = (type: EditCommandType, before: EditDocument, after: EditDocument, options: { coalesceKey?: string; at?: number } = {}) =>
+  createCommand(type, before, after, options) as EditCommand
+
+const titleOf = (document: EditDocument) =>
+  (document.slides.find(entry => entry.id === 's1')?.objects?.[0] as { content?: string } | undefined)?.content
+
+describe('Edit commands', () => {
+  it('should record nothing when nothing changed', () => {
+    expect(createCommand('editText', deck(), deck())).toBeNull()
+  })
+
+  it('should undo and redo slide and template changes', () => {
+    const before = deck()
+    const after = { ...before, templateId: 'bold', slides: [before.slides[1], slide('s3', 1)] }
+    const change = command('changeTemplate', before, after, { at: 1 })
+    const history = pushCommand(EMPTY_EDIT_HISTORY, change)
+
+    const undone = undoCommand(history, after)
+    expect(undone?.document.slides.map(entry => entry.id)).toEqual(['s1', 's2'])
+    expect(undone?.document.templateId).toBe('minimal')
+    expect(undone?.history).toMatchObject({ past: [], future: [{ type: 'changeTemplate' }] })
+
+    const redone = redoCommand(undone?.history ?? EMPTY_EDIT_HISTORY, undone?.document ?? before)
+    expect(redone?.document.slides.map(entry => entry.id)).toEqual(['s2', 's3'])
+    expect(redone?.document.templateId).toBe('bold')
+    expect(redoCommand(redone?.history ?? EMPTY_EDIT_HISTORY, after)).toBeNull()
+    expect(undoCommand(EMPTY_EDIT_HISTORY, before)).toBeNull()
+  })
+
+  it('should remove a field the command added', () => {
+    const before: EditDocument = { slides: [] }
+    const after: EditDocument = { slides: [], outline: { slides: [] } }
+    const change = command('editOutline', before, after)
+    const undone = undoCommand(pushCommand(EMPTY_EDIT_HISTORY, change), after)
+
+    expect(undone?.document).toEqual({ slides: [] })
+  })
+
+  it('should keep what collaborators changed in between', () => {
+    const before = deck()
+    const after = withTitle(before, 'Mine')
+    const change = command('editText', before, after)
+    // Someone else added a slide since
+    const current = { ...after, slides: [...after.slides, slide('s9', 2)] }
+
+    const undone = undoCommand(pushCommand(EMPTY_EDIT_HISTORY, change), current)
+
+    expect(titleOf(undone?.document ?? before)).toBe('s1')
+    expect(undone?.document.slides.map(entry => entry.id)).toEqual(['s1', 's2', 's9'])
+  })
+
+  it('should coalesce keystrokes into one command', () => {
+    let document = deck()
+    let history = EMPTY_EDIT_HISTORY
+    const type = (content: string, at: number) => {
+      const next = withTitle(document, content)
+      history = pushCommand(history, command('editText', document, next, { coalesceKey: 's1/s1-title', at }))
+      document = next
+    }
+
+    type('H', 0)
+    type('He', 100)
+    type('Hey', 200)
+    expect(history.past).toHaveLength(1)
+    expect(history.past[0].redo).toHaveLength(1)
+
+    // A pause starts a new burst
+    type('Hey you', 200 + COALESCE_WINDOW_MS + 1)
+    expect(history.past).toHaveLength(2)
+
+    const first = undoCommand(history, document)
+    expect(titleOf(first?.document ?? document)).toBe('Hey')
+    const second = undoCommand(first?.history ?? history, first?.document ?? document)
+    expect(titleOf(second?.document ?? document)).toBe('s1')
+  })
+
+  it('should not fold an edit into one that was undone and redone', () => {
+    const before = deck()
+    const after = withTitle(before, 'A')
+    const change = command('editText', before, after, { coalesceKey: 'k', at: 0 })
+    const undone = undoCommand(pushCommand(EMPTY_EDIT_HISTORY, change), after)
+    const redone = redoCommand(undone?.history ?? EMPTY_EDIT_HISTORY, before)
+
+    const next = command('editText', after, withTitle(after, 'AB'), { coalesceKey: 'k', at: 10 })
+    expect(pushCommand(redone?.history ?? EMPTY_EDIT_HISTORY, next).past).toHaveLength(2)
+  })
+
+  it('should drop what can be redone after a new edit, and the oldest past the limit', () => {
+    let history = EMPTY_EDIT_HISTORY
+    let document = deck()
+    for (let i = 0; i <= MAX_EDIT_HISTORY; i++) {
+      const next = withTitle(document, `v${i}`)
+      history = pushCommand(history, command('editText', document, next, { at: i }))
+      document = next
+    }
+    expect(history.past).toHaveLength(MAX_EDIT_HISTORY)
+
+    const undone = undoCommand(history, document)
+    const next = withTitle(undone?.document ?? document, 'other')
+    const branched = pushCommand(undone?.history ?? history, command('editText', undone?.document ?? document, next))
+    expect(branched.future).toEqual([])
+  })
+
+  it('should tell what an object edit is', () => {
+    const box = text('t1', 'Hi')
+    expect(objectCommandType(box, { content: 'Hey' })).toBe('editText')
+    expect(objectCommandType(box, { customStyles: { fontSize: 40 } })).toBe('changeTypography')
+    expect(objectCommandType(box, { coordinates: { x: 10, y: 0, width: 100, height: 50 } })).toBe('moveObject')
+    expect(objectCommandType(box, { coordinates: { x: 0, y: 0, width: 200, height: 50 } })).toBe('resizeObject')
+    expect(objectCommandType({ type: 'image' }, { src: 'a.png' })).toBe('changeImage')
+    expect(objectCommandType({ type: 'table' }, { data: [] })).toBe('editText')
+  })
+
+  it('should read back a stored history with its dates', () => {
+    const before = deck()
+    const after = { ...before, slides: [{ ...before.slides[0], updatedAt: new Date(5000) }, before.slides[1]] }
+    const history = pushCommand(EMPTY_EDIT_HISTORY, command('editSlide', before, after, { at: 1 }))
+
+    expect(parseHistory(serializeHistory(history))).toEqual(history)
+    expect(parseHistory(null)).toBe(EMPTY_EDIT_HISTORY)
+    expect(parseHistory('{not json')).toBe(EMPTY_EDIT_HISTORY)
+    expect(parseHistory('{"past":1}')).toBe(EMPTY_EDIT_HISTORY)
+  })
+})
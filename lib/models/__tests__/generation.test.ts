@@ -0,0 +1,34 @@
+import {
+  GENERATION_TIMEOUT_MS,
+  canClaimGeneration,
+  generationTimeLeft,
+  interruptedGeneration,
+  isGenerationAbandoned,
+} from '../generation'
+
+describe('Generation runs', () => {
+  it('should only let a pending run be claimed', () => {
+    expect(canClaimGeneration({ status: 'pending' })).toBe(true)
+    expect(canClaimGeneration({ status: 'generating', claimedBy: 'tab-1', heartbeatAt: 0 })).toBe(false)
+    expect(canClaimGeneration({ status: 'complete' })).toBe(false)
+    expect(canClaimGeneration(undefined)).toBe(false)
+  })
+
+  it('should count a run as abandoned once its heartbeat goes stale', () => {
+    const run = { status: 'generating' as const, claimedBy: 'tab-1', heartbeatAt: 1000 }
+
+    expect(generationTimeLeft(run, 1000)).toBe(GENERATION_TIMEOUT_MS)
+    expect(isGenerationAbandoned(run, 1000 + GENERATION_TIMEOUT_MS - 1)).toBe(false)
+    expect(isGenerationAbandoned(run, 1000 + GENERATION_TIMEOUT_MS)).toBe(true)
+    // Runs from before heartbeats were recorded
+    expect(isGenerationAbandoned({ status: 'generating' }, Date.now())).toBe(true)
+    // Nobody streams pending or finished runs
+    expect(generationTimeLeft({ status: 'pending' }, 0)).toBeNull()
+    expect(isGenerationAbandoned({ status: 'partial', heartbeatAt: 0 }, Date.now())).toBe(false)
+  })
+
+  it('should keep the slides of an interrupted run', () => {
+    expect(interruptedGeneration({ status: 'generating', completed: 3 })).toEqual({ status: 'partial', error: 'Generation was interrupted' })
+    expect(interruptedGeneration({ status: 'generating' }).status).toBe('failed')
+  })
+})
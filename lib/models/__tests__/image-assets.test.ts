@@ -0,0 +1,98 @@
+import {
+  ASSET_CLAIM_TIMEOUT_MS,
+  ImageAsset,
+  ImageAssetJob,
+  ImageAssetParams,
+  claimImageAsset,
+  completeImageAsset,
+  failImageAsset,
+  normalizeImagePrompt,
+  referenceImageAsset,
+  releaseImageAsset,
+} from '../image-assets'
+
+const params: ImageAssetParams = {
+  prompt: 'a lighthouse, watercolor',
+  style: 'watercolor',
+  model: 'imagen-3',
+  aspectRatio: '16:9',
+  variants: 2,
+}
+
+const now = new Date('2026-01-01T00:00:00Z')
+
+function job(jobId: string, presentationId: string): ImageAssetJob {
+  return { jobId, presentationId, slideId: `slide-${jobId}` }
+}
+
+function claimed(first: ImageAssetJob): ImageAsset {
+  return claimImageAsset(null, 'key', params, first, now).asset
+}
+
+describe('image assets', () => {
+  it('normalizes case, spacing and trailing full stops', () => {
+    expect(normalizeImagePrompt('  A Lighthouse\n at   DAWN. ')).toBe('a lighthouse at dawn')
+  })
+
+  it('lets the first job generate and attaches the next one', () => {
+    const asset = claimed(job('j1', 'p1'))
+    const second = claimImageAsset(asset, 'key', params, job('j2', 'p2'), now)
+
+    expect(asset.status).toBe('generating')
+    expect(second.claim).toEqual({ status: 'attached', jobId: 'j1' })
+    expect(second.asset.waiting.map(waiter => waiter.jobId)).toEqual(['j2'])
+    // Attaching twice does not wait twice
+    expect(claimImageAsset(second.asset, 'key', params, job('j2', 'p2'), now).asset.waiting).toHaveLength(1)
+  })
+
+  it('takes over a claim whose job stopped answering', () => {
+    const asset = claimImageAsset(claimed(job('j1', 'p1')), 'key', params, job('j2', 'p1'), now).asset
+    const later = new Date(now.getTime() + ASSET_CLAIM_TIMEOUT_MS)
+    const takeover = claimImageAsset(asset, 'key', params, job('j3', 'p3'), later)
+
+    expect(takeover.claim).toEqual({ status: 'claimed' })
+    expect(takeover.asset.job.jobId).toBe('j3')
+    expect(takeover.asset.waiting.map(waiter => waiter.jobId)).toEqual(['j2'])
+  })
+
+  it('references every presentation once and reuses the images', () => {
+    const asset = claimImageAsset(claimed(job('j1', 'p1')), 'key', params, job('j2', 'p1'), now).asset
+    const { asset: ready, waiting } = completeImageAsset(asset, ['a.png', 'b.png'], now)
+
+    expect(waiting.map(waiter => waiter.jobId)).toEqual(['j2'])
+    expect(ready).toMatchObject({ status: 'ready', presentationIds: ['p1'], refCount: 1, waiting: [] })
+
+    const reuse = claimImageAsset(ready, 'key', params, job('j3', 'p2'), now)
+    expect(reuse.claim).toEqual({ status: 'ready', imageUrls: ['a.png', 'b.png'] })
+    expect(reuse.asset.refCount).toBe(2)
+  })
+
+  it('regenerates after a failure', () => {
+    const { asset: failed } = failImageAsset(claimed(job('j1', 'p1')), 'Rate limited', now)
+    expect(claimImageAsset(failed, 'key', params, job('j2', 'p2'), now).claim).toEqual({ status: 'claimed' })
+  })
+
+  it('orphans the images with the last reference only', () => {
+    const { asset: ready } = completeImageAsset(
+      claimImageAsset(claimed(job('j1', 'p1')), 'key', params, job('j2', 'p2'), now).asset,
+      ['a.png'],
+      now
+    )
+
+    const first = releaseImageAsset(ready, 'p1', now)
+    expect(first.orphanedUrls).toEqual([])
+    expect(first.asset).toMatchObject({ presentationIds: ['p2'], refCount: 1 })
+
+    const last = releaseImageAsset(first.asset as ImageAsset, 'p2', now)
+    expect(last).toEqual({ asset: null, orphanedUrls: ['a.png'] })
+  })
+
+  it('keeps the images of a copy after the original is released', () => {
+    const { asset: ready } = completeImageAsset(claimed(job('j1', 'p1')), ['a.png'], now)
+    const copied = referenceImageAsset(ready, 'p1-copy', now)
+
+    expect(copied).toMatchObject({ presentationIds: ['p1', 'p1-copy'], refCount: 2 })
+    expect(referenceImageAsset(copied, 'p1-copy', now)).toBe(copied)
+    expect(releaseImageAsset(copied, 'p1', now).orphanedUrls).toEqual([])
+  })
+})
@@ -0,0 +1,63 @@
+import {
+  hasImageEdits,
+  imageFilterCss,
+  imageObjectPosition,
+  layoutImage,
+  normalizeCrop,
+  visibleImageRegion,
+} from '../image-crop'
+
+// A 2000x1000 source in a 500x500 box
+const natural = { width: 2000, height: 1000 }
+const box = { width: 500, height: 500 }
+
+describe('image crop', () => {
+  it('clamps crops into the source and drops whole-image crops', () => {
+    expect(normalizeCrop({ x: 0.9, y: -1, width: 0.5, height: 2 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 1 })
+    expect(normalizeCrop({ x: 0, y: 0, width: 1, height: 1 })).toBeUndefined()
+  })
+
+  it('only counts focal points for fits that trim', () => {
+    expect(hasImageEdits({ fit: 'contain', focalPoint: { x: 0.1, y: 0.5 } })).toBe(false)
+    expect(hasImageEdits({ fit: 'cover', focalPoint: { x: 0.1, y: 0.5 } })).toBe(true)
+    expect(hasImageEdits({ filters: { brightness: 100, blur: 0 } })).toBe(false)
+    expect(hasImageEdits({ filters: { contrast: 120 } })).toBe(true)
+  })
+
+  it('writes CSS filters only when they change the image', () => {
+    expect(imageFilterCss({ brightness: 100 })).toBeUndefined()
+    expect(imageFilterCss({ blur: 2 }, 0.5)).toBe('brightness(100%) contrast(100%) saturate(100%) blur(1px)')
+  })
+
+  it('covers the box around the focal point like object-position', () => {
+    const image = { focalPoint: { x: 0.25, y: 0.5 } }
+    // Scaled to 1000x500; a quarter of the 500px overflow is left of the box
+    expect(layoutImage(natural, box, image, 'cover')).toEqual({ x: -125, y: 0, width: 1000, height: 500 })
+    expect(imageObjectPosition(image, 'cover')).toBe('25% 50%')
+    expect(imageObjectPosition(image, 'contain')).toBe('50% 50%')
+  })
+
+  it('fits the crop, not the whole source', () => {
+    // The left half (1000x1000) fills the square box exactly
+    const layout = layoutImage(natural, box, { crop: { x: 0, y: 0, width: 0.5, height: 1 } }, 'cover')
+    expect(layout).toEqual({ x: 0, y: 0, width: 1000, height: 500 })
+
+    // The right half: the source moves left by the cropped-off half
+    const right = layoutImage(natural, box, { crop: { x: 0.5, y: 0, width: 0.5, height: 1 } }, 'contain')
+    expect(right).toEqual({ x: -500, y: 0, width: 1000, height: 500 })
+  })
+
+  it('finds the visible source region for export', () => {
+    const region = visibleImageRegion(natural, box, { focalPoint: { x: 1, y: 0.5 } }, 'cover')
+    expect(region).toEqual({
+      source: { x: 1000, y: 0, width: 1000, height: 1000 },
+      target: { x: 0, y: 0, width: 500, height: 500 },
+    })
+
+    // contain letterboxes: the whole source, in a band across the box
+    expect(visibleImageRegion(natural, box, {}, 'contain')).toEqual({
+      source: { x: 0, y: 0, width: 2000, height: 1000 },
+      target: { x: 0, y: 125, width: 500, height: 250 },
+    })
+  })
+})
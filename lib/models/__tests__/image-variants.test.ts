@@ -0,0 +1,121 @@
+import {
+  MAX_GENERATION_HISTORY,
+  addImageVariants,
+  getGenerationHistory,
+  getImageVariants,
+  getSlideImageUrls,
+  removeImageVariant,
+  setHeroVariant,
+  withSlideImage,
+} from '../image-variants'
+import { ImageObject, Slide } from '../slide'
+
+function makeImage(overrides: Partial<ImageObject> = {}): ImageObject {
+  return {
+    id: 'img',
+    type: 'image',
+    src: 'a.png',
+    coordinates: { x: 0, y: 0, width: 960, height: 540 },
+    variants: ['a.png', 'b.png', 'c.png'],
+    heroIndex: 0,
+    ...overrides,
+  }
+}
+
+describe('image variants', () => {
+  it('treats a placeholder without variants as empty and a plain image as one variant', () => {
+    expect(getImageVariants({ src: '/api/placeholder/800/600' })).toEqual([])
+    expect(getImageVariants({ src: 'photo.png' })).toEqual(['photo.png'])
+  })
+
+  it('sets the hero and keeps src in step', () => {
+    expect(setHeroVariant(makeImage(), 2)).toEqual({ src: 'c.png', variants: ['a.png', 'b.png', 'c.png'], heroIndex: 2 })
+    expect(() => setHeroVariant(makeImage(), 3)).toThrow('Invalid variant index')
+  })
+
+  it('keeps the hero image when another variant is removed', () => {
+    const image = makeImage({ src: 'c.png', heroIndex: 2 })
+    expect(removeImageVariant(image, 0)).toEqual({ src: 'c.png', variants: ['b.png', 'c.png'], heroIndex: 1 })
+  })
+
+  it('moves the hero to the next variant when the hero is removed', () => {
+    expect(removeImageVariant(makeImage({ src: 'b.png', heroIndex: 1 }), 1).src).toBe('c.png')
+    expect(removeImageVariant(makeImage({ src: 'c.png', heroIndex: 2 }), 2).src).toBe('b.png')
+  })
+
+  it('refuses to remove the last variant', () => {
+    expect(() => removeImageVariant(makeImage({ variants: ['a.png'] }), 0)).toThrow('at least one variant')
+  })
+
+  it('appends generated variants, keeps the hero and records the prompt', () => {
+    const now = new Date('2026-01-01T00:00:00Z')
+    const image = makeImage({
+      src: 'b.png',
+      heroIndex: 1,
+      generationPrompt: 'a lighthouse, oil painting',
+      generationDescription: 'a lighthouse',
+      generationStyle: 'oilPainting',
+    })
+
+    const update = addImageVariants(image, ['d.png', 'e.png'], { prompt: 'a lighthouse at night, watercolor', description: 'a lighthouse at night', style: 'watercolor' }, now)
+
+    expect(update.variants).toEqual(['a.png', 'b.png', 'c.png', 'd.png', 'e.png'])
+    expect(update.src).toBe('b.png')
+    expect(update.heroIndex).toBe(1)
+    expect(update.generationPrompt).toBe('a lighthouse at night, watercolor')
+    expect(update.generationStyle).toBe('watercolor')
+    expect(update.generationHistory?.map(version => version.prompt)).toEqual([
+      'a lighthouse, oil painting',
+      'a lighthouse at night, watercolor',
+    ])
+    expect(update.generationHistory?.[1].variants).toEqual(['d.png', 'e.png'])
+  })
+
+  it('makes the first new variant the hero of a placeholder image', () => {
+    const update = addImageVariants(
+      makeImage({ src: '/api/placeholder/800/600', variants: undefined, heroIndex: undefined }),
+      ['x.png', 'y.png'],
+      { prompt: 'a harbor' }
+    )
+    expect(update.src).toBe('x.png')
+    expect(update.heroIndex).toBe(0)
+    expect(getGenerationHistory({ ...makeImage(), ...update })).toHaveLength(1)
+  })
+
+  it('keeps only the most recent versions', () => {
+    let image = makeImage({ variants: ['a.png'] })
+    for (let i = 0; i < MAX_GENERATION_HISTORY + 5; i++) {
+      image = { ...image, ...addImageVariants(image, [`v${i}.png`], { prompt: `prompt ${i}` }) }
+    }
+    const history = getGenerationHistory(image)
+    expect(history).toHaveLength(MAX_GENERATION_HISTORY)
+    expect(history[history.length - 1].prompt).toBe(`prompt ${MAX_GENERATION_HISTORY + 4}`)
+  })
+
+  it('updates the targeted image of one slide and skips undefined fields', () => {
+    const slides = [
+      { id: 's1', objects: [makeImage({ id: 'a' }), makeImage({ id: 'b', src: '' })] },
+      { id: 's2', objects: [makeImage({ id: 'c' })] },
+    ] as unknown as Slide[]
+
+    const byId = withSlideImage(slides, 's1', { objectId: 'b' }, { src: 'new.png', heroIndex: undefined })
+    expect(byId[0].objects.map(obj => (obj as ImageObject).src)).toEqual(['a.png', 'new.png'])
+    expect(byId[0].objects[1]).toHaveProperty('heroIndex', 0)
+    expect(byId[1]).toBe(slides[1])
+
+    const byIndex = withSlideImage(slides, 's1', { imageIndex: 0 }, { src: 'first.png' })
+    expect((byIndex[0].objects[0] as ImageObject).src).toBe('first.png')
+
+    const firstEmpty = withSlideImage(slides, 's1', {}, { src: 'filled.png' })
+    expect(firstEmpty[0].objects.map(obj => (obj as ImageObject).src)).toEqual(['a.png', 'filled.png'])
+  })
+
+  it('lists every image URL the slides use once', () => {
+    const slides = [
+      { id: 's1', objects: [makeImage({ generationHistory: [{ prompt: 'p', variants: ['old.png', 'a.png'], createdAt: new Date(0) }] })] },
+      { id: 's2', objects: [makeImage({ variants: [], src: '/api/placeholder/1' }), { id: 't', type: 'text' }] },
+    ] as unknown as Slide[]
+
+    expect(getSlideImageUrls(slides)).toEqual(['a.png', 'b.png', 'c.png', 'old.png'])
+  })
+})
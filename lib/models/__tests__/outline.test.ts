@@ -0,0 +1,98 @@
+import {
+  PresentationOutline,
+  addOutlineSlide,
+  getOutlineSlides,
+  getPendingOutlineSlides,
+  insertExpandedSlides,
+  moveOutlineSlide,
+  normalizeOutline,
+  removeOutlineSlide,
+  sanitizeBrief,
+} from '../outline'
+import { SlideType } from '../slide'
+
+function makeOutline(): PresentationOutline {
+  return {
+    title: 'Tides',
+    sections: [
+      {
+        id: 's1',
+        title: 'Intro',
+        slides: [
+          { id: 'a', heading: 'Tides', type: SlideType.TITLE, keyPoints: [] },
+          { id: 'b', heading: 'Why', type: SlideType.BULLETS, keyPoints: ['Moon'] },
+        ],
+      },
+      {
+        id: 's2',
+        title: 'Detail',
+        slides: [
+          { id: 'c', heading: 'Gravity', type: SlideType.CONTENT, keyPoints: [] },
+          { id: 'd', heading: 'Spring tides', type: SlideType.IMAGE, keyPoints: [] },
+        ],
+      },
+    ],
+  }
+}
+
+const ids = (outline: PresentationOutline) => getOutlineSlides(outline).map(slide => slide.id)
+
+describe('Outline Model', () => {
+  it('should normalize model output into an outline with ids and known types', () => {
+    const outline = normalizeOutline({
+      title: ' Tides ',
+      sections: [
+        { title: 'Intro', slides: [{ heading: 'Tides', type: 'title', keyPoints: ['Sea', 3, ''] }, { heading: '' }] },
+        { title: 'Empty', slides: [] },
+        { title: 'Detail', slides: [{ heading: 'Gravity', type: 'hologram' }] },
+      ],
+    })
+
+    expect(outline.title).toBe('Tides')
+    expect(outline.sections.map(section => section.title)).toEqual(['Intro', 'Detail'])
+    expect(getOutlineSlides(outline).map(({ type, keyPoints }) => ({ type, keyPoints }))).toEqual([
+      { type: SlideType.TITLE, keyPoints: ['Sea'] },
+      { type: SlideType.CONTENT, keyPoints: [] },
+    ])
+    expect(new Set(ids(outline)).size).toBe(2)
+    expect(normalizeOutline({}, 'Fallback').title).toBe('Fallback')
+  })
+
+  it('should reorder, add and delete slides without mutating the input', () => {
+    const outline = makeOutline()
+
+    expect(ids(moveOutlineSlide(outline, 'a', 1))).toEqual(['b', 'a', 'c', 'd'])
+    const crossed = moveOutlineSlide(outline, 'b', 1)
+    expect(crossed.sections[1].slides.map(slide => slide.id)).toEqual(['b', 'c', 'd'])
+    expect(moveOutlineSlide(outline, 'a', -1)).toBe(outline)
+
+    const added = addOutlineSlide(outline, 's1', 'a')
+    expect(ids(added.outline)).toEqual(['a', added.slide.id, 'b', 'c', 'd'])
+    expect(ids(removeOutlineSlide(outline, 'c'))).toEqual(['a', 'b', 'd'])
+    expect(ids(outline)).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should insert expanded slides in outline order around existing slides', () => {
+    let outline = makeOutline()
+    let deck = [{ id: 'manual' }]
+
+    const first = insertExpandedSlides(outline, deck, [{ outlineSlideId: 'c', slide: { id: 'slide-c' } }])
+    outline = first.outline
+    deck = first.slides
+    expect(deck.map(slide => slide.id)).toEqual(['manual', 'slide-c'])
+
+    const second = insertExpandedSlides(outline, deck, [
+      { outlineSlideId: 'd', slide: { id: 'slide-d' } },
+      { outlineSlideId: 'a', slide: { id: 'slide-a' } },
+    ])
+    expect(second.slides.map(slide => slide.id)).toEqual(['manual', 'slide-a', 'slide-c', 'slide-d'])
+    expect(getPendingOutlineSlides(second.outline).map(slide => slide.id)).toEqual(['b'])
+  })
+
+  it('should keep only recognised brief values', () => {
+    expect(sanitizeBrief({ tone: 'casual', goal: 'destroy', audience: 'students' })).toEqual({
+      tone: 'casual',
+      audience: 'students',
+    })
+  })
+})
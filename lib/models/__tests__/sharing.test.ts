@@ -0,0 +1,109 @@
+import {
+  PresentationMember,
+  ShareLink,
+  SharedPresentation,
+  generateShareToken,
+  getShareUrl,
+  hasRole,
+  resolvePresentationRole,
+  withMember,
+  withoutMember,
+} from '../sharing'
+
+const now = new Date('2026-01-01T00:00:00Z').getTime()
+
+const member = (role: PresentationMember['role'], email = 'editor@example.com'): PresentationMember => ({
+  email,
+  role,
+  invitedBy: 'owner',
+  invitedAt: new Date(now),
+})
+
+const presentation: SharedPresentation = {
+  metadata: { userId: 'owner' },
+}
+
+const link = (overrides: Partial<ShareLink> = {}): ShareLink => ({
+  token: 'secret',
+  role: 'commenter',
+  expiresAt: null,
+  createdBy: 'owner',
+  ...overrides,
+})
+
+describe('Presentation sharing', () => {
+  it('should make the owner the owner, whatever else applies', () => {
+    expect(resolvePresentationRole(presentation, { uid: 'owner' }, null, now)).toBe('owner')
+    expect(resolvePresentationRole(
+      { ...presentation, metadata: { userId: 'owner', isPublic: true } },
+      { uid: 'owner', email: 'editor@example.com', emailVerified: true, member: member('editor') },
+      null,
+      now
+    )).toBe('owner')
+  })
+
+  it('should give invited members their role once the address is verified', () => {
+    const editor = { uid: 'u1', email: 'editor@EXAMPLE.com', member: member('editor') }
+
+    expect(resolvePresentationRole(presentation, { ...editor, emailVerified: true }, null, now)).toBe('editor')
+    expect(resolvePresentationRole(presentation, { ...editor, emailVerified: false }, null, now)).toBeNull()
+    expect(resolvePresentationRole(presentation, { uid: 'u2', email: 'other@example.com', emailVerified: true }, null, now)).toBeNull()
+    // Someone else's invite gives nothing
+    expect(resolvePresentationRole(
+      presentation,
+      { uid: 'u2', email: 'other@example.com', emailVerified: true, member: member('editor') },
+      null,
+      now
+    )).toBeNull()
+    expect(resolvePresentationRole(presentation, {}, null, now)).toBeNull()
+  })
+
+  it('should accept only the current, unexpired link token', () => {
+    const holder = { uid: 'u3', linkToken: 'secret' }
+
+    expect(resolvePresentationRole(presentation, holder, link(), now)).toBe('commenter')
+    expect(resolvePresentationRole(presentation, holder, link({ token: 'rotated' }), now)).toBeNull()
+    expect(resolvePresentationRole(presentation, holder, link({ expiresAt: new Date(now + 1000) }), now)).toBe('commenter')
+    expect(resolvePresentationRole(presentation, holder, link({ expiresAt: new Date(now - 1000) }), now)).toBeNull()
+    expect(resolvePresentationRole(presentation, { uid: 'u3' }, link(), now)).toBeNull()
+  })
+
+  it('should let anyone view public presentations and apply the highest role', () => {
+    const shared = { ...presentation, metadata: { userId: 'owner', isPublic: true } }
+
+    expect(resolvePresentationRole(shared, {}, null, now)).toBe('viewer')
+    expect(resolvePresentationRole(shared, { uid: 'u3', linkToken: 'secret' }, link(), now)).toBe('commenter')
+    expect(resolvePresentationRole(
+      shared,
+      { uid: 'u1', email: 'editor@example.com', emailVerified: true, linkToken: 'secret', member: member('editor') },
+      link(),
+      now
+    )).toBe('editor')
+  })
+
+  it('should add, change and remove members by normalized email', () => {
+    const added = withMember(withMember(undefined, member('editor')), member('viewer', 'viewer@example.com'))
+    const changed = withMember(added, member('commenter'))
+    const removed = withoutMember(changed, 'Viewer@Example.com ')
+
+    expect(Object.keys(added.members || {}).sort()).toEqual(['editor@example.com', 'viewer@example.com'])
+    expect(changed.members?.['editor@example.com'].role).toBe('commenter')
+    expect(Object.keys(removed.members || {})).toEqual(['editor@example.com'])
+  })
+
+  it('should rank roles', () => {
+    expect(hasRole('owner', 'editor')).toBe(true)
+    expect(hasRole('editor', 'editor')).toBe(true)
+    expect(hasRole('commenter', 'editor')).toBe(false)
+    expect(hasRole('viewer', 'viewer')).toBe(true)
+    expect(hasRole(null, 'viewer')).toBe(false)
+  })
+
+  it('should make long, url-safe link tokens', () => {
+    const token = generateShareToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9]{32}$/)
+    expect(generateShareToken()).not.toBe(token)
+    expect(getShareUrl('https://app.example.com', 'p1', token)).toBe(`https://app.example.com/presentations/p1/edit?share=${token}`)
+  })
+})
@@ -0,0 +1,159 @@
+import {
+  createTableObject,
+  setCellValue,
+  insertRow,
+  removeRow,
+  insertColumn,
+  removeColumn,
+  mergeCells,
+  unmergeCells,
+  isCellCovered,
+  getMergeAt,
+  setColumnAlignment,
+  paginateTable,
+  paginateSlideTables,
+} from '../table'
+import { Slide, SlideType, TableObject } from '../slide'
+
+const coords = { x: 120, y: 260, width: 1680, height: 700 }
+
+function makeTable(rows = 3, cols = 3): TableObject {
+  const table = createTableObject('t1', coords, rows, cols)
+  return {
+    ...table,
+    data: table.data.map((row, r) => row.map((_, c) => `r${r}c${c}`)),
+  }
+}
+
+describe('Table Model', () => {
+  describe('cell edits', () => {
+    it('should set body and header cells without mutating the input', () => {
+      const table = makeTable()
+      const edited = setCellValue(setCellValue(table, 1, 2, 'x'), -1, 0, 'Name')
+
+      expect(edited.data[1][2]).toBe('x')
+      expect(edited.headers?.[0]).toBe('Name')
+      expect(table.data[1][2]).toBe('r1c2')
+    })
+  })
+
+  describe('rows and columns', () => {
+    it('should insert and remove rows', () => {
+      const table = insertRow(makeTable(), 1)
+      expect(table.data).toHaveLength(4)
+      expect(table.data[1]).toEqual(['', '', ''])
+
+      const removed = removeRow(table, 1)
+      expect(removed.data).toHaveLength(3)
+      expect(removed.data[1][0]).toBe('r1c0')
+    })
+
+    it('should keep at least one row and column', () => {
+      const single = makeTable(1, 1)
+      expect(removeRow(single, 0)).toBe(single)
+      expect(removeColumn(single, 0)).toBe(single)
+    })
+
+    it('should insert and remove columns with headers and alignments', () => {
+      const aligned = setColumnAlignment(makeTable(), 1, 'right')
+      const table = insertColumn(aligned, 1)
+
+      expect(table.headers).toHaveLength(4)
+      expect(table.data[0]).toEqual(['r0c0', '', 'r0c1', 'r0c2'])
+      expect(table.columnAlignments).toEqual(['left', 'left', 'right', 'left'])
+
+      const removed = removeColumn(table, 1)
+      expect(removed.data[0]).toEqual(['r0c0', 'r0c1', 'r0c2'])
+      expect(removed.columnAlignments).toEqual(['left', 'right', 'left'])
+    })
+  })
+
+  describe('merged cells', () => {
+    it('should merge a range and join covered text', () => {
+      const table = mergeCells(makeTable(), { start: { row: 1, col: 1 }, end: { row: 0, col: 0 } })
+
+      expect(table.merges).toEqual([{ row: 0, col: 0, rowSpan: 2, colSpan: 2 }])
+      expect(table.data[0][0]).toBe('r0c0 r0c1 r1c0 r1c1')
+      expect(isCellCovered(table, 1, 1)).toBe(true)
+      expect(isCellCovered(table, 0, 0)).toBe(false)
+    })
+
+    it('should absorb overlapping merges', () => {
+      const first = mergeCells(makeTable(), { start: { row: 0, col: 0 }, end: { row: 1, col: 0 } })
+      const second = mergeCells(first, { start: { row: 1, col: 0 }, end: { row: 1, col: 1 } })
+
+      expect(second.merges).toEqual([{ row: 0, col: 0, rowSpan: 2, colSpan: 2 }])
+    })
+
+    it('should shift and shrink merges on structural edits', () => {
+      const merged = mergeCells(makeTable(), { start: { row: 1, col: 0 }, end: { row: 2, col: 1 } })
+
+      expect(getMergeAt(insertRow(merged, 0), 2, 0)).toEqual({ row: 2, col: 0, rowSpan: 2, colSpan: 2 })
+      expect(removeRow(merged, 2).merges).toEqual([{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }])
+      expect(removeColumn(removeRow(merged, 2), 1).merges).toEqual([])
+    })
+
+    it('should unmerge', () => {
+      const merged = mergeCells(makeTable(), { start: { row: 0, col: 0 }, end: { row: 0, col: 2 } })
+      expect(unmergeCells(merged, 0, 1).merges).toEqual([])
+    })
+  })
+
+  describe('pagination', () => {
+    it('should keep a table that fits on one page', () => {
+      const table = makeTable()
+      expect(paginateTable(table)).toEqual([table])
+    })
+
+    it('should split overflowing rows and repeat the header', () => {
+      const table = { ...makeTable(30, 3), coordinates: { ...coords, height: 400 } }
+      const pages = paginateTable(table)
+
+      expect(pages.length).toBeGreaterThan(1)
+      expect(pages.reduce((sum, page) => sum + page.data.length, 0)).toBe(30)
+      pages.forEach(page => expect(page.headers).toEqual(table.headers))
+      expect(pages[1].id).toBe('t1-page-2')
+    })
+
+    it('should not split vertically merged rows', () => {
+      const tall = { ...makeTable(12, 2), coordinates: { ...coords, height: 420 } }
+      const firstPageRows = paginateTable(tall)[0].data.length
+      const merged = mergeCells(tall, {
+        start: { row: firstPageRows - 1, col: 0 },
+        end: { row: firstPageRows, col: 0 },
+      })
+      const pages = paginateTable(merged)
+
+      expect(pages[0].data.length).toBe(firstPageRows - 1)
+      expect(pages[1].merges?.[0].row).toBe(0)
+    })
+
+    it('should create continuation slides with the heading', () => {
+      const slide: Slide = {
+        id: 's1',
+        type: SlideType.TABLE,
+        order: 0,
+        objects: [
+          {
+            id: 'h1',
+            type: 'text',
+            role: 'header',
+            content: 'Results',
+            coordinates: { x: 120, y: 120, width: 1680, height: 100 },
+          },
+          { ...makeTable(40, 3), coordinates: { ...coords, height: 400 } },
+        ],
+        notes: 'Speaker notes',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+
+      const slides = paginateSlideTables(slide)
+      expect(slides.length).toBeGreaterThan(1)
+      expect(slides[0].notes).toBe('Speaker notes')
+      expect(slides[1].id).toBe('s1-cont-1')
+      expect(slides[1].objects[0]).toMatchObject({ type: 'text', content: 'Results (cont.)' })
+      expect(slides[1].notes).toBeUndefined()
+    })
+  })
+})
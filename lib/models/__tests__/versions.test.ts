@@ -0,0 +1,126 @@
+import {
+  AUTO_VERSION_INTERVAL_MS,
+  MAX_AUTO_VERSIONS,
+  autoVersionsToPrune,
+  createVersion,
+  diffVersions,
+  isAutoVersionDue,
+  restoreDeck,
+  restoreSlide,
+} from '../versions'
+import { Slide } from '../slide'
+
+const text = (id: string, content: string) => ({ id, type: 'text', content })
+
+const slide = (id: string, order: number, objects = [text(`${id}-title`, id)], extra: Record<string, unknown> = {}) =>
+  ({ id, order, type: 'content', objects, ...extra })
+
+const deck = () => [slide('s1', 0), slide('s2', 1), slide('s3', 2), slide('s4', 3)]
+
+describe('Versions', () => {
+  it('should take an automatic version when the last one is old enough', () => {
+    const now = 1000000000
+    expect(isAutoVersionDue(undefined, now)).toBe(true)
+    expect(isAutoVersionDue(now - AUTO_VERSION_INTERVAL_MS + 1, now)).toBe(false)
+    expect(isAutoVersionDue(now - AUTO_VERSION_INTERVAL_MS, now)).toBe(true)
+  })
+
+  it('should copy the slides, title and template', () => {
+    const slides = deck() as unknown as Slide[]
+    const version = createVersion(
+      { slides, revision: 7, metadata: { title: 'Pitch' }, settings: { theme: 'minimal' } },
+      { name: '  Board review ', auto: false, createdBy: 'u1', createdByName: 'Ada' }
+    )
+
+    expect(version).toEqual({
+      name: 'Board review',
+      auto: false,
+      title: 'Pitch',
+      templateId: 'minimal',
+      slides,
+      slideCount: 4,
+      revision: 7,
+      createdBy: 'u1',
+      createdByName: 'Ada',
+    })
+    expect(createVersion({}, { name: ' ', auto: true, createdBy: 'u1' })).toMatchObject({
+      name: undefined,
+      title: 'Untitled Presentation',
+      slides: [],
+      revision: 0,
+    })
+  })
+
+  it('should prune the oldest automatic versions and keep named ones', () => {
+    const versions = Array.from({ length: MAX_AUTO_VERSIONS + 2 }, (_, i) => ({ id: `auto-${i}`, auto: true, createdAt: i }))
+    versions.push({ id: 'named', auto: false, createdAt: -1 })
+
+    expect(autoVersionsToPrune(versions).sort()).toEqual(['auto-0', 'auto-1'])
+    expect(autoVersionsToPrune(versions.slice(2))).toEqual([])
+  })
+})
+
+describe('Version diff', () => {
+  it('should list slides in order with removed ones where they were', () => {
+    const before = deck()
+    const after = [
+      slide('s3', 0),
+      slide('s1', 1, [text('s1-title', 'Renamed'), text('s1-body', 'New')]),
+      slide('s5', 2),
+      { ...before[3], order: 3, updatedAt: new Date() },
+    ]
+
+    const diffs = diffVersions(before, after)
+
+    expect(diffs.map(diff => [diff.slideId, diff.change, diff.moved, diff.objectChanges])).toEqual([
+      ['s3', 'unchanged', true, 0],
+      ['s1', 'changed', false, 2],
+      ['s2', 'removed', false, 0],
+      ['s5', 'added', false, 0],
+      ['s4', 'unchanged', false, 0],
+    ])
+    expect(diffs[2].before).toBe(before[1])
+    expect(diffs[3].before).toBeUndefined()
+  })
+
+  it('should put removed leading slides first', () => {
+    expect(diffVersions(deck(), [slide('s3', 0), slide('s4', 1)]).map(diff => diff.slideId)).toEqual(['s1', 's2', 's3', 's4'])
+  })
+
+  it('should count slide field changes', () => {
+    const [changed] = diffVersions([slide('s1', 0)], [slide('s1', 0, undefined, { notes: 'Say hi' })])
+    expect(changed).toMatchObject({ change: 'changed', objectChanges: 0 })
+  })
+})
+
+describe('Restore', () => {
+  it('should restore the whole deck in order', () => {
+    const version = [slide('s2', 5), slide('s1', 9)]
+    expect(restoreDeck(version).map(entry => [entry.id, entry.order])).toEqual([['s2', 0], ['s1', 1]])
+  })
+
+  it('should put a changed slide back where it is now', () => {
+    const version = deck()
+    const current = [slide('s2', 0), slide('s1', 1, [text('s1-title', 'Rewritten')]), slide('s3', 2), slide('s4', 3)]
+
+    const restored = restoreSlide(current, version, 's1')
+
+    expect(restored.map(entry => entry.id)).toEqual(['s2', 's1', 's3', 's4'])
+    expect(restored[1]).toEqual({ ...version[0], order: 1 })
+    expect(restored[0]).toBe(current[0])
+  })
+
+  it('should bring a removed slide back after the slide it followed', () => {
+    const version = deck()
+
+    expect(restoreSlide([slide('s1', 0), slide('s4', 1)], version, 's3').map(entry => entry.id)).toEqual(['s1', 's3', 's4'])
+    expect(restoreSlide([slide('s3', 0), slide('s4', 1)], version, 's1').map(entry => entry.id)).toEqual(['s1', 's3', 's4'])
+    // Nothing before it is left
+    expect(restoreSlide([slide('s4', 0)], version, 's3').map(entry => [entry.id, entry.order])).toEqual([['s3', 0], ['s4', 1]])
+  })
+
+  it('should remove a slide the version didn\'t have', () => {
+    const current = [...deck(), slide('s5', 4)]
+    expect(restoreSlide(current, deck(), 's5').map(entry => entry.id)).toEqual(['s1', 's2', 's3', 's4'])
+  })
+})
@@ -0,0 +1,178 @@
+import { SlideAnimation, SlideTransition } from './slide';
+
+/**
+ * Animation Models
+ * Turns a slide's animation list into build steps, the way PowerPoint
+ * sequences entrance effects:
+ *
+ *   onEnter        plays when the slide appears (build 0)
+ *   onClick        starts a new build on the next click
+ *   withPrevious   starts together with the previous animation
+ *   afterPrevious  starts when the previous animation ends
+ *
+ * Objects with an animation stay hidden until their build plays.
+ */
+
+export const ANIMATION_DEFAULTS = {
+  duration: 500,    // milliseconds
+  delay: 0,
+};
+
+export const DEFAULT_TRANSITION: Required<SlideTransition> = {
+  type: 'fade',
+  duration: 500,
+  direction: 'left',
+};
+
+// An animation placed on its build's timeline
+export interface ScheduledAnimation {
+  animation: SlideAnimation;
+  build: number;        // 0 = on enter, 1..n = clicks
+  startAt: number;      // ms from the start of the build
+  duration: number;
+}
+
+export interface AnimationBuilds {
+  scheduled: ScheduledAnimation[];
+  buildCount: number;   // Number of click builds (excluding build 0)
+}
+
+// Any slide shape with objects and animations (editor slides included)
+export interface AnimatedSlide {
+  objects?: { id: string }[];
+  animations?: SlideAnimation[];
+}
+
+// How an object looks at a given build
+export type ObjectBuildState =
+  | { status: 'hidden' }
+  | { status: 'playing'; animation: SlideAnimation; startAt: number; duration: number }
+  | { status: 'shown' };
+
+/**
+ * Schedule a slide's animations into builds
+ */
+export function buildAnimationSteps(slide: AnimatedSlide): AnimationBuilds {
+  const objectIds = new Set((slide.objects || []).map(obj => obj.id));
+  const scheduled: ScheduledAnimation[] = [];
+  let build = 0;
+  let previous: ScheduledAnimation | undefined;
+
+  (slide.animations || [])
+    .filter(animation => objectIds.has(animation.objectId))
+    .forEach(animation => {
+      const duration = animation.duration ?? ANIMATION_DEFAULTS.duration;
+      const delay = animation.delay ?? ANIMATION_DEFAULTS.delay;
+      let startAt = delay;
+
+      if (animation.trigger === 'onClick') {
+        build += 1;
+      } else if (animation.trigger === 'onEnter') {
+        // Entry animations always join build 0, after whatever is already there
+        const entry = scheduled.filter(item => item.build === 0);
+        startAt = entry.length > 0 ? Math.max(...entry.map(item => item.startAt + item.duration)) + delay : delay;
+        const item = { animation, build: 0, startAt, duration };
+        scheduled.push(item);
+        previous = item;
+        return;
+      } else if (previous && previous.build === build) {
+        startAt = animation.trigger === 'withPrevious'
+          ? previous.startAt + delay
+          : previous.startAt + previous.duration + delay;
+      }
+
+      const item = { animation, build, startAt, duration };
+      scheduled.push(item);
+      previous = item;
+    });
+
+  return { scheduled, buildCount: build };
+}
+
+/**
+ * Number of clicks needed before the slide is fully built
+ */
+export function getBuildCount(slide: AnimatedSlide): number {
+  return buildAnimationSteps(slide).buildCount;
+}
+
+/**
+ * The state of every animated object at a build. Objects without an
+ * animation are not in the map and are always shown.
+ */
+export function getObjectBuildStates(
+  slide: AnimatedSlide,
+  build: number
+): Map<string, ObjectBuildState> {
+  const states = new Map<string, ObjectBuildState>();
+
+  buildAnimationSteps(slide).scheduled.forEach(item => {
+    const id = item.animation.objectId;
+    // An object animated twice takes the state of its first animation
+    if (states.has(id)) {
+      return;
+    }
+    if (item.build > build) {
+      states.set(id, { status: 'hidden' });
+    } else if (item.build === build) {
+      states.set(id, { status: 'playing', animation: item.animation, startAt: item.startAt, duration: item.duration });
+    } else {
+      states.set(id, { status: 'shown' });
+    }
+  });
+
+  return states;
+}
+
+/**
+ * A slide's transition with defaults filled in
+ */
+export function resolveTransition(
+  transition?: SlideTransition,
+  fallback: SlideTransition['type'] = DEFAULT_TRANSITION.type
+): Required<SlideTransition> {
+  return {
+    type: transition?.type || fallback,
+    duration: transition?.duration ?? DEFAULT_TRANSITION.duration,
+    direction: transition?.direction || DEFAULT_TRANSITION.direction,
+  };
+}
+
+/**
+ * Set (or clear, with null) the animation of one object,
+ * keeping its place in the build order
+ */
+export function setObjectAnimation(
+  animations: SlideAnimation[] | undefined,
+  objectId: string,
+  updates: Partial<Omit<SlideAnimation, 'objectId'>> | null
+): SlideAnimation[] {
+  const list = animations || [];
+  const existing = list.find(animation => animation.objectId === objectId);
+
+  if (!updates) {
+    return list.filter(animation => animation.objectId !== objectId);
+  }
+  if (existing) {
+    return list.map(animation => animation.objectId === objectId ? { ...animation, ...updates } : animation);
+  }
+  return [...list, { objectId, trigger: 'onClick', type: 'fadeIn', ...updates }];
+}
+
+/**
+ * Move an object's animation one place earlier or later in the build order
+ */
+export function moveObjectAnimation(
+  animations: SlideAnimation[] | undefined,
+  objectId: string,
+  offset: -1 | 1
+): SlideAnimation[] {
+  const list = [...(animations || [])];
+  const index = list.findIndex(animation => animation.objectId === objectId);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= list.length) {
+    return list;
+  }
+  [list[index], list[target]] = [list[target], list[index]];
+  return list;
+}
@@ -0,0 +1,244 @@
+import { ColorRole, ColorSet, DEFAULT_COLOR_SET, resolveColor } from './colors';
+
+/**
+ * Chart Models
+ * Typed data model for chart objects (series, categories, axes, legend)
+ * Series colors come from the chart1-chart8 roles of the active color set
+ */
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'scatter' | 'area';
+
+// A single data series
+export interface ChartSeries {
+  id?: string;
+  name: string;
+  values: number[];
+  xValues?: number[];                 // Scatter charts: x coordinate per value
+  colorRole?: ColorRole;              // Override the default chartN role
+  color?: string;                     // Direct color override
+}
+
+// Chart data: one value per category in every series
+export interface ChartData {
+  categories: string[];
+  series: ChartSeries[];
+}
+
+// Axis configuration
+export interface ChartAxis {
+  title?: string;
+  min?: number;
+  max?: number;
+  visible?: boolean;                  // Default true
+  gridLines?: boolean;                // Default true for the value axis
+}
+
+export type ChartLegendPosition = 'top' | 'bottom' | 'left' | 'right';
+
+// Legend configuration
+export interface ChartLegend {
+  show: boolean;
+  position?: ChartLegendPosition;     // Default 'bottom'
+}
+
+// Chart presentation options
+export interface ChartOptions {
+  title?: string;
+  categoryAxis?: ChartAxis;
+  valueAxis?: ChartAxis;
+  legend?: ChartLegend;
+  showValues?: boolean;               // Render data labels
+  stacked?: boolean;                  // Bar and area charts
+  orientation?: 'vertical' | 'horizontal';  // Bar charts
+}
+
+// Chart color roles in palette order
+export const CHART_COLOR_ROLES: ColorRole[] = [
+  'chart1',
+  'chart2',
+  'chart3',
+  'chart4',
+  'chart5',
+  'chart6',
+  'chart7',
+  'chart8',
+];
+
+// Color role for the nth series (or pie slice), cycling through the palette
+export function getChartColorRole(index: number): ColorRole {
+  return CHART_COLOR_ROLES[index % CHART_COLOR_ROLES.length];
+}
+
+// Resolve the display color of a series
+export function getSeriesColor(
+  series: ChartSeries | undefined,
+  index: number,
+  colorSet: ColorSet = DEFAULT_COLOR_SET
+): string {
+  if (series?.color) {
+    return series.color;
+  }
+  return resolveColor(series?.colorRole || getChartColorRole(index), colorSet, '#1976D2');
+}
+
+// Colors for every series, or every category for pie charts
+export function getChartColors(
+  chartType: ChartType,
+  data: ChartData,
+  colorSet: ColorSet = DEFAULT_COLOR_SET
+): string[] {
+  if (chartType === 'pie') {
+    return data.categories.map((_, index) => getSeriesColor(undefined, index, colorSet));
+  }
+  return data.series.map((series, index) => getSeriesColor(series, index, colorSet));
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+}
+
+/**
+ * Normalize stored chart data into the typed model.
+ * Accepts the typed model, the legacy { labels, values } shape and
+ * Chart.js style { labels, datasets: [{ label, data }] }.
+ */
+export function normalizeChartData(data: unknown): ChartData {
+  if (!data || typeof data !== 'object') {
+    return { categories: [], series: [] };
+  }
+
+  const raw = data as Record<string, unknown>;
+
+  let series: ChartSeries[] = [];
+  if (Array.isArray(raw.series)) {
+    series = raw.series.map((item, index) => {
+      const s = (item || {}) as Partial<ChartSeries>;
+      return {
+        ...s,
+        name: s.name || `Series ${index + 1}`,
+        values: Array.isArray(s.values) ? s.values.map(toNumber) : [],
+        xValues: Array.isArray(s.xValues) ? s.xValues.map(toNumber) : undefined,
+      };
+    });
+  } else if (Array.isArray(raw.datasets)) {
+    series = raw.datasets.map((item, index) => {
+      const ds = (item || {}) as { label?: string; data?: unknown[] };
+      return {
+        name: ds.label || `Series ${index + 1}`,
+        values: Array.isArray(ds.data) ? ds.data.map(toNumber) : [],
+      };
+    });
+  } else if (Array.isArray(raw.values)) {
+    series = [{ name: 'Series 1', values: raw.values.map(toNumber) }];
+  }
+
+  const rawCategories = Array.isArray(raw.categories)
+    ? raw.categories
+    : Array.isArray(raw.labels)
+      ? raw.labels
+      : [];
+  const categories = rawCategories.map(String);
+
+  // Pad categories so every value has a label
+  const maxLength = Math.max(0, ...series.map(s => s.values.length));
+  for (let i = categories.length; i < maxLength; i++) {
+    categories.push(String(i + 1));
+  }
+
+  return { categories, series };
+}
+
+// Value range across all series, honoring stacking and axis overrides
+export function getValueRange(
+  data: ChartData,
+  options: ChartOptions = {}
+): { min: number; max: number } {
+  let min = 0;
+  let max = 0;
+
+  if (options.stacked) {
+    data.categories.forEach((_, index) => {
+      let positive = 0;
+      let negative = 0;
+      data.series.forEach(series => {
+        const value = series.values[index] ?? 0;
+        if (value >= 0) {
+          positive += value;
+        } else {
+          negative += value;
+        }
+      });
+      max = Math.max(max, positive);
+      min = Math.min(min, negative);
+    });
+  } else {
+    data.series.forEach(series => {
+      series.values.forEach(value => {
+        max = Math.max(max, value);
+        min = Math.min(min, value);
+      });
+    });
+  }
+
+  if (options.valueAxis?.min !== undefined) {
+    min = options.valueAxis.min;
+  }
+  if (options.valueAxis?.max !== undefined) {
+    max = options.valueAxis.max;
+  }
+  if (max === min) {
+    max = min + 1;
+  }
+
+  return { min, max };
+}
+
+// Round a step to 1, 2, 5 or 10 times a power of ten
+function niceStep(rawStep: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const residual = rawStep / magnitude;
+  if (residual > 5) {
+    return 10 * magnitude;
+  }
+  if (residual > 2) {
+    return 5 * magnitude;
+  }
+  if (residual > 1) {
+    return 2 * magnitude;
+  }
+  return magnitude;
+}
+
+// Evenly spaced, human-friendly axis ticks covering [min, max]
+export function getNiceTicks(min: number, max: number, targetCount = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min) {
+    return [min];
+  }
+
+  const step = niceStep((max - min) / Math.max(1, targetCount));
+  const start = Math.floor(min / step) * step;
+  const end = Math.ceil(max / step) * step;
+
+  const ticks: number[] = [];
+  for (let value = start; value <= end + step / 2; value += step) {
+    // Avoid floating point noise such as 0.30000000000000004
+    ticks.push(parseFloat(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+// Compact label for axis ticks and data labels
+export function formatChartValue(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) {
+    return `${parseFloat((value / 1e9).toFixed(1))}B`;
+  }
+  if (abs >= 1e6) {
+    return `${parseFloat((value / 1e6).toFixed(1))}M`;
+  }
+  if (abs >= 1e4) {
+    return `${parseFloat((value / 1e3).toFixed(1))}K`;
+  }
+  return String(parseFloat(value.toFixed(2)));
+}
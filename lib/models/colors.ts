@@ -255,4 +255,58 @@ export function getContrastText(backgroundColor: string, lightColor = '#FFFFFF',
   const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
   
   return luminance > 0.5 ? darkColor : lightColor;
-}
\ No newline at end of file
+}
+
+// Resolve a color role (or a literal color value) against a color set
+export function resolveColor(
+  color: ColorRole | string | undefined,
+  colorSet: ColorSet = DEFAULT_COLOR_SET,
+  fallback = 'transparent'
+): string {
+  if (!color) {
+    return fallback;
+  }
+  if (color in colorSet.colors) {
+    return colorSet.colors[color as ColorRole].value;
+  }
+  return color;
+}
+
+// Find the color role whose value is closest to a hex color (RGB distance).
+// Roles with non-hex values (rgba shadows/overlays) are never matched.
+export function findNearestColorRole(
+  hexColor: string,
+  colorSet: ColorSet = DEFAULT_COLOR_SET
+): ColorRole | undefined {
+  const target = parseHexColor(hexColor);
+  if (!target) {
+    return undefined;
+  }
+
+  let nearest: ColorRole | undefined;
+  let nearestDistance = Infinity;
+  (Object.keys(colorSet.colors) as ColorRole[]).forEach(role => {
+    const candidate = parseHexColor(colorSet.colors[role].value);
+    if (!candidate) {
+      return;
+    }
+    const distance =
+      (target[0] - candidate[0]) ** 2 +
+      (target[1] - candidate[1]) ** 2 +
+      (target[2] - candidate[2]) ** 2;
+    if (distance < nearestDistance) {
+      nearest = role;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+function parseHexColor(color: string): [number, number, number] | undefined {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    return undefined;
+  }
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
@@ -0,0 +1,297 @@
+import {
+  SlideLike,
+  SlideOperation,
+  applyOperations,
+  diffSlides,
+  isEqualValue,
+} from '@/lib/collab/operations';
+
+/**
+ * Edit Commands
+ * Every change the editor makes is a command: the operations that make it
+ * and the operations that take it back (lib/collab/operations). Undo and
+ * redo apply those to the deck as it is then, so edits collaborators made
+ * in between are kept, the same way unsaved edits survive a remote update.
+ *
+ * Commands that share a coalesce key and follow each other within
+ * COALESCE_WINDOW_MS become one, so undo takes back a burst of typing
+ * rather than a letter. The history lives for the browser session
+ * (serializeHistory / parseHistory).
+ */
+
+export type EditCommandType =
+  | 'addSlide'
+  | 'deleteSlide'
+  | 'duplicateSlide'
+  | 'reorderSlides'
+  | 'editText'
+  | 'moveObject'
+  | 'resizeObject'
+  | 'changeImage'
+  | 'changeTypography'
+  | 'editObject'
+  | 'editSlide'
+  | 'changeSlideType'
+  | 'changeTemplate'
+  | 'replaceSlide'
+  | 'restoreVersion'
+  | 'editOutline'
+  | 'writeSlides';
+
+// "Undo <label>"
+export const EDIT_COMMAND_LABELS: Record<EditCommandType, string> = {
+  addSlide: 'add slide',
+  deleteSlide: 'delete slide',
+  duplicateSlide: 'duplicate slide',
+  reorderSlides: 'reorder slides',
+  editText: 'edit text',
+  moveObject: 'move',
+  resizeObject: 'resize',
+  changeImage: 'change image',
+  changeTypography: 'change typography',
+  editObject: 'edit object',
+  editSlide: 'edit slide',
+  changeSlideType: 'change slide type',
+  changeTemplate: 'change template',
+  replaceSlide: 'AI edit',
+  restoreVersion: 'restore version',
+  editOutline: 'edit outline',
+  writeSlides: 'write slides',
+};
+
+export const COALESCE_WINDOW_MS = 1500;
+export const MAX_EDIT_HISTORY = 100;
+
+// Presentation fields commands change besides the slides
+const DOCUMENT_FIELDS = ['templateId', 'outline'];
+// Fields stored as dates, revived when a history is read back
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'generatedAt'];
+
+type Fields = Record<string, unknown>;
+
+// What commands edit: a presentation as the editor holds it
+export interface EditDocument {
+  slides: SlideLike[];
+  templateId?: string;
+  outline?: unknown;
+}
+
+export interface EditCommand {
+  type: EditCommandType;
+  redo: SlideOperation[];
+  undo: SlideOperation[];
+  // templateId and outline, when the command changed them
+  fields?: { before: Fields; after: Fields };
+  coalesceKey?: string;
+  at: number;  // ms since epoch
+}
+
+// Both stacks end with the command next in line
+export interface EditHistory {
+  past: EditCommand[];
+  future: EditCommand[];
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+/**
+ * The command that turns one document into the other, or null if nothing
+ * changed
+ */
+export function createCommand(
+  type: EditCommandType,
+  before: EditDocument,
+  after: EditDocument,
+  { coalesceKey, at = Date.now() }: { coalesceKey?: string; at?: number } = {}
+): EditCommand | null {
+  const redo = diffSlides(before.slides, after.slides);
+  const changedFields = DOCUMENT_FIELDS.filter(key =>
+    !isEqualValue((before as unknown as Fields)[key], (after as unknown as Fields)[key])
+  );
+  if (redo.length === 0 && changedFields.length === 0) {
+    return null;
+  }
+
+  const command: EditCommand = { type, redo, undo: diffSlides(after.slides, before.slides), at };
+  if (changedFields.length > 0) {
+    const fields: { before: Fields; after: Fields } = { before: {}, after: {} };
+    changedFields.forEach(key => {
+      fields.before[key] = (before as unknown as Fields)[key] ?? null;
+      fields.after[key] = (after as unknown as Fields)[key] ?? null;
+    });
+    command.fields = fields;
+  }
+  if (coalesceKey) {
+    command.coalesceKey = coalesceKey;
+  }
+  return command;
+}
+
+/**
+ * What an object edit is, from the fields it changes
+ */
+export function objectCommandType(
+  object: { type?: string; coordinates?: { width?: number; height?: number } } | undefined,
+  updates: object
+): EditCommandType {
+  const keys = Object.keys(updates);
+  if (keys.some(key => ['content', 'headers', 'data'].includes(key))) {
+    return 'editText';
+  }
+  if (keys.some(key => ['typographicRole', 'customStyles', 'fontFamily', 'colorRole'].includes(key))) {
+    return 'changeTypography';
+  }
+  if (keys.length === 1 && keys[0] === 'coordinates') {
+    const coordinates = (updates as Fields).coordinates as { width?: number; height?: number };
+    const resized = coordinates.width !== object?.coordinates?.width || coordinates.height !== object?.coordinates?.height;
+    return resized ? 'resizeObject' : 'moveObject';
+  }
+  return object?.type === 'image' ? 'changeImage' : 'editObject';
+}
+
+// Two updates to the same target in a row, as one
+function mergeUpdate<T extends { changes: Fields; unset?: string[] }>(first: T, second: T): T {
+  const changes: Fields = { ...first.changes };
+  (second.unset || []).forEach(key => {
+    delete changes[key];
+  });
+  Object.assign(changes, second.changes);
+  const unset = (first.unset || [])
+    .filter(key => !(key in second.changes) && !(second.unset || []).includes(key))
+    .concat(second.unset || []);
+
+  const { unset: _unset, ...rest } = second;
+  return (unset.length ? { ...rest, changes, unset } : { ...rest, changes }) as T;
+}
+
+// Keystrokes leave a run of updates to one field; keep the net change
+function compactOperations(operations: SlideOperation[]): SlideOperation[] {
+  return operations.reduce<SlideOperation[]>((result, operation) => {
+    const last = result[result.length - 1];
+    if (last?.type === 'updateObject' && operation.type === 'updateObject'
+      && last.slideId === operation.slideId && last.objectId === operation.objectId) {
+      result[result.length - 1] = mergeUpdate(last, operation);
+    } else if (last?.type === 'updateSlide' && operation.type === 'updateSlide' && last.slideId === operation.slideId) {
+      result[result.length - 1] = mergeUpdate(last, operation);
+    } else {
+      result.push(operation);
+    }
+    return result;
+  }, []);
+}
+
+function mergeCommands(first: EditCommand, second: EditCommand): EditCommand {
+  const merged: EditCommand = {
+    ...second,
+    redo: compactOperations([...first.redo, ...second.redo]),
+    undo: compactOperations([...second.undo, ...first.undo]),
+  };
+  if (first.fields || second.fields) {
+    merged.fields = {
+      before: { ...second.fields?.before, ...first.fields?.before },
+      after: { ...first.fields?.after, ...second.fields?.after },
+    };
+  }
+  return merged;
+}
+
+// A command that's been undone or redone starts no new burst
+function sealed(command: EditCommand): EditCommand {
+  const { coalesceKey: _coalesceKey, ...rest } = command;
+  return rest;
+}
+
+function sealLast(commands: EditCommand[]): EditCommand[] {
+  return commands.length > 0 ? [...commands.slice(0, -1), sealed(commands[commands.length - 1])] : commands;
+}
+
+/**
+ * Record a command: folded into the last one when it continues a burst,
+ * and nothing is left to redo
+ */
+export function pushCommand(history: EditHistory, command: EditCommand): EditHistory {
+  const last = history.past[history.past.length - 1];
+  const continues = !!last && !!command.coalesceKey && last.coalesceKey === command.coalesceKey
+    && command.at - last.at <= COALESCE_WINDOW_MS;
+  const past = continues
+    ? [...history.past.slice(0, -1), mergeCommands(last, command)]
+    : [...history.past, command];
+  return { past: past.slice(-MAX_EDIT_HISTORY), future: [] };
+}
+
+/**
+ * A command's operations and fields applied to a document
+ */
+export function applyCommand<D extends EditDocument>(document: D, operations: SlideOperation[], fields?: Fields): D {
+  const result = { ...document, slides: applyOperations(document.slides, operations) } as D;
+  Object.keys(fields || {}).forEach(key => {
+    const value = (fields as Fields)[key];
+    // Unset fields are stored as null
+    if (value === undefined || value === null) {
+      delete (result as unknown as Fields)[key];
+    } else {
+      (result as unknown as Fields)[key] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Take back the last command; null when there's nothing to undo
+ */
+export function undoCommand<D extends EditDocument>(
+  history: EditHistory,
+  document: D
+): { history: EditHistory; document: D; command: EditCommand } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) {
+    return null;
+  }
+  return {
+    history: { past: sealLast(history.past.slice(0, -1)), future: [...history.future, sealed(command)] },
+    document: applyCommand(document, command.undo, command.fields?.before),
+    command,
+  };
+}
+
+/**
+ * Make the last undone command again; null when there's nothing to redo
+ */
+export function redoCommand<D extends EditDocument>(
+  history: EditHistory,
+  document: D
+): { history: EditHistory; document: D; command: EditCommand } | null {
+  const command = history.future[history.future.length - 1];
+  if (!command) {
+    return null;
+  }
+  return {
+    history: { past: [...history.past, command], future: history.future.slice(0, -1) },
+    document: applyCommand(document, command.redo, command.fields?.after),
+    command,
+  };
+}
+
+export function serializeHistory(history: EditHistory): string {
+  return JSON.stringify(history);
+}
+
+/**
+ * A history read back from storage; empty when it can't be
+ */
+export function parseHistory(value: string | null): EditHistory {
+  if (!value) {
+    return EMPTY_EDIT_HISTORY;
+  }
+  try {
+    const parsed = JSON.parse(value, (key, field) =>
+      DATE_FIELDS.includes(key) && typeof field === 'string' ? new Date(field) : field
+    );
+    if (!Array.isArray(parsed?.past) || !Array.isArray(parsed?.future)) {
+      return EMPTY_EDIT_HISTORY;
+    }
+    return { past: parsed.past, future: parsed.future };
+  } catch {
+    return EMPTY_EDIT_HISTORY;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Generation runs
+ * A streamed generation (hooks/usePresentationGeneration) is run by one
+ * client: the first editor tab to claim it moves it from 'pending' to
+ * 'generating' and records itself as `claimedBy`. While it streams it
+ * refreshes `heartbeatAt`; a run whose heartbeat stops (closed tab, lost
+ * connection) is abandoned, and any editor may mark it interrupted.
+ */
+
+export type GenerationStatus = 'pending' | 'generating' | 'complete' | 'partial' | 'failed';
+
+export interface GenerationRun {
+  status: GenerationStatus;
+  completed?: number;
+  claimedBy?: string;    // Client streaming the run
+  heartbeatAt?: number;  // ms since epoch, from the claimant's clock
+}
+
+export const GENERATION_HEARTBEAT_MS = 15000;
+export const GENERATION_TIMEOUT_MS = 60000;
+
+export function canClaimGeneration(run: GenerationRun | undefined): boolean {
+  return run?.status === 'pending';
+}
+
+/**
+ * Time left before a run being streamed counts as abandoned; 0 once it
+ * does, null for runs nobody is streaming
+ */
+export function generationTimeLeft(run: GenerationRun | undefined, now: number): number | null {
+  if (run?.status !== 'generating') {
+    return null;
+  }
+  return Math.max(0, (run.heartbeatAt || 0) + GENERATION_TIMEOUT_MS - now);
+}
+
+export function isGenerationAbandoned(run: GenerationRun | undefined, now: number): boolean {
+  return generationTimeLeft(run, now) === 0;
+}
+
+/**
+ * The updates that end an abandoned run: partial if slides arrived
+ */
+export function interruptedGeneration(run: GenerationRun): Pick<GenerationRun, 'status'> & { error: string } {
+  return {
+    status: run.completed ? 'partial' : 'failed',
+    error: 'Generation was interrupted',
+  };
+}
@@ -0,0 +1,201 @@
+import type { ImageAspectRatio } from '@/lib/server/image-providers/types';
+
+/**
+ * Image Asset Models
+ * Generated images are stored once per distinct request: the asset key
+ * hashes the normalized prompt, style, model and parameters, so the same
+ * description and style on two slides (or two decks) share one set of
+ * variants. An asset moves through
+ *
+ *   generating  one job is calling the provider; jobs for the same key
+ *               wait on it instead of generating again
+ *   ready       variants uploaded; new jobs reuse them
+ *   failed      the next job for the key generates again
+ *
+ * Presentations using an asset are counted so that its storage objects
+ * go when the last presentation is deleted. The transitions below are
+ * pure; the Firestore store runs them in transactions.
+ */
+
+export interface ImageAssetParams {
+  prompt: string;  // Normalized full prompt (description + style)
+  style: string;
+  model: string;
+  negativePrompt?: string;
+  aspectRatio: ImageAspectRatio;
+  seed?: number;
+  variants: number;
+}
+
+// The slide image a job fills in
+export interface ImageAssetJob {
+  jobId: string;
+  presentationId: string;
+  slideId: string;
+  objectId?: string;
+  imageIndex?: number;
+}
+
+export interface ImageAsset {
+  key: string;
+  params: ImageAssetParams;
+  status: 'generating' | 'ready' | 'failed';
+  job: ImageAssetJob;        // The job generating (or that generated) it
+  waiting: ImageAssetJob[];  // Jobs attached while it generates
+  imageUrls?: string[];
+  presentationIds: string[];
+  refCount: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ImageAssetClaim =
+  | { status: 'ready'; imageUrls: string[] }     // Reuse these variants
+  | { status: 'attached'; jobId: string }        // Wait for this job
+  | { status: 'claimed' };                       // Generate the asset
+
+/**
+ * Where assets are kept; jobs claim, complete or fail an asset and get
+ * back the jobs waiting on it
+ */
+export interface ImageAssetStore {
+  claim(key: string, params: ImageAssetParams, job: ImageAssetJob): Promise<ImageAssetClaim>;
+  complete(key: string, imageUrls: string[]): Promise<ImageAssetJob[]>;
+  fail(key: string, error: string): Promise<ImageAssetJob[]>;
+}
+
+// A generating asset whose job has not finished by then is taken over
+export const ASSET_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Prompt text as it matters to the provider: case, spacing and trailing
+ * full stops do not make a different image
+ */
+export function normalizeImagePrompt(prompt: string): string {
+  return prompt.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.]+$/, '').trim();
+}
+
+function withReference(asset: ImageAsset, presentationIds: string[]): ImageAsset {
+  const ids = [...asset.presentationIds];
+  for (const id of presentationIds) {
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return { ...asset, presentationIds: ids, refCount: ids.length };
+}
+
+/**
+ * Claim an asset for a job: reuse it when ready, wait on the job
+ * generating it, or generate it (new, failed or stale)
+ */
+export function claimImageAsset(
+  asset: ImageAsset | null,
+  key: string,
+  params: ImageAssetParams,
+  job: ImageAssetJob,
+  now: Date
+): { asset: ImageAsset; claim: ImageAssetClaim } {
+  if (asset?.status === 'ready' && asset.imageUrls?.length) {
+    return {
+      asset: { ...withReference(asset, [job.presentationId]), updatedAt: now },
+      claim: { status: 'ready', imageUrls: asset.imageUrls },
+    };
+  }
+
+  const inFlight = asset?.status === 'generating'
+    && asset.job.jobId !== job.jobId
+    && now.getTime() - asset.updatedAt.getTime() < ASSET_CLAIM_TIMEOUT_MS;
+  if (asset && inFlight) {
+    const waiting = asset.waiting.some(waiter => waiter.jobId === job.jobId)
+      ? asset.waiting
+      : [...asset.waiting, job];
+    return {
+      asset: { ...asset, waiting },
+      claim: { status: 'attached', jobId: asset.job.jobId },
+    };
+  }
+
+  // Jobs left waiting on a stale claim stay attached to the new one
+  return {
+    asset: {
+      key,
+      params,
+      status: 'generating',
+      job,
+      waiting: (asset?.waiting || []).filter(waiter => waiter.jobId !== job.jobId),
+      presentationIds: asset?.presentationIds || [],
+      refCount: asset?.refCount || 0,
+      createdAt: asset?.createdAt || now,
+      updatedAt: now,
+    },
+    claim: { status: 'claimed' },
+  };
+}
+
+/**
+ * Store the generated variants; the generating job and every waiting job
+ * now reference the asset
+ */
+export function completeImageAsset(
+  asset: ImageAsset,
+  imageUrls: string[],
+  now: Date
+): { asset: ImageAsset; waiting: ImageAssetJob[] } {
+  const jobs = [asset.job, ...asset.waiting];
+  return {
+    asset: {
+      ...withReference(asset, jobs.map(job => job.presentationId)),
+      status: 'ready',
+      imageUrls,
+      waiting: [],
+      error: undefined,
+      updatedAt: now,
+    },
+    waiting: asset.waiting,
+  };
+}
+
+export function failImageAsset(
+  asset: ImageAsset,
+  error: string,
+  now: Date
+): { asset: ImageAsset; waiting: ImageAssetJob[] } {
+  return {
+    asset: { ...asset, status: 'failed', error, waiting: [], updatedAt: now },
+    waiting: asset.waiting,
+  };
+}
+
+/**
+ * Add a presentation using the asset's images, such as a copy of one
+ * that already does
+ */
+export function referenceImageAsset(asset: ImageAsset, presentationId: string, now: Date): ImageAsset {
+  if (asset.presentationIds.includes(presentationId)) {
+    return asset;
+  }
+  return { ...withReference(asset, [presentationId]), updatedAt: now };
+}
+
+/**
+ * Drop a presentation's reference. The asset is null when nothing
+ * references it any more and nothing is generating or waiting on it;
+ * its images can then be deleted.
+ */
+export function releaseImageAsset(
+  asset: ImageAsset,
+  presentationId: string,
+  now: Date
+): { asset: ImageAsset | null; orphanedUrls: string[] } {
+  const presentationIds = asset.presentationIds.filter(id => id !== presentationId);
+  const busy = asset.status === 'generating' || asset.waiting.length > 0;
+  if (presentationIds.length === 0 && !busy) {
+    return { asset: null, orphanedUrls: asset.imageUrls || [] };
+  }
+  return {
+    asset: { ...asset, presentationIds, refCount: presentationIds.length, updatedAt: now },
+    orphanedUrls: [],
+  };
+}
@@ -0,0 +1,213 @@
+import type { FocalPoint, ImageCrop, ImageObject } from './slide';
+
+/**
+ * Image Crop Models
+ * Where an image object's source image lands inside its box. The crop
+ * selects part of the source; the fit scales that part into the box:
+ *
+ *   cover       fills the box; the focal point decides what is trimmed
+ *   contain     fits inside the box, centered
+ *   fill        stretches to the box
+ *   none        source size; the focal point decides what is trimmed
+ *   scale-down  like contain, never enlarged
+ *
+ * Renderers place the whole source image by layoutImage and clip to the
+ * box; exports cut out visibleImageRegion and place it at its target.
+ * Both follow CSS object-fit/object-position, so an image without a crop
+ * can also be drawn with plain CSS (imageObjectPosition).
+ */
+
+export type ImageFit = NonNullable<ImageObject['fit']>;
+export type ImageFilters = NonNullable<ImageObject['filters']>;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_IMAGE_FILTERS: Required<ImageFilters> = {
+  brightness: 100,  // percent
+  contrast: 100,    // percent
+  saturation: 100,  // percent
+  blur: 0,          // canvas pixels
+};
+
+// Smallest crop, as a fraction of the source
+export const MIN_CROP_SIZE = 0.05;
+
+// Stored instead of removing a crop (Firestore has no undefined)
+export const FULL_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+}
+
+/**
+ * The crop kept inside the source and at least MIN_CROP_SIZE; undefined
+ * when it shows the whole image
+ */
+export function normalizeCrop(crop?: ImageCrop): ImageCrop | undefined {
+  if (!crop) {
+    return undefined;
+  }
+  const width = clamp(crop.width, MIN_CROP_SIZE, 1);
+  const height = clamp(crop.height, MIN_CROP_SIZE, 1);
+  const normalized = {
+    x: clamp(crop.x, 0, 1 - width),
+    y: clamp(crop.y, 0, 1 - height),
+    width,
+    height,
+  };
+  const whole = normalized.x === 0 && normalized.y === 0 && normalized.width === 1 && normalized.height === 1;
+  return whole ? undefined : normalized;
+}
+
+export function normalizeFocalPoint(point?: FocalPoint): FocalPoint {
+  return point ? { x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) } : CENTER;
+}
+
+export function hasFilterEdits(filters?: ImageFilters): boolean {
+  return !!filters && (Object.keys(DEFAULT_IMAGE_FILTERS) as (keyof ImageFilters)[]).some(key =>
+    filters[key] !== undefined && filters[key] !== DEFAULT_IMAGE_FILTERS[key]
+  );
+}
+
+/**
+ * Whether the image looks different from its source file drawn with the
+ * fit alone: cropped, filtered, or trimmed around a focal point
+ */
+export function hasImageEdits(image: Pick<ImageObject, 'crop' | 'focalPoint' | 'filters' | 'fit'>): boolean {
+  const focal = normalizeFocalPoint(image.focalPoint);
+  const trims = image.fit === 'cover' || image.fit === 'none';
+  return !!normalizeCrop(image.crop)
+    || hasFilterEdits(image.filters)
+    || (trims && (focal.x !== CENTER.x || focal.y !== CENTER.y));
+}
+
+/**
+ * CSS filter for the image; `scale` converts the blur radius from canvas
+ * pixels to rendered pixels
+ */
+export function imageFilterCss(filters?: ImageFilters, scale: number = 1): string | undefined {
+  if (!hasFilterEdits(filters)) {
+    return undefined;
+  }
+  const value = { ...DEFAULT_IMAGE_FILTERS, ...filters };
+  return [
+    `brightness(${value.brightness}%)`,
+    `contrast(${value.contrast}%)`,
+    `saturate(${value.saturation}%)`,
+    `blur(${value.blur * scale}px)`,
+  ].join(' ');
+}
+
+/**
+ * CSS object-position for an uncropped image: the focal point for fits
+ * that trim, the center otherwise
+ */
+export function imageObjectPosition(image: Pick<ImageObject, 'focalPoint'>, fit: ImageFit): string {
+  const focal = fit === 'cover' || fit === 'none' ? normalizeFocalPoint(image.focalPoint) : CENTER;
+  return `${focal.x * 100}% ${focal.y * 100}%`;
+}
+
+// The cropped part of the source, scaled and positioned in the box
+function placeCrop(
+  natural: Size,
+  box: Size,
+  image: Pick<ImageObject, 'crop' | 'focalPoint'>,
+  fit: ImageFit
+): { crop: ImageCrop; scaleX: number; scaleY: number; rect: Rect } {
+  const crop = normalizeCrop(image.crop) || FULL_CROP;
+  const cropWidth = crop.width * natural.width;
+  const cropHeight = crop.height * natural.height;
+  const coverScale = Math.max(box.width / cropWidth, box.height / cropHeight);
+  const containScale = Math.min(box.width / cropWidth, box.height / cropHeight);
+
+  let scaleX = 1;
+  let scaleY = 1;
+  if (fit === 'cover') {
+    scaleX = scaleY = coverScale;
+  } else if (fit === 'contain') {
+    scaleX = scaleY = containScale;
+  } else if (fit === 'scale-down') {
+    scaleX = scaleY = Math.min(1, containScale);
+  } else if (fit === 'fill') {
+    scaleX = box.width / cropWidth;
+    scaleY = box.height / cropHeight;
+  }
+
+  // Like object-position: the focal point's share of the crop is the
+  // share of the leftover space on its left (and above). Without one the
+  // crop is centered.
+  const focal = (fit === 'cover' || fit === 'none') && image.focalPoint
+    ? normalizeFocalPoint(image.focalPoint)
+    : null;
+  const width = cropWidth * scaleX;
+  const height = cropHeight * scaleY;
+  const rect = {
+    x: (box.width - width) * (focal ? clamp((focal.x - crop.x) / crop.width, 0, 1) : 0.5),
+    y: (box.height - height) * (focal ? clamp((focal.y - crop.y) / crop.height, 0, 1) : 0.5),
+    width,
+    height,
+  };
+  return { crop, scaleX, scaleY, rect };
+}
+
+/**
+ * Where the whole source image goes, in box pixels, so that its crop is
+ * fitted into the box. Draw it there and clip to the box.
+ */
+export function layoutImage(
+  natural: Size,
+  box: Size,
+  image: Pick<ImageObject, 'crop' | 'focalPoint'>,
+  fit: ImageFit
+): Rect {
+  const { crop, scaleX, scaleY, rect } = placeCrop(natural, box, image, fit);
+  return {
+    x: rect.x - crop.x * natural.width * scaleX,
+    y: rect.y - crop.y * natural.height * scaleY,
+    width: natural.width * scaleX,
+    height: natural.height * scaleY,
+  };
+}
+
+/**
+ * The part of the source that shows in the box (`source`, in source
+ * pixels) and where it shows (`target`, in box pixels); null when none of
+ * it is visible
+ */
+export function visibleImageRegion(
+  natural: Size,
+  box: Size,
+  image: Pick<ImageObject, 'crop' | 'focalPoint'>,
+  fit: ImageFit
+): { source: Rect; target: Rect } | null {
+  const { crop, scaleX, scaleY, rect } = placeCrop(natural, box, image, fit);
+  const left = Math.max(0, rect.x);
+  const top = Math.max(0, rect.y);
+  const right = Math.min(box.width, rect.x + rect.width);
+  const bottom = Math.min(box.height, rect.y + rect.height);
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+
+  return {
+    source: {
+      x: crop.x * natural.width + (left - rect.x) / scaleX,
+      y: crop.y * natural.height + (top - rect.y) / scaleY,
+      width: (right - left) / scaleX,
+      height: (bottom - top) / scaleY,
+    },
+    target: { x: left, y: top, width: right - left, height: bottom - top },
+  };
+}
@@ -0,0 +1,178 @@
+import type { ImageGenerationVersion, ImageObject, Slide } from './slide';
+
+/**
+ * Image Variants
+ * An image object shows one of its variants (the hero) and can cycle
+ * through the rest while presenting. These helpers return the fields to
+ * change, ready for updateSlideImage; `src` always follows the hero.
+ */
+
+// Versions kept per image; the oldest are dropped first
+export const MAX_GENERATION_HISTORY = 20;
+
+export type ImageVariantUpdate = Pick<
+  ImageObject,
+  'src' | 'variants' | 'heroIndex' | 'generatedAt' | 'generationPrompt' | 'generationStyle' | 'generationDescription' | 'generationHistory'
+>;
+
+export function isPlaceholderImage(src?: string): boolean {
+  return !src || src.startsWith('/api/placeholder/');
+}
+
+/**
+ * The image's variants; an image without any has its own src as the only one
+ */
+export function getImageVariants(image: Pick<ImageObject, 'src' | 'variants'>): string[] {
+  if (image.variants && image.variants.length > 0) {
+    return image.variants;
+  }
+  return isPlaceholderImage(image.src) ? [] : [image.src];
+}
+
+export function getHeroIndex(image: Pick<ImageObject, 'src' | 'variants' | 'heroIndex'>): number {
+  const variants = getImageVariants(image);
+  const index = image.heroIndex || 0;
+  return index < variants.length ? index : 0;
+}
+
+export function setHeroVariant(image: ImageObject, index: number): Pick<ImageObject, 'src' | 'variants' | 'heroIndex'> {
+  const variants = getImageVariants(image);
+  if (index < 0 || index >= variants.length) {
+    throw new Error(`Invalid variant index: ${index}`);
+  }
+  return { src: variants[index], variants, heroIndex: index };
+}
+
+/**
+ * Remove one variant. The hero stays the same image unless it is the one
+ * removed, in which case the next variant takes over. The last variant
+ * cannot be removed.
+ */
+export function removeImageVariant(image: ImageObject, index: number): Pick<ImageObject, 'src' | 'variants' | 'heroIndex'> {
+  const variants = getImageVariants(image);
+  if (index < 0 || index >= variants.length) {
+    throw new Error(`Invalid variant index: ${index}`);
+  }
+  if (variants.length === 1) {
+    throw new Error('An image needs at least one variant');
+  }
+
+  const remaining = variants.filter((_, i) => i !== index);
+  const hero = getHeroIndex(image);
+  const heroIndex = hero > index ? hero - 1 : hero === index ? Math.min(index, remaining.length - 1) : hero;
+  return { src: remaining[heroIndex], variants: remaining, heroIndex };
+}
+
+/**
+ * Prompts the image was generated with, oldest first. Images generated
+ * before history was kept get their current prompt as the first version.
+ */
+export function getGenerationHistory(image: ImageObject): ImageGenerationVersion[] {
+  if (image.generationHistory && image.generationHistory.length > 0) {
+    return image.generationHistory;
+  }
+  if (!image.generationPrompt) {
+    return [];
+  }
+  return [{
+    prompt: image.generationPrompt,
+    ...(image.generationDescription && { description: image.generationDescription }),
+    ...(image.generationStyle && { style: image.generationStyle }),
+    variants: getImageVariants(image),
+    createdAt: image.generatedAt || new Date(0),
+  }];
+}
+
+/**
+ * Add newly generated variants and record the prompt they came from. The
+ * current hero is kept; an image still showing a placeholder gets the
+ * first new variant as its hero.
+ */
+export function addImageVariants(
+  image: ImageObject,
+  urls: string[],
+  generation: { prompt: string; description?: string; style?: string },
+  now: Date = new Date()
+): ImageVariantUpdate {
+  const existing = getImageVariants(image);
+  const variants = [...existing, ...urls];
+  const heroIndex = existing.length > 0 ? getHeroIndex(image) : 0;
+  const version: ImageGenerationVersion = {
+    prompt: generation.prompt,
+    ...(generation.description && { description: generation.description }),
+    ...(generation.style && { style: generation.style }),
+    variants: urls,
+    createdAt: now,
+  };
+
+  return {
+    src: variants[heroIndex],
+    variants,
+    heroIndex,
+    generatedAt: now,
+    generationPrompt: generation.prompt,
+    ...(generation.style && { generationStyle: generation.style }),
+    ...(generation.description && { generationDescription: generation.description }),
+    generationHistory: [...getGenerationHistory(image), version].slice(-MAX_GENERATION_HISTORY),
+  };
+}
+
+/**
+ * Every image URL the slides use: each image's variants and the ones in
+ * its generation history
+ */
+export function getSlideImageUrls(slides: Slide[]): string[] {
+  const urls = new Set<string>();
+  slides.forEach(slide => (slide.objects || []).forEach(obj => {
+    if (obj.type !== 'image') {
+      return;
+    }
+    const image = obj as ImageObject;
+    getImageVariants(image).forEach(url => urls.add(url));
+    getGenerationHistory(image).forEach(version => version.variants.forEach(url => urls.add(url)));
+  }));
+  return Array.from(urls);
+}
+
+// Which image on a slide an update is for; with neither, the first empty one
+export interface SlideImageTarget {
+  objectId?: string;
+  imageIndex?: number;  // Among the slide's images
+}
+
+/**
+ * The slides with one image's fields changed. Undefined fields are left
+ * as they are, so callers can pass only what they edit.
+ */
+export function withSlideImage(
+  slides: Slide[],
+  slideId: string,
+  { objectId, imageIndex }: SlideImageTarget,
+  updates: Partial<ImageObject>
+): Slide[] {
+  const changes = Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  );
+
+  return slides.map((slide) => {
+    if (slide.id !== slideId) {
+      return slide;
+    }
+
+    let imageCounter = 0;
+    const objects = slide.objects?.map((obj) => {
+      if (obj.type !== 'image') {
+        return obj;
+      }
+      const currentImageIndex = imageCounter++;
+      const matches = (
+        (objectId && obj.id === objectId) ||
+        (imageIndex !== undefined && currentImageIndex === imageIndex) ||
+        (!objectId && imageIndex === undefined && !(obj as ImageObject).src)
+      );
+      return matches ? { ...obj, ...changes } as ImageObject : obj;
+    });
+
+    return { ...slide, objects, updatedAt: new Date() };
+  });
+}
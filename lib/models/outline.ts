@@ -0,0 +1,284 @@
+import { SlideType } from './slide';
+
+/**
+ * Outline Models
+ * The reviewable plan produced by the first phase of outline-first
+ * generation: sections of slide headings with an intended SlideType and
+ * key points. Users edit the outline, then expand slides (one, a section or
+ * all) into full slides. All edit helpers are pure and return a new outline.
+ */
+
+export const PRESENTATION_TONES = ['professional', 'casual', 'academic', 'creative', 'persuasive'] as const;
+export const PRESENTATION_GOALS = ['inform', 'persuade', 'educate', 'inspire', 'entertain'] as const;
+export const PRESENTATION_AUDIENCES = ['general', 'executives', 'technical', 'students', 'investors'] as const;
+
+export type PresentationTone = typeof PRESENTATION_TONES[number];
+export type PresentationGoal = typeof PRESENTATION_GOALS[number];
+export type PresentationAudience = typeof PRESENTATION_AUDIENCES[number];
+
+// What the deck is for; steers both the outline and the expansion prompts
+export interface PresentationBrief {
+  topic: string;
+  tone?: PresentationTone;
+  goal?: PresentationGoal;
+  audience?: PresentationAudience;
+}
+
+/**
+ * Keep only recognised tone/goal/audience values from a request body
+ */
+export function sanitizeBrief(raw: { tone?: unknown; goal?: unknown; audience?: unknown }): Omit<PresentationBrief, 'topic'> {
+  const pick = <T extends string>(values: readonly T[], value: unknown): T | undefined =>
+    values.includes(value as T) ? value as T : undefined;
+  const tone = pick(PRESENTATION_TONES, raw.tone);
+  const goal = pick(PRESENTATION_GOALS, raw.goal);
+  const audience = pick(PRESENTATION_AUDIENCES, raw.audience);
+  return {
+    ...(tone && { tone }),
+    ...(goal && { goal }),
+    ...(audience && { audience }),
+  };
+}
+
+export interface OutlineSlide {
+  id: string;
+  heading: string;
+  type: SlideType;
+  keyPoints: string[];
+  slideId?: string;  // Deck slide created when this entry was expanded
+}
+
+export interface OutlineSection {
+  id: string;
+  title: string;
+  slides: OutlineSlide[];
+}
+
+export interface PresentationOutline {
+  title: string;
+  subtitle?: string;
+  sections: OutlineSection[];
+}
+
+// Slide types the outline offers (the ones the AI slide converter lays out)
+export const OUTLINE_SLIDE_TYPES: SlideType[] = [
+  SlideType.TITLE,
+  SlideType.SECTION,
+  SlideType.BULLETS,
+  SlideType.CONTENT,
+  SlideType.IMAGE,
+  SlideType.IMAGE_WITH_TEXT,
+  SlideType.THREE_IMAGES,
+  SlideType.TWO_COLUMN,
+  SlideType.COMPARISON,
+  SlideType.QUOTE,
+  SlideType.TIMELINE,
+];
+
+let idCounter = 0;
+
+export function createOutlineId(prefix: string): string {
+  idCounter++;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter}`;
+}
+
+export function toOutlineSlideType(type: unknown): SlideType {
+  return OUTLINE_SLIDE_TYPES.includes(type as SlideType) ? type as SlideType : SlideType.CONTENT;
+}
+
+interface RawOutline {
+  title?: unknown;
+  subtitle?: unknown;
+  sections?: {
+    title?: unknown;
+    slides?: { heading?: unknown; type?: unknown; keyPoints?: unknown }[];
+  }[];
+}
+
+/**
+ * Turn a model's outline JSON into a well-formed outline with ids
+ */
+export function normalizeOutline(raw: RawOutline, fallbackTitle: string = 'Untitled Presentation'): PresentationOutline {
+  const sections = (Array.isArray(raw.sections) ? raw.sections : [])
+    .map(section => ({
+      id: createOutlineId('section'),
+      title: typeof section?.title === 'string' ? section.title : '',
+      slides: (Array.isArray(section?.slides) ? section.slides : [])
+        .filter(slide => slide && typeof slide.heading === 'string' && slide.heading.trim())
+        .map(slide => ({
+          id: createOutlineId('outline'),
+          heading: (slide.heading as string).trim(),
+          type: toOutlineSlideType(slide.type),
+          keyPoints: Array.isArray(slide.keyPoints)
+            ? slide.keyPoints.filter((point): point is string => typeof point === 'string' && !!point.trim())
+            : [],
+        })),
+    }))
+    .filter(section => section.slides.length > 0);
+
+  return {
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : fallbackTitle,
+    ...(typeof raw.subtitle === 'string' && raw.subtitle.trim() && { subtitle: raw.subtitle.trim() }),
+    sections,
+  };
+}
+
+/**
+ * All outline slides in deck order
+ */
+export function getOutlineSlides(outline: PresentationOutline): OutlineSlide[] {
+  return outline.sections.reduce<OutlineSlide[]>((all, section) => all.concat(section.slides), []);
+}
+
+export function getPendingOutlineSlides(outline: PresentationOutline): OutlineSlide[] {
+  return getOutlineSlides(outline).filter(slide => !slide.slideId);
+}
+
+export function updateOutlineSlide(
+  outline: PresentationOutline,
+  outlineSlideId: string,
+  updates: Partial<Omit<OutlineSlide, 'id'>>
+): PresentationOutline {
+  return {
+    ...outline,
+    sections: outline.sections.map(section => ({
+      ...section,
+      slides: section.slides.map(slide => slide.id === outlineSlideId ? { ...slide, ...updates } : slide),
+    })),
+  };
+}
+
+export function updateOutlineSection(
+  outline: PresentationOutline,
+  sectionId: string,
+  title: string
+): PresentationOutline {
+  return {
+    ...outline,
+    sections: outline.sections.map(section => section.id === sectionId ? { ...section, title } : section),
+  };
+}
+
+export function removeOutlineSlide(outline: PresentationOutline, outlineSlideId: string): PresentationOutline {
+  return {
+    ...outline,
+    sections: outline.sections.map(section => ({
+      ...section,
+      slides: section.slides.filter(slide => slide.id !== outlineSlideId),
+    })),
+  };
+}
+
+/**
+ * Add an empty slide to a section, after `afterId` or at the end
+ */
+export function addOutlineSlide(
+  outline: PresentationOutline,
+  sectionId: string,
+  afterId?: string
+): { outline: PresentationOutline; slide: OutlineSlide } {
+  const slide: OutlineSlide = {
+    id: createOutlineId('outline'),
+    heading: 'New slide',
+    type: SlideType.BULLETS,
+    keyPoints: [],
+  };
+
+  return {
+    slide,
+    outline: {
+      ...outline,
+      sections: outline.sections.map(section => {
+        if (section.id !== sectionId) {
+          return section;
+        }
+        const index = afterId ? section.slides.findIndex(s => s.id === afterId) : -1;
+        const at = index === -1 ? section.slides.length : index + 1;
+        return { ...section, slides: [...section.slides.slice(0, at), slide, ...section.slides.slice(at)] };
+      }),
+    },
+  };
+}
+
+/**
+ * Move a slide one step up or down, crossing into the neighbouring
+ * section at a section boundary
+ */
+export function moveOutlineSlide(
+  outline: PresentationOutline,
+  outlineSlideId: string,
+  direction: -1 | 1
+): PresentationOutline {
+  const sectionIndex = outline.sections.findIndex(section => section.slides.some(s => s.id === outlineSlideId));
+  if (sectionIndex === -1) {
+    return outline;
+  }
+
+  const sections = outline.sections.map(section => ({ ...section, slides: section.slides.slice() }));
+  const from = sections[sectionIndex].slides;
+  const index = from.findIndex(s => s.id === outlineSlideId);
+  const target = index + direction;
+
+  if (target >= 0 && target < from.length) {
+    const [slide] = from.splice(index, 1);
+    from.splice(target, 0, slide);
+  } else {
+    const neighbour = sections[sectionIndex + direction];
+    if (!neighbour) {
+      return outline;
+    }
+    const [slide] = from.splice(index, 1);
+    if (direction === 1) {
+      neighbour.slides.unshift(slide);
+    } else {
+      neighbour.slides.push(slide);
+    }
+  }
+
+  return { ...outline, sections };
+}
+
+/**
+ * Mark expanded outline slides and insert their new deck slides in outline
+ * order: after the deck slide of the nearest earlier expanded entry, before
+ * the nearest later one, or at the end. Deck slides the user rearranged
+ * or added by hand stay where they are.
+ */
+export function insertExpandedSlides<T extends { id: string }>(
+  outline: PresentationOutline,
+  deck: T[],
+  expanded: { outlineSlideId: string; slide: T }[]
+): { outline: PresentationOutline; slides: T[] } {
+  let nextOutline = outline;
+  const slides = deck.slice();
+  const order = getOutlineSlides(outline).map(slide => slide.id);
+  const sorted = expanded
+    .filter(entry => order.includes(entry.outlineSlideId))
+    .sort((a, b) => order.indexOf(a.outlineSlideId) - order.indexOf(b.outlineSlideId));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const { outlineSlideId, slide } = sorted[i];
+    const entries = getOutlineSlides(nextOutline);
+    const position = entries.findIndex(entry => entry.id === outlineSlideId);
+    const deckIndexOf = (entry: OutlineSlide) => entry.slideId ? slides.findIndex(s => s.id === entry.slideId) : -1;
+
+    let insertAt = -1;
+    for (let j = position - 1; j >= 0 && insertAt === -1; j--) {
+      const index = deckIndexOf(entries[j]);
+      if (index !== -1) {
+        insertAt = index + 1;
+      }
+    }
+    for (let j = position + 1; j < entries.length && insertAt === -1; j++) {
+      insertAt = deckIndexOf(entries[j]);
+    }
+    if (insertAt === -1) {
+      insertAt = slides.length;
+    }
+
+    slides.splice(insertAt, 0, slide);
+    nextOutline = updateOutlineSlide(nextOutline, outlineSlideId, { slideId: slide.id });
+  }
+
+  return { outline: nextOutline, slides };
+}
@@ -0,0 +1,166 @@
+/**
+ * Presentation Sharing
+ * The owner (metadata.userId) can do everything, including sharing.
+ * Everyone else gets a role:
+ *
+ *   editor     change slides, outline, title and settings
+ *   commenter  view and comment
+ *   viewer     view and present
+ *
+ * A role comes from an email invite (for whoever signs in with that
+ * verified address), from the share link (view-only or comment,
+ * optionally expiring) or from the presentation being public (view). The
+ * highest one applies. The Firestore rules, /api/presentations/[id] and
+ * lib/firebase/presentations all resolve roles with these rules.
+ *
+ * Invites are kept apart from the presentation
+ * (presentations/{id}/members/{email}), so viewers never see who else it
+ * is shared with; each member reads only their own.
+ */
+
+export type PresentationRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+export type MemberRole = Exclude<PresentationRole, 'owner'>;
+export type LinkRole = 'viewer' | 'commenter';
+
+export const MEMBER_ROLES: MemberRole[] = ['editor', 'commenter', 'viewer'];
+export const LINK_ROLES: LinkRole[] = ['viewer', 'commenter'];
+
+export const ROLE_LABELS: Record<PresentationRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer',
+};
+
+const ROLE_RANK: Record<PresentationRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+// Firestore Timestamps and Dates both convert
+type TimeValue = Date | { toMillis(): number };
+
+export interface PresentationMember {
+  email: string;  // Normalized; also the document id
+  role: MemberRole;
+  invitedBy: string;  // uid
+  invitedAt: TimeValue;
+}
+
+// The invites as the owner sees them
+export interface PresentationSharing {
+  members?: Record<string, PresentationMember>;  // By normalized email
+}
+
+// Kept apart from the presentation (presentations/{id}/private/link) so
+// only the owner can read the token
+export interface ShareLink {
+  token: string;
+  role: LinkRole;
+  expiresAt: TimeValue | null;
+  createdBy: string;
+}
+
+export interface SharedPresentation {
+  metadata?: { userId?: string; isPublic?: boolean };
+}
+
+export interface PresentationAccessor {
+  uid?: string | null;
+  email?: string | null;
+  emailVerified?: boolean;
+  linkToken?: string | null;  // Redeemed share link token
+  member?: PresentationMember | null;  // Their invite, when they have one
+}
+
+function toMillis(value: TimeValue): number {
+  return value instanceof Date ? value.getTime() : value.toMillis();
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export function isLinkActive(link: ShareLink, now: number = Date.now()): boolean {
+  return link.expiresAt === null || toMillis(link.expiresAt) > now;
+}
+
+export function hasRole(role: PresentationRole | null, minimum: PresentationRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * What someone may do with a presentation; null for no access. Pass the
+ * share link only when the accessor holds a token for it.
+ */
+export function resolvePresentationRole(
+  presentation: SharedPresentation,
+  accessor: PresentationAccessor,
+  link: ShareLink | null = null,
+  now: number = Date.now()
+): PresentationRole | null {
+  if (accessor.uid && presentation.metadata?.userId === accessor.uid) {
+    return 'owner';
+  }
+
+  const roles: PresentationRole[] = [];
+  if (accessor.member && accessor.email && accessor.emailVerified
+    && accessor.member.email === normalizeEmail(accessor.email)) {
+    roles.push(accessor.member.role);
+  }
+  if (link && accessor.linkToken && accessor.linkToken === link.token && isLinkActive(link, now)) {
+    roles.push(link.role);
+  }
+  if (presentation.metadata?.isPublic) {
+    roles.push('viewer');
+  }
+
+  return roles.reduce<PresentationRole | null>(
+    (best, role) => (best === null || ROLE_RANK[role] > ROLE_RANK[best] ? role : best),
+    null
+  );
+}
+
+/**
+ * Sharing with one member added, or their role changed
+ */
+export function withMember(
+  sharing: PresentationSharing | undefined,
+  member: PresentationMember
+): PresentationSharing {
+  return { ...sharing, members: { ...sharing?.members, [member.email]: member } };
+}
+
+export function withoutMember(sharing: PresentationSharing | undefined, email: string): PresentationSharing {
+  const members = { ...sharing?.members };
+  delete members[normalizeEmail(email)];
+  return { ...sharing, members };
+}
+
+// Random numbers for secrets, from the platform's cryptographic source
+export function secureRandom(): number {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0] / 0x100000000;
+  }
+  return Math.random();
+}
+
+// Share link tokens are secrets, unlike join codes
+export function generateShareToken(random: () => number = secureRandom): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let token = '';
+  for (let i = 0; i < 32; i++) {
+    token += alphabet[Math.floor(random() * alphabet.length)];
+  }
+  return token;
+}
+
+export function getShareUrl(origin: string, presentationId: string, token: string): string {
+  return `${origin}/presentations/${presentationId}/edit?share=${token}`;
+}
@@ -0,0 +1,76 @@
+import type { Slide, SlideObjectUnion, SlideTransition, TextObject } from './slide';
+import type { PresentationAudience, PresentationTone } from './outline';
+
+/**
+ * Slide AI Actions
+ * Commands the editor can run on one text object (rewritten in place) or on
+ * a whole slide (replaced by one or more slides laid out by the slide
+ * converter). Results are proposals the editor previews before applying.
+ */
+
+export const OBJECT_ACTIONS = ['rewrite', 'tone', 'shorten', 'expand', 'translate'] as const;
+export const SLIDE_ACTIONS = ['split', 'toQuote', 'toTwoColumn', 'toThreeImages'] as const;
+
+export type ObjectAction = typeof OBJECT_ACTIONS[number];
+export type SlideAction = typeof SLIDE_ACTIONS[number];
+
+export const SLIDE_ACTION_LABELS: Record<ObjectAction | SlideAction, string> = {
+  rewrite: 'Rewrite for audience',
+  tone: 'Change tone',
+  shorten: 'Shorten to fit',
+  expand: 'Expand into a paragraph',
+  translate: 'Translate',
+  split: 'Split into two slides',
+  toQuote: 'Convert to quote',
+  toTwoColumn: 'Convert to two columns',
+  toThreeImages: 'Convert to three images',
+};
+
+// Anything slide-shaped: stored slides and the editor's simplified slides
+export interface ActionSlide {
+  id: string;
+  type: string;
+  objects?: SlideObjectUnion[];
+  templateId?: string;
+  notes?: string;
+  transition?: SlideTransition;
+}
+
+export interface SlideActionOptions {
+  audience?: PresentationAudience;  // rewrite
+  tone?: PresentationTone;          // tone
+  language?: string;                // translate
+}
+
+export type SlideActionResult =
+  | {
+      kind: 'object';
+      objectId: string;
+      before: string;
+      after: string;
+      fits: boolean;  // The new text fits the object's box at its font size
+    }
+  | {
+      kind: 'slides';
+      slides: Slide[];  // Replace the source slide; the first keeps its id
+    };
+
+export function isObjectAction(action: string): action is ObjectAction {
+  return (OBJECT_ACTIONS as readonly string[]).includes(action);
+}
+
+export function isSlideAction(action: string): action is SlideAction {
+  return (SLIDE_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * A slide's text in reading order, one object per line, for diffing
+ */
+export function getSlideText(slide: ActionSlide): string {
+  return (slide.objects || [])
+    .filter((object): object is TextObject => object.type === 'text')
+    .sort((a, b) => a.coordinates.y - b.coordinates.y || a.coordinates.x - b.coordinates.x)
+    .map(object => object.content.trim())
+    .filter(Boolean)
+    .join('\n');
+}
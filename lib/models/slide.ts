@@ -2,6 +2,8 @@ import { Coordinates, Transform } from './coordinates';
 import { ContentRole, SlideObjectType } from './template';
 import { TypographicRole } from './typography';
 import { ColorRole } from './colors';
+import { ChartType, ChartData, ChartOptions } from './chart';
+import { TableCellMerge, TableColumnAlignment } from './table';
 
 /**
  * Slide Content Models - New Architecture
@@ -48,6 +50,8 @@ export interface ImageObject extends SlideObject {
     saturation?: number;
     blur?: number;
   };
+  crop?: ImageCrop;          // Part of the image shown (default: all of it)
+  focalPoint?: FocalPoint;   // Kept in view when `cover` trims the image (default: center)
   // Multiple image variants support
   variants?: string[];      // Array of alternative image URLs
   heroIndex?: number;       // Which variant is the primary (default 0)
@@ -58,6 +62,30 @@ export interface ImageObject extends SlideObject {
   generationStyle?: string;   // Style used (e.g., 'photorealistic', 'watercolor')
   generationDescription?: string; // Original description before style was added
   generatedAt?: Date;        // When the image was generated
+  generationHistory?: ImageGenerationVersion[]; // Earlier prompts, oldest first
+}
+
+// A rectangle of the source image, as fractions (0-1) of its width and height
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A point of the source image, as fractions (0-1) of its width and height
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// One prompt and style an image was generated with, and the variants it gave
+export interface ImageGenerationVersion {
+  prompt: string;            // Full prompt sent to the image model
+  description?: string;      // The prompt before the style was added
+  style?: string;
+  variants: string[];
+  createdAt: Date;
 }
 
 // Video object
@@ -96,14 +124,16 @@ export interface TableObject extends SlideObject {
     borderColor?: ColorRole | string;
     borderWidth?: number;
   };
+  merges?: TableCellMerge[];                   // Merged body cells
+  columnAlignments?: TableColumnAlignment[];   // Horizontal alignment per column
 }
 
 // Chart object
 export interface ChartObject extends SlideObject {
   type: 'chart';
-  chartType: 'bar' | 'line' | 'pie' | 'scatter' | 'area';
-  data: any;  // Chart.js or similar data format
-  options?: any;  // Chart configuration options
+  chartType: ChartType;
+  data: ChartData;          // Series and categories (see normalizeChartData for legacy shapes)
+  options?: ChartOptions;   // Axes, legend and labels
 }
 
 // Union type for all slide objects
@@ -136,6 +166,30 @@ export enum SlideType {
   CUSTOM = 'custom'
 }
 
+// Transition played when a slide appears
+export interface SlideTransition {
+  type: 'none' | 'fade' | 'slide' | 'zoom' | 'flip';
+  duration?: number;           // milliseconds
+  direction?: 'left' | 'right' | 'up' | 'down';
+}
+
+// Entrance animation for one object
+export interface SlideAnimation {
+  objectId: string;
+  trigger: 'onEnter' | 'onClick' | 'withPrevious' | 'afterPrevious';
+  type: 'fadeIn' | 'slideIn' | 'zoomIn' | 'rotate' | 'bounce';
+  duration?: number;           // milliseconds
+  delay?: number;              // milliseconds
+}
+
+// Source passage a grounded slide draws on
+export interface SlideCitation {
+  sourceId: string;            // Attached document, e.g. "S1"
+  sourceName: string;          // Its file name
+  passageId: string;           // Chunk of the document, e.g. "S1-P3"
+  excerpt: string;             // Opening words of the passage
+}
+
 // Complete slide definition
 export interface Slide {
   id: string;
@@ -157,24 +211,15 @@ export interface Slide {
   };
   
   // Transitions
-  transition?: {
-    type: 'none' | 'fade' | 'slide' | 'zoom' | 'flip';
-    duration?: number;           // milliseconds
-    direction?: 'left' | 'right' | 'up' | 'down';
-  };
+  transition?: SlideTransition;
   
-  // Animations for objects
-  animations?: Array<{
-    objectId: string;
-    trigger: 'onEnter' | 'onClick' | 'withPrevious' | 'afterPrevious';
-    type: 'fadeIn' | 'slideIn' | 'zoomIn' | 'rotate' | 'bounce';
-    duration?: number;
-    delay?: number;
-  }>;
+  // Animations for objects, in build order (see lib/models/animation)
+  animations?: SlideAnimation[];
   
   // Metadata
   notes?: string;                 // Speaker notes
-  duration?: number;              // Auto-advance timing
+  citations?: SlideCitation[];    // Sources of a grounded slide (also listed in notes)
+  duration?: number;              // Planned time on the slide (seconds); presenter pacing
   createdAt: Date;
   updatedAt: Date;
   
@@ -0,0 +1,539 @@
+import { Slide, TableObject, TextObject } from './slide';
+import { Coordinates } from './coordinates';
+import { ColorRole } from './colors';
+
+/**
+ * Table Models
+ * Cell addressing, merged cells, structural edits and pagination for TableObject.
+ * All edit helpers are pure: they return a new table and never mutate the input.
+ *
+ * Rows are addressed in body coordinates: row 0 is the first data row,
+ * row -1 is the header row (when headers are present).
+ */
+
+export type TableColumnAlignment = 'left' | 'center' | 'right';
+
+// A merged block anchored at its top-left body cell
+export interface TableCellMerge {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface TableCellAddress {
+  row: number;
+  col: number;
+}
+
+// Rectangular cell selection (start and end are inclusive, any order)
+export interface TableCellRange {
+  start: TableCellAddress;
+  end: TableCellAddress;
+}
+
+// Layout metrics shared by the renderer, pagination and export (canvas pixels)
+export const TABLE_METRICS = {
+  fontSize: 24,
+  lineHeight: 1.4,
+  cellPaddingX: 16,
+  cellPaddingY: 12,
+  charWidthRatio: 0.52,   // Average glyph width as a fraction of font size
+};
+
+// Color roles used when a table has no explicit styles
+export const DEFAULT_TABLE_STYLES: {
+  headerBackground: ColorRole;
+  headerText: ColorRole;
+  cellBackground: ColorRole;
+  cellText: ColorRole;
+  borderColor: ColorRole;
+  borderWidth: number;
+} = {
+  headerBackground: 'primary',
+  headerText: 'textInverse',
+  cellBackground: 'surface',
+  cellText: 'text',
+  borderColor: 'border',
+  borderWidth: 1,
+};
+
+/**
+ * Create an empty table with a header row
+ */
+export function createTableObject(
+  id: string,
+  coordinates: Coordinates,
+  rows = 3,
+  columns = 3
+): TableObject {
+  return {
+    id,
+    type: 'table',
+    coordinates,
+    headers: Array.from({ length: columns }, (_, i) => `Column ${i + 1}`),
+    data: Array.from({ length: rows }, () => Array(columns).fill('')),
+    visible: true,
+  };
+}
+
+export function getColumnCount(table: TableObject): number {
+  return Math.max(
+    table.headers?.length || 0,
+    ...table.data.map(row => row.length),
+    0
+  );
+}
+
+export function getRowCount(table: TableObject): number {
+  return table.data.length;
+}
+
+// Normalize a range so start is top-left and end is bottom-right
+export function normalizeRange(range: TableCellRange): TableCellRange {
+  return {
+    start: {
+      row: Math.min(range.start.row, range.end.row),
+      col: Math.min(range.start.col, range.end.col),
+    },
+    end: {
+      row: Math.max(range.start.row, range.end.row),
+      col: Math.max(range.start.col, range.end.col),
+    },
+  };
+}
+
+// Merge anchored at or covering a body cell
+export function getMergeAt(table: TableObject, row: number, col: number): TableCellMerge | undefined {
+  return table.merges?.find(merge =>
+    row >= merge.row &&
+    row < merge.row + merge.rowSpan &&
+    col >= merge.col &&
+    col < merge.col + merge.colSpan
+  );
+}
+
+// True when a cell is hidden underneath another cell's merge
+export function isCellCovered(table: TableObject, row: number, col: number): boolean {
+  const merge = getMergeAt(table, row, col);
+  return !!merge && (merge.row !== row || merge.col !== col);
+}
+
+// Pad every row (and the header) to the same number of columns
+function withRectangularData(table: TableObject, columnCount = getColumnCount(table)): TableObject {
+  return {
+    ...table,
+    headers: table.headers
+      ? [...table.headers, ...Array(Math.max(0, columnCount - table.headers.length)).fill('')]
+      : table.headers,
+    data: table.data.map(row => [
+      ...row,
+      ...Array(Math.max(0, columnCount - row.length)).fill(''),
+    ]),
+  };
+}
+
+/**
+ * Set the value of a single cell (row -1 addresses the header)
+ */
+export function setCellValue(
+  table: TableObject,
+  row: number,
+  col: number,
+  value: string | number
+): TableObject {
+  const next = withRectangularData(table, Math.max(getColumnCount(table), col + 1));
+
+  if (row < 0) {
+    const headers = [...(next.headers || Array(getColumnCount(next)).fill(''))];
+    headers[col] = String(value);
+    return { ...next, headers };
+  }
+
+  const data = next.data.map(r => [...r]);
+  while (data.length <= row) {
+    data.push(Array(getColumnCount(next)).fill(''));
+  }
+  data[row][col] = value;
+  return { ...next, data };
+}
+
+/**
+ * Insert an empty row before the given body index
+ */
+export function insertRow(table: TableObject, index: number): TableObject {
+  const next = withRectangularData(table);
+  const at = Math.max(0, Math.min(index, next.data.length));
+  const data = [
+    ...next.data.slice(0, at),
+    Array(getColumnCount(next)).fill(''),
+    ...next.data.slice(at),
+  ];
+
+  // Shift merges below, grow merges spanning the insertion point
+  const merges = next.merges?.map(merge => {
+    if (merge.row >= at) {
+      return { ...merge, row: merge.row + 1 };
+    }
+    if (merge.row + merge.rowSpan > at) {
+      return { ...merge, rowSpan: merge.rowSpan + 1 };
+    }
+    return merge;
+  });
+
+  return { ...next, data, merges };
+}
+
+/**
+ * Remove a body row (tables always keep at least one row)
+ */
+export function removeRow(table: TableObject, index: number): TableObject {
+  if (table.data.length <= 1 || index < 0 || index >= table.data.length) {
+    return table;
+  }
+
+  const merges = (table.merges || [])
+    .map(merge => {
+      if (merge.row > index) {
+        return { ...merge, row: merge.row - 1 };
+      }
+      if (merge.row + merge.rowSpan > index) {
+        return { ...merge, rowSpan: merge.rowSpan - 1 };
+      }
+      return merge;
+    })
+    .filter(isMeaningfulMerge);
+
+  return {
+    ...table,
+    data: table.data.filter((_, i) => i !== index),
+    merges,
+  };
+}
+
+/**
+ * Insert an empty column before the given index
+ */
+export function insertColumn(table: TableObject, index: number): TableObject {
+  const next = withRectangularData(table);
+  const at = Math.max(0, Math.min(index, getColumnCount(next)));
+  const insertAt = <T>(row: T[], value: T): T[] => [...row.slice(0, at), value, ...row.slice(at)];
+
+  const merges = next.merges?.map(merge => {
+    if (merge.col >= at) {
+      return { ...merge, col: merge.col + 1 };
+    }
+    if (merge.col + merge.colSpan > at) {
+      return { ...merge, colSpan: merge.colSpan + 1 };
+    }
+    return merge;
+  });
+
+  const columnAlignments = next.columnAlignments
+    ? insertAt<TableColumnAlignment>(next.columnAlignments, 'left')
+    : undefined;
+
+  return {
+    ...next,
+    headers: next.headers ? insertAt(next.headers, '') : undefined,
+    data: next.data.map(row => insertAt<string | number>(row, '')),
+    merges,
+    columnAlignments,
+  };
+}
+
+/**
+ * Remove a column (tables always keep at least one column)
+ */
+export function removeColumn(table: TableObject, index: number): TableObject {
+  const columnCount = getColumnCount(table);
+  if (columnCount <= 1 || index < 0 || index >= columnCount) {
+    return table;
+  }
+
+  const merges = (table.merges || [])
+    .map(merge => {
+      if (merge.col > index) {
+        return { ...merge, col: merge.col - 1 };
+      }
+      if (merge.col + merge.colSpan > index) {
+        return { ...merge, colSpan: merge.colSpan - 1 };
+      }
+      return merge;
+    })
+    .filter(isMeaningfulMerge);
+
+  return {
+    ...table,
+    headers: table.headers?.filter((_, i) => i !== index),
+    data: table.data.map(row => row.filter((_, i) => i !== index)),
+    merges,
+    columnAlignments: table.columnAlignments?.filter((_, i) => i !== index),
+  };
+}
+
+function isMeaningfulMerge(merge: TableCellMerge): boolean {
+  return merge.rowSpan > 0 && merge.colSpan > 0 && (merge.rowSpan > 1 || merge.colSpan > 1);
+}
+
+/**
+ * Merge a rectangular range of body cells.
+ * Overlapping merges are absorbed; covered cell text is joined into the anchor.
+ */
+export function mergeCells(table: TableObject, range: TableCellRange): TableObject {
+  let { start, end } = normalizeRange(range);
+  start = { row: Math.max(0, start.row), col: Math.max(0, start.col) };
+  end = {
+    row: Math.min(table.data.length - 1, end.row),
+    col: Math.min(getColumnCount(table) - 1, end.col),
+  };
+
+  if (end.row < start.row || end.col < start.col || (start.row === end.row && start.col === end.col)) {
+    return table;
+  }
+
+  // Expand to fully include any merge that intersects the range
+  let expanded = true;
+  while (expanded) {
+    expanded = false;
+    for (const merge of table.merges || []) {
+      const intersects =
+        merge.row <= end.row &&
+        merge.row + merge.rowSpan - 1 >= start.row &&
+        merge.col <= end.col &&
+        merge.col + merge.colSpan - 1 >= start.col;
+      if (!intersects) {
+        continue;
+      }
+      const next = {
+        start: { row: Math.min(start.row, merge.row), col: Math.min(start.col, merge.col) },
+        end: {
+          row: Math.max(end.row, merge.row + merge.rowSpan - 1),
+          col: Math.max(end.col, merge.col + merge.colSpan - 1),
+        },
+      };
+      if (
+        next.start.row !== start.row || next.start.col !== start.col ||
+        next.end.row !== end.row || next.end.col !== end.col
+      ) {
+        start = next.start;
+        end = next.end;
+        expanded = true;
+      }
+    }
+  }
+
+  const next = withRectangularData(table);
+  const data = next.data.map(row => [...row]);
+
+  // Collect text from covered cells into the anchor cell
+  const texts: string[] = [];
+  for (let r = start.row; r <= end.row; r++) {
+    for (let c = start.col; c <= end.col; c++) {
+      const value = String(data[r][c] ?? '').trim();
+      if (value) {
+        texts.push(value);
+      }
+      if (r !== start.row || c !== start.col) {
+        data[r][c] = '';
+      }
+    }
+  }
+  data[start.row][start.col] = texts.join(' ');
+
+  const merges = (next.merges || []).filter(merge =>
+    merge.row > end.row ||
+    merge.row + merge.rowSpan - 1 < start.row ||
+    merge.col > end.col ||
+    merge.col + merge.colSpan - 1 < start.col
+  );
+  merges.push({
+    row: start.row,
+    col: start.col,
+    rowSpan: end.row - start.row + 1,
+    colSpan: end.col - start.col + 1,
+  });
+
+  return { ...next, data, merges };
+}
+
+/**
+ * Split the merge covering a body cell back into single cells
+ */
+export function unmergeCells(table: TableObject, row: number, col: number): TableObject {
+  const merge = getMergeAt(table, row, col);
+  if (!merge) {
+    return table;
+  }
+  return {
+    ...table,
+    merges: (table.merges || []).filter(m => m !== merge),
+  };
+}
+
+/**
+ * Set the horizontal alignment of a column
+ */
+export function setColumnAlignment(
+  table: TableObject,
+  col: number,
+  alignment: TableColumnAlignment
+): TableObject {
+  const columnAlignments: TableColumnAlignment[] = Array.from(
+    { length: getColumnCount(table) },
+    (_, i) => table.columnAlignments?.[i] || 'left'
+  );
+  columnAlignments[col] = alignment;
+  return { ...table, columnAlignments };
+}
+
+export function getColumnAlignment(table: TableObject, col: number): TableColumnAlignment {
+  return table.columnAlignments?.[col] || 'left';
+}
+
+/**
+ * Estimate the rendered height of a row in canvas pixels.
+ * Cells are measured against equal column widths.
+ */
+export function estimateRowHeight(
+  cells: Array<string | number>,
+  tableWidth: number,
+  columnCount: number,
+  metrics = TABLE_METRICS
+): number {
+  const columnWidth = tableWidth / Math.max(1, columnCount);
+  const usableWidth = Math.max(1, columnWidth - metrics.cellPaddingX * 2);
+  const charsPerLine = Math.max(1, Math.floor(usableWidth / (metrics.fontSize * metrics.charWidthRatio)));
+
+  const lines = Math.max(
+    1,
+    ...cells.map(cell =>
+      String(cell ?? '')
+        .split('\n')
+        .reduce((sum, paragraph) => sum + Math.max(1, Math.ceil(paragraph.length / charsPerLine)), 0)
+    )
+  );
+
+  return Math.ceil(lines * metrics.fontSize * metrics.lineHeight + metrics.cellPaddingY * 2);
+}
+
+/**
+ * Split a table into pages that each fit within the table's own height.
+ * The header repeats on every page and merged row blocks are never split.
+ */
+export function paginateTable(table: TableObject, maxHeight = table.coordinates.height): TableObject[] {
+  const columnCount = getColumnCount(table);
+  const width = table.coordinates.width;
+  const headerHeight = table.headers && table.headers.length > 0
+    ? estimateRowHeight(table.headers, width, columnCount)
+    : 0;
+  const available = Math.max(1, maxHeight - headerHeight);
+
+  // Group rows linked by vertical merges so they stay together
+  const blocks: number[][] = [];
+  let row = 0;
+  while (row < table.data.length) {
+    let blockEnd = row;
+    for (let r = row; r <= blockEnd; r++) {
+      for (const merge of table.merges || []) {
+        if (merge.row === r) {
+          blockEnd = Math.max(blockEnd, merge.row + merge.rowSpan - 1);
+        }
+      }
+    }
+    blockEnd = Math.min(blockEnd, table.data.length - 1);
+    blocks.push(Array.from({ length: blockEnd - row + 1 }, (_, i) => row + i));
+    row = blockEnd + 1;
+  }
+
+  const pages: number[][] = [];
+  let current: number[] = [];
+  let height = 0;
+  for (const block of blocks) {
+    const blockHeight = block.reduce(
+      (sum, r) => sum + estimateRowHeight(table.data[r], width, columnCount),
+      0
+    );
+    if (current.length > 0 && height + blockHeight > available) {
+      pages.push(current);
+      current = [];
+      height = 0;
+    }
+    current.push(...block);
+    height += blockHeight;
+  }
+  if (current.length > 0) {
+    pages.push(current);
+  }
+
+  if (pages.length <= 1) {
+    return [table];
+  }
+
+  return pages.map((rows, pageIndex) => {
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    return {
+      ...table,
+      id: pageIndex === 0 ? table.id : `${table.id}-page-${pageIndex + 1}`,
+      data: rows.map(r => table.data[r]),
+      merges: table.merges
+        ?.filter(merge => merge.row >= first && merge.row <= last)
+        .map(merge => ({ ...merge, row: merge.row - first })),
+    };
+  });
+}
+
+/**
+ * Expand a slide into continuation slides when any of its tables overflow.
+ * Continuation slides keep the title/header text (marked "(cont.)") and
+ * carry the next page of each overflowing table.
+ */
+export function paginateSlideTables(slide: Slide): Slide[] {
+  const paged = new Map<string, TableObject[]>();
+  slide.objects.forEach(obj => {
+    if (obj.type === 'table') {
+      const pages = paginateTable(obj);
+      if (pages.length > 1) {
+        paged.set(obj.id, pages);
+      }
+    }
+  });
+
+  if (paged.size === 0) {
+    return [slide];
+  }
+
+  const pageCount = Math.max(...Array.from(paged.values()).map(pages => pages.length));
+  const headings = slide.objects.filter(
+    (obj): obj is TextObject => obj.type === 'text' && (obj.role === 'title' || obj.role === 'header')
+  );
+
+  return Array.from({ length: pageCount }, (_, pageIndex) => {
+    if (pageIndex === 0) {
+      return {
+        ...slide,
+        objects: slide.objects.map(obj => paged.get(obj.id)?.[0] || obj),
+      };
+    }
+
+    const tables = Array.from(paged.values())
+      .map(pages => pages[pageIndex])
+      .filter((page): page is TableObject => !!page);
+
+    return {
+      ...slide,
+      id: `${slide.id}-cont-${pageIndex}`,
+      objects: [
+        ...headings.map(heading => ({
+          ...heading,
+          id: `${heading.id}-cont-${pageIndex}`,
+          content: `${heading.content} (cont.)`,
+        })),
+        ...tables,
+      ],
+      notes: undefined,
+      animations: undefined,
+    };
+  });
+}
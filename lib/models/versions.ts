@@ -0,0 +1,195 @@
+import { SlideLike, SlideOperation, diffSlides } from '@/lib/collab/operations';
+import type { Slide } from './slide';
+
+/**
+ * Version History
+ * A version is a copy of a presentation's slides at one moment, kept in
+ * presentations/{id}/versions. There are two kinds:
+ *
+ *   automatic  taken before a slides write when the last one is older
+ *              than AUTO_VERSION_INTERVAL_MS, and before a restore; only
+ *              the newest MAX_AUTO_VERSIONS are kept
+ *   named      saved by an editor ("Before the board review"); kept until
+ *              someone deletes it
+ *
+ * Restoring goes through the editor like any other change: the whole deck
+ * or single slides are put back, and the save turns that into operations
+ * (lib/collab/operations).
+ */
+
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+export const MAX_AUTO_VERSIONS = 30;
+
+export interface PresentationVersion {
+  id: string;
+  name?: string;  // Named versions, and automatic ones taken for a reason
+  auto: boolean;
+  title: string;
+  templateId?: string;
+  slides: Slide[];
+  slideCount: number;
+  revision: number;  // The presentation revision it copies
+  createdBy: string;  // uid
+  createdByName?: string;
+  createdAt: number;  // ms since epoch
+}
+
+export type NewVersion = Omit<PresentationVersion, 'id' | 'createdAt'>;
+
+// What a version copies from the presentation
+export interface VersionSource {
+  slides?: Slide[];
+  revision?: number;
+  metadata?: { title?: string };
+  settings?: { theme?: string };
+}
+
+export type SlideChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SlideDiff<T extends SlideLike = Slide> {
+  slideId: string;
+  change: SlideChange;
+  moved: boolean;
+  before?: T;
+  after?: T;
+  objectChanges: number;  // Objects added, removed, moved or edited
+}
+
+/**
+ * Whether a slides write should copy the deck first
+ */
+export function isAutoVersionDue(lastAutoVersionAt: number | undefined, now: number): boolean {
+  return !lastAutoVersionAt || now - lastAutoVersionAt >= AUTO_VERSION_INTERVAL_MS;
+}
+
+export function createVersion(
+  presentation: VersionSource,
+  { name, auto, createdBy, createdByName }: Pick<NewVersion, 'name' | 'auto' | 'createdBy' | 'createdByName'>
+): NewVersion {
+  const slides = presentation.slides || [];
+  return {
+    name: name?.trim() || undefined,
+    auto,
+    title: presentation.metadata?.title || 'Untitled Presentation',
+    templateId: presentation.settings?.theme,
+    slides,
+    slideCount: slides.length,
+    revision: presentation.revision || 0,
+    createdBy,
+    createdByName,
+  };
+}
+
+/**
+ * Automatic versions past the newest MAX_AUTO_VERSIONS; named ones stay
+ */
+export function autoVersionsToPrune(versions: Pick<PresentationVersion, 'id' | 'auto' | 'createdAt'>[]): string[] {
+  return versions
+    .filter(version => version.auto)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(MAX_AUTO_VERSIONS)
+    .map(version => version.id);
+}
+
+function operationSlideId(operation: SlideOperation): string {
+  return operation.type === 'insertSlide' ? operation.slide.id : operation.slideId;
+}
+
+/**
+ * Slide by slide, what changed from one version to another: the slides
+ * of `after` in order, with removed slides where they used to be
+ */
+export function diffVersions<T extends SlideLike>(before: T[], after: T[]): SlideDiff<T>[] {
+  const operations = diffSlides(before, after);
+  const beforeById = new Map(before.map(slide => [slide.id, slide]));
+  const afterIds = new Set(after.map(slide => slide.id));
+
+  const moved = new Set<string>();
+  const changed = new Set<string>();
+  const objectChanges = new Map<string, Set<string>>();
+  operations.forEach(operation => {
+    const slideId = operationSlideId(operation);
+    switch (operation.type) {
+      case 'moveSlide':
+        moved.add(slideId);
+        break;
+      case 'updateSlide':
+        // Edits stamp updatedAt; that alone isn't a change worth showing
+        if ([...Object.keys(operation.changes), ...(operation.unset || [])].some(key => key !== 'updatedAt')) {
+          changed.add(slideId);
+        }
+        break;
+      case 'insertObject':
+      case 'moveObject':
+      case 'removeObject':
+      case 'updateObject': {
+        const objectId = operation.type === 'insertObject' ? operation.object.id : operation.objectId;
+        objectChanges.set(slideId, (objectChanges.get(slideId) || new Set<string>()).add(objectId));
+        changed.add(slideId);
+        break;
+      }
+    }
+  });
+
+  const diffs: SlideDiff<T>[] = after.map(slide => {
+    const previous = beforeById.get(slide.id);
+    return {
+      slideId: slide.id,
+      change: !previous ? 'added' : changed.has(slide.id) ? 'changed' : 'unchanged',
+      moved: moved.has(slide.id),
+      before: previous,
+      after: slide,
+      objectChanges: objectChanges.get(slide.id)?.size || 0,
+    };
+  });
+
+  // Removed slides go after the slide they followed
+  let previousId: string | null = null;
+  before.forEach(slide => {
+    if (!afterIds.has(slide.id)) {
+      const index = previousId === null ? -1 : diffs.findIndex(diff => diff.slideId === previousId);
+      diffs.splice(index + 1, 0, { slideId: slide.id, change: 'removed', moved: false, before: slide, objectChanges: 0 });
+    }
+    previousId = slide.id;
+  });
+
+  return diffs;
+}
+
+function withOrder<T extends SlideLike>(slides: T[]): T[] {
+  return slides.map((slide, order) => (slide.order === order ? slide : { ...slide, order }));
+}
+
+/**
+ * The deck as a version has it
+ */
+export function restoreDeck<T extends SlideLike>(version: T[]): T[] {
+  return withOrder(version);
+}
+
+/**
+ * Put one slide back the way a version has it: replaced where it is now,
+ * back after the slide it followed if it was removed since, or removed if
+ * it was added since
+ */
+export function restoreSlide<T extends SlideLike>(current: T[], version: T[], slideId: string): T[] {
+  const index = version.findIndex(slide => slide.id === slideId);
+  if (index === -1) {
+    return withOrder(current.filter(slide => slide.id !== slideId));
+  }
+  const restored = version[index];
+  if (current.some(slide => slide.id === slideId)) {
+    return withOrder(current.map(slide => (slide.id === slideId ? restored : slide)));
+  }
+
+  // The nearest slide before it in the version that's still there
+  let position = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    const anchor = current.findIndex(slide => slide.id === version[i].id);
+    if (anchor !== -1) {
+      position = anchor + 1;
+      break;
+    }
+  }
+  return withOrder([...current.slice(0, position), restored, ...current.slice(position)]);
+}
@@ -0,0 +1,56 @@
+import {
+  JOIN_CODE_ALPHABET,
+  formatJoinCode,
+  generateJoinCode,
+  generateRemoteKey,
+  getLiveUrls,
+  isRemoteCommand,
+  normalizeJoinCode,
+} from '../live'
+
+describe('Live Sessions', () => {
+  it('should generate codes from the unambiguous alphabet', () => {
+    const code = generateJoinCode()
+
+    expect(code).toHaveLength(6)
+    expect(code.split('').every(char => JOIN_CODE_ALPHABET.includes(char))).toBe(true)
+    expect(generateJoinCode(() => 0)).toBe('AAAAAA')
+    expect(JOIN_CODE_ALPHABET).not.toMatch(/[01IO]/)
+  })
+
+  it('should draw remote keys from the cryptographic source', () => {
+    const getRandomValues = jest.spyOn(crypto, 'getRandomValues')
+    const mathRandom = jest.spyOn(Math, 'random')
+
+    expect(generateRemoteKey()).toMatch(/^[a-z0-9]{20}$/)
+    expect(getRandomValues).toHaveBeenCalled()
+    expect(mathRandom).not.toHaveBeenCalled()
+    expect(generateRemoteKey(() => 0)).toBe('a'.repeat(20))
+
+    getRandomValues.mockRestore()
+    mathRandom.mockRestore()
+  })
+
+  it('should normalize typed codes and reject impossible ones', () => {
+    expect(normalizeJoinCode(' abc-def ')).toBe('ABCDEF')
+    expect(normalizeJoinCode('ABCDE')).toBeNull()
+    expect(normalizeJoinCode('ABCDE0')).toBeNull()
+    expect(formatJoinCode('ABCDEF')).toBe('ABC-DEF')
+  })
+
+  it('should build follow and remote links', () => {
+    expect(getLiveUrls('https://app.test', 'ABCDEF', 'k 1')).toEqual({
+      follow: 'https://app.test/live/ABCDEF',
+      remote: 'https://app.test/live/ABCDEF?remote=k%201',
+    })
+    expect(getLiveUrls('https://app.test', 'ABCDEF').remote).toBeUndefined()
+  })
+
+  it('should only accept navigation commands from remotes', () => {
+    expect(isRemoteCommand({ type: 'next' })).toBe(true)
+    expect(isRemoteCommand({ type: 'goto', slideIndex: 2 })).toBe(true)
+    expect(isRemoteCommand({ type: 'goto' })).toBe(false)
+    expect(isRemoteCommand({ type: 'resetTimer' })).toBe(false)
+    expect(isRemoteCommand(null)).toBe(false)
+  })
+})
@@ -0,0 +1,62 @@
+import {
+  applyPresenterCommand,
+  createPresenterState,
+  formatDuration,
+  getElapsed,
+  getPacing,
+  getSlideElapsed,
+} from '../session'
+import { SlideAnimation } from '../../models/slide'
+
+const click = (objectId: string): SlideAnimation => ({ objectId, trigger: 'onClick', type: 'fadeIn' })
+
+const slides = [
+  { objects: [{ id: 'a' }], animations: [], duration: 60 },
+  { objects: [{ id: 'b' }, { id: 'c' }], animations: [click('b'), click('c')], duration: 120 },
+  { objects: [{ id: 'd' }], animations: [], duration: 30 },
+]
+
+describe('Presenter Session', () => {
+  it('should step through builds before changing slides', () => {
+    let state = createPresenterState(0)
+    const steps: [number, number][] = []
+    for (let i = 0; i < 5; i++) {
+      state = applyPresenterCommand(state, { type: 'next' }, slides, 0)
+      steps.push([state.slideIndex, state.build])
+    }
+
+    expect(steps).toEqual([[1, 0], [1, 1], [1, 2], [2, 0], [2, 0]])
+
+    state = applyPresenterCommand(state, { type: 'previous' }, slides, 0)
+    expect([state.slideIndex, state.build]).toEqual([1, 2])
+    expect(applyPresenterCommand(state, { type: 'goto', slideIndex: 9 }, slides, 0)).toBe(state)
+  })
+
+  it('should time the talk and the slide without pauses', () => {
+    let state = createPresenterState(1000)
+    state = applyPresenterCommand(state, { type: 'pause' }, slides, 11000)
+    state = applyPresenterCommand(state, { type: 'resume' }, slides, 41000)
+    state = applyPresenterCommand(state, { type: 'next' }, slides, 51000)
+
+    expect(getElapsed(state, 56000)).toBe(25000)
+    expect(getSlideElapsed(state, 56000)).toBe(5000)
+
+    state = applyPresenterCommand(state, { type: 'resetTimer' }, slides, 60000)
+    expect(getElapsed(state, 61000)).toBe(1000)
+  })
+
+  it('should compare the talk against planned slide durations', () => {
+    let state = createPresenterState(0)
+    state = applyPresenterCommand(state, { type: 'next' }, slides, 90000)
+
+    expect(getPacing(slides, state, 100000)).toEqual({ slidePlanned: 120000, totalPlanned: 210000, behind: 30000 })
+    expect(getPacing(slides, state, 250000)?.behind).toBe(70000)
+    expect(getPacing([{}, {}], state, 0)).toBeNull()
+  })
+
+  it('should format durations', () => {
+    expect(formatDuration(65000)).toBe('1:05')
+    expect(formatDuration(-5000)).toBe('-0:05')
+    expect(formatDuration(3725000)).toBe('1:02:05')
+  })
+})
@@ -0,0 +1,83 @@
+import { PresenterCommand } from './session';
+import { secureRandom } from '@/lib/models/sharing';
+
+/**
+ * Live Sessions
+ * A presenting session published under a short join code. Followers open
+ * /live/CODE and see the current slide; phones opened with the remote key
+ * (/live/CODE?remote=KEY) also act as a clicker. The audience window owns
+ * the position and applies remote commands like its own keys.
+ */
+
+export interface LiveSession {
+  code: string;
+  presentationId: string;
+  ownerId: string;
+  slideIndex: number;
+  build: number;
+  slideCount: number;
+  active: boolean;
+  startedAt?: Date;
+  updatedAt?: Date;
+}
+
+// The only commands a remote may send; timers stay with the presenter
+export type RemoteCommand = Extract<PresenterCommand, { type: 'next' | 'previous' | 'goto' }>;
+
+// No 0/O or 1/I, so codes read out loud or typed on a phone stay unambiguous
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+const REMOTE_KEY_LENGTH = 20;
+
+function randomString(length: number, alphabet: string, random: () => number): string {
+  let value = '';
+  for (let i = 0; i < length; i++) {
+    value += alphabet[Math.floor(random() * alphabet.length)];
+  }
+  return value;
+}
+
+export function generateJoinCode(random: () => number = Math.random): string {
+  return randomString(JOIN_CODE_LENGTH, JOIN_CODE_ALPHABET, random);
+}
+
+// The remote key lets a phone drive the presentation: a secret, unlike
+// the join code
+export function generateRemoteKey(random: () => number = secureRandom): string {
+  return randomString(REMOTE_KEY_LENGTH, 'abcdefghijklmnopqrstuvwxyz0123456789', random);
+}
+
+/**
+ * Clean up a typed code ("abc-def " → "ABCDEF"); null if it can't be one
+ */
+export function normalizeJoinCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== JOIN_CODE_LENGTH) {
+    return null;
+  }
+  return code.split('').every(char => JOIN_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+/**
+ * Display form of a code, e.g. "ABC-DEF"
+ */
+export function formatJoinCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+export function getLiveUrls(origin: string, code: string, remoteKey?: string) {
+  const follow = `${origin}/live/${code}`;
+  return {
+    follow,
+    remote: remoteKey ? `${follow}?remote=${encodeURIComponent(remoteKey)}` : undefined,
+  };
+}
+
+export function isRemoteCommand(command: unknown): command is RemoteCommand {
+  if (!command || typeof command !== 'object') {
+    return false;
+  }
+  const { type, slideIndex } = command as { type?: unknown; slideIndex?: unknown };
+  return type === 'next' || type === 'previous' || (type === 'goto' && typeof slideIndex === 'number');
+}
@@ -0,0 +1,172 @@
+import { Slide } from '@/lib/models/slide';
+import { AnimatedSlide, getBuildCount } from '@/lib/models/animation';
+
+/**
+ * Presenter Session
+ * The state shared by the audience window and the presenter console. The
+ * audience window owns it: it applies commands (its own keys, or ones sent
+ * by the console) and broadcasts the result over a BroadcastChannel, so
+ * both windows show the same slide, build and timer.
+ *
+ * Timers are stored as timestamps rather than counters so every window
+ * computes the same elapsed time, and pauses are excluded.
+ */
+
+export interface PresenterState {
+  slideIndex: number;
+  build: number;                 // Click builds played on the current slide
+  startedAt: number;             // Epoch ms the talk timer started
+  pausedAt: number | null;       // Epoch ms the timer was paused, if paused
+  pausedTotal: number;           // ms spent paused before pausedAt
+  slideStartElapsed: number;     // Talk time (ms) when the current slide appeared
+}
+
+export type PresenterCommand =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'goto'; slideIndex: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'resetTimer' };
+
+export type PresenterMessage =
+  | { type: 'command'; command: PresenterCommand }
+  | { type: 'state'; state: PresenterState }
+  | { type: 'hello' };           // A console asking for the current state
+
+export function getPresenterChannelName(presentationId: string): string {
+  return `phoenix-presenter-${presentationId}`;
+}
+
+export function createPresenterState(now: number): PresenterState {
+  return {
+    slideIndex: 0,
+    build: 0,
+    startedAt: now,
+    pausedAt: null,
+    pausedTotal: 0,
+    slideStartElapsed: 0,
+  };
+}
+
+/**
+ * Talk time in ms, excluding pauses
+ */
+export function getElapsed(state: PresenterState, now: number): number {
+  return Math.max(0, (state.pausedAt ?? now) - state.startedAt - state.pausedTotal);
+}
+
+/**
+ * Time in ms on the current slide, excluding pauses
+ */
+export function getSlideElapsed(state: PresenterState, now: number): number {
+  return Math.max(0, getElapsed(state, now) - state.slideStartElapsed);
+}
+
+function showSlide(state: PresenterState, slideIndex: number, build: number, now: number): PresenterState {
+  return {
+    ...state,
+    slideIndex,
+    build,
+    slideStartElapsed: slideIndex === state.slideIndex ? state.slideStartElapsed : getElapsed(state, now),
+  };
+}
+
+/**
+ * Apply a command to the session. Next and previous step through the
+ * current slide's builds before changing slides.
+ */
+export function applyPresenterCommand(
+  state: PresenterState,
+  command: PresenterCommand,
+  slides: AnimatedSlide[],
+  now: number
+): PresenterState {
+  const current = slides[state.slideIndex];
+
+  switch (command.type) {
+    case 'next':
+      if (current && state.build < getBuildCount(current)) {
+        return { ...state, build: state.build + 1 };
+      }
+      if (state.slideIndex < slides.length - 1) {
+        return showSlide(state, state.slideIndex + 1, 0, now);
+      }
+      return state;
+    case 'previous':
+      if (state.build > 0) {
+        return { ...state, build: state.build - 1 };
+      }
+      if (state.slideIndex > 0) {
+        // Land on the previous slide fully built
+        return showSlide(state, state.slideIndex - 1, getBuildCount(slides[state.slideIndex - 1]), now);
+      }
+      return state;
+    case 'goto':
+      if (command.slideIndex < 0 || command.slideIndex >= slides.length) {
+        return state;
+      }
+      return showSlide(state, command.slideIndex, 0, now);
+    case 'pause':
+      return state.pausedAt === null ? { ...state, pausedAt: now } : state;
+    case 'resume':
+      return state.pausedAt === null
+        ? state
+        : { ...state, pausedAt: null, pausedTotal: state.pausedTotal + now - state.pausedAt };
+    case 'resetTimer':
+      return {
+        ...state,
+        startedAt: now,
+        pausedAt: state.pausedAt === null ? null : now,
+        pausedTotal: 0,
+        slideStartElapsed: 0,
+      };
+    default:
+      return state;
+  }
+}
+
+export interface Pacing {
+  slidePlanned: number | null;   // ms planned for the current slide
+  totalPlanned: number;          // ms planned for the whole talk
+  behind: number;                // ms behind the plan (negative = ahead)
+}
+
+/**
+ * Compare the talk against the planned Slide.duration (seconds) of each
+ * slide. Returns null when no slide has a planned duration.
+ */
+export function getPacing(
+  slides: Pick<Slide, 'duration'>[],
+  state: PresenterState,
+  now: number
+): Pacing | null {
+  if (!slides.some(slide => slide.duration)) {
+    return null;
+  }
+
+  const planned = slides.map(slide => (slide.duration || 0) * 1000);
+  const plannedBefore = planned.slice(0, state.slideIndex).reduce((sum, ms) => sum + ms, 0);
+  const slidePlanned = slides[state.slideIndex]?.duration ? planned[state.slideIndex] : null;
+  const overrun = Math.max(0, getSlideElapsed(state, now) - (slidePlanned ?? 0));
+
+  return {
+    slidePlanned,
+    totalPlanned: planned.reduce((sum, ms) => sum + ms, 0),
+    behind: state.slideStartElapsed - plannedBefore + overrun,
+  };
+}
+
+/**
+ * Format ms as m:ss (or h:mm:ss), with a sign for negative values
+ */
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  const total = Math.floor(Math.abs(ms) / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${sign}${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${sign}${minutes}:${seconds}`;
+}
@@ -0,0 +1,69 @@
+import { createFixtureTextProvider } from '../text-providers/fixture'
+import { applyCitations, chunkText, describeSources, prepareSources, topicFromSourceName } from '../grounding'
+
+describe('Grounding', () => {
+  it('should chunk text on paragraph and sentence boundaries', () => {
+    const text = 'Short intro.\n\nSecond paragraph here.\n\n' + 'A long sentence about tides. '.repeat(10).trim()
+    const passages = chunkText(text, 100)
+
+    expect(passages[0].indexOf('Short intro.\n\nSecond paragraph here.\n\nA long sentence')).toBe(0)
+    expect(passages.length).toBe(4)
+    expect(passages.every(passage => passage.length <= 100)).toBe(true)
+    expect(passages.join('\n\n').split(/\s+/).length).toBe(text.split(/\s+/).length)
+  })
+
+  it('should name a topic after a source file', () => {
+    expect(topicFromSourceName('q3_board-report (final).pdf')).toBe('q3 board-report final')
+  })
+
+  it('should quote short sources verbatim with passage ids', async () => {
+    const provider = createFixtureTextProvider({
+      fallback: () => {
+        throw new Error('Short sources are not summarized')
+      },
+    })
+    const prepared = await prepareSources([
+      { name: 'notes.md', format: 'markdown', data: '# Tides\n\nThe moon pulls the oceans.' },
+      { name: 'empty.txt', format: 'text', data: '   ' },
+    ], provider)
+
+    expect(prepared.summarized).toBe(false)
+    expect(prepared.warnings).toEqual(['"empty.txt" has no text and was skipped'])
+    expect(describeSources(prepared.sources)).toBe('## [S1] notes.md\n[S1-P1] # Tides\n\nThe moon pulls the oceans.')
+  })
+
+  it('should summarize long sources in batches', async () => {
+    const prompts: string[] = []
+    const provider = createFixtureTextProvider({
+      fallback: (request) => {
+        prompts.push(request.prompt)
+        const ids = request.prompt.match(/\[S1-P\d+\]/g) || []
+        return JSON.stringify({ summaries: ids.map(id => ({ id: id.slice(1, -1), summary: `Summary of ${id}` })) })
+      },
+    })
+    const paragraph = 'Tidal power is predictable because the moon is. '.repeat(30)
+    const prepared = await prepareSources([
+      { name: 'report.txt', format: 'text', data: Array(30).fill(paragraph).join('\n\n') },
+    ], provider)
+
+    expect(prepared.summarized).toBe(true)
+    expect(prompts.length).toBeGreaterThan(1)
+    expect(prepared.sources[0].passages[0].summary).toBe('Summary of [S1-P1]')
+    expect(describeSources(prepared.sources)).toContain('[S1-P2] Summary of [S1-P2]')
+  })
+
+  it('should turn passage ids into citations and notes', () => {
+    const sources = [{
+      id: 'S1',
+      name: 'report.pdf',
+      passages: [{ id: 'S1-P1', text: 'Revenue grew 12% in Q3.' }, { id: 'S1-P2', text: 'Margins held.' }],
+    }]
+    const slide = applyCitations({ type: 'bullets', heading: 'Results', notes: 'Lead with growth', sources: ['S1-P1', 'S9-P1', 'S1-P1'] }, sources)
+
+    expect(slide.citations).toEqual([
+      { sourceId: 'S1', sourceName: 'report.pdf', passageId: 'S1-P1', excerpt: 'Revenue grew 12% in Q3.' },
+    ])
+    expect(slide.notes).toBe('Lead with growth\n\nSources:\n- report.pdf (S1-P1): "Revenue grew 12% in Q3."')
+    expect(applyCitations({ type: 'bullets', heading: 'Results' }, sources).citations).toBeUndefined()
+  })
+})
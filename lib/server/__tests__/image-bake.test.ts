@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp'
+import { ImageObject, SlideObjectUnion } from '../../models/slide'
+import { bakeSlideImages, isStorageUrl, loadImageSource, needsBaking } from '../image-bake'
+
+// 200x100: red left half, blue right half
+async function halvesPng(): Promise<Buffer> {
+  const red = await sharp({ create: { width: 100, height: 100, channels: 3, background: '#ff0000' } }).png().toBuffer()
+  return sharp({ create: { width: 200, height: 100, channels: 3, background: '#0000ff' } })
+    .composite([{ input: red, left: 0, top: 0 }])
+    .png()
+    .toBuffer()
+}
+
+function makeImage(overrides: Partial<ImageObject> = {}): ImageObject {
+  return {
+    id: 'img',
+    type: 'image',
+    src: 'https://example.com/halves.png',
+    coordinates: { x: 100, y: 100, width: 400, height: 400 },
+    ...overrides,
+  }
+}
+
+async function pixel(dataUrl: string, x: number, y: number): Promise<number[]> {
+  const bytes = Buffer.from(dataUrl.split(',')[1], 'base64')
+  const { data, info } = await sharp(bytes).raw().toBuffer({ resolveWithObject: true })
+  const offset = (y * info.width + x) * info.channels
+  return [data[offset], data[offset + 1], data[offset + 2]]
+}
+
+describe('Image baking', () => {
+  it('should leave plain and placeholder images alone', () => {
+    expect(needsBaking(makeImage({ fit: 'contain' }))).toBe(false)
+    expect(needsBaking(makeImage({ fit: 'cover', src: '/api/placeholder/800/600' }))).toBe(false)
+    expect(needsBaking(makeImage({ fit: 'cover' }))).toBe(true)
+  })
+
+  it('should cut a cover image around its focal point', async () => {
+    const source = await halvesPng()
+    const [slide] = await bakeSlideImages(
+      [{ objects: [makeImage({ fit: 'cover', focalPoint: { x: 1, y: 0.5 } })] as SlideObjectUnion[] }],
+      async () => source
+    )
+    const baked = slide.objects?.[0] as ImageObject
+
+    expect(baked.fit).toBe('fill')
+    expect(baked.focalPoint).toBeUndefined()
+    expect(baked.coordinates).toEqual({ x: 100, y: 100, width: 400, height: 400 })
+    const [r, , b] = await pixel(baked.src, 10, 10)
+    expect(b).toBeGreaterThan(200)
+    expect(r).toBeLessThan(50)
+  })
+
+  it('should place a cropped, letterboxed image where it shows and apply filters', async () => {
+    const source = await halvesPng()
+    const [slide] = await bakeSlideImages(
+      [{
+        objects: [makeImage({
+          fit: 'contain',
+          crop: { x: 0, y: 0, width: 1, height: 0.5 },
+          filters: { brightness: 50 },
+        })] as SlideObjectUnion[],
+      }],
+      async () => source
+    )
+    const baked = slide.objects?.[0] as ImageObject
+
+    // The top half (200x50) letterboxed into the square box
+    expect(baked.coordinates).toEqual({ x: 100, y: 250, width: 400, height: 100 })
+    const [r] = await pixel(baked.src, 10, 10)
+    expect(r).toBeGreaterThan(110)
+    expect(r).toBeLessThan(145)
+  })
+
+  it('should keep images it cannot load', async () => {
+    const image = makeImage({ fit: 'cover' })
+    const [slide] = await bakeSlideImages([{ objects: [image] as SlideObjectUnion[] }], async () => {
+      throw new Error('offline')
+    })
+    expect(slide.objects?.[0]).toBe(image)
+  })
+
+  it('should bake a few images at a time', async () => {
+    const source = await halvesPng()
+    let loading = 0
+    let most = 0
+    const slides = [{ objects: Array.from({ length: 10 }, (_, i) => makeImage({ id: `img${i}`, fit: 'cover' })) as SlideObjectUnion[] }]
+
+    const [slide] = await bakeSlideImages(slides, async () => {
+      loading++
+      most = Math.max(most, loading)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      loading--
+      return source
+    })
+
+    expect(most).toBeLessThanOrEqual(4)
+    expect(slide.objects?.every(obj => (obj as ImageObject).fit === 'fill')).toBe(true)
+  })
+
+  describe('loading sources', () => {
+    const realFetch = global.fetch
+
+    afterEach(() => {
+      global.fetch = realFetch
+    })
+
+    it('should only fetch images from storage', async () => {
+      expect(isStorageUrl('https://storage.googleapis.com/bucket/a.png')).toBe(true)
+      expect(isStorageUrl('https://firebasestorage.googleapis.com/v0/b/bucket/o/a.png?alt=media')).toBe(true)
+      expect(isStorageUrl('http://storage.googleapis.com/bucket/a.png')).toBe(false)
+      expect(isStorageUrl('https://storage.googleapis.com:8080/bucket/a.png')).toBe(false)
+      expect(isStorageUrl('https://storage.googleapis.com.example.com/a.png')).toBe(false)
+      expect(isStorageUrl('http://169.254.169.254/computeMetadata/v1/')).toBe(false)
+
+      global.fetch = jest.fn()
+      await expect(loadImageSource('http://localhost:3000/api/internal')).rejects.toThrow('Unsupported image source')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should stop reading images that are too large', async () => {
+      const big = 26 * 1024 * 1024
+      global.fetch = jest.fn().mockResolvedValue(new Response('x', { headers: { 'Content-Length': String(big) } }))
+      await expect(loadImageSource('https://storage.googleapis.com/bucket/a.png')).rejects.toThrow('too large')
+
+      // No length given: cut off once the limit is passed
+      const chunk = new Uint8Array(1024 * 1024)
+      let sent = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent++
+          controller.enqueue(chunk)
+        },
+      })
+      global.fetch = jest.fn().mockResolvedValue(new Response(body))
+      await expect(loadImageSource('https://storage.googleapis.com/bucket/a.png')).rejects.toThrow('too large')
+      expect(sent).toBeLessThan(30)
+    })
+  })
+})
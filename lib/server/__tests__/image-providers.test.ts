@@ -0,0 +1,220 @@
+import {
+  ImageProvider,
+  ImageProviderError,
+  getImageDimensions,
+  getImageProvider,
+  registerImageProvider,
+} from '../image-provider'
+import { createLocalImageProvider } from '../image-providers/local'
+import { ImageJobDependencies, getImageAssetKey, getImageAssetParams, runImageJob } from '../image-jobs'
+import type { ImageGenerationJob } from '../../firebase/image-queue'
+import {
+  ImageAsset,
+  ImageAssetStore,
+  claimImageAsset,
+  completeImageAsset,
+  failImageAsset,
+} from '../../models/image-assets'
+
+function pngSize(base64: string) {
+  const png = Buffer.from(base64, 'base64')
+  return {
+    signature: png.subarray(1, 4).toString('ascii'),
+    width: png.readUInt32BE(16),
+    height: png.readUInt32BE(20),
+  }
+}
+
+const job: ImageGenerationJob = {
+  id: 'job-1',
+  presentationId: 'presentation-1',
+  slideId: 'slide-1',
+  objectId: 'object-1',
+  description: 'A lighthouse on a rocky coast at dawn',
+  style: 'watercolor',
+  status: 'processing',
+  priority: 1,
+  createdAt: new Date(),
+  retryCount: 0,
+}
+
+function createDeps(provider: ImageProvider) {
+  const deps: ImageJobDependencies & {
+    uploadImages: jest.Mock
+    updateJobStatus: jest.Mock
+    updateSlideImage: jest.Mock
+  } = {
+    provider,
+    uploadImages: jest.fn(async (images: string[], basePath: string) =>
+      images.map((_, index) => `https://storage.test/${basePath}/variant_${index}.png`)
+    ),
+    getStoragePath: (queued) => `presentations/${queued.presentationId}/slides/${queued.slideId}/${queued.id}`,
+    updateJobStatus: jest.fn(async () => undefined),
+    updateSlideImage: jest.fn(async () => undefined),
+  }
+  return deps
+}
+
+// The Firestore store's transitions, kept in a map
+function createAssetStore(): ImageAssetStore & { assets: Map<string, ImageAsset> } {
+  const assets = new Map<string, ImageAsset>()
+  return {
+    assets,
+    claim: async (key, params, assetJob) => {
+      const { asset, claim } = claimImageAsset(assets.get(key) || null, key, params, assetJob, new Date())
+      assets.set(key, asset)
+      return claim
+    },
+    complete: async (key, imageUrls) => {
+      const { asset, waiting } = completeImageAsset(assets.get(key) as ImageAsset, imageUrls, new Date())
+      assets.set(key, asset)
+      return waiting
+    },
+    fail: async (key, error) => {
+      const { asset, waiting } = failImageAsset(assets.get(key) as ImageAsset, error, new Date())
+      assets.set(key, asset)
+      return waiting
+    },
+  }
+}
+
+describe('Image Providers', () => {
+  const provider = createLocalImageProvider()
+
+  it('should render the same PNG variants for the same request', async () => {
+    const request = { prompt: 'Mountains', negativePrompt: 'people', variants: 3 }
+    const first = await provider.generate(request)
+    const second = await provider.generate(request)
+
+    expect(first).toHaveLength(3)
+    expect(first.map(image => image.base64)).toEqual(second.map(image => image.base64))
+    expect(new Set(first.map(image => image.base64)).size).toBe(3)
+    expect(first[0].mimeType).toBe('image/png')
+    expect(pngSize(first[0].base64)).toEqual({ signature: 'PNG', width: 640, height: 360 })
+  })
+
+  it('should honour seed and aspect ratio', async () => {
+    const [seeded] = await provider.generate({ prompt: 'Mountains', seed: 42, aspectRatio: '9:16' })
+    const [again] = await provider.generate({ prompt: 'Mountains', seed: 42, aspectRatio: '9:16' })
+    const [other] = await provider.generate({ prompt: 'Mountains', seed: 43, aspectRatio: '9:16' })
+
+    expect(seeded.seed).toBe(42)
+    expect(seeded.base64).toBe(again.base64)
+    expect(seeded.base64).not.toBe(other.base64)
+    expect(pngSize(seeded.base64)).toMatchObject({ width: 360, height: 640 })
+    expect(getImageDimensions('4:3', 1600)).toEqual({ width: 1600, height: 1200 })
+  })
+
+  it('should select providers by id and accept new backends', () => {
+    expect(getImageProvider('local').id).toBe('local')
+    expect(() => getImageProvider('missing')).toThrow('Unknown image provider "missing"')
+
+    const custom: ImageProvider = { ...provider, id: 'custom', model: 'custom-1' }
+    registerImageProvider('custom', () => custom)
+    expect(getImageProvider('custom')).toBe(custom)
+  })
+
+  it('should run a queued job through storage to the slide', async () => {
+    const deps = createDeps(provider)
+    const result = await runImageJob(job, deps)
+
+    expect(result.status).toBe('completed')
+    expect(deps.uploadImages).toHaveBeenCalledWith(
+      [expect.any(String), expect.any(String)],
+      'presentations/presentation-1/slides/slide-1/job-1'
+    )
+    expect(deps.updateJobStatus).toHaveBeenCalledWith('job-1', 'completed', expect.objectContaining({
+      heroIndex: 0,
+      imageUrls: expect.arrayContaining([expect.stringContaining('variant_0.png')]),
+    }))
+    expect(deps.updateSlideImage).toHaveBeenCalledWith('presentation-1', 'slide-1', expect.objectContaining({
+      src: 'https://storage.test/presentations/presentation-1/slides/slide-1/job-1/variant_0.png',
+      objectId: 'object-1',
+      variants: expect.any(Array),
+    }))
+  })
+
+  it('should requeue retryable failures and fail the rest', async () => {
+    const failing = (error: Error): ImageProvider => ({
+      ...provider,
+      generate: async () => { throw error },
+    })
+
+    const quota = createDeps(failing(new ImageProviderError('Rate limited', true, 429)))
+    expect(await runImageJob(job, quota)).toMatchObject({ status: 'retrying', retryCount: 1 })
+    expect(quota.updateJobStatus).toHaveBeenCalledWith('job-1', 'pending', { error: 'Rate limited', retryCount: 1 })
+
+    const exhausted = createDeps(failing(new ImageProviderError('Rate limited', true, 429)))
+    expect(await runImageJob({ ...job, retryCount: 2 }, exhausted)).toMatchObject({ status: 'failed' })
+
+    const broken = createDeps(failing(new ImageProviderError('Bad request')))
+    expect(await runImageJob(job, broken)).toMatchObject({ status: 'failed', retryable: false })
+    expect(broken.updateSlideImage).not.toHaveBeenCalled()
+  })
+
+  it('should key assets on the normalized prompt, style, model and parameters', () => {
+    const key = (overrides: Partial<ImageGenerationJob>, prompt = 'A lighthouse, watercolor', model = 'local') =>
+      getImageAssetKey(getImageAssetParams({ ...job, ...overrides }, prompt, model, 2))
+
+    expect(key({})).toBe(key({}, '  a LIGHTHOUSE,   watercolor. '))
+    expect(key({})).toBe(key({ aspectRatio: '16:9' }))
+    expect(key({})).not.toBe(key({ seed: 7 }))
+    expect(key({})).not.toBe(key({ style: 'photorealistic' }))
+    expect(key({})).not.toBe(key({}, 'A lighthouse, watercolor', 'imagen-3'))
+  })
+
+  it('should generate an asset once and complete waiting jobs with it', async () => {
+    const assets = createAssetStore()
+    const generate = jest.fn(provider.generate)
+    const deps = {
+      ...createDeps({ ...provider, generate }),
+      assets,
+      getAssetStoragePath: (key: string, jobId: string) => `image-assets/${key}/${jobId}`,
+    }
+    const other = { ...job, id: 'job-2', presentationId: 'presentation-2', slideId: 'slide-9' }
+
+    // job-2 arrives while job-1 is generating
+    let attached: unknown
+    const slow = jest.fn(async (...args: Parameters<typeof provider.generate>) => {
+      attached = await runImageJob(other, deps)
+      return provider.generate(...args)
+    })
+    const result = await runImageJob(job, { ...deps, provider: { ...provider, generate: slow } })
+
+    expect(attached).toMatchObject({ status: 'attached', jobId: 'job-1' })
+    expect(result.status).toBe('completed')
+    expect(slow).toHaveBeenCalledTimes(1)
+    expect(deps.uploadImages.mock.calls[0][1]).toMatch(/^image-assets\/[0-9a-f]{64}\/job-1$/)
+    expect(deps.updateSlideImage).toHaveBeenCalledWith('presentation-2', 'slide-9', expect.objectContaining({
+      src: expect.stringContaining('/job-1/variant_0.png'),
+    }))
+    expect(deps.updateJobStatus).toHaveBeenCalledWith('job-2', 'completed', expect.objectContaining({ heroIndex: 0 }))
+
+    // A later job with the same request reuses the stored images
+    const reused = await runImageJob({ ...job, id: 'job-3', presentationId: 'presentation-3' }, deps)
+    expect(reused).toMatchObject({ status: 'completed', reused: true })
+    expect(generate).not.toHaveBeenCalled()
+    expect(Array.from(assets.assets.values())[0]).toMatchObject({
+      status: 'ready',
+      presentationIds: ['presentation-1', 'presentation-2', 'presentation-3'],
+      refCount: 3,
+    })
+  })
+
+  it('should requeue waiting jobs when the generating job will be retried', async () => {
+    const assets = createAssetStore()
+    const deps = createDeps(provider)
+    const other = { ...job, id: 'job-2' }
+    const failing: ImageProvider = {
+      ...provider,
+      generate: async () => {
+        await runImageJob(other, { ...deps, assets })
+        throw new ImageProviderError('Rate limited', true, 429)
+      },
+    }
+
+    expect(await runImageJob(job, { ...deps, provider: failing, assets })).toMatchObject({ status: 'retrying' })
+    expect(deps.updateJobStatus).toHaveBeenCalledWith('job-2', 'pending', { error: 'Rate limited' })
+    expect(Array.from(assets.assets.values())[0].status).toBe('failed')
+  })
+})
@@ -0,0 +1,108 @@
+import { createSlideFromAIContent } from '../slide-converter'
+import { createFixtureTextProvider } from '../text-providers/fixture'
+import { getTextBudget, runObjectAction, runSlideAction, slideToAIContent } from '../slide-actions'
+import { ImageObject, TextObject } from '../../models/slide'
+
+function replying(reply: (prompt: string) => unknown) {
+  const prompts: string[] = []
+  const provider = createFixtureTextProvider({
+    fallback: (request) => {
+      prompts.push(request.prompt)
+      return JSON.stringify(reply(request.prompt))
+    },
+  })
+  return { provider, prompts }
+}
+
+function bulletsSlide() {
+  return {
+    ...createSlideFromAIContent({
+      type: 'bullets',
+      heading: 'Tides',
+      bullets: ['The moon pulls the oceans toward it every day', 'Spring tides follow new and full moons'],
+      notes: 'Mention the sun',
+    }, 0),
+    transition: { type: 'fade' as const, duration: 500 },
+  }
+}
+
+describe('Slide AI Actions', () => {
+  it('should read slide objects back into converter content', () => {
+    const content = slideToAIContent(bulletsSlide())
+
+    expect(content).toMatchObject({
+      type: 'bullets',
+      heading: 'Tides',
+      bullets: ['The moon pulls the oceans toward it every day', 'Spring tides follow new and full moons'],
+      notes: 'Mention the sun',
+    })
+    expect(content.imageUrls).toBeUndefined()
+  })
+
+  it('should shorten a bullet to its box and keep the bullet marker', async () => {
+    const slide = bulletsSlide()
+    const bullet = slide.objects.find(obj => obj.type === 'text' && obj.role === 'bullets') as TextObject
+    const { provider, prompts } = replying(() => ({ text: 'Moon pulls oceans daily' }))
+
+    const result = await runObjectAction(slide, bullet.id, 'shorten', {}, provider)
+
+    expect(result).toEqual({
+      kind: 'object',
+      objectId: bullet.id,
+      before: bullet.content,
+      after: '• Moon pulls oceans daily',
+      fits: true,
+    })
+    const budget = prompts[0].match(/at most (\d+) characters/)
+    expect(Number(budget?.[1])).toBeLessThanOrEqual(getTextBudget(slide, bullet).chars)
+    expect(prompts[0]).not.toContain('• The moon')
+    await expect(runObjectAction(slide, 'missing', 'shorten', {}, provider)).rejects.toThrow('text objects only')
+  })
+
+  it('should split a slide, keeping the id, notes and transition on the first', async () => {
+    const slide = bulletsSlide()
+    const { provider } = replying(() => ({
+      slides: [
+        { type: 'bullets', heading: 'The moon', bullets: ['Pulls the oceans'] },
+        { type: 'content', heading: 'Spring tides', body: 'They follow new and full moons.' },
+        { type: 'content', heading: 'Extra', body: 'Dropped' },
+      ],
+    }))
+
+    const result = await runSlideAction(slide, 'split', undefined, provider)
+    if (result.kind !== 'slides') {
+      throw new Error('Expected slides')
+    }
+
+    expect(result.slides.map(({ type, order }) => ({ type, order }))).toEqual([
+      { type: 'bullets', order: 0 },
+      { type: 'content', order: 1 },
+    ])
+    expect(result.slides[0]).toMatchObject({ id: slide.id, notes: 'Mention the sun', transition: slide.transition })
+    expect(result.slides[1].id).not.toBe(slide.id)
+    expect(result.slides[1].notes).toBeUndefined()
+  })
+
+  it('should keep real images when converting to three images', async () => {
+    const slide = createSlideFromAIContent({
+      type: 'image',
+      heading: 'Harbour',
+      body: 'Boats rest on the mud at low tide.',
+      imageDescriptions: ['Boats on mud'],
+      imageUrls: ['https://images.example/boats.png'],
+    }, 0)
+    const { provider } = replying(() => ({
+      slides: [{ type: 'quote', heading: 'Harbour', imageDescriptions: ['Rising water', 'Full harbour'] }],
+    }))
+
+    const result = await runSlideAction(slide, 'toThreeImages', undefined, provider)
+    if (result.kind !== 'slides') {
+      throw new Error('Expected slides')
+    }
+
+    const images = result.slides[0].objects.filter(obj => obj.type === 'image') as ImageObject[]
+    expect(result.slides[0].type).toBe('threeImages')
+    expect(images.map(image => image.alt)).toEqual(['Boats on mud', 'Rising water', 'Full harbour'])
+    expect(images[0].src).toBe('https://images.example/boats.png')
+  })
+})
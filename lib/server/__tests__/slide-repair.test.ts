@@ -0,0 +1,96 @@
+import { createFixtureTextProvider } from '../text-providers/fixture'
+import { parseAIPresentationResponse, resolveAISlides } from '../slide-repair'
+import { normalizeAISlide, validateAISlide } from '../../validation/ai-slide'
+
+function replying(reply: (prompt: string) => unknown) {
+  const prompts: string[] = []
+  const provider = createFixtureTextProvider({
+    fallback: (request) => {
+      prompts.push(request.prompt)
+      return JSON.stringify(reply(request.prompt))
+    },
+  })
+  return { provider, prompts }
+}
+
+describe('AI Slide Repair', () => {
+  it('should fold legacy slide shapes into converter fields', () => {
+    expect(normalizeAISlide({
+      bestSlideType: 'Two-Column',
+      title: 'Tides',
+      leftBullets: ['• Moon', 'Sun'],
+      rightBullets: '1. Spring\n2. Neap',
+      imagePrompts: ['Ocean at dusk'],
+      quoteAuthor: 'Kepler',
+      extra: true,
+    })).toEqual({
+      type: 'twoColumn',
+      heading: 'Tides',
+      leftContent: ['Moon', 'Sun'],
+      rightContent: ['Spring', 'Neap'],
+      imageDescriptions: ['Ocean at dusk'],
+      citation: 'Kepler',
+    })
+
+    expect(normalizeAISlide({ type: 'content', heading: 'Why', bullets: ['Pull', 'Spin'] })).toMatchObject({ body: 'Pull\nSpin' })
+    expect(normalizeAISlide({ heading: 'Said', quote: { text: 'Time and tide', author: 'Chaucer' } }))
+      .toMatchObject({ type: 'quote', quote: 'Time and tide', citation: 'Chaucer' })
+  })
+
+  it('should report what each invalid slide is missing', () => {
+    expect(validateAISlide({ type: 'bullets', heading: 'Gravity', bullets: ['Moon'] }).success).toBe(true)
+    expect(validateAISlide({ type: 'bullets', bullets: [] })).toEqual({
+      success: false,
+      issues: ['Every slide needs a heading', 'Bullet slides need a non-empty bullets array'],
+    })
+    expect(validateAISlide('{"type": "quote", "quote": "Ti')).toEqual({ success: false, issues: ['The slide is not valid JSON'] })
+  })
+
+  it('should re-ask the model only for invalid slides', async () => {
+    const { provider, prompts } = replying(() => ({
+      slides: [{ slide: 2, type: 'bullets', heading: 'Gravity', bullets: ['Moon', 'Sun'] }],
+    }))
+    const { slides, report } = await resolveAISlides([
+      { type: 'title', heading: 'Tides' },
+      { type: 'bullets', heading: 'Gravity' },
+      { type: 'quote', quote: 'Time and tide wait for no man' },
+    ], { topic: 'Tides' }, provider)
+
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0]).toContain('Slide 2 (problems: Bullet slides need a non-empty bullets array)')
+    expect(prompts[0]).not.toContain('Slide 1 ')
+    expect(slides.map(slide => slide.type)).toEqual(['title', 'bullets', 'quote'])
+    expect(slides[1].bullets).toEqual(['Moon', 'Sun'])
+    expect(report).toEqual({ total: 3, invalid: 1, repaired: 1, unrepaired: 0, attempts: 1 })
+  })
+
+  it('should keep slides it cannot repair as content slides', async () => {
+    const { provider, prompts } = replying(() => ({ slides: [{ type: 'threeImages', heading: 'Coasts', imageDescriptions: ['Cliff'] }] }))
+    const { slides, report } = await resolveAISlides([
+      { type: 'threeImages', heading: 'Coasts', bullets: ['Erosion'], imageDescriptions: ['Cliff'] },
+    ], {}, provider)
+
+    expect(prompts).toHaveLength(2)
+    expect(slides).toEqual([{ type: 'content', heading: 'Coasts', body: 'Erosion', imageDescriptions: ['Cliff'] }])
+    expect(report).toMatchObject({ invalid: 1, repaired: 0, unrepaired: 1, attempts: 2 })
+  })
+
+  it('should recover slides from a response that is not valid JSON', async () => {
+    const text = '```json\n{"title": "Tides", "slides": [{"type": "title", "heading": "Tides"}, ' +
+      '{"type": "quote", "heading": "Said", "quote": "Time "and" tide"}, {"type": "bullets", "heading": "Cut'
+    const parsed = parseAIPresentationResponse(text)
+
+    expect(parsed.title).toBe('Tides')
+    expect(parsed.slides).toEqual([
+      { type: 'title', heading: 'Tides' },
+      '{"type": "quote", "heading": "Said", "quote": "Time "and" tide"}',
+    ])
+
+    const { provider } = replying(() => ({ slides: [{ slide: 2, type: 'quote', heading: 'Said', quote: 'Time and tide' }] }))
+    const { slides, report } = await resolveAISlides(parsed.slides, {}, provider)
+    expect(slides[1]).toEqual({ type: 'quote', heading: 'Said', quote: 'Time and tide' })
+    expect(report.repaired).toBe(1)
+
+    expect(() => parseAIPresentationResponse('Sorry, I cannot help with that')).toThrow('no readable slides')
+  })
+})
@@ -0,0 +1,140 @@
+import { TextDecoder } from 'util'
+import {
+  TextModelProvider,
+  TextStreamEvent,
+  collectStream,
+  completeJson,
+  getTextModelProvider,
+  registerTextProvider,
+} from '../text-provider'
+import { createFixtureTextProvider, getFixtureKey } from '../text-providers/fixture'
+import { createOpenAITextProvider, parseSseData } from '../text-providers/openai'
+
+async function drain(events: AsyncGenerator<TextStreamEvent>) {
+  const deltas: string[] = []
+  for await (const event of events) {
+    if (event.type === 'text') {
+      deltas.push(event.text)
+    }
+  }
+  return deltas
+}
+
+function streamBody(chunks: string[]) {
+  let index = 0
+  return {
+    getReader: () => ({
+      read: async () => index < chunks.length
+        ? { done: false, value: Buffer.from(chunks[index++]) }
+        : { done: true, value: undefined },
+    }),
+  }
+}
+
+describe('Text Model Providers', () => {
+  const fetchMock = global.fetch as jest.Mock
+
+  beforeAll(() => {
+    Object.assign(global, { TextDecoder: global.TextDecoder || TextDecoder })
+  })
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+  })
+
+  it('should replay fixtures and fall back when asked', async () => {
+    const request = { prompt: 'Outline a talk on tides', json: true }
+    const provider = createFixtureTextProvider({
+      fixtures: { [getFixtureKey(request)]: '```json\n{"title":"Tides"}\n```' },
+      fallback: () => 'fallback',
+    })
+
+    const { data, result } = await completeJson<{ title: string }>(request, provider)
+    expect(data).toEqual({ title: 'Tides' })
+    expect(result.usage.totalTokens).toBeGreaterThan(0)
+    expect((await provider.complete({ prompt: 'Something else' })).text).toBe('fallback')
+    await expect(createFixtureTextProvider().complete(request)).rejects.toThrow('No text fixture')
+  })
+
+  it('should record misses from another provider and stream replays in chunks', async () => {
+    const live: TextModelProvider = {
+      id: 'live',
+      model: 'live-1',
+      complete: jest.fn(async () => ({
+        text: 'x'.repeat(150),
+        model: 'live-1',
+        usage: { inputTokens: 3, outputTokens: 40, totalTokens: 43 },
+      })),
+      stream: jest.fn(),
+    }
+    const provider = createFixtureTextProvider({ record: live })
+
+    await provider.complete({ prompt: 'Hello' })
+    const deltas = await drain(provider.stream({ prompt: 'Hello' }))
+    const result = await collectStream(provider.stream({ prompt: 'Hello' }))
+
+    expect(live.complete).toHaveBeenCalledTimes(1)
+    expect(deltas.map(delta => delta.length)).toEqual([64, 64, 22])
+    expect(result.usage.totalTokens).toBe(43)
+  })
+
+  it('should call OpenAI-compatible servers in JSON mode', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: '{"ok":true}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      }),
+    })
+    const provider = createOpenAITextProvider({ baseUrl: 'http://llm.local/v1', model: 'llama-3', apiKey: 'key' })
+
+    const result = await provider.complete({ prompt: 'Ping', system: 'Be brief', json: true })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    const body = JSON.parse(init.body)
+    expect(url).toBe('http://llm.local/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer key')
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Ping' },
+    ])
+    expect(body.response_format).toEqual({ type: 'json_object' })
+    expect(result).toMatchObject({ text: '{"ok":true}', usage: { totalTokens: 16 }, finishReason: 'stop' })
+  })
+
+  it('should stream OpenAI-compatible deltas across chunk boundaries', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      body: streamBody([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+        'ces":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":2,"completion_tokens":2,"total_tokens":4}}\n\ndata: [DONE]\n\n',
+      ]),
+    })
+    const provider = createOpenAITextProvider({ baseUrl: 'http://llm.local/v1', model: 'llama-3' })
+
+    const events: TextStreamEvent[] = []
+    for await (const event of provider.stream({ prompt: 'Hi' })) {
+      events.push(event)
+    }
+
+    expect(events.slice(0, 2)).toEqual([{ type: 'text', text: 'Hel' }, { type: 'text', text: 'lo' }])
+    expect(events[2]).toMatchObject({ type: 'done', result: { text: 'Hello', usage: { totalTokens: 4 }, finishReason: 'stop' } })
+    expect(parseSseData('data: a\n\ndata: b')).toEqual({ events: ['a'], rest: 'data: b' })
+  })
+
+  it('should surface server errors as retryable when worth retrying', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503, text: async () => 'overloaded' })
+    const provider = createOpenAITextProvider({ baseUrl: 'http://llm.local/v1', model: 'llama-3' })
+
+    await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({ retryable: true, status: 503 })
+  })
+
+  it('should select providers by id and accept new backends', () => {
+    const custom = createFixtureTextProvider({ fallback: () => 'custom' })
+    registerTextProvider('custom', () => custom)
+
+    expect(getTextModelProvider('custom')).toBe(custom)
+    expect(() => getTextModelProvider('missing')).toThrow('Unknown text provider "missing"')
+  })
+})
@@ -0,0 +1,227 @@
+import type { SlideCitation } from '@/lib/models/slide';
+import { SourceDocumentFormat, extractDocumentText } from '@/lib/import/document-text';
+import { AISlideContent } from './slide-converter';
+import { TextModelProvider, completeJson, getTextModelProvider } from './text-provider';
+
+/**
+ * Grounded generation
+ * Attached documents are read to text and cut into passages with ids
+ * ("S1-P3" is the third passage of the first document). Sources too long
+ * to quote in one prompt are summarized passage by passage first. Slides
+ * name the passages they draw on; those become the slide's citations and
+ * a "Sources" block in its speaker notes.
+ */
+
+export interface SourceDocumentInput {
+  name: string;
+  format: SourceDocumentFormat;
+  data: string;  // Base64 for pdf and docx, text for markdown and text
+}
+
+export interface SourcePassage {
+  id: string;
+  text: string;
+  summary?: string;  // Set when the sources were too long to quote
+}
+
+export interface GroundingSource {
+  id: string;
+  name: string;
+  passages: SourcePassage[];
+}
+
+export interface PreparedSources {
+  sources: GroundingSource[];
+  summarized: boolean;
+  warnings: string[];
+}
+
+const PASSAGE_CHARS = 1500;
+const MAX_SOURCE_CHARS = 200000;   // Read per request, across all documents
+const MAX_VERBATIM_CHARS = 30000;  // Above this, the prompt gets passage summaries
+const SUMMARY_BATCH = 12;          // Passages per summarization call
+const SUMMARY_CONCURRENCY = 3;
+const EXCERPT_CHARS = 160;
+
+/**
+ * Cut text into passages of at most maxChars, on paragraph boundaries where
+ * possible, then sentences, then words
+ */
+export function chunkText(text: string, maxChars: number = PASSAGE_CHARS): string[] {
+  const pieces: string[] = [];
+  text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean).forEach(paragraph => {
+    if (paragraph.length <= maxChars) {
+      pieces.push(paragraph);
+      return;
+    }
+    (paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [paragraph]).forEach(sentence => {
+      let rest = sentence.trim();
+      while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars) > 0 ? rest.lastIndexOf(' ', maxChars) : maxChars;
+        pieces.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut).trim();
+      }
+      if (rest) {
+        pieces.push(rest);
+      }
+    });
+  });
+
+  const passages: string[] = [];
+  pieces.forEach(piece => {
+    const last = passages[passages.length - 1];
+    if (last !== undefined && last.length + piece.length + 2 <= maxChars) {
+      passages[passages.length - 1] = `${last}\n\n${piece}`;
+    } else {
+      passages.push(piece);
+    }
+  });
+  return passages;
+}
+
+/**
+ * A topic for generation from a document's file name
+ */
+export function topicFromSourceName(name: string): string {
+  return name
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[^\w\s\-.,!?'"]+|_/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200);
+}
+
+function excerptOf(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_CHARS ? `${flat.slice(0, EXCERPT_CHARS).replace(/\s+\S*$/, '')}…` : flat;
+}
+
+async function summarizeBatch(passages: SourcePassage[], provider: TextModelProvider): Promise<void> {
+  const { data } = await completeJson<{ summaries?: { id?: string; summary?: string }[] }>({
+    prompt: `Summarize each source passage below in 1-3 sentences. Keep facts, figures, names and dates exactly as written.
+
+${passages.map(passage => `[${passage.id}]\n${passage.text}`).join('\n\n')}
+
+Return ONLY valid JSON: { "summaries": [{ "id": "passage id", "summary": "..." }] }`,
+  }, provider);
+
+  const summaries = Array.isArray(data.summaries) ? data.summaries : [];
+  passages.forEach(passage => {
+    const found = summaries.find(entry => entry && entry.id === passage.id);
+    passage.summary = typeof found?.summary === 'string' && found.summary.trim()
+      ? found.summary.trim()
+      : excerptOf(passage.text);
+  });
+}
+
+/**
+ * Read, chunk and (if needed) summarize attached documents
+ */
+export async function prepareSources(
+  documents: SourceDocumentInput[],
+  provider: TextModelProvider = getTextModelProvider()
+): Promise<PreparedSources> {
+  const warnings: string[] = [];
+  const sources: GroundingSource[] = [];
+  let budget = MAX_SOURCE_CHARS;
+
+  for (let i = 0; i < documents.length; i++) {
+    const attachment = documents[i];
+    let text: string;
+    try {
+      text = await extractDocumentText(attachment.format, attachment.data);
+    } catch (error) {
+      console.error('Error reading source document:', error);
+      throw new Error(`Invalid source document "${attachment.name}": ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+
+    if (!text) {
+      warnings.push(`"${attachment.name}" has no text and was skipped`);
+      continue;
+    }
+    if (budget <= 0) {
+      warnings.push(`"${attachment.name}" was skipped; the attached sources are too long`);
+      continue;
+    }
+    if (text.length > budget) {
+      warnings.push(`Only the first ${Math.round(budget / 1000)}k characters of "${attachment.name}" were used`);
+      text = text.slice(0, budget);
+    }
+    budget -= text.length;
+
+    const id = `S${sources.length + 1}`;
+    sources.push({
+      id,
+      name: attachment.name,
+      passages: chunkText(text).map((passage, index) => ({ id: `${id}-P${index + 1}`, text: passage })),
+    });
+  }
+
+  const passages = sources.reduce<SourcePassage[]>((all, source) => all.concat(source.passages), []);
+  const totalChars = passages.reduce((sum, passage) => sum + passage.text.length, 0);
+  const summarized = totalChars > MAX_VERBATIM_CHARS;
+
+  if (summarized) {
+    const batches: SourcePassage[][] = [];
+    for (let i = 0; i < passages.length; i += SUMMARY_BATCH) {
+      batches.push(passages.slice(i, i + SUMMARY_BATCH));
+    }
+    try {
+      for (let i = 0; i < batches.length; i += SUMMARY_CONCURRENCY) {
+        await Promise.all(batches.slice(i, i + SUMMARY_CONCURRENCY).map(batch => summarizeBatch(batch, provider)));
+      }
+    } catch (error) {
+      console.error('Error summarizing source passages:', error);
+      throw new Error(`Failed to summarize source documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { sources, summarized, warnings };
+}
+
+/**
+ * The passages as a prompt section, one "[id] text" entry each
+ */
+export function describeSources(sources: GroundingSource[]): string {
+  return sources.map(source => [
+    `## [${source.id}] ${source.name}`,
+    ...source.passages.map(passage => `[${passage.id}] ${passage.summary || passage.text}`),
+  ].join('\n')).join('\n\n');
+}
+
+/**
+ * Resolve the passage ids a slide names into citations and list them in
+ * its speaker notes. Unknown ids are dropped.
+ */
+export function applyCitations(aiSlide: AISlideContent, sources: GroundingSource[]): AISlideContent {
+  const ids = Array.isArray(aiSlide.sources)
+    ? aiSlide.sources.filter((id, index, all): id is string => typeof id === 'string' && all.indexOf(id) === index)
+    : [];
+
+  const citations: SlideCitation[] = [];
+  ids.forEach(passageId => {
+    const source = sources.find(entry => passageId.indexOf(`${entry.id}-`) === 0);
+    const passage = source?.passages.find(entry => entry.id === passageId);
+    if (source && passage) {
+      citations.push({
+        sourceId: source.id,
+        sourceName: source.name,
+        passageId,
+        excerpt: excerptOf(passage.text),
+      });
+    }
+  });
+
+  if (citations.length === 0) {
+    return aiSlide;
+  }
+
+  const sourceNotes = `Sources:\n${citations.map(citation =>
+    `- ${citation.sourceName} (${citation.passageId}): "${citation.excerpt}"`
+  ).join('\n')}`;
+  return {
+    ...aiSlide,
+    citations,
+    notes: aiSlide.notes ? `${aiSlide.notes}\n\n${sourceNotes}` : sourceNotes,
+  };
+}
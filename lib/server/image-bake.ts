@@ -0,0 +1,215 @@
+import sharp from 'sharp';
+import type { ImageObject, SlideObjectUnion } from '@/lib/models/slide';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  Rect,
+  hasImageEdits,
+  visibleImageRegion,
+} from '@/lib/models/image-crop';
+import { isPlaceholderImage } from '@/lib/models/image-variants';
+
+/**
+ * Image baking for export
+ * PowerPoint and PDF cannot crop around a focal point or apply CSS
+ * filters, so exports get each edited image as a new picture: the part
+ * that shows in its box, filtered, placed exactly where it shows. The
+ * math is the renderers' (lib/models/image-crop), so exports match the
+ * editor.
+ */
+
+export interface BakedImage {
+  data: string;   // data: URL
+  target: Rect;   // Where the picture goes, in box pixels
+}
+
+export type ImageLoader = (src: string) => Promise<Buffer>;
+
+// Output pixels per canvas pixel, for sharp text and edges when zoomed
+const BAKE_PIXEL_RATIO = 2;
+const LOAD_TIMEOUT_MS = 15000;
+const MAX_SOURCE_BYTES = 25 * 1024 * 1024;
+// Images decoded by sharp at once; each holds its whole bitmap in memory
+const BAKE_CONCURRENCY = 4;
+// Images are only fetched from storage, never from addresses the request
+// names (which could be internal to the server); the Storage emulator is
+// allowed over http when configured
+const STORAGE_HOSTS = ['storage.googleapis.com', 'firebasestorage.googleapis.com'];
+const STORAGE_EMULATOR_HOST = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+// sharp's blur needs a sigma of at least 0.3
+const MIN_BLUR_SIGMA = 0.3;
+
+/**
+ * Edited images, and images whose fit trims them, which PowerPoint would
+ * draw whole
+ */
+export function needsBaking(image: ImageObject): boolean {
+  return !isPlaceholderImage(image.src)
+    && (hasImageEdits(image) || image.fit === 'cover' || image.fit === 'none');
+}
+
+/**
+ * Whether an image URL points at storage, the only place images are
+ * fetched from
+ */
+export function isStorageUrl(src: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    return false;
+  }
+  if (STORAGE_EMULATOR_HOST && url.protocol === 'http:' && url.host === STORAGE_EMULATOR_HOST) {
+    return true;
+  }
+  return url.protocol === 'https:' && STORAGE_HOSTS.includes(url.hostname) && !url.port;
+}
+
+// The body, read until it passes MAX_SOURCE_BYTES
+async function readLimited(response: Response): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks, size);
+    }
+    size += value.byteLength;
+    if (size > MAX_SOURCE_BYTES) {
+      await reader.cancel();
+      throw new Error('Image is too large to export');
+    }
+    chunks.push(Buffer.from(value));
+  }
+}
+
+/**
+ * The bytes of a data: URL or an image in storage
+ */
+export async function loadImageSource(src: string): Promise<Buffer> {
+  const dataUrl = src.match(/^data:[^,]*;base64,(.*)$/);
+  if (dataUrl) {
+    return Buffer.from(dataUrl[1], 'base64');
+  }
+  if (!isStorageUrl(src)) {
+    throw new Error(`Unsupported image source: ${src.slice(0, 80)}`);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOAD_TIMEOUT_MS);
+  try {
+    // Redirects could lead anywhere
+    const response = await fetch(src, { signal: controller.signal, redirect: 'error' });
+    if (!response.ok) {
+      throw new Error(`Image request failed with status ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length')) > MAX_SOURCE_BYTES) {
+      await response.body?.cancel();
+      throw new Error('Image is too large to export');
+    }
+    return await readLimited(response);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Cut out, scale and filter the visible part of an image. Returns null
+ * when none of it shows in the box.
+ */
+export async function bakeImage(image: ImageObject, source: Buffer): Promise<BakedImage | null> {
+  // Orient by EXIF first, as browsers do
+  const { data: oriented, info } = await sharp(source).rotate().toBuffer({ resolveWithObject: true });
+  const region = visibleImageRegion(info, image.coordinates, image, image.fit || 'contain');
+  if (!region) {
+    return null;
+  }
+
+  const { source: cut, target } = region;
+  const left = Math.max(0, Math.floor(cut.x));
+  const top = Math.max(0, Math.floor(cut.y));
+  const width = Math.max(1, Math.min(info.width - left, Math.round(cut.width)));
+  const height = Math.max(1, Math.min(info.height - top, Math.round(cut.height)));
+  const outWidth = Math.max(1, Math.round(Math.min(width, target.width * BAKE_PIXEL_RATIO)));
+  const outHeight = Math.max(1, Math.round(outWidth * (target.height / target.width)));
+
+  // CSS order: brightness, then contrast around mid-grey, then saturation, then blur
+  const filters = { ...DEFAULT_IMAGE_FILTERS, ...image.filters };
+  const brightness = filters.brightness / 100;
+  const contrast = filters.contrast / 100;
+  let pipeline = sharp(oriented)
+    .extract({ left, top, width, height })
+    .resize(outWidth, outHeight, { fit: 'fill' })
+    .linear(contrast * brightness, 127.5 * (1 - contrast))
+    .modulate({ saturation: filters.saturation / 100 });
+  const sigma = filters.blur * (outWidth / target.width);
+  if (sigma >= MIN_BLUR_SIGMA) {
+    pipeline = pipeline.blur(sigma);
+  }
+
+  // Transparent images stay PNG
+  const alpha = info.channels === 2 || info.channels === 4;
+  const output = alpha
+    ? await pipeline.png().toBuffer()
+    : await pipeline.jpeg({ quality: 90 }).toBuffer();
+  return {
+    data: `data:image/${alpha ? 'png' : 'jpeg'};base64,${output.toString('base64')}`,
+    target,
+  };
+}
+
+// The baked picture in place of the image: fit `fill`, placed at its
+// target, without crop, focal point or filters
+async function bakeImageObject(image: ImageObject, load: ImageLoader): Promise<SlideObjectUnion> {
+  try {
+    const baked = await bakeImage(image, await load(image.src));
+    const rest: ImageObject = { ...image, crop: undefined, focalPoint: undefined, filters: undefined };
+    if (!baked) {
+      return { ...rest, visible: false };
+    }
+    return {
+      ...rest,
+      src: baked.data,
+      fit: 'fill',
+      coordinates: {
+        x: image.coordinates.x + baked.target.x,
+        y: image.coordinates.y + baked.target.y,
+        width: baked.target.width,
+        height: baked.target.height,
+      },
+    };
+  } catch (error) {
+    console.warn(`Could not bake image ${image.id} for export:`, error);
+    return image;
+  }
+}
+
+/**
+ * Replace every image that needs it by its baked picture, BAKE_CONCURRENCY
+ * at a time. Images that cannot be loaded stay as they are.
+ */
+export async function bakeSlideImages<T extends { objects?: SlideObjectUnion[] }>(
+  slides: T[],
+  load: ImageLoader = loadImageSource
+): Promise<T[]> {
+  const images: ImageObject[] = [];
+  slides.forEach(slide => (slide.objects || []).forEach(obj => {
+    if (obj.type === 'image' && needsBaking(obj as ImageObject)) {
+      images.push(obj as ImageObject);
+    }
+  }));
+
+  const baked = new Map<SlideObjectUnion, SlideObjectUnion>();
+  for (let i = 0; i < images.length; i += BAKE_CONCURRENCY) {
+    await Promise.all(images.slice(i, i + BAKE_CONCURRENCY).map(async image => {
+      baked.set(image, await bakeImageObject(image, load));
+    }));
+  }
+
+  return slides.map(slide => (slide.objects?.some(obj => baked.has(obj))
+    ? { ...slide, objects: slide.objects.map(obj => baked.get(obj) || obj) }
+    : slide));
+}
@@ -0,0 +1,245 @@
+import { createHash } from 'crypto';
+import { IMAGE_STYLES } from '@/lib/constants/image-styles';
+import type { ImageGenerationJob } from '@/lib/firebase/image-queue';
+import {
+  ImageAssetJob,
+  ImageAssetParams,
+  ImageAssetStore,
+  normalizeImagePrompt,
+} from '@/lib/models/image-assets';
+import { ImageProvider, ImageProviderError } from './image-providers/types';
+
+/**
+ * Image job runner
+ * Runs one queued job through a provider: generate variants, upload them,
+ * record the result on the job and put the hero image on the slide.
+ * Storage and Firestore are passed in so the flow runs against any backend;
+ * so is the asset store that deduplicates identical requests.
+ */
+
+export const MAX_JOB_RETRIES = 3;
+const DEFAULT_JOB_VARIANTS = 2; // Two variants to conserve quota
+
+export interface ImageJobDependencies {
+  provider: ImageProvider;
+  variants?: number;
+  uploadImages: (base64Images: string[], basePath: string) => Promise<string[]>;
+  getStoragePath: (job: ImageGenerationJob) => string;
+  // Without a store every job generates its own images
+  assets?: ImageAssetStore;
+  getAssetStoragePath?: (assetKey: string, jobId: string) => string;
+  updateJobStatus: (
+    jobId: string,
+    status: ImageGenerationJob['status'],
+    updates?: Partial<ImageGenerationJob>
+  ) => Promise<void>;
+  updateSlideImage: (
+    presentationId: string,
+    slideId: string,
+    imageData: {
+      src: string;
+      objectId?: string;
+      imageIndex?: number;
+      variants?: string[];
+      heroIndex?: number;
+      generatedAt?: Date;
+      generationPrompt?: string;
+    }
+  ) => Promise<void>;
+}
+
+export type ImageJobResult =
+  | { status: 'completed'; imageUrls: string[]; fullPrompt: string; reused?: boolean }
+  | { status: 'attached'; jobId: string; fullPrompt: string }
+  | { status: 'retrying' | 'failed'; error: string; retryable: boolean; retryCount: number };
+
+/**
+ * Job description plus style, with words that trip Google's safety
+ * filter removed
+ */
+export function buildJobPrompt(job: Pick<ImageGenerationJob, 'description' | 'style' | 'presentationId'>): string {
+  let sanitizedDescription = job.description
+    .replace(/\b(kill|death|dead|die|dying|blood|violent|violence|war|fight|battle|weapon|gun|bomb|terrorist|terror|attack|destroy)\b/gi, '')
+    .replace(/\b(naked|nude|sex|sexual)\b/gi, '')
+    .trim();
+
+  // If sanitization removed too much, use a generic prompt
+  if (sanitizedDescription.length < 10) {
+    sanitizedDescription = `Professional business image related to ${job.presentationId.substring(0, 8)}`;
+  }
+
+  const stylePrompt = IMAGE_STYLES[job.style as keyof typeof IMAGE_STYLES] || IMAGE_STYLES.photorealistic;
+  return `${sanitizedDescription}, ${stylePrompt}`;
+}
+
+/**
+ * The request a job makes, as the asset key sees it
+ */
+export function getImageAssetParams(
+  job: Pick<ImageGenerationJob, 'style' | 'negativePrompt' | 'aspectRatio' | 'seed'>,
+  fullPrompt: string,
+  model: string,
+  variants: number
+): ImageAssetParams {
+  return {
+    prompt: normalizeImagePrompt(fullPrompt),
+    style: job.style,
+    model,
+    negativePrompt: job.negativePrompt ? normalizeImagePrompt(job.negativePrompt) : undefined,
+    aspectRatio: job.aspectRatio || '16:9',
+    seed: job.seed,
+    variants,
+  };
+}
+
+/**
+ * Content key for an image request: the same normalized prompt, style,
+ * model and parameters always give the same key
+ */
+export function getImageAssetKey(params: ImageAssetParams): string {
+  const fields = [
+    params.prompt,
+    params.style,
+    params.model,
+    params.negativePrompt ?? null,
+    params.aspectRatio,
+    params.seed ?? null,
+    params.variants,
+  ];
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+function assetJobOf(job: ImageGenerationJob): ImageAssetJob {
+  return {
+    jobId: job.id,
+    presentationId: job.presentationId,
+    slideId: job.slideId,
+    objectId: job.objectId,
+    imageIndex: job.imageIndex,
+  };
+}
+
+// Record the images on the job and put the hero on its slide
+async function completeJob(
+  target: ImageAssetJob,
+  imageUrls: string[],
+  fullPrompt: string,
+  assetKey: string | undefined,
+  deps: ImageJobDependencies
+): Promise<void> {
+  await deps.updateJobStatus(target.jobId, 'completed', {
+    imageUrls,
+    heroIndex: 0, // Default first image as hero
+    fullPrompt,
+    ...(assetKey ? { assetKey } : {}),
+  });
+
+  try {
+    await deps.updateSlideImage(target.presentationId, target.slideId, {
+      src: imageUrls[0],
+      objectId: target.objectId,
+      imageIndex: target.imageIndex,
+      variants: imageUrls,
+      heroIndex: 0,
+      generatedAt: new Date(),
+      generationPrompt: fullPrompt,
+    });
+  } catch (error) {
+    // Don't fail the job, images are saved in the queue
+    console.error('Failed to update slide with images:', error);
+  }
+}
+
+/**
+ * Run a job that is already marked as processing. With an asset store,
+ * images generated before for the same request are reused, and a job
+ * whose images are being generated by another job waits for that one
+ * (which completes it) instead of calling the provider again.
+ */
+export async function runImageJob(
+  job: ImageGenerationJob,
+  deps: ImageJobDependencies
+): Promise<ImageJobResult> {
+  const fullPrompt = buildJobPrompt(job);
+  const variants = deps.variants ?? DEFAULT_JOB_VARIANTS;
+  let assetKey: string | undefined;
+
+  if (deps.assets) {
+    const params = getImageAssetParams(job, fullPrompt, deps.provider.model, variants);
+    const key = getImageAssetKey(params);
+    try {
+      const claim = await deps.assets.claim(key, params, assetJobOf(job));
+      if (claim.status === 'ready') {
+        await completeJob(assetJobOf(job), claim.imageUrls, fullPrompt, key, deps);
+        return { status: 'completed', imageUrls: claim.imageUrls, fullPrompt, reused: true };
+      }
+      if (claim.status === 'attached') {
+        await deps.updateJobStatus(job.id, 'processing', { assetKey: key, attachedTo: claim.jobId, fullPrompt });
+        return { status: 'attached', jobId: claim.jobId, fullPrompt };
+      }
+      assetKey = key;
+    } catch (error) {
+      // Generate without deduplication rather than not at all
+      console.error('Error claiming image asset:', error);
+    }
+  }
+
+  let imageUrls: string[];
+
+  try {
+    const images = await deps.provider.generate({
+      prompt: fullPrompt,
+      negativePrompt: job.negativePrompt,
+      aspectRatio: job.aspectRatio,
+      seed: job.seed,
+      variants,
+    });
+    const storagePath = assetKey && deps.getAssetStoragePath
+      ? deps.getAssetStoragePath(assetKey, job.id)
+      : deps.getStoragePath(job);
+    imageUrls = await deps.uploadImages(images.map(image => image.base64), storagePath);
+  } catch (error) {
+    console.error('Error generating images:', error);
+    const retryable = error instanceof ImageProviderError && error.retryable;
+    const retryCount = (job.retryCount || 0) + 1;
+    const message = error instanceof Error ? error.message : 'Failed to generate images';
+    const retrying = retryable && retryCount < MAX_JOB_RETRIES;
+
+    if (deps.assets && assetKey) {
+      // Waiting jobs go back to the queue when this one will be retried
+      // (whichever runs first generates), and fail with it otherwise
+      try {
+        const waiting = await deps.assets.fail(assetKey, message);
+        for (const waiter of waiting) {
+          await deps.updateJobStatus(waiter.jobId, retrying ? 'pending' : 'failed', { error: message });
+        }
+      } catch (assetError) {
+        console.error('Error releasing image asset:', assetError);
+      }
+    }
+
+    if (retrying) {
+      await deps.updateJobStatus(job.id, 'pending', { error: message, retryCount });
+      return { status: 'retrying', error: message, retryable, retryCount };
+    }
+
+    await deps.updateJobStatus(job.id, 'failed', { error: message, retryCount });
+    return { status: 'failed', error: message, retryable, retryCount };
+  }
+
+  let waiting: ImageAssetJob[] = [];
+  if (deps.assets && assetKey) {
+    try {
+      waiting = await deps.assets.complete(assetKey, imageUrls);
+    } catch (error) {
+      console.error('Error storing image asset:', error);
+    }
+  }
+
+  await completeJob(assetJobOf(job), imageUrls, fullPrompt, assetKey, deps);
+  for (const waiter of waiting) {
+    await completeJob(waiter, imageUrls, fullPrompt, assetKey, deps);
+  }
+
+  return { status: 'completed', imageUrls, fullPrompt };
+}
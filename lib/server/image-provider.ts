@@ -0,0 +1,49 @@
+import { ImageProvider } from './image-providers/types';
+import { createVertexImageProvider } from './image-providers/vertex';
+import { createLocalImageProvider } from './image-providers/local';
+
+/**
+ * Image provider selection
+ * IMAGE_PROVIDER picks the backend (vertex by default, local for the
+ * offline placeholder renderer). Other backends register a factory.
+ * Server-side only.
+ */
+
+export * from './image-providers/types';
+
+const DEFAULT_IMAGE_PROVIDER = 'vertex';
+
+const factories = new Map<string, () => ImageProvider>([
+  ['vertex', () => createVertexImageProvider()],
+  ['local', createLocalImageProvider],
+]);
+
+const instances = new Map<string, ImageProvider>();
+
+export function registerImageProvider(id: string, factory: () => ImageProvider): void {
+  factories.set(id, factory);
+  instances.delete(id);
+}
+
+export function getImageProviderIds(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * The configured provider (created once per server process)
+ */
+export function getImageProvider(id: string = process.env.IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER): ImageProvider {
+  const existing = instances.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown image provider "${id}" (available: ${getImageProviderIds().join(', ')})`);
+  }
+
+  const provider = factory();
+  instances.set(id, provider);
+  return provider;
+}
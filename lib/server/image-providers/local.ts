@@ -0,0 +1,190 @@
+import { deflateSync } from 'zlib';
+import {
+  GeneratedImage,
+  ImageGenerationRequest,
+  ImageProvider,
+  getImageDimensions,
+  getVariantCount,
+} from './types';
+
+/**
+ * Local placeholder provider
+ * Renders abstract placeholder art (gradient sky, hills and a few discs)
+ * as PNG without any network access. Output depends only on the request,
+ * so the queue, storage and slide-update flow can run offline and in tests.
+ */
+
+const LONG_EDGE = 640;
+
+type Rgb = [number, number, number];
+
+// FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * t),
+    Math.round(a[1] + (b[1] - a[1]) * t),
+    Math.round(a[2] + (b[2] - a[2]) * t),
+  ];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode 8-bit RGB rows as a PNG
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+
+  // Every scanline starts with filter type 0
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Render one placeholder image for a prompt and seed
+ */
+export function renderPlaceholderArt(
+  prompt: string,
+  seed: number,
+  width: number,
+  height: number
+): Buffer {
+  const random = createRandom(hashString(prompt) ^ seed);
+  const hue = random() * 360;
+  const skyTop = hslToRgb(hue, 0.55, 0.3);
+  const skyBottom = hslToRgb((hue + 40) % 360, 0.6, 0.7);
+  const hillColor = hslToRgb((hue + 180) % 360, 0.35, 0.35);
+  const discColor = hslToRgb((hue + 90 + random() * 90) % 360, 0.7, 0.6);
+
+  const horizon = height * (0.55 + random() * 0.2);
+  const waveLength = width / (1 + random() * 3);
+  const waveHeight = height * (0.03 + random() * 0.07);
+  const phase = random() * Math.PI * 2;
+
+  const discs = Array.from({ length: 2 + Math.floor(random() * 3) }, () => ({
+    x: random() * width,
+    y: random() * horizon,
+    r: height * (0.05 + random() * 0.15),
+    alpha: 0.35 + random() * 0.4,
+  }));
+
+  const pixels = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color = mix(skyTop, skyBottom, y / height);
+
+      for (let i = 0; i < discs.length; i++) {
+        const disc = discs[i];
+        if ((x - disc.x) ** 2 + (y - disc.y) ** 2 <= disc.r ** 2) {
+          color = mix(color, discColor, disc.alpha);
+        }
+      }
+
+      const ridge = horizon + Math.sin((x / waveLength) * Math.PI * 2 + phase) * waveHeight;
+      if (y >= ridge) {
+        color = mix(hillColor, skyTop, Math.min(1, (y - ridge) / height));
+      }
+
+      const offset = (y * width + x) * 3;
+      pixels[offset] = color[0];
+      pixels[offset + 1] = color[1];
+      pixels[offset + 2] = color[2];
+    }
+  }
+
+  return encodePng(width, height, pixels);
+}
+
+export function createLocalImageProvider(): ImageProvider {
+  const provider: ImageProvider = {
+    id: 'local',
+    model: 'local-placeholder',
+    maxVariants: 4,
+    minRequestInterval: 0,
+
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage[]> {
+      const { width, height } = getImageDimensions(request.aspectRatio, LONG_EDGE);
+      const baseSeed = request.seed ?? hashString(`${request.prompt}|${request.negativePrompt || ''}`);
+      const count = getVariantCount(provider, request.variants);
+
+      return Array.from({ length: count }, (_, index) => {
+        const seed = (baseSeed + index) >>> 0;
+        return {
+          base64: renderPlaceholderArt(request.prompt, seed, width, height).toString('base64'),
+          mimeType: 'image/png',
+          seed,
+        };
+      });
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,73 @@
+/**
+ * Image Provider Types
+ * The contract every image-generation backend implements. Callers build a
+ * prompt, ask for a number of variants and get raw image bytes back;
+ * uploading and updating slides stays with the caller.
+ */
+
+export type ImageAspectRatio = '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  negativePrompt?: string;
+  aspectRatio?: ImageAspectRatio;
+  // Same prompt + seed gives the same images where the backend supports it
+  seed?: number;
+  // Number of variants to return (clamped to the provider's maxVariants)
+  variants?: number;
+}
+
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+  seed?: number;
+}
+
+export interface ImageProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly maxVariants: number;
+  // Minimum gap between requests the backend's quota tolerates (ms)
+  readonly minRequestInterval: number;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage[]>;
+}
+
+/**
+ * A failed generation; retryable failures (quota, timeouts) are worth
+ * queueing again, the rest are not
+ */
+export class ImageProviderError extends Error {
+  public readonly retryable: boolean;
+  public readonly status?: number;
+
+  constructor(message: string, retryable: boolean = false, status?: number) {
+    super(message);
+    this.name = 'ImageProviderError';
+    this.retryable = retryable;
+    this.status = status;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export function isImageAspectRatio(value: unknown): value is ImageAspectRatio {
+  return IMAGE_ASPECT_RATIOS.includes(value as ImageAspectRatio);
+}
+
+/**
+ * Pixel size for an aspect ratio with the given long edge
+ */
+export function getImageDimensions(
+  aspectRatio: ImageAspectRatio = '16:9',
+  longEdge: number = 1920
+): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: longEdge, height: Math.round((longEdge * h) / w) }
+    : { width: Math.round((longEdge * w) / h), height: longEdge };
+}
+
+export function getVariantCount(provider: Pick<ImageProvider, 'maxVariants'>, requested?: number): number {
+  return Math.max(1, Math.min(provider.maxVariants, Math.floor(requested ?? 1)));
+}
@@ -1,4 +1,3 @@
-import { VertexAI } from '@google-cloud/vertexai';
 import { db } from '@/lib/firebase/config';
 import { 
   collection, 
@@ -13,10 +12,12 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { ImageStyle, IMAGE_STYLES, ImagePriority } from '@/lib/constants/image-styles';
+import { getImageProvider } from './image-provider';
 
 /**
- * Imagen 4.0 Image Generation Service
- * Matches the macOS implementation with the same model and configuration
+ * Image Generation Service
+ * Queues per-slide requests and renders them with the configured image
+ * provider (Imagen on Vertex AI by default)
  */
 
 // Re-export for backward compatibility
@@ -194,7 +195,7 @@ async function processNextImage(userId: string): Promise<void> {
     
     // Generate the image
     try {
-      const imageUrl = await generateImageWithImagen(
+      const imageUrl = await generateImageWithProvider(
         request.description,
         request.style
       );
@@ -242,27 +243,12 @@ async function processNextImage(userId: string): Promise<void> {
 }
 
 /**
- * Generate image using Imagen 4.0
+ * Generate image with the configured provider
  */
-async function generateImageWithImagen(
+async function generateImageWithProvider(
   description: string,
   style?: ImageStyle
 ): Promise<string> {
-  const vertex = new VertexAI({
-    project: process.env.NEXT_PUBLIC_GOOGLE_CLOUD_PROJECT!,
-    location: 'us-central1',
-  });
-  
-  // Get Imagen 4.0 model (matching macOS implementation)
-  const model = vertex.preview.getGenerativeModel({
-    model: 'imagen-4.0-fast-generate-preview-06-06',
-    generationConfig: {
-      numberOfImages: 1, // Matching macOS: reduced from 3 to 1 to save quota
-      aspectRatio: 'landscape16x9',
-      imageFormat: 'png',
-    },
-  });
-  
   // Construct prompt with style
   let fullPrompt: string;
   if (style && IMAGE_STYLES[style]) {
@@ -271,25 +257,18 @@ async function generateImageWithImagen(
     fullPrompt = description;
   }
   
-  // Generate the image
-  const result = await model.generateImages({ prompt: fullPrompt });
+  // One image to save quota (matching macOS)
+  const [image] = await getImageProvider().generate({
+    prompt: fullPrompt,
+    aspectRatio: '16:9',
+    variants: 1,
+  });
   
-  // Extract the image URL or base64
-  if (result.images && result.images.length > 0) {
-    const image = result.images[0];
-    
-    // If base64, upload to Firebase Storage
-    if (image.bytesBase64Encoded) {
-      return await uploadToStorage(image.bytesBase64Encoded, 'png');
-    }
-    
-    // If URL, return directly
-    if (image.url) {
-      return image.url;
-    }
+  if (!image) {
+    throw new Error('No image generated');
   }
   
-  throw new Error('No image generated');
+  return await uploadToStorage(image.base64, image.mimeType.replace('image/', ''));
 }
 
 /**
@@ -0,0 +1,200 @@
+import type { PresentationBrief, PresentationOutline } from '@/lib/models/outline';
+import { getOutlineSlides } from '@/lib/models/outline';
+
+/**
+ * Prompts for presentation generation
+ * Whole-presentation generation (the blocking and the streaming routes; the
+ * outline comes before the slides so a streamed response can show it
+ * first) and the two phases of outline-first generation.
+ */
+
+export interface PresentationPromptInput extends Omit<PresentationBrief, 'topic'> {
+  topic: string;
+  slideCount: number;
+  style: string;
+  grounding?: string;  // Source passages with ids, see lib/server/grounding
+}
+
+const AUDIENCE_HINTS: Record<string, string> = {
+  general: 'a general audience; avoid jargon',
+  executives: 'executives; lead with outcomes, numbers and decisions',
+  technical: 'a technical audience; be precise and concrete',
+  students: 'students; build up from fundamentals with examples',
+  investors: 'investors; stress market, traction and returns',
+};
+
+/**
+ * Tone, goal and audience as prompt lines (empty when none are set)
+ */
+export function describeBrief({ tone, goal, audience }: Omit<PresentationBrief, 'topic'>): string {
+  const lines = [
+    tone && `Tone: ${tone}`,
+    goal && `Goal: the presentation should ${goal} its audience`,
+    audience && `Audience: ${AUDIENCE_HINTS[audience] || audience}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Source passages the presentation must be based on (empty when none)
+ */
+function describeGrounding(grounding?: string): string {
+  return grounding
+    ? `
+Base the presentation on these SOURCE PASSAGES. Use their facts, figures and wording;
+do not add numbers or claims they don't support.
+
+${grounding}
+`
+    : '';
+}
+
+export function buildPresentationPrompt(input: PresentationPromptInput): string {
+  const { topic, slideCount, style, grounding } = input;
+  return `Create a ${slideCount}-slide ${style} presentation about "${topic}".
+${describeBrief(input)}${describeGrounding(grounding)}
+Return ONLY valid JSON with this structure, keys in this order:
+{
+  "title": "Presentation Title",
+  "subtitle": "Subtitle or tagline",
+  "outline": [
+    { "heading": "Presentation Title", "type": "title" },
+    { "heading": "Clear section heading", "type": "bullets" }
+  ],
+  "slides": [
+    {
+      "type": "title",
+      "heading": "Presentation Title",
+      "subheading": "Subtitle or tagline"
+    },
+    {
+      "type": "bullets",
+      "heading": "Clear section heading",
+      "bullets": [
+        "First bullet point with substantial content",
+        "Second bullet point with meaningful detail",
+        "Third bullet point with specific information",
+        "Fourth bullet point with valuable insight",
+        "Fifth bullet point with actionable content"
+      ],
+      "imageDescriptions": [
+        "Detailed 30-word description of first image showing...",
+        "Detailed 30-word description of second image depicting...",
+        "Detailed 30-word description of third image illustrating...",
+        "Detailed 30-word description of fourth image representing..."
+      ]
+    },
+    {
+      "type": "content",
+      "heading": "Content slide heading",
+      "body": "A full paragraph of 50-100 words explaining the topic in detail. This should be substantive content that provides real value to the audience, not just a placeholder or brief summary.",
+      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
+    },
+    {
+      "type": "image",
+      "heading": "Visual slide heading",
+      "body": "Supporting text paragraph of 30-50 words that complements the images.",
+      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
+    },
+    {
+      "type": "threeImages",
+      "heading": "Three images layout heading",
+      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
+    }
+  ]
+}
+
+REQUIREMENTS:
+1. Generate EXACTLY ${slideCount} slides
+2. "outline" lists every slide's heading and type, in order, before "slides"
+3. Mix slide types: bullets, content, image, threeImages
+4. Each slide needs heading and either bullets OR body text
+5. Include imageDescriptions array with 4 descriptions per slide${grounding ? `
+6. Give every slide a "sources" array with the ids of the passages it draws on, e.g. ["S1-P2", "S2-P1"]` : ''}`;
+}
+
+/**
+ * Phase one of outline-first generation: sections of slide plans only
+ */
+export function buildOutlinePrompt(input: PresentationPromptInput): string {
+  const { topic, slideCount, style } = input;
+  return `Plan a ${slideCount}-slide ${style} presentation about "${topic}".
+${describeBrief(input)}
+Do NOT write the slides yet. Return ONLY valid JSON with this structure:
+{
+  "title": "Presentation Title",
+  "subtitle": "Subtitle or tagline",
+  "sections": [
+    {
+      "title": "Section title",
+      "slides": [
+        {
+          "heading": "Slide heading",
+          "type": "title|section|bullets|content|image|imageWithText|threeImages|twoColumn|comparison|quote|timeline",
+          "keyPoints": ["Short point the slide must make", "Another point"]
+        }
+      ]
+    }
+  ]
+}
+
+REQUIREMENTS:
+1. EXACTLY ${slideCount} slides in total across 2-5 sections
+2. The first slide is the title slide
+3. 2-4 key points per slide, each under 15 words
+4. Choose the type that best fits each slide's content and mix types`;
+}
+
+function keyPointsOf(keyPoints: string[]): string {
+  const points = keyPoints.filter(point => point.trim());
+  return points.length > 0 ? `: ${points.join('; ')}` : '';
+}
+
+/**
+ * Phase two: write full content for the chosen outline slides, with the
+ * whole outline as context so slides don't repeat each other
+ */
+export function buildExpansionPrompt(
+  outline: PresentationOutline,
+  outlineSlideIds: string[],
+  brief: Omit<PresentationBrief, 'topic'> & { topic?: string }
+): string {
+  const plan = outline.sections.map(section => [
+    `## ${section.title}`,
+    ...section.slides.map(slide =>
+      `- [${slide.id}] (${slide.type}) ${slide.heading}${keyPointsOf(slide.keyPoints)}`
+    ),
+  ].join('\n')).join('\n');
+  const targets = getOutlineSlides(outline).filter(slide => outlineSlideIds.includes(slide.id));
+
+  return `You are writing slides for the presentation "${outline.title}"${brief.topic ? ` about "${brief.topic}"` : ''}.
+${describeBrief(brief)}
+Full outline (for context):
+${plan}
+
+Write the full content for ONLY these slides: ${targets.map(slide => slide.id).join(', ')}
+
+Return ONLY valid JSON with this structure:
+{
+  "slides": [
+    {
+      "id": "the slide id from the outline",
+      "type": "the slide type from the outline",
+      "heading": "Slide heading",
+      "subheading": "For title and section slides",
+      "bullets": ["For bullets slides: 3-6 substantial points"],
+      "body": "For content and image slides: a 50-100 word paragraph",
+      "leftContent": ["For twoColumn and comparison slides"],
+      "rightContent": ["For twoColumn and comparison slides"],
+      "quote": "For quote slides",
+      "citation": "For quote slides",
+      "imageDescriptions": ["4 detailed 30-word image descriptions"]
+    }
+  ]
+}
+
+REQUIREMENTS:
+1. One entry per requested slide id, keeping each slide's type
+2. Cover every key point of the slide; keep the heading unless it can be sharper
+3. Include imageDescriptions with 4 descriptions per slide`;
+}
@@ -0,0 +1,276 @@
+import type { ImageObject, SlideObjectUnion, TextObject } from '@/lib/models/slide';
+import type {
+  ActionSlide,
+  ObjectAction,
+  SlideAction,
+  SlideActionOptions,
+  SlideActionResult,
+} from '@/lib/models/slide-actions';
+import { TEXT_METRICS, fitTextObject, wrapText } from '@/lib/templates/overflow';
+import { AISlideContent, createSlideFromAIContent } from './slide-converter';
+import { TextModelProvider, completeJson, getTextModelProvider } from './text-provider';
+import { describeBrief } from './presentation-prompt';
+
+/**
+ * Slide AI actions, server side
+ * Object actions send one text object to the model and return its new text;
+ * slide actions read the slide back into converter content, have the model
+ * rewrite it and lay the result out again with createSlideFromAIContent.
+ */
+
+const BULLET_PREFIX = /^•\s*/;
+
+// Never ask for less than this when shortening
+const MIN_SHORTEN_CHARS = 20;
+
+const SLIDE_ACTION_TYPES: Record<SlideAction, string | undefined> = {
+  split: undefined,
+  toQuote: 'quote',
+  toTwoColumn: 'twoColumn',
+  toThreeImages: 'threeImages',
+};
+
+// Reading order: top to bottom, then left to right
+function byReadingOrder(a: SlideObjectUnion, b: SlideObjectUnion): number {
+  return a.coordinates.y - b.coordinates.y || a.coordinates.x - b.coordinates.x;
+}
+
+function isPlaceholderSrc(src: string): boolean {
+  return !src || src.startsWith('/api/placeholder');
+}
+
+/**
+ * Read a slide's text and images back into converter content
+ */
+export function slideToAIContent(slide: ActionSlide): AISlideContent {
+  const objects = (slide.objects || []).slice().sort(byReadingOrder);
+  const texts = objects.filter((object): object is TextObject => object.type === 'text' && !!object.content.trim());
+  const images = objects.filter((object): object is ImageObject => object.type === 'image');
+  const textOf = (role: TextObject['role']) => texts.filter(object => object.role === role).map(object => object.content.trim());
+
+  const bullets = textOf('bullets')
+    .reduce<string[]>((all, text) => all.concat(text.split('\n')), [])
+    .map(line => line.replace(BULLET_PREFIX, '').trim())
+    .filter(Boolean);
+  const bodies = textOf('body');
+  const imageDescriptions = images.map((image, index) => image.generationDescription || image.alt || `Image ${index + 1}`);
+  const imageUrls = images.map(image => (isPlaceholderSrc(image.src) ? '' : image.src));
+
+  return {
+    type: slide.type,
+    heading: textOf('title')[0] || textOf('header')[0],
+    ...(textOf('subtitle')[0] && { subheading: textOf('subtitle')[0] }),
+    ...(bullets.length > 0 && { bullets }),
+    ...(bodies.length > 0 && { body: bodies.join('\n\n') }),
+    ...(textOf('quote')[0] && { quote: textOf('quote')[0] }),
+    ...(textOf('citation')[0] && { citation: textOf('citation')[0] }),
+    ...(images.length > 0 && { imageDescriptions }),
+    ...(imageUrls.some(Boolean) && { imageUrls }),
+    ...(slide.notes && { notes: slide.notes }),
+  };
+}
+
+/**
+ * How much text fits in a text object: its zone's content box, narrowed to
+ * the object's own box when it shares the zone (one bullet of several)
+ */
+export function getTextBudget(slide: ActionSlide, object: TextObject): { chars: number; fontSize: number; width: number; maxLines: number } {
+  const fit = fitTextObject(slide, object, { templateId: slide.templateId });
+  const width = Math.min(fit.box.width, object.coordinates.width);
+  const height = Math.min(fit.box.height, object.coordinates.height);
+  const maxLines = Math.max(1, Math.floor(height / (fit.fontSize * fit.lineHeight)));
+  const charsPerLine = Math.max(1, Math.floor(width / (fit.fontSize * TEXT_METRICS.charWidthRatio)));
+  return { chars: charsPerLine * maxLines, fontSize: fit.fontSize, width, maxLines };
+}
+
+function describeSlide(content: AISlideContent): string {
+  return JSON.stringify({
+    type: content.type,
+    heading: content.heading,
+    subheading: content.subheading,
+    bullets: content.bullets,
+    body: content.body,
+    quote: content.quote,
+    citation: content.citation,
+    imageDescriptions: content.imageDescriptions,
+  }, null, 2);
+}
+
+function objectInstruction(action: ObjectAction, options: SlideActionOptions, budget: number): string {
+  switch (action) {
+    case 'rewrite':
+      return `Rewrite the text for a different audience, keeping its meaning.${describeBrief({ audience: options.audience || 'general' })}`;
+    case 'tone':
+      return `Rewrite the text in a different tone, keeping its meaning.${describeBrief({ tone: options.tone || 'professional' })}`;
+    case 'shorten':
+      return `Condense the text to at most ${budget} characters so it fits its box on the slide. Keep the key facts; drop filler.`;
+    case 'expand':
+      return 'Expand the text into a full paragraph of 40-80 words that explains it with concrete detail.';
+    case 'translate':
+      return `Translate the text into ${options.language || 'English'}. Keep names, numbers and formatting.`;
+  }
+}
+
+export function buildObjectActionPrompt(
+  action: ObjectAction,
+  text: string,
+  content: AISlideContent,
+  options: SlideActionOptions = {},
+  budget: number = 0
+): string {
+  return `You are editing one text box on a presentation slide.
+
+Slide (for context):
+${describeSlide(content)}
+
+Text box:
+"""
+${text}
+"""
+
+${objectInstruction(action, options, budget)}
+Keep line breaks and "•" bullet markers where the text has them.
+
+Return ONLY valid JSON: { "text": "the new text" }`;
+}
+
+function slideInstruction(action: SlideAction): string {
+  switch (action) {
+    case 'split':
+      return `Split this slide into TWO slides that each cover half of the content, with their own headings.
+Keep each slide's type from the original unless the content no longer fits it.`;
+    case 'toQuote':
+      return 'Turn this slide into a quote slide: one memorable quote that captures its message, with a citation.';
+    case 'toTwoColumn':
+      return 'Turn this slide into a two-column slide, dividing the content into two contrasting or complementary columns.';
+    case 'toThreeImages':
+      return 'Turn this slide into a three-images slide: a heading and three 30-word image descriptions that tell its story visually.';
+  }
+}
+
+export function buildSlideActionPrompt(action: SlideAction, content: AISlideContent): string {
+  const type = SLIDE_ACTION_TYPES[action];
+  return `You are reworking one slide of a presentation.
+
+Slide:
+${describeSlide(content)}
+
+${slideInstruction(action)}
+
+Return ONLY valid JSON with this structure:
+{
+  "slides": [
+    {
+      "type": "${type || 'the slide type'}",
+      "heading": "Slide heading",
+      "subheading": "For title and section slides",
+      "bullets": ["For bullets slides"],
+      "body": "For content and image slides",
+      "leftContent": ["For twoColumn slides"],
+      "rightContent": ["For twoColumn slides"],
+      "quote": "For quote slides",
+      "citation": "For quote slides",
+      "imageDescriptions": ["30-word image descriptions"]
+    }
+  ]
+}`;
+}
+
+/**
+ * Rewrite one text object; the caller applies the returned text
+ */
+export async function runObjectAction(
+  slide: ActionSlide,
+  objectId: string,
+  action: ObjectAction,
+  options: SlideActionOptions = {},
+  provider: TextModelProvider = getTextModelProvider()
+): Promise<SlideActionResult> {
+  const object = (slide.objects || []).find(obj => obj.id === objectId);
+  if (!object || object.type !== 'text') {
+    throw new Error('AI actions work on text objects only');
+  }
+
+  // Single bullets carry their marker in the content; the model gets the text
+  const bulleted = object.role === 'bullets' && BULLET_PREFIX.test(object.content) && !object.content.includes('\n');
+  const text = bulleted ? object.content.replace(BULLET_PREFIX, '') : object.content;
+  const budget = getTextBudget(slide, object);
+  const target = Math.max(MIN_SHORTEN_CHARS, Math.min(budget.chars, Math.floor(text.length * 0.7)));
+
+  try {
+    const { data } = await completeJson<{ text?: unknown }>({
+      prompt: buildObjectActionPrompt(action, text, slideToAIContent(slide), options, target),
+    }, provider);
+    if (typeof data.text !== 'string' || !data.text.trim()) {
+      throw new Error('The model returned no text');
+    }
+
+    const rewritten = data.text.trim();
+    // An expanded bullet becomes a paragraph
+    const after = bulleted && action !== 'expand' ? `• ${rewritten.replace(BULLET_PREFIX, '')}` : rewritten;
+    return {
+      kind: 'object',
+      objectId,
+      before: object.content,
+      after,
+      fits: wrapText(after, budget.fontSize, budget.width).length <= budget.maxLines,
+    };
+  } catch (error) {
+    console.error('Error running slide object action:', error);
+    throw new Error(`Failed to ${action} text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Rework a whole slide into new slides. The first keeps the source slide's
+ * id, speaker notes, transition and existing images; object animations
+ * are dropped since the objects are new.
+ */
+export async function runSlideAction(
+  slide: ActionSlide,
+  action: SlideAction,
+  templateId?: string,
+  provider: TextModelProvider = getTextModelProvider()
+): Promise<SlideActionResult> {
+  const content = slideToAIContent(slide);
+
+  try {
+    const { data } = await completeJson<{ slides?: AISlideContent[] }>({
+      prompt: buildSlideActionPrompt(action, content),
+    }, provider);
+    const written = (Array.isArray(data.slides) ? data.slides : [])
+      .filter(entry => entry && typeof entry === 'object')
+      .slice(0, action === 'split' ? 2 : 1);
+    if (written.length === 0) {
+      throw new Error('The model returned no slides');
+    }
+
+    const type = SLIDE_ACTION_TYPES[action];
+    const existingImages = (content.imageUrls || []).map((url, index) => ({
+      url,
+      description: content.imageDescriptions?.[index] || '',
+    })).filter(image => image.url);
+
+    const slides = written.map((entry, index) => {
+      const aiSlide: AISlideContent = { ...entry, type: type || entry.type || slide.type };
+      if (index === 0 && existingImages.length > 0) {
+        // Real images stay; the model's descriptions fill any remaining zones
+        aiSlide.imageDescriptions = [
+          ...existingImages.map(image => image.description),
+          ...(entry.imageDescriptions || []),
+        ];
+        aiSlide.imageUrls = existingImages.map(image => image.url);
+      }
+      if (index === 0 && slide.notes) {
+        aiSlide.notes = slide.notes;
+      }
+      return createSlideFromAIContent(aiSlide, index, templateId || slide.templateId);
+    });
+    slides[0] = { ...slides[0], id: slide.id, ...(slide.transition && { transition: slide.transition }) };
+
+    return { kind: 'slides', slides };
+  } catch (error) {
+    console.error('Error running slide action:', error);
+    throw new Error(`Failed to ${action} slide: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
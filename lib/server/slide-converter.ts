@@ -1,5 +1,6 @@
 import { 
   Slide, 
+  SlideCitation,
   SlideType, 
   SlideObjectUnion,
   TextObject,
@@ -7,24 +8,29 @@ import {
   ShapeObject 
 } from '@/lib/models/slide';
 import { v4 as uuidv4 } from 'uuid';
-import { modernTemplate } from '@/lib/templates/modern';
+import { getTemplate } from '@/lib/templates/registry';
 
 /**
  * Server-side slide conversion without client-side dependencies
  */
 
-// AI-generated slide structure
-interface AISlideContent {
+// AI-generated slide structure (also produced by the Markdown importer)
+export interface AISlideContent {
   type: string;
   heading?: string;
   subheading?: string;
   bullets?: string[];
   body?: string;
   imageDescription?: string;
+  imageDescriptions?: string[];
+  imageUrls?: string[];       // Existing images, parallel to imageDescriptions
   quote?: string;
   citation?: string;
   leftContent?: string | string[];
   rightContent?: string | string[];
+  notes?: string;             // Speaker notes
+  sources?: string[];         // Passage ids a grounded slide draws on (model output)
+  citations?: SlideCitation[]; // Those passages, resolved
 }
 
 /**
@@ -39,7 +45,7 @@ export function createSlideFromAIContent(
   const objects: SlideObjectUnion[] = [];
   
   // Get template layout for this slide type
-  const template = modernTemplate; // You can make this dynamic
+  const template = getTemplate(templateId);
   const slideType = mapAITypeToSlideType(aiSlide.type);
   const layout = template.layouts[slideType];
   
@@ -67,6 +73,19 @@ export function createSlideFromAIContent(
         }
       }
       break;
+
+    case SlideType.SECTION:
+      if (aiSlide.heading) {
+        const titleZone = layout.zones.find(z => z.role === 'title');
+        if (titleZone) {
+          objects.push(createTextObject(
+            aiSlide.heading,
+            'title',
+            titleZone.coordinates
+          ));
+        }
+      }
+      break;
       
     case SlideType.BULLETS:
       if (aiSlide.heading) {
@@ -116,9 +135,11 @@ export function createSlideFromAIContent(
       if (imgDesc) {
         const imageZone = layout.zones.find(z => z.role === 'image');
         if (imageZone) {
+          const imgUrl = aiSlide.imageUrls?.[0];
           objects.push(createImagePlaceholder(
             imgDesc,
-            imageZone.coordinates
+            imageZone.coordinates,
+            imgUrl ? [imgUrl] : undefined
           ));
         }
       }
@@ -133,16 +154,6 @@ export function createSlideFromAIContent(
           ));
         }
       }
-      if (slideType === SlideType.IMAGE_WITH_TEXT && aiSlide.body) {
-        const bodyZone = layout.zones.find(z => z.role === 'body');
-        if (bodyZone) {
-          objects.push(createTextObject(
-            aiSlide.body,
-            'body',
-            bodyZone.coordinates
-          ));
-        }
-      }
       break;
       
     case SlideType.TWO_COLUMN:
@@ -211,31 +222,17 @@ export function createSlideFromAIContent(
         }
       }
       
-      // Add three image placeholders from imageDescriptions array
+      // Add image placeholders from imageDescriptions array, one per image zone
       const imageDescriptions = aiSlide.imageDescriptions || [];
-      if (imageDescriptions.length > 0) {
-        // Main large image (left)
+      const imageZones = layout.zones.filter(z => z.role === 'image');
+      imageDescriptions.slice(0, imageZones.length).forEach((description, index) => {
+        const url = aiSlide.imageUrls?.[index];
         objects.push(createImagePlaceholder(
-          imageDescriptions[0] || 'Main image',
-          { x: 60, y: 120, width: 1080, height: 900 }
+          description || `Image ${index + 1}`,
+          imageZones[index].coordinates,
+          url ? [url] : undefined
         ));
-        
-        // Top right image
-        if (imageDescriptions[1]) {
-          objects.push(createImagePlaceholder(
-            imageDescriptions[1],
-            { x: 1170, y: 120, width: 690, height: 435 }
-          ));
-        }
-        
-        // Bottom right image
-        if (imageDescriptions[2]) {
-          objects.push(createImagePlaceholder(
-            imageDescriptions[2],
-            { x: 1170, y: 585, width: 690, height: 435 }
-          ));
-        }
-      }
+      });
       break;
       
     case SlideType.CONTENT:
@@ -270,7 +267,9 @@ export function createSlideFromAIContent(
     type: slideType,
     objects,
     order,
-    templateId,
+    templateId: template.id,
+    ...(aiSlide.notes && { notes: aiSlide.notes }),
+    ...(aiSlide.citations && aiSlide.citations.length > 0 && { citations: aiSlide.citations }),
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -0,0 +1,230 @@
+import { AISlideContent } from './slide-converter';
+import { TextModelProvider, completeJson, extractJsonText, getTextModelProvider } from './text-provider';
+import { AI_SLIDE_TYPES, normalizeAISlide, validateAISlide } from '@/lib/validation/ai-slide';
+import { createPresentationJsonScanner } from '@/lib/ai/presentation-stream';
+import { performanceMonitor } from '@/lib/monitoring/performance';
+
+/**
+ * AI slide repair
+ * Every slide a model writes is normalized and validated (see
+ * lib/validation/ai-slide). Invalid slides, and slide objects that are not
+ * even JSON, are sent back to the model together with what is wrong with
+ * them; only those slides, never the whole deck. Slides still invalid after
+ * the last attempt are kept as plain content slides so a generation never
+ * loses a slide, and every generation records how much repair it needed.
+ */
+
+export interface SlideRepairContext {
+  topic?: string;
+  language?: string;
+}
+
+export interface SlideRepairReport {
+  total: number;        // Slides checked
+  invalid: number;      // Failed validation on the first pass
+  repaired: number;     // Fixed by the model
+  unrepaired: number;   // Kept as best-effort content slides
+  attempts: number;     // Repair requests made
+}
+
+interface SlideFailure {
+  index: number;
+  raw: unknown;         // The latest try: a parsed slide or raw text
+  original: unknown;    // The slide as first written
+  issues: string[];
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+const REPAIR_TIMEOUT_MS = 20000;
+
+export function emptyRepairReport(): SlideRepairReport {
+  return { total: 0, invalid: 0, repaired: 0, unrepaired: 0, attempts: 0 };
+}
+
+function describeFailure(failure: SlideFailure): string {
+  const slide = typeof failure.raw === 'string' ? failure.raw : JSON.stringify(failure.raw);
+  return `Slide ${failure.index + 1} (problems: ${failure.issues.join('; ')}):\n${slide}`;
+}
+
+function buildRepairPrompt(failures: SlideFailure[], context: SlideRepairContext): string {
+  return `Some slides of a presentation${context.topic ? ` about "${context.topic}"` : ''} do not match the required format. Fix each one, keeping its content${context.language ? ` (in ${context.language})` : ''} and its slide number.
+
+${failures.map(describeFailure).join('\n\n')}
+
+Each slide is a JSON object with "type" (one of ${AI_SLIDE_TYPES.join(', ')}), a "heading" and the fields its type needs:
+- bullets: "bullets", an array of 3-7 strings
+- content, comparison, timeline, chart, table: "body", a paragraph
+- image, imageWithText: "imageDescriptions", an array of 1-4 image descriptions
+- threeImages: "imageDescriptions", an array of 3-4 image descriptions
+- twoColumn: "leftContent" and "rightContent", strings or arrays of strings
+- quote: "quote" and "citation"
+Keep "subheading", "notes", "imageDescriptions" and "sources" when present.
+
+Return ONLY valid JSON: { "slides": [{ "slide": 3, "type": "...", "heading": "...", ... }] }`;
+}
+
+/**
+ * Whatever can be read from a slide that could not be repaired, as a
+ * content slide
+ */
+function fallbackSlide(failure: SlideFailure): AISlideContent {
+  // The first version keeps the most content, unless only a repair parsed
+  const best = typeof failure.original === 'string' ? failure.raw : failure.original;
+  const raw = typeof best === 'string'
+    ? { heading: best.match(/"(?:heading|title)"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1] }
+    : best;
+  const slide = normalizeAISlide(raw);
+  const columns = [slide.leftContent, slide.rightContent]
+    .map(column => (Array.isArray(column) ? column.join('\n') : column))
+    .filter(Boolean);
+  const body = slide.body
+    || slide.bullets?.join('\n')
+    || slide.quote
+    || columns.join('\n\n');
+
+  return {
+    type: 'content',
+    heading: slide.heading || `Slide ${failure.index + 1}`,
+    ...(body && { body }),
+    ...(slide.imageDescriptions && { imageDescriptions: slide.imageDescriptions }),
+    ...(slide.notes && { notes: slide.notes }),
+    ...(slide.sources && { sources: slide.sources }),
+  };
+}
+
+async function requestRepairs(
+  failures: SlideFailure[],
+  context: SlideRepairContext,
+  provider: TextModelProvider
+): Promise<unknown[]> {
+  const { data } = await completeJson<{ slides?: unknown[] }>({
+    prompt: buildRepairPrompt(failures, context),
+    timeoutMs: REPAIR_TIMEOUT_MS,
+  }, provider);
+  const written = Array.isArray(data.slides) ? data.slides : [];
+
+  // Match by slide number, falling back to position if the model dropped it
+  return failures.map((failure, position) => written.find(slide =>
+    !!slide && typeof slide === 'object' && (slide as { slide?: unknown }).slide === failure.index + 1
+  ) ?? written[position]);
+}
+
+/**
+ * Validate slides from a model response, repairing the invalid ones. Raw
+ * slides may be parsed objects or the text of objects that were not JSON.
+ * Returns one slide per raw slide, in order. Pass `report` to add to a
+ * running total (the stream validates one slide at a time).
+ */
+export async function resolveAISlides(
+  rawSlides: unknown[],
+  context: SlideRepairContext = {},
+  provider: TextModelProvider = getTextModelProvider(),
+  report: SlideRepairReport = emptyRepairReport(),
+  firstIndex: number = 0
+): Promise<{ slides: AISlideContent[]; report: SlideRepairReport }> {
+  const slides: AISlideContent[] = [];
+  let failures: SlideFailure[] = [];
+
+  rawSlides.forEach((raw, position) => {
+    const result = validateAISlide(raw);
+    if (result.success) {
+      slides[position] = result.slide;
+    } else {
+      failures.push({ index: firstIndex + position, raw, original: raw, issues: result.issues });
+    }
+  });
+  report.total += rawSlides.length;
+  report.invalid += failures.length;
+
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && failures.length > 0; attempt++) {
+    report.attempts++;
+    let repairs: unknown[];
+    try {
+      repairs = await requestRepairs(failures, context, provider);
+    } catch (error) {
+      console.warn('Slide repair request failed:', error);
+      continue;
+    }
+
+    const remaining: SlideFailure[] = [];
+    failures.forEach((failure, position) => {
+      const result = repairs[position] === undefined
+        ? { success: false as const, issues: ['The slide was missing from the repair'] }
+        : validateAISlide(repairs[position]);
+      if (result.success) {
+        slides[failure.index - firstIndex] = result.slide;
+        report.repaired++;
+      } else {
+        // Later attempts start from the model's latest try when it parsed
+        remaining.push({ ...failure, raw: repairs[position] ?? failure.raw, issues: result.issues });
+      }
+    });
+    failures = remaining;
+  }
+
+  failures.forEach(failure => {
+    console.warn(`Slide ${failure.index + 1} could not be repaired (${failure.issues.join('; ')}); keeping what was readable`);
+    slides[failure.index - firstIndex] = fallbackSlide(failure);
+    report.unrepaired++;
+  });
+
+  return { slides, report };
+}
+
+/**
+ * Read a presentation response `{ title, subtitle, slides }`. When the JSON
+ * as a whole does not parse (cut off, a stray quote), every complete slide
+ * object is still recovered, the unparseable ones as raw text for repair.
+ */
+export function parseAIPresentationResponse(text: string): { title?: string; subtitle?: string; slides: unknown[] } {
+  const jsonText = extractJsonText(text);
+  try {
+    const data = JSON.parse(jsonText) as { title?: unknown; subtitle?: unknown; slides?: unknown };
+    if (data && Array.isArray(data.slides)) {
+      return {
+        title: typeof data.title === 'string' ? data.title : undefined,
+        subtitle: typeof data.subtitle === 'string' ? data.subtitle : undefined,
+        slides: data.slides,
+      };
+    }
+  } catch (error) {
+    console.warn('Presentation response is not valid JSON, recovering slides:', error);
+  }
+
+  let header: { title?: string; subtitle?: string } = {};
+  const slides: unknown[] = [];
+  const scanner = createPresentationJsonScanner({
+    onHeader: found => {
+      header = { title: found.title || undefined, subtitle: found.subtitle };
+    },
+    onSlide: (slide, index) => {
+      slides[index] = slide;
+    },
+    onInvalidSlide: (slideText, index) => {
+      slides[index] = slideText;
+    },
+  });
+  scanner.push(jsonText);
+
+  if (slides.length === 0) {
+    throw new Error('The model response contains no readable slides');
+  }
+  return { ...header, slides };
+}
+
+/**
+ * Record how much repair a generation needed. The share of generations
+ * with any invalid slide is the average of ai_slide_repair_needed.
+ */
+export function recordSlideRepair(report: SlideRepairReport, source: string): void {
+  performanceMonitor.recordMetric('ai_slide_repair_needed', report.invalid > 0 ? 1 : 0);
+  performanceMonitor.recordMetric('ai_slides_invalid', report.invalid);
+  performanceMonitor.recordMetric('ai_slides_repaired', report.repaired);
+  performanceMonitor.recordMetric('ai_slides_unrepaired', report.unrepaired);
+  if (report.invalid > 0) {
+    console.warn(
+      `${source}: ${report.invalid} of ${report.total} slides were invalid; ` +
+      `${report.repaired} repaired, ${report.unrepaired} kept as plain content (${report.attempts} repair requests)`
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextModelProvider,
+} from './text-providers/types';
+import { createVertexTextProvider } from './text-providers/vertex';
+import { createOpenAITextProvider } from './text-providers/openai';
+import { createFixtureTextProvider } from './text-providers/fixture';
+
+/**
+ * Text model selection
+ * TEXT_PROVIDER picks the LLM backend every generator uses: vertex
+ * (Gemini, default), openai (any OpenAI-compatible server, see
+ * OPENAI_BASE_URL) or fixture (recorded responses in TEXT_FIXTURES_DIR;
+ * set TEXT_FIXTURES_RECORD to a provider id to record misses).
+ * Server-side only.
+ */
+
+export * from './text-providers/types';
+
+const DEFAULT_TEXT_PROVIDER = 'vertex';
+
+const factories = new Map<string, () => TextModelProvider>([
+  ['vertex', () => createVertexTextProvider()],
+  ['openai', () => createOpenAITextProvider()],
+  ['fixture', () => createFixtureTextProvider({
+    dir: process.env.TEXT_FIXTURES_DIR || 'fixtures/text',
+    record: process.env.TEXT_FIXTURES_RECORD ? getTextModelProvider(process.env.TEXT_FIXTURES_RECORD) : undefined,
+  })],
+]);
+
+const instances = new Map<string, TextModelProvider>();
+
+export function registerTextProvider(id: string, factory: () => TextModelProvider): void {
+  factories.set(id, factory);
+  instances.delete(id);
+}
+
+export function getTextProviderIds(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * The configured provider (created once per server process)
+ */
+export function getTextModelProvider(id: string = process.env.TEXT_PROVIDER || DEFAULT_TEXT_PROVIDER): TextModelProvider {
+  const existing = instances.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  const factory = factories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown text provider "${id}" (available: ${getTextProviderIds().join(', ')})`);
+  }
+
+  const provider = factory();
+  instances.set(id, provider);
+  return provider;
+}
+
+/**
+ * Strip markdown code fences models like to wrap JSON in
+ */
+export function extractJsonText(text: string): string {
+  return text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+}
+
+/**
+ * JSON-mode completion, parsed
+ */
+export async function completeJson<T>(
+  request: Omit<TextGenerationRequest, 'json'>,
+  provider: TextModelProvider = getTextModelProvider()
+): Promise<{ data: T; result: TextGenerationResult }> {
+  const result = await provider.complete({ ...request, json: true });
+  return { data: JSON.parse(extractJsonText(result.text)) as T, result };
+}
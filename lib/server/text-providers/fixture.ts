@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextModelProvider,
+  TextProviderError,
+  TextStreamEvent,
+  estimateUsage,
+} from './types';
+
+/**
+ * Fixture / replay provider
+ * Answers from recorded responses keyed by a hash of the request, so
+ * generators run offline and tests are deterministic. With a `record`
+ * provider, misses are fetched from it and saved for next time.
+ */
+
+export interface TextFixture {
+  key: string;
+  prompt: string; // Excerpt, to tell fixture files apart
+  text: string;
+  usage?: TextGenerationResult['usage'];
+}
+
+export interface FixtureTextProviderOptions {
+  // In-memory fixtures by key (see getFixtureKey)
+  fixtures?: Record<string, string>;
+  // Directory of <key>.json fixture files
+  dir?: string;
+  record?: TextModelProvider;
+  // Response for requests without a fixture; otherwise they fail
+  fallback?: (request: TextGenerationRequest) => string;
+}
+
+const STREAM_CHUNK_SIZE = 64;
+
+export function getFixtureKey(request: Pick<TextGenerationRequest, 'prompt' | 'system' | 'json'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.system || '', request.prompt, !!request.json]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function createFixtureTextProvider(options: FixtureTextProviderOptions = {}): TextModelProvider {
+  const { fixtures = {}, dir, record, fallback } = options;
+  const model = record ? `fixture:${record.model}` : 'fixture';
+  const recorded = new Map<string, TextFixture>();
+
+  const readFixture = (key: string): TextFixture | null => {
+    const saved = recorded.get(key);
+    if (saved) {
+      return saved;
+    }
+    if (fixtures[key] !== undefined) {
+      return { key, prompt: '', text: fixtures[key] };
+    }
+    const file = dir && path.join(dir, `${key}.json`);
+    if (file && existsSync(file)) {
+      return JSON.parse(readFileSync(file, 'utf8')) as TextFixture;
+    }
+    return null;
+  };
+
+  const writeFixture = (fixture: TextFixture) => {
+    recorded.set(fixture.key, fixture);
+    if (dir) {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(path.join(dir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2));
+    }
+  };
+
+  const complete = async (request: TextGenerationRequest): Promise<TextGenerationResult> => {
+    const key = getFixtureKey(request);
+    const fixture = readFixture(key);
+    if (fixture) {
+      return {
+        text: fixture.text,
+        model,
+        usage: fixture.usage || estimateUsage(request, fixture.text),
+        finishReason: 'STOP',
+      };
+    }
+
+    if (record) {
+      const result = await record.complete(request);
+      writeFixture({ key, prompt: request.prompt.slice(0, 200), text: result.text, usage: result.usage });
+      return result;
+    }
+
+    if (fallback) {
+      const text = fallback(request);
+      return { text, model, usage: estimateUsage(request, text), finishReason: 'STOP' };
+    }
+
+    throw new TextProviderError(`No text fixture for request ${key}`);
+  };
+
+  return {
+    id: 'fixture',
+    model,
+    complete,
+
+    async *stream(request: TextGenerationRequest): AsyncGenerator<TextStreamEvent> {
+      const key = getFixtureKey(request);
+      if (record && !readFixture(key)) {
+        // Pass the live stream through and keep what it produced
+        for await (const event of record.stream(request)) {
+          if (event.type === 'done') {
+            const { text, usage } = event.result;
+            writeFixture({ key, prompt: request.prompt.slice(0, 200), text, usage });
+          }
+          yield event;
+        }
+        return;
+      }
+
+      const result = await complete(request);
+      for (let i = 0; i < result.text.length; i += STREAM_CHUNK_SIZE) {
+        yield { type: 'text', text: result.text.slice(i, i + STREAM_CHUNK_SIZE) };
+      }
+      yield { type: 'done', result };
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import {
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextModelProvider,
+  TextProviderError,
+  TextStreamEvent,
+  TokenUsage,
+  estimateUsage,
+} from './types';
+
+/**
+ * OpenAI-compatible provider
+ * Talks to any server implementing the /chat/completions API (OpenAI,
+ * vLLM, Ollama, llama.cpp, LM Studio, ...), e.g. a self-hosted model.
+ */
+
+export interface OpenAITextProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: {
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+export function getOpenAITextConfig(env: NodeJS.ProcessEnv = process.env): OpenAITextProviderConfig {
+  if (!env.OPENAI_MODEL) {
+    throw new Error('OPENAI_MODEL environment variable is not set');
+  }
+
+  return {
+    baseUrl: (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    model: env.OPENAI_MODEL,
+    apiKey: env.OPENAI_API_KEY,
+  };
+}
+
+function toUsage(request: TextGenerationRequest, text: string, usage?: ChatCompletionUsage | null): TokenUsage {
+  if (!usage?.total_tokens) {
+    return estimateUsage(request, text);
+  }
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Split a server-sent event buffer into complete `data:` payloads and
+ * the unfinished remainder
+ */
+export function parseSseData(buffer: string): { events: string[]; rest: string } {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() || '';
+  const events = lines
+    .map(line => line.trim())
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trim());
+  return { events, rest };
+}
+
+export function createOpenAITextProvider(
+  config: OpenAITextProviderConfig = getOpenAITextConfig()
+): TextModelProvider {
+  const { baseUrl, model, apiKey } = config;
+
+  const post = async (request: TextGenerationRequest, stream: boolean): Promise<Response> => {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const controller = new AbortController();
+    const timer = request.timeoutMs ? setTimeout(() => controller.abort(), request.timeoutMs) : undefined;
+
+    try {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          max_tokens: request.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Text model error:', errorText);
+        throw new TextProviderError(
+          `Text model returned ${response.status}: ${errorText}`,
+          response.status === 429 || response.status >= 500,
+          response.status
+        );
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new TextProviderError(`Text model timeout after ${Math.round((request.timeoutMs || 0) / 1000)} seconds`, true);
+      }
+      if (error instanceof TextProviderError) {
+        throw error;
+      }
+      throw new TextProviderError(error instanceof Error ? error.message : 'Text model request failed', true);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  };
+
+  return {
+    id: 'openai',
+    model,
+
+    async complete(request: TextGenerationRequest): Promise<TextGenerationResult> {
+      const response = await post(request, false);
+      const data = await response.json() as ChatCompletionChunk;
+      const choice = data.choices?.[0];
+      const text = choice?.message?.content || '';
+      if (!text) {
+        throw new TextProviderError('No response generated');
+      }
+
+      return {
+        text,
+        model,
+        usage: toUsage(request, text, data.usage),
+        finishReason: choice?.finish_reason || undefined,
+      };
+    },
+
+    async *stream(request: TextGenerationRequest): AsyncGenerator<TextStreamEvent> {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new TextProviderError('Text model returned no stream');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: ChatCompletionUsage | null | undefined;
+      let finishReason: string | undefined;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        const parsed = parseSseData(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+
+        for (let i = 0; i < parsed.events.length; i++) {
+          if (parsed.events[i] === '[DONE]') {
+            continue;
+          }
+          const chunk = JSON.parse(parsed.events[i]) as ChatCompletionChunk;
+          const choice = chunk.choices?.[0];
+          usage = chunk.usage || usage;
+          finishReason = choice?.finish_reason || finishReason;
+
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield { type: 'text', text: delta };
+          }
+        }
+      }
+
+      yield {
+        type: 'done',
+        result: { text, model, usage: toUsage(request, text, usage), finishReason },
+      };
+    },
+  };
+}
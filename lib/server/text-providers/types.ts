@@ -0,0 +1,106 @@
+/**
+ * Text Model Provider Types
+ * The contract every LLM backend implements: a one-shot completion (plain
+ * or JSON mode), a streamed completion and token usage for accounting.
+ */
+
+export interface TextGenerationRequest {
+  prompt: string;
+  system?: string;
+  // Ask the backend for a single JSON value instead of prose
+  json?: boolean;
+  maxOutputTokens?: number;
+  temperature?: number;
+  // Give up after this long (ms)
+  timeoutMs?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface TextGenerationResult {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+  finishReason?: string;
+}
+
+export type TextStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; result: TextGenerationResult };
+
+export interface TextModelProvider {
+  readonly id: string;
+  readonly model: string;
+  complete(request: TextGenerationRequest): Promise<TextGenerationResult>;
+  // Text deltas as they arrive, then one 'done' event with the full result
+  stream(request: TextGenerationRequest): AsyncGenerator<TextStreamEvent>;
+}
+
+/**
+ * A failed completion; retryable failures (quota, timeouts, 5xx) are
+ * worth trying again
+ */
+export class TextProviderError extends Error {
+  public readonly retryable: boolean;
+  public readonly status?: number;
+
+  constructor(message: string, retryable: boolean = false, status?: number) {
+    super(message);
+    this.name = 'TextProviderError';
+    this.retryable = retryable;
+    this.status = status;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 32768;  // Enough for 30+ slides with 4 image prompts each
+export const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Rough token count (~4 characters per token) for backends that don't
+ * report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(request: Pick<TextGenerationRequest, 'prompt' | 'system'>, text: string): TokenUsage {
+  const inputTokens = estimateTokens(`${request.system || ''}${request.prompt}`);
+  const outputTokens = estimateTokens(text);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Reject with a retryable error if the promise takes longer than timeoutMs
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs?: number): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TextProviderError(`Text model timeout after ${Math.round(timeoutMs / 1000)} seconds`, true)),
+      timeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Drain a stream into its final result
+ */
+export async function collectStream(events: AsyncIterable<TextStreamEvent>): Promise<TextGenerationResult> {
+  for await (const event of events) {
+    if (event.type === 'done') {
+      return event.result;
+    }
+  }
+  throw new TextProviderError('Stream ended without a result');
+}
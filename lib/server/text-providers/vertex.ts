@@ -0,0 +1,130 @@
+import {
+  GenerateContentRequest,
+  GenerateContentResponse,
+  HarmBlockThreshold,
+  HarmCategory,
+} from '@google-cloud/vertexai';
+import { getVertexAI } from '../vertex-ai';
+import {
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TextModelProvider,
+  TextProviderError,
+  TextStreamEvent,
+  estimateUsage,
+  withTimeout,
+} from './types';
+
+/**
+ * Vertex AI Gemini provider
+ * The one place Gemini is configured: model, sampling and safety settings.
+ */
+
+const SAFETY_SETTINGS = [
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }));
+
+function getResponseText(response: GenerateContentResponse): string {
+  return (response.candidates?.[0]?.content?.parts || [])
+    .map(part => part.text || '')
+    .join('');
+}
+
+function toResult(
+  model: string,
+  request: TextGenerationRequest,
+  text: string,
+  response?: GenerateContentResponse
+): TextGenerationResult {
+  const usage = response?.usageMetadata;
+  return {
+    text,
+    model,
+    usage: usage?.totalTokenCount
+      ? {
+          inputTokens: usage.promptTokenCount || 0,
+          outputTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount,
+        }
+      : estimateUsage(request, text),
+    finishReason: response?.candidates?.[0]?.finishReason,
+  };
+}
+
+function toProviderError(error: unknown): TextProviderError {
+  if (error instanceof TextProviderError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new TextProviderError(message, /quota|RATE_LIMIT|RESOURCE_EXHAUSTED|429|503|UNAVAILABLE/i.test(message));
+}
+
+export function createVertexTextProvider(
+  model: string = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+): TextModelProvider {
+  const getModel = async (request: TextGenerationRequest) => {
+    const vertex = await getVertexAI();
+    return vertex.preview.getGenerativeModel({
+      model,
+      generationConfig: {
+        maxOutputTokens: request.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        topP: 0.95,
+        topK: 40,
+        responseMimeType: request.json ? 'application/json' : undefined,
+      },
+      safetySettings: SAFETY_SETTINGS,
+      systemInstruction: request.system,
+    });
+  };
+
+  const toContents = (request: TextGenerationRequest): GenerateContentRequest => ({
+    contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+  });
+
+  return {
+    id: 'vertex',
+    model,
+
+    async complete(request: TextGenerationRequest): Promise<TextGenerationResult> {
+      try {
+        const generativeModel = await getModel(request);
+        const result = await withTimeout(generativeModel.generateContent(toContents(request)), request.timeoutMs);
+        const text = getResponseText(result.response);
+        if (!text) {
+          throw new TextProviderError('No response generated');
+        }
+        return toResult(model, request, text, result.response);
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async *stream(request: TextGenerationRequest): AsyncGenerator<TextStreamEvent> {
+      let text = '';
+      let last: GenerateContentResponse | undefined;
+
+      try {
+        const generativeModel = await getModel(request);
+        const result = await withTimeout(generativeModel.generateContentStream(toContents(request)), request.timeoutMs);
+        for await (const chunk of result.stream) {
+          const delta = getResponseText(chunk);
+          last = chunk;
+          if (delta) {
+            text += delta;
+            yield { type: 'text', text: delta };
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+
+      yield { type: 'done', result: toResult(model, request, text, last) };
+    },
+  };
+}
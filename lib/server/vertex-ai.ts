@@ -1,5 +1,6 @@
-import { VertexAI, HarmCategory, HarmBlockThreshold } from '@google-cloud/vertexai';
+import { VertexAI } from '@google-cloud/vertexai';
 import { GoogleAuth } from 'google-auth-library';
+import { getImageProvider } from './image-provider';
 
 /**
  * Server-side Vertex AI client with proper authentication
@@ -47,41 +48,6 @@ export async function getVertexAI(): Promise<VertexAI> {
   }
 }
 
-/**
- * Get Gemini model with safety settings
- */
-export async function getGeminiModel(modelName: string = 'gemini-2.5-flash') {
-  const vertex = await getVertexAI();
-  
-  return vertex.preview.getGenerativeModel({
-    model: modelName,
-    generationConfig: {
-      maxOutputTokens: 32768,  // Increased to handle 30+ slides with 4 image prompts each
-      temperature: 0.7,
-      topP: 0.95,
-      topK: 40,
-    },
-    safetySettings: [
-      {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-    ],
-  });
-}
-
 /**
  * Retry logic for API calls
  */
@@ -115,38 +81,15 @@ export async function withRetry<T>(
 }
 
 /**
- * Generate image using Imagen (Vertex AI image generation)
+ * Generate a slide image with the configured image provider (data URL)
  */
 export async function generateImage(prompt: string): Promise<string> {
-  const vertex = await getVertexAI();
-  
   try {
-    // Get the Imagen model
-    const model = vertex.preview.getGenerativeModel({
-      model: 'imagegeneration@002',
-    });
-    
-    const result = await model.generateContent({
-      contents: [{
-        role: 'user',
-        parts: [{
-          text: `Create a professional presentation slide image: ${prompt}. Style: Clean, modern, business-appropriate, high contrast, minimal text.`,
-        }],
-      }],
+    const [image] = await getImageProvider().generate({
+      prompt: `Create a professional presentation slide image: ${prompt}. Style: Clean, modern, business-appropriate, high contrast, minimal text.`,
+      aspectRatio: '16:9',
     });
-    
-    const response = result.response;
-    
-    // Extract image data from response
-    if (response.candidates && response.candidates[0]?.content?.parts?.[0]) {
-      const imagePart = response.candidates[0].content.parts[0];
-      if (imagePart.inlineData?.data) {
-        // Return base64 image data
-        return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-      }
-    }
-    
-    throw new Error('No image generated');
+    return `data:${image.mimeType};base64,${image.base64}`;
   } catch (error) {
     console.error('Image generation failed:', error);
     // Fallback to a placeholder
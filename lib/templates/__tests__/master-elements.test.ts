@@ -0,0 +1,86 @@
+import {
+  isMasterElementVisible,
+  substituteTokens,
+  resolveMasterElements,
+  resolveDeckMasterElements,
+} from '../master-elements'
+import { getTemplate } from '../registry'
+import { MasterElement, Template } from '../../models/template'
+import { SlideType } from '../../models/slide'
+import { buildPptxMasterElements } from '../../export/pptx-master'
+
+const date = new Date(2026, 9, 19)
+
+function element(overrides: Partial<MasterElement>): MasterElement {
+  return { id: 'el', type: 'footer', coordinates: { x: 80, y: 1000, width: 600, height: 40 }, ...overrides }
+}
+
+function templateWith(globalMasterElements: MasterElement[]): Template {
+  return { ...getTemplate('minimal'), id: 'custom', globalMasterElements }
+}
+
+describe('Master Elements', () => {
+  it('should apply slide type and slide number visibility rules', () => {
+    expect(isMasterElementVisible(element({ excludeFrom: [SlideType.TITLE] }), SlideType.TITLE, 1)).toBe(false)
+    expect(isMasterElementVisible(element({ visibleOn: [SlideType.CONTENT] }), SlideType.BULLETS, 2)).toBe(false)
+    expect(isMasterElementVisible(element({ visibleOnSlides: [2, 3] }), SlideType.CONTENT, 1)).toBe(false)
+    expect(isMasterElementVisible(element({ excludeFromSlides: [4] }), SlideType.CONTENT, 4)).toBe(false)
+    expect(isMasterElementVisible(element({ excludeFromSlides: [4] }), SlideType.CONTENT, 3)).toBe(true)
+  })
+
+  it('should substitute tokens', () => {
+    const text = substituteTokens('{title} · {slideNumber}/{totalSlides} · {date} · {unknown}', {
+      slideNumber: 3,
+      totalSlides: 12,
+      date,
+      title: 'Roadmap',
+    })
+
+    expect(text).toBe('Roadmap · 3/12 · October 19, 2026 · {unknown}')
+  })
+
+  it('should number every slide of a deck and honor showSlideNumbers', () => {
+    const slides = [{ type: SlideType.CONTENT }, { type: SlideType.CONTENT }, { type: SlideType.BULLETS }]
+    const deck = resolveDeckMasterElements(slides, { templateId: 'minimal' })
+
+    expect(deck.map(elements => elements.find(el => el.type === 'pageNumber')?.text)).toEqual(['1', '2', '3'])
+    expect(resolveDeckMasterElements(slides, { templateId: 'minimal', showSlideNumbers: false }).flat()).toEqual([])
+  })
+
+  it('should fill footers with the title and logo slots with the logo url', () => {
+    const template = templateWith([
+      element({ id: 'footer' }),
+      element({ id: 'logo', type: 'logo', coordinates: { x: 1720, y: 40, width: 120, height: 60 } }),
+      element({ id: 'stamp', type: 'watermark', content: 'DRAFT {totalSlides}' }),
+    ])
+
+    const withoutLogo = resolveMasterElements({ type: SlideType.CONTENT }, 1, 5, { template, presentationTitle: 'Plan', date })
+    expect(withoutLogo.map(el => el.id)).toEqual(['footer', 'stamp'])
+    expect(withoutLogo[0]).toMatchObject({ text: 'Plan', align: 'left' })
+    expect(withoutLogo[1]).toMatchObject({ text: 'DRAFT 5', opacity: 0.15 })
+
+    const withLogo = resolveMasterElements({ type: SlideType.CONTENT }, 1, 5, { template, logoUrl: '/logo.png' })
+    expect(withLogo.find(el => el.id === 'logo')).toMatchObject({ image: { url: '/logo.png', fit: 'contain' }, align: 'right' })
+  })
+
+  it('should prefer the slide template over the deck template', () => {
+    const elements = resolveMasterElements({ type: SlideType.CONTENT, templateId: 'elegant' }, 2, 4, { templateId: 'minimal' })
+
+    expect(elements.find(el => el.type === 'pageNumber')?.coordinates).toEqual(
+      getTemplate('elegant').globalMasterElements?.[0].coordinates
+    )
+  })
+
+  it('should convert resolved elements to PowerPoint positions and points', () => {
+    const [spec] = buildPptxMasterElements(resolveMasterElements({ type: SlideType.CONTENT }, 7, 9, { templateId: 'minimal' }))
+
+    expect(spec.kind).toBe('text')
+    if (spec.kind === 'text') {
+      expect(spec.text).toBe('7')
+      expect(spec.options.x).toBeCloseTo(1640 / 96)
+      expect(spec.options.y).toBeCloseTo(1000 / 96)
+      expect(spec.options.h).toBeCloseTo(40 / 96)
+      expect(spec.options.fontSize).toBeGreaterThan(0)
+    }
+  })
+})
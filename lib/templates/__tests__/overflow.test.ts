@@ -0,0 +1,94 @@
+import {
+  wrapText,
+  fitText,
+  fitTextObject,
+  fitSlideText,
+  paginateText,
+  getTextDisplay,
+  sourceSlideId,
+} from '../overflow'
+import { getTemplate } from '../registry'
+import { Slide, SlideType, TextObject } from '../../models/slide'
+
+function text(id: string, role: TextObject['role'], content: string, coordinates = { x: 160, y: 260, width: 1600, height: 700 }): TextObject {
+  return { id, type: 'text', role, content, coordinates }
+}
+
+function slide(type: SlideType, objects: Slide['objects']): Slide {
+  return { id: 'slide-1', type, objects, order: 0, templateId: 'minimal', createdAt: new Date(), updatedAt: new Date() }
+}
+
+const bullets = Array.from({ length: 20 }, (_, i) => `Point number ${i + 1}`).join('\n')
+
+describe('Text Overflow', () => {
+  it('should wrap words and break words longer than a line', () => {
+    expect(wrapText('aaa bbb ccc', 10, 40)).toEqual(['aaa bbb', 'ccc'])
+    expect(wrapText('abcdefghij', 10, 40)).toEqual(['abcdefg', 'hij'])
+    expect(wrapText('one\n\ntwo', 10, 400)).toEqual(['one', '', 'two'])
+  })
+
+  it('should shrink text down to the typography floor', () => {
+    const box = { x: 0, y: 0, width: 400, height: 100 }
+    const fits = fitText('short', { fontSize: 40 }, box, 'shrink')
+    const shrunk = fitText('word '.repeat(15), { fontSize: 40, lineHeight: 1, minFontSize: 24 }, box, 'shrink')
+    const floored = fitText('word '.repeat(200), { fontSize: 40, lineHeight: 1, minFontSize: 24 }, box, 'shrink')
+
+    expect(fits).toMatchObject({ fontSize: 40, overflows: false })
+    expect(shrunk.fontSize).toBeLessThan(40)
+    expect(shrunk.fontSize).toBeGreaterThanOrEqual(24)
+    expect(shrunk.overflows).toBe(false)
+    expect(floored).toMatchObject({ fontSize: 24, overflows: true })
+  })
+
+  it('should measure against the zone content box and default bullets to paginate', () => {
+    const fit = fitTextObject(slide(SlideType.BULLETS, []), text('b', 'bullets', bullets))
+
+    expect(fit.behavior).toBe('paginate')
+    expect(fit.box).toEqual({ x: 160, y: 270, width: 1600, height: 680 })
+    expect(fit.maxLines).toBe(11)
+    expect(fit.overflows).toBe(true)
+  })
+
+  it('should honor the zone overflow behavior', () => {
+    const minimal = getTemplate('minimal')
+    const layout = minimal.layouts[SlideType.BULLETS]
+    const template = {
+      ...minimal,
+      layouts: {
+        ...minimal.layouts,
+        [SlideType.BULLETS]: {
+          ...layout,
+          zones: layout.zones.map(zone => zone.role === 'bullets' ? { ...zone, overflow: 'ellipsis' as const } : zone),
+        },
+      },
+    }
+
+    const fit = fitTextObject(slide(SlideType.BULLETS, []), text('b', 'bullets', bullets), { template })
+    const display = getTextDisplay(bullets, fit)
+
+    expect(fit.behavior).toBe('ellipsis')
+    expect(display.content.split('\n')).toHaveLength(11)
+    expect(display.content.endsWith('…')).toBe(true)
+  })
+
+  it('should keep paragraphs whole when paginating', () => {
+    const pages = paginateText('one\ntwo\nthree', { fontSize: 10, lineHeight: 1 }, { x: 0, y: 0, width: 200, height: 20 })
+
+    expect(pages).toEqual(['one\ntwo', 'three'])
+  })
+
+  it('should continue paginated text on extra slides with the header marked', () => {
+    const header = text('h', 'header', 'Findings', { x: 160, y: 120, width: 1600, height: 90 })
+    const pages = fitSlideText(slide(SlideType.BULLETS, [header, text('b', 'bullets', bullets)]))
+
+    expect(pages).toHaveLength(2)
+    expect(pages[1].id).toBe('slide-1-cont-1')
+    expect(pages.map(page => sourceSlideId(page.id))).toEqual(['slide-1', 'slide-1'])
+    expect((pages[1].objects[0] as TextObject).content).toBe('Findings (cont.)')
+
+    const [first, second] = pages.map(page => (page.objects[1] as TextObject).content.split('\n'))
+    expect(first).toHaveLength(11)
+    expect([...first, ...second]).toEqual(bullets.split('\n'))
+    expect((pages[0].objects[1] as TextObject).customStyles?.fontSize).toBe(32)
+  })
+})
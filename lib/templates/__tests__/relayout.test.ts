@@ -0,0 +1,91 @@
+import { relayoutSlide, relayoutPresentation } from '../relayout'
+import { getTemplate, listTemplates, hasTemplate } from '../registry'
+import { validateTemplate } from '../../models/template'
+import { Slide, SlideType, TextObject, ShapeObject } from '../../models/slide'
+import { createSlideFromAIContent } from '../../server/slide-converter'
+
+function text(id: string, role: TextObject['role'], y: number, x = 120): TextObject {
+  return { id, type: 'text', content: id, role, coordinates: { x, y, width: 800, height: 100 } }
+}
+
+function slide(type: SlideType, objects: Slide['objects']): Slide {
+  return { id: 'slide-1', type, objects, order: 0, templateId: 'modern', createdAt: new Date(), updatedAt: new Date() }
+}
+
+describe('Template Registry', () => {
+  it('should ship valid templates with every slide type', () => {
+    const templates = listTemplates()
+
+    expect(templates.map(template => template.id)).toEqual(['modern', 'minimal', 'bold', 'elegant'])
+    templates.forEach(template => {
+      expect(validateTemplate(template)).toEqual({ valid: true, errors: [] })
+      Object.values(SlideType).forEach(type => expect(template.layouts[type]).toBeDefined())
+    })
+  })
+
+  it('should fall back to the default template for unknown ids', () => {
+    expect(getTemplate('bold').id).toBe('bold')
+    expect(getTemplate('missing').id).toBe('modern')
+    expect(getTemplate(undefined).id).toBe('modern')
+    expect(hasTemplate('toString')).toBe(false)
+  })
+})
+
+describe('Re-layout', () => {
+  const minimal = getTemplate('minimal')
+
+  it('should move objects into zones with the same role', () => {
+    const result = relayoutSlide(slide(SlideType.CONTENT, [text('Heading', 'header', 120), text('Body', 'body', 260)]), minimal)
+    const zones = minimal.layouts[SlideType.CONTENT].zones
+    const header = zones.find(zone => zone.id === 'header')
+    const body = zones.find(zone => zone.id === 'body')
+
+    expect(result.templateId).toBe('minimal')
+    expect(header).toBeDefined()
+    expect(body).toBeDefined()
+    expect(result.objects[0].coordinates).toEqual(header?.coordinates)
+    expect(result.objects[1].coordinates).toEqual(body?.coordinates)
+    expect(result.objects[0]).toMatchObject({ typographicRole: 'heading2', colorRole: 'heading', content: 'Heading' })
+  })
+
+  it('should stack several objects inside one zone in reading order', () => {
+    const bullets = [text('Second', 'bullets', 500), text('First', 'bullets', 300)]
+    const result = relayoutSlide(slide(SlideType.BULLETS, bullets), minimal)
+    const [second, first] = result.objects
+
+    expect(first.coordinates).toEqual({ x: 160, y: 270, width: 1600, height: 340 })
+    expect(second.coordinates).toEqual({ x: 160, y: 610, width: 1600, height: 340 })
+  })
+
+  it('should spread objects across zones that share a role', () => {
+    const columns = [text('Right', 'body', 260, 990), text('Left', 'body', 260, 120)]
+    const result = relayoutSlide(slide(SlideType.TWO_COLUMN, columns), getTemplate('bold'))
+
+    expect(result.objects[1].coordinates.x).toBe(80)
+    expect(result.objects[0].coordinates.x).toBe(980)
+  })
+
+  it('should use compatible zones when the role has none and leave shapes alone', () => {
+    const shape: ShapeObject = { id: 'shape', type: 'shape', shape: 'rectangle', coordinates: { x: 10, y: 10, width: 50, height: 50 } }
+    const result = relayoutSlide(slide(SlideType.BULLETS, [text('Title', 'title', 100), text('Body', 'body', 300), shape]), minimal)
+    const zones = minimal.layouts[SlideType.BULLETS].zones
+
+    expect(result.objects[0].coordinates).toEqual(zones[0].coordinates)
+    expect(result.objects[1].coordinates.y).toBe(270)
+    expect(result.objects[2]).toBe(shape)
+  })
+
+  it('should re-flow generated decks into another template without losing content', () => {
+    const slides = [
+      createSlideFromAIContent({ type: 'title', heading: 'Plan', subheading: '2026' }, 0),
+      createSlideFromAIContent({ type: 'threeImages', imageDescriptions: ['a', 'b', 'c'] }, 1),
+    ]
+    const elegant = getTemplate('elegant')
+    const result = relayoutPresentation(slides, elegant)
+    const imageZones = elegant.layouts[SlideType.THREE_IMAGES].zones
+
+    expect(result[0].objects.map(object => (object as TextObject).content)).toEqual(['Plan', '2026'])
+    expect(result[1].objects.map(object => object.coordinates)).toEqual(imageZones.map(zone => zone.coordinates))
+    expect(result.every(item => item.templateId === 'elegant')).toBe(true)
+  })
+})
@@ -0,0 +1,540 @@
+import { Template } from '@/lib/models/template';
+import { SlideType } from '@/lib/models/slide';
+
+/**
+ * Bold Template
+ * High-contrast layouts with edge-to-edge imagery for keynote-style decks
+ */
+export const boldTemplate: Template = {
+  id: 'bold',
+  name: 'Bold',
+  description: 'Large headings, full-bleed images and dark title slides',
+  author: 'Phoenix Web',
+  version: '1.0.0',
+  category: 'creative',
+  
+  // Default settings
+  defaultBackground: {
+    type: 'solid',
+    value: '#FFFFFF',
+  },
+  
+  defaultPadding: {
+    top: 60,
+    right: 80,
+    bottom: 60,
+    left: 80,
+  },
+  
+  defaultAlignment: {
+    horizontal: 'left',
+    vertical: 'top',
+  },
+  
+  // Global master elements (appear on all slides unless excluded)
+  globalMasterElements: [
+    {
+      id: 'logo',
+      type: 'logo',
+      coordinates: { x: 1720, y: 40, width: 150, height: 75 },
+      excludeFrom: [SlideType.TITLE, SlideType.SECTION, SlideType.IMAGE_WITH_TEXT, SlideType.THREE_IMAGES],
+    },
+    {
+      id: 'pageNumber',
+      type: 'pageNumber',
+      coordinates: { x: 1760, y: 1000, width: 120, height: 40 },
+      typographicRole: 'footnote',
+      colorRole: 'textLight',
+      excludeFrom: [SlideType.TITLE, SlideType.SECTION],
+    },
+  ],
+  
+  // Layouts for each slide type
+  layouts: {
+    [SlideType.TITLE]: {
+      slideType: SlideType.TITLE,
+      zones: [
+        {
+          id: 'title',
+          role: 'title',
+          coordinates: { x: 120, y: 300, width: 1680, height: 320 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'title',
+          defaultColorRole: 'textInverse',
+        },
+        {
+          id: 'subtitle',
+          role: 'subtitle',
+          coordinates: { x: 120, y: 660, width: 1680, height: 120 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'subtitle',
+          defaultColorRole: 'textInverse',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#1A1A2E',
+      },
+    },
+    
+    [SlideType.SECTION]: {
+      slideType: SlideType.SECTION,
+      zones: [
+        {
+          id: 'sectionTitle',
+          role: 'title',
+          coordinates: { x: 120, y: 400, width: 1680, height: 280 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'sectionHeader',
+          defaultColorRole: 'textInverse',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#1976D2',
+      },
+    },
+    
+    [SlideType.CONTENT]: {
+      slideType: SlideType.CONTENT,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 80, y: 240, width: 1760, height: 780 },
+          acceptedTypes: ['text', 'image', 'video', 'table', 'chart'],
+          required: true,
+          defaultTypographicRole: 'bodyLarge',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.BULLETS]: {
+      slideType: SlideType.BULLETS,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'bullets',
+          role: 'bullets',
+          coordinates: { x: 80, y: 240, width: 1760, height: 780 },
+          padding: { top: 20, right: 40, bottom: 20, left: 40 },
+          acceptedTypes: ['text'],
+          required: true,
+          maxItems: 5,
+          defaultTypographicRole: 'bullet',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE]: {
+      slideType: SlideType.IMAGE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 0, y: 220, width: 1920, height: 760 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 80, y: 1000, width: 1760, height: 60 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE_WITH_TEXT]: {
+      slideType: SlideType.IMAGE_WITH_TEXT,
+      zones: [
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 0, y: 0, width: 960, height: 1080 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 1040, y: 80, width: 800, height: 200 },
+          alignment: { horizontal: 'left', vertical: 'bottom' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 1040, y: 320, width: 800, height: 680 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'bodyLarge',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.TWO_COLUMN]: {
+      slideType: SlideType.TWO_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 80, y: 240, width: 860, height: 780 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 980, y: 240, width: 860, height: 780 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_COLUMN]: {
+      slideType: SlideType.THREE_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 80, y: 240, width: 560, height: 780 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'centerColumn',
+          role: 'body',
+          coordinates: { x: 680, y: 240, width: 560, height: 780 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 1280, y: 240, width: 560, height: 780 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_IMAGES]: {
+      slideType: SlideType.THREE_IMAGES,
+      zones: [
+        {
+          id: 'image1',
+          role: 'image',
+          coordinates: { x: 0, y: 0, width: 960, height: 1080 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image2',
+          role: 'image',
+          coordinates: { x: 960, y: 0, width: 960, height: 540 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image3',
+          role: 'image',
+          coordinates: { x: 960, y: 540, width: 960, height: 540 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.QUOTE]: {
+      slideType: SlideType.QUOTE,
+      zones: [
+        {
+          id: 'quote',
+          role: 'quote',
+          coordinates: { x: 160, y: 280, width: 1600, height: 400 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'quote',
+          defaultColorRole: 'textInverse',
+        },
+        {
+          id: 'citation',
+          role: 'citation',
+          coordinates: { x: 160, y: 720, width: 1600, height: 80 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'citation',
+          defaultColorRole: 'primaryLight',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#1A1A2E',
+      },
+    },
+    
+    [SlideType.COMPARISON]: {
+      slideType: SlideType.COMPARISON,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'leftTitle',
+          role: 'subtitle',
+          coordinates: { x: 80, y: 240, width: 860, height: 90 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'rightTitle',
+          role: 'subtitle',
+          coordinates: { x: 980, y: 240, width: 860, height: 90 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'secondary',
+        },
+        {
+          id: 'leftContent',
+          role: 'body',
+          coordinates: { x: 80, y: 350, width: 860, height: 670 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightContent',
+          role: 'body',
+          coordinates: { x: 980, y: 350, width: 860, height: 670 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.TIMELINE]: {
+      slideType: SlideType.TIMELINE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'timeline',
+          role: 'body',
+          coordinates: { x: 80, y: 240, width: 1760, height: 780 },
+          acceptedTypes: ['text', 'shape'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.CHART]: {
+      slideType: SlideType.CHART,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'chart',
+          role: 'chart',
+          coordinates: { x: 80, y: 240, width: 1760, height: 700 },
+          acceptedTypes: ['chart', 'image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 80, y: 960, width: 1760, height: 60 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.TABLE]: {
+      slideType: SlideType.TABLE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'table',
+          role: 'table',
+          coordinates: { x: 80, y: 240, width: 1760, height: 780 },
+          acceptedTypes: ['table'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.VIDEO]: {
+      slideType: SlideType.VIDEO,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 80, y: 60, width: 1760, height: 140 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'primary',
+        },
+        {
+          id: 'video',
+          role: 'video',
+          coordinates: { x: 0, y: 220, width: 1920, height: 760 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['video'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 80, y: 1000, width: 1760, height: 60 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.BLANK]: {
+      slideType: SlideType.BLANK,
+      zones: [],
+    },
+    
+    [SlideType.CUSTOM]: {
+      slideType: SlideType.CUSTOM,
+      zones: [
+        {
+          id: 'canvas',
+          role: 'body',
+          coordinates: { x: 0, y: 0, width: 1920, height: 1080 },
+          acceptedTypes: ['text', 'image', 'video', 'shape', 'table', 'chart'],
+          required: false,
+          editable: true,
+          resizable: true,
+          draggable: true,
+        },
+      ],
+    },
+  },
+};
@@ -0,0 +1,540 @@
+import { Template } from '@/lib/models/template';
+import { SlideType } from '@/lib/models/slide';
+
+/**
+ * Elegant Template
+ * Centered headings and balanced columns for formal presentations
+ */
+export const elegantTemplate: Template = {
+  id: 'elegant',
+  name: 'Elegant',
+  description: 'Centered, symmetric layouts on a warm off-white background',
+  author: 'Phoenix Web',
+  version: '1.0.0',
+  category: 'business',
+  
+  // Default settings
+  defaultBackground: {
+    type: 'solid',
+    value: '#FBFAF7',
+  },
+  
+  defaultPadding: {
+    top: 100,
+    right: 200,
+    bottom: 100,
+    left: 200,
+  },
+  
+  defaultAlignment: {
+    horizontal: 'center',
+    vertical: 'top',
+  },
+  
+  // Global master elements (appear on all slides unless excluded)
+  globalMasterElements: [
+    {
+      id: 'pageNumber',
+      type: 'pageNumber',
+      coordinates: { x: 900, y: 1010, width: 120, height: 40 },
+      typographicRole: 'footnote',
+      colorRole: 'textLight',
+      excludeFrom: [SlideType.TITLE, SlideType.SECTION],
+    },
+  ],
+  
+  // Layouts for each slide type
+  layouts: {
+    [SlideType.TITLE]: {
+      slideType: SlideType.TITLE,
+      zones: [
+        {
+          id: 'title',
+          role: 'title',
+          coordinates: { x: 240, y: 380, width: 1440, height: 200 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'title',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'subtitle',
+          role: 'subtitle',
+          coordinates: { x: 240, y: 620, width: 1440, height: 100 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'subtitle',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.SECTION]: {
+      slideType: SlideType.SECTION,
+      zones: [
+        {
+          id: 'sectionTitle',
+          role: 'title',
+          coordinates: { x: 240, y: 440, width: 1440, height: 200 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'sectionHeader',
+          defaultColorRole: 'primaryDark',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#F3EFE6',
+      },
+    },
+    
+    [SlideType.CONTENT]: {
+      slideType: SlideType.CONTENT,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 240, y: 290, width: 1440, height: 660 },
+          acceptedTypes: ['text', 'image', 'video', 'table', 'chart'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.BULLETS]: {
+      slideType: SlideType.BULLETS,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'bullets',
+          role: 'bullets',
+          coordinates: { x: 320, y: 290, width: 1280, height: 660 },
+          padding: { top: 20, right: 40, bottom: 20, left: 40 },
+          acceptedTypes: ['text'],
+          required: true,
+          maxItems: 6,
+          defaultTypographicRole: 'bullet',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE]: {
+      slideType: SlideType.IMAGE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 80, width: 1440, height: 90 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 240, y: 200, width: 1440, height: 740 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 240, y: 960, width: 1440, height: 60 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE_WITH_TEXT]: {
+      slideType: SlideType.IMAGE_WITH_TEXT,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 160, y: 290, width: 800, height: 660 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 1020, y: 290, width: 740, height: 660 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.TWO_COLUMN]: {
+      slideType: SlideType.TWO_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 200, y: 290, width: 720, height: 660 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 1000, y: 290, width: 720, height: 660 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_COLUMN]: {
+      slideType: SlideType.THREE_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 200, y: 290, width: 480, height: 660 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'centerColumn',
+          role: 'body',
+          coordinates: { x: 720, y: 290, width: 480, height: 660 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 1240, y: 290, width: 480, height: 660 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_IMAGES]: {
+      slideType: SlideType.THREE_IMAGES,
+      zones: [
+        {
+          id: 'image1',
+          role: 'image',
+          coordinates: { x: 160, y: 160, width: 520, height: 760 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image2',
+          role: 'image',
+          coordinates: { x: 700, y: 160, width: 520, height: 760 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image3',
+          role: 'image',
+          coordinates: { x: 1240, y: 160, width: 520, height: 760 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.QUOTE]: {
+      slideType: SlideType.QUOTE,
+      zones: [
+        {
+          id: 'quote',
+          role: 'quote',
+          coordinates: { x: 320, y: 340, width: 1280, height: 340 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'quote',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'citation',
+          role: 'citation',
+          coordinates: { x: 320, y: 720, width: 1280, height: 80 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'citation',
+          defaultColorRole: 'primaryDark',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#F3EFE6',
+      },
+    },
+    
+    [SlideType.COMPARISON]: {
+      slideType: SlideType.COMPARISON,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftTitle',
+          role: 'subtitle',
+          coordinates: { x: 200, y: 290, width: 720, height: 80 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading3',
+          defaultColorRole: 'primaryDark',
+        },
+        {
+          id: 'rightTitle',
+          role: 'subtitle',
+          coordinates: { x: 1000, y: 290, width: 720, height: 80 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading3',
+          defaultColorRole: 'primaryDark',
+        },
+        {
+          id: 'leftContent',
+          role: 'body',
+          coordinates: { x: 200, y: 390, width: 720, height: 560 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightContent',
+          role: 'body',
+          coordinates: { x: 1000, y: 390, width: 720, height: 560 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.TIMELINE]: {
+      slideType: SlideType.TIMELINE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'timeline',
+          role: 'body',
+          coordinates: { x: 240, y: 290, width: 1440, height: 660 },
+          acceptedTypes: ['text', 'shape'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.CHART]: {
+      slideType: SlideType.CHART,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'chart',
+          role: 'chart',
+          coordinates: { x: 240, y: 270, width: 1440, height: 660 },
+          acceptedTypes: ['chart', 'image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 240, y: 950, width: 1440, height: 60 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.TABLE]: {
+      slideType: SlideType.TABLE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 120, width: 1440, height: 110 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading1',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'table',
+          role: 'table',
+          coordinates: { x: 240, y: 290, width: 1440, height: 660 },
+          acceptedTypes: ['table'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.VIDEO]: {
+      slideType: SlideType.VIDEO,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 240, y: 80, width: 1440, height: 90 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'video',
+          role: 'video',
+          coordinates: { x: 240, y: 200, width: 1440, height: 740 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['video'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 240, y: 960, width: 1440, height: 60 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.BLANK]: {
+      slideType: SlideType.BLANK,
+      zones: [],
+    },
+    
+    [SlideType.CUSTOM]: {
+      slideType: SlideType.CUSTOM,
+      zones: [
+        {
+          id: 'canvas',
+          role: 'body',
+          coordinates: { x: 0, y: 0, width: 1920, height: 1080 },
+          acceptedTypes: ['text', 'image', 'video', 'shape', 'table', 'chart'],
+          required: false,
+          editable: true,
+          resizable: true,
+          draggable: true,
+        },
+      ],
+    },
+  },
+};
@@ -0,0 +1,216 @@
+import { Template, MasterElement, ImageDefinition } from '@/lib/models/template';
+import { SlideType } from '@/lib/models/slide';
+import { Coordinates, SLIDE_DIMENSIONS } from '@/lib/models/coordinates';
+import { TypographySet, TypographicRole, DEFAULT_TYPOGRAPHY_SET } from '@/lib/models/typography';
+import { ColorSet, ColorRole, DEFAULT_COLOR_SET, resolveColor } from '@/lib/models/colors';
+import { getTemplate } from './registry';
+
+/**
+ * Master Elements
+ * Decides which template master elements (logo, page number, date, footer,
+ * header, watermark) appear on a slide and resolves their text and style.
+ * Every surface (editor, presenter, PDF, PPTX) draws the same resolved list,
+ * so numbering and footers match everywhere.
+ *
+ * Text content may contain tokens:
+ *   {slideNumber}  1-based position in the deck
+ *   {totalSlides}  number of slides in the deck
+ *   {date}         presentation date (long format)
+ *   {title}        presentation title
+ */
+
+export interface MasterElementOptions {
+  template?: Template;          // Overrides registry lookup (e.g. unsaved templates)
+  templateId?: string;          // Used when a slide has no templateId
+  presentationTitle?: string;
+  date?: Date;
+  showSlideNumbers?: boolean;   // PresentationSettings.showSlideNumbers; false hides page numbers
+  logoUrl?: string;             // Fills logo slots that have no content of their own
+  typographySet?: TypographySet;
+  colorSet?: ColorSet;
+}
+
+export interface ResolvedMasterElement {
+  id: string;
+  type: MasterElement['type'];
+  coordinates: Coordinates;
+  text?: string;                // Token-substituted text
+  image?: ImageDefinition;      // Logos and image watermarks
+  fontFamily: string;
+  fontSize: number;             // Canvas pixels
+  fontWeight: number;
+  fontStyle?: string;
+  color: string;                // Hex or CSS color
+  align: 'left' | 'center' | 'right';
+  opacity: number;
+  rotation: number;
+}
+
+// Text used when an element has no content of its own
+const DEFAULT_CONTENT: Partial<Record<MasterElement['type'], string>> = {
+  pageNumber: '{slideNumber}',
+  date: '{date}',
+  footer: '{title}',
+};
+
+const DEFAULT_TYPOGRAPHIC_ROLES: Record<MasterElement['type'], TypographicRole> = {
+  logo: 'footnote',
+  pageNumber: 'pageNumber',
+  date: 'date',
+  footer: 'footer',
+  header: 'header',
+  watermark: 'watermark',
+};
+
+const DEFAULT_COLOR_ROLES: Record<MasterElement['type'], ColorRole> = {
+  logo: 'textLight',
+  pageNumber: 'textLight',
+  date: 'textLight',
+  footer: 'textLight',
+  header: 'textLight',
+  watermark: 'textLight',
+};
+
+// Watermarks sit behind content and are faint unless the template says otherwise
+const WATERMARK_OPACITY = 0.15;
+
+/**
+ * Check an element's visibility rules for a slide.
+ * Slide numbers are 1-based.
+ */
+export function isMasterElementVisible(
+  element: MasterElement,
+  slideType: string,
+  slideNumber: number
+): boolean {
+  if (element.visibleOn && !element.visibleOn.includes(slideType as SlideType)) {
+    return false;
+  }
+  if (element.excludeFrom?.includes(slideType as SlideType)) {
+    return false;
+  }
+  if (element.visibleOnSlides && !element.visibleOnSlides.includes(slideNumber)) {
+    return false;
+  }
+  if (element.excludeFromSlides?.includes(slideNumber)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Format a date the way master elements show it, e.g. "October 19, 2026"
+ */
+export function formatMasterDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Replace {slideNumber}, {totalSlides}, {date} and {title} tokens
+ */
+export function substituteTokens(
+  text: string,
+  values: { slideNumber: number; totalSlides: number; date: Date; title?: string }
+): string {
+  return text.replace(/\{(slideNumber|totalSlides|date|title)\}/g, (_match, token: string) => {
+    switch (token) {
+      case 'slideNumber':
+        return String(values.slideNumber);
+      case 'totalSlides':
+        return String(values.totalSlides);
+      case 'date':
+        return formatMasterDate(values.date);
+      default:
+        return values.title || '';
+    }
+  });
+}
+
+// Align text by where the element sits on the canvas
+function alignFor(coordinates: Coordinates): ResolvedMasterElement['align'] {
+  const center = coordinates.x + coordinates.width / 2;
+  if (center < SLIDE_DIMENSIONS.WIDTH / 3) {
+    return 'left';
+  }
+  if (center > (SLIDE_DIMENSIONS.WIDTH * 2) / 3) {
+    return 'right';
+  }
+  return 'center';
+}
+
+/**
+ * Resolve the master elements shown on one slide of a deck
+ */
+export function resolveMasterElements(
+  slide: { type: string; templateId?: string },
+  slideNumber: number,
+  totalSlides: number,
+  options: MasterElementOptions = {}
+): ResolvedMasterElement[] {
+  const template = options.template || getTemplate(slide.templateId || options.templateId);
+  const layout = template.layouts[slide.type as SlideType];
+  const typographySet = options.typographySet || DEFAULT_TYPOGRAPHY_SET;
+  const colorSet = options.colorSet || DEFAULT_COLOR_SET;
+  const date = options.date || new Date();
+
+  const elements = [
+    ...(template.globalMasterElements || []),
+    ...(layout?.masterElements || []),
+  ];
+
+  return elements
+    .filter(element => isMasterElementVisible(element, slide.type, slideNumber))
+    .filter(element => element.type !== 'pageNumber' || options.showSlideNumbers !== false)
+    .flatMap(element => {
+      const content = element.content
+        ?? (element.type === 'logo' ? options.logoUrl : DEFAULT_CONTENT[element.type]);
+      const image = typeof content === 'object'
+        ? content
+        : element.type === 'logo' && content
+          ? { url: content, fit: 'contain' as const }
+          : undefined;
+      const typography = typographySet.roles[element.typographicRole || DEFAULT_TYPOGRAPHIC_ROLES[element.type]]
+        || typographySet.roles.footnote;
+      let text = typeof content === 'string' && !image
+        ? substituteTokens(content, { slideNumber, totalSlides, date, title: options.presentationTitle })
+        : undefined;
+      if (text && typography.textTransform === 'uppercase') {
+        text = text.toUpperCase();
+      }
+
+      // Nothing to draw (e.g. a logo slot without a logo)
+      if (!image && !text) {
+        return [];
+      }
+
+      return [{
+        id: element.id,
+        type: element.type,
+        coordinates: element.coordinates,
+        text,
+        image,
+        fontFamily: Array.isArray(typography.fontFamily)
+          ? typography.fontFamily.join(', ')
+          : typography.fontFamily,
+        fontSize: typography.fontSize,
+        fontWeight: typography.fontWeight,
+        fontStyle: typography.fontStyle,
+        color: resolveColor(element.colorRole || DEFAULT_COLOR_ROLES[element.type], colorSet, '#666666'),
+        align: typography.textAlign === 'justify' || !typography.textAlign
+          ? alignFor(element.coordinates)
+          : typography.textAlign,
+        opacity: element.transform?.opacity ?? (element.type === 'watermark' ? WATERMARK_OPACITY : 1),
+        rotation: element.transform?.rotation || 0,
+      }];
+    });
+}
+
+/**
+ * Resolve master elements for every slide of a deck, in slide order
+ */
+export function resolveDeckMasterElements(
+  slides: Array<{ type: string; templateId?: string }>,
+  options: MasterElementOptions = {}
+): ResolvedMasterElement[][] {
+  return slides.map((slide, index) => resolveMasterElements(slide, index + 1, slides.length, options));
+}
@@ -0,0 +1,525 @@
+import { Template } from '@/lib/models/template';
+import { SlideType } from '@/lib/models/slide';
+
+/**
+ * Minimal Template
+ * Quiet, text-first layouts with wide margins and no logo
+ */
+export const minimalTemplate: Template = {
+  id: 'minimal',
+  name: 'Minimal',
+  description: 'Generous whitespace, left-aligned type and no decoration',
+  author: 'Phoenix Web',
+  version: '1.0.0',
+  category: 'minimal',
+  
+  // Default settings
+  defaultBackground: {
+    type: 'solid',
+    value: '#FFFFFF',
+  },
+  
+  defaultPadding: {
+    top: 120,
+    right: 160,
+    bottom: 120,
+    left: 160,
+  },
+  
+  defaultAlignment: {
+    horizontal: 'left',
+    vertical: 'top',
+  },
+  
+  // Global master elements (appear on all slides unless excluded)
+  globalMasterElements: [
+    {
+      id: 'pageNumber',
+      type: 'pageNumber',
+      coordinates: { x: 1640, y: 1000, width: 120, height: 40 },
+      typographicRole: 'footnote',
+      colorRole: 'textLight',
+      excludeFrom: [SlideType.TITLE, SlideType.SECTION],
+    },
+  ],
+  
+  // Layouts for each slide type
+  layouts: {
+    [SlideType.TITLE]: {
+      slideType: SlideType.TITLE,
+      zones: [
+        {
+          id: 'title',
+          role: 'title',
+          coordinates: { x: 160, y: 520, width: 1600, height: 200 },
+          alignment: { horizontal: 'left', vertical: 'bottom' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'title',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'subtitle',
+          role: 'subtitle',
+          coordinates: { x: 160, y: 740, width: 1600, height: 100 },
+          alignment: { horizontal: 'left', vertical: 'top' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'subtitle',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.SECTION]: {
+      slideType: SlideType.SECTION,
+      zones: [
+        {
+          id: 'sectionTitle',
+          role: 'title',
+          coordinates: { x: 160, y: 440, width: 1600, height: 200 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'sectionHeader',
+          defaultColorRole: 'text',
+        },
+      ],
+      background: {
+        type: 'solid',
+        value: '#FAFAFA',
+      },
+    },
+    
+    [SlideType.CONTENT]: {
+      slideType: SlideType.CONTENT,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 160, y: 260, width: 1600, height: 680 },
+          acceptedTypes: ['text', 'image', 'video', 'table', 'chart'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.BULLETS]: {
+      slideType: SlideType.BULLETS,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'bullets',
+          role: 'bullets',
+          coordinates: { x: 160, y: 260, width: 1600, height: 700 },
+          padding: { top: 10, right: 0, bottom: 10, left: 0 },
+          acceptedTypes: ['text'],
+          required: true,
+          maxItems: 5,
+          defaultTypographicRole: 'bullet',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE]: {
+      slideType: SlideType.IMAGE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 100, width: 1600, height: 80 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 160, y: 220, width: 1600, height: 740 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 160, y: 980, width: 1600, height: 50 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.IMAGE_WITH_TEXT]: {
+      slideType: SlideType.IMAGE_WITH_TEXT,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'body',
+          role: 'body',
+          coordinates: { x: 160, y: 260, width: 740, height: 680 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'image',
+          role: 'image',
+          coordinates: { x: 980, y: 260, width: 780, height: 680 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.TWO_COLUMN]: {
+      slideType: SlideType.TWO_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 160, y: 260, width: 760, height: 680 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 1000, y: 260, width: 760, height: 680 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_COLUMN]: {
+      slideType: SlideType.THREE_COLUMN,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftColumn',
+          role: 'body',
+          coordinates: { x: 160, y: 260, width: 490, height: 680 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'centerColumn',
+          role: 'body',
+          coordinates: { x: 715, y: 260, width: 490, height: 680 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightColumn',
+          role: 'body',
+          coordinates: { x: 1270, y: 260, width: 490, height: 680 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.THREE_IMAGES]: {
+      slideType: SlideType.THREE_IMAGES,
+      zones: [
+        {
+          id: 'image1',
+          role: 'image',
+          coordinates: { x: 160, y: 240, width: 506, height: 600 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image2',
+          role: 'image',
+          coordinates: { x: 707, y: 240, width: 506, height: 600 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+        {
+          id: 'image3',
+          role: 'image',
+          coordinates: { x: 1254, y: 240, width: 506, height: 600 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['image'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.QUOTE]: {
+      slideType: SlideType.QUOTE,
+      zones: [
+        {
+          id: 'quote',
+          role: 'quote',
+          coordinates: { x: 160, y: 320, width: 1600, height: 340 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: true,
+          defaultTypographicRole: 'quote',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'citation',
+          role: 'citation',
+          coordinates: { x: 160, y: 700, width: 1600, height: 80 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'citation',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.COMPARISON]: {
+      slideType: SlideType.COMPARISON,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'leftTitle',
+          role: 'subtitle',
+          coordinates: { x: 160, y: 260, width: 760, height: 70 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading3',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightTitle',
+          role: 'subtitle',
+          coordinates: { x: 1000, y: 260, width: 760, height: 70 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading3',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'leftContent',
+          role: 'body',
+          coordinates: { x: 160, y: 350, width: 760, height: 590 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+        {
+          id: 'rightContent',
+          role: 'body',
+          coordinates: { x: 1000, y: 350, width: 760, height: 590 },
+          acceptedTypes: ['text', 'image'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.TIMELINE]: {
+      slideType: SlideType.TIMELINE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'timeline',
+          role: 'body',
+          coordinates: { x: 160, y: 260, width: 1600, height: 680 },
+          acceptedTypes: ['text', 'shape'],
+          required: true,
+          defaultTypographicRole: 'body',
+          defaultColorRole: 'text',
+        },
+      ],
+    },
+    
+    [SlideType.CHART]: {
+      slideType: SlideType.CHART,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'chart',
+          role: 'chart',
+          coordinates: { x: 160, y: 240, width: 1600, height: 700 },
+          acceptedTypes: ['chart', 'image'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 160, y: 960, width: 1600, height: 50 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.TABLE]: {
+      slideType: SlideType.TABLE,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 120, width: 1600, height: 90 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'table',
+          role: 'table',
+          coordinates: { x: 160, y: 260, width: 1600, height: 700 },
+          acceptedTypes: ['table'],
+          required: true,
+        },
+      ],
+    },
+    
+    [SlideType.VIDEO]: {
+      slideType: SlideType.VIDEO,
+      zones: [
+        {
+          id: 'header',
+          role: 'header',
+          coordinates: { x: 160, y: 100, width: 1600, height: 80 },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'heading2',
+          defaultColorRole: 'heading',
+        },
+        {
+          id: 'video',
+          role: 'video',
+          coordinates: { x: 160, y: 220, width: 1600, height: 740 },
+          alignment: { horizontal: 'center', vertical: 'middle' },
+          acceptedTypes: ['video'],
+          required: true,
+        },
+        {
+          id: 'caption',
+          role: 'caption',
+          coordinates: { x: 160, y: 980, width: 1600, height: 50 },
+          alignment: { horizontal: 'left', vertical: 'middle' },
+          acceptedTypes: ['text'],
+          required: false,
+          defaultTypographicRole: 'caption',
+          defaultColorRole: 'textLight',
+        },
+      ],
+    },
+    
+    [SlideType.BLANK]: {
+      slideType: SlideType.BLANK,
+      zones: [],
+    },
+    
+    [SlideType.CUSTOM]: {
+      slideType: SlideType.CUSTOM,
+      zones: [
+        {
+          id: 'canvas',
+          role: 'body',
+          coordinates: { x: 0, y: 0, width: 1920, height: 1080 },
+          acceptedTypes: ['text', 'image', 'video', 'shape', 'table', 'chart'],
+          required: false,
+          editable: true,
+          resizable: true,
+          draggable: true,
+        },
+      ],
+    },
+  },
+};
@@ -0,0 +1,399 @@
+import { Slide, TextObject } from '@/lib/models/slide';
+import { Coordinates } from '@/lib/models/coordinates';
+import { Template, TemplateZone, ContentRole, OverflowBehavior } from '@/lib/models/template';
+import { TypographySet, TypographicRole, LineHeight, DEFAULT_TYPOGRAPHY_SET } from '@/lib/models/typography';
+import { getTemplate } from './registry';
+
+/**
+ * Text Overflow
+ * Measures text against the content box (coordinates minus padding) of the
+ * template zone it sits in and applies the zone's OverflowBehavior.
+ * Measurement estimates glyph widths, like table row heights, so the editor,
+ * the presenter and the PDF/PPTX exports fit text the same way without a DOM.
+ *
+ *   shrink    font size steps down to the typography role's minFontSize
+ *   paginate  content continues on extra slides (fitSlideText)
+ *   hidden    clipped; exports drop the lines that don't fit
+ *   ellipsis  clipped with "…"
+ *   scroll / visible  left as is
+ */
+
+export const TEXT_METRICS = {
+  charWidthRatio: 0.52,   // Average glyph width as a fraction of font size
+  lineHeight: 1.5,        // Used when the typography role has none
+  minShrinkRatio: 0.6,    // Font floor when the typography role has no minFontSize
+};
+
+// Behavior for zones that don't set one
+const DEFAULT_OVERFLOW: Partial<Record<ContentRole, OverflowBehavior>> = {
+  title: 'shrink',
+  subtitle: 'shrink',
+  header: 'shrink',
+  body: 'shrink',
+  quote: 'shrink',
+  bullets: 'paginate',
+  citation: 'ellipsis',
+  caption: 'ellipsis',
+  footer: 'ellipsis',
+};
+
+// Typography role for text that has no typographicRole of its own
+const ROLE_TYPOGRAPHY: Partial<Record<ContentRole, TypographicRole>> = {
+  title: 'title',
+  subtitle: 'subtitle',
+  header: 'heading1',
+  body: 'body',
+  bullets: 'bullet',
+  quote: 'quote',
+  citation: 'citation',
+  caption: 'caption',
+  footer: 'footer',
+};
+
+const NAMED_LINE_HEIGHTS: Record<Exclude<LineHeight, number>, number> = {
+  none: 1,
+  tight: 1.25,
+  snug: 1.375,
+  normal: 1.5,
+  relaxed: 1.625,
+  loose: 2,
+};
+
+export interface TextFitOptions {
+  template?: Template;          // Overrides registry lookup (e.g. unsaved templates)
+  templateId?: string;          // Used when a slide has no templateId
+  typographySet?: TypographySet;
+}
+
+export interface TextStyle {
+  fontSize: number;             // Canvas pixels
+  lineHeight?: LineHeight;
+  minFontSize?: number;         // Floor for 'shrink'
+}
+
+export interface TextFit {
+  behavior: OverflowBehavior;
+  box: Coordinates;             // Area the text must fit in (canvas pixels)
+  fontSize: number;             // Smaller than requested only for 'shrink'
+  lineHeight: number;
+  lines: string[];              // Wrapped lines at the fitted size
+  maxLines: number;             // Lines that fit in the box
+  overflows: boolean;           // Still too tall after fitting
+}
+
+/**
+ * Convert a typography line height to a multiplier
+ */
+export function resolveLineHeight(lineHeight?: LineHeight): number {
+  if (typeof lineHeight === 'number') {
+    return lineHeight;
+  }
+  return lineHeight ? NAMED_LINE_HEIGHTS[lineHeight] : TEXT_METRICS.lineHeight;
+}
+
+/**
+ * Word-wrap text into lines for a box width. Explicit line breaks are
+ * kept and words longer than a line are broken.
+ */
+export function wrapText(text: string, fontSize: number, width: number): string[] {
+  const charsPerLine = Math.max(1, Math.floor(width / (fontSize * TEXT_METRICS.charWidthRatio)));
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      for (let start = 0; start < word.length; start += charsPerLine) {
+        const part = word.slice(start, start + charsPerLine);
+        const candidate = line && start === 0 ? `${line} ${part}` : line + part;
+        if (candidate.length <= charsPerLine) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = part;
+        }
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+/**
+ * A zone's coordinates minus its padding
+ */
+export function getZoneContentBox(zone: TemplateZone): Coordinates {
+  const padding = zone.padding || { top: 0, right: 0, bottom: 0, left: 0 };
+  return {
+    x: zone.coordinates.x + padding.left,
+    y: zone.coordinates.y + padding.top,
+    width: Math.max(1, zone.coordinates.width - padding.left - padding.right),
+    height: Math.max(1, zone.coordinates.height - padding.top - padding.bottom),
+  };
+}
+
+/**
+ * Find the template zone a text object sits in: a zone with the object's
+ * role that contains its center, then any zone with its role, then any
+ * text zone that contains its center.
+ */
+export function findTextZone(
+  slide: { type: string; templateId?: string },
+  object: TextObject,
+  options: TextFitOptions = {}
+): TemplateZone | undefined {
+  const template = options.template || getTemplate(slide.templateId || options.templateId);
+  const zones = (template.layouts[slide.type as keyof Template['layouts']]?.zones || [])
+    .filter(zone => zone.acceptedTypes.includes('text'));
+
+  const centerX = object.coordinates.x + object.coordinates.width / 2;
+  const centerY = object.coordinates.y + object.coordinates.height / 2;
+  const contains = (zone: TemplateZone) =>
+    centerX >= zone.coordinates.x && centerX <= zone.coordinates.x + zone.coordinates.width &&
+    centerY >= zone.coordinates.y && centerY <= zone.coordinates.y + zone.coordinates.height;
+
+  return zones.find(zone => zone.role === object.role && contains(zone))
+    || zones.find(zone => zone.role === object.role)
+    || zones.find(contains);
+}
+
+/**
+ * Measure text in a box and apply an overflow behavior
+ */
+export function fitText(
+  text: string,
+  style: TextStyle,
+  box: Coordinates,
+  behavior: OverflowBehavior
+): TextFit {
+  const lineHeight = resolveLineHeight(style.lineHeight);
+  const heightAt = (size: number, lines: string[]) => lines.length * size * lineHeight;
+
+  let fontSize = style.fontSize;
+  let lines = wrapText(text, fontSize, box.width);
+
+  if (behavior === 'shrink') {
+    const floor = Math.min(
+      style.fontSize,
+      style.minFontSize ?? Math.round(style.fontSize * TEXT_METRICS.minShrinkRatio)
+    );
+    while (heightAt(fontSize, lines) > box.height && fontSize > floor) {
+      fontSize = Math.max(floor, fontSize - 1);
+      lines = wrapText(text, fontSize, box.width);
+    }
+  }
+
+  return {
+    behavior,
+    box,
+    fontSize,
+    lineHeight,
+    lines,
+    maxLines: Math.max(1, Math.floor(box.height / (fontSize * lineHeight))),
+    overflows: heightAt(fontSize, lines) > box.height,
+  };
+}
+
+// Font size, line height and floor from the object's typography role
+function resolveTextStyle(
+  object: TextObject,
+  zone: TemplateZone | undefined,
+  typographySet: TypographySet
+): TextStyle {
+  const role = object.typographicRole || zone?.defaultTypographicRole || ROLE_TYPOGRAPHY[object.role] || 'body';
+  const typography = typographySet.roles[role] || typographySet.roles.body;
+  return {
+    fontSize: object.customStyles?.fontSize || typography.fontSize,
+    lineHeight: typography.lineHeight,
+    minFontSize: typography.minFontSize,
+  };
+}
+
+/**
+ * Fit a text object into its zone. Renderers pass the style they draw with;
+ * otherwise it comes from the typography set.
+ */
+export function fitTextObject(
+  slide: { type: string; templateId?: string },
+  object: TextObject,
+  options: TextFitOptions = {},
+  style?: TextStyle
+): TextFit {
+  const zone = findTextZone(slide, object, options);
+  const box = zone ? getZoneContentBox(zone) : object.coordinates;
+  const behavior = zone?.overflow || DEFAULT_OVERFLOW[object.role] || 'hidden';
+
+  return fitText(
+    object.content,
+    style || resolveTextStyle(object, zone, options.typographySet || DEFAULT_TYPOGRAPHY_SET),
+    box,
+    behavior
+  );
+}
+
+/**
+ * Split text into pages that each fit in a box. Paragraphs stay whole
+ * unless a single paragraph is taller than a page.
+ */
+export function paginateText(text: string, style: TextStyle, box: Coordinates): string[] {
+  const lineHeight = resolveLineHeight(style.lineHeight);
+  const maxLines = Math.max(1, Math.floor(box.height / (style.fontSize * lineHeight)));
+
+  const pages: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+
+  text.split('\n').forEach(paragraph => {
+    const lines = wrapText(paragraph, style.fontSize, box.width);
+
+    if (used + lines.length <= maxLines) {
+      current.push(paragraph);
+      used += lines.length;
+      return;
+    }
+
+    if (current.length > 0) {
+      pages.push(current);
+      current = [];
+      used = 0;
+    }
+
+    for (let start = 0; start < lines.length; start += maxLines) {
+      const chunk = lines.slice(start, start + maxLines);
+      if (chunk.length === maxLines && start + maxLines < lines.length) {
+        pages.push([chunk.join(' ')]);
+      } else {
+        current = [chunk.join(' ')];
+        used = chunk.length;
+      }
+    }
+  });
+
+  if (current.length > 0) {
+    pages.push(current);
+  }
+
+  return pages.length > 0 ? pages.map(page => page.join('\n')) : [text];
+}
+
+/**
+ * Cut text down to the lines that fit, optionally ending with "…"
+ */
+export function truncateText(text: string, fit: TextFit, ellipsis: boolean): string {
+  const kept: string[] = [];
+  let remaining = fit.maxLines;
+
+  for (const paragraph of text.split('\n')) {
+    const lines = wrapText(paragraph, fit.fontSize, fit.box.width);
+    if (lines.length <= remaining) {
+      kept.push(paragraph);
+      remaining -= lines.length;
+      continue;
+    }
+    if (remaining > 0) {
+      kept.push(lines.slice(0, remaining).join(' '));
+    }
+    const result = kept.join('\n');
+    return ellipsis ? `${result.replace(/\s*\S?$/, '')}…` : result;
+  }
+
+  return text;
+}
+
+/**
+ * Apply overflow behaviors to every text object of a slide, for surfaces
+ * that draw static output (PDF, PPTX, presenter). Text gets the size it
+ * was measured at in customStyles.fontSize, clipped text is truncated and
+ * paginated text continues on extra slides, which repeat the title/header
+ * marked "(cont.)".
+ */
+export function fitSlideText(slide: Slide, options: TextFitOptions = {}): Slide[] {
+  const fitted = new Map<string, TextObject>();
+  const paged = new Map<string, TextObject[]>();
+
+  slide.objects.forEach(obj => {
+    if (obj.type !== 'text' || obj.visible === false) {
+      return;
+    }
+
+    const fit = fitTextObject(slide, obj, options);
+    const sized: TextObject = { ...obj, customStyles: { ...obj.customStyles, fontSize: fit.fontSize } };
+
+    if (fit.overflows && (fit.behavior === 'hidden' || fit.behavior === 'ellipsis')) {
+      fitted.set(obj.id, { ...sized, content: truncateText(obj.content, fit, fit.behavior === 'ellipsis') });
+    } else if (fit.overflows && fit.behavior === 'paginate') {
+      const pages = paginateText(obj.content, { fontSize: fit.fontSize, lineHeight: fit.lineHeight }, fit.box);
+      paged.set(obj.id, pages.map((content, pageIndex) => ({
+        ...sized,
+        id: pageIndex === 0 ? obj.id : `${obj.id}-cont-${pageIndex}`,
+        content,
+      })));
+    } else {
+      fitted.set(obj.id, sized);
+    }
+  });
+
+  const firstPage: Slide = {
+    ...slide,
+    objects: slide.objects.map(obj => paged.get(obj.id)?.[0] || fitted.get(obj.id) || obj),
+  };
+
+  if (paged.size === 0) {
+    return [firstPage];
+  }
+
+  const pageCount = Math.max(...Array.from(paged.values()).map(pages => pages.length));
+  const headings = firstPage.objects.filter(
+    (obj): obj is TextObject => obj.type === 'text' && (obj.role === 'title' || obj.role === 'header')
+  );
+
+  return [
+    firstPage,
+    ...Array.from({ length: pageCount - 1 }, (_, i) => {
+      const pageIndex = i + 1;
+      const texts = Array.from(paged.values())
+        .map(pages => pages[pageIndex])
+        .filter((page): page is TextObject => !!page);
+
+      return {
+        ...slide,
+        id: `${slide.id}-cont-${pageIndex}`,
+        objects: [
+          ...headings.map(heading => ({
+            ...heading,
+            id: `${heading.id}-cont-${pageIndex}`,
+            content: `${heading.content} (cont.)`,
+          })),
+          ...texts,
+        ],
+        notes: undefined,
+        animations: undefined,
+      };
+    }),
+  ];
+}
+
+/**
+ * The slide a continuation slide from fitSlideText (or a paginated table)
+ * was split from; other ids are returned as they are
+ */
+export function sourceSlideId(slideId: string): string {
+  return slideId.replace(/-cont-\d+$/, '');
+}
+
+/**
+ * What a live renderer should draw for a fitted text: clipped behaviors
+ * show the truncated text, and the CSS overflow to put on the container
+ */
+export function getTextDisplay(content: string, fit: TextFit): { content: string; overflow: 'hidden' | 'auto' | 'visible' } {
+  if (fit.behavior === 'scroll') {
+    return { content, overflow: 'auto' };
+  }
+  if (fit.behavior === 'visible') {
+    return { content, overflow: 'visible' };
+  }
+  if (fit.overflows && (fit.behavior === 'hidden' || fit.behavior === 'ellipsis')) {
+    return { content: truncateText(content, fit, fit.behavior === 'ellipsis'), overflow: 'hidden' };
+  }
+  return { content, overflow: 'hidden' };
+}
@@ -0,0 +1,44 @@
+import { Template } from '@/lib/models/template';
+import { modernTemplate } from './modern';
+import { minimalTemplate } from './minimal';
+import { boldTemplate } from './bold';
+import { elegantTemplate } from './elegant';
+
+/**
+ * Template Registry
+ * All shipped templates, keyed by id. Templates share zone ids
+ * (header, body, leftColumn, image1...) so slides built for one
+ * template can be re-laid out into another.
+ */
+
+export const DEFAULT_TEMPLATE_ID = 'modern';
+
+const TEMPLATES: Record<string, Template> = {
+  [modernTemplate.id]: modernTemplate,
+  [minimalTemplate.id]: minimalTemplate,
+  [boldTemplate.id]: boldTemplate,
+  [elegantTemplate.id]: elegantTemplate,
+};
+
+/**
+ * Get a template by id, falling back to the default template
+ */
+export function getTemplate(templateId?: string): Template {
+  return templateId && hasTemplate(templateId)
+    ? TEMPLATES[templateId]
+    : TEMPLATES[DEFAULT_TEMPLATE_ID];
+}
+
+/**
+ * Check whether a template id is registered
+ */
+export function hasTemplate(templateId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(TEMPLATES, templateId);
+}
+
+/**
+ * List all registered templates in display order
+ */
+export function listTemplates(): Template[] {
+  return Object.values(TEMPLATES);
+}
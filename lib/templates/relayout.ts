@@ -0,0 +1,193 @@
+import { SlideType, SlideObjectUnion } from '@/lib/models/slide';
+import { Template, TemplateZone, ContentRole } from '@/lib/models/template';
+import { Coordinates } from '@/lib/models/coordinates';
+
+/**
+ * Re-layout
+ * Moves the objects of an existing slide into the zones of another template
+ * by matching each object's ContentRole to a zone role, so a deck can change
+ * its look without being regenerated. Objects without a matching zone (and
+ * shapes, which carry no role) keep their position.
+ */
+
+// Zone roles to try, in order, when a layout has no zone for an object's own role
+const ROLE_FALLBACKS: Partial<Record<ContentRole, ContentRole[]>> = {
+  title: ['header', 'subtitle'],
+  header: ['title', 'subtitle'],
+  subtitle: ['header', 'body'],
+  body: ['bullets', 'quote'],
+  bullets: ['body'],
+  quote: ['body'],
+  citation: ['caption', 'subtitle', 'body'],
+  caption: ['citation', 'body'],
+  image: ['chart', 'body'],
+  chart: ['image', 'body'],
+  table: ['body'],
+  video: ['image', 'body'],
+};
+
+// Free-form layouts keep objects where the author put them
+const FREEFORM_TYPES: string[] = [SlideType.BLANK, SlideType.CUSTOM];
+
+// Anything slide-shaped: stored slides and the editor's simplified slides
+type RelayoutSlide = { type: string; objects?: SlideObjectUnion[]; templateId?: string };
+
+/**
+ * The content role an object plays on a slide
+ */
+export function getObjectContentRole(object: SlideObjectUnion): ContentRole | undefined {
+  switch (object.type) {
+    case 'text':
+      return object.role;
+    case 'image':
+    case 'video':
+    case 'table':
+    case 'chart':
+      return object.type;
+    default:
+      return undefined;
+  }
+}
+
+function acceptsObject(zone: TemplateZone, object: SlideObjectUnion): boolean {
+  return zone.acceptedTypes.includes(object.type);
+}
+
+// Reading order: top to bottom, then left to right
+function byReadingOrder(a: SlideObjectUnion, b: SlideObjectUnion): number {
+  return a.coordinates.y - b.coordinates.y || a.coordinates.x - b.coordinates.x;
+}
+
+// Column order: left to right, then top to bottom
+function byColumnOrder(a: SlideObjectUnion, b: SlideObjectUnion): number {
+  return a.coordinates.x - b.coordinates.x || a.coordinates.y - b.coordinates.y;
+}
+
+/**
+ * Split a zone's content area vertically between its objects, keeping their
+ * relative heights
+ */
+function stackInZone(zone: TemplateZone, objects: SlideObjectUnion[]): Map<string, Coordinates> {
+  const { x, y, width, height } = zone.coordinates;
+  const padding = zone.padding || { top: 0, right: 0, bottom: 0, left: 0 };
+  const inner = {
+    x: x + padding.left,
+    y: y + padding.top,
+    width: width - padding.left - padding.right,
+    height: height - padding.top - padding.bottom,
+  };
+
+  const totalHeight = objects.reduce((sum, object) => sum + Math.max(object.coordinates.height, 1), 0);
+  const placements = new Map<string, Coordinates>();
+  let offset = 0;
+
+  [...objects].sort(byReadingOrder).forEach(object => {
+    const share = Math.round(inner.height * Math.max(object.coordinates.height, 1) / totalHeight);
+    placements.set(object.id, { x: inner.x, y: inner.y + offset, width: inner.width, height: share });
+    offset += share;
+  });
+
+  return placements;
+}
+
+/**
+ * Re-flow a slide's objects into the zones of the given template.
+ * The slide keeps its type, content and ids; only positions, template
+ * typography/color roles and the template reference change.
+ */
+export function relayoutSlide<T extends RelayoutSlide>(slide: T, template: Template): T {
+  const layout = template.layouts[slide.type as SlideType] || template.layouts[SlideType.CONTENT];
+
+  const sourceObjects = slide.objects || [];
+
+  if (FREEFORM_TYPES.includes(slide.type) || layout.zones.length === 0) {
+    return { ...slide, templateId: template.id, updatedAt: new Date() };
+  }
+
+  const assignments = new Map<TemplateZone, SlideObjectUnion[]>();
+  const assign = (zone: TemplateZone, objects: SlideObjectUnion[]) => {
+    assignments.set(zone, [...(assignments.get(zone) || []), ...objects]);
+  };
+
+  // Group objects by role and type, e.g. all bullet texts or all images
+  const groups = new Map<string, SlideObjectUnion[]>();
+  sourceObjects.forEach(object => {
+    const role = getObjectContentRole(object);
+    if (role) {
+      const key = `${role}:${object.type}`;
+      groups.set(key, [...(groups.get(key) || []), object]);
+    }
+  });
+
+  const pending: Array<[ContentRole, SlideObjectUnion[]]> = [];
+
+  // First pass: zones with the object's own role. Several zones with the
+  // same role (columns, image1-3) share the objects in column order.
+  groups.forEach(objects => {
+    const role = getObjectContentRole(objects[0]) as ContentRole;
+    const zones = layout.zones.filter(zone => zone.role === role && acceptsObject(zone, objects[0]));
+
+    if (zones.length === 0) {
+      pending.push([role, objects]);
+      return;
+    }
+
+    const ordered = zones.length > 1 ? [...objects].sort(byColumnOrder) : objects;
+    zones.forEach((zone, index) => {
+      const start = Math.floor(index * ordered.length / zones.length);
+      const end = Math.floor((index + 1) * ordered.length / zones.length);
+      if (end > start) {
+        assign(zone, ordered.slice(start, end));
+      }
+    });
+  });
+
+  // Second pass: fallback roles, preferring zones that are still empty
+  pending.forEach(([role, objects]) => {
+    const candidates = (ROLE_FALLBACKS[role] || []).flatMap(fallback =>
+      layout.zones.filter(zone => zone.role === fallback && acceptsObject(zone, objects[0]))
+    );
+    const zone = candidates.find(candidate => !assignments.has(candidate)) || candidates[0];
+    if (zone) {
+      assign(zone, objects);
+    }
+  });
+
+  // Place objects and apply the zone's styling hints to text
+  const placed = new Map<string, { zone: TemplateZone; coordinates: Coordinates }>();
+  assignments.forEach((objects, zone) => {
+    stackInZone(zone, objects).forEach((coordinates, id) => placed.set(id, { zone, coordinates }));
+  });
+
+  const objects = sourceObjects.map(object => {
+    const placement = placed.get(object.id);
+    if (!placement) {
+      return object;
+    }
+
+    const { zone, coordinates } = placement;
+    if (object.type === 'text') {
+      return {
+        ...object,
+        coordinates,
+        ...(zone.defaultTypographicRole && { typographicRole: zone.defaultTypographicRole }),
+        ...(zone.defaultColorRole && { colorRole: zone.defaultColorRole }),
+      };
+    }
+    return { ...object, coordinates };
+  });
+
+  return {
+    ...slide,
+    objects,
+    templateId: template.id,
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Re-flow every slide of a presentation into the given template
+ */
+export function relayoutPresentation<T extends RelayoutSlide>(slides: T[], template: Template): T[] {
+  return slides.map(slide => relayoutSlide(slide, template));
+}
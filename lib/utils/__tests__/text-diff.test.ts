@@ -0,0 +1,20 @@
+import { diffWords } from '../text-diff'
+
+describe('Text Diff', () => {
+  it('should mark removed and added words and rebuild both sides', () => {
+    const before = 'The moon pulls the oceans every day'
+    const after = 'The moon gently pulls oceans every day'
+    const parts = diffWords(before, after)
+
+    expect(parts).toEqual([
+      { type: 'same', text: 'The moon ' },
+      { type: 'added', text: 'gently ' },
+      { type: 'same', text: 'pulls ' },
+      { type: 'removed', text: 'the ' },
+      { type: 'same', text: 'oceans every day' },
+    ])
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before)
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after)
+    expect(diffWords('', 'New')).toEqual([{ type: 'added', text: 'New' }])
+  })
+})
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import type { AISlideContent } from '@/lib/server/slide-converter';
+
+/**
+ * AI slide response validation
+ * Models answer in several shapes: the current prompt's fields (heading,
+ * bullets, body...), the older "rich" shape (title, leftBullets,
+ * imagePrompts, bestSlideType...) and assorted near misses (a bullet list as
+ * one string, "two-column" for twoColumn). normalizeAISlide folds all of
+ * them into the slide converter's AISlideContent; AISlideSchema then checks
+ * that each slide has what its layout needs. Slides that still fail are
+ * reported with readable issues so they can be sent back for repair.
+ */
+
+export const AI_SLIDE_TYPES = [
+  'title',
+  'section',
+  'bullets',
+  'content',
+  'image',
+  'imageWithText',
+  'threeImages',
+  'twoColumn',
+  'comparison',
+  'quote',
+  'timeline',
+  'chart',
+  'table',
+] as const;
+
+export type AISlideType = typeof AI_SLIDE_TYPES[number];
+
+// Lower-cased, punctuation-free spellings of each type
+const TYPE_ALIASES: Record<string, AISlideType> = {
+  titleslide: 'title',
+  cover: 'title',
+  sectionheader: 'section',
+  divider: 'section',
+  bullet: 'bullets',
+  bulletpoints: 'bullets',
+  list: 'bullets',
+  text: 'content',
+  paragraph: 'content',
+  singleimage: 'image',
+  imagetext: 'imageWithText',
+  images: 'threeImages',
+  gallery: 'threeImages',
+  twocolumns: 'twoColumn',
+  columns: 'twoColumn',
+  compare: 'comparison',
+};
+
+// Types the converter renders as heading + body
+const BODY_TYPES: AISlideType[] = ['content', 'comparison', 'timeline', 'chart', 'table'];
+const MIN_THREE_IMAGES = 3;
+
+const stringList = z.array(z.string().min(1));
+
+export const AISlideSchema = z.object({
+  type: z.enum(AI_SLIDE_TYPES),
+  heading: z.string().min(1).max(300).optional(),
+  subheading: z.string().optional(),
+  bullets: stringList.optional(),
+  body: z.string().optional(),
+  imageDescriptions: stringList.optional(),
+  imageUrls: z.array(z.string()).optional(),
+  quote: z.string().optional(),
+  citation: z.string().optional(),
+  leftContent: z.union([z.string(), stringList]).optional(),
+  rightContent: z.union([z.string(), stringList]).optional(),
+  notes: z.string().optional(),
+  sources: z.array(z.string()).optional(),
+}).superRefine((slide, ctx) => {
+  const need = (ok: boolean, path: string, message: string) => {
+    if (!ok) {
+      ctx.addIssue({ code: 'custom', path: [path], message });
+    }
+  };
+
+  need(slide.type === 'quote' || !!slide.heading, 'heading', 'Every slide needs a heading');
+  if (slide.type === 'bullets') {
+    need(!!slide.bullets?.length, 'bullets', 'Bullet slides need a non-empty bullets array');
+  } else if (BODY_TYPES.includes(slide.type)) {
+    need(!!slide.body, 'body', `${slide.type} slides need body text`);
+  } else if (slide.type === 'image' || slide.type === 'imageWithText') {
+    need(!!slide.imageDescriptions?.length, 'imageDescriptions', 'Image slides need at least one image description');
+  } else if (slide.type === 'threeImages') {
+    need(
+      (slide.imageDescriptions?.length || 0) >= MIN_THREE_IMAGES,
+      'imageDescriptions',
+      `threeImages slides need ${MIN_THREE_IMAGES} image descriptions`
+    );
+  } else if (slide.type === 'twoColumn') {
+    need(!!slide.leftContent?.length, 'leftContent', 'Two-column slides need leftContent');
+    need(!!slide.rightContent?.length, 'rightContent', 'Two-column slides need rightContent');
+  } else if (slide.type === 'quote') {
+    need(!!slide.quote, 'quote', 'Quote slides need the quote text');
+  }
+});
+
+export const AIPresentationSchema = z.object({
+  title: z.string().min(1),
+  subtitle: z.string().optional(),
+  slides: z.array(z.unknown()),
+});
+
+export type AISlideValidation =
+  | { success: true; slide: AISlideContent }
+  | { success: false; issues: string[] };
+
+type RawSlide = Record<string, unknown>;
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as RawSlide;
+    return text(object.text ?? object.content ?? object.description ?? object.prompt);
+  }
+  return undefined;
+}
+
+// A list given as an array, a newline-separated string or a single value,
+// without bullet markers (the converter adds its own)
+function list(value: unknown): string[] | undefined {
+  const items = Array.isArray(value)
+    ? value.map(text)
+    : typeof value === 'string'
+      ? value.split(/\n+/)
+      : [text(value)];
+  const cleaned = items
+    .map(item => item?.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter((item): item is string => !!item);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function first<T>(...values: (T | undefined)[]): T | undefined {
+  return values.find(value => value !== undefined);
+}
+
+function slideType(raw: RawSlide, content: Omit<AISlideContent, 'type'>): AISlideType {
+  const named = text(raw.type) ?? text(raw.bestSlideType) ?? text(raw.slideType) ?? text(raw.layout);
+  if (named) {
+    const exact = AI_SLIDE_TYPES.find(type => type === named);
+    const key = named.toLowerCase().replace(/[^a-z]/g, '');
+    const match = exact
+      || AI_SLIDE_TYPES.find(type => type.toLowerCase() === key)
+      || TYPE_ALIASES[key];
+    if (match) {
+      return match;
+    }
+  }
+  // No usable type: go by the content
+  if (content.quote) {
+    return 'quote';
+  }
+  if (content.leftContent && content.rightContent) {
+    return 'twoColumn';
+  }
+  return content.bullets ? 'bullets' : 'content';
+}
+
+/**
+ * Fold the legacy and near-miss shapes of a model's slide into
+ * AISlideContent fields. Unknown fields are dropped; nothing is validated.
+ */
+export function normalizeAISlide(raw: unknown): Partial<AISlideContent> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+  const slide = raw as RawSlide;
+  const quote = slide.quote && typeof slide.quote === 'object' ? slide.quote as RawSlide : undefined;
+
+  const content: Omit<AISlideContent, 'type'> = {
+    heading: first(text(slide.heading), text(slide.title), text(slide.header)),
+    subheading: first(text(slide.subheading), text(slide.subtitle)),
+    bullets: first(list(slide.bullets), list(slide.points), list(slide.keyPoints)),
+    body: first(text(slide.body), typeof slide.content === 'string' ? text(slide.content) : undefined, text(slide.paragraph)),
+    imageDescriptions: first(list(slide.imageDescriptions), list(slide.imagePrompts), list(slide.images)),
+    imageUrls: Array.isArray(slide.imageUrls)
+      ? slide.imageUrls.filter((url): url is string => typeof url === 'string')
+      : undefined,
+    quote: quote ? text(quote.text ?? quote.quote) : text(slide.quote),
+    citation: first(text(slide.citation), text(slide.quoteAuthor), text(slide.author), quote && text(quote.author)),
+    leftContent: first(
+      Array.isArray(slide.leftContent) ? list(slide.leftContent) : text(slide.leftContent),
+      list(slide.leftBullets),
+      list(slide.left)
+    ),
+    rightContent: first(
+      Array.isArray(slide.rightContent) ? list(slide.rightContent) : text(slide.rightContent),
+      list(slide.rightBullets),
+      list(slide.right)
+    ),
+    notes: first(text(slide.notes), text(slide.speakerNotes), text(slide.speaker_notes)),
+    sources: Array.isArray(slide.sources)
+      ? slide.sources.filter((id): id is string => typeof id === 'string')
+      : undefined,
+  };
+
+  // A lone imageDescription goes first in the list
+  const single = text(slide.imageDescription);
+  if (single && !content.imageDescriptions?.includes(single)) {
+    content.imageDescriptions = [single, ...(content.imageDescriptions || [])];
+  }
+
+  const type = slideType(slide, content);
+
+  // The rich shape kept bullet slides' points in leftBullets
+  if (type === 'bullets' && !content.bullets) {
+    content.bullets = Array.isArray(content.leftContent) ? content.leftContent : list(content.body);
+  }
+  if (BODY_TYPES.includes(type) && !content.body && content.bullets) {
+    content.body = content.bullets.join('\n');
+  }
+
+  const normalized: Partial<AISlideContent> = { type };
+  (Object.keys(content) as (keyof typeof content)[]).forEach(key => {
+    if (content[key] !== undefined) {
+      (normalized as RawSlide)[key] = content[key];
+    }
+  });
+  return normalized;
+}
+
+/**
+ * Normalize and validate one slide from a model response. Raw text (a slide
+ * object that was not valid JSON) always fails.
+ */
+export function validateAISlide(raw: unknown): AISlideValidation {
+  if (typeof raw === 'string') {
+    return { success: false, issues: ['The slide is not valid JSON'] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, issues: ['The slide must be a JSON object'] };
+  }
+
+  const result = AISlideSchema.safeParse(normalizeAISlide(raw));
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => {
+        const path = issue.path.join('.');
+        return path && !issue.message.includes(path) ? `${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+  return { success: true, slide: result.data };
+}
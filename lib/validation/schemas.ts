@@ -11,12 +11,25 @@ export const PresentationStyleSchema = z.enum(['professional', 'creative', 'educ
   errorMap: () => ({ message: 'Style must be professional, creative, or educational' }),
 });
 
+// Documents generation is grounded in: base64 for pdf/docx, text for markdown/text
+export const SourceDocumentSchema = z.object({
+  name: z.string().min(1, 'Source document name is required').max(200).trim(),
+  format: z.enum(['pdf', 'docx', 'markdown', 'text'], {
+    message: 'Source documents must be PDF, Word (.docx), Markdown or plain text',
+  }),
+  data: z
+    .string()
+    .min(1, 'Source document is empty')
+    .max(14000000, 'Source documents must be under 10MB'),
+});
+
 export const GeneratePresentationSchema = z.object({
   topic: z
     .string()
     .min(3, 'Topic must be at least 3 characters')
     .max(200, 'Topic must be less than 200 characters')
-    .trim(),
+    .trim()
+    .optional(),
   slideCount: z
     .number()
     .int('Slide count must be an integer')
@@ -25,10 +38,18 @@ export const GeneratePresentationSchema = z.object({
     .optional()
     .default(10),
   style: PresentationStyleSchema.optional().default('professional'),
+  sources: z
+    .array(SourceDocumentSchema)
+    .max(5, 'Attach at most 5 source documents')
+    .optional(),
   userId: z.string().min(1, 'User ID is required'),
   idToken: z.string().min(1, 'Authentication token is required'),
+}).refine(input => !!input.topic || !!input.sources?.length, {
+  message: 'Enter a topic or attach a source document',
+  path: ['topic'],
 });
 
+export type SourceDocument = z.infer<typeof SourceDocumentSchema>;
 export type GeneratePresentationInput = z.infer<typeof GeneratePresentationSchema>;
 
 // Slide validation schemas
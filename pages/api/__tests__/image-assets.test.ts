@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createMocks } from 'node-mocks-http'
+import handler from '../presentations/[id]/image-assets'
+import { adminDb, verifyIdToken } from '../../../lib/firebase/admin'
+import { referencePresentationImageAssets, releasePresentationImageAssets } from '../../../lib/firebase/server-image-assets'
+
+jest.mock('../../../lib/firebase/admin', () => ({
+  adminDb: { collection: jest.fn() },
+  verifyIdToken: jest.fn(),
+}))
+
+jest.mock('../../../lib/firebase/server-image-assets', () => ({
+  referencePresentationImageAssets: jest.fn(),
+  releasePresentationImageAssets: jest.fn(),
+}))
+
+const copy = {
+  metadata: { id: 'p1', title: 'Copy of Quarterly review', userId: 'owner' },
+  slides: [{ id: 's1', objects: [{ id: 'i1', type: 'image', src: 'a.png', variants: ['a.png', 'b.png'] }] }],
+}
+
+function mockPresentation(exists: boolean) {
+  const presentationDoc = { get: jest.fn().mockResolvedValue({ exists, data: () => (exists ? copy : undefined) }) }
+  ;(adminDb.collection as jest.Mock).mockReturnValue({ doc: jest.fn(() => presentationDoc) })
+}
+
+function request(token?: string, method: 'POST' | 'DELETE' = 'DELETE') {
+  return createMocks<NextApiRequest, NextApiResponse>({
+    method,
+    query: { id: 'p1' },
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  })
+}
+
+describe('/api/presentations/[id]/image-assets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(verifyIdToken as jest.Mock).mockImplementation(async (token: string) => {
+      const users: Record<string, object> = { owner: { uid: 'owner' }, stranger: { uid: 'u2' } }
+      if (!users[token]) {
+        throw new Error('invalid token')
+      }
+      return users[token]
+    })
+    ;(referencePresentationImageAssets as jest.Mock).mockResolvedValue(1)
+    ;(releasePresentationImageAssets as jest.Mock).mockResolvedValue(2)
+  })
+
+  it('should release the images of a deleted presentation', async () => {
+    mockPresentation(false)
+    const { req, res } = request('owner')
+
+    await handler(req, res)
+
+    expect(res._getStatusCode()).toBe(200)
+    expect(JSON.parse(res._getData())).toEqual({ deleted: 2 })
+    expect(releasePresentationImageAssets).toHaveBeenCalledWith('p1')
+  })
+
+  it('should keep the images of a presentation that still exists', async () => {
+    mockPresentation(true)
+    const { req, res } = request('owner')
+
+    await handler(req, res)
+
+    expect(res._getStatusCode()).toBe(409)
+    expect(releasePresentationImageAssets).not.toHaveBeenCalled()
+  })
+
+  it('should have the owner\'s copy reference the images its slides use', async () => {
+    mockPresentation(true)
+    const { req, res } = request('owner', 'POST')
+
+    await handler(req, res)
+
+    expect(res._getStatusCode()).toBe(200)
+    expect(JSON.parse(res._getData())).toEqual({ referenced: 1 })
+    expect(referencePresentationImageAssets).toHaveBeenCalledWith('p1', ['a.png', 'b.png'])
+
+    const other = request('stranger', 'POST')
+    await handler(other.req, other.res)
+    expect(other.res._getStatusCode()).toBe(403)
+  })
+
+  it('should turn away requests without a valid token', async () => {
+    mockPresentation(false)
+
+    const signedOut = request()
+    await handler(signedOut.req, signedOut.res)
+    const badToken = request('forged')
+    await handler(badToken.req, badToken.res)
+
+    expect(signedOut.res._getStatusCode()).toBe(401)
+    expect(badToken.res._getStatusCode()).toBe(401)
+    expect(releasePresentationImageAssets).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createMocks } from 'node-mocks-http'
+import handler from '../presentations/[id]'
+import { adminDb, verifyIdToken } from '../../../lib/firebase/admin'
+
+jest.mock('../../../lib/firebase/admin', () => ({
+  adminDb: { collection: jest.fn() },
+  verifyIdToken: jest.fn(),
+}))
+
+const presentation = {
+  metadata: { id: 'p1', title: 'Quarterly review', userId: 'owner' },
+}
+
+const members: Record<string, object> = {
+  'viewer@example.com': { email: 'viewer@example.com', role: 'viewer', invitedBy: 'owner', invitedAt: new Date() },
+}
+
+function mockStore(data: object | null, link: object | null = null) {
+  const linkDoc = { get: jest.fn().mockResolvedValue({ exists: !!link, data: () => link }) }
+  const memberDoc = (email: string) => ({
+    get: jest.fn().mockResolvedValue({ exists: !!members[email], data: () => members[email] }),
+  })
+  const presentationDoc = {
+    get: jest.fn().mockResolvedValue({ exists: !!data, data: () => data }),
+    collection: jest.fn((name: string) => ({
+      doc: jest.fn((id: string) => (name === 'members' ? memberDoc(id) : linkDoc)),
+    })),
+  }
+  ;(adminDb.collection as jest.Mock).mockReturnValue({ doc: jest.fn(() => presentationDoc) })
+}
+
+function request(options: { token?: string; share?: string } = {}) {
+  return createMocks<NextApiRequest, NextApiResponse>({
+    method: 'GET',
+    query: { id: 'p1', ...(options.share ? { share: options.share } : {}) },
+    headers: options.token ? { authorization: `Bearer ${options.token}` } : {},
+  })
+}
+
+describe('/api/presentations/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(verifyIdToken as jest.Mock).mockImplementation(async (token: string) => {
+      const users: Record<string, object> = {
+        owner: { uid: 'owner' },
+        viewer: { uid: 'u1', email: 'viewer@example.com', email_verified: true },
+        stranger: { uid: 'u2', email: 'stranger@example.com', email_verified: true },
+      }
+      if (!users[token]) {
+        throw new Error('invalid token')
+      }
+      return users[token]
+    })
+  })
+
+  it('should return the presentation with the caller\'s role', async () => {
+    mockStore(presentation)
+    const { req, res } = request({ token: 'viewer' })
+
+    await handler(req, res)
+
+    expect(res._getStatusCode()).toBe(200)
+    expect(JSON.parse(res._getData())).toEqual(expect.objectContaining({ role: 'viewer', metadata: presentation.metadata }))
+  })
+
+  it('should turn away people it isn\'t shared with', async () => {
+    mockStore(presentation)
+
+    const signedIn = request({ token: 'stranger' })
+    await handler(signedIn.req, signedIn.res)
+    const signedOut = request()
+    await handler(signedOut.req, signedOut.res)
+    const badToken = request({ token: 'forged' })
+    await handler(badToken.req, badToken.res)
+
+    expect(signedIn.res._getStatusCode()).toBe(403)
+    expect(signedOut.res._getStatusCode()).toBe(401)
+    expect(badToken.res._getStatusCode()).toBe(401)
+  })
+
+  it('should let share link holders in until the link expires', async () => {
+    const link = { token: 'secret', role: 'commenter', expiresAt: null, createdBy: 'owner' }
+
+    mockStore(presentation, link)
+    const current = request({ share: 'secret' })
+    await handler(current.req, current.res)
+
+    const wrong = request({ share: 'guess' })
+    await handler(wrong.req, wrong.res)
+
+    mockStore(presentation, { ...link, expiresAt: new Date(Date.now() - 1000) })
+    const expired = request({ share: 'secret' })
+    await handler(expired.req, expired.res)
+
+    expect(current.res._getStatusCode()).toBe(200)
+    expect(JSON.parse(current.res._getData()).role).toBe('commenter')
+    expect(wrong.res._getStatusCode()).toBe(401)
+    expect(expired.res._getStatusCode()).toBe(401)
+  })
+
+  it('should serve public presentations to anyone and 404 missing ones', async () => {
+    mockStore({ ...presentation, metadata: { ...presentation.metadata, isPublic: true } })
+    const publicRequest = request()
+    await handler(publicRequest.req, publicRequest.res)
+
+    mockStore(null)
+    const missing = request({ token: 'owner' })
+    await handler(missing.req, missing.res)
+
+    expect(publicRequest.res._getStatusCode()).toBe(200)
+    expect(JSON.parse(publicRequest.res._getData()).role).toBe('viewer')
+    expect(missing.res._getStatusCode()).toBe(404)
+  })
+})
@@ -0,0 +1,133 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, trackUsage, checkDailyLimits } from '@/lib/server/rate-limiter';
+import { createSlideFromAIContent } from '@/lib/server/slide-converter';
+import { expandOutlineSlides } from '@/lib/ai/gemini';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { PresentationOutline, getOutlineSlides, sanitizeBrief } from '@/lib/models/outline';
+import { Slide } from '@/lib/models/slide';
+
+/**
+ * API Route: /api/ai/expand-outline
+ * Phase two of outline-first generation: writes full slides for the given
+ * outline slides. The caller inserts them into the deck.
+ */
+
+const MAX_SLIDES_PER_REQUEST = 15;
+
+interface ExpandOutlineRequest {
+  outline: PresentationOutline;
+  outlineSlideIds: string[];
+  topic?: string;
+  tone?: string;
+  goal?: string;
+  audience?: string;
+  templateId?: string;
+  userId: string;
+  idToken: string; // Firebase auth token
+}
+
+interface ExpandOutlineResponse {
+  success: boolean;
+  data?: {
+    slides: { outlineSlideId: string; slide: Slide }[];
+  };
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExpandOutlineResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  try {
+    const { outline, outlineSlideIds, topic, templateId, userId, idToken } = req.body as ExpandOutlineRequest;
+    const effectiveUserId = userId || 'anonymous-' + Date.now();
+
+    if (idToken && userId) {
+      try {
+        const decodedToken = await verifyIdToken(idToken);
+        if (decodedToken.uid !== userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid authentication token',
+          });
+        }
+      } catch (authError) {
+        console.error('Auth verification failed:', authError);
+      }
+    }
+
+    if (!outline || !Array.isArray(outline.sections) || !Array.isArray(outlineSlideIds)) {
+      return res.status(400).json({
+        success: false,
+        error: 'An outline and outlineSlideIds are required',
+      });
+    }
+
+    const known = getOutlineSlides(outline).map(slide => slide.id);
+    const ids = outlineSlideIds.filter(id => known.includes(id));
+    if (ids.length === 0 || ids.length > MAX_SLIDES_PER_REQUEST) {
+      return res.status(400).json({
+        success: false,
+        error: `Choose between 1 and ${MAX_SLIDES_PER_REQUEST} outline slides to expand`,
+      });
+    }
+
+    const rateLimitCheck = await checkRateLimit(effectiveUserId);
+    if (!rateLimitCheck.allowed) {
+      return res.status(429).json({
+        success: false,
+        error: rateLimitCheck.reason || 'Rate limit exceeded. Please wait before trying again.',
+      });
+    }
+
+    const dailyLimitCheck = await checkDailyLimits(effectiveUserId, 'free', 'slides');
+    if (!dailyLimitCheck.allowed || dailyLimitCheck.remaining < ids.length) {
+      return res.status(429).json({
+        success: false,
+        error: `Daily limit reached. You have ${dailyLimitCheck.remaining} slides remaining today.`,
+      });
+    }
+
+    const expanded = await expandOutlineSlides(outline, ids, {
+      ...(typeof topic === 'string' && { topic: topic.slice(0, 200) }),
+      ...sanitizeBrief(req.body),
+    });
+
+    const slides: { outlineSlideId: string; slide: Slide }[] = [];
+    ids.forEach(id => {
+      const aiSlide = expanded.get(id);
+      if (aiSlide) {
+        const slide: Slide & { imageDescriptions?: string[] } = createSlideFromAIContent(aiSlide, slides.length, templateId);
+        // Keep imageDescriptions for image queueing
+        if (aiSlide.imageDescriptions && aiSlide.imageDescriptions.length > 0) {
+          slide.imageDescriptions = aiSlide.imageDescriptions;
+        }
+        slides.push({ outlineSlideId: id, slide });
+      }
+    });
+
+    try {
+      await trackUsage(effectiveUserId, 'slides', slides.length);
+    } catch (error) {
+      console.warn('Usage tracking failed:', error);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { slides },
+    });
+  } catch (error) {
+    console.error('Outline expansion error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to expand outline',
+    });
+  }
+}
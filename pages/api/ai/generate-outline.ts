@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateInput } from '@/lib/server/vertex-ai';
+import { checkRateLimit, trackUsage } from '@/lib/server/rate-limiter';
+import { generateOutline } from '@/lib/ai/gemini';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { PresentationOutline, sanitizeBrief } from '@/lib/models/outline';
+
+/**
+ * API Route: /api/ai/generate-outline
+ * Phase one of outline-first generation: returns an editable outline
+ * (sections, slide headings, slide types and key points), no slide content
+ */
+
+interface GenerateOutlineRequest {
+  topic: string;
+  slideCount?: number;
+  style?: 'professional' | 'creative' | 'educational';
+  tone?: string;
+  goal?: string;
+  audience?: string;
+  userId: string;
+  idToken: string; // Firebase auth token
+}
+
+interface GenerateOutlineResponse {
+  success: boolean;
+  data?: PresentationOutline;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<GenerateOutlineResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  try {
+    const { topic, slideCount, style, userId, idToken } = req.body as GenerateOutlineRequest;
+    const effectiveUserId = userId || 'anonymous-' + Date.now();
+
+    if (idToken && userId) {
+      try {
+        const decodedToken = await verifyIdToken(idToken);
+        if (decodedToken.uid !== userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid authentication token',
+          });
+        }
+      } catch (authError) {
+        console.error('Auth verification failed:', authError);
+      }
+    }
+
+    const validation = validateInput({ topic, slideCount, style });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.errors.join(', '),
+      });
+    }
+    const { sanitized } = validation;
+
+    const rateLimitCheck = await checkRateLimit(effectiveUserId);
+    if (!rateLimitCheck.allowed) {
+      return res.status(429).json({
+        success: false,
+        error: rateLimitCheck.reason || 'Rate limit exceeded. Please wait before trying again.',
+      });
+    }
+
+    const outline = await generateOutline(
+      { topic: sanitized.topic, ...sanitizeBrief(req.body) },
+      sanitized.slideCount,
+      sanitized.style
+    );
+
+    try {
+      await trackUsage(effectiveUserId, 'presentation', 1);
+    } catch (error) {
+      console.warn('Usage tracking failed:', error);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: outline,
+    });
+  } catch (error) {
+    console.error('Outline generation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate outline',
+    });
+  }
+}
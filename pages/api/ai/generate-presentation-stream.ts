@@ -0,0 +1,236 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateInput } from '@/lib/server/vertex-ai';
+import { TextGenerationResult, TextStreamEvent, getTextModelProvider } from '@/lib/server/text-provider';
+import { checkRateLimit, trackUsage, checkDailyLimits } from '@/lib/server/rate-limiter';
+import { createSlideFromAIContent } from '@/lib/server/slide-converter';
+import { buildPresentationPrompt } from '@/lib/server/presentation-prompt';
+import { emptyRepairReport, recordSlideRepair, resolveAISlides } from '@/lib/server/slide-repair';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { sanitizeBrief } from '@/lib/models/outline';
+import {
+  PresentationGenerationRequest,
+  PresentationStreamEvent,
+  StreamedSlide,
+  createPresentationJsonScanner,
+  formatSseEvent,
+} from '@/lib/ai/presentation-stream';
+
+/**
+ * API Route: /api/ai/generate-presentation-stream
+ * Streams a presentation over Server-Sent Events: the outline first, then
+ * every slide as soon as the model has finished writing it. The client
+ * persists slides as they arrive, so a timeout still leaves a partial deck.
+ * Invalid slides are repaired before they are sent, holding back the
+ * slides after them so the order is kept.
+ */
+
+interface GeneratePresentationStreamRequest extends PresentationGenerationRequest {
+  userId: string;
+  idToken: string; // Firebase auth token
+}
+
+// Stop waiting for the model after this long and keep what arrived
+const GENERATION_DEADLINE_MS = 4 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const { topic, slideCount, style, templateId, userId, idToken } = req.body as GeneratePresentationStreamRequest;
+  const effectiveUserId = userId || 'anonymous-' + Date.now();
+
+  // Everything that can fail before streaming starts answers with plain JSON
+  try {
+    if (idToken && userId) {
+      try {
+        const decodedToken = await verifyIdToken(idToken);
+        if (decodedToken.uid !== userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid authentication token',
+          });
+        }
+      } catch (authError) {
+        console.error('Auth verification failed:', authError);
+      }
+    }
+
+    const validation = validateInput({ topic, slideCount, style });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: validation.errors.join(', '),
+      });
+    }
+    const { sanitized } = validation;
+
+    const rateLimitCheck = await checkRateLimit(effectiveUserId);
+    if (!rateLimitCheck.allowed) {
+      return res.status(429).json({
+        success: false,
+        error: rateLimitCheck.reason || 'Rate limit exceeded. Please wait before trying again.',
+      });
+    }
+
+    const dailyLimitCheck = await checkDailyLimits(effectiveUserId, 'free', 'slides');
+    if (!dailyLimitCheck.allowed || dailyLimitCheck.remaining < sanitized.slideCount) {
+      return res.status(429).json({
+        success: false,
+        error: `Daily limit reached. You have ${dailyLimitCheck.remaining} slides remaining today.`,
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    const send = (event: PresentationStreamEvent) => {
+      if (!closed) {
+        res.write(formatSseEvent(event));
+      }
+    };
+    const heartbeat = setInterval(() => {
+      if (!closed) {
+        res.write(': ping\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const provider = getTextModelProvider();
+    const prompt = buildPresentationPrompt({ ...sanitized, ...sanitizeBrief(req.body) });
+    const events = provider.stream({ prompt, json: true });
+
+    res.on('close', () => {
+      if (res.writableEnded) {
+        return;
+      }
+      closed = true;
+      // Stop pulling from the model once nobody is listening
+      events.return(undefined).catch(() => undefined);
+    });
+
+    // Slides are validated (and repaired) one at a time, in order
+    const repair = emptyRepairReport();
+    let sentCount = 0;
+    let sending: Promise<void> = Promise.resolve();
+    const sendSlide = (raw: unknown, index: number) => {
+      sending = sending.then(async () => {
+        if (closed) {
+          return;
+        }
+        const { slides: [aiSlide] } = await resolveAISlides([raw], { topic: sanitized.topic }, provider, repair, index);
+        const slide: StreamedSlide = createSlideFromAIContent(aiSlide, index, templateId);
+        // Keep imageDescriptions for image queueing
+        if (aiSlide.imageDescriptions && aiSlide.imageDescriptions.length > 0) {
+          slide.imageDescriptions = aiSlide.imageDescriptions;
+        }
+        send({ type: 'slide', index, slide });
+        sentCount++;
+      }).catch(error => {
+        console.error('Error sending generated slide:', error);
+      });
+    };
+
+    const scanner = createPresentationJsonScanner({
+      onHeader: header => send({ type: 'outline', ...header }),
+      onSlide: sendSlide,
+      onInvalidSlide: sendSlide,
+    });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), GENERATION_DEADLINE_MS);
+    });
+
+    let result: TextGenerationResult | undefined;
+    let timedOut = false;
+    try {
+      while (!closed) {
+        const next = await Promise.race([events.next(), deadline]);
+        if (next === 'timeout') {
+          timedOut = true;
+          events.return(undefined).catch(() => undefined);
+          await sending;
+          send({
+            type: 'error',
+            error: 'Generation took too long. The slides generated so far were kept.',
+            partial: sentCount > 0,
+          });
+          break;
+        }
+        if (next.done) {
+          break;
+        }
+
+        const event: TextStreamEvent = next.value;
+        if (event.type === 'text') {
+          scanner.push(event.text);
+        } else {
+          result = event.result;
+        }
+      }
+
+      await sending;
+      if (result) {
+        send({ type: 'done', slideCount: sentCount, repaired: repair.repaired, unrepaired: repair.unrepaired });
+      } else if (!closed && !timedOut) {
+        send({ type: 'error', error: 'The model stopped before finishing', partial: sentCount > 0 });
+      }
+    } catch (error) {
+      console.error('Presentation stream error:', error);
+      await sending;
+      send({
+        type: 'error',
+        error: error instanceof Error ? `Failed to generate presentation: ${error.message}` : 'Failed to generate presentation',
+        partial: sentCount > 0,
+      });
+    } finally {
+      clearTimeout(timer);
+      clearInterval(heartbeat);
+    }
+
+    recordSlideRepair(repair, 'generate-presentation-stream');
+    if (sentCount > 0) {
+      try {
+        await trackUsage(effectiveUserId, 'presentation', 1, {
+          model: provider.model,
+          tokens: result?.usage.totalTokens,
+        });
+        await trackUsage(effectiveUserId, 'slides', sentCount);
+      } catch (error) {
+        console.warn('Usage tracking failed:', error);
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    console.error('Presentation generation error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? `Failed to generate presentation: ${error.message}` : 'Failed to generate presentation',
+    });
+  }
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+    responseLimit: false,
+    externalResolver: true,
+  },
+};
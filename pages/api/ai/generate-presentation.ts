@@ -1,19 +1,39 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getGeminiModel, validateInput } from '@/lib/server/vertex-ai';
+import { validateInput } from '@/lib/server/vertex-ai';
+import { getTextModelProvider } from '@/lib/server/text-provider';
 import { checkRateLimit, trackUsage, checkDailyLimits } from '@/lib/server/rate-limiter';
 import { createSlideFromAIContent } from '@/lib/server/slide-converter';
+import { buildPresentationPrompt } from '@/lib/server/presentation-prompt';
+import {
+  SlideRepairReport,
+  parseAIPresentationResponse,
+  recordSlideRepair,
+  resolveAISlides,
+} from '@/lib/server/slide-repair';
+import {
+  PreparedSources,
+  applyCitations,
+  describeSources,
+  prepareSources,
+  topicFromSourceName,
+} from '@/lib/server/grounding';
+import { GeneratePresentationSchema, SourceDocument } from '@/lib/validation/schemas';
 import { verifyIdToken } from '@/lib/firebase/admin';
+import { sanitizeBrief } from '@/lib/models/outline';
 import { Slide } from '@/lib/models/slide';
 
 /**
  * API Route: /api/ai/generate-presentation
- * Generates a complete presentation using Vertex AI
+ * Generates a complete presentation with the configured text model,
+ * optionally grounded in attached source documents
  */
 
 interface GeneratePresentationRequest {
-  topic: string;
+  topic?: string;        // Defaults to the first source's name when sources are attached
   slideCount?: number;
   style?: 'professional' | 'creative' | 'educational';
+  templateId?: string;   // Layout template, see lib/templates/registry
+  sources?: SourceDocument[];
   userId: string;
   idToken: string; // Firebase auth token
 }
@@ -29,6 +49,9 @@ interface GeneratePresentationResponse {
       topic: string;
       slideCount: number;
       style: string;
+      repair: SlideRepairReport;
+      sources?: { id: string; name: string; passages: number }[];
+      warnings?: string[];
     };
   };
   error?: string;
@@ -52,7 +75,40 @@ export default async function handler(
 
   try {
     // Validate request body
-    const { topic, slideCount, style, userId, idToken } = req.body as GeneratePresentationRequest;
+    const { slideCount, style, templateId, userId, idToken } = req.body as GeneratePresentationRequest;
+
+    const sourcesValidation = GeneratePresentationSchema.shape.sources.safeParse(req.body.sources);
+    if (!sourcesValidation.success) {
+      return res.status(400).json({
+        success: false,
+        error: sourcesValidation.error.issues[0]?.message || 'Invalid source documents',
+      });
+    }
+    const documents = sourcesValidation.data || [];
+    const topic = (req.body as GeneratePresentationRequest).topic?.trim()
+      || (documents.length > 0 ? topicFromSourceName(documents[0].name) || 'Source summary' : undefined);
+
+    // Source documents are parsed here, so they need a signed-in user
+    if (documents.length > 0) {
+      if (!idToken || !userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Sign in to generate from source documents',
+        });
+      }
+      try {
+        const decodedToken = await verifyIdToken(idToken);
+        if (decodedToken.uid !== userId) {
+          throw new Error('Token does not match user');
+        }
+      } catch (authError) {
+        console.error('Auth verification failed:', authError);
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid authentication token',
+        });
+      }
+    }
 
     // Allow anonymous generation for testing
     const effectiveUserId = userId || 'anonymous-' + Date.now();
@@ -106,252 +162,68 @@ export default async function handler(
     // Starting presentation generation
     const startTime = Date.now();
     
-    const model = await getGeminiModel();
-    
-    const prompt = `Create a ${sanitized.slideCount}-slide ${sanitized.style} presentation about "${sanitized.topic}".
+    const provider = getTextModelProvider();
 
-Return ONLY valid JSON with this structure:
-{
-  "title": "Presentation Title",
-  "subtitle": "Subtitle or tagline",
-  "slides": [
-    {
-      "type": "title",
-      "heading": "Presentation Title",
-      "subheading": "Subtitle or tagline"
-    },
-    {
-      "type": "bullets",
-      "heading": "Clear section heading",
-      "bullets": [
-        "First bullet point with substantial content",
-        "Second bullet point with meaningful detail",
-        "Third bullet point with specific information",
-        "Fourth bullet point with valuable insight",
-        "Fifth bullet point with actionable content"
-      ],
-      "imageDescriptions": [
-        "Detailed 30-word description of first image showing...",
-        "Detailed 30-word description of second image depicting...",
-        "Detailed 30-word description of third image illustrating...",
-        "Detailed 30-word description of fourth image representing..."
-      ]
-    },
-    {
-      "type": "content",
-      "heading": "Content slide heading",
-      "body": "A full paragraph of 50-100 words explaining the topic in detail. This should be substantive content that provides real value to the audience, not just a placeholder or brief summary.",
-      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
-    },
-    {
-      "type": "image",
-      "heading": "Visual slide heading",
-      "body": "Supporting text paragraph of 30-50 words that complements the images.",
-      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
-    },
-    {
-      "type": "threeImages",
-      "heading": "Three images layout heading",
-      "imageDescriptions": ["30-word image description", "30-word image description", "30-word image description", "30-word image description"]
+    // Read, chunk and summarize attached sources before prompting
+    let grounding: PreparedSources | null = null;
+    if (documents.length > 0) {
+      grounding = await prepareSources(documents, provider);
+      if (grounding.sources.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid source documents: none of them contain readable text',
+        });
+      }
     }
-  ]
-}
 
-REQUIREMENTS:
-1. Generate EXACTLY ${sanitized.slideCount} slides
-2. Mix slide types: bullets, content, image, threeImages
-3. Each slide needs heading and either bullets OR body text
-4. Include imageDescriptions array with 4 descriptions per slide`;
+    const prompt = buildPresentationPrompt({
+      ...sanitized,
+      ...sanitizeBrief(req.body),
+      grounding: grounding ? describeSources(grounding.sources) : undefined,
+    });
 
-    // Calling Gemini API
-    
-    // Add timeout to prevent hanging (3 minutes for presentation generation)
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Gemini API timeout after 25 seconds')), 25000)
-    );
-    
-    const resultPromise = model.generateContent(prompt);
-    
-    const result = await Promise.race([resultPromise, timeoutPromise]) as any;
-    const response = result.response;
+    // Calling the text model (25 second limit to prevent hanging; grounded
+    // prompts are much longer and get more time)
+    const result = await provider.complete({
+      prompt,
+      json: true,
+      timeoutMs: grounding ? 60000 : 25000,
+    });
     
     const genTime = ((Date.now() - startTime) / 1000).toFixed(2);
-    // Gemini API call completed
-    
-    // Get text from the response properly
-    const candidate = response.candidates?.[0];
-    if (!candidate || !candidate.content?.parts?.[0]?.text) {
-      throw new Error('No response generated');
-    }
+    // Text model call completed
     
-    // Clean and parse response
-    const text = candidate.content.parts[0].text;
-    let jsonText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Try to fix common JSON issues
-    let aiResponse;
-    try {
-      aiResponse = JSON.parse(jsonText);
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError);
-      console.error('Raw response (first 1000 chars):', jsonText.substring(0, 1000));
-      
-      // Try multiple recovery strategies
-      const recoveryStrategies = [
-        // Strategy 1: Try to extract just the essential parts
-        () => {
-          try {
-            // Extract title and subtitle
-            const titleMatch = jsonText.match(/"title"\s*:\s*"([^"]*)"/);
-            const subtitleMatch = jsonText.match(/"subtitle"\s*:\s*"([^"]*)"/);
-            
-            // Try to find the slides array
-            const slidesStartIndex = jsonText.indexOf('"slides"');
-            if (slidesStartIndex === -1) return null;
-            
-            const slidesArrayStart = jsonText.indexOf('[', slidesStartIndex);
-            if (slidesArrayStart === -1) return null;
-            
-            // Find matching closing bracket
-            let depth = 0;
-            let i = slidesArrayStart;
-            let slidesArrayEnd = -1;
-            
-            for (; i < jsonText.length; i++) {
-              if (jsonText[i] === '[') depth++;
-              else if (jsonText[i] === ']') {
-                depth--;
-                if (depth === 0) {
-                  slidesArrayEnd = i;
-                  break;
-                }
-              }
-            }
-            
-            if (slidesArrayEnd === -1) {
-              // Couldn't find closing, just return basic structure
-              return {
-                title: titleMatch ? titleMatch[1] : 'Presentation',
-                subtitle: subtitleMatch ? subtitleMatch[1] : '',
-                slides: []
-              };
-            }
-            
-            const slidesJson = jsonText.substring(slidesArrayStart, slidesArrayEnd + 1);
-            const slides = JSON.parse(slidesJson);
-            
-            return {
-              title: titleMatch ? titleMatch[1] : 'Presentation',
-              subtitle: subtitleMatch ? subtitleMatch[1] : '',
-              slides: slides
-            };
-          } catch (e) {
-            console.error('Recovery strategy 1 failed:', e);
-            return null;
-          }
-        },
-        
-        // Strategy 2: Fix unterminated strings by closing them
-        () => {
-          // Find the error position
-          const errorMatch = parseError.message.match(/position (\d+)/);
-          if (errorMatch) {
-            const errorPos = parseInt(errorMatch[1]);
-            
-            // Find the last complete object before the error
-            const beforeError = jsonText.substring(0, errorPos);
-            const lastObjectEnd = Math.max(
-              beforeError.lastIndexOf('},'),
-              beforeError.lastIndexOf('}]'),
-              beforeError.lastIndexOf('"}')
-            );
-            
-            if (lastObjectEnd > 0) {
-              let fixed = jsonText.substring(0, lastObjectEnd + 1);
-              
-              // Close any unclosed arrays and objects
-              const arrays = (fixed.match(/\[/g) || []).length - (fixed.match(/\]/g) || []).length;
-              const objects = (fixed.match(/\{/g) || []).length - (fixed.match(/\}/g) || []).length;
-              
-              fixed += ']'.repeat(arrays) + '}'.repeat(objects);
-              
-              return JSON.parse(fixed);
-            }
-          }
-          return null;
-        },
-        
-        // Strategy 3: Try to parse just the slides array
-        () => {
-          const slidesMatch = jsonText.match(/"slides"\s*:\s*\[([^\]]*)/);
-          if (slidesMatch) {
-            try {
-              // Extract individual slide objects
-              const slidesText = slidesMatch[1];
-              const slideObjects = slidesText.match(/\{[^}]*\}/g) || [];
-              
-              return {
-                title: 'Recovered Presentation',
-                subtitle: '',
-                slides: slideObjects.map(s => JSON.parse(s))
-              };
-            } catch (e) {
-              return null;
-            }
-          }
-          return null;
-        }
-      ];
-      
-      // Try each recovery strategy
-      for (const strategy of recoveryStrategies) {
-        try {
-          const recovered = strategy();
-          if (recovered && recovered.slides && recovered.slides.length > 0) {
-            // Successfully recovered JSON using fallback strategy
-            aiResponse = recovered;
-            break;
-          }
-        } catch (e) {
-          // Try next strategy
-          continue;
-        }
-      }
-      
-      if (!aiResponse) {
-        console.error('All recovery strategies failed, using fallback');
-        // Return a minimal valid response to prevent client error
-        aiResponse = {
-          title: sanitized.topic,
-          subtitle: 'Generated Presentation',
-          slides: [
-            {
-              type: 'title',
-              heading: sanitized.topic,
-              subheading: 'Generated Presentation'
-            }
-          ]
-        };
-      }
-    }
+    // Parse the response; invalid or unparseable slides are sent back to
+    // the model for repair rather than dropped
+    const aiResponse = parseAIPresentationResponse(result.text);
+    const { slides: aiSlides, report: repair } = await resolveAISlides(
+      aiResponse.slides,
+      { topic: sanitized.topic },
+      provider
+    );
+    recordSlideRepair(repair, 'generate-presentation');
 
     // Convert AI response to Slide objects - PRESERVE imageDescriptions!
-    const slides: Slide[] = aiResponse.slides.map((aiSlide: any, index: number) => {
-      const slide = createSlideFromAIContent(aiSlide, index, 'modern');
-      
+    const slides: Slide[] = aiSlides.map((aiSlide, index) => {
+      const slide: Slide & { imageDescriptions?: string[] } = createSlideFromAIContent(
+        grounding ? applyCitations(aiSlide, grounding.sources) : aiSlide,
+        index,
+        templateId
+      );
+
       // CRITICAL: Preserve imageDescriptions for image queueing
       if (aiSlide.imageDescriptions && aiSlide.imageDescriptions.length > 0) {
-        (slide as any).imageDescriptions = aiSlide.imageDescriptions;
+        slide.imageDescriptions = aiSlide.imageDescriptions;
       }
-      
+
       return slide;
     });
 
     // Track usage for all authenticated users
     try {
       await trackUsage(effectiveUserId, 'presentation', 1, {
-        model: 'gemini-2.5-flash',
-        slideCount: slides.length,
+        model: provider.model,
+        tokens: result.usage.totalTokens,
       });
       await trackUsage(effectiveUserId, 'slides', slides.length);
     } catch (error) {
@@ -363,7 +235,7 @@ REQUIREMENTS:
     return res.status(200).json({
       success: true,
       data: {
-        title: aiResponse.title,
+        title: aiResponse.title || sanitized.topic,
         subtitle: aiResponse.subtitle,
         slides,
         metadata: {
@@ -371,6 +243,15 @@ REQUIREMENTS:
           topic: sanitized.topic,
           slideCount: slides.length,
           style: sanitized.style,
+          repair,
+          ...(grounding && {
+            sources: grounding.sources.map(source => ({
+              id: source.id,
+              name: source.name,
+              passages: source.passages.length,
+            })),
+            warnings: grounding.warnings,
+          }),
         },
       },
       usage: {
@@ -416,7 +297,7 @@ REQUIREMENTS:
 export const config = {
   api: {
     bodyParser: {
-      sizeLimit: '1mb',
+      sizeLimit: '20mb',  // Base64 source documents
     },
     // Response time limit (important for AI generation)
     responseLimit: false,
@@ -0,0 +1,109 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { checkRateLimit, trackUsage } from '@/lib/server/rate-limiter';
+import { runObjectAction, runSlideAction } from '@/lib/server/slide-actions';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { sanitizeBrief } from '@/lib/models/outline';
+import { ActionSlide, SlideActionResult, isObjectAction, isSlideAction } from '@/lib/models/slide-actions';
+
+/**
+ * API Route: /api/ai/slide-action
+ * Runs one AI action on a slide (split, convert) or on one of its text
+ * objects (rewrite, tone, shorten, expand, translate). Nothing is saved;
+ * the editor previews the result and applies it if accepted.
+ */
+
+interface SlideActionRequest {
+  slide: ActionSlide;
+  action: string;
+  objectId?: string;
+  audience?: string;
+  tone?: string;
+  language?: string;
+  templateId?: string;
+  userId: string;
+  idToken: string; // Firebase auth token
+}
+
+interface SlideActionResponse {
+  success: boolean;
+  data?: SlideActionResult;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SlideActionResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  try {
+    const { slide, action, objectId, language, templateId, userId, idToken } = req.body as SlideActionRequest;
+    const effectiveUserId = userId || 'anonymous-' + Date.now();
+
+    if (idToken && userId) {
+      try {
+        const decodedToken = await verifyIdToken(idToken);
+        if (decodedToken.uid !== userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid authentication token',
+          });
+        }
+      } catch (authError) {
+        console.error('Auth verification failed:', authError);
+      }
+    }
+
+    if (!slide || typeof slide.id !== 'string' || !Array.isArray(slide.objects)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A slide with objects is required',
+      });
+    }
+    if (!isSlideAction(action) && !(isObjectAction(action) && typeof objectId === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: isObjectAction(action) ? 'objectId is required for text actions' : `Unknown action "${action}"`,
+      });
+    }
+
+    const rateLimitCheck = await checkRateLimit(effectiveUserId);
+    if (!rateLimitCheck.allowed) {
+      return res.status(429).json({
+        success: false,
+        error: rateLimitCheck.reason || 'Rate limit exceeded. Please wait before trying again.',
+      });
+    }
+
+    const result = isSlideAction(action)
+      ? await runSlideAction(slide, action, templateId)
+      : await runObjectAction(slide, objectId || '', isObjectAction(action) ? action : 'rewrite', {
+          ...sanitizeBrief(req.body),
+          ...(typeof language === 'string' && language.trim() && { language: language.trim().slice(0, 40) }),
+        });
+
+    if (result.kind === 'slides') {
+      try {
+        await trackUsage(effectiveUserId, 'slides', result.slides.length);
+      } catch (error) {
+        console.warn('Usage tracking failed:', error);
+      }
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Slide action error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to run slide action',
+    });
+  }
+}
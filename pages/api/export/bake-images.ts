@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { Slide } from '@/lib/models/slide';
+import { bakeSlideImages } from '@/lib/server/image-bake';
+
+/**
+ * API Route: /api/export/bake-images
+ * Bakes crops, focal points and filters into a deck's images for exports
+ * rendered in the browser (PDF), which cannot draw them. Returns the
+ * slides with edited images replaced by their baked pictures. Signed-in
+ * users only; images are fetched from storage alone.
+ */
+
+interface BakeImagesResponse {
+  success: boolean;
+  data?: { slides: Slide[] };
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BakeImagesResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const authorization = req.headers.authorization;
+  if (!authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+  try {
+    await verifyIdToken(authorization.slice('Bearer '.length));
+  } catch {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid authentication token',
+    });
+  }
+
+  const { slides } = req.body as { slides?: Slide[] };
+  if (!Array.isArray(slides)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid slides data',
+    });
+  }
+
+  try {
+    return res.status(200).json({
+      success: true,
+      data: { slides: await bakeSlideImages(slides) },
+    });
+  } catch (error) {
+    console.error('Error baking images:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to prepare images for export',
+    });
+  }
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '50mb',
+    },
+    responseLimit: false,
+  },
+};
@@ -1,6 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { Slide, SlideObjectUnion, TextObject, ImageObject, ShapeObject, TableObject, ChartObject } from '@/lib/models/slide';
 import { Coordinates } from '@/lib/models/coordinates';
+import { ColorSet, DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { buildPptxChart } from '@/lib/export/pptx-chart';
+import { buildPptxTable } from '@/lib/export/pptx-table';
+import { paginateSlideTables } from '@/lib/models/table';
+import { addPptxMasterElements } from '@/lib/export/pptx-master';
+import { resolveDeckMasterElements } from '@/lib/templates/master-elements';
+import { fitSlideText } from '@/lib/templates/overflow';
+import { applyPptxAnimations } from '@/lib/export/pptx-animations';
+import { bakeSlideImages } from '@/lib/server/image-bake';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -11,7 +20,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Dynamically import PptxGenJS to avoid SSR issues
     const PptxGenJS = (await import('pptxgenjs')).default;
     
-    const { slides, presentationTitle = 'Presentation' } = req.body;
+    const {
+      slides,
+      presentationTitle = 'Presentation',
+      colorSet = DEFAULT_COLOR_SET,
+      templateId,
+      showSlideNumbers,
+    } = req.body;
     
     if (!slides || !Array.isArray(slides)) {
       return res.status(400).json({ error: 'Invalid slides data' });
@@ -28,8 +43,24 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
     pptx.layout = 'CUSTOM_1920x1080';
     
-    // Process each slide
-    for (const slideData of slides) {
+    // Crops, focal points and filters are baked into the pictures; then
+    // overflowing text and tables continue on extra slides
+    const baked: Slide[] = await bakeSlideImages(slides as Slide[]);
+    const pages: Slide[] = baked
+      .flatMap((slide: Slide) => fitSlideText({ ...slide, objects: slide.objects || [] }, { templateId }))
+      .flatMap(paginateSlideTables);
+
+    // Master elements are numbered by exported slide
+    const masterElements = resolveDeckMasterElements(pages, {
+      templateId,
+      presentationTitle,
+      showSlideNumbers,
+      colorSet,
+    });
+    
+    for (let i = 0; i < pages.length; i++) {
+      const slideData = pages[i];
+      const slideMasterElements = masterElements[i];
       const slide = pptx.addSlide();
       
       // Set background if specified
@@ -50,12 +81,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         (a, b) => (a.zIndex || 0) - (b.zIndex || 0)
       );
       
+      addPptxMasterElements(slide, slideMasterElements, 'behind');
+
       // Process each object
       for (const obj of sortedObjects) {
         if (obj.visible !== false) {
-          await processSlideObject(pptx, slide, obj);
+          await processSlideObject(pptx, slide, obj, colorSet);
         }
       }
+
+      addPptxMasterElements(slide, slideMasterElements, 'front');
       
       // Add speaker notes if present
       if (slideData.notes) {
@@ -63,11 +98,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
     }
     
-    // Generate the PowerPoint file as base64
-    const pptxBase64 = await pptx.write({ outputType: 'base64' });
-    
-    // Convert base64 to buffer
-    const buffer = Buffer.from(pptxBase64, 'base64');
+    // Generate the PowerPoint file, then add slide transitions and object animations
+    const written = await pptx.write({ outputType: 'nodebuffer' });
+    const buffer = await applyPptxAnimations(written as Buffer, pages, 'nodebuffer');
     
     // Set response headers
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
@@ -93,6 +126,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 // This gives us 96 DPI which matches PowerPoint's internal resolution
 const SCALE_FACTOR = 20 / 1920;  // 20 inches width / 1920 pixels = 96 DPI
 
+// Canvas pixels are 1/96 inch; points are 1/72 inch
+const PX_TO_PT = 72 / 96;
+
 function pixelsToInches(pixels: number): number {
   return pixels * SCALE_FACTOR;
 }
@@ -114,7 +150,8 @@ function convertCoordinates(coords: Coordinates): {
 async function processSlideObject(
   pptx: any,
   slide: any, 
-  obj: SlideObjectUnion
+  obj: SlideObjectUnion,
+  colorSet: ColorSet
 ): Promise<void> {
   try {
     switch (obj.type) {
@@ -128,10 +165,10 @@ async function processSlideObject(
         addShapeObject(pptx, slide, obj as ShapeObject);
         break;
       case 'table':
-        addTableObject(slide, obj as TableObject);
+        addTableObject(slide, obj as TableObject, colorSet);
         break;
       case 'chart':
-        addChartObject(pptx, slide, obj as ChartObject);
+        addChartObject(pptx, slide, obj as ChartObject, colorSet);
         break;
       case 'video':
         // Videos can't be directly embedded in PowerPoint via pptxgenjs
@@ -149,11 +186,9 @@ async function processSlideObject(
 function addTextObject(slide: any, textObj: TextObject): void {
   const position = convertCoordinates(textObj.coordinates);
   
-  // Scale font size appropriately for PowerPoint
-  // We're mapping 1920x1080 to 20x11.25 inches (96 DPI)
-  // Standard PowerPoint uses 10x5.625 inches for 16:9, so we're 2x larger
-  // Therefore, we need to scale up the font size by 2x
-  const fontSize = (textObj.customStyles?.fontSize || 18) * 2;
+  // Font sizes are canvas pixels (fitted by fitSlideText); the 20" layout
+  // is 96 DPI, so a pixel is 0.75pt
+  const fontSize = Math.round((textObj.customStyles?.fontSize || 48) * PX_TO_PT);
   
   // Parse markdown-style bold formatting (**text**)
   const textContent = textObj.content;
@@ -209,6 +244,7 @@ function addTextObject(slide: any, textObj: TextObject): void {
     
     const options: any = {
       ...position,
+      objectName: textObj.id,
       align: textObj.customStyles?.textAlign || 'left',
       valign: 'top',
       margin: 0,
@@ -220,6 +256,7 @@ function addTextObject(slide: any, textObj: TextObject): void {
     // No markdown formatting, use simple text
     const options: any = {
       ...position,
+      objectName: textObj.id,
       fontSize: fontSize,
       bold: (textObj.customStyles?.fontWeight || 400) >= 600,
       color: textObj.customStyles?.color?.replace('#', '') || '000000',
@@ -235,12 +272,14 @@ function addTextObject(slide: any, textObj: TextObject): void {
 
 async function addImageObject(slide: any, imageObj: ImageObject): Promise<void> {
   const position = convertCoordinates(imageObj.coordinates);
+  const source = imageObj.src.startsWith('data:') ? { data: imageObj.src } : { path: imageObj.src };
   
   // IMPORTANT: We need to maintain aspect ratio
   // The image should fit within the bounds but NOT stretch to fill
   // We'll calculate the proper dimensions based on 16:9 aspect ratio
+  // (baked images, fit 'fill', are cut to their box already)
   
-  const targetAspectRatio = 16 / 9;
+  const targetAspectRatio = imageObj.fit === 'fill' ? position.w / position.h : 16 / 9;
   const boxAspectRatio = position.w / position.h;
   
   let finalWidth = position.w;
@@ -264,8 +303,9 @@ async function addImageObject(slide: any, imageObj: ImageObject): Promise<void>
     y: position.y + offsetY,
     w: finalWidth,
     h: finalHeight,
-    path: imageObj.src,
-    altText: imageObj.alt || ''
+    ...source,
+    altText: imageObj.alt || '',
+    objectName: imageObj.id
   };
 
   try {
@@ -275,6 +315,7 @@ async function addImageObject(slide: any, imageObj: ImageObject): Promise<void>
     // If image fails, add a placeholder text
     slide.addText(`[Image: ${imageObj.alt || 'Image not available'}]`, {
       ...position,
+      objectName: imageObj.id,
       fontSize: 14,
       color: '666666',
       align: 'center',
@@ -310,6 +351,7 @@ function addShapeObject(pptx: any, slide: any, shapeObj: ShapeObject): void {
 
   const options: any = {
     ...position,
+    objectName: shapeObj.id,
     fill: { color: shapeObj.fill?.replace('#', '') || 'FFFFFF' },
     line: shapeObj.stroke ? {
       color: shapeObj.stroke.replace('#', ''),
@@ -320,96 +362,35 @@ function addShapeObject(pptx: any, slide: any, shapeObj: ShapeObject): void {
   slide.addShape(shapeType, options);
 }
 
-function addTableObject(slide: any, tableObj: TableObject): void {
+function addTableObject(slide: any, tableObj: TableObject, colorSet: ColorSet): void {
   const position = convertCoordinates(tableObj.coordinates);
   
-  // Prepare table data
-  const rows: any[] = [];
-  
-  // Add headers if present
-  if (tableObj.headers && tableObj.headers.length > 0) {
-    const headerRow: any[] = tableObj.headers.map(header => ({
-      text: header,
-      options: {
-        bold: true,
-        fill: { color: tableObj.styles?.headerBackground?.replace('#', '') || 'F0F0F0' },
-        color: tableObj.styles?.headerText?.replace('#', '') || '000000'
-      }
-    }));
-    rows.push(headerRow);
-  }
-  
-  // Add data rows
-  tableObj.data.forEach(row => {
-    const dataRow: any[] = row.map(cell => ({
-      text: String(cell),
-      options: {
-        fill: { color: tableObj.styles?.cellBackground?.replace('#', '') || 'FFFFFF' },
-        color: tableObj.styles?.cellText?.replace('#', '') || '000000'
-      }
-    }));
-    rows.push(dataRow);
-  });
+  // Native table: merged cells, column alignment and color roles carry over
+  const table = buildPptxTable(tableObj, colorSet);
 
-  if (rows.length === 0) {
+  if (table.rows.length === 0) {
     console.warn('Table has no data');
     return;
   }
 
-  const tableOptions: any = {
+  slide.addTable(table.rows, {
     ...position,
-    border: tableObj.styles?.borderWidth ? {
-      type: 'solid',
-      pt: tableObj.styles.borderWidth,
-      color: tableObj.styles?.borderColor?.replace('#', '') || 'CCCCCC'
-    } : undefined,
-    autoPage: false,
-    colW: Array(rows[0]?.length || 1).fill(position.w / (rows[0]?.length || 1))
-  };
-
-  slide.addTable(rows, tableOptions);
+    ...table.options,
+    objectName: tableObj.id
+  });
 }
 
-function addChartObject(pptx: any, slide: any, chartObj: ChartObject): void {
+function addChartObject(pptx: any, slide: any, chartObj: ChartObject, colorSet: ColorSet): void {
   const position = convertCoordinates(chartObj.coordinates);
   
-  // Map chart types
-  let chartType: any;
-  switch (chartObj.chartType) {
-    case 'bar':
-      chartType = pptx.ChartType.bar;
-      break;
-    case 'line':
-      chartType = pptx.ChartType.line;
-      break;
-    case 'pie':
-      chartType = pptx.ChartType.pie;
-      break;
-    case 'scatter':
-      chartType = pptx.ChartType.scatter;
-      break;
-    case 'area':
-      chartType = pptx.ChartType.area;
-      break;
-    default:
-      chartType = pptx.ChartType.bar;
-  }
-
-  const chartData: any[] = [{
-    name: 'Series 1',
-    labels: chartObj.data.labels || [],
-    values: chartObj.data.values || []
-  }];
+  // Native chart: series, categories, axes and legend stay editable in PowerPoint
+  const chart = buildPptxChart(chartObj, colorSet);
 
-  const chartOptions: any = {
+  slide.addChart(pptx.ChartType[chart.type], chart.data, {
     ...position,
-    chartColors: ['0088CC', 'FF6633', '99CC00', 'FF3366'],
-    showLegend: true,
-    showTitle: false,
-    showValue: true
-  };
-
-  slide.addChart(chartType, chartData, chartOptions);
+    ...chart.options,
+    objectName: chartObj.id
+  });
 }
 
 export const config = {
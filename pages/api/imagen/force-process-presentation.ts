@@ -8,29 +8,13 @@ import {
   doc 
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
-import { IMAGE_STYLES } from '@/lib/constants/image-styles';
+import { ImageGenerationJob, updateJobStatus } from '@/lib/firebase/image-queue';
 import { uploadMultipleImagesServer } from '@/lib/firebase/server-storage';
 import { generateImagePath } from '@/lib/firebase/storage';
-import { updateSlideImage } from '@/lib/firebase/presentations';
-
-const PROJECT_ID = 'phoenix-web-app';
-const LOCATION = 'us-central1';
-const MODEL = 'imagegeneration@006';
-
-async function getAccessToken(): Promise<string> {
-  try {
-    const { GoogleAuth } = require('google-auth-library');
-    const auth = new GoogleAuth({
-      scopes: ['https://www.googleapis.com/auth/cloud-platform']
-    });
-    const client = await auth.getClient();
-    const accessToken = await client.getAccessToken();
-    return accessToken.token || '';
-  } catch (error) {
-    console.error('Failed to get access token:', error);
-    throw new Error('Authentication failed');
-  }
-}
+import { updateSlideImageServer } from '@/lib/firebase/server-presentations';
+import { firestoreImageAssetStore, getImageAssetStoragePath } from '@/lib/firebase/server-image-assets';
+import { getImageProvider } from '@/lib/server/image-provider';
+import { runImageJob } from '@/lib/server/image-jobs';
 
 export default async function handler(
   req: NextApiRequest,
@@ -57,7 +41,7 @@ export default async function handler(
     );
     
     const jobsSnapshot = await getDocs(jobsQuery);
-    const jobs = jobsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    const jobs = jobsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as ImageGenerationJob);
     
     // Found jobs to process for presentation
     
@@ -74,79 +58,33 @@ export default async function handler(
           updatedAt: new Date()
         });
         
-        // Get access token
-        const accessToken = await getAccessToken();
-        
-        // Build prompt
-        const stylePrompt = IMAGE_STYLES[job.style as keyof typeof IMAGE_STYLES] || IMAGE_STYLES.photorealistic;
-        const prompt = `${job.description}, ${stylePrompt}`;
-        
-        // Generating image with Imagen
-        
-        // Call Vertex AI
-        const endpoint = `https://${LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT_ID}/locations/${LOCATION}/publishers/google/models/${MODEL}:predict`;
-        
-        const requestBody = {
-          instances: [{ prompt: prompt }],
-          parameters: {
-            sampleCount: 3,
-            aspectRatio: '16:9',
-          }
-        };
-        
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
+        const provider = getImageProvider();
+        const result = await runImageJob(job, {
+          provider,
+          variants: 3,
+          uploadImages: uploadMultipleImagesServer,
+          getStoragePath: (queued) => generateImagePath(presentationId, queued.slideId, queued.id),
+          assets: firestoreImageAssetStore,
+          getAssetStoragePath: getImageAssetStoragePath,
+          updateJobStatus,
+          updateSlideImage: updateSlideImageServer,
         });
         
-        if (!response.ok) {
-          throw new Error(`Vertex AI error: ${response.status}`);
+        if (result.status === 'attached') {
+          // Another job is generating the same images and completes this one
+          continue;
         }
         
-        const result = await response.json();
-        
-        if (!result.predictions || result.predictions.length === 0) {
-          throw new Error('No images generated');
+        if (result.status !== 'completed') {
+          errors.push({ jobId: job.id, error: result.error });
+          continue;
         }
         
-        // Extract base64 images
-        const base64Images = result.predictions
-          .map((prediction: any) => prediction.bytesBase64Encoded)
-          .filter(Boolean);
-        
-        // Upload to Firebase Storage
-        const storagePath = generateImagePath(presentationId, job.slideId, job.id);
-        const imageUrls = await uploadMultipleImagesServer(base64Images, storagePath);
-        
-        // Update job as completed
-        await updateDoc(doc(db, 'imageGenerationQueue', job.id), {
-          status: 'completed',
-          imageUrls: imageUrls,
-          heroIndex: 0,
-          fullPrompt: prompt,
-          updatedAt: new Date()
-        });
-        
-        // Update the slide with the generated images
-        await updateSlideImage(presentationId, job.slideId, {
-          src: imageUrls[0],
-          objectId: job.objectId,
-          imageIndex: job.imageIndex,
-          variants: imageUrls,
-          heroIndex: 0,
-          generatedAt: new Date(),
-          generationPrompt: prompt,
-        });
-        
         // Successfully processed job
         processedCount++;
         
-        // Rate limit - wait 3 seconds between requests
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        // Rate limit - wait between requests
+        await new Promise(resolve => setTimeout(resolve, Math.min(provider.minRequestInterval, 3000)));
         
       } catch (error) {
         console.error(`Failed to process job ${job.id}:`, error);
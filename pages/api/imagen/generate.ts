@@ -1,38 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { ImageStyle, IMAGE_STYLES } from '@/lib/constants/image-styles';
 import { uploadMultipleImages, generateImagePath } from '@/lib/firebase/storage';
+import { getImageProvider, isImageAspectRatio } from '@/lib/server/image-provider';
 
 /**
- * Direct image generation using Vertex AI REST API
- * No SDK bullshit, just direct HTTP calls
+ * Direct image generation through the configured image provider
+ * (Vertex Imagen by default, see IMAGE_PROVIDER)
  */
 
-const PROJECT_ID = 'phoenix-web-app';
-const LOCATION = 'us-central1';
-const MODEL = 'imagegeneration@006'; // Imagen 2 model that actually works
-
 interface GenerateImageRequest {
-  description: string;
+  description?: string;
+  prompt?: string;      // A full prompt used as is, e.g. to regenerate an image's variants
   style?: ImageStyle;
-}
-
-async function getAccessToken(): Promise<string> {
-  // For server-side, we read the token from environment or use service account
-  // For now, we'll use the ADC (Application Default Credentials)
-  try {
-    // In production, you'd use a service account key file
-    // For development, we use the gcloud auth token
-    const { GoogleAuth } = require('google-auth-library');
-    const auth = new GoogleAuth({
-      scopes: ['https://www.googleapis.com/auth/cloud-platform']
-    });
-    const client = await auth.getClient();
-    const accessToken = await client.getAccessToken();
-    return accessToken.token || '';
-  } catch (error) {
-    console.error('Failed to get access token:', error);
-    throw new Error('Authentication failed');
-  }
+  negativePrompt?: string;
+  aspectRatio?: string;
+  seed?: number;
+  variants?: number;
 }
 
 export default async function handler(
@@ -44,69 +27,40 @@ export default async function handler(
   }
 
   try {
-    const { description, style = 'photorealistic' } = req.body as GenerateImageRequest;
-    
-    if (!description) {
+    const {
+      description,
+      prompt: fullPrompt,
+      style = 'photorealistic',
+      negativePrompt,
+      aspectRatio,
+      seed,
+      variants = 3,
+    } = req.body as GenerateImageRequest;
+    
+    if (!description && !fullPrompt) {
       return res.status(400).json({ error: 'Description is required' });
     }
-
-    // Get access token
-    const accessToken = await getAccessToken();
+    
+    if (aspectRatio !== undefined && !isImageAspectRatio(aspectRatio)) {
+      return res.status(400).json({ error: 'Unsupported aspect ratio' });
+    }
     
     // Get the style prompt
     const stylePrompt = IMAGE_STYLES[style] || IMAGE_STYLES.photorealistic;
     
     // Combine description with style
-    const prompt = `${description}, ${stylePrompt}`;
-    
-    // Generating image with Imagen 2
-    
-    // Call Vertex AI REST API directly
-    const endpoint = `https://${LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT_ID}/locations/${LOCATION}/publishers/google/models/${MODEL}:predict`;
-    
-    const requestBody = {
-      instances: [
-        {
-          prompt: prompt,
-        }
-      ],
-      parameters: {
-        sampleCount: 3, // Generate 3 variants
-        aspectRatio: '16:9',
-        // safetyFilterLevel: 'block_some',
-        // personGeneration: 'allow_adult',
-      }
-    };
-    
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
+    const prompt = fullPrompt || `${description}, ${stylePrompt}`;
+    
+    const provider = getImageProvider();
+    const images = await provider.generate({
+      prompt,
+      negativePrompt,
+      aspectRatio,
+      seed: typeof seed === 'number' ? seed : undefined,
+      variants,
     });
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Vertex AI error:', errorText);
-      throw new Error(`Vertex AI returned ${response.status}: ${errorText}`);
-    }
-    
-    const result = await response.json();
-    
-    // Extract images from response - we now get 3 variants
-    if (!result.predictions || result.predictions.length === 0) {
-      throw new Error('No images generated');
-    }
-    
-    // Process all variants
-    // Received predictions from Imagen 2
-    
-    // Extract base64 images
-    const base64Images = result.predictions
-      .map((prediction: any) => prediction.bytesBase64Encoded)
-      .filter(Boolean);
+    const base64Images = images.map(image => image.base64);
     
     // Upload to Firebase Storage if we have a presentationId and slideId
     let imageUrls: string[];
@@ -124,7 +78,7 @@ export default async function handler(
       // Uploaded images to Firebase Storage
     } else {
       // Return data URLs for testing/preview
-      imageUrls = base64Images.map((base64: string) => `data:image/png;base64,${base64}`);
+      imageUrls = images.map(image => `data:${image.mimeType};base64,${image.base64}`);
       // Returning data URLs for testing/preview
     }
     
@@ -132,10 +86,11 @@ export default async function handler(
     
     return res.status(200).json({
       success: true,
-      imageUrls, // Array of 3 image URLs
+      imageUrls, // Array of variant image URLs
       imageUrl: imageUrls[0], // Keep backward compatibility
       prompt: prompt,
-      model: MODEL,
+      model: provider.model,
+      seeds: images.map(image => image.seed),
       variantCount: imageUrls.length,
     });
     
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getVertexAI, withRetry } from '@/lib/server/vertex-ai';
+import { withRetry } from '@/lib/server/vertex-ai';
+import { getImageProvider } from '@/lib/server/image-provider';
 import { checkRateLimit, trackUsage, checkDailyLimits } from '@/lib/server/rate-limiter';
 import { storage } from '@/lib/firebase/config';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
@@ -7,13 +8,15 @@ import { v4 as uuidv4 } from 'uuid';
 
 /**
  * API Route: /api/images/generate
- * Generates images for presentation slides using Vertex AI
+ * Generates images for presentation slides with the configured image provider
  */
 
 interface GenerateImageRequest {
   prompt: string;
   style?: 'professional' | 'creative' | 'minimal' | 'technical';
   aspectRatio?: '16:9' | '4:3' | '1:1';
+  negativePrompt?: string;
+  seed?: number;
   userId: string;
   idToken: string;
   presentationId?: string;
@@ -49,6 +52,8 @@ export default async function handler(
       prompt,
       style = 'professional',
       aspectRatio = '16:9',
+      negativePrompt,
+      seed,
       userId,
       idToken,
       presentationId,
@@ -102,64 +107,41 @@ export default async function handler(
 
     const enhancedPrompt = `Create a presentation slide image: ${prompt}. 
 Style: ${stylePrompts[style]}. 
-Aspect ratio: ${aspectRatio}. 
 No text overlay, suitable for professional presentations.`;
 
-    // Generate image with Vertex AI
+    // Generate image with the configured provider
+    const provider = getImageProvider();
     let imageUrl: string;
     
     try {
       imageUrl = await withRetry(async () => {
-        const vertex = await getVertexAI();
-        
-        // Use Imagen model for image generation
-        const model = vertex.preview.getGenerativeModel({
-          model: 'imagegeneration@006', // Latest Imagen model
+        const [image] = await provider.generate({
+          prompt: enhancedPrompt,
+          negativePrompt,
+          aspectRatio,
+          seed: typeof seed === 'number' ? seed : undefined,
+          variants: 1,
         });
         
-        const result = await model.generateContent({
-          contents: [{
-            role: 'user',
-            parts: [{
-              text: enhancedPrompt,
-            }],
-          }],
-          generationConfig: {
-            candidateCount: 1,
-            maxOutputTokens: 2048,
-          },
-        });
+        // Convert base64 to blob
+        const buffer = Buffer.from(image.base64, 'base64');
+        const blob = new Blob([buffer], { type: image.mimeType });
         
-        const response = result.response;
+        // Upload to Firebase Storage
+        const fileName = `presentations/${presentationId || 'general'}/${slideId || uuidv4()}.png`;
+        const storageRef = ref(storage, fileName);
         
-        // Extract base64 image from response
-        if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData) {
-          const imageData = response.candidates[0].content.parts[0].inlineData;
-          const base64 = imageData.data;
-          const mimeType = imageData.mimeType || 'image/png';
-          
-          // Convert base64 to blob
-          const buffer = Buffer.from(base64, 'base64');
-          const blob = new Blob([buffer], { type: mimeType });
-          
-          // Upload to Firebase Storage
-          const fileName = `presentations/${presentationId || 'general'}/${slideId || uuidv4()}.png`;
-          const storageRef = ref(storage, fileName);
-          
-          await uploadBytes(storageRef, blob, {
-            contentType: mimeType,
-            customMetadata: {
-              userId,
-              prompt: prompt.substring(0, 100),
-              generatedAt: new Date().toISOString(),
-            },
-          });
-          
-          // Get download URL
-          return await getDownloadURL(storageRef);
-        }
+        await uploadBytes(storageRef, blob, {
+          contentType: image.mimeType,
+          customMetadata: {
+            userId,
+            prompt: prompt.substring(0, 100),
+            generatedAt: new Date().toISOString(),
+          },
+        });
         
-        throw new Error('No image generated');
+        // Get download URL
+        return await getDownloadURL(storageRef);
       });
     } catch (error) {
       console.error('Image generation failed, using fallback:', error);
@@ -172,7 +154,7 @@ No text overlay, suitable for professional presentations.`;
     await trackUsage(userId, 'image', 1, {
       presentationId,
       slideId,
-      model: 'imagegeneration@006',
+      model: provider.model,
     });
 
     return res.status(200).json({
@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { importMarkdown } from '@/lib/import/markdown-import';
+import { Slide } from '@/lib/models/slide';
+
+/**
+ * API Route: /api/import/markdown
+ * Builds a presentation from a Markdown outline without calling the AI.
+ * Slides go through the same converter as /api/ai/generate-presentation.
+ */
+
+interface ImportMarkdownRequest {
+  markdown: string;
+  templateId?: string;
+}
+
+interface ImportMarkdownResponse {
+  success: boolean;
+  data?: {
+    title: string;
+    subtitle?: string;
+    slides: Slide[];
+    metadata: {
+      importedAt: Date;
+      source: 'markdown';
+      slideCount: number;
+    };
+  };
+  error?: string;
+}
+
+// Roughly 100 pages of text; keeps requests under the 1mb body limit
+const MAX_MARKDOWN_LENGTH = 200000;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ImportMarkdownResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const { markdown, templateId = 'modern' } = req.body as ImportMarkdownRequest;
+
+  if (!markdown || typeof markdown !== 'string' || !markdown.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Markdown content is required',
+    });
+  }
+  if (markdown.length > MAX_MARKDOWN_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Markdown must be under ${MAX_MARKDOWN_LENGTH.toLocaleString()} characters`,
+    });
+  }
+
+  try {
+    const { title, subtitle, slides } = importMarkdown(markdown, templateId);
+
+    if (slides.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No slides found. Use ## headings to start slides.',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        title,
+        subtitle,
+        slides,
+        metadata: {
+          importedAt: new Date(),
+          source: 'markdown',
+          slideCount: slides.length,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Markdown import error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to import Markdown',
+    });
+  }
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { v4 as uuidv4 } from 'uuid';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { importPptx } from '@/lib/import/pptx-import';
+import { uploadBase64ImageServer } from '@/lib/firebase/server-storage';
+import { ColorSet, DEFAULT_COLOR_SET } from '@/lib/models/colors';
+import { Slide } from '@/lib/models/slide';
+
+/**
+ * API Route: /api/import/powerpoint
+ * Converts an uploaded .pptx (base64 in the JSON body) into slides.
+ * Embedded media is stored under imports/{importId}/media/, so only
+ * signed-in users can import.
+ */
+
+interface ImportPowerPointRequest {
+  file: string;          // Base64 .pptx contents (a data URL prefix is accepted)
+  fileName?: string;
+  colorSet?: ColorSet;   // Theme colors are mapped to the nearest role in this set
+}
+
+interface ImportPowerPointResponse {
+  success: boolean;
+  data?: {
+    importId: string;
+    title: string;
+    slides: Slide[];
+    warnings: string[];
+  };
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ImportPowerPointResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    });
+  }
+
+  const authorization = req.headers.authorization;
+  if (!authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+  try {
+    await verifyIdToken(authorization.slice('Bearer '.length));
+  } catch {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid authentication token',
+    });
+  }
+
+  const { file, fileName, colorSet = DEFAULT_COLOR_SET } = req.body as ImportPowerPointRequest;
+
+  if (!file || typeof file !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing PowerPoint file',
+    });
+  }
+  if (fileName && !fileName.toLowerCase().endsWith('.pptx')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Only .pptx files are supported',
+    });
+  }
+
+  try {
+    const importId = uuidv4();
+    const buffer = Buffer.from(file.replace(/^data:[^,]*,/, ''), 'base64');
+
+    const result = await importPptx(buffer, {
+      colorSet,
+      uploadMedia: (data, mediaName, contentType) => uploadBase64ImageServer(
+        data.toString('base64'),
+        `imports/${importId}/media/${mediaName}`,
+        contentType
+      ),
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        importId,
+        title: fileName && result.title === 'Imported Presentation'
+          ? fileName.replace(/\.pptx$/i, '')
+          : result.title,
+        slides: result.slides,
+        warnings: result.warnings,
+      },
+    });
+  } catch (error) {
+    console.error('PowerPoint import error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to import PowerPoint file';
+    return res.status(message.startsWith('Invalid') ? 400 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '50mb',
+    },
+  },
+};
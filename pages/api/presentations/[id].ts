@@ -1,28 +1,78 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getPresentation } from '@/lib/firebase/presentations';
+import { adminDb, verifyIdToken } from '@/lib/firebase/admin';
+import type { PresentationDocument } from '@/lib/firebase/presentations';
+import {
+  PresentationAccessor,
+  PresentationMember,
+  ShareLink,
+  normalizeEmail,
+  resolvePresentationRole,
+} from '@/lib/models/sharing';
+
+/**
+ * API Route: /api/presentations/[id]
+ * A presentation, for whoever it's shared with (lib/models/sharing), with
+ * their role. Send the Firebase ID token as `Authorization: Bearer <token>`
+ * and a share link token as `?share=`; public presentations need neither.
+ * Reads go through the Admin SDK, which skips the Firestore rules, so the
+ * roles are checked here.
+ */
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  const { id } = req.query;
+  const { id, share } = req.query;
 
   if (!id || typeof id !== 'string') {
     return res.status(400).json({ error: 'Presentation ID required' });
   }
 
   if (req.method === 'GET') {
+    const accessor: PresentationAccessor = {};
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      try {
+        const decodedToken = await verifyIdToken(authorization.slice('Bearer '.length));
+        accessor.uid = decodedToken.uid;
+        accessor.email = decodedToken.email;
+        accessor.emailVerified = decodedToken.email_verified;
+      } catch {
+        return res.status(401).json({ error: 'Invalid authentication token' });
+      }
+    }
+
     try {
-      const presentation = await getPresentation(id);
-      
-      if (!presentation) {
+      const presentationRef = adminDb.collection('presentations').doc(id);
+      const snapshot = await presentationRef.get();
+
+      if (!snapshot.exists) {
         return res.status(404).json({ error: 'Presentation not found' });
       }
 
-      return res.status(200).json(presentation);
+      const presentation = snapshot.data() as PresentationDocument;
+      if (accessor.email && accessor.emailVerified) {
+        const member = await presentationRef.collection('members').doc(normalizeEmail(accessor.email)).get();
+        accessor.member = member.exists ? member.data() as PresentationMember : null;
+      }
+      let link: ShareLink | null = null;
+      if (typeof share === 'string' && share) {
+        accessor.linkToken = share;
+        const linkSnapshot = await presentationRef.collection('private').doc('link').get();
+        link = linkSnapshot.exists ? linkSnapshot.data() as ShareLink : null;
+      }
+
+      const role = resolvePresentationRole(presentation, accessor, link);
+      if (!role) {
+        return accessor.uid
+          ? res.status(403).json({ error: "You don't have access to this presentation" })
+          : res.status(401).json({ error: 'Sign in to open this presentation' });
+      }
+
+      return res.status(200).json({ ...presentation, role });
     } catch (error) {
       console.error('Error fetching presentation:', error);
-      return res.status(500).json({ 
+      return res.status(500).json({
         error: 'Failed to fetch presentation',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -30,4 +80,4 @@ export default async function handler(
   }
 
   return res.status(405).json({ error: 'Method not allowed' });
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb, verifyIdToken } from '@/lib/firebase/admin';
+import { referencePresentationImageAssets, releasePresentationImageAssets } from '@/lib/firebase/server-image-assets';
+import type { PresentationDocument } from '@/lib/firebase/presentations';
+import { getSlideImageUrls } from '@/lib/models/image-variants';
+import { resolvePresentationRole } from '@/lib/models/sharing';
+
+/**
+ * API Route: /api/presentations/[id]/image-assets
+ * The presentation's references to the shared image assets
+ * (lib/firebase/server-image-assets), which clients can't write.
+ *
+ * POST   the owner's copied deck references the assets its slides use
+ * DELETE once the presentation is gone, drops its references and deletes
+ *        the images no other presentation uses; a presentation that
+ *        still exists keeps its images
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Presentation ID required' });
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authorization = req.headers.authorization;
+  if (!authorization?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  let decodedToken;
+  try {
+    decodedToken = await verifyIdToken(authorization.slice('Bearer '.length));
+  } catch {
+    return res.status(401).json({ error: 'Invalid authentication token' });
+  }
+
+  try {
+    const snapshot = await adminDb.collection('presentations').doc(id).get();
+
+    if (req.method === 'POST') {
+      if (!snapshot.exists) {
+        return res.status(404).json({ error: 'Presentation not found' });
+      }
+      const presentation = snapshot.data() as PresentationDocument;
+      const role = resolvePresentationRole(presentation, {
+        uid: decodedToken.uid,
+        email: decodedToken.email,
+        emailVerified: decodedToken.email_verified,
+      });
+      if (role !== 'owner') {
+        return res.status(403).json({ error: 'Only the owner can do this' });
+      }
+
+      const referenced = await referencePresentationImageAssets(id, getSlideImageUrls(presentation.slides || []));
+      return res.status(200).json({ referenced });
+    }
+
+    if (snapshot.exists) {
+      return res.status(409).json({ error: 'The presentation still exists' });
+    }
+
+    const deleted = await releasePresentationImageAssets(id);
+    return res.status(200).json({ deleted });
+  } catch (error) {
+    console.error('Error updating image asset references:', error);
+    return res.status(500).json({ error: 'Failed to update image assets' });
+  }
+}
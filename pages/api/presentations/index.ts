@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { db } from '@/lib/firebase/config';
-import { collection, getDocs, query, orderBy, limit } from 'firebase/firestore';
+import { collection, getDocs, query, where, limit } from 'firebase/firestore';
+
+// Public presentations only; others are listed by the signed-in client,
+// which the Firestore rules let see its own and shared ones
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,7 +12,7 @@ export default async function handler(
   if (req.method === 'GET') {
     try {
       const presentationsRef = collection(db, 'presentations');
-      const q = query(presentationsRef, orderBy('createdAt', 'desc'), limit(20));
+      const q = query(presentationsRef, where('metadata.isPublic', '==', true), limit(20));
       const snapshot = await getDocs(q);
       
       const presentations = snapshot.docs.map(doc => ({
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, ChangeEvent } from 'react';
 import {
   Box,
   Container,
@@ -37,10 +37,42 @@ import {
   Image as ImageIcon,
   Palette as PaletteIcon,
   GridOn,
+  Description as MarkdownIcon,
+  UploadFile as UploadIcon,
+  AttachFile as AttachIcon,
 } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter } from 'next/router';
 import { IMAGE_STYLES, ImageStyle } from '@/lib/constants/image-styles';
+import type { PresentationOutline } from '@/lib/models/outline';
+import type { SourceDocument } from '@/lib/validation/schemas';
+
+const MAX_SOURCES = 5;
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+
+function sourceFormat(fileName: string): SourceDocument['format'] | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'pdf' || extension === 'docx') {
+    return extension;
+  }
+  if (extension === 'md' || extension === 'markdown') {
+    return 'markdown';
+  }
+  return extension === 'txt' ? 'text' : null;
+}
+
+// Binary documents travel as base64 data URLs, text as is
+function readSourceFile(file: File, format: SourceDocument['format']): Promise<string> {
+  if (format === 'markdown' || format === 'text') {
+    return file.text();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
 
 interface GenerationParams {
   topic: string;
@@ -75,10 +107,41 @@ export default function GeneratePage() {
 
   const [advancedOpen, setAdvancedOpen] = useState(false);
   const [showImageStyleDialog, setShowImageStyleDialog] = useState(false);
+  const [markdown, setMarkdown] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+
+  const handleSourceFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    setError(null);
+
+    try {
+      const added: SourceDocument[] = [];
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const format = sourceFormat(file.name);
+        if (!format) {
+          throw new Error(`${file.name}: attach PDF, Word (.docx), Markdown or text files`);
+        }
+        if (file.size > MAX_SOURCE_BYTES) {
+          throw new Error(`${file.name}: source documents must be under 10MB`);
+        }
+        added.push({ name: file.name, format, data: await readSourceFile(file, format) });
+      }
+      if (sources.length + added.length > MAX_SOURCES) {
+        throw new Error(`Attach at most ${MAX_SOURCES} source documents`);
+      }
+      setSources(prev => [...prev, ...added]);
+    } catch (err) {
+      console.error('Source document error:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the source document');
+    }
+  };
 
   const handleGenerate = async () => {
-    if (!params.topic.trim()) {
-      setError('Please enter a presentation topic');
+    if (!params.topic.trim() && sources.length === 0) {
+      setError('Please enter a presentation topic or attach a source document');
       return;
     }
 
@@ -87,9 +150,49 @@ export default function GeneratePage() {
     setSuccess(null);
 
     try {
-      // Get ID token for authentication
-      const idToken = await user?.getIdToken();
-      
+      // Signed-in users go straight to the editor, which streams the slides in.
+      // Grounded decks are generated in one request, then saved.
+      if (user && sources.length === 0) {
+        const { savePresentation } = await import('@/lib/firebase/presentations');
+        const presentationId = await savePresentation({
+          metadata: {
+            title: params.topic,
+            author: params.author,
+            userId: user.uid,
+            topic: params.topic,
+            slideCount: 0,
+            tone: params.tone,
+            goal: params.goal,
+            audience: params.audience,
+            style: params.style,
+            isPublic: false,
+          },
+          sections: [],
+          slides: [],
+          settings: {
+            theme: params.style,
+            animations: true,
+          },
+          generation: {
+            status: 'pending',
+            request: {
+              topic: params.topic,
+              slideCount: params.slideCount,
+              templateId: params.style,
+              tone: params.tone,
+              goal: params.goal,
+              audience: params.audience,
+              generateImages: params.generateImages,
+              ...(params.imageStyle && { imageStyle: params.imageStyle }),
+            },
+          },
+        });
+
+        localStorage.setItem('defaultImageStyle', params.imageStyle || 'photorealistic');
+        router.push(`/presentations/${presentationId}/edit`);
+        return;
+      }
+
       const response = await fetch('/api/ai/generate-presentation', {
         method: 'POST',
         headers: {
@@ -97,8 +200,10 @@ export default function GeneratePage() {
         },
         body: JSON.stringify({
           ...params,
-          userId: user?.uid || 'anonymous',
-          idToken: idToken || '',
+          templateId: params.style,
+          ...(sources.length > 0 && { sources }),
+          userId: user ? user.uid : 'anonymous',
+          idToken: user ? await user.getIdToken() : '',
         }),
       });
 
@@ -141,158 +246,53 @@ export default function GeneratePage() {
       // Handle the nested data structure from API
       const slides = data.data?.slides || data.slides || [];
       const title = data.data?.title || data.presentation?.title || 'Untitled Presentation';
-      const subtitle = data.data?.subtitle || data.presentation?.subtitle;
-      const actualSlideCount = slides.length || params.slideCount;
-      
-      // Don't show success message - we're redirecting immediately
-      console.log(`Presentation generated successfully! ${actualSlideCount} slides created.`);
-      
-      // Save to Firestore
-      if (slides.length > 0 && user) {
-        try {
-          const { savePresentation } = await import('@/lib/firebase/presentations');
-          
-          const presentationId = await savePresentation({
-            metadata: {
-              title: title,
-              ...(subtitle && { subtitle }),
-              author: params.author,
-              userId: user.uid,
-              topic: params.topic,
-              slideCount: actualSlideCount,
-              tone: params.tone,
-              goal: params.goal,
-              audience: params.audience,
-              style: params.style,
-              isPublic: false,
-            },
-            sections: [{
-              title: 'Main',
-              slides: slides
-            }],
-            slides: slides,
-            settings: {
-              theme: params.style,
-              animations: true,
-            },
-          });
-          
-          // Presentation saved successfully
-          
-          // REDIRECT IMMEDIATELY - don't wait for anything else!
-          console.log('Redirecting to editor NOW:', `/presentations/${presentationId}/edit`);
-          
-          // Queue image generation BEFORE redirect (fire and forget)
-          if (params.generateImages === 'now' && params.imageStyle) {
-            // Fire and forget - don't await this
-            (async () => {
-              try {
-                console.log('🎨 Starting async image generation...');
-                
-                // Look for slides with image objects
-                const slidesWithImages = slides.filter((slide: any) => 
-                  slide.objects?.some((obj: any) => obj.type === 'image')
-                );
-                
-                console.log(`Found ${slidesWithImages.length} slides with images out of ${slides.length} total slides`);
-                
-                // Log details about each slide with images
-                slidesWithImages.forEach((slide: any, idx: number) => {
-                  const imageCount = slide.objects?.filter((obj: any) => obj.type === 'image').length || 0;
-                  console.log(`  Slide ${idx + 1}: ${imageCount} images, type: ${slide.type}`);
-                });
-                
-                const imageRequests = slidesWithImages.flatMap((slide: any) => {
-                  const imageObjects = slide.objects?.filter((obj: any) => obj.type === 'image') || [];
-                  
-                  return imageObjects.map((imageObj: any, index: number) => {
-                    const description = imageObj?.generationDescription || imageObj?.alt || `Image for slide`;
-                    
-                    return {
-                      slideId: slide.id,
-                      objectId: imageObj.id,
-                      imageIndex: index,
-                      description: description,
-                      style: params.imageStyle,
-                      priority: 1,
-                    };
-                  });
-                });
-                
-                if (imageRequests.length > 0) {
-                  // Queue image generation jobs asynchronously
-                  const { queuePresentationImages } = await import('@/lib/firebase/image-queue');
-                  const jobIds = await queuePresentationImages(presentationId, imageRequests);
-                  console.log('Queued', jobIds.length, 'image generation jobs');
-                  
-                  // Store the image style preference
-                  localStorage.setItem('defaultImageStyle', params.imageStyle || 'photorealistic');
-                  
-                  // Start processing the queue
-                  for (let i = 0; i < 3; i++) {
-                    try {
-                      const response = await fetch('/api/imagen/process-queue', { 
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                      });
-                      if (response.ok) {
-                        console.log('✅ Queue processor started');
-                        break;
-                      }
-                    } catch (err) {
-                      console.error(`Queue start attempt ${i + 1} failed:`, err);
-                    }
-                    if (i < 2) await new Promise(r => setTimeout(r, 1000));
-                  }
-                }
-              } catch (error) {
-                console.error('❌ Error in async image generation:', error);
-                // Don't fail - images will generate later
-              }
-            })(); // Execute immediately without awaiting
-          }
-          
-          // Force redirect with window.location as fallback
-          console.log('About to redirect to:', `/presentations/${presentationId}/edit`);
-          setLoading(false); // Stop loading before redirect
-          
-          // Use setTimeout to ensure UI updates before redirect
-          setTimeout(() => {
-            console.log('Executing redirect now...');
-            window.location.href = `/presentations/${presentationId}/edit`;
-          }, 100);
-          
-          return; // Exit early to prevent finally block
-        } catch (error) {
-          console.error('Error saving presentation:', error);
-          // Fall back to localStorage with proper structure
-          const presentationData = {
-            title: title,
-            sections: [{
-              title: 'Main',
-              slides: slides
-            }],
-            metadata: data.data?.metadata || {},
-          };
-          localStorage.setItem('lastPresentation', JSON.stringify(presentationData));
-          setSuccess(`Presentation saved locally! Redirecting...`);
-          router.push('/presentations/view');
-        }
-      } else {
-        // Fallback for anonymous users - match expected structure
-        const presentationData = {
-          title: title,
+
+      if (user) {
+        const { savePresentation } = await import('@/lib/firebase/presentations');
+        const presentationId = await savePresentation({
+          metadata: {
+            title,
+            ...(data.data?.subtitle && { subtitle: data.data.subtitle }),
+            author: params.author,
+            userId: user.uid,
+            topic: data.data?.metadata?.topic || title,
+            slideCount: slides.length,
+            tone: params.tone,
+            goal: params.goal,
+            audience: params.audience,
+            style: params.style,
+            isPublic: false,
+            tags: ['grounded'],
+          },
           sections: [{
             title: 'Main',
             slides: slides
           }],
-          metadata: data.data?.metadata || {},
-        };
-        localStorage.setItem('lastPresentation', JSON.stringify(presentationData));
-        setTimeout(() => {
-          router.push('/presentations/view');
-        }, 2000);
+          slides: slides,
+          settings: {
+            theme: params.style,
+            animations: true,
+          },
+        });
+
+        localStorage.setItem('defaultImageStyle', params.imageStyle || 'photorealistic');
+        router.push(`/presentations/${presentationId}/edit`);
+        return;
       }
+
+      // Anonymous users get the deck in localStorage - match expected structure
+      const presentationData = {
+        title: title,
+        sections: [{
+          title: 'Main',
+          slides: slides
+        }],
+        metadata: data.data?.metadata || {},
+      };
+      localStorage.setItem('lastPresentation', JSON.stringify(presentationData));
+      setTimeout(() => {
+        router.push('/presentations/view');
+      }, 2000);
     } catch (err) {
       console.error('Generation error:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -301,6 +301,158 @@ export default function GeneratePage() {
     }
   };
 
+  // Outline-first: plan the deck, then review and write it slide by slide in the editor
+  const handlePlanOutline = async () => {
+    if (!params.topic.trim() || !user) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch('/api/ai/generate-outline', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          topic: params.topic,
+          slideCount: params.slideCount,
+          tone: params.tone,
+          goal: params.goal,
+          audience: params.audience,
+          userId: user.uid,
+          idToken,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to plan presentation');
+      }
+
+      const outline: PresentationOutline = data.data;
+      const { savePresentation } = await import('@/lib/firebase/presentations');
+      const presentationId = await savePresentation({
+        metadata: {
+          title: outline.title,
+          ...(outline.subtitle && { subtitle: outline.subtitle }),
+          author: params.author,
+          userId: user.uid,
+          topic: params.topic,
+          slideCount: 0,
+          tone: params.tone,
+          goal: params.goal,
+          audience: params.audience,
+          style: params.style,
+          isPublic: false,
+        },
+        sections: [],
+        slides: [],
+        outline,
+        settings: {
+          theme: params.style,
+          animations: true,
+        },
+      });
+
+      localStorage.setItem('defaultImageStyle', params.imageStyle || 'photorealistic');
+      router.push(`/presentations/${presentationId}/edit`);
+    } catch (err) {
+      console.error('Outline error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setLoading(false);
+    }
+  };
+
+  const handleMarkdownFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setMarkdown(await file.text());
+    }
+    event.target.value = '';
+  };
+
+  const handleImportMarkdown = async () => {
+    if (!markdown.trim()) {
+      setError('Please paste or upload a Markdown outline');
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      // Deterministic conversion - no AI quota is used
+      const response = await fetch('/api/import/markdown', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ markdown, templateId: params.style }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to import Markdown');
+      }
+
+      const { title, subtitle, slides, metadata } = data.data;
+
+      if (user) {
+        const { savePresentation } = await import('@/lib/firebase/presentations');
+        const presentationId = await savePresentation({
+          metadata: {
+            title,
+            ...(subtitle && { subtitle }),
+            author: params.author,
+            userId: user.uid,
+            topic: title,
+            slideCount: slides.length,
+            tone: params.tone,
+            goal: params.goal,
+            audience: params.audience,
+            style: params.style,
+            isPublic: false,
+            tags: ['imported'],
+          },
+          sections: [{
+            title: 'Main',
+            slides: slides
+          }],
+          slides: slides,
+          settings: {
+            theme: params.style,
+            animations: true,
+          },
+        });
+
+        window.location.href = `/presentations/${presentationId}/edit`;
+        return;
+      }
+
+      // Anonymous users get the local preview, like generated decks
+      localStorage.setItem('lastPresentation', JSON.stringify({
+        title,
+        sections: [{
+          title: 'Main',
+          slides: slides
+        }],
+        metadata,
+      }));
+      router.push('/presentations/view');
+    } catch (err) {
+      console.error('Markdown import error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const popularTopics = [
     'Artificial Intelligence',
     'Climate Change',
@@ -354,10 +506,51 @@ export default function GeneratePage() {
                 onChange={(e) => setParams({ ...params, topic: e.target.value })}
                 margin="normal"
                 variant="outlined"
-                helperText="Be specific for better results (e.g., 'Impact of AI on Healthcare in 2025')"
+                helperText={sources.length > 0
+                  ? 'Optional with source documents attached; defaults to the first document\'s name'
+                  : "Be specific for better results (e.g., 'Impact of AI on Healthcare in 2025')"}
                 disabled={loading}
               />
 
+              {/* Source Documents */}
+              <Box sx={{ mt: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                  <Button
+                    component="label"
+                    variant="outlined"
+                    size="small"
+                    startIcon={<AttachIcon />}
+                    disabled={loading || sources.length >= MAX_SOURCES}
+                  >
+                    Attach source documents
+                    <input
+                      type="file"
+                      hidden
+                      multiple
+                      accept=".pdf,.docx,.md,.markdown,.txt,application/pdf,text/markdown,text/plain"
+                      onChange={handleSourceFiles}
+                    />
+                  </Button>
+                  <Typography variant="caption" color="text.secondary">
+                    Reports, articles or notes (PDF, Word, Markdown, text). Slides are written from them and cite
+                    the passages they use in their speaker notes.
+                  </Typography>
+                </Box>
+                {sources.length > 0 && (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                    {sources.map((source, index) => (
+                      <Chip
+                        key={`${source.name}-${index}`}
+                        icon={<MarkdownIcon />}
+                        label={source.name}
+                        size="small"
+                        onDelete={loading ? undefined : () => setSources(prev => prev.filter((_, i) => i !== index))}
+                      />
+                    ))}
+                  </Box>
+                )}
+              </Box>
+
               {/* Popular Topics */}
               <Box sx={{ mt: 2, mb: 3 }}>
                 <Typography variant="caption" color="text.secondary" gutterBottom>
@@ -579,11 +772,26 @@ export default function GeneratePage() {
                   size="large"
                   fullWidth
                   onClick={handleGenerate}
-                  disabled={loading || !params.topic.trim()}
+                  disabled={loading || (!params.topic.trim() && sources.length === 0)}
                   startIcon={loading ? <CircularProgress size={20} /> : <GenerateIcon />}
                 >
                   {loading ? 'Generating...' : 'Generate Presentation'}
                 </Button>
+                {user && (
+                  <Tooltip title="Get an outline to review and edit first, then write the slides in the editor">
+                    <span style={{ flexShrink: 0 }}>
+                      <Button
+                        variant="outlined"
+                        size="large"
+                        onClick={handlePlanOutline}
+                        disabled={loading || !params.topic.trim() || sources.length > 0}
+                        sx={{ height: '100%' }}
+                      >
+                        Plan Outline First
+                      </Button>
+                    </span>
+                  </Tooltip>
+                )}
               </Box>
             </CardContent>
           </Card>
@@ -592,6 +800,59 @@ export default function GeneratePage() {
         {/* Side Panel - removed */}
       </Grid>
 
+      {/* Markdown Import */}
+      <Card sx={{ mt: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <MarkdownIcon />
+            Import from Markdown
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Already have content? Use <code>#</code> for the title and sections, <code>##</code> for each slide,
+            bullets, <code>&gt; quotes</code>, <code>![images](url)</code>, <code>###</code> columns and
+            {' '}<code>```notes</code> blocks for speaker notes. No AI quota is used.
+          </Typography>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={8}
+            maxRows={20}
+            placeholder={'# Quarterly Review\nQ3 results and outlook\n\n## Highlights\n- Revenue up 12%\n- Two new markets'}
+            value={markdown}
+            onChange={(e) => setMarkdown(e.target.value)}
+            margin="normal"
+            disabled={importing || loading}
+            inputProps={{ style: { fontFamily: 'monospace' } }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button
+              component="label"
+              variant="outlined"
+              startIcon={<UploadIcon />}
+              disabled={importing || loading}
+            >
+              Upload .md
+              <input
+                type="file"
+                hidden
+                accept=".md,.markdown,.txt,text/markdown,text/plain"
+                onChange={handleMarkdownFile}
+              />
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleImportMarkdown}
+              disabled={importing || loading || !markdown.trim()}
+              startIcon={importing ? <CircularProgress size={20} /> : <MarkdownIcon />}
+            >
+              {importing ? 'Importing...' : 'Create from Markdown'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+
       {/* Style Selection Dialog */}
       <Dialog
         open={showImageStyleDialog}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { Box, Button, Typography } from '@mui/material';
+import { ArrowBack, ArrowForward } from '@mui/icons-material';
+import { PresentationSlideRenderer } from '@/components/PresentationSlideRenderer';
+import { usePresentationDeck } from '@/hooks/usePresentationDeck';
+import { LiveSession, RemoteCommand, normalizeJoinCode } from '@/lib/presenter/live';
+import { sendLiveCommand, subscribeToLiveSession } from '@/lib/firebase/live-sessions';
+
+/**
+ * Follow a live session on your own device. With ?remote=KEY the page is
+ * also a clicker: large previous/next buttons that drive the presenter.
+ */
+export default function LiveSessionView() {
+  const router = useRouter();
+  const code = typeof router.query.code === 'string' ? normalizeJoinCode(router.query.code) : null;
+  const remoteKey = typeof router.query.remote === 'string' ? router.query.remote : undefined;
+
+  // undefined while connecting, null when there is no such session
+  const [session, setSession] = useState<LiveSession | null | undefined>(undefined);
+  const [sendError, setSendError] = useState(false);
+  const [size, setSize] = useState({ width: 1280, height: 720 });
+
+  const { slides, masterElements, typographySet, loading } = usePresentationDeck(
+    session?.presentationId,
+    { trackView: false }
+  );
+
+  useEffect(() => {
+    if (!router.isReady) {
+      return;
+    }
+    if (!code) {
+      setSession(null);
+      return;
+    }
+    return subscribeToLiveSession(code, setSession);
+  }, [router.isReady, code]);
+
+  useEffect(() => {
+    const updateSize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  const send = async (command: RemoteCommand) => {
+    if (!code || !remoteKey) {
+      return;
+    }
+    try {
+      setSendError(false);
+      await sendLiveCommand(code, remoteKey, command);
+    } catch {
+      setSendError(true);
+    }
+  };
+
+  const message = (text: string) => (
+    <Box sx={{ height: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 3, bgcolor: 'black' }}>
+      <Typography sx={{ color: 'white', textAlign: 'center' }}>{text}</Typography>
+    </Box>
+  );
+
+  if (session === undefined) {
+    return message('Connecting…');
+  }
+  if (session === null) {
+    return message('No live presentation with this code. Check the code and try again.');
+  }
+  if (!session.active) {
+    return message('This presentation has ended. Thanks for following along!');
+  }
+  if (loading) {
+    return message('Loading presentation…');
+  }
+
+  const slide = slides[session.slideIndex];
+  const controlsHeight = remoteKey ? 160 : 0;
+
+  return (
+    <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column', bgcolor: 'black', overflow: 'hidden' }}>
+      <Box sx={{ flex: 1, position: 'relative', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        {slide?.objects?.length > 0 ? (
+          <PresentationSlideRenderer
+            slide={slide}
+            width={size.width}
+            height={size.height - controlsHeight}
+            isPresenting={true}
+            typographySet={typographySet}
+            masterElements={masterElements[session.slideIndex]}
+            build={session.build}
+          />
+        ) : (
+          <Typography sx={{ color: 'grey.500' }}>Slide {session.slideIndex + 1}</Typography>
+        )}
+      </Box>
+
+      {remoteKey && (
+        <Box sx={{ height: controlsHeight, display: 'flex', gap: 2, p: 2, alignItems: 'stretch' }}>
+          <Button
+            variant="outlined"
+            color="inherit"
+            sx={{ flex: 1, color: 'white', fontSize: '1.25rem' }}
+            startIcon={<ArrowBack />}
+            onClick={() => send({ type: 'previous' })}
+          >
+            Back
+          </Button>
+          <Box sx={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center', minWidth: 72 }}>
+            <Typography sx={{ color: 'white', fontFamily: 'monospace' }}>
+              {session.slideIndex + 1} / {session.slideCount}
+            </Typography>
+            {sendError && (
+              <Typography variant="caption" color="error">
+                Not sent
+              </Typography>
+            )}
+          </Box>
+          <Button
+            variant="contained"
+            sx={{ flex: 2, fontSize: '1.25rem' }}
+            endIcon={<ArrowForward />}
+            onClick={() => send({ type: 'next' })}
+          >
+            Next
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { Box, Button, Paper, TextField, Typography } from '@mui/material';
+import { JOIN_CODE_LENGTH, normalizeJoinCode } from '@/lib/presenter/live';
+
+/**
+ * Join a live session by typing the code shown by the presenter
+ */
+export default function JoinLiveSession() {
+  const router = useRouter();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeJoinCode(input);
+    if (!code) {
+      setError(`Enter the ${JOIN_CODE_LENGTH}-character code shown by the presenter`);
+      return;
+    }
+    router.push(`/live/${code}`);
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 2 }}>
+      <Paper component="form" onSubmit={handleJoin} sx={{ p: 4, width: '100%', maxWidth: 400, textAlign: 'center' }}>
+        <Typography variant="h5" gutterBottom>
+          Join a presentation
+        </Typography>
+        <TextField
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setError(null);
+          }}
+          placeholder="ABC-DEF"
+          error={!!error}
+          helperText={error || ' '}
+          fullWidth
+          autoFocus
+          inputProps={{
+            autoCapitalize: 'characters',
+            autoComplete: 'off',
+            style: { textAlign: 'center', fontFamily: 'monospace', fontSize: '1.5rem', letterSpacing: 4 },
+          }}
+        />
+        <Button type="submit" variant="contained" size="large" fullWidth sx={{ mt: 1 }}>
+          Join
+        </Button>
+      </Paper>
+    </Box>
+  );
+}
@@ -1,25 +1,77 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { Container, Typography, CircularProgress, Box } from '@mui/material';
+import { Container, Typography, CircularProgress, Box, Alert, LinearProgress } from '@mui/material';
 import { PresentationEditor } from '@/app/components/editor/PresentationEditor';
+import ShareDialog from '@/components/ShareDialog';
 import { useAuth } from '@/hooks/useAuth';
+import { usePresentationGeneration } from '@/hooks/usePresentationGeneration';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useComments } from '@/hooks/useComments';
 import {
   getPresentation,
   updatePresentationSlides,
+  updateSlideImage,
   updatePresentationMetadata,
+  updatePresentationSettings,
+  updatePresentationOutline,
+  getPresentationRole,
+  redeemShareLink,
+  PresentationGeneration,
 } from '@/lib/firebase/presentations';
 import { doc, onSnapshot } from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
+import { signInAnonymously } from 'firebase/auth';
+import { auth, db } from '@/lib/firebase/config';
+import { getUserProfile } from '@/lib/firebase/database';
+import { subscribeToMember } from '@/lib/firebase/members';
+import { diffSlides } from '@/lib/collab/operations';
+import { PresentationRole, hasRole } from '@/lib/models/sharing';
 import { Slide, SlideType, SlideObjectUnion, TextObject, ImageObject } from '@/lib/models/slide';
 import { v4 as uuidv4 } from 'uuid';
 
 export default function PresentationEditorPage() {
   const router = useRouter();
-  const { id } = router.query;
-  const { user } = useAuth();
+  const { id, share } = router.query;
+  const shareToken = typeof share === 'string' ? share : null;
+  const { user, loading: authLoading } = useAuth();
   
   const [presentation, setPresentation] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [generationNoticeDismissed, setGenerationNoticeDismissed] = useState(false);
+  // Whether a share link has been redeemed (or there is none), and the
+  // role it all adds up to; undefined until known
+  const [accessReady, setAccessReady] = useState(false);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [role, setRole] = useState<PresentationRole | null | undefined>(undefined);
+  const [shareOpen, setShareOpen] = useState(false);
+  // UserPreferences.autoSave; on unless the user turned it off
+  const [autoSave, setAutoSave] = useState(true);
+  const canEdit = hasRole(role ?? null, 'editor');
+
+  useEffect(() => {
+    if (!user || user.isAnonymous) {
+      return;
+    }
+    getUserProfile(user.uid)
+      .then(profile => setAutoSave(profile?.preferences?.autoSave !== false))
+      .catch(error => console.error('Error loading preferences:', error));
+  }, [user]);
+
+  const generation: PresentationGeneration | undefined = presentation?.generation;
+  usePresentationGeneration(typeof id === 'string' && canEdit ? id : null, generation, user);
+
+  const collaboration = useCollaboration(typeof id === 'string' ? id : null, user);
+  const { rebase } = collaboration;
+
+  // Comments can be read by anyone with access, once it's known
+  const comments = useComments(typeof id === 'string' && role ? id : null, user, {
+    slideIds: (presentation?.slides || []).map((slide: { id: string }) => slide.id),
+    canComment: hasRole(role ?? null, 'commenter') && presentation?.settings?.allowComments !== false,
+    canModerate: role === 'owner',
+  });
+
+  // Saves diff against the latest slides, not the ones a save closed over
+  const presentationRef = useRef<any>(null);
+  presentationRef.current = presentation;
 
   // Check if presentation needs images on load
   const checkAndQueueImages = async (presentationId: string, presentation: any) => {
@@ -54,9 +106,56 @@ export default function PresentationEditorPage() {
     }
   };
 
+  // Opening a share link: sign in (anonymously if need be) and redeem it
+  // before reading, since the rules check the redeemed token
+  useEffect(() => {
+    if (typeof id !== 'string' || authLoading) {
+      return;
+    }
+    if (!shareToken) {
+      setAccessReady(true);
+      return;
+    }
+    if (!user) {
+      signInAnonymously(auth).catch((error) => {
+        console.error('Error signing in to open share link:', error);
+        setAccessReady(true);
+      });
+      return;
+    }
+    redeemShareLink(id, shareToken)
+      .catch((error) => setAccessError(error instanceof Error ? error.message : 'Failed to open share link'))
+      .finally(() => setAccessReady(true));
+  }, [id, shareToken, user, authLoading]);
+
+  // Sharing changes while the presentation is open take effect right away
+  const [inviteRole, setInviteRole] = useState<string | null>(null);
+  useEffect(() => {
+    if (typeof id !== 'string' || !user?.email || !user.emailVerified) {
+      setInviteRole(null);
+      return;
+    }
+    return subscribeToMember(id, user.email, (member) => setInviteRole(member?.role ?? null));
+  }, [id, user]);
+  const sharingKey = String(inviteRole) + String(presentation?.metadata?.isPublic);
+  useEffect(() => {
+    if (typeof id !== 'string' || !presentationRef.current) {
+      return;
+    }
+    let cancelled = false;
+    getPresentationRole(id, presentationRef.current).then((resolved) => {
+      if (!cancelled) {
+        setRole(resolved);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, user, sharingKey]);
+
   // Load presentation and subscribe to updates
   useEffect(() => {
-    if (id && typeof id === 'string') {
+    if (id && typeof id === 'string' && accessReady) {
       loadPresentation(id);
       
       // Subscribe to real-time updates for slide changes
@@ -64,34 +163,23 @@ export default function PresentationEditorPage() {
       const unsubscribe = onSnapshot(docRef, (docSnapshot) => {
         if (docSnapshot.exists()) {
           const data = docSnapshot.data();
-          if (data && data.slides) {
+          if (data) {
             // Update presentation with new data (including generated images)
             setPresentation(prevState => {
               if (!prevState) return null;
               
-              // Merge slide updates to preserve image URLs that were added
-              const updatedSlides = data.slides.map((newSlide: any) => {
-                const existingSlide = prevState.slides?.find((s: any) => s.id === newSlide.id);
-                if (existingSlide) {
-                  // Merge objects to preserve generated image URLs
-                  const mergedObjects = newSlide.objects?.map((newObj: any) => {
-                    if (newObj.type === 'image' && newObj.src) {
-                      // Image has been updated with a generated URL
-                      return newObj;
-                    }
-                    const existingObj = existingSlide.objects?.find((o: any) => o.id === newObj.id);
-                    return existingObj ? { ...existingObj, ...newObj } : newObj;
-                  }) || newSlide.objects;
-                  
-                  return { ...newSlide, objects: mergedObjects };
-                }
-                return newSlide;
-              });
+              // Everyone's saved edits, with ours that are still on the way on top
+              const updatedSlides = rebase(data.slides || [], data.revision || 0);
               
               console.log('Presentation updated from real-time listener with', updatedSlides.length, 'slides');
               return {
                 ...prevState,
-                slides: updatedSlides,
+                slides: data.slides ? updatedSlides : prevState.slides,
+                // Title and progress change while a generation streams in
+                metadata: data.metadata,
+                generation: data.generation,
+                outline: data.outline,
+                settings: data.settings,
               };
             });
           }
@@ -102,13 +190,17 @@ export default function PresentationEditorPage() {
       
       return () => unsubscribe();
     }
-  }, [id]);
+  }, [id, rebase, accessReady]);
 
   const loadPresentation = async (presentationId: string) => {
     try {
       setLoading(true);
       const data = await getPresentation(presentationId);
       if (data) {
+        const access = await getPresentationRole(presentationId, data);
+        setRole(access);
+        const editable = hasRole(access, 'editor');
+
         console.log('Loaded presentation data:', {
           hasSlides: !!data.slides,
           slideCount: data.slides?.length,
@@ -122,7 +214,7 @@ export default function PresentationEditorPage() {
           data.slides.every((slide: any) => !slide.objects || slide.objects.length === 0);
         
         // Convert sections to slides if slides don't exist or are broken
-        if ((!data.slides || slidesAreBroken) && data.sections) {
+        if ((!data.slides || slidesAreBroken) && data.sections && editable) {
           console.log('Converting sections to slides...', slidesAreBroken ? '(fixing broken slides)' : '(first time)');
           const convertedSlides = convertSectionsToSlides(data.sections);
           data.slides = convertedSlides;
@@ -133,11 +225,15 @@ export default function PresentationEditorPage() {
         }
         setPresentation(data);
         
-        // Check if we need to auto-queue images
-        checkAndQueueImages(presentationId, data);
+        // Check if we need to auto-queue images (a streaming generation queues its own)
+        if (editable && data.generation?.status !== 'pending' && data.generation?.status !== 'generating') {
+          checkAndQueueImages(presentationId, data);
+        }
       }
     } catch (error) {
+      // The rules reject presentations that aren't shared with this user
       console.error('Error loading presentation:', error);
+      setAccessError((current) => current || "You don't have access to this presentation");
     } finally {
       setLoading(false);
     }
@@ -330,9 +426,16 @@ export default function PresentationEditorPage() {
   const handleSave = async (updatedPresentation: any) => {
     if (!id || typeof id !== 'string') return;
     
+    const presentation = presentationRef.current;
     try {
-      // Save slides
-      await updatePresentationSlides(id, updatedPresentation.slides);
+      // Outline first, so a snapshot between the two writes never shows
+      // written outline entries as still pending
+      if (updatedPresentation.outline && updatedPresentation.outline !== presentation.outline) {
+        await updatePresentationOutline(id, updatedPresentation.outline);
+      }
+
+      // Save slides as operations, so edits others made meanwhile are kept
+      await collaboration.submit(diffSlides(presentation.slides || [], updatedPresentation.slides));
       
       // Save metadata if changed
       if (updatedPresentation.title !== presentation.title || 
@@ -343,6 +446,11 @@ export default function PresentationEditorPage() {
         });
       }
       
+      // The template id is stored as the presentation theme
+      if (updatedPresentation.templateId !== (presentation.templateId || presentation.settings?.theme)) {
+        await updatePresentationSettings(id, { theme: updatedPresentation.templateId });
+      }
+      
       setPresentation(updatedPresentation);
       console.log('Presentation saved successfully');
     } catch (error) {
@@ -355,7 +463,7 @@ export default function PresentationEditorPage() {
     router.push(`/presentations/${id}/present`);
   };
 
-  if (loading) {
+  if (loading || (presentation && role === undefined)) {
     return (
       <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh' }}>
         <CircularProgress />
@@ -364,10 +472,12 @@ export default function PresentationEditorPage() {
     );
   }
 
-  if (!presentation) {
+  if (!presentation || !role) {
     return (
       <Container>
-        <Typography>Presentation not found</Typography>
+        {accessError || presentation
+          ? <Alert severity="error" sx={{ mt: 4 }}>{accessError || "You don't have access to this presentation"}</Alert>
+          : <Typography>Presentation not found</Typography>}
       </Container>
     );
   }
@@ -375,20 +485,78 @@ export default function PresentationEditorPage() {
   // Transform presentation data to match the expected format
   const simplifiedPresentation = {
     id: presentation.id || id,
-    title: presentation.title || 'Untitled Presentation',
+    title: presentation.title || presentation.metadata?.title || 'Untitled Presentation',
     description: presentation.description || '',
     userId: presentation.userId || user?.uid || '',
     slides: presentation.slides || [],
     theme: presentation.theme,
+    templateId: presentation.templateId || presentation.settings?.theme,
+    showSlideNumbers: presentation.settings?.showSlideNumbers,
+    outline: presentation.outline,
+    brief: presentation.brief || {
+      topic: presentation.metadata?.topic,
+      tone: presentation.metadata?.tone,
+      goal: presentation.metadata?.goal,
+      audience: presentation.metadata?.audience,
+    },
     createdAt: presentation.createdAt,
     updatedAt: presentation.updatedAt,
   };
 
+  const generating = generation?.status === 'pending' || generation?.status === 'generating';
+
   return (
-    <PresentationEditor
-      presentation={simplifiedPresentation}
-      onSave={handleSave}
-      onPresent={handlePresent}
-    />
+    <>
+      <PresentationEditor
+        presentation={simplifiedPresentation}
+        onSave={canEdit ? handleSave : undefined}
+        onPresent={handlePresent}
+        onUpdateImage={canEdit
+          ? (slideId, objectId, updates) => updateSlideImage(id as string, slideId, { objectId, ...updates })
+          : undefined}
+        collaborators={collaboration.collaborators}
+        onSelectionChange={collaboration.setSelection}
+        readOnly={!canEdit}
+        onShare={role === 'owner' ? () => setShareOpen(true) : undefined}
+        comments={comments}
+        autoSave={autoSave}
+      />
+      {role === 'owner' && (
+        <ShareDialog
+          open={shareOpen}
+          onClose={() => setShareOpen(false)}
+          presentationId={id as string}
+          isPublic={presentation.metadata?.isPublic}
+          allowComments={presentation.settings?.allowComments !== false}
+        />
+      )}
+      {generation && generation.status !== 'complete' && !generationNoticeDismissed && (
+        <Box sx={{ position: 'fixed', bottom: 24, left: '50%', transform: 'translateX(-50%)', zIndex: 1400, width: 420, maxWidth: '90vw' }}>
+          {generating ? (
+            <Alert severity="info" icon={<CircularProgress size={20} />}>
+              {generation.total
+                ? `Generating slides… ${generation.completed || 0} of ${generation.total}`
+                : 'Writing the outline…'}
+              {!!generation.total && (
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, ((generation.completed || 0) / generation.total) * 100)}
+                  sx={{ mt: 1 }}
+                />
+              )}
+            </Alert>
+          ) : (
+            <Alert
+              severity={generation.status === 'partial' ? 'warning' : 'error'}
+              onClose={() => setGenerationNoticeDismissed(true)}
+            >
+              {generation.status === 'partial'
+                ? `Generation stopped after ${generation.completed || 0} of ${generation.total || '?'} slides. ${generation.error || ''}`
+                : `Generation failed. ${generation.error || ''}`}
+            </Alert>
+          )}
+        </Box>
+      )}
+    </>
   );
 }
@@ -1,12 +1,10 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/router';
 import {
   Box,
   IconButton,
   Typography,
   Fade,
-  Zoom,
-  Slide as MuiSlide,
   Paper,
   LinearProgress,
   Drawer,
@@ -14,6 +12,7 @@ import {
   ListItem,
   ListItemText,
   Chip,
+  Badge,
 } from '@mui/material';
 import {
   ArrowBack,
@@ -26,53 +25,175 @@ import {
   ViewList,
   Pause,
   PlayArrow,
+  CoPresent,
+  Cast,
+  CastConnected,
+  RateReview,
 } from '@mui/icons-material';
 import { PresentationSlideRenderer } from '@/components/PresentationSlideRenderer';
-import { getPresentation } from '@/lib/firebase/presentations';
-import { Slide } from '@/lib/models/slide';
-import { useTypography } from '@/hooks/useTypography';
+import { getBuildCount, resolveTransition } from '@/lib/models/animation';
+import {
+  PresenterCommand,
+  PresenterMessage,
+  applyPresenterCommand,
+  createPresenterState,
+  getElapsed,
+} from '@/lib/presenter/session';
+import { usePresentationDeck } from '@/hooks/usePresentationDeck';
+import { usePresenterChannel } from '@/hooks/usePresenterChannel';
+import SlideTransition from '@/components/slides/SlideTransition';
+import LiveSessionDialog from '@/components/LiveSessionDialog';
+import CommentsPanel from '@/components/CommentsPanel';
+import { useAuth } from '@/hooks/useAuth';
+import { useComments } from '@/hooks/useComments';
+import { getPresentationRole } from '@/lib/firebase/presentations';
+import { PresentationRole, hasRole } from '@/lib/models/sharing';
+import { describeCommentAnchor, openThreadCounts } from '@/lib/collab/comments';
+import { sourceSlideId } from '@/lib/templates/overflow';
+import {
+  createLiveSession,
+  endLiveSession,
+  subscribeToLiveCommands,
+  updateLiveSession,
+} from '@/lib/firebase/live-sessions';
 
 export default function PresentationMode() {
   const router = useRouter();
   const { id } = router.query;
   
-  const [presentation, setPresentation] = useState<any>(null);
-  const [slides, setSlides] = useState<Slide[]>([]);
-  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [typographySetId, setTypographySetId] = useState<string>('classic-professional');
+  const presentationId = typeof id === 'string' ? id : undefined;
+
+  // Slides are fitted and paginated exactly as in the presenter console
+  const { presentation, slides, masterElements, typographySet, loading } = usePresentationDeck(presentationId);
+
+  // Slide, build and timer; shared with the presenter console
+  const [session, setSession] = useState(() => createPresenterState(Date.now()));
+  const [now, setNow] = useState(() => Date.now());
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [showNotes, setShowNotes] = useState(false);
   const [showTimer, setShowTimer] = useState(true);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [isPaused, setIsPaused] = useState(false);
-  const [transition, setTransition] = useState<'fade' | 'slide' | 'zoom'>('fade');
   const [showOverview, setShowOverview] = useState(false);
+  const { user } = useAuth();
+  const [live, setLive] = useState<{ code: string; remoteKey: string } | null>(null);
+  const [showLive, setShowLive] = useState(false);
+  const [liveStarting, setLiveStarting] = useState(false);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  // Review mode: comments on the slide being shown, for anyone with access
+  const [showReview, setShowReview] = useState(false);
+  const [role, setRole] = useState<PresentationRole | null>(null);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | undefined>();
   
-  // Typography hook
-  const { typographySet, fontsLoaded } = useTypography(typographySetId);
+  const currentSlideIndex = session.slideIndex;
+  const build = session.build;
+  const isPaused = session.pausedAt !== null;
+  const elapsedTime = Math.floor(getElapsed(session, now) / 1000);
+
+  const dispatch = useCallback((command: PresenterCommand) => {
+    setSession(prev => applyPresenterCommand(prev, command, slides, Date.now()));
+  }, [slides]);
+
+  // The console sends commands and asks for the state when it opens
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const postToConsole = usePresenterChannel(presentationId, (message: PresenterMessage) => {
+    if (message.type === 'command') {
+      dispatch(message.command);
+    } else if (message.type === 'hello') {
+      postToConsole({ type: 'state', state: sessionRef.current });
+    }
+  });
 
-  // Load presentation
   useEffect(() => {
-    if (id && typeof id === 'string') {
-      loadPresentation(id);
+    postToConsole({ type: 'state', state: session });
+  }, [session, postToConsole]);
+
+  // Live session: publish the position for followers, apply remote clicks
+  useEffect(() => {
+    if (live) {
+      updateLiveSession(live.code, { slideIndex: session.slideIndex, build: session.build, slideCount: slides.length })
+        .catch(() => setLiveError('Lost connection to the live session'));
     }
-  }, [id]);
+  }, [live, session.slideIndex, session.build, slides.length]);
+
+  useEffect(() => {
+    if (!live) {
+      return;
+    }
+    return subscribeToLiveCommands(live.code, dispatch);
+  }, [live, dispatch]);
 
-  // Timer
   useEffect(() => {
-    if (!isPaused) {
-      const timer = setInterval(() => {
-        setElapsedTime(prev => prev + 1);
-      }, 1000);
-      return () => clearInterval(timer);
+    if (!presentationId || !presentation) {
+      return;
     }
-  }, [isPaused]);
+    let cancelled = false;
+    getPresentationRole(presentationId, presentation).then(resolved => {
+      if (!cancelled) {
+        setRole(resolved);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [presentationId, presentation, user]);
+
+  const comments = useComments(role && presentationId ? presentationId : null, user, {
+    slideIds: (presentation?.slides || []).map(slide => slide.id),
+    canComment: hasRole(role, 'commenter') && presentation?.settings?.allowComments !== false,
+    canModerate: role === 'owner',
+  });
+
+  // End the session when leaving the presentation
+  const liveRef = useRef(live);
+  liveRef.current = live;
+  useEffect(() => () => {
+    if (liveRef.current) {
+      endLiveSession(liveRef.current.code).catch(() => undefined);
+    }
+  }, []);
+
+  const startLive = async () => {
+    if (!presentationId || !user) {
+      setLiveError('Sign in to start a live session');
+      return;
+    }
+    if (!hasRole(role, 'editor')) {
+      setLiveError('Only the owner and editors can start a live session');
+      return;
+    }
+    try {
+      setLiveStarting(true);
+      setLiveError(null);
+      setLive(await createLiveSession(presentationId, user.uid, slides.length));
+    } catch {
+      setLiveError('Could not start a live session. Please try again.');
+    } finally {
+      setLiveStarting(false);
+    }
+  };
+
+  const endLive = async () => {
+    if (live) {
+      setLive(null);
+      await endLiveSession(live.code).catch(() => setLiveError('Could not end the live session'));
+    }
+  };
+
+  // Timer
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      // Typing a comment
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+        return;
+      }
       switch (e.key) {
         case 'ArrowLeft':
         case 'PageUp':
@@ -103,14 +224,24 @@ export default function PresentationMode() {
           setShowOverview(!showOverview);
           break;
         case 'Home':
-          setCurrentSlideIndex(0);
+          goToSlide(0);
           break;
         case 'End':
-          setCurrentSlideIndex(slides.length - 1);
+          goToSlide(slides.length - 1);
           break;
         case 'p':
         case 'P':
-          setIsPaused(!isPaused);
+          togglePause();
+          break;
+        case 's':
+        case 'S':
+          openPresenterConsole();
+          break;
+        case 'r':
+        case 'R':
+          if (role) {
+            setShowReview(!showReview);
+          }
           break;
         case '1':
         case '2':
@@ -123,7 +254,7 @@ export default function PresentationMode() {
         case '9':
           const slideNum = parseInt(e.key) - 1;
           if (slideNum < slides.length) {
-            setCurrentSlideIndex(slideNum);
+            goToSlide(slideNum);
           }
           break;
       }
@@ -131,7 +262,7 @@ export default function PresentationMode() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [currentSlideIndex, slides.length, isFullscreen, showNotes, showOverview, isPaused]);
+  }, [dispatch, slides.length, isFullscreen, showNotes, showOverview, showReview, role, isPaused]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -156,59 +287,18 @@ export default function PresentationMode() {
     };
   }, [isFullscreen]);
 
-  const loadPresentation = async (presentationId: string) => {
-    try {
-      setLoading(true);
-      const data = await getPresentation(presentationId);
-      if (data) {
-        setPresentation(data);
-        
-        // Load typography setting if exists
-        if (data.settings?.typographySetId) {
-          setTypographySetId(data.settings.typographySetId);
-        }
-        
-        // Get slides
-        if (data.slides) {
-          setSlides(data.slides);
-        } else if (data.sections) {
-          // Convert sections to flat slide array
-          const allSlides: Slide[] = [];
-          data.sections.forEach((section: any) => {
-            section.slides?.forEach((slide: any, index: number) => {
-              // Create a simple slide object for presentation
-              allSlides.push({
-                id: slide.id || `slide-${allSlides.length}`,
-                type: slide.type,
-                objects: [],
-                order: allSlides.length,
-                // Store original data for display
-                originalData: slide,
-                speakerNotes: slide.speakerNotes,
-                presenterNotes: slide.presenterNotes,
-              } as any);
-            });
-          });
-          setSlides(allSlides);
-        }
-      }
-    } catch (error) {
-      console.error('Error loading presentation:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const goToSlide = (index: number) => dispatch({ type: 'goto', slideIndex: index });
 
-  const nextSlide = () => {
-    if (currentSlideIndex < slides.length - 1) {
-      setCurrentSlideIndex(currentSlideIndex + 1);
-    }
-  };
+  // Builds play before the slide changes (see applyPresenterCommand)
+  const nextSlide = () => dispatch({ type: 'next' });
+  const previousSlide = () => dispatch({ type: 'previous' });
 
-  const previousSlide = () => {
-    if (currentSlideIndex > 0) {
-      setCurrentSlideIndex(currentSlideIndex - 1);
-    }
+  const togglePause = () => dispatch({ type: isPaused ? 'resume' : 'pause' });
+
+  // The console is a separate window, e.g. on the laptop screen while this
+  // one is fullscreen on the projector
+  const openPresenterConsole = () => {
+    window.open(`/presentations/${id}/presenter`, `presenter-${id}`, 'width=1280,height=800');
   };
 
   const toggleFullscreen = () => {
@@ -238,6 +328,9 @@ export default function PresentationMode() {
   };
 
   const currentSlide = slides[currentSlideIndex];
+  // Continuation slides take comments for the slide they continue
+  const commentAnchor = currentSlide ? { slideId: sourceSlideId(currentSlide.id) } : null;
+  const slideComments = commentAnchor ? openThreadCounts(comments.threads)[commentAnchor.slideId] || 0 : 0;
   const progress = ((currentSlideIndex + 1) / slides.length) * 100;
 
   if (loading) {
@@ -260,6 +353,8 @@ export default function PresentationMode() {
           height={window.innerHeight}
           isPresenting={true}
           typographySet={typographySet}
+          masterElements={masterElements[currentSlideIndex]}
+          build={build}
         />
       );
     }
@@ -353,28 +448,15 @@ export default function PresentationMode() {
     >
       {/* Main Slide Content */}
       <Box sx={{ width: '100%', height: '100%', position: 'relative' }}>
-        {transition === 'fade' && (
-          <Fade in={true} timeout={500} key={currentSlideIndex}>
-            <Box sx={{ width: '100%', height: '100%' }}>
-              {renderSlideContent()}
-            </Box>
-          </Fade>
-        )}
-        
-        {transition === 'slide' && (
-          <MuiSlide direction="left" in={true} timeout={500} key={currentSlideIndex}>
-            <Box sx={{ width: '100%', height: '100%' }}>
-              {renderSlideContent()}
-            </Box>
-          </MuiSlide>
-        )}
-        
-        {transition === 'zoom' && (
-          <Zoom in={true} timeout={500} key={currentSlideIndex}>
+        {currentSlide && (
+          <SlideTransition
+            key={currentSlideIndex}
+            transition={resolveTransition(currentSlide.transition, presentation?.settings?.transitionEffect)}
+          >
             <Box sx={{ width: '100%', height: '100%' }}>
               {renderSlideContent()}
             </Box>
-          </Zoom>
+          </SlideTransition>
         )}
       </Box>
 
@@ -411,7 +493,7 @@ export default function PresentationMode() {
         >
           <IconButton
             onClick={previousSlide}
-            disabled={currentSlideIndex === 0}
+            disabled={currentSlideIndex === 0 && build === 0}
             sx={{ color: 'white' }}
           >
             <ArrowBack />
@@ -423,7 +505,7 @@ export default function PresentationMode() {
 
           <IconButton
             onClick={nextSlide}
-            disabled={currentSlideIndex === slides.length - 1}
+            disabled={currentSlideIndex === slides.length - 1 && build >= getBuildCount(currentSlide)}
             sx={{ color: 'white' }}
           >
             <ArrowForward />
@@ -441,6 +523,22 @@ export default function PresentationMode() {
             <ViewList />
           </IconButton>
 
+          <IconButton onClick={openPresenterConsole} sx={{ color: 'white' }} title="Presenter view (S)">
+            <CoPresent />
+          </IconButton>
+
+          {role && (
+            <IconButton onClick={() => setShowReview(!showReview)} sx={{ color: showReview ? 'warning.light' : 'white' }} title="Review (R)">
+              <Badge badgeContent={slideComments} color="warning">
+                <RateReview />
+              </Badge>
+            </IconButton>
+          )}
+
+          <IconButton onClick={() => setShowLive(true)} sx={{ color: live ? 'success.light' : 'white' }} title="Live session">
+            {live ? <CastConnected /> : <Cast />}
+          </IconButton>
+
           <IconButton onClick={exitPresentation} sx={{ color: 'white' }}>
             <Close />
           </IconButton>
@@ -467,7 +565,7 @@ export default function PresentationMode() {
             <Typography sx={{ color: 'white', fontFamily: 'monospace', fontSize: '1.2rem' }}>
               {formatTime(elapsedTime)}
             </Typography>
-            <IconButton size="small" onClick={() => setIsPaused(!isPaused)} sx={{ color: 'white' }}>
+            <IconButton size="small" onClick={togglePause} sx={{ color: 'white' }}>
               {isPaused ? <PlayArrow /> : <Pause />}
             </IconButton>
           </Paper>
@@ -537,7 +635,7 @@ export default function PresentationMode() {
               button
               selected={index === currentSlideIndex}
               onClick={() => {
-                setCurrentSlideIndex(index);
+                goToSlide(index);
                 setShowOverview(false);
               }}
             >
@@ -557,6 +655,29 @@ export default function PresentationMode() {
         </List>
       </Drawer>
 
+      {/* Review: comments without leaving the presentation */}
+      <Drawer
+        anchor="right"
+        variant="persistent"
+        open={showReview && !!role}
+        sx={{ '& .MuiDrawer-paper': { width: 360, maxWidth: '90vw' } }}
+      >
+        <CommentsPanel
+          comments={comments}
+          anchor={commentAnchor}
+          describeAnchor={(anchor) => describeCommentAnchor(presentation?.slides || [], anchor)}
+          selectedThreadId={selectedThreadId}
+          onSelectThread={(thread) => {
+            setSelectedThreadId(thread.id);
+            const index = slides.findIndex(slide => slide.id === thread.slideId);
+            if (index !== -1) {
+              goToSlide(index);
+            }
+          }}
+          onClose={() => setShowReview(false)}
+        />
+      </Drawer>
+
       {/* Keyboard Shortcuts Help */}
       {showControls && (
         <Fade in={showControls}>
@@ -573,11 +694,21 @@ export default function PresentationMode() {
             }}
           >
             <Typography variant="caption" display="block">
-              ← → Navigate | F Fullscreen | N Notes | O Overview | P Pause | ESC Exit
+              ← → Navigate | F Fullscreen | N Notes | O Overview | P Pause | S Presenter view{role ? ' | R Review' : ''} | ESC Exit
             </Typography>
           </Paper>
         </Fade>
       )}
+
+      <LiveSessionDialog
+        open={showLive}
+        onClose={() => setShowLive(false)}
+        live={live}
+        starting={liveStarting}
+        error={liveError}
+        onStart={startLive}
+        onEnd={endLive}
+      />
     </Box>
   );
 }
\ No newline at end of file
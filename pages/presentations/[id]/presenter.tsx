@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ArrowBack,
+  ArrowForward,
+  Pause,
+  PlayArrow,
+  RestartAlt,
+  OpenInNew,
+} from '@mui/icons-material';
+import { PresentationSlideRenderer } from '@/components/PresentationSlideRenderer';
+import { Slide } from '@/lib/models/slide';
+import { getBuildCount } from '@/lib/models/animation';
+import {
+  PresenterCommand,
+  PresenterMessage,
+  PresenterState,
+  formatDuration,
+  getElapsed,
+  getPacing,
+  getSlideElapsed,
+} from '@/lib/presenter/session';
+import { usePresentationDeck } from '@/hooks/usePresentationDeck';
+import { usePresenterChannel } from '@/hooks/usePresenterChannel';
+
+// Legacy AI slides keep their notes outside Slide.notes
+type NotedSlide = Slide & { speakerNotes?: string; presenterNotes?: string[] };
+
+const CURRENT_SIZE = { width: 768, height: 432 };
+const NEXT_SIZE = { width: 448, height: 252 };
+
+/**
+ * Presenter console: a second window that follows and drives the audience
+ * window (/present) over a BroadcastChannel. Shows the current and next
+ * slide, speaker notes and talk, slide and pacing timers.
+ */
+export default function PresenterConsole() {
+  const router = useRouter();
+  const { id } = router.query;
+  const presentationId = typeof id === 'string' ? id : undefined;
+
+  const { presentation, slides, masterElements, typographySet, loading } = usePresentationDeck(presentationId);
+  const [session, setSession] = useState<PresenterState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const post = usePresenterChannel(presentationId, (message: PresenterMessage) => {
+    if (message.type === 'state') {
+      setSession(message.state);
+    }
+  });
+
+  const send = useCallback((command: PresenterCommand) => post({ type: 'command', command }), [post]);
+
+  // Ask an already open audience window for its state
+  useEffect(() => {
+    post({ type: 'hello' });
+  }, [post]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keyboard drives the audience window
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'PageUp':
+          send({ type: 'previous' });
+          break;
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+          send({ type: 'next' });
+          break;
+        case 'Home':
+          send({ type: 'goto', slideIndex: 0 });
+          break;
+        case 'End':
+          send({ type: 'goto', slideIndex: slides.length - 1 });
+          break;
+        case 'p':
+        case 'P':
+          if (session) {
+            send({ type: session.pausedAt === null ? 'pause' : 'resume' });
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  }, [send, session, slides.length]);
+
+  const openAudienceWindow = () => {
+    window.open(`/presentations/${id}/present`, `audience-${id}`);
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+        <Typography>Loading presentation...</Typography>
+      </Box>
+    );
+  }
+
+  if (!session) {
+    return (
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+        <Typography variant="h6">Waiting for the presentation window…</Typography>
+        <Typography color="text.secondary">
+          Open the presentation in another window; this console follows and controls it.
+        </Typography>
+        <Button variant="contained" startIcon={<OpenInNew />} onClick={openAudienceWindow}>
+          Open presentation window
+        </Button>
+      </Box>
+    );
+  }
+
+  const currentSlide = slides[session.slideIndex] as NotedSlide | undefined;
+  const nextSlide = slides[session.slideIndex + 1];
+  const buildCount = currentSlide ? getBuildCount(currentSlide) : 0;
+  const notes = currentSlide?.notes || currentSlide?.speakerNotes;
+  const pacing = getPacing(slides, session, now);
+  const slideElapsed = getSlideElapsed(session, now);
+  const isPaused = session.pausedAt !== null;
+
+  const renderSlide = (slide: Slide | undefined, index: number, size: { width: number; height: number }, build?: number) => (
+    <Box sx={{ width: size.width, height: size.height, bgcolor: 'black', position: 'relative', overflow: 'hidden' }}>
+      {slide && slide.objects?.length > 0 ? (
+        <PresentationSlideRenderer
+          slide={slide}
+          width={size.width}
+          height={size.height}
+          typographySet={typographySet}
+          masterElements={masterElements[index]}
+          build={build}
+        />
+      ) : (
+        <Typography sx={{ color: 'grey.500', p: 2 }}>
+          {slide ? (slide as NotedSlide & { originalData?: { title?: string } }).originalData?.title || 'Slide' : 'End of presentation'}
+        </Typography>
+      )}
+    </Box>
+  );
+
+  return (
+    <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column', bgcolor: 'grey.900', color: 'white' }}>
+      {/* Timers */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, px: 3, py: 1.5, borderBottom: 1, borderColor: 'grey.800' }}>
+        <Typography variant="h6" sx={{ flex: 1 }} noWrap>
+          {presentation?.metadata?.title || presentation?.title}
+        </Typography>
+        <Box>
+          <Typography variant="caption" color="grey.500">Elapsed</Typography>
+          <Typography sx={{ fontFamily: 'monospace', fontSize: '1.5rem' }}>
+            {formatDuration(getElapsed(session, now))}
+          </Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="grey.500">This slide</Typography>
+          <Typography
+            sx={{
+              fontFamily: 'monospace',
+              fontSize: '1.5rem',
+              color: pacing?.slidePlanned && slideElapsed > pacing.slidePlanned ? 'warning.main' : 'inherit',
+            }}
+          >
+            {formatDuration(slideElapsed)}
+            {pacing?.slidePlanned ? ` / ${formatDuration(pacing.slidePlanned)}` : ''}
+          </Typography>
+        </Box>
+        {pacing && (
+          <Chip
+            label={pacing.behind > 0
+              ? `${formatDuration(pacing.behind)} behind`
+              : `${formatDuration(-pacing.behind)} ahead`}
+            color={pacing.behind > 0 ? 'warning' : 'success'}
+          />
+        )}
+        <Typography sx={{ fontFamily: 'monospace', color: 'grey.400' }}>
+          {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </Typography>
+        <Tooltip title={isPaused ? 'Resume timer (P)' : 'Pause timer (P)'}>
+          <IconButton onClick={() => send({ type: isPaused ? 'resume' : 'pause' })} sx={{ color: 'white' }}>
+            {isPaused ? <PlayArrow /> : <Pause />}
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Reset timer">
+          <IconButton onClick={() => send({ type: 'resetTimer' })} sx={{ color: 'white' }}>
+            <RestartAlt />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {pacing && (
+        <LinearProgress
+          variant="determinate"
+          value={Math.min(100, (getElapsed(session, now) / Math.max(1, pacing.totalPlanned)) * 100)}
+          color={pacing.behind > 0 ? 'warning' : 'primary'}
+        />
+      )}
+
+      <Box sx={{ flex: 1, display: 'flex', gap: 3, p: 3, minHeight: 0 }}>
+        {/* Current slide and controls */}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="overline" color="grey.400">
+            Current — slide {session.slideIndex + 1} of {slides.length}
+            {buildCount > 0 ? ` · build ${session.build} of ${buildCount}` : ''}
+          </Typography>
+          {renderSlide(currentSlide, session.slideIndex, CURRENT_SIZE, session.build)}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 2 }}>
+            <Button
+              variant="outlined"
+              color="inherit"
+              startIcon={<ArrowBack />}
+              onClick={() => send({ type: 'previous' })}
+              disabled={session.slideIndex === 0 && session.build === 0}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="contained"
+              endIcon={<ArrowForward />}
+              onClick={() => send({ type: 'next' })}
+              disabled={session.slideIndex === slides.length - 1 && session.build >= buildCount}
+            >
+              {session.build < buildCount ? 'Next build' : 'Next slide'}
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Next slide and notes */}
+        <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 2, minWidth: 0 }}>
+          <Typography variant="overline" color="grey.400">
+            Next
+          </Typography>
+          {renderSlide(nextSlide, session.slideIndex + 1, NEXT_SIZE)}
+
+          <Paper sx={{ flex: 1, p: 2, overflow: 'auto', bgcolor: 'grey.800', color: 'white' }}>
+            <Typography variant="overline" color="grey.400">
+              Speaker notes
+            </Typography>
+            <Typography sx={{ fontSize: '1.25rem', whiteSpace: 'pre-wrap' }}>
+              {notes || 'No speaker notes for this slide'}
+            </Typography>
+            {currentSlide?.presenterNotes && (
+              <List dense>
+                {currentSlide.presenterNotes.map((note, index) => (
+                  <ListItem key={index}>
+                    <ListItemText primary={note} />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -44,6 +44,7 @@ import {
 import { useAuth } from '@/hooks/useAuth';
 import {
   getUserPresentations,
+  getSharedPresentations,
   deletePresentation,
   duplicatePresentation,
   PresentationDocument,
@@ -51,6 +52,7 @@ import {
 import { format } from 'date-fns';
 import PodcastExportDialog from '@/components/PodcastExportDialog';
 import ExportDialog from '@/components/ExportDialog';
+import ShareDialog from '@/components/ShareDialog';
 
 export default function PresentationsPage() {
   const router = useRouter();
@@ -64,6 +66,7 @@ export default function PresentationsPage() {
   const [menuAnchor, setMenuAnchor] = useState<{ el: HTMLElement | null; id: string | null }>({ el: null, id: null });
   const [podcastDialog, setPodcastDialog] = useState<{ open: boolean; id: string | null; title: string }>({ open: false, id: null, title: '' });
   const [exportDialog, setExportDialog] = useState<{ open: boolean; presentation: PresentationDocument | null }>({ open: false, presentation: null });
+  const [shareDialog, setShareDialog] = useState<PresentationDocument | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -90,9 +93,14 @@ export default function PresentationsPage() {
     
     try {
       setLoading(true);
-      const userPresentations = await getUserPresentations(user.uid, 50);
-      setPresentations(userPresentations);
-      setFilteredPresentations(userPresentations);
+      const [userPresentations, sharedPresentations] = await Promise.all([
+        getUserPresentations(user.uid, 50),
+        // Invites are by email, and count once the address is verified
+        user.email && user.emailVerified ? getSharedPresentations(user.email, 50) : Promise.resolve([]),
+      ]);
+      const all = [...userPresentations, ...sharedPresentations];
+      setPresentations(all);
+      setFilteredPresentations(all);
     } catch (error) {
       console.error('Error loading presentations:', error);
     } finally {
@@ -129,6 +137,9 @@ export default function PresentationsPage() {
     }
   };
 
+  const menuPresentation = presentations.find(p => p.metadata.id === menuAnchor.id);
+  const ownsMenuPresentation = !!user && menuPresentation?.metadata.userId === user.uid;
+
   const formatDate = (date: any) => {
     if (!date) return 'Unknown date';
     
@@ -258,6 +269,9 @@ export default function PresentationsPage() {
                       color="primary"
                       variant="outlined"
                     />
+                    {presentation.metadata.userId !== user?.uid && (
+                      <Chip label="Shared with you" size="small" color="secondary" variant="outlined" />
+                    )}
                   </Box>
                   
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary', fontSize: '0.875rem' }}>
@@ -371,21 +385,26 @@ export default function PresentationsPage() {
           Export as Podcast
         </MenuItem>
         
-        <MenuItem onClick={() => {
-          // TODO: Implement sharing
-          setMenuAnchor({ el: null, id: null });
-        }}>
-          <Share sx={{ mr: 1 }} fontSize="small" />
-          Share
-        </MenuItem>
+        {/* Only the owner shares or deletes */}
+        {ownsMenuPresentation && (
+          <MenuItem onClick={() => {
+            setShareDialog(menuPresentation || null);
+            setMenuAnchor({ el: null, id: null });
+          }}>
+            <Share sx={{ mr: 1 }} fontSize="small" />
+            Share
+          </MenuItem>
+        )}
         
-        <MenuItem onClick={() => {
-          setDeleteDialog({ open: true, id: menuAnchor.id });
-          setMenuAnchor({ el: null, id: null });
-        }}>
-          <Delete sx={{ mr: 1 }} fontSize="small" />
-          Delete
-        </MenuItem>
+        {ownsMenuPresentation && (
+          <MenuItem onClick={() => {
+            setDeleteDialog({ open: true, id: menuAnchor.id });
+            setMenuAnchor({ el: null, id: null });
+          }}>
+            <Delete sx={{ mr: 1 }} fontSize="small" />
+            Delete
+          </MenuItem>
+        )}
       </Menu>
 
       {/* Delete Confirmation Dialog */}
@@ -416,6 +435,22 @@ export default function PresentationsPage() {
           onClose={() => setExportDialog({ open: false, presentation: null })}
           slides={exportDialog.presentation.slides || []}
           presentationTitle={exportDialog.presentation.metadata.title}
+          templateId={exportDialog.presentation.settings?.theme}
+          showSlideNumbers={exportDialog.presentation.settings?.showSlideNumbers}
+        />
+      )}
+      
+      {/* Share Dialog */}
+      {shareDialog && (
+        <ShareDialog
+          open
+          onClose={() => {
+            setShareDialog(null);
+            loadPresentations();
+          }}
+          presentationId={shareDialog.metadata.id}
+          isPublic={shareDialog.metadata.isPublic}
+          allowComments={shareDialog.settings?.allowComments !== false}
         />
       )}
       
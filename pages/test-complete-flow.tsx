@@ -27,6 +27,15 @@ import {
 } from '@mui/icons-material';
 import ImageGenerationProgress from '@/components/ImageGenerationProgress';
 import { useRouter } from 'next/router';
+import { auth } from '@/lib/firebase/config';
+
+// The API only returns presentations the signed-in user may view
+async function fetchPresentation(presentationId: string): Promise<Response> {
+  const idToken = await auth.currentUser?.getIdToken();
+  return fetch(`/api/presentations/${presentationId}`, {
+    headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
+  });
+}
 
 export default function TestCompleteFlow() {
   const router = useRouter();
@@ -125,7 +134,7 @@ export default function TestCompleteFlow() {
         await new Promise(resolve => setTimeout(resolve, 1000));
         
         // Check if images are ready (simplified check)
-        const checkResponse = await fetch(`/api/presentations/${genData.presentationId}`);
+        const checkResponse = await fetchPresentation(genData.presentationId);
         if (checkResponse.ok) {
           const checkData = await checkResponse.json();
           
@@ -355,7 +364,7 @@ export default function TestCompleteFlow() {
           onImagesReady={(slideImages) => {
             console.log('Images ready:', slideImages);
             // Refresh presentation data
-            fetch(`/api/presentations/${presentationId}`)
+            fetchPresentation(presentationId)
               .then(res => res.json())
               .then(data => setPresentationData(data))
               .catch(console.error);